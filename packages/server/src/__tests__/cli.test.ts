@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { execFile } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+const SERVER_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', '..');
+const CLI = path.join(SERVER_DIR, 'src', 'cli.ts');
+
+let tmpDir: string;
+let storePath: string;
+let remotePath: string;
+
+async function git(cwd: string, ...args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd });
+  return stdout.trim();
+}
+
+/** Run the CLI in a child process against the temp data dir */
+async function cli(...args: string[]): Promise<{ code: number; output: unknown }> {
+  const options = {
+    cwd: SERVER_DIR,
+    env: { ...process.env, HOME: path.join(tmpDir, 'home'), DATA_DIR: storePath },
+  };
+  try {
+    const { stdout } = await execFileAsync(
+      process.execPath,
+      ['--import', 'tsx', CLI, ...args],
+      options,
+    );
+    return { code: 0, output: JSON.parse(stdout) };
+  } catch (err) {
+    const { code, stdout } = err as { code?: number; stdout?: string };
+    return { code: code ?? -1, output: stdout ? JSON.parse(stdout) : null };
+  }
+}
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cli-test-'));
+  storePath = path.join(tmpDir, 'store');
+  remotePath = path.join(tmpDir, 'remote.git');
+  await fs.mkdir(path.join(tmpDir, 'home'), { recursive: true });
+  await fs.mkdir(storePath, { recursive: true });
+
+  // A store with a commit and a remote, and an identity that doesn't depend
+  // on the machine's git config
+  await git(tmpDir, 'init', '-q', '--bare', remotePath);
+  await git(storePath, 'init', '-q', '-b', 'main');
+  await git(storePath, 'config', 'user.name', 'Test');
+  await git(storePath, 'config', 'user.email', 'test@example.com');
+  await git(storePath, 'config', 'commit.gpgsign', 'false');
+  await fs.writeFile(path.join(storePath, '.gitignore'), '.db/\n.DS_Store\n');
+  await git(storePath, 'add', '.');
+  await git(storePath, 'commit', '-q', '-m', 'Initial store setup');
+  await git(storePath, 'remote', 'add', 'origin', remotePath);
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('ai-sync CLI', () => {
+  it('prints the status as JSON', async () => {
+    const { code, output } = await cli('status');
+
+    expect(code).toBe(0);
+    expect(output).toMatchObject({ dataDir: storePath, repos: [], services: [] });
+  }, 30_000);
+
+  it('prints unknown commands as a JSON error and exits with code 1', async () => {
+    expect(await cli('frobnicate')).toEqual({
+      code: 1,
+      output: { error: 'Unknown command: frobnicate' },
+    });
+    expect(await cli('conflicts', 'show')).toEqual({
+      code: 1,
+      output: { error: 'Unknown command: conflicts show' },
+    });
+  }, 30_000);
+
+  it('commits pending store changes before pushing', async () => {
+    const { code, output } = await cli('push');
+
+    expect(code).toBe(0);
+    expect(output).toEqual({ pushed: true, message: 'Pushed to origin/main' });
+    // Registering the machine on startup queues a commit, which must be pushed too
+    expect(await git(remotePath, 'log', '--format=%s', 'main')).toContain('machines.json');
+    expect(await git(remotePath, 'rev-parse', 'main')).toBe(
+      await git(storePath, 'rev-parse', 'HEAD'),
+    );
+  }, 30_000);
+});
@@ -12,10 +12,18 @@ import { registerSettingsRoutes } from './routes/settings.js';
 import { registerSyncRoutes } from './routes/sync.js';
 import { registerTemplateRoutes } from './routes/templates.js';
 import { registerCloneRoutes } from './routes/clone.js';
+import { registerSharedRoutes } from './routes/shared.js';
+import { registerRulesRoutes } from './routes/rules.js';
 import { registerServiceRoutes } from './routes/services.js';
 import { registerSetupRoutes } from './routes/setup.js';
 import { registerVersionRoutes } from './routes/version.js';
 import { registerMachineRoutes } from './routes/machines.js';
+import { registerSecretRoutes } from './routes/secrets.js';
+import { registerEncryptionRoutes } from './routes/encryption.js';
+import { registerTrashRoutes } from './routes/trash.js';
+import { registerHookRoutes } from './routes/hooks.js';
+import { registerProfileRoutes } from './routes/profiles.js';
+import { registerVariantRoutes } from './routes/variants.js';
 import { registerWsHandlers } from './ws/handlers.js';
 import type { AppState } from './app-state.js';
 
@@ -37,8 +45,16 @@ export async function buildApp(state: AppState) {
   registerSyncRoutes(app, state);
   registerTemplateRoutes(app, state);
   registerCloneRoutes(app, state);
+  registerSharedRoutes(app, state);
+  registerRulesRoutes(app, state);
   registerServiceRoutes(app, state);
   registerMachineRoutes(app, state);
+  registerSecretRoutes(app, state);
+  registerEncryptionRoutes(app, state);
+  registerTrashRoutes(app, state);
+  registerHookRoutes(app, state);
+  registerProfileRoutes(app, state);
+  registerVariantRoutes(app, state);
   registerVersionRoutes(app);
   registerWsHandlers(app, state);
 
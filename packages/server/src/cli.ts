@@ -0,0 +1,281 @@
+#!/usr/bin/env node
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import type Database from 'better-sqlite3';
+import { buildApp } from './app.js';
+import { initDb, loadCustomServiceDefinitions } from './db/index.js';
+import { config, isConfigured, ensureMachineId } from './config.js';
+import { initStoreRepo, flushPendingCommits, pullStoreChanges } from './services/store-git.js';
+import { SyncEngine } from './services/sync-engine.js';
+import { registerCurrentMachine } from './services/machines.js';
+import { restoreOrMigrateSettings } from './services/sync-settings.js';
+import type { AppState } from './app-state.js';
+
+type App = Awaited<ReturnType<typeof buildApp>>;
+
+const USAGE = `Usage: ai-sync <command> [options]
+
+Commands:
+  status                                  Show repos, services and pending conflicts
+  sync [repo]                             Force sync one repo, or all repos and services
+  scan [repo]                             Scan one repo, or all repos and services, for new files
+  conflicts list                          List pending conflicts
+  conflicts resolve <id> <resolution>     Resolve a conflict (keep_store | keep_target | delete | manual)
+      --content-file <path>               Resolved content for the manual resolution
+  pull                                    Pull store changes from remote and sync
+  push                                    Push store changes to remote
+  repos add <path>                        Register a repository
+      --name <name>                       Display name (defaults to the folder name)
+      --template <name>                   Apply a named template (e.g. default)
+      --gitignore                         Add tracked files to the repo's .gitignore
+  repos remove <repo>                     Unregister a repository
+      --delete-store-files                Also delete its files from the store
+  repos pause <repo>                      Pause syncing a repository
+  repos resume <repo>                     Resume syncing a repository
+  services add <serviceType>              Register a built-in or custom service
+      --instance <name>                   Add another instance of the type (e.g. work)
+      --path <path>                       Local folder (defaults to the type's default path)
+
+<repo> may be a repo id, name or local path. Output is JSON on stdout.
+Set DATA_DIR to target a specific data directory.`;
+
+/** Error raised for bad invocations; printed as JSON and exits with code 1 */
+class CliError extends Error {}
+
+/** Resolve a repo id from its id, name or local path */
+function findRepoId(db: Database.Database, ref: string): string {
+  const row = db
+    .prepare('SELECT id FROM repos WHERE id = ? OR name = ? OR local_path = ? LIMIT 1')
+    .get(ref, ref, path.resolve(ref)) as { id: string } | undefined;
+  if (!row) throw new CliError(`Repo not found: ${ref}`);
+  return row.id;
+}
+
+/** Dispatch a request to the route handlers without opening a port */
+async function request(
+  app: App,
+  method: 'GET' | 'POST' | 'DELETE',
+  url: string,
+  payload?: Record<string, unknown>,
+): Promise<unknown> {
+  const res = await app.inject({ method, url, payload });
+  const body = res.body ? JSON.parse(res.body) : null;
+  if (res.statusCode >= 400) {
+    throw new CliError(body?.error ?? `Request failed with status ${res.statusCode}`);
+  }
+  return body;
+}
+
+function requireArg(value: string | undefined, name: string): string {
+  if (!value) throw new CliError(`Missing argument: <${name}>`);
+  return value;
+}
+
+async function run(
+  app: App,
+  db: Database.Database,
+  syncEngine: SyncEngine,
+  args: string[],
+): Promise<unknown> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      name: { type: 'string' },
+      template: { type: 'string' },
+      gitignore: { type: 'boolean', default: false },
+      'delete-store-files': { type: 'boolean', default: false },
+      'content-file': { type: 'string' },
+      instance: { type: 'string' },
+      path: { type: 'string' },
+    },
+  });
+  const [command, sub, arg, arg2] = positionals;
+
+  switch (command) {
+    case 'status': {
+      const { repos } = (await request(app, 'GET', '/api/repos')) as { repos: unknown[] };
+      const { services } = (await request(app, 'GET', '/api/services')) as {
+        services: unknown[];
+      };
+      const { conflicts } = (await request(app, 'GET', '/api/conflicts')) as {
+        conflicts: unknown[];
+      };
+      return {
+        machine: { id: config.machineId, name: config.machineName },
+        dataDir: config.dataDir,
+        repos,
+        services,
+        pendingConflicts: conflicts.length,
+      };
+    }
+
+    case 'sync': {
+      if (sub) {
+        return request(app, 'POST', `/api/repos/${findRepoId(db, sub)}/sync`);
+      }
+      await syncEngine.syncAllRepos({ force: true });
+      await syncEngine.syncAllServices({ force: true });
+      return { success: true };
+    }
+
+    case 'scan': {
+      if (sub) {
+        return request(app, 'POST', `/api/repos/${findRepoId(db, sub)}/scan`);
+      }
+      const repos = db.prepare("SELECT id, name FROM repos WHERE status = 'active'").all() as {
+        id: string;
+        name: string;
+      }[];
+      const services = db
+        .prepare("SELECT id, name FROM service_configs WHERE status = 'active'")
+        .all() as { id: string; name: string }[];
+      const results: { type: 'repo' | 'service'; name: string; newFiles: string[] }[] = [];
+      for (const repo of repos) {
+        const { newFiles } = (await request(app, 'POST', `/api/repos/${repo.id}/scan`)) as {
+          newFiles: string[];
+        };
+        results.push({ type: 'repo', name: repo.name, newFiles });
+      }
+      for (const svc of services) {
+        const { newFiles } = (await request(app, 'POST', `/api/services/${svc.id}/scan`)) as {
+          newFiles: string[];
+        };
+        results.push({ type: 'service', name: svc.name, newFiles });
+      }
+      return { results };
+    }
+
+    case 'conflicts': {
+      if (sub === 'list') return request(app, 'GET', '/api/conflicts');
+      if (sub === 'resolve') {
+        const id = requireArg(arg, 'id');
+        const resolution = requireArg(arg2, 'resolution');
+        if (!['keep_store', 'keep_target', 'delete', 'manual'].includes(resolution)) {
+          throw new CliError(`Invalid resolution: ${resolution}`);
+        }
+        let content: string | undefined;
+        if (resolution === 'manual') {
+          const file = values['content-file'];
+          if (!file) throw new CliError('The manual resolution requires --content-file');
+          content = await fs.readFile(file, 'utf-8');
+        }
+        return request(app, 'POST', `/api/conflicts/${encodeURIComponent(id)}/resolve`, {
+          resolution,
+          content,
+        });
+      }
+      break;
+    }
+
+    case 'pull': {
+      // Mirrors POST /api/store/pull, but waits for the post-pull sync to
+      // finish since the process exits as soon as the command returns
+      syncEngine.enterPullMode();
+      try {
+        const result = await pullStoreChanges();
+        const hasConflicts = !!result.repoFileConflicts && result.repoFileConflicts.length > 0;
+        if (hasConflicts) {
+          await syncEngine.handleMergeConflicts(result.repoFileConflicts!);
+        }
+        if ((hasConflicts || result.pulled) && result.prePullCommitHash) {
+          await syncEngine.syncAfterPull(result.prePullCommitHash);
+        } else {
+          syncEngine.leavePullMode();
+        }
+        return result;
+      } catch (err) {
+        syncEngine.leavePullMode();
+        throw err;
+      }
+    }
+
+    case 'push':
+      // Startup (e.g. registering this machine) may have queued commits that
+      // would otherwise only be flushed on exit, after the push
+      await flushPendingCommits();
+      return request(app, 'POST', '/api/store/push');
+
+    case 'repos': {
+      if (sub === 'add') {
+        return request(app, 'POST', '/api/repos', {
+          localPath: path.resolve(requireArg(arg, 'path')),
+          name: values.name,
+          template: values.template,
+          modifyGitignore: values.gitignore,
+        });
+      }
+      if (sub === 'remove') {
+        const id = findRepoId(db, requireArg(arg, 'repo'));
+        const query = values['delete-store-files'] ? '?deleteStoreFiles=true' : '';
+        return request(app, 'DELETE', `/api/repos/${id}${query}`);
+      }
+      if (sub === 'pause' || sub === 'resume') {
+        const id = findRepoId(db, requireArg(arg, 'repo'));
+        return request(app, 'POST', `/api/repos/${id}/${sub}`);
+      }
+      break;
+    }
+
+    case 'services': {
+      if (sub === 'add') {
+        return request(app, 'POST', '/api/services', {
+          serviceType: requireArg(arg, 'serviceType'),
+          instance: values.instance,
+          localPath: values.path && path.resolve(values.path),
+        });
+      }
+      break;
+    }
+  }
+
+  throw new CliError(command ? `Unknown command: ${positionals.join(' ')}` : 'Missing command');
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  if (args.length === 0 || args[0] === 'help' || args.includes('--help')) {
+    console.log(USAGE);
+    return;
+  }
+
+  // Keep stdout reserved for the JSON result — engine and store logs go to stderr
+  const writeOut = console.log.bind(console);
+  console.log = console.error.bind(console);
+
+  if (!isConfigured()) {
+    throw new CliError('Not configured — run the setup in the UI first or set DATA_DIR');
+  }
+
+  ensureMachineId();
+  const db = initDb(config.dbPath);
+  loadCustomServiceDefinitions(db);
+  await initStoreRepo();
+  restoreOrMigrateSettings(db);
+  registerCurrentMachine();
+
+  const syncEngine = new SyncEngine(db);
+  const state: AppState = { db, syncEngine };
+  const app = await buildApp(state);
+
+  try {
+    const result = await run(app, db, syncEngine, args);
+    writeOut(JSON.stringify(result, null, 2));
+  } finally {
+    // Routes may start watchers or queue debounced commits — settle both before exiting
+    await syncEngine.stop();
+    await flushPendingCommits();
+    await app.close();
+    db.close();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    const message = err instanceof Error ? err.message : String(err);
+    process.stdout.write(JSON.stringify({ error: message }, null, 2) + '\n');
+    if (!(err instanceof CliError)) console.error(err);
+    process.exit(1);
+  });
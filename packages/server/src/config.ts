@@ -11,6 +11,8 @@ const isDev = process.env.NODE_ENV !== 'production' && !!process.env.DEV;
 
 const APP_CONFIG_DIR = path.join(os.homedir(), '.ai-sync');
 const APP_CONFIG_FILE = path.join(APP_CONFIG_DIR, 'config.json');
+// Machine-local values for ${secret:NAME} placeholders — never part of the store
+const LOCAL_SECRETS_FILE = path.join(APP_CONFIG_DIR, 'secrets.json');
 
 // Legacy paths for backward compatibility
 const LEGACY_CONFIG_DIR = path.join(os.homedir(), '.local-ai-stuffs');
@@ -20,12 +22,11 @@ interface AppConfig {
   dataDir: string;
   machineId?: string;
   machineName?: string;
+  /** Key for encrypted store files, derived from the store passphrase (base64) */
+  encryptionKey?: string;
 }
 
-function readAppConfig(): AppConfig | null {
-  if (process.env.DATA_DIR) {
-    return { dataDir: process.env.DATA_DIR };
-  }
+function readConfigFile(): AppConfig | null {
   // Try new config path first, then fall back to legacy
   for (const configFile of [APP_CONFIG_FILE, LEGACY_CONFIG_FILE]) {
     try {
@@ -36,6 +37,7 @@ function readAppConfig(): AppConfig | null {
           dataDir: parsed.dataDir,
           machineId: parsed.machineId,
           machineName: parsed.machineName,
+          encryptionKey: parsed.encryptionKey,
         };
       }
     } catch {
@@ -45,9 +47,33 @@ function readAppConfig(): AppConfig | null {
   return null;
 }
 
+function readAppConfig(): AppConfig | null {
+  if (process.env.DATA_DIR) {
+    // DATA_DIR overrides the data directory only — keep the machine identity
+    // from the config file so repeated runs don't register a new machine
+    const fileCfg = readConfigFile();
+    return {
+      dataDir: process.env.DATA_DIR,
+      machineId: fileCfg?.machineId,
+      machineName: fileCfg?.machineName,
+      encryptionKey: fileCfg?.encryptionKey,
+    };
+  }
+  return readConfigFile();
+}
+
 function writeAppConfig(appCfg: AppConfig): void {
   fs.mkdirSync(APP_CONFIG_DIR, { recursive: true });
-  fs.writeFileSync(APP_CONFIG_FILE, JSON.stringify(appCfg, null, 2), 'utf-8');
+  // Owner-only: the config may hold the store encryption key
+  fs.writeFileSync(APP_CONFIG_FILE, JSON.stringify(appCfg, null, 2), {
+    encoding: 'utf-8',
+    mode: 0o600,
+  });
+}
+
+/** Persist machine-level fields without replacing the configured dataDir with DATA_DIR */
+function writeMachineIdentity(appCfg: AppConfig): void {
+  writeAppConfig({ ...appCfg, dataDir: readConfigFile()?.dataDir || appCfg.dataDir });
 }
 
 function buildDataPaths(dataDir: string) {
@@ -60,6 +86,10 @@ function buildDataPaths(dataDir: string) {
     storePath: dataDir,
     storeReposPath: path.join(dataDir, 'repos'),
     storeServicesPath: path.join(dataDir, 'services'),
+    storeTemplatesPath: path.join(dataDir, 'templates'),
+    storeSharedPath: path.join(dataDir, 'shared'),
+    storeRulesPath: path.join(dataDir, 'rules'),
+    storeProfilesPath: path.join(dataDir, 'profiles'),
     dbPath,
   };
 }
@@ -79,9 +109,15 @@ export const config = {
   storePath: dataPaths?.storePath || '',
   storeReposPath: dataPaths?.storeReposPath || '',
   storeServicesPath: dataPaths?.storeServicesPath || '',
+  storeTemplatesPath: dataPaths?.storeTemplatesPath || '',
+  storeSharedPath: dataPaths?.storeSharedPath || '',
+  storeRulesPath: dataPaths?.storeRulesPath || '',
+  storeProfilesPath: dataPaths?.storeProfilesPath || '',
   dbPath: dataPaths?.dbPath || '',
   machineId: appConfig?.machineId || '',
   machineName: appConfig?.machineName || '',
+  encryptionKey: appConfig?.encryptionKey || '',
+  localSecretsPath: LOCAL_SECRETS_FILE,
 };
 
 export function isConfigured(): boolean {
@@ -98,6 +134,7 @@ export function configure(dataDir: string): void {
     dataDir,
     machineId: existing?.machineId,
     machineName: existing?.machineName,
+    encryptionKey: existing?.encryptionKey,
   };
   writeAppConfig(appCfg);
 
@@ -106,6 +143,10 @@ export function configure(dataDir: string): void {
   config.storePath = paths.storePath;
   config.storeReposPath = paths.storeReposPath;
   config.storeServicesPath = paths.storeServicesPath;
+  config.storeTemplatesPath = paths.storeTemplatesPath;
+  config.storeSharedPath = paths.storeSharedPath;
+  config.storeRulesPath = paths.storeRulesPath;
+  config.storeProfilesPath = paths.storeProfilesPath;
   config.dbPath = paths.dbPath;
 }
 
@@ -119,9 +160,14 @@ export function resetConfig(): void {
   config.storePath = '';
   config.storeReposPath = '';
   config.storeServicesPath = '';
+  config.storeTemplatesPath = '';
+  config.storeSharedPath = '';
+  config.storeRulesPath = '';
+  config.storeProfilesPath = '';
   config.dbPath = '';
   config.machineId = '';
   config.machineName = '';
+  config.encryptionKey = '';
 }
 
 export function ensureMachineId(): void {
@@ -138,7 +184,7 @@ export function ensureMachineId(): void {
     changed = true;
   }
   if (changed) {
-    writeAppConfig(appCfg);
+    writeMachineIdentity(appCfg);
   }
   config.machineId = appCfg.machineId;
   config.machineName = appCfg.machineName!;
@@ -148,6 +194,15 @@ export function updateMachineName(name: string): void {
   const appCfg = readAppConfig();
   if (!appCfg) return;
   appCfg.machineName = name;
-  writeAppConfig(appCfg);
+  writeMachineIdentity(appCfg);
   config.machineName = name;
 }
+
+/** Store (or with null, forget) this machine's key for encrypted store files */
+export function setEncryptionKey(key: string | null): void {
+  config.encryptionKey = key ?? '';
+  const appCfg = readAppConfig();
+  if (!appCfg) return;
+  appCfg.encryptionKey = key ?? undefined;
+  writeMachineIdentity(appCfg);
+}
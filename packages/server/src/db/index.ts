@@ -242,12 +242,13 @@ export function getRepoEffectiveSettings(
  * Overrides are stored in service_settings as:
  *   - "service_pattern_default:<pattern>" = "enabled" | "disabled"  (toggle predefined)
  *   - "service_pattern_custom:<pattern>" = "enabled" | "disabled"   (custom pattern)
+ *   - "service_pattern_encrypt:<pattern>" = "enabled"                (store encrypted)
  */
 export function getServiceEffectivePatterns(
   database: Database.Database,
   serviceConfigId: string,
   defaultPatterns: string[],
-): { pattern: string; enabled: boolean; source: 'default' | 'custom' }[] {
+): { pattern: string; enabled: boolean; encrypt: boolean; source: 'default' | 'custom' }[] {
   const overrides = database
     .prepare(
       "SELECT key, value FROM service_settings WHERE service_config_id = ? AND key LIKE 'service_pattern_%'",
@@ -255,8 +256,11 @@ export function getServiceEffectivePatterns(
     .all(serviceConfigId) as { key: string; value: string }[];
 
   const overrideMap = new Map<string, { type: 'default' | 'custom'; enabled: boolean }>();
+  const encryptSet = new Set<string>();
   for (const o of overrides) {
-    if (o.key.startsWith('service_pattern_default:')) {
+    if (o.key.startsWith('service_pattern_encrypt:')) {
+      encryptSet.add(o.key.slice('service_pattern_encrypt:'.length));
+    } else if (o.key.startsWith('service_pattern_default:')) {
       const pattern = o.key.slice('service_pattern_default:'.length);
       overrideMap.set(pattern, { type: 'default', enabled: o.value === 'enabled' });
     } else if (o.key.startsWith('service_pattern_custom:')) {
@@ -265,23 +269,32 @@ export function getServiceEffectivePatterns(
     }
   }
 
+  type Entry = {
+    pattern: string;
+    enabled: boolean;
+    encrypt: boolean;
+    source: 'default' | 'custom';
+  };
+
   // Custom patterns first
-  const customPatterns: { pattern: string; enabled: boolean; source: 'default' | 'custom' }[] = [];
+  const customPatterns: Entry[] = [];
   for (const [pattern, info] of overrideMap) {
     if (info.type === 'custom') {
-      customPatterns.push({ pattern, enabled: info.enabled, source: 'custom' });
+      customPatterns.push({
+        pattern,
+        enabled: info.enabled,
+        encrypt: encryptSet.has(pattern),
+        source: 'custom',
+      });
     }
   }
 
   // Then default patterns (with overrides applied)
-  const defaultResult: { pattern: string; enabled: boolean; source: 'default' | 'custom' }[] = [];
+  const defaultResult: Entry[] = [];
   for (const dp of defaultPatterns) {
     const override = overrideMap.get(dp);
-    if (override && override.type === 'default') {
-      defaultResult.push({ pattern: dp, enabled: override.enabled, source: 'default' });
-    } else {
-      defaultResult.push({ pattern: dp, enabled: true, source: 'default' });
-    }
+    const enabled = override && override.type === 'default' ? override.enabled : true;
+    defaultResult.push({ pattern: dp, enabled, encrypt: encryptSet.has(dp), source: 'default' });
   }
 
   return [...customPatterns, ...defaultResult];
@@ -81,6 +81,7 @@ export const DEFAULT_PATTERNS = [
   '.mcp.json',
   '.opencode/**',
   '.windsurfrules',
+  'AGENTS.md',
   'CLAUDE.md',
   'GEMINI.md',
 ];
@@ -106,6 +107,11 @@ export const DEFAULT_SETTINGS: Record<string, string> = {
   size_danger_mb: '50',
   size_blocked_mb: '100',
   hide_paused_cards: 'false',
+  secret_scan_mode: 'off',
+  secret_custom_rules: '[]',
+  json_union_paths: 'permissions.allow, permissions.deny, permissions.ask',
+  trash_retention_days: '30',
+  hook_concurrency: '2',
 };
 
 export function initSchema(db: Database.Database): void {
@@ -248,6 +254,116 @@ function runMigrations(db: Database.Database): void {
         ALTER TABLE service_configs ADD COLUMN icon_path TEXT DEFAULT NULL;
       `,
     },
+    {
+      version: 11,
+      sql: `
+        CREATE TABLE IF NOT EXISTS secret_findings (
+          id              TEXT PRIMARY KEY,
+          tracked_file_id TEXT NOT NULL REFERENCES tracked_files(id) ON DELETE CASCADE,
+          rule_id         TEXT NOT NULL,
+          rule_name       TEXT NOT NULL,
+          line            INTEGER NOT NULL,
+          preview         TEXT NOT NULL,
+          fingerprint     TEXT NOT NULL,
+          action          TEXT NOT NULL,
+          allowed         INTEGER NOT NULL DEFAULT 0,
+          created_at      TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+        CREATE INDEX IF NOT EXISTS idx_secret_findings_file ON secret_findings(tracked_file_id);
+      `,
+    },
+    {
+      version: 12,
+      sql: `ALTER TABLE file_patterns ADD COLUMN encrypt INTEGER NOT NULL DEFAULT 0`,
+    },
+    {
+      version: 13,
+      sql: `ALTER TABLE tracked_files ADD COLUMN shared_checksum TEXT`,
+    },
+    {
+      version: 14,
+      sql: `ALTER TABLE conflicts ADD COLUMN is_binary INTEGER NOT NULL DEFAULT 0`,
+    },
+    {
+      version: 15,
+      sql: `ALTER TABLE conflicts ADD COLUMN json_conflicts TEXT`,
+    },
+    {
+      version: 16,
+      sql: `ALTER TABLE conflicts ADD COLUMN section_conflicts TEXT`,
+    },
+    {
+      version: 17,
+      sql: `
+        CREATE TABLE IF NOT EXISTS trash_items (
+          id             TEXT PRIMARY KEY,
+          origin         TEXT NOT NULL,
+          target_type    TEXT NOT NULL,
+          target_id      TEXT NOT NULL,
+          target_name    TEXT NOT NULL,
+          store_path     TEXT NOT NULL,
+          relative_path  TEXT NOT NULL,
+          source         TEXT NOT NULL,
+          content        BLOB NOT NULL,
+          is_binary      INTEGER NOT NULL DEFAULT 0,
+          size           INTEGER NOT NULL,
+          machine_id     TEXT NOT NULL,
+          machine_name   TEXT NOT NULL,
+          deleted_at     TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+        CREATE INDEX IF NOT EXISTS idx_trash_items_deleted_at ON trash_items(deleted_at);
+      `,
+    },
+    {
+      version: 18,
+      sql: `
+        CREATE TABLE IF NOT EXISTS hooks (
+          id           TEXT PRIMARY KEY,
+          name         TEXT NOT NULL,
+          enabled      INTEGER NOT NULL DEFAULT 1,
+          events       TEXT NOT NULL DEFAULT '[]',
+          target_glob  TEXT,
+          path_glob    TEXT,
+          action       TEXT NOT NULL,
+          command      TEXT,
+          url          TEXT,
+          timeout_ms   INTEGER NOT NULL DEFAULT 10000,
+          created_at   TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+      `,
+    },
+    {
+      version: 19,
+      sql: `
+        -- Recreate service_configs without UNIQUE on service_type, so a type
+        -- can have several instances (each with its own store path).
+        -- Foreign keys are off so dropping the old table keeps child rows.
+        PRAGMA foreign_keys = OFF;
+
+        CREATE TABLE service_configs_new (
+          id            TEXT PRIMARY KEY,
+          service_type  TEXT NOT NULL,
+          name          TEXT NOT NULL,
+          local_path    TEXT NOT NULL,
+          store_path    TEXT NOT NULL UNIQUE,
+          status        TEXT NOT NULL DEFAULT 'active',
+          created_at    TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at    TEXT NOT NULL DEFAULT (datetime('now')),
+          description   TEXT NOT NULL DEFAULT '',
+          icon_path     TEXT DEFAULT NULL
+        );
+
+        INSERT INTO service_configs_new (id, service_type, name, local_path, store_path, status, created_at, updated_at, description, icon_path)
+          SELECT id, service_type, name, local_path, store_path, status, created_at, updated_at, description, icon_path FROM service_configs;
+
+        DROP TABLE service_configs;
+        ALTER TABLE service_configs_new RENAME TO service_configs;
+
+        CREATE INDEX IF NOT EXISTS idx_service_configs_type ON service_configs(service_type);
+
+        PRAGMA foreign_keys = ON;
+      `,
+    },
   ];
 
   for (const m of migrations) {
@@ -1,12 +1,15 @@
 import type { FastifyInstance } from 'fastify';
 import fs from 'node:fs/promises';
 import path from 'node:path';
-import { resolveConflict } from '../services/conflict-detector.js';
+import {
+  resolveConflict,
+  hasConflictMarkers,
+  parseMergeConflicts,
+} from '../services/conflict-detector.js';
 import { clearNotifiedConflict } from '../services/notifier.js';
-import { ensureDir } from '../services/repo-scanner.js';
-import { fileChecksum } from '../services/checksum.js';
-import { getFileMtime } from '../services/repo-scanner.js';
 import { commitStoreChanges } from '../services/store-git.js';
+import { moveToTrash } from '../services/trash.js';
+import { readStoreFile } from '../services/store-encryption.js';
 import type { ConflictWithDetails } from '../types/index.js';
 import type { AppState } from '../app-state.js';
 import { mapRow, mapRows } from '../db/index.js';
@@ -30,14 +33,14 @@ async function refreshConflictContent(
   // Only refresh content from disk if the conflict record doesn't already
   // have stored content. Merge-abort conflicts store the ours/theirs content
   // directly in the DB because the on-disk files revert to pre-merge state.
-  if (conflict.storeContent == null) {
+  if (conflict.storeContent == null && !conflict.isBinary) {
     try {
-      conflict.storeContent = await fs.readFile(storeFilePath, 'utf-8');
+      conflict.storeContent = await readStoreFile(storeFilePath);
     } catch {
       // File may have been deleted
     }
   }
-  if (conflict.targetContent == null) {
+  if (conflict.targetContent == null && !conflict.isBinary) {
     try {
       conflict.targetContent = await fs.readFile(targetFilePath, 'utf-8');
     } catch {
@@ -69,7 +72,7 @@ export function registerConflictRoutes(app: FastifyInstance, state: AppState): v
       )
       .all();
 
-    const result = mapRows<ConflictWithDetails>(conflicts);
+    const result = mapRows<ConflictWithDetails>(conflicts).map(parseMergeConflicts);
 
     return { conflicts: result };
   });
@@ -99,7 +102,7 @@ export function registerConflictRoutes(app: FastifyInstance, state: AppState): v
     const conflict = mapRow<
       ConflictWithDetails & { localPath: string; storePath: string; targetType: 'repo' | 'service' }
     >(row);
-    return await refreshConflictContent(conflict);
+    return await refreshConflictContent(parseMergeConflicts(conflict));
   });
 
   // Get pending conflict by tracked file id (reads fresh file content from disk)
@@ -133,7 +136,7 @@ export function registerConflictRoutes(app: FastifyInstance, state: AppState): v
           targetType: 'repo' | 'service';
         }
       >(row);
-      return await refreshConflictContent(conflict);
+      return await refreshConflictContent(parseMergeConflicts(conflict));
     },
   );
 
@@ -142,11 +145,22 @@ export function registerConflictRoutes(app: FastifyInstance, state: AppState): v
     Params: { id: string };
     Body: { resolution: 'keep_store' | 'keep_target' | 'manual' | 'delete'; content?: string };
   }>('/api/conflicts/:id/resolve', async (req, reply) => {
-    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+    if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
     const db = state.db;
 
     const { resolution, content: manualContent } = req.body;
 
+    // A merged result must be fully resolved before it is written to both sides
+    if (resolution === 'manual' && manualContent && hasConflictMarkers(manualContent)) {
+      return reply.code(400).send({ error: 'Merged content still contains conflict markers' });
+    }
+    const binary = db.prepare('SELECT is_binary FROM conflicts WHERE id = ?').get(req.params.id) as
+      | { is_binary: number }
+      | undefined;
+    if (resolution === 'manual' && binary?.is_binary) {
+      return reply.code(400).send({ error: 'Binary conflicts are resolved by keeping one side' });
+    }
+
     const result = await resolveConflict(db, req.params.id, resolution, manualContent);
     if (!result) {
       return reply.code(404).send({ error: 'Conflict not found' });
@@ -154,16 +168,23 @@ export function registerConflictRoutes(app: FastifyInstance, state: AppState): v
 
     const conflict = db
       .prepare(
-        `SELECT tf.id as tracked_file_id FROM conflicts c
+        `SELECT tf.id as tracked_file_id, tf.relative_path FROM conflicts c
          JOIN tracked_files tf ON c.tracked_file_id = tf.id
          WHERE c.id = ?`,
       )
-      .get(req.params.id) as { tracked_file_id: string };
+      .get(req.params.id) as { tracked_file_id: string; relative_path: string };
 
     clearNotifiedConflict(conflict.tracked_file_id);
 
     if (result.deleted) {
-      // Delete both files and remove tracking
+      // Keep a copy in the trash, then delete both files and remove tracking
+      await moveToTrash(db, {
+        origin: 'conflict_deleted',
+        target: result.target,
+        relativePath: conflict.relative_path,
+        storeFilePath: result.storeFilePath,
+        targetFilePath: result.targetFilePath,
+      });
       try {
         await fs.unlink(result.storeFilePath);
       } catch {
@@ -176,18 +197,12 @@ export function registerConflictRoutes(app: FastifyInstance, state: AppState): v
       }
       db.prepare('DELETE FROM tracked_files WHERE id = ?').run(conflict.tracked_file_id);
     } else {
-      // Write resolved content to both locations
-      await ensureDir(path.dirname(result.storeFilePath));
-      await ensureDir(path.dirname(result.targetFilePath));
-      await fs.writeFile(result.storeFilePath, result.content, 'utf-8');
-      await fs.writeFile(result.targetFilePath, result.content, 'utf-8');
-
-      // Update tracked file checksums
-      const checksum = await fileChecksum(result.storeFilePath);
-      const mtime = await getFileMtime(result.storeFilePath);
-      db.prepare(
-        `UPDATE tracked_files SET store_checksum = ?, target_checksum = ?, store_mtime = ?, target_mtime = ?, last_synced_at = datetime('now') WHERE id = ?`,
-      ).run(checksum, checksum, mtime, mtime, conflict.tracked_file_id);
+      // Write the resolved content the way a sync would
+      await state.syncEngine.writeResolvedContent(
+        conflict.tracked_file_id,
+        result.content,
+        result.binary,
+      );
     }
 
     await commitStoreChanges(`[${result.repoName}] Resolve conflict: ${resolution}`);
@@ -203,7 +218,7 @@ export function registerConflictRoutes(app: FastifyInstance, state: AppState): v
       resolution: 'keep_store' | 'keep_target' | 'delete';
     };
   }>('/api/conflicts/bulk-resolve', async (req, reply) => {
-    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+    if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
     const db = state.db;
 
     const { repoId, serviceId, resolution } = req.body;
@@ -236,15 +251,22 @@ export function registerConflictRoutes(app: FastifyInstance, state: AppState): v
 
       const tf = db
         .prepare(
-          `SELECT tf.id as tracked_file_id FROM conflicts c
+          `SELECT tf.id as tracked_file_id, tf.relative_path FROM conflicts c
            JOIN tracked_files tf ON c.tracked_file_id = tf.id
            WHERE c.id = ?`,
         )
-        .get(conflict.id) as { tracked_file_id: string };
+        .get(conflict.id) as { tracked_file_id: string; relative_path: string };
 
       clearNotifiedConflict(tf.tracked_file_id);
 
       if (result.deleted) {
+        await moveToTrash(db, {
+          origin: 'conflict_deleted',
+          target: result.target,
+          relativePath: tf.relative_path,
+          storeFilePath: result.storeFilePath,
+          targetFilePath: result.targetFilePath,
+        });
         try {
           await fs.unlink(result.storeFilePath);
         } catch {
@@ -257,16 +279,11 @@ export function registerConflictRoutes(app: FastifyInstance, state: AppState): v
         }
         db.prepare('DELETE FROM tracked_files WHERE id = ?').run(tf.tracked_file_id);
       } else {
-        await ensureDir(path.dirname(result.storeFilePath));
-        await ensureDir(path.dirname(result.targetFilePath));
-        await fs.writeFile(result.storeFilePath, result.content, 'utf-8');
-        await fs.writeFile(result.targetFilePath, result.content, 'utf-8');
-
-        const checksum = await fileChecksum(result.storeFilePath);
-        const mtime = await getFileMtime(result.storeFilePath);
-        db.prepare(
-          `UPDATE tracked_files SET store_checksum = ?, target_checksum = ?, store_mtime = ?, target_mtime = ?, last_synced_at = datetime('now') WHERE id = ?`,
-        ).run(checksum, checksum, mtime, mtime, tf.tracked_file_id);
+        await state.syncEngine.writeResolvedContent(
+          tf.tracked_file_id,
+          result.content,
+          result.binary,
+        );
       }
       resolved++;
     }
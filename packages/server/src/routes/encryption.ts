@@ -0,0 +1,39 @@
+import type { FastifyInstance } from 'fastify';
+import type { AppState } from '../app-state.js';
+import { getEncryptionStatus, setEncryptionPassphrase } from '../services/store-encryption.js';
+import { queueStoreCommit } from '../services/store-git.js';
+
+export function registerEncryptionRoutes(app: FastifyInstance, state: AppState): void {
+  // Whether the store uses encryption and whether this machine has the key
+  app.get('/api/encryption', async (_req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+    return getEncryptionStatus();
+  });
+
+  // Set the passphrase (first machine) or unlock with it (other machines)
+  app.put<{ Body: { passphrase: string } }>('/api/encryption/passphrase', async (req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+
+    const { passphrase } = req.body ?? {};
+    if (typeof passphrase !== 'string' || passphrase.length < 8) {
+      return reply.code(400).send({ error: 'Passphrase must be at least 8 characters' });
+    }
+
+    let created: boolean;
+    try {
+      created = setEncryptionPassphrase(passphrase);
+    } catch (err) {
+      return reply
+        .code(400)
+        .send({ error: err instanceof Error ? err.message : 'Invalid passphrase' });
+    }
+    if (created) queueStoreCommit('Enable store encryption');
+
+    // Files that couldn't be decrypted without the key can sync now
+    if (state.syncEngine) {
+      await state.syncEngine.syncAllRepos();
+      await state.syncEngine.syncAllServices();
+    }
+    return getEncryptionStatus();
+  });
+}
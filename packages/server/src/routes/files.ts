@@ -3,11 +3,38 @@ import fs from 'node:fs/promises';
 import path from 'node:path';
 import { v4 as uuid } from 'uuid';
 import { config } from '../config.js';
-import { fileChecksum } from '../services/checksum.js';
+import { contentChecksum } from '../services/checksum.js';
 import { getFileMtime, ensureDir, fileExists, isSymlink } from '../services/repo-scanner.js';
 import type { Repo, TrackedFile } from '../types/index.js';
 import type { AppState } from '../app-state.js';
 import { mapRow, mapRows } from '../db/index.js';
+import {
+  getFileHistory,
+  getCommittedBuffer,
+  getCommittedContentAt,
+} from '../services/store-git.js';
+import {
+  decodeFileContent,
+  isBinaryContent,
+  toBinaryFileContent,
+} from '../services/binary-files.js';
+import { findTrackedFileForAction, isValidCommitHash } from '../services/file-history.js';
+import { getFileLink, setFileLink } from '../services/linked-files.js';
+import {
+  getRulesTargets,
+  getRulesToolForFile,
+  setRulesTargets,
+} from '../services/canonical-rules.js';
+import { syncSettingsUpdateRepo } from '../services/sync-settings.js';
+import { moveToTrash } from '../services/trash.js';
+import {
+  readStoreFile,
+  readStoreBytes,
+  decodeStoreBytes,
+  encodeStoreContent,
+  encodeStoreBytes,
+  EncryptionKeyMissingError,
+} from '../services/store-encryption.js';
 import {
   safeJoin,
   validateSymlinkTarget,
@@ -47,7 +74,10 @@ export function registerFileRoutes(app: FastifyInstance, state: AppState): void
   });
 
   // Get file content (from store)
-  app.get<{ Params: { id: string; '*': string } }>('/api/repos/:id/files/*', async (req, reply) => {
+  app.get<{
+    Params: { id: string; '*': string };
+    Querystring: { commit?: string; limit?: string };
+  }>('/api/repos/:id/files/*', async (req, reply) => {
     if (!state.db) return reply.code(503).send({ error: 'Not configured' });
     const db = state.db;
 
@@ -55,6 +85,20 @@ export function registerFileRoutes(app: FastifyInstance, state: AppState): void
     const repo = mapRow<Repo>(db.prepare('SELECT * FROM repos WHERE id = ?').get(req.params.id));
     if (!repo) return reply.code(404).send({ error: 'Repo not found' });
 
+    // Commit history of a tracked file: GET /api/repos/:id/files/<path>/history
+    const historyFile = findTrackedFileForAction(db, 'repo_id', repo.id, filePath, 'history');
+    if (historyFile) {
+      const limit = req.query.limit === undefined ? 50 : Number(req.query.limit);
+      if (!Number.isInteger(limit) || limit < 1) {
+        return reply.code(400).send({ error: 'limit must be a positive integer' });
+      }
+      const revisions = await getFileHistory(
+        `${repo.storePath}/${historyFile.relativePath}`,
+        limit,
+      );
+      return { path: historyFile.relativePath, revisions };
+    }
+
     const storeName = repo.storePath.replace(/^repos\//, '');
     let storeFilePath: string;
     try {
@@ -65,130 +109,211 @@ export function registerFileRoutes(app: FastifyInstance, state: AppState): void
       throw err;
     }
 
+    // Content at a past revision (?commit=<hash>)
+    if (req.query.commit) {
+      if (!isValidCommitHash(req.query.commit)) {
+        return reply.code(400).send({ error: 'Invalid commit' });
+      }
+      const gitPath = `${repo.storePath}/${filePath}`;
+      const committed = await getCommittedBuffer(gitPath, req.query.commit);
+      if (committed === null) {
+        return reply.code(404).send({ error: 'File not found at that revision' });
+      }
+      const bytes = decodeStoreBytes(committed);
+      if (isBinaryContent(bytes)) {
+        return {
+          ...toBinaryFileContent(bytes, filePath),
+          path: filePath,
+          commit: req.query.commit,
+        };
+      }
+      const content = await getCommittedContentAt(gitPath, req.query.commit);
+      return { type: 'file' as const, content, path: filePath, commit: req.query.commit };
+    }
+
     try {
       // Check if it's a symlink in store
       if (await isSymlink(storeFilePath)) {
         const target = await fs.readlink(storeFilePath);
         return { type: 'symlink' as const, target, path: filePath };
       }
-      const content = await fs.readFile(storeFilePath, 'utf-8');
+      const bytes = await readStoreBytes(storeFilePath);
+      if (isBinaryContent(bytes)) {
+        return { ...toBinaryFileContent(bytes, filePath), path: filePath };
+      }
+      const content = await readStoreFile(storeFilePath);
       return { type: 'file' as const, content, path: filePath };
-    } catch {
+    } catch (err) {
+      if (err instanceof EncryptionKeyMissingError) {
+        return reply.code(409).send({ error: err.message });
+      }
       return reply.code(404).send({ error: 'File not found in store' });
     }
   });
 
   // Update file content (writes to store, triggers sync)
-  app.put<{ Params: { id: string; '*': string }; Body: { content?: string; target?: string } }>(
-    '/api/repos/:id/files/*',
-    async (req, reply) => {
-      if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
-      const db = state.db;
-      const syncEngine = state.syncEngine;
+  app.put<{
+    Params: { id: string; '*': string };
+    Body: { content?: string; encoding?: 'base64'; target?: string };
+  }>('/api/repos/:id/files/*', async (req, reply) => {
+    if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
+    const db = state.db;
+    const syncEngine = state.syncEngine;
 
-      const filePath = req.params['*'];
-      const repo = mapRow<Repo>(db.prepare('SELECT * FROM repos WHERE id = ?').get(req.params.id));
-      if (!repo) return reply.code(404).send({ error: 'Repo not found' });
+    const filePath = req.params['*'];
+    const repo = mapRow<Repo>(db.prepare('SELECT * FROM repos WHERE id = ?').get(req.params.id));
+    if (!repo) return reply.code(404).send({ error: 'Repo not found' });
 
-      const storeName = repo.storePath.replace(/^repos\//, '');
-      let storeFilePath: string;
+    const storeName = repo.storePath.replace(/^repos\//, '');
+    let storeFilePath: string;
+    try {
+      storeFilePath = safeJoin(config.storeReposPath, storeName, filePath);
+    } catch (err) {
+      if (err instanceof PathTraversalError)
+        return reply.code(400).send({ error: 'Invalid file path' });
+      throw err;
+    }
+
+    const trackedFile = mapRow<TrackedFile>(
+      db
+        .prepare('SELECT * FROM tracked_files WHERE repo_id = ? AND relative_path = ?')
+        .get(repo.id, filePath),
+    );
+
+    if (trackedFile?.fileType === 'symlink' && req.body.target !== undefined) {
+      // Validate symlink target before creating
       try {
-        storeFilePath = safeJoin(config.storeReposPath, storeName, filePath);
+        validateSymlinkTarget(req.body.target);
       } catch (err) {
-        if (err instanceof PathTraversalError)
-          return reply.code(400).send({ error: 'Invalid file path' });
+        if (err instanceof SymlinkTargetError) return reply.code(400).send({ error: err.message });
         throw err;
       }
+      // Update symlink target
+      try {
+        await fs.unlink(storeFilePath);
+      } catch {
+        // May not exist
+      }
+      await ensureDir(path.dirname(storeFilePath));
+      await fs.symlink(req.body.target, storeFilePath);
+    } else if (req.body.content !== undefined) {
+      const content = decodeFileContent(req.body.content, req.body.encoding);
+      let storeContent: string | Buffer;
+      try {
+        storeContent =
+          typeof content === 'string'
+            ? encodeStoreContent(
+                db,
+                { repoId: repo.id, serviceConfigId: null, relativePath: filePath },
+                content,
+              )
+            : encodeStoreBytes(
+                db,
+                { repoId: repo.id, serviceConfigId: null, relativePath: filePath },
+                content,
+              );
+      } catch (err) {
+        if (err instanceof EncryptionKeyMissingError)
+          return reply.code(409).send({ error: err.message });
+        throw err;
+      }
+      await ensureDir(path.dirname(storeFilePath));
+      await fs.writeFile(storeFilePath, storeContent);
 
-      const trackedFile = mapRow<TrackedFile>(
-        db
-          .prepare('SELECT * FROM tracked_files WHERE repo_id = ? AND relative_path = ?')
-          .get(repo.id, filePath),
-      );
+      // Update tracked file record
+      const checksum = contentChecksum(content);
+      const mtime = await getFileMtime(storeFilePath);
 
-      if (trackedFile?.fileType === 'symlink' && req.body.target !== undefined) {
-        // Validate symlink target before creating
-        try {
-          validateSymlinkTarget(req.body.target);
-        } catch (err) {
-          if (err instanceof SymlinkTargetError)
-            return reply.code(400).send({ error: err.message });
-          throw err;
-        }
-        // Update symlink target
-        try {
-          await fs.unlink(storeFilePath);
-        } catch {
-          // May not exist
-        }
-        await ensureDir(path.dirname(storeFilePath));
-        await fs.symlink(req.body.target, storeFilePath);
-      } else if (req.body.content !== undefined) {
-        await ensureDir(path.dirname(storeFilePath));
-        await fs.writeFile(storeFilePath, req.body.content, 'utf-8');
-
-        // Update tracked file record
-        const checksum = fileChecksum(req.body.content);
-        const mtime = await getFileMtime(storeFilePath);
-
-        if (trackedFile) {
-          db.prepare(
-            `UPDATE tracked_files SET store_checksum = ?, store_mtime = ?, sync_status = 'pending_to_target' WHERE id = ?`,
-          ).run(checksum, mtime, trackedFile.id);
-        }
+      if (trackedFile) {
+        db.prepare(
+          `UPDATE tracked_files SET store_checksum = ?, store_mtime = ?, sync_status = 'pending_to_target' WHERE id = ?`,
+        ).run(checksum, mtime, trackedFile.id);
       }
+    }
 
-      // Trigger sync
-      await syncEngine.syncRepo(repo.id);
+    // Trigger sync
+    await syncEngine.syncRepo(repo.id);
 
-      return { success: true };
-    },
-  );
+    return { success: true };
+  });
 
   // Create new file
-  app.post<{ Params: { id: string; '*': string }; Body: { content: string } }>(
-    '/api/repos/:id/files/*',
-    async (req, reply) => {
-      if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
-      const db = state.db;
-      const syncEngine = state.syncEngine;
+  app.post<{
+    Params: { id: string; '*': string };
+    Body: { content: string; encoding?: 'base64'; commit?: string };
+  }>('/api/repos/:id/files/*', async (req, reply) => {
+    if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
+    const db = state.db;
+    const syncEngine = state.syncEngine;
 
-      const filePath = req.params['*'];
-      const repo = mapRow<Repo>(db.prepare('SELECT * FROM repos WHERE id = ?').get(req.params.id));
-      if (!repo) return reply.code(404).send({ error: 'Repo not found' });
+    const filePath = req.params['*'];
+    const repo = mapRow<Repo>(db.prepare('SELECT * FROM repos WHERE id = ?').get(req.params.id));
+    if (!repo) return reply.code(404).send({ error: 'Repo not found' });
 
-      const storeName = repo.storePath.replace(/^repos\//, '');
-      let storeFilePath: string;
-      try {
-        storeFilePath = safeJoin(config.storeReposPath, storeName, filePath);
-      } catch (err) {
-        if (err instanceof PathTraversalError)
-          return reply.code(400).send({ error: 'Invalid file path' });
-        throw err;
+    // Restore a past revision: POST /api/repos/:id/files/<path>/restore { commit }
+    const restoreFile = findTrackedFileForAction(db, 'repo_id', repo.id, filePath, 'restore');
+    if (restoreFile) {
+      const commit = req.body.commit;
+      if (!commit || !isValidCommitHash(commit)) {
+        return reply.code(400).send({ error: 'Invalid commit' });
       }
+      const restored = await syncEngine.restoreFileVersion(restoreFile.id, commit);
+      if (!restored) return reply.code(404).send({ error: 'File not found at that revision' });
+      return { success: true };
+    }
 
-      // Check if file already exists
-      if (await fileExists(storeFilePath)) {
-        return reply.code(409).send({ error: 'File already exists' });
-      }
+    const storeName = repo.storePath.replace(/^repos\//, '');
+    let storeFilePath: string;
+    try {
+      storeFilePath = safeJoin(config.storeReposPath, storeName, filePath);
+    } catch (err) {
+      if (err instanceof PathTraversalError)
+        return reply.code(400).send({ error: 'Invalid file path' });
+      throw err;
+    }
 
-      await ensureDir(path.dirname(storeFilePath));
-      await fs.writeFile(storeFilePath, req.body.content, 'utf-8');
+    // Check if file already exists
+    if (await fileExists(storeFilePath)) {
+      return reply.code(409).send({ error: 'File already exists' });
+    }
 
-      const checksum = await fileChecksum(storeFilePath);
-      const mtime = await getFileMtime(storeFilePath);
+    const content = decodeFileContent(req.body.content, req.body.encoding);
+    let storeContent: string | Buffer;
+    try {
+      storeContent =
+        typeof content === 'string'
+          ? encodeStoreContent(
+              db,
+              { repoId: repo.id, serviceConfigId: null, relativePath: filePath },
+              content,
+            )
+          : encodeStoreBytes(
+              db,
+              { repoId: repo.id, serviceConfigId: null, relativePath: filePath },
+              content,
+            );
+    } catch (err) {
+      if (err instanceof EncryptionKeyMissingError)
+        return reply.code(409).send({ error: err.message });
+      throw err;
+    }
+    await ensureDir(path.dirname(storeFilePath));
+    await fs.writeFile(storeFilePath, storeContent);
+
+    // Checksums are of the plaintext, as in the sync engine
+    const checksum = contentChecksum(content);
+    const mtime = await getFileMtime(storeFilePath);
 
-      const fileId = uuid();
-      db.prepare(
-        `INSERT INTO tracked_files (id, repo_id, relative_path, file_type, store_checksum, store_mtime, sync_status)
+    const fileId = uuid();
+    db.prepare(
+      `INSERT INTO tracked_files (id, repo_id, relative_path, file_type, store_checksum, store_mtime, sync_status)
          VALUES (?, ?, ?, 'file', ?, ?, 'pending_to_target')`,
-      ).run(fileId, repo.id, filePath, checksum, mtime);
+    ).run(fileId, repo.id, filePath, checksum, mtime);
 
-      await syncEngine.syncRepo(repo.id);
+    await syncEngine.syncRepo(repo.id);
 
-      return reply.code(201).send({ success: true, fileId });
-    },
-  );
+    return reply.code(201).send({ success: true, fileId });
+  });
 
   // Delete file
   app.delete<{ Params: { id: string; '*': string }; Querystring: { storeOnly?: string } }>(
@@ -212,6 +337,25 @@ export function registerFileRoutes(app: FastifyInstance, state: AppState): void
         throw err;
       }
 
+      let targetFilePath: string | undefined;
+      if (!storeOnly) {
+        try {
+          targetFilePath = safeJoin(repo.localPath, filePath);
+        } catch (err) {
+          if (err instanceof PathTraversalError)
+            return reply.code(400).send({ error: 'Invalid file path' });
+          throw err;
+        }
+      }
+
+      await moveToTrash(db, {
+        origin: 'file_deleted',
+        target: { ...repo, type: 'repo' },
+        relativePath: filePath,
+        storeFilePath,
+        targetFilePath,
+      });
+
       // Delete from store
       const storeRoot = safeJoin(config.storeReposPath, storeName);
       try {
@@ -221,15 +365,7 @@ export function registerFileRoutes(app: FastifyInstance, state: AppState): void
         // May not exist
       }
 
-      if (!storeOnly) {
-        let targetFilePath: string;
-        try {
-          targetFilePath = safeJoin(repo.localPath, filePath);
-        } catch (err) {
-          if (err instanceof PathTraversalError)
-            return reply.code(400).send({ error: 'Invalid file path' });
-          throw err;
-        }
+      if (targetFilePath) {
         try {
           await fs.unlink(targetFilePath);
           await removeEmptyParents(targetFilePath, repo.localPath);
@@ -243,6 +379,19 @@ export function registerFileRoutes(app: FastifyInstance, state: AppState): void
         repo.id,
         filePath,
       );
+      if (getFileLink(db, repo.id, filePath)) {
+        setFileLink(db, repo.id, filePath, null);
+        syncSettingsUpdateRepo(db, repo.storePath);
+      }
+      const rulesTool = getRulesToolForFile(db, repo.id, filePath);
+      if (rulesTool) {
+        setRulesTargets(
+          db,
+          repo.id,
+          getRulesTargets(db, repo.id).filter((t) => t !== rulesTool),
+        );
+        syncSettingsUpdateRepo(db, repo.storePath);
+      }
 
       return { success: true };
     },
@@ -0,0 +1,80 @@
+import type { FastifyInstance } from 'fastify';
+import type { AppState } from '../app-state.js';
+import { mapRows } from '../db/index.js';
+import {
+  HOOK_EVENT_TYPES,
+  deleteHook,
+  getHook,
+  listHooks,
+  runHook,
+  saveHook,
+  validateHookInput,
+  type HookInput,
+} from '../services/hooks.js';
+import type { SyncLogEntry } from '../types/index.js';
+
+export function registerHookRoutes(app: FastifyInstance, state: AppState): void {
+  // Hooks and the event types they can react to
+  app.get('/api/hooks', async (_req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+
+    return { hooks: listHooks(state.db), events: HOOK_EVENT_TYPES };
+  });
+
+  app.post<{ Body: HookInput }>('/api/hooks', async (req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+
+    const error = validateHookInput(req.body);
+    if (error) return reply.code(400).send({ error });
+    return reply.code(201).send({ hook: saveHook(state.db, req.body) });
+  });
+
+  app.put<{ Params: { id: string }; Body: HookInput }>('/api/hooks/:id', async (req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+
+    if (!getHook(state.db, req.params.id)) return reply.code(404).send({ error: 'Hook not found' });
+    const error = validateHookInput(req.body);
+    if (error) return reply.code(400).send({ error });
+    return { hook: saveHook(state.db, req.body, req.params.id) };
+  });
+
+  app.delete<{ Params: { id: string } }>('/api/hooks/:id', async (req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+
+    if (!deleteHook(state.db, req.params.id)) {
+      return reply.code(404).send({ error: 'Hook not found' });
+    }
+    return { success: true };
+  });
+
+  // Run a hook now with a sample sync_complete event, whatever its filters
+  app.post<{ Params: { id: string } }>('/api/hooks/:id/test', async (req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+
+    const hook = getHook(state.db, req.params.id);
+    if (!hook) return reply.code(404).send({ error: 'Hook not found' });
+    const result = await runHook(
+      state.db,
+      hook,
+      { type: 'sync_complete', summary: { synced: 0, conflicts: 0, errors: 0 } },
+      { target: null, relativePath: null },
+    );
+    return { result };
+  });
+
+  // Recent hook runs from the sync log
+  app.get<{ Querystring: { limit?: string } }>('/api/hooks/log', async (req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+
+    const limit = parseInt(req.query.limit || '50', 10);
+    const entries = mapRows<SyncLogEntry>(
+      state.db
+        .prepare(
+          `SELECT * FROM sync_log WHERE action IN ('hook_run', 'hook_failed')
+           ORDER BY created_at DESC, rowid DESC LIMIT ?`,
+        )
+        .all(limit),
+    );
+    return { entries };
+  });
+}
@@ -13,10 +13,14 @@ import {
   autoLinkServices,
   removeRepoMapping,
   removeServiceMapping,
-  removeServiceMeta,
+  removeUnusedServiceMeta,
+  normalizeMachineTags,
+  setMachineTags,
 } from '../services/machines.js';
 import { commitStoreChanges } from '../services/store-git.js';
+import { TemplateError, resolveTemplateChain } from '../services/templates.js';
 import { mapRow } from '../db/index.js';
+import { parseServiceStorePath } from '../services/service-definitions.js';
 import type { Repo, ServiceConfig } from '../types/index.js';
 import type { AppState } from '../app-state.js';
 
@@ -55,12 +59,34 @@ export function registerMachineRoutes(app: FastifyInstance, state: AppState): vo
       id,
       name: info.name,
       lastSeen: info.lastSeen,
+      tags: info.tags ?? [],
       isCurrent: id === config.machineId,
     }));
 
     return { machines };
   });
 
+  // Set a machine's tags, which decide the repos and services it carries
+  app.put<{ Params: { id: string }; Body: { tags: string[] } }>(
+    '/api/machines/:id/tags',
+    async (req, reply) => {
+      if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+
+      const tags = normalizeMachineTags(req.body?.tags);
+      if (!tags) {
+        return reply
+          .code(400)
+          .send({ error: 'tags must be names made of letters, digits, ".", "_" or "-"' });
+      }
+      if (!setMachineTags(req.params.id, tags)) {
+        return reply.code(404).send({ error: 'Machine not found' });
+      }
+      await commitStoreChanges('Update machine tags');
+
+      return { tags };
+    },
+  );
+
   // Get unlinked store repos and services
   app.get('/api/machines/unlinked', async (_req, reply) => {
     if (!state.db) return reply.code(503).send({ error: 'Not configured' });
@@ -73,11 +99,11 @@ export function registerMachineRoutes(app: FastifyInstance, state: AppState): vo
 
   // Link an existing store repo to a local path
   app.post<{
-    Body: { storePath: string; localPath: string; name?: string };
+    Body: { storePath: string; localPath: string; name?: string; template?: string };
   }>('/api/machines/link-repo', async (req, reply) => {
     if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
 
-    const { storePath, localPath, name } = req.body;
+    const { storePath, localPath, name, template } = req.body;
 
     if (!storePath || !localPath) {
       return reply.code(400).send({ error: 'storePath and localPath are required' });
@@ -106,7 +132,16 @@ export function registerMachineRoutes(app: FastifyInstance, state: AppState): vo
       return reply.code(409).send({ error: 'Store path already linked' });
     }
 
-    const repoId = await linkStoreRepo(state.db, storePath, localPath, name);
+    if (template) {
+      try {
+        await resolveTemplateChain(template);
+      } catch (err) {
+        if (err instanceof TemplateError) return reply.code(400).send({ error: err.message });
+        throw err;
+      }
+    }
+
+    const repoId = await linkStoreRepo(state.db, storePath, localPath, name, template);
     await commitStoreChanges(`Link ${name || storePath} on ${config.machineName}`);
 
     // Start watcher
@@ -138,17 +173,23 @@ export function registerMachineRoutes(app: FastifyInstance, state: AppState): vo
       return reply.code(400).send({ error: 'Path does not exist' });
     }
 
-    // Check if already registered by service_type
-    const serviceType = storePath.replace(/^services\//, '');
+    // Check if already registered, or the folder already synced by another instance
     const existing = state.db
-      .prepare('SELECT id FROM service_configs WHERE service_type = ?')
-      .get(serviceType);
+      .prepare('SELECT id FROM service_configs WHERE store_path = ?')
+      .get(storePath);
     if (existing) {
       return reply.code(409).send({ error: 'Service already registered' });
     }
+    const samePath = state.db
+      .prepare('SELECT name FROM service_configs WHERE local_path = ?')
+      .get(localPath) as { name: string } | undefined;
+    if (samePath) {
+      return reply.code(409).send({ error: `${samePath.name} already syncs this folder` });
+    }
 
+    const storeName = storePath.replace(/^services\//, '');
     const serviceId = await linkStoreService(state.db, storePath, localPath);
-    await commitStoreChanges(`Link service ${serviceType} on ${config.machineName}`);
+    await commitStoreChanges(`Link service ${storeName} on ${config.machineName}`);
 
     // Start watcher
     const svc = mapRow<ServiceConfig>(
@@ -253,7 +294,7 @@ export function registerMachineRoutes(app: FastifyInstance, state: AppState): vo
     }
 
     // Remove store directory
-    const serviceType = storePath.replace(/^services\//, '');
+    const { serviceType } = parseServiceStorePath(storePath);
     const storeDir = path.join(config.storePath, storePath);
     try {
       await fs.rm(storeDir, { recursive: true });
@@ -262,7 +303,7 @@ export function registerMachineRoutes(app: FastifyInstance, state: AppState): vo
     }
 
     // Remove metadata and machine mappings
-    removeServiceMeta(serviceType);
+    await removeUnusedServiceMeta(state.db, serviceType);
     removeServiceMapping(storePath);
 
     await commitStoreChanges(`Delete unlinked service: ${storePath}`);
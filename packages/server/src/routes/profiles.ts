@@ -0,0 +1,101 @@
+import type { FastifyInstance } from 'fastify';
+import type { AppState } from '../app-state.js';
+import { mapRow } from '../db/index.js';
+import type { ServiceConfig } from '../types/index.js';
+import { commitStoreChanges } from '../services/store-git.js';
+import {
+  ServiceProfileError,
+  createServiceProfile,
+  deleteServiceProfile,
+  listServiceProfiles,
+  switchServiceProfile,
+} from '../services/service-profiles.js';
+
+export function registerProfileRoutes(app: FastifyInstance, state: AppState): void {
+  // Profiles of a service, the active one first
+  app.get<{ Params: { id: string } }>('/api/services/:id/profiles', async (req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+    const db = state.db;
+
+    const svc = mapRow<ServiceConfig>(
+      db.prepare('SELECT * FROM service_configs WHERE id = ?').get(req.params.id),
+    );
+    if (!svc) return reply.code(404).send({ error: 'Service config not found' });
+
+    return listServiceProfiles(db, svc);
+  });
+
+  // Save the current files as a new profile
+  app.post<{ Params: { id: string }; Body: { name: string } }>(
+    '/api/services/:id/profiles',
+    async (req, reply) => {
+      if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+      const db = state.db;
+
+      const svc = mapRow<ServiceConfig>(
+        db.prepare('SELECT * FROM service_configs WHERE id = ?').get(req.params.id),
+      );
+      if (!svc) return reply.code(404).send({ error: 'Service config not found' });
+
+      try {
+        const profile = await createServiceProfile(db, svc, String(req.body?.name ?? ''));
+        await commitStoreChanges(`[${svc.name}] Save profile ${profile.name}`);
+        return { profile };
+      } catch (err) {
+        if (err instanceof ServiceProfileError) {
+          return reply.code(err.statusCode).send({ error: err.message });
+        }
+        throw err;
+      }
+    },
+  );
+
+  // Make another profile the one synced to the service's folder
+  app.post<{ Params: { id: string; name: string } }>(
+    '/api/services/:id/profiles/:name/switch',
+    async (req, reply) => {
+      if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
+      const db = state.db;
+
+      const svc = mapRow<ServiceConfig>(
+        db.prepare('SELECT * FROM service_configs WHERE id = ?').get(req.params.id),
+      );
+      if (!svc) return reply.code(404).send({ error: 'Service config not found' });
+
+      try {
+        const result = await switchServiceProfile(db, state.syncEngine, svc, req.params.name);
+        await commitStoreChanges(`[${svc.name}] Switch to profile ${req.params.name}`);
+        return { result };
+      } catch (err) {
+        if (err instanceof ServiceProfileError) {
+          return reply.code(err.statusCode).send({ error: err.message });
+        }
+        throw err;
+      }
+    },
+  );
+
+  app.delete<{ Params: { id: string; name: string } }>(
+    '/api/services/:id/profiles/:name',
+    async (req, reply) => {
+      if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+      const db = state.db;
+
+      const svc = mapRow<ServiceConfig>(
+        db.prepare('SELECT * FROM service_configs WHERE id = ?').get(req.params.id),
+      );
+      if (!svc) return reply.code(404).send({ error: 'Service config not found' });
+
+      try {
+        await deleteServiceProfile(svc, req.params.name);
+        await commitStoreChanges(`[${svc.name}] Delete profile ${req.params.name}`);
+        return { success: true };
+      } catch (err) {
+        if (err instanceof ServiceProfileError) {
+          return reply.code(err.statusCode).send({ error: err.message });
+        }
+        throw err;
+      }
+    },
+  );
+}
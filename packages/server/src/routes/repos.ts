@@ -14,9 +14,20 @@ import { fileChecksum, symlinkChecksum } from '../services/checksum.js';
 import { getFileMtime, getSymlinkMtime, fileExists } from '../services/repo-scanner.js';
 import { setupGitignore } from '../services/gitignore-manager.js';
 import { commitStoreChanges } from '../services/store-git.js';
-import { setRepoMapping, removeRepoMapping } from '../services/machines.js';
+import { trashTargetFiles } from '../services/trash.js';
+import {
+  getCarriedBy,
+  machineCarries,
+  normalizeMachineTags,
+  readMachinesFile,
+  setCarriedBy,
+  setRepoMapping,
+  removeRepoMapping,
+} from '../services/machines.js';
 import { syncSettingsUpdateRepo, syncSettingsRemoveRepo } from '../services/sync-settings.js';
-import type { Repo, RepoWithSummary, TrackedFile } from '../types/index.js';
+import { getSyncDirection, isSyncDirection, setSyncDirection } from '../services/sync-direction.js';
+import { getPathTokensEnabled, setPathTokensEnabled } from '../services/path-tokens.js';
+import type { Repo, RepoWithSummary, SyncDirection, TrackedFile } from '../types/index.js';
 import type { AppState } from '../app-state.js';
 import {
   mapRow,
@@ -29,6 +40,28 @@ import {
   expandIgnorePatterns,
 } from '../db/index.js';
 import { getFileSizes } from '../services/size-calculator.js';
+import { getRepoLinks } from '../services/linked-files.js';
+import { RULES_TOOLS, getRulesTargets } from '../services/canonical-rules.js';
+import { getActiveVariants } from '../services/machine-variants.js';
+import {
+  commitTemplateSnapshot,
+  getTemplateDrift,
+  updateRepoFromTemplate,
+} from '../services/template-drift.js';
+import {
+  TEMPLATE_VAR_NAME_RE,
+  buildTemplateVariables,
+  getRepoTemplateVars,
+  setRepoTemplateVars,
+} from '../services/template-renderer.js';
+import {
+  DEFAULT_TEMPLATE,
+  TemplateError,
+  applyTemplate,
+  getRepoTemplate,
+  resolveTemplateChain,
+  setRepoTemplate,
+} from '../services/templates.js';
 
 export function registerRepoRoutes(app: FastifyInstance, state: AppState): void {
   // List all repos with sync summary
@@ -51,6 +84,7 @@ export function registerRepoRoutes(app: FastifyInstance, state: AppState): void
       )
       .all() as Record<string, unknown>[];
 
+    const machines = readMachinesFile();
     const result: RepoWithSummary[] = await Promise.all(
       rows.map(async (row) => {
         const repo = mapRow<Repo>(row);
@@ -76,6 +110,8 @@ export function registerRepoRoutes(app: FastifyInstance, state: AppState): void
             totalStoreSize,
           },
           lastSyncedAt: (row.last_synced_at as string | null) ?? null,
+          syncDirection: getSyncDirection(db, { id: repo.id, type: 'repo' }),
+          carriedHere: machineCarries(machines, repo.storePath),
         };
       }),
     );
@@ -112,13 +148,20 @@ export function registerRepoRoutes(app: FastifyInstance, state: AppState): void
     );
     const totalStoreSize = [...fileSizes.values()].reduce((sum, s) => sum + s, 0);
 
+    const variants = await getActiveVariants(storeDir);
+    const links = getRepoLinks(db, repo.id);
+    const rulesTargets = getRulesTargets(db, repo.id);
     const filesWithSize = files.map((f) => ({
       ...f,
       storeSize: fileSizes.get(f.relativePath) ?? 0,
+      sharedPath: links.get(f.relativePath) ?? null,
+      rulesTool: rulesTargets.find((t) => RULES_TOOLS[t].path === f.relativePath) ?? null,
+      machineVariant: variants.get(f.relativePath) ?? null,
     }));
 
     return {
       ...repo,
+      template: getRepoTemplate(db, repo.id)?.name ?? null,
       files: filesWithSize,
       syncSummary: {
         total: files.length,
@@ -135,13 +178,37 @@ export function registerRepoRoutes(app: FastifyInstance, state: AppState): void
 
   // Register a new repo
   app.post<{
-    Body: { localPath: string; name?: string; applyTemplate?: boolean; modifyGitignore?: boolean };
+    Body: {
+      localPath: string;
+      name?: string;
+      /** Template to render into the repo's store directory */
+      template?: string;
+      /** @deprecated Use `template`; true applies the default template */
+      applyTemplate?: boolean;
+      modifyGitignore?: boolean;
+      templateVars?: Record<string, string>;
+    };
   }>('/api/repos', async (req, reply) => {
     if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
     const db = state.db;
     const syncEngine = state.syncEngine;
 
-    const { localPath, name, applyTemplate, modifyGitignore = false } = req.body;
+    const { localPath, name, modifyGitignore = false, templateVars = {} } = req.body;
+    const template = req.body.template || (req.body.applyTemplate ? DEFAULT_TEMPLATE : null);
+
+    const badVar = Object.keys(templateVars).find((v) => !TEMPLATE_VAR_NAME_RE.test(v));
+    if (badVar) {
+      return reply.code(400).send({ error: `Invalid template variable name: ${badVar}` });
+    }
+
+    if (template) {
+      try {
+        await resolveTemplateChain(template);
+      } catch (err) {
+        if (err instanceof TemplateError) return reply.code(400).send({ error: err.message });
+        throw err;
+      }
+    }
 
     // Validate path exists
     try {
@@ -169,14 +236,13 @@ export function registerRepoRoutes(app: FastifyInstance, state: AppState): void
     // Create store directory
     await ensureDir(storeDir);
 
-    // Apply default template if requested
-    if (applyTemplate) {
-      const templateDir = path.join(config.storeReposPath, '_default');
-      try {
-        await copyDirRecursive(templateDir, storeDir);
-      } catch {
-        // No template or copy failed, continue
-      }
+    // Apply the template if requested, rendering its variables for this repo.
+    // The store commit holding these template files is kept for drift checks.
+    let templateCommit: string | null = null;
+    if (template) {
+      templateCommit = await commitTemplateSnapshot();
+      const vars = await buildTemplateVariables({ name: repoName, localPath }, templateVars);
+      await applyTemplate(template, storeDir, vars);
     }
 
     // Scan for existing AI files in target repo
@@ -187,6 +253,12 @@ export function registerRepoRoutes(app: FastifyInstance, state: AppState): void
       'INSERT INTO repos (id, name, local_path, store_path, status) VALUES (?, ?, ?, ?, ?)',
     ).run(repoId, repoName, localPath, storePath, 'active');
 
+    if (template || Object.keys(templateVars).length > 0) {
+      if (template) setRepoTemplate(db, repoId, { name: template, commit: templateCommit });
+      setRepoTemplateVars(db, repoId, templateVars);
+      syncSettingsUpdateRepo(db, storePath);
+    }
+
     // Track and sync found files
     for (const entry of foundEntries) {
       const fileId = uuid();
@@ -260,7 +332,7 @@ export function registerRepoRoutes(app: FastifyInstance, state: AppState): void
     }
 
     // Also check for template files that don't exist in target yet
-    if (applyTemplate) {
+    if (template) {
       const templateFiles = await listFilesRecursive(storeDir);
       for (const tf of templateFiles) {
         const alreadyTracked = foundEntries.some((e) => e.path === tf);
@@ -367,6 +439,7 @@ export function registerRepoRoutes(app: FastifyInstance, state: AppState): void
       await syncEngine.stopWatcherForRepo(repo.id);
 
       if (req.query.deleteStoreFiles === 'true') {
+        await trashTargetFiles(db, { ...repo, type: 'repo' });
         const storeDir = path.join(config.storeReposPath, repo.storePath.replace(/^repos\//, ''));
         try {
           await fs.rm(storeDir, { recursive: true });
@@ -388,8 +461,12 @@ export function registerRepoRoutes(app: FastifyInstance, state: AppState): void
     },
   );
 
-  // Force sync for a repo
-  app.post<{ Params: { id: string } }>('/api/repos/:id/sync', async (req, reply) => {
+  // Force sync for a repo; ?dryRun=1 returns the sync plan, a body with fileIds syncs only those files
+  app.post<{
+    Params: { id: string };
+    Querystring: { dryRun?: string };
+    Body: { fileIds?: string[] } | undefined;
+  }>('/api/repos/:id/sync', async (req, reply) => {
     if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
     const db = state.db;
     const syncEngine = state.syncEngine;
@@ -397,7 +474,12 @@ export function registerRepoRoutes(app: FastifyInstance, state: AppState): void
     const repo = mapRow<Repo>(db.prepare('SELECT * FROM repos WHERE id = ?').get(req.params.id));
     if (!repo) return reply.code(404).send({ error: 'Repo not found' });
 
-    const result = await syncEngine.syncRepo(repo.id, { force: true });
+    if (req.query.dryRun === '1') return { plan: await syncEngine.planRepo(repo.id) };
+    const fileIds = req.body?.fileIds;
+    if (fileIds !== undefined && !Array.isArray(fileIds)) {
+      return reply.code(400).send({ error: 'fileIds must be an array' });
+    }
+    const result = await syncEngine.syncRepo(repo.id, { force: true, fileIds });
     return { result };
   });
 
@@ -549,16 +631,92 @@ export function registerRepoRoutes(app: FastifyInstance, state: AppState): void
     if (!state.db) return reply.code(503).send({ error: 'Not configured' });
     const db = state.db;
 
-    const repo = db.prepare('SELECT id FROM repos WHERE id = ?').get(req.params.id);
+    const repo = db.prepare('SELECT store_path FROM repos WHERE id = ?').get(req.params.id) as
+      | { store_path: string }
+      | undefined;
     if (!repo) return reply.code(404).send({ error: 'Repo not found' });
 
     return {
       settings: getRepoEffectiveSettings(db, req.params.id),
       filePatterns: getEffectiveFilePatterns(db, req.params.id),
       ignorePatterns: getEffectiveIgnorePatterns(db, req.params.id),
+      syncDirection: getSyncDirection(db, { id: req.params.id, type: 'repo' }),
+      pathTokens: getPathTokensEnabled(db, { id: req.params.id, type: 'repo' }),
+      machineTags: getCarriedBy(repo.store_path),
     };
   });
 
+  // Custom variables for rendering templates into this repo
+  app.get<{ Params: { id: string } }>('/api/repos/:id/template-vars', async (req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+
+    const repo = state.db.prepare('SELECT id FROM repos WHERE id = ?').get(req.params.id);
+    if (!repo) return reply.code(404).send({ error: 'Repo not found' });
+
+    return { vars: getRepoTemplateVars(state.db, req.params.id) };
+  });
+
+  app.put<{ Params: { id: string }; Body: { vars: Record<string, string> } }>(
+    '/api/repos/:id/template-vars',
+    async (req, reply) => {
+      if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+      const db = state.db;
+
+      const repo = db.prepare('SELECT store_path FROM repos WHERE id = ?').get(req.params.id) as
+        | { store_path: string }
+        | undefined;
+      if (!repo) return reply.code(404).send({ error: 'Repo not found' });
+
+      const vars = req.body?.vars ?? {};
+      const badVar = Object.keys(vars).find((v) => !TEMPLATE_VAR_NAME_RE.test(v));
+      if (badVar) {
+        return reply.code(400).send({ error: `Invalid template variable name: ${badVar}` });
+      }
+
+      setRepoTemplateVars(db, req.params.id, vars);
+      syncSettingsUpdateRepo(db, repo.store_path);
+      return { success: true };
+    },
+  );
+
+  // Which of the repo's files differ from its template
+  app.get<{ Params: { id: string } }>('/api/repos/:id/template-drift', async (req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+
+    const repo = mapRow<Repo>(
+      state.db.prepare('SELECT * FROM repos WHERE id = ?').get(req.params.id),
+    );
+    if (!repo) return reply.code(404).send({ error: 'Repo not found' });
+
+    try {
+      return await getTemplateDrift(state.db, repo);
+    } catch (err) {
+      if (err instanceof TemplateError) return reply.code(400).send({ error: err.message });
+      throw err;
+    }
+  });
+
+  // Three-way merge template changes into the repo's files
+  app.post<{ Params: { id: string }; Body: { paths?: string[] } }>(
+    '/api/repos/:id/template-update',
+    async (req, reply) => {
+      if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
+      const db = state.db;
+
+      const repo = mapRow<Repo>(db.prepare('SELECT * FROM repos WHERE id = ?').get(req.params.id));
+      if (!repo) return reply.code(404).send({ error: 'Repo not found' });
+
+      try {
+        const result = await updateRepoFromTemplate(db, state.syncEngine, repo, req.body?.paths);
+        syncSettingsUpdateRepo(db, repo.storePath);
+        return result;
+      } catch (err) {
+        if (err instanceof TemplateError) return reply.code(400).send({ error: err.message });
+        throw err;
+      }
+    },
+  );
+
   // Update repo-level settings (save overrides)
   app.put<{
     Params: { id: string };
@@ -566,14 +724,29 @@ export function registerRepoRoutes(app: FastifyInstance, state: AppState): void
       settings?: Record<string, string | null>;
       filePatterns?: { pattern: string; enabled: boolean; source: 'global' | 'local' }[];
       ignorePatterns?: { pattern: string; enabled: boolean; source: 'global' | 'local' }[];
+      syncDirection?: SyncDirection;
+      pathTokens?: boolean;
+      machineTags?: string[];
     };
   }>('/api/repos/:id/settings', async (req, reply) => {
     if (!state.db) return reply.code(503).send({ error: 'Not configured' });
     const db = state.db;
 
-    const repo = db.prepare('SELECT id FROM repos WHERE id = ?').get(req.params.id);
+    const repo = db.prepare('SELECT store_path FROM repos WHERE id = ?').get(req.params.id) as
+      | { store_path: string }
+      | undefined;
     if (!repo) return reply.code(404).send({ error: 'Repo not found' });
 
+    const { syncDirection } = req.body;
+    if (syncDirection !== undefined && !isSyncDirection(syncDirection)) {
+      return reply.code(400).send({ error: `Invalid sync direction: ${syncDirection}` });
+    }
+    const machineTags =
+      req.body.machineTags === undefined ? undefined : normalizeMachineTags(req.body.machineTags);
+    if (machineTags === null) {
+      return reply.code(400).send({ error: 'Invalid machine tags' });
+    }
+
     const repoId = req.params.id;
     const upsert = db.prepare(
       'INSERT INTO repo_settings (id, repo_id, key, value) VALUES (?, ?, ?, ?) ON CONFLICT(repo_id, key) DO UPDATE SET value = ?',
@@ -592,6 +765,12 @@ export function registerRepoRoutes(app: FastifyInstance, state: AppState): void
       }
     }
 
+    if (syncDirection) setSyncDirection(db, { id: repoId, type: 'repo' }, syncDirection);
+    if (typeof req.body.pathTokens === 'boolean') {
+      setPathTokensEnabled(db, { id: repoId, type: 'repo' }, req.body.pathTokens);
+    }
+    if (machineTags) setCarriedBy(repo.store_path, machineTags);
+
     // Handle file pattern overrides
     if (req.body.filePatterns) {
       // Clear all existing file pattern overrides for this repo
@@ -714,20 +893,6 @@ export function registerRepoRoutes(app: FastifyInstance, state: AppState): void
   });
 }
 
-async function copyDirRecursive(src: string, dest: string): Promise<void> {
-  await ensureDir(dest);
-  const entries = await fs.readdir(src, { withFileTypes: true });
-  for (const entry of entries) {
-    const srcPath = path.join(src, entry.name);
-    const destPath = path.join(dest, entry.name);
-    if (entry.isDirectory()) {
-      await copyDirRecursive(srcPath, destPath);
-    } else {
-      await fs.copyFile(srcPath, destPath);
-    }
-  }
-}
-
 async function listFilesRecursive(dir: string, base = ''): Promise<string[]> {
   const result: string[] = [];
   try {
@@ -0,0 +1,84 @@
+import type { FastifyInstance } from 'fastify';
+import type Database from 'better-sqlite3';
+import type { AppState } from '../app-state.js';
+import { mapRow } from '../db/index.js';
+import type { Repo } from '../types/index.js';
+import {
+  RULES_TOOLS,
+  RulesError,
+  getRulesTargets,
+  isRulesTool,
+  rulesFilePath,
+  type RulesTool,
+} from '../services/canonical-rules.js';
+import { EncryptionKeyMissingError, readStoreFile } from '../services/store-encryption.js';
+import { syncSettingsUpdateRepo } from '../services/sync-settings.js';
+import { fileExists } from '../services/repo-scanner.js';
+
+async function rulesResponse(db: Database.Database, repo: Repo) {
+  const targets = getRulesTargets(db, repo.id);
+  const rulesFile = rulesFilePath(repo);
+  return {
+    content: (await fileExists(rulesFile)) ? await readStoreFile(rulesFile) : null,
+    tools: (Object.keys(RULES_TOOLS) as RulesTool[]).map((id) => ({
+      id,
+      label: RULES_TOOLS[id].label,
+      path: RULES_TOOLS[id].path,
+      enabled: targets.includes(id),
+    })),
+  };
+}
+
+export function registerRulesRoutes(app: FastifyInstance, state: AppState): void {
+  // Canonical rules and the tools they render to
+  app.get<{ Params: { id: string } }>('/api/repos/:id/rules', async (req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+    const db = state.db;
+
+    const repo = mapRow<Repo>(db.prepare('SELECT * FROM repos WHERE id = ?').get(req.params.id));
+    if (!repo) return reply.code(404).send({ error: 'Repo not found' });
+
+    try {
+      return await rulesResponse(db, repo);
+    } catch (err) {
+      if (err instanceof EncryptionKeyMissingError) {
+        return reply.code(409).send({ error: err.message });
+      }
+      throw err;
+    }
+  });
+
+  // Choose the tools to render to (an empty list turns rendering off), optionally saving new content
+  app.put<{ Params: { id: string }; Body: { tools: string[]; content?: string } }>(
+    '/api/repos/:id/rules',
+    async (req, reply) => {
+      if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
+      const db = state.db;
+
+      const repo = mapRow<Repo>(db.prepare('SELECT * FROM repos WHERE id = ?').get(req.params.id));
+      if (!repo) return reply.code(404).send({ error: 'Repo not found' });
+
+      const { tools, content } = req.body ?? {};
+      if (!Array.isArray(tools)) return reply.code(400).send({ error: 'tools is required' });
+      const unknown = tools.find((t) => !isRulesTool(t));
+      if (unknown !== undefined) return reply.code(400).send({ error: `Unknown tool: ${unknown}` });
+      if (content !== undefined && typeof content !== 'string') {
+        return reply.code(400).send({ error: 'content must be a string' });
+      }
+
+      try {
+        await state.syncEngine.updateRules(repo, [...new Set(tools as RulesTool[])], content);
+        syncSettingsUpdateRepo(db, repo.storePath);
+        return await rulesResponse(db, repo);
+      } catch (err) {
+        if (err instanceof RulesError) {
+          return reply.code(err.statusCode).send({ error: err.message });
+        }
+        if (err instanceof EncryptionKeyMissingError) {
+          return reply.code(409).send({ error: err.message });
+        }
+        throw err;
+      }
+    },
+  );
+}
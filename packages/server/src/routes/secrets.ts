@@ -0,0 +1,140 @@
+import type { FastifyInstance } from 'fastify';
+import type { AppState } from '../app-state.js';
+import { mapRow, mapRows } from '../db/index.js';
+import {
+  BUILTIN_SECRET_RULES,
+  getSecretScanMode,
+  parseCustomSecretRules,
+  type SecretFindingRecord,
+} from '../services/secret-scanner.js';
+import {
+  SECRET_NAME_RE,
+  secretValueError,
+  readLocalSecrets,
+  setLocalSecret,
+  deleteLocalSecret,
+} from '../services/local-secrets.js';
+import { config } from '../config.js';
+
+type FindingWithFile = SecretFindingRecord & {
+  relativePath: string;
+  repoId: string | null;
+  serviceConfigId: string | null;
+};
+
+export function registerSecretRoutes(app: FastifyInstance, state: AppState): void {
+  // Scan mode and active rules (built-in + custom)
+  app.get('/api/secrets/rules', async (_req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+    const db = state.db;
+
+    const custom = db
+      .prepare("SELECT value FROM settings WHERE key = 'secret_custom_rules'")
+      .get() as { value: string } | undefined;
+
+    return {
+      mode: getSecretScanMode(db),
+      builtin: BUILTIN_SECRET_RULES.map((r) => ({ id: r.id, name: r.name, pattern: r.pattern })),
+      custom: parseCustomSecretRules(custom?.value),
+    };
+  });
+
+  // Findings for a repo or service
+  app.get<{ Querystring: { repoId?: string; serviceId?: string } }>(
+    '/api/secrets/findings',
+    async (req, reply) => {
+      if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+      const db = state.db;
+
+      const { repoId, serviceId } = req.query;
+      if (!repoId && !serviceId) {
+        return reply.code(400).send({ error: 'repoId or serviceId is required' });
+      }
+
+      const findings = mapRows<FindingWithFile>(
+        db
+          .prepare(
+            `SELECT sf.*, tf.relative_path, tf.repo_id, tf.service_config_id
+             FROM secret_findings sf
+             JOIN tracked_files tf ON sf.tracked_file_id = tf.id
+             WHERE ${repoId ? 'tf.repo_id' : 'tf.service_config_id'} = ?
+             ORDER BY tf.relative_path, sf.line`,
+          )
+          .all(repoId ?? serviceId),
+      );
+      return { findings };
+    },
+  );
+
+  // Mark a finding as a false positive and re-sync its file
+  app.post<{ Params: { id: string } }>('/api/secrets/findings/:id/allow', async (req, reply) => {
+    if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
+    const db = state.db;
+
+    const finding = mapRow<FindingWithFile>(
+      db
+        .prepare(
+          `SELECT sf.*, tf.relative_path, tf.repo_id, tf.service_config_id
+             FROM secret_findings sf
+             JOIN tracked_files tf ON sf.tracked_file_id = tf.id
+             WHERE sf.id = ?`,
+        )
+        .get(req.params.id),
+    );
+    if (!finding) return reply.code(404).send({ error: 'Finding not found' });
+
+    db.prepare('UPDATE secret_findings SET allowed = 1 WHERE id = ?').run(finding.id);
+
+    if (finding.repoId) {
+      await state.syncEngine.syncRepo(finding.repoId);
+    } else if (finding.serviceConfigId) {
+      await state.syncEngine.syncService(finding.serviceConfigId);
+    }
+    return { success: true };
+  });
+
+  // Names defined in this machine's secrets file — values are never returned
+  app.get('/api/secrets/local', async () => {
+    return { path: config.localSecretsPath, names: Object.keys(readLocalSecrets()).sort() };
+  });
+
+  app.put<{ Params: { name: string }; Body: { value: string } }>(
+    '/api/secrets/local/:name',
+    async (req, reply) => {
+      const { name } = req.params;
+      if (!SECRET_NAME_RE.test(name)) {
+        return reply
+          .code(400)
+          .send({ error: 'Secret names may only contain letters, digits and underscores' });
+      }
+      if (typeof req.body?.value !== 'string' || req.body.value === '') {
+        return reply.code(400).send({ error: 'value is required' });
+      }
+      const invalid = secretValueError(req.body.value);
+      if (invalid) return reply.code(400).send({ error: invalid });
+
+      const previous = readLocalSecrets()[name];
+      if (previous !== undefined && previous !== req.body.value) {
+        await state.syncEngine?.replaceSecretInTargets(name, previous, req.body.value);
+      }
+      setLocalSecret(name, req.body.value);
+      // Expand the new value into targets that reference it
+      if (state.syncEngine) {
+        await state.syncEngine.syncAllRepos();
+        await state.syncEngine.syncAllServices();
+      }
+      return { success: true };
+    },
+  );
+
+  app.delete<{ Params: { name: string } }>('/api/secrets/local/:name', async (req, reply) => {
+    const { name } = req.params;
+    const previous = readLocalSecrets()[name];
+    if (previous === undefined) return reply.code(404).send({ error: 'Secret not found' });
+
+    // Put the placeholder back so the value doesn't reach the store as plain text
+    await state.syncEngine?.replaceSecretInTargets(name, previous, `\${secret:${name}}`);
+    deleteLocalSecret(name);
+    return { success: true };
+  });
+}
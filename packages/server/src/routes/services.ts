@@ -5,24 +5,62 @@ import fs from 'node:fs/promises';
 import picomatch from 'picomatch';
 import { config } from '../config.js';
 import { ensureDir, isSymlink, symlinkExists, fileExists } from '../services/repo-scanner.js';
-import { fileChecksum, symlinkChecksum } from '../services/checksum.js';
+import { fileChecksum, contentChecksum, symlinkChecksum } from '../services/checksum.js';
 import { getFileMtime, getSymlinkMtime } from '../services/repo-scanner.js';
-import { commitStoreChanges } from '../services/store-git.js';
 import {
+  commitStoreChanges,
+  getFileHistory,
+  getCommittedBuffer,
+  getCommittedContentAt,
+} from '../services/store-git.js';
+import {
+  decodeFileContent,
+  isBinaryContent,
+  toBinaryFileContent,
+} from '../services/binary-files.js';
+import { findTrackedFileForAction, isValidCommitHash } from '../services/file-history.js';
+import {
+  getCarriedBy,
+  machineCarries,
+  normalizeMachineTags,
+  readMachinesFile,
+  setCarriedBy,
   setServiceMapping,
   removeServiceMapping,
   writeServiceMeta,
-  removeServiceMeta,
+  removeUnusedServiceMeta,
+  linkStoreService,
 } from '../services/machines.js';
 import {
   getServiceDefinition,
   getAllServiceDefinitions,
   getServiceStorePath,
   registerCustomDefinition,
+  customServiceType,
+  toPortablePath,
+  parseServiceStorePath,
+  serviceInstanceName,
+  SERVICE_INSTANCE_PATTERN,
 } from '../services/service-definitions.js';
+import {
+  exportServiceBundle,
+  importServiceBundle,
+  parseServiceBundle,
+  ServiceBundleError,
+} from '../services/service-bundles.js';
 import { scanServiceFiles } from '../services/service-scanner.js';
 import { syncSettingsUpdateService, syncSettingsRemoveService } from '../services/sync-settings.js';
-import type { ServiceConfig, ServiceConfigWithSummary, TrackedFile } from '../types/index.js';
+import { getSyncDirection, isSyncDirection, setSyncDirection } from '../services/sync-direction.js';
+import { getPathTokensEnabled, setPathTokensEnabled } from '../services/path-tokens.js';
+import { moveToTrash, trashTargetFiles } from '../services/trash.js';
+import { getActiveProfile, removeServiceProfiles } from '../services/service-profiles.js';
+import { getActiveVariants } from '../services/machine-variants.js';
+import type {
+  ServiceConfig,
+  ServiceConfigWithSummary,
+  SyncDirection,
+  TrackedFile,
+} from '../types/index.js';
 import type { AppState } from '../app-state.js';
 import {
   mapRow,
@@ -34,6 +72,15 @@ import {
   expandIgnorePatterns,
 } from '../db/index.js';
 import { getFileSizes } from '../services/size-calculator.js';
+import {
+  getEncryptionStatus,
+  readStoreFile,
+  readStoreBytes,
+  decodeStoreBytes,
+  encodeStoreContent,
+  encodeStoreBytes,
+  EncryptionKeyMissingError,
+} from '../services/store-encryption.js';
 import {
   safeJoin,
   validateSymlinkTarget,
@@ -41,6 +88,14 @@ import {
   SymlinkTargetError,
 } from '../utils/safe-path.js';
 
+interface AddServiceBody {
+  serviceType: string;
+  /** Name of a further instance of the type, e.g. "work" */
+  instance?: string;
+  /** Local folder; defaults to the type's default path */
+  localPath?: string;
+}
+
 /** Remove empty parent directories up to (but not including) stopAt */
 async function removeEmptyParents(filePath: string, stopAt: string): Promise<void> {
   let dir = path.dirname(filePath);
@@ -110,6 +165,7 @@ export function registerServiceRoutes(app: FastifyInstance, state: AppState): vo
       )
       .all() as Record<string, unknown>[];
 
+    const machines = readMachinesFile();
     const result: ServiceConfigWithSummary[] = await Promise.all(
       rows.map(async (row) => {
         const svc = mapRow<ServiceConfig>(row);
@@ -135,6 +191,8 @@ export function registerServiceRoutes(app: FastifyInstance, state: AppState): vo
             totalStoreSize,
           },
           lastSyncedAt: (row.last_synced_at as string | null) ?? null,
+          syncDirection: getSyncDirection(db, { id: svc.id, type: 'service' }),
+          carriedHere: machineCarries(machines, svc.storePath),
         };
       }),
     );
@@ -170,9 +228,11 @@ export function registerServiceRoutes(app: FastifyInstance, state: AppState): vo
     );
     const totalStoreSize = [...fileSizes.values()].reduce((sum, s) => sum + s, 0);
 
+    const variants = await getActiveVariants(storeDir);
     const filesWithSize = files.map((f) => ({
       ...f,
       storeSize: fileSizes.get(f.relativePath) ?? 0,
+      machineVariant: variants.get(f.relativePath) ?? null,
     }));
 
     return {
@@ -188,60 +248,99 @@ export function registerServiceRoutes(app: FastifyInstance, state: AppState): vo
         totalStoreSize,
       },
       lastSyncedAt: lastSync.last,
+      activeProfile: getActiveProfile(svc),
     };
   });
 
-  // Register a new service config
-  app.post<{ Body: { serviceType: string } }>('/api/services', async (req, reply) => {
+  // Register a new service config; an instance name adds another instance of the type
+  app.post<{ Body: AddServiceBody }>('/api/services', async (req, reply) => {
     if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
     const db = state.db;
     const syncEngine = state.syncEngine;
 
     const { serviceType } = req.body;
+    const instance = req.body.instance?.trim() || null;
     const definition = getServiceDefinition(serviceType);
     if (!definition) {
       return reply.code(400).send({ error: `Unknown service type: ${serviceType}` });
     }
+    if (instance && !SERVICE_INSTANCE_PATTERN.test(instance)) {
+      return reply.code(400).send({
+        error: 'Instance name must be lowercase letters, digits and dashes, e.g. "work"',
+      });
+    }
+    const localPath = req.body.localPath?.trim() || definition.defaultPath;
+    const storePath = getServiceStorePath(serviceType, instance);
+    const serviceName = serviceInstanceName(definition.name, instance);
 
     // Check if already registered
     const existing = db
-      .prepare('SELECT id FROM service_configs WHERE service_type = ?')
-      .get(serviceType);
+      .prepare('SELECT id FROM service_configs WHERE store_path = ?')
+      .get(storePath);
     if (existing) {
-      return reply.code(409).send({ error: 'Service config already registered' });
+      return reply.code(409).send({ error: `${serviceName} is already registered` });
+    }
+    const samePath = mapRow<ServiceConfig>(
+      db.prepare('SELECT * FROM service_configs WHERE local_path = ?').get(localPath),
+    );
+    if (samePath) {
+      return reply.code(409).send({ error: `${samePath.name} already syncs ${localPath}` });
     }
 
     // Validate path exists
     try {
-      const stat = await fs.stat(definition.defaultPath);
+      const stat = await fs.stat(localPath);
       if (!stat.isDirectory()) {
         return reply.code(400).send({ error: 'Service path is not a directory' });
       }
     } catch {
-      return reply
-        .code(400)
-        .send({ error: `Service path does not exist: ${definition.defaultPath}` });
+      return reply.code(400).send({ error: `Service path does not exist: ${localPath}` });
     }
 
-    const serviceId = uuid();
-    const storePath = getServiceStorePath(serviceType);
-    const storeDir = path.join(config.storeServicesPath, serviceType);
+    const storeDir = path.join(config.storeServicesPath, storePath.replace(/^services\//, ''));
 
     // Create store directory
     await ensureDir(storeDir);
 
+    // Further instances attach to their own store folder like a link from another machine,
+    // which also brings the patterns of custom types from services.json
+    if (instance) {
+      const serviceId = await linkStoreService(db, storePath, localPath);
+      await commitStoreChanges(`Add service: ${serviceName}`);
+      const svc = mapRow<ServiceConfig>(
+        db.prepare('SELECT * FROM service_configs WHERE id = ?').get(serviceId),
+      );
+      await syncEngine.startWatcherForService(svc);
+      const { count } = db
+        .prepare('SELECT COUNT(*) as count FROM tracked_files WHERE service_config_id = ?')
+        .get(serviceId) as { count: number };
+      return reply.code(201).send({
+        service: {
+          id: serviceId,
+          serviceType,
+          name: serviceName,
+          localPath,
+          storePath,
+          status: 'active',
+        },
+        filesTracked: count,
+      });
+    }
+
+    const serviceId = uuid();
+
     // Scan for files matching service patterns
-    const foundEntries = await scanServiceFiles(definition.defaultPath, definition.patterns);
+    const foundEntries = await scanServiceFiles(localPath, definition.patterns);
 
     // Register the service config
     db.prepare(
       'INSERT INTO service_configs (id, service_type, name, local_path, store_path, status) VALUES (?, ?, ?, ?, ?, ?)',
-    ).run(serviceId, serviceType, definition.name, definition.defaultPath, storePath, 'active');
+    ).run(serviceId, serviceType, definition.name, localPath, storePath, 'active');
 
     // Track and sync found files
     for (const entry of foundEntries) {
       const fileId = uuid();
-      const targetPath = path.join(definition.defaultPath, entry.path);
+      const targetPath = path.join(localPath, entry.path);
       const storeFilePath = path.join(storeDir, entry.path);
       const fileType = entry.isSymlink ? 'symlink' : 'file';
 
@@ -311,7 +410,7 @@ export function registerServiceRoutes(app: FastifyInstance, state: AppState): vo
     }
 
     // Update machines.json mapping
-    setServiceMapping(storePath, definition.defaultPath);
+    setServiceMapping(storePath, localPath);
 
     // Commit store changes (no gitignore for services)
     await commitStoreChanges(`Add service: ${definition.name}`);
@@ -327,7 +426,7 @@ export function registerServiceRoutes(app: FastifyInstance, state: AppState): vo
         id: serviceId,
         serviceType,
         name: definition.name,
-        localPath: definition.defaultPath,
+        localPath: localPath,
         storePath,
         status: 'active',
       },
@@ -371,12 +470,7 @@ export function registerServiceRoutes(app: FastifyInstance, state: AppState): vo
     }
 
     // Generate serviceType from name
-    const serviceType =
-      'custom-' +
-      name
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/^-|-$/g, '');
+    const serviceType = customServiceType(name);
 
     // Check duplicate
     const existing = db
@@ -418,7 +512,12 @@ export function registerServiceRoutes(app: FastifyInstance, state: AppState): vo
     });
 
     // Write metadata so other machines can link this custom service
-    writeServiceMeta(serviceType, { name, patterns, description: description || '' });
+    writeServiceMeta(serviceType, {
+      name,
+      patterns,
+      description: description || '',
+      defaultPath: toPortablePath(localPath),
+    });
 
     // Scan for matching files
     const foundEntries = await scanServiceFiles(localPath, patterns);
@@ -540,6 +639,49 @@ export function registerServiceRoutes(app: FastifyInstance, state: AppState): vo
     });
   });
 
+  // Export custom service definitions as a bundle (all of them unless ids are given)
+  app.get<{ Querystring: { ids?: string } }>('/api/services/custom/export', async (req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+
+    const ids = req.query.ids ? req.query.ids.split(',') : undefined;
+    return exportServiceBundle(state.db, ids);
+  });
+
+  // Import custom service definitions from a bundle, optionally linking their default paths
+  app.post<{ Body: { bundle: unknown; link?: boolean } }>(
+    '/api/services/custom/import',
+    { bodyLimit: 16 * 1024 * 1024 },
+    async (req, reply) => {
+      if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
+      const db = state.db;
+      const syncEngine = state.syncEngine;
+
+      let entries;
+      try {
+        entries = parseServiceBundle(req.body?.bundle);
+      } catch (err) {
+        if (err instanceof ServiceBundleError) return reply.code(400).send({ error: err.message });
+        throw err;
+      }
+
+      const results = await importServiceBundle(db, entries, { link: req.body.link === true });
+      const imported = results.filter((r) => r.status !== 'skipped');
+      if (imported.length > 0) {
+        await commitStoreChanges(`Import services: ${imported.map((r) => r.name).join(', ')}`);
+      }
+
+      for (const r of results) {
+        if (!r.serviceId) continue;
+        const svc = mapRow<ServiceConfig>(
+          db.prepare('SELECT * FROM service_configs WHERE id = ?').get(r.serviceId),
+        );
+        await syncEngine.startWatcherForService(svc);
+      }
+
+      return { results };
+    },
+  );
+
   // Get service icon
   app.get<{ Params: { id: string } }>('/api/services/:id/icon', async (req, reply) => {
     if (!state.db) return reply.code(503).send({ error: 'Not configured' });
@@ -579,29 +721,39 @@ export function registerServiceRoutes(app: FastifyInstance, state: AppState): vo
       await syncEngine.stopWatcherForService(svc.id);
 
       if (req.query.deleteStoreFiles === 'true') {
-        const serviceType = svc.storePath.replace(/^services\//, '');
-        const storeDir = path.join(config.storeServicesPath, serviceType);
+        await trashTargetFiles(db, { ...svc, type: 'service' });
+        const storeDir = path.join(
+          config.storeServicesPath,
+          svc.storePath.replace(/^services\//, ''),
+        );
         try {
           await fs.rm(storeDir, { recursive: true });
         } catch {
           // May not exist
         }
-        removeServiceMeta(serviceType);
         removeServiceMapping(svc.storePath);
         syncSettingsRemoveService(svc.storePath);
+        await removeServiceProfiles(svc);
       } else {
         removeServiceMapping(svc.storePath, config.machineId);
       }
 
       db.prepare('DELETE FROM service_configs WHERE id = ?').run(svc.id);
+      if (req.query.deleteStoreFiles === 'true') {
+        await removeUnusedServiceMeta(db, parseServiceStorePath(svc.storePath).serviceType);
+      }
       await commitStoreChanges(`Remove service: ${svc.name}`);
 
       return { success: true };
     },
   );
 
-  // Force sync
-  app.post<{ Params: { id: string } }>('/api/services/:id/sync', async (req, reply) => {
+  // Force sync; ?dryRun=1 returns the sync plan, a body with fileIds syncs only those files
+  app.post<{
+    Params: { id: string };
+    Querystring: { dryRun?: string };
+    Body: { fileIds?: string[] } | undefined;
+  }>('/api/services/:id/sync', async (req, reply) => {
     if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
     const db = state.db;
 
@@ -610,7 +762,12 @@ export function registerServiceRoutes(app: FastifyInstance, state: AppState): vo
     );
     if (!svc) return reply.code(404).send({ error: 'Service config not found' });
 
-    const result = await state.syncEngine.syncService(svc.id, { force: true });
+    if (req.query.dryRun === '1') return { plan: await state.syncEngine.planService(svc.id) };
+    const fileIds = req.body?.fileIds;
+    if (fileIds !== undefined && !Array.isArray(fileIds)) {
+      return reply.code(400).send({ error: 'fileIds must be an array' });
+    }
+    const result = await state.syncEngine.syncService(svc.id, { force: true, fileIds });
     return { result };
   });
 
@@ -697,15 +854,26 @@ export function registerServiceRoutes(app: FastifyInstance, state: AppState): vo
 
     const patterns = getServiceEffectivePatterns(db, svc.id, def.patterns);
     const ignorePatterns = getServiceEffectiveIgnorePatterns(db, svc.id);
-    return { patterns, ignorePatterns };
+    const syncDirection = getSyncDirection(db, { id: svc.id, type: 'service' });
+    const pathTokens = getPathTokensEnabled(db, { id: svc.id, type: 'service' });
+    const machineTags = getCarriedBy(svc.storePath);
+    return { patterns, ignorePatterns, syncDirection, pathTokens, machineTags };
   });
 
   // Update service settings (file patterns + ignore patterns)
   app.put<{
     Params: { id: string };
     Body: {
-      patterns: { pattern: string; enabled: boolean; source: 'default' | 'custom' }[];
+      patterns: {
+        pattern: string;
+        enabled: boolean;
+        encrypt?: boolean;
+        source: 'default' | 'custom';
+      }[];
       ignorePatterns?: { pattern: string; enabled: boolean; source: 'global' | 'custom' }[];
+      syncDirection?: SyncDirection;
+      pathTokens?: boolean;
+      machineTags?: string[];
     };
   }>('/api/services/:id/settings', async (req, reply) => {
     if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
@@ -721,6 +889,24 @@ export function registerServiceRoutes(app: FastifyInstance, state: AppState): vo
 
     const defaultPatternSet = new Set(def.patterns);
 
+    const { syncDirection } = req.body;
+    if (syncDirection !== undefined && !isSyncDirection(syncDirection)) {
+      return reply.code(400).send({ error: `Invalid sync direction: ${syncDirection}` });
+    }
+    const machineTags =
+      req.body.machineTags === undefined ? undefined : normalizeMachineTags(req.body.machineTags);
+    if (machineTags === null) {
+      return reply.code(400).send({ error: 'Invalid machine tags' });
+    }
+
+    if (req.body.patterns.some((p) => p.encrypt) && !getEncryptionStatus().unlocked) {
+      return reply.code(400).send({ error: 'Set an encryption passphrase first' });
+    }
+    const encryptBefore = getServiceEffectivePatterns(db, svc.id, def.patterns)
+      .filter((p) => p.encrypt)
+      .map((p) => p.pattern)
+      .sort();
+
     // Clear all existing pattern settings for this service
     db.prepare(
       "DELETE FROM service_settings WHERE service_config_id = ? AND key LIKE 'service_pattern_%'",
@@ -746,6 +932,9 @@ export function registerServiceRoutes(app: FastifyInstance, state: AppState): vo
           insert.run(uuid(), svc.id, `service_pattern_default:${p.pattern}`, 'disabled');
         }
       }
+      if (p.encrypt) {
+        insert.run(uuid(), svc.id, `service_pattern_encrypt:${p.pattern}`, 'enabled');
+      }
     }
 
     // Save ignore pattern overrides
@@ -787,6 +976,12 @@ export function registerServiceRoutes(app: FastifyInstance, state: AppState): vo
       }
     }
 
+    if (syncDirection) setSyncDirection(db, { id: svc.id, type: 'service' }, syncDirection);
+    if (typeof req.body.pathTokens === 'boolean') {
+      setPathTokensEnabled(db, { id: svc.id, type: 'service' }, req.body.pathTokens);
+    }
+    if (machineTags) setCarriedBy(svc.storePath, machineTags);
+
     // Untrack files that now match ignore patterns
     const enabledIgnore = expandIgnorePatterns(getServiceEnabledIgnorePatterns(db, svc.id));
     if (enabledIgnore.length > 0) {
@@ -819,6 +1014,15 @@ export function registerServiceRoutes(app: FastifyInstance, state: AppState): vo
     // Persist to sync-settings.json for cross-machine sync
     syncSettingsUpdateService(db, svc.storePath);
 
+    // Re-encrypt or decrypt existing store files whose flag changed
+    const encryptAfter = req.body.patterns
+      .filter((p) => p.encrypt)
+      .map((p) => p.pattern)
+      .sort();
+    if (encryptAfter.join('\n') !== encryptBefore.join('\n') && svc.status === 'active') {
+      await state.syncEngine.syncService(svc.id);
+    }
+
     return { success: true };
   });
 
@@ -843,147 +1047,251 @@ export function registerServiceRoutes(app: FastifyInstance, state: AppState): vo
   });
 
   // Get file content from store
-  app.get<{ Params: { id: string; '*': string } }>(
-    '/api/services/:id/files/*',
-    async (req, reply) => {
-      if (!state.db) return reply.code(503).send({ error: 'Not configured' });
-      const db = state.db;
+  app.get<{
+    Params: { id: string; '*': string };
+    Querystring: { commit?: string; limit?: string };
+  }>('/api/services/:id/files/*', async (req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+    const db = state.db;
 
-      const filePath = req.params['*'];
-      const svc = mapRow<ServiceConfig>(
-        db.prepare('SELECT * FROM service_configs WHERE id = ?').get(req.params.id),
-      );
-      if (!svc) return reply.code(404).send({ error: 'Service config not found' });
+    const filePath = req.params['*'];
+    const svc = mapRow<ServiceConfig>(
+      db.prepare('SELECT * FROM service_configs WHERE id = ?').get(req.params.id),
+    );
+    if (!svc) return reply.code(404).send({ error: 'Service config not found' });
 
-      const storeName = svc.storePath.replace(/^services\//, '');
-      let storeFilePath: string;
-      try {
-        storeFilePath = safeJoin(config.storeServicesPath, storeName, filePath);
-      } catch (err) {
-        if (err instanceof PathTraversalError)
-          return reply.code(400).send({ error: 'Invalid file path' });
-        throw err;
+    // Commit history of a tracked file: GET /api/services/:id/files/<path>/history
+    const historyFile = findTrackedFileForAction(
+      db,
+      'service_config_id',
+      svc.id,
+      filePath,
+      'history',
+    );
+    if (historyFile) {
+      const limit = req.query.limit === undefined ? 50 : Number(req.query.limit);
+      if (!Number.isInteger(limit) || limit < 1) {
+        return reply.code(400).send({ error: 'limit must be a positive integer' });
       }
+      const revisions = await getFileHistory(`${svc.storePath}/${historyFile.relativePath}`, limit);
+      return { path: historyFile.relativePath, revisions };
+    }
 
-      try {
-        if (await isSymlink(storeFilePath)) {
-          const target = await fs.readlink(storeFilePath);
-          return { type: 'symlink' as const, target, path: filePath };
-        }
-        const content = await fs.readFile(storeFilePath, 'utf-8');
-        return { type: 'file' as const, content, path: filePath };
-      } catch {
-        return reply.code(404).send({ error: 'File not found in store' });
+    const storeName = svc.storePath.replace(/^services\//, '');
+    let storeFilePath: string;
+    try {
+      storeFilePath = safeJoin(config.storeServicesPath, storeName, filePath);
+    } catch (err) {
+      if (err instanceof PathTraversalError)
+        return reply.code(400).send({ error: 'Invalid file path' });
+      throw err;
+    }
+
+    // Content at a past revision (?commit=<hash>)
+    if (req.query.commit) {
+      if (!isValidCommitHash(req.query.commit)) {
+        return reply.code(400).send({ error: 'Invalid commit' });
       }
-    },
-  );
+      const gitPath = `${svc.storePath}/${filePath}`;
+      const committed = await getCommittedBuffer(gitPath, req.query.commit);
+      if (committed === null) {
+        return reply.code(404).send({ error: 'File not found at that revision' });
+      }
+      const bytes = decodeStoreBytes(committed);
+      if (isBinaryContent(bytes)) {
+        return {
+          ...toBinaryFileContent(bytes, filePath),
+          path: filePath,
+          commit: req.query.commit,
+        };
+      }
+      const content = await getCommittedContentAt(gitPath, req.query.commit);
+      return { type: 'file' as const, content, path: filePath, commit: req.query.commit };
+    }
+
+    try {
+      if (await isSymlink(storeFilePath)) {
+        const target = await fs.readlink(storeFilePath);
+        return { type: 'symlink' as const, target, path: filePath };
+      }
+      const bytes = await readStoreBytes(storeFilePath);
+      if (isBinaryContent(bytes)) {
+        return { ...toBinaryFileContent(bytes, filePath), path: filePath };
+      }
+      const content = await readStoreFile(storeFilePath);
+      return { type: 'file' as const, content, path: filePath };
+    } catch (err) {
+      if (err instanceof EncryptionKeyMissingError) {
+        return reply.code(409).send({ error: err.message });
+      }
+      return reply.code(404).send({ error: 'File not found in store' });
+    }
+  });
 
   // Update file content
-  app.put<{ Params: { id: string; '*': string }; Body: { content?: string; target?: string } }>(
-    '/api/services/:id/files/*',
-    async (req, reply) => {
-      if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
-      const db = state.db;
+  app.put<{
+    Params: { id: string; '*': string };
+    Body: { content?: string; encoding?: 'base64'; target?: string };
+  }>('/api/services/:id/files/*', async (req, reply) => {
+    if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
+    const db = state.db;
 
-      const filePath = req.params['*'];
-      const svc = mapRow<ServiceConfig>(
-        db.prepare('SELECT * FROM service_configs WHERE id = ?').get(req.params.id),
-      );
-      if (!svc) return reply.code(404).send({ error: 'Service config not found' });
+    const filePath = req.params['*'];
+    const svc = mapRow<ServiceConfig>(
+      db.prepare('SELECT * FROM service_configs WHERE id = ?').get(req.params.id),
+    );
+    if (!svc) return reply.code(404).send({ error: 'Service config not found' });
 
-      const storeName = svc.storePath.replace(/^services\//, '');
-      let storeFilePath: string;
+    const storeName = svc.storePath.replace(/^services\//, '');
+    let storeFilePath: string;
+    try {
+      storeFilePath = safeJoin(config.storeServicesPath, storeName, filePath);
+    } catch (err) {
+      if (err instanceof PathTraversalError)
+        return reply.code(400).send({ error: 'Invalid file path' });
+      throw err;
+    }
+
+    const trackedFile = mapRow<TrackedFile>(
+      db
+        .prepare('SELECT * FROM tracked_files WHERE service_config_id = ? AND relative_path = ?')
+        .get(svc.id, filePath),
+    );
+
+    if (trackedFile?.fileType === 'symlink' && req.body.target !== undefined) {
       try {
-        storeFilePath = safeJoin(config.storeServicesPath, storeName, filePath);
+        validateSymlinkTarget(req.body.target);
       } catch (err) {
-        if (err instanceof PathTraversalError)
-          return reply.code(400).send({ error: 'Invalid file path' });
+        if (err instanceof SymlinkTargetError) return reply.code(400).send({ error: err.message });
         throw err;
       }
+      try {
+        await fs.unlink(storeFilePath);
+      } catch {
+        // May not exist
+      }
+      await ensureDir(path.dirname(storeFilePath));
+      await fs.symlink(req.body.target, storeFilePath);
+    } else if (req.body.content !== undefined) {
+      const content = decodeFileContent(req.body.content, req.body.encoding);
+      let storeContent: string | Buffer;
+      try {
+        storeContent =
+          typeof content === 'string'
+            ? encodeStoreContent(
+                db,
+                { repoId: null, serviceConfigId: svc.id, relativePath: filePath },
+                content,
+              )
+            : encodeStoreBytes(
+                db,
+                { repoId: null, serviceConfigId: svc.id, relativePath: filePath },
+                content,
+              );
+      } catch (err) {
+        if (err instanceof EncryptionKeyMissingError)
+          return reply.code(409).send({ error: err.message });
+        throw err;
+      }
+      await ensureDir(path.dirname(storeFilePath));
+      await fs.writeFile(storeFilePath, storeContent);
 
-      const trackedFile = mapRow<TrackedFile>(
-        db
-          .prepare('SELECT * FROM tracked_files WHERE service_config_id = ? AND relative_path = ?')
-          .get(svc.id, filePath),
-      );
+      const checksum = contentChecksum(content);
+      const mtime = await getFileMtime(storeFilePath);
 
-      if (trackedFile?.fileType === 'symlink' && req.body.target !== undefined) {
-        try {
-          validateSymlinkTarget(req.body.target);
-        } catch (err) {
-          if (err instanceof SymlinkTargetError)
-            return reply.code(400).send({ error: err.message });
-          throw err;
-        }
-        try {
-          await fs.unlink(storeFilePath);
-        } catch {
-          // May not exist
-        }
-        await ensureDir(path.dirname(storeFilePath));
-        await fs.symlink(req.body.target, storeFilePath);
-      } else if (req.body.content !== undefined) {
-        await ensureDir(path.dirname(storeFilePath));
-        await fs.writeFile(storeFilePath, req.body.content, 'utf-8');
-
-        const checksum = fileChecksum(req.body.content);
-        const mtime = await getFileMtime(storeFilePath);
-
-        if (trackedFile) {
-          db.prepare(
-            `UPDATE tracked_files SET store_checksum = ?, store_mtime = ?, sync_status = 'pending_to_target' WHERE id = ?`,
-          ).run(checksum, mtime, trackedFile.id);
-        }
+      if (trackedFile) {
+        db.prepare(
+          `UPDATE tracked_files SET store_checksum = ?, store_mtime = ?, sync_status = 'pending_to_target' WHERE id = ?`,
+        ).run(checksum, mtime, trackedFile.id);
       }
+    }
 
-      await state.syncEngine.syncService(svc.id);
-      return { success: true };
-    },
-  );
+    await state.syncEngine.syncService(svc.id);
+    return { success: true };
+  });
 
   // Create new file
-  app.post<{ Params: { id: string; '*': string }; Body: { content: string } }>(
-    '/api/services/:id/files/*',
-    async (req, reply) => {
-      if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
-      const db = state.db;
+  app.post<{
+    Params: { id: string; '*': string };
+    Body: { content: string; encoding?: 'base64'; commit?: string };
+  }>('/api/services/:id/files/*', async (req, reply) => {
+    if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
+    const db = state.db;
 
-      const filePath = req.params['*'];
-      const svc = mapRow<ServiceConfig>(
-        db.prepare('SELECT * FROM service_configs WHERE id = ?').get(req.params.id),
-      );
-      if (!svc) return reply.code(404).send({ error: 'Service config not found' });
+    const filePath = req.params['*'];
+    const svc = mapRow<ServiceConfig>(
+      db.prepare('SELECT * FROM service_configs WHERE id = ?').get(req.params.id),
+    );
+    if (!svc) return reply.code(404).send({ error: 'Service config not found' });
 
-      const storeName = svc.storePath.replace(/^services\//, '');
-      let storeFilePath: string;
-      try {
-        storeFilePath = safeJoin(config.storeServicesPath, storeName, filePath);
-      } catch (err) {
-        if (err instanceof PathTraversalError)
-          return reply.code(400).send({ error: 'Invalid file path' });
-        throw err;
+    // Restore a past revision: POST /api/services/:id/files/<path>/restore { commit }
+    const restoreFile = findTrackedFileForAction(
+      db,
+      'service_config_id',
+      svc.id,
+      filePath,
+      'restore',
+    );
+    if (restoreFile) {
+      const commit = req.body.commit;
+      if (!commit || !isValidCommitHash(commit)) {
+        return reply.code(400).send({ error: 'Invalid commit' });
       }
+      const restored = await state.syncEngine.restoreFileVersion(restoreFile.id, commit);
+      if (!restored) return reply.code(404).send({ error: 'File not found at that revision' });
+      return { success: true };
+    }
 
-      if (await fileExists(storeFilePath)) {
-        return reply.code(409).send({ error: 'File already exists' });
-      }
+    const storeName = svc.storePath.replace(/^services\//, '');
+    let storeFilePath: string;
+    try {
+      storeFilePath = safeJoin(config.storeServicesPath, storeName, filePath);
+    } catch (err) {
+      if (err instanceof PathTraversalError)
+        return reply.code(400).send({ error: 'Invalid file path' });
+      throw err;
+    }
 
-      await ensureDir(path.dirname(storeFilePath));
-      await fs.writeFile(storeFilePath, req.body.content, 'utf-8');
+    if (await fileExists(storeFilePath)) {
+      return reply.code(409).send({ error: 'File already exists' });
+    }
 
-      const checksum = await fileChecksum(storeFilePath);
-      const mtime = await getFileMtime(storeFilePath);
+    const content = decodeFileContent(req.body.content, req.body.encoding);
+    let storeContent: string | Buffer;
+    try {
+      storeContent =
+        typeof content === 'string'
+          ? encodeStoreContent(
+              db,
+              { repoId: null, serviceConfigId: svc.id, relativePath: filePath },
+              content,
+            )
+          : encodeStoreBytes(
+              db,
+              { repoId: null, serviceConfigId: svc.id, relativePath: filePath },
+              content,
+            );
+    } catch (err) {
+      if (err instanceof EncryptionKeyMissingError)
+        return reply.code(409).send({ error: err.message });
+      throw err;
+    }
+    await ensureDir(path.dirname(storeFilePath));
+    await fs.writeFile(storeFilePath, storeContent);
 
-      const fileId = uuid();
-      db.prepare(
-        `INSERT INTO tracked_files (id, service_config_id, relative_path, file_type, store_checksum, store_mtime, sync_status)
+    // Checksums are of the plaintext, as in the sync engine
+    const checksum = contentChecksum(content);
+    const mtime = await getFileMtime(storeFilePath);
+
+    const fileId = uuid();
+    db.prepare(
+      `INSERT INTO tracked_files (id, service_config_id, relative_path, file_type, store_checksum, store_mtime, sync_status)
          VALUES (?, ?, ?, 'file', ?, ?, 'pending_to_target')`,
-      ).run(fileId, svc.id, filePath, checksum, mtime);
+    ).run(fileId, svc.id, filePath, checksum, mtime);
 
-      await state.syncEngine.syncService(svc.id);
-      return reply.code(201).send({ success: true, fileId });
-    },
-  );
+    await state.syncEngine.syncService(svc.id);
+    return reply.code(201).send({ success: true, fileId });
+  });
 
   // Delete file
   app.delete<{ Params: { id: string; '*': string }; Querystring: { storeOnly?: string } }>(
@@ -1009,16 +1317,8 @@ export function registerServiceRoutes(app: FastifyInstance, state: AppState): vo
         throw err;
       }
 
-      const storeRoot = safeJoin(config.storeServicesPath, storeName);
-      try {
-        await fs.unlink(storeFilePath);
-        await removeEmptyParents(storeFilePath, storeRoot);
-      } catch {
-        // May not exist
-      }
-
+      let targetFilePath: string | undefined;
       if (!storeOnly) {
-        let targetFilePath: string;
         try {
           targetFilePath = safeJoin(svc.localPath, filePath);
         } catch (err) {
@@ -1026,6 +1326,25 @@ export function registerServiceRoutes(app: FastifyInstance, state: AppState): vo
             return reply.code(400).send({ error: 'Invalid file path' });
           throw err;
         }
+      }
+
+      await moveToTrash(db, {
+        origin: 'file_deleted',
+        target: { ...svc, type: 'service' },
+        relativePath: filePath,
+        storeFilePath,
+        targetFilePath,
+      });
+
+      const storeRoot = safeJoin(config.storeServicesPath, storeName);
+      try {
+        await fs.unlink(storeFilePath);
+        await removeEmptyParents(storeFilePath, storeRoot);
+      } catch {
+        // May not exist
+      }
+
+      if (targetFilePath) {
         try {
           await fs.unlink(targetFilePath);
           await removeEmptyParents(targetFilePath, svc.localPath);
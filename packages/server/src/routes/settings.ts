@@ -14,6 +14,12 @@ import {
 import { DEFAULT_PATTERNS, DEFAULT_IGNORE_PATTERNS } from '../db/schema.js';
 import { setupGitignore } from '../services/gitignore-manager.js';
 import { commitStoreChanges } from '../services/store-git.js';
+import {
+  SECRET_SCAN_MODES,
+  validateCustomSecretRules,
+  type SecretScanMode,
+} from '../services/secret-scanner.js';
+import { getEncryptionStatus } from '../services/store-encryption.js';
 import {
   syncSettingsUpdateGlobal,
   syncSettingsUpdateFilePatterns,
@@ -40,6 +46,15 @@ export function registerSettingsRoutes(app: FastifyInstance, state: AppState): v
     if (!state.db) return reply.code(503).send({ error: 'Not configured' });
     const db = state.db;
 
+    const { secret_scan_mode: scanMode, secret_custom_rules: customRules } = req.body;
+    if (scanMode !== undefined && !SECRET_SCAN_MODES.includes(scanMode as SecretScanMode)) {
+      return reply.code(400).send({ error: `Invalid secret_scan_mode: ${scanMode}` });
+    }
+    if (customRules !== undefined) {
+      const error = validateCustomSecretRules(customRules);
+      if (error) return reply.code(400).send({ error });
+    }
+
     const upsert = db.prepare(
       'INSERT INTO settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = ?',
     );
@@ -62,6 +77,7 @@ export function registerSettingsRoutes(app: FastifyInstance, state: AppState): v
       id: string;
       pattern: string;
       enabled: number;
+      encrypt: number;
     }[];
 
     return {
@@ -69,6 +85,7 @@ export function registerSettingsRoutes(app: FastifyInstance, state: AppState): v
         id: p.id,
         pattern: p.pattern,
         enabled: p.enabled === 1,
+        encrypt: p.encrypt === 1,
         source: (defaultSet.has(p.pattern) ? 'default' : 'user') as 'default' | 'user',
       })),
     };
@@ -213,25 +230,41 @@ export function registerSettingsRoutes(app: FastifyInstance, state: AppState): v
   });
 
   // Update file patterns
-  app.put<{ Body: { patterns: { id?: string; pattern: string; enabled: boolean }[] } }>(
-    '/api/patterns',
-    async (req, reply) => {
-      if (!state.db) return reply.code(503).send({ error: 'Not configured' });
-      const db = state.db;
+  app.put<{
+    Body: { patterns: { id?: string; pattern: string; enabled: boolean; encrypt?: boolean }[] };
+  }>('/api/patterns', async (req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+    const db = state.db;
 
-      // Replace all patterns
-      db.prepare('DELETE FROM file_patterns').run();
+    if (req.body.patterns.some((p) => p.encrypt) && !getEncryptionStatus().unlocked) {
+      return reply.code(400).send({ error: 'Set an encryption passphrase first' });
+    }
 
-      const insert = db.prepare(
-        'INSERT INTO file_patterns (id, pattern, enabled) VALUES (?, ?, ?)',
-      );
+    const encryptBefore = db
+      .prepare('SELECT pattern FROM file_patterns WHERE encrypt = 1 ORDER BY pattern')
+      .all() as { pattern: string }[];
 
-      for (const p of req.body.patterns) {
-        insert.run(p.id || uuid(), p.pattern, p.enabled ? 1 : 0);
-      }
+    // Replace all patterns
+    db.prepare('DELETE FROM file_patterns').run();
 
-      syncSettingsUpdateFilePatterns(db);
-      return { success: true };
-    },
-  );
+    const insert = db.prepare(
+      'INSERT INTO file_patterns (id, pattern, enabled, encrypt) VALUES (?, ?, ?, ?)',
+    );
+
+    for (const p of req.body.patterns) {
+      insert.run(p.id || uuid(), p.pattern, p.enabled ? 1 : 0, p.encrypt ? 1 : 0);
+    }
+
+    syncSettingsUpdateFilePatterns(db);
+
+    // Re-encrypt or decrypt existing store files whose flag changed
+    const encryptAfter = req.body.patterns
+      .filter((p) => p.encrypt)
+      .map((p) => p.pattern)
+      .sort();
+    if (encryptAfter.join('\n') !== encryptBefore.map((p) => p.pattern).join('\n')) {
+      await state.syncEngine?.syncAllRepos();
+    }
+    return { success: true };
+  });
 }
@@ -0,0 +1,77 @@
+import type { FastifyInstance } from 'fastify';
+import { config } from '../config.js';
+import type { AppState } from '../app-state.js';
+import { mapRow } from '../db/index.js';
+import type { Repo } from '../types/index.js';
+import {
+  LinkedFileError,
+  getFileLink,
+  listSharedFiles,
+  normalizeSharedPath,
+  setFileLink,
+} from '../services/linked-files.js';
+import { syncSettingsUpdateRepo } from '../services/sync-settings.js';
+import { safeJoin, PathTraversalError } from '../utils/safe-path.js';
+
+export function registerSharedRoutes(app: FastifyInstance, state: AppState): void {
+  // Shared files and the repo files linked to them
+  app.get('/api/shared', async (_req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+
+    return { files: await listSharedFiles(state.db) };
+  });
+
+  // Link a repo file to a shared file
+  app.post<{ Params: { id: string }; Body: { path: string; sharedPath: string } }>(
+    '/api/repos/:id/links',
+    async (req, reply) => {
+      if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
+      const db = state.db;
+
+      const repo = mapRow<Repo>(db.prepare('SELECT * FROM repos WHERE id = ?').get(req.params.id));
+      if (!repo) return reply.code(404).send({ error: 'Repo not found' });
+
+      const { path: relativePath, sharedPath } = req.body ?? {};
+      if (!relativePath || !sharedPath) {
+        return reply.code(400).send({ error: 'path and sharedPath are required' });
+      }
+
+      try {
+        safeJoin(config.storeReposPath, repo.storePath.replace(/^repos\//, ''), relativePath);
+        const normalized = normalizeSharedPath(sharedPath);
+        await state.syncEngine.linkFile(repo, relativePath, normalized);
+        syncSettingsUpdateRepo(db, repo.storePath);
+        return { success: true, sharedPath: normalized };
+      } catch (err) {
+        if (err instanceof LinkedFileError) {
+          return reply.code(err.statusCode).send({ error: err.message });
+        }
+        if (err instanceof PathTraversalError) {
+          return reply.code(400).send({ error: 'Invalid file path' });
+        }
+        throw err;
+      }
+    },
+  );
+
+  // Unlink a repo file; it keeps its current content as a regular file
+  app.delete<{ Params: { id: string; '*': string } }>(
+    '/api/repos/:id/links/*',
+    async (req, reply) => {
+      if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+      const db = state.db;
+
+      const repo = mapRow<Repo>(db.prepare('SELECT * FROM repos WHERE id = ?').get(req.params.id));
+      if (!repo) return reply.code(404).send({ error: 'Repo not found' });
+
+      const relativePath = req.params['*'];
+      if (!getFileLink(db, repo.id, relativePath)) {
+        return reply.code(404).send({ error: 'File is not linked' });
+      }
+
+      setFileLink(db, repo.id, relativePath, null);
+      syncSettingsUpdateRepo(db, repo.storePath);
+      return { success: true };
+    },
+  );
+}
@@ -15,10 +15,11 @@ interface SyncLogEntryWithRepo extends SyncLogEntry {
 }
 
 export function registerSyncRoutes(app: FastifyInstance, state: AppState): void {
-  // Force sync all repos
-  app.post('/api/sync/trigger', async (_req, reply) => {
+  // Force sync all repos; ?dryRun=1 returns each repo's sync plan instead
+  app.post<{ Querystring: { dryRun?: string } }>('/api/sync/trigger', async (req, reply) => {
     if (!state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
 
+    if (req.query.dryRun === '1') return { plans: await state.syncEngine.planAllRepos() };
     await state.syncEngine.syncAllRepos({ force: true });
     return { success: true };
   });
@@ -1,120 +1,275 @@
-import type { FastifyInstance } from 'fastify';
+import type { FastifyInstance, FastifyReply } from 'fastify';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import { config } from '../config.js';
 import { ensureDir, fileExists } from '../services/repo-scanner.js';
 import type { AppState } from '../app-state.js';
-import { safeJoin, PathTraversalError } from '../utils/safe-path.js';
-
-async function listFilesRecursive(dir: string, base = ''): Promise<string[]> {
-  const result: string[] = [];
-  try {
-    const entries = await fs.readdir(dir, { withFileTypes: true });
-    for (const entry of entries) {
-      const rel = base ? `${base}/${entry.name}` : entry.name;
-      if (entry.isDirectory()) {
-        result.push(...(await listFilesRecursive(path.join(dir, entry.name), rel)));
-      } else {
-        result.push(rel);
-      }
-    }
-  } catch {
-    // Directory may not exist
+import { PathTraversalError } from '../utils/safe-path.js';
+import { mapRow } from '../db/index.js';
+import type { Repo } from '../types/index.js';
+import {
+  BUILTIN_TEMPLATE_VARIABLES,
+  TemplateSyntaxError,
+  buildTemplateVariables,
+  findCustomVariables,
+  getRepoTemplateVars,
+  renderTemplate,
+} from '../services/template-renderer.js';
+import {
+  REPO_TEMPLATE_KEY,
+  TemplateError,
+  createTemplate,
+  deleteTemplate,
+  getTemplate,
+  listTemplateFiles,
+  listTemplates,
+  resolveTemplateFile,
+  templateFilePath,
+  updateTemplate,
+} from '../services/templates.js';
+import { syncSettingsUpdateRepo } from '../services/sync-settings.js';
+
+type TemplateParams = { name: string };
+type TemplateFileParams = { name: string; '*': string };
+
+/** Send the response for a known template error; returns false for anything else */
+function sendTemplateError(reply: FastifyReply, err: unknown): boolean {
+  if (err instanceof TemplateError) {
+    reply.code(err.statusCode).send({ error: err.message });
+    return true;
+  }
+  if (err instanceof PathTraversalError) {
+    reply.code(400).send({ error: 'Invalid file path' });
+    return true;
   }
-  return result;
+  return false;
 }
 
-export function registerTemplateRoutes(app: FastifyInstance, _state: AppState): void {
-  const getTemplateDir = () => path.join(config.storeReposPath, '_default');
+export function registerTemplateRoutes(app: FastifyInstance, state: AppState): void {
+  // List templates
+  app.get('/api/templates', async (_req, reply) => {
+    if (!config.storeTemplatesPath) return reply.code(503).send({ error: 'Not configured' });
 
-  // List template files
-  app.get('/api/templates/files', async (_req, reply) => {
-    if (!config.storeReposPath) return reply.code(503).send({ error: 'Not configured' });
+    return { templates: await listTemplates() };
+  });
+
+  // Create a template, optionally extending another
+  app.post<{ Body: { name: string; extends?: string | null; description?: string } }>(
+    '/api/templates',
+    async (req, reply) => {
+      if (!config.storeTemplatesPath) return reply.code(503).send({ error: 'Not configured' });
 
-    const files = await listFilesRecursive(getTemplateDir());
-    return { files };
+      try {
+        return reply.code(201).send(await createTemplate(req.body));
+      } catch (err) {
+        if (sendTemplateError(reply, err)) return reply;
+        throw err;
+      }
+    },
+  );
+
+  // Get a template's settings
+  app.get<{ Params: TemplateParams }>('/api/templates/:name', async (req, reply) => {
+    if (!config.storeTemplatesPath) return reply.code(503).send({ error: 'Not configured' });
+
+    try {
+      return await getTemplate(req.params.name);
+    } catch (err) {
+      if (sendTemplateError(reply, err)) return reply;
+      throw err;
+    }
+  });
+
+  // Update a template's parent or description, or rename it
+  app.put<{
+    Params: TemplateParams;
+    Body: { name?: string; extends?: string | null; description?: string };
+  }>('/api/templates/:name', async (req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+    const db = state.db;
+
+    let template;
+    try {
+      template = await updateTemplate(req.params.name, req.body);
+    } catch (err) {
+      if (sendTemplateError(reply, err)) return reply;
+      throw err;
+    }
+
+    // Keep repos created from a renamed template pointing at it
+    if (template.name !== req.params.name) {
+      const repos = db
+        .prepare(
+          `SELECT r.store_path FROM repos r JOIN repo_settings s ON s.repo_id = r.id
+           WHERE s.key = ? AND s.value = ?`,
+        )
+        .all(REPO_TEMPLATE_KEY, req.params.name) as { store_path: string }[];
+      db.prepare('UPDATE repo_settings SET value = ? WHERE key = ? AND value = ?').run(
+        template.name,
+        REPO_TEMPLATE_KEY,
+        req.params.name,
+      );
+      for (const repo of repos) syncSettingsUpdateRepo(db, repo.store_path);
+    }
+    return template;
+  });
+
+  // Delete a template
+  app.delete<{ Params: TemplateParams }>('/api/templates/:name', async (req, reply) => {
+    if (!config.storeTemplatesPath) return reply.code(503).send({ error: 'Not configured' });
+
+    try {
+      await deleteTemplate(req.params.name);
+      return { success: true };
+    } catch (err) {
+      if (sendTemplateError(reply, err)) return reply;
+      throw err;
+    }
   });
 
-  // Get template file content
-  app.get<{ Params: { '*': string } }>('/api/templates/files/*', async (req, reply) => {
-    if (!config.storeReposPath) return reply.code(503).send({ error: 'Not configured' });
+  // List template files, including inherited ones
+  app.get<{ Params: TemplateParams }>('/api/templates/:name/files', async (req, reply) => {
+    if (!config.storeTemplatesPath) return reply.code(503).send({ error: 'Not configured' });
 
-    let filePath: string;
     try {
-      filePath = safeJoin(getTemplateDir(), req.params['*']);
+      return { files: await listTemplateFiles(req.params.name) };
     } catch (err) {
-      if (err instanceof PathTraversalError)
-        return reply.code(400).send({ error: 'Invalid file path' });
+      if (sendTemplateError(reply, err)) return reply;
       throw err;
     }
+  });
+
+  // Variables available to a template: built-ins plus the custom ones its files use
+  app.get<{ Params: TemplateParams }>('/api/templates/:name/variables', async (req, reply) => {
+    if (!config.storeTemplatesPath) return reply.code(503).send({ error: 'Not configured' });
+
+    const custom = new Set<string>();
     try {
+      for (const file of await listTemplateFiles(req.params.name)) {
+        try {
+          const content = await fs.readFile(templateFilePath(file.source, file.path), 'utf-8');
+          for (const name of findCustomVariables(content)) custom.add(name);
+        } catch {
+          // Unreadable file — skip
+        }
+      }
+    } catch (err) {
+      if (sendTemplateError(reply, err)) return reply;
+      throw err;
+    }
+    return { builtIn: BUILTIN_TEMPLATE_VARIABLES, custom: [...custom].sort() };
+  });
+
+  // Render a template file as it would be applied to a registered repo
+  app.get<{ Params: TemplateFileParams; Querystring: { repoId?: string } }>(
+    '/api/templates/:name/preview/*',
+    async (req, reply) => {
+      if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+
+      const repo = mapRow<Repo>(
+        state.db.prepare('SELECT * FROM repos WHERE id = ?').get(req.query.repoId ?? ''),
+      );
+      if (!repo) return reply.code(404).send({ error: 'Repo not found' });
+
+      let filePath: string | null;
+      try {
+        filePath = await resolveTemplateFile(req.params.name, req.params['*']);
+      } catch (err) {
+        if (sendTemplateError(reply, err)) return reply;
+        throw err;
+      }
+      if (!filePath) return reply.code(404).send({ error: 'Template file not found' });
       const content = await fs.readFile(filePath, 'utf-8');
-      return { content, path: req.params['*'] };
-    } catch {
-      return reply.code(404).send({ error: 'Template file not found' });
+
+      const vars = await buildTemplateVariables(repo, getRepoTemplateVars(state.db, repo.id));
+      try {
+        return { ...renderTemplate(content, vars), path: req.params['*'] };
+      } catch (err) {
+        if (err instanceof TemplateSyntaxError) return reply.code(400).send({ error: err.message });
+        throw err;
+      }
+    },
+  );
+
+  // Get template file content (own or inherited)
+  app.get<{ Params: TemplateFileParams }>('/api/templates/:name/files/*', async (req, reply) => {
+    if (!config.storeTemplatesPath) return reply.code(503).send({ error: 'Not configured' });
+
+    try {
+      const files = await listTemplateFiles(req.params.name);
+      const file = files.find((f) => f.path === req.params['*']);
+      if (!file) return reply.code(404).send({ error: 'Template file not found' });
+      const content = await fs.readFile(templateFilePath(file.source, file.path), 'utf-8');
+      return { content, path: file.path, source: file.source };
+    } catch (err) {
+      if (sendTemplateError(reply, err)) return reply;
+      throw err;
     }
   });
 
-  // Update template file
-  app.put<{ Params: { '*': string }; Body: { content: string } }>(
-    '/api/templates/files/*',
+  // Update template file. Saving an inherited file creates an override in this template.
+  app.put<{ Params: TemplateFileParams; Body: { content: string } }>(
+    '/api/templates/:name/files/*',
     async (req, reply) => {
-      if (!config.storeReposPath) return reply.code(503).send({ error: 'Not configured' });
+      if (!config.storeTemplatesPath) return reply.code(503).send({ error: 'Not configured' });
 
-      let filePath: string;
       try {
-        filePath = safeJoin(getTemplateDir(), req.params['*']);
+        await getTemplate(req.params.name);
+        const filePath = templateFilePath(req.params.name, req.params['*']);
+        await ensureDir(path.dirname(filePath));
+        await fs.writeFile(filePath, req.body.content, 'utf-8');
+        return { success: true };
       } catch (err) {
-        if (err instanceof PathTraversalError)
-          return reply.code(400).send({ error: 'Invalid file path' });
+        if (sendTemplateError(reply, err)) return reply;
         throw err;
       }
-      await ensureDir(path.dirname(filePath));
-      await fs.writeFile(filePath, req.body.content, 'utf-8');
-      return { success: true };
     },
   );
 
   // Create template file
-  app.post<{ Params: { '*': string }; Body: { content: string } }>(
-    '/api/templates/files/*',
+  app.post<{ Params: TemplateFileParams; Body: { content: string } }>(
+    '/api/templates/:name/files/*',
     async (req, reply) => {
-      if (!config.storeReposPath) return reply.code(503).send({ error: 'Not configured' });
+      if (!config.storeTemplatesPath) return reply.code(503).send({ error: 'Not configured' });
 
-      let filePath: string;
       try {
-        filePath = safeJoin(getTemplateDir(), req.params['*']);
+        await getTemplate(req.params.name);
+        const filePath = templateFilePath(req.params.name, req.params['*']);
+        if (await fileExists(filePath)) {
+          return reply.code(409).send({ error: 'Template file already exists' });
+        }
+        await ensureDir(path.dirname(filePath));
+        await fs.writeFile(filePath, req.body.content, 'utf-8');
+        return reply.code(201).send({ success: true });
       } catch (err) {
-        if (err instanceof PathTraversalError)
-          return reply.code(400).send({ error: 'Invalid file path' });
+        if (sendTemplateError(reply, err)) return reply;
         throw err;
       }
-      if (await fileExists(filePath)) {
-        return reply.code(409).send({ error: 'Template file already exists' });
-      }
-      await ensureDir(path.dirname(filePath));
-      await fs.writeFile(filePath, req.body.content, 'utf-8');
-      return reply.code(201).send({ success: true });
     },
   );
 
-  // Delete template file
-  app.delete<{ Params: { '*': string } }>('/api/templates/files/*', async (req, reply) => {
-    if (!config.storeReposPath) return reply.code(503).send({ error: 'Not configured' });
+  // Delete template file. Deleting an override falls back to the inherited file.
+  app.delete<{ Params: TemplateFileParams }>('/api/templates/:name/files/*', async (req, reply) => {
+    if (!config.storeTemplatesPath) return reply.code(503).send({ error: 'Not configured' });
 
-    let filePath: string;
-    try {
-      filePath = safeJoin(getTemplateDir(), req.params['*']);
-    } catch (err) {
-      if (err instanceof PathTraversalError)
-        return reply.code(400).send({ error: 'Invalid file path' });
-      throw err;
-    }
     try {
+      const filePath = templateFilePath(req.params.name, req.params['*']);
+      if (!(await fileExists(filePath))) {
+        const inherited = (await listTemplateFiles(req.params.name)).find(
+          (f) => f.path === req.params['*'],
+        );
+        if (inherited) {
+          return reply
+            .code(400)
+            .send({ error: `File is inherited from template "${inherited.source}"` });
+        }
+        return reply.code(404).send({ error: 'Template file not found' });
+      }
       await fs.unlink(filePath);
       return { success: true };
-    } catch {
-      return reply.code(404).send({ error: 'Template file not found' });
+    } catch (err) {
+      if (sendTemplateError(reply, err)) return reply;
+      throw err;
     }
   });
 }
@@ -0,0 +1,100 @@
+import type { FastifyInstance } from 'fastify';
+import type { AppState } from '../app-state.js';
+import { isBinaryContent, toBinaryFileContent } from '../services/binary-files.js';
+import { commitStoreChanges } from '../services/store-git.js';
+import {
+  decodeStoreBytes,
+  decryptStoreContent,
+  EncryptionKeyMissingError,
+} from '../services/store-encryption.js';
+import {
+  deleteTrashItem,
+  emptyTrash,
+  getTrashItem,
+  getTrashRetentionDays,
+  listTrashItems,
+  restoreTrashItem,
+  TrashRestoreError,
+} from '../services/trash.js';
+
+export function registerTrashRoutes(app: FastifyInstance, state: AppState): void {
+  // Trashed files, newest first
+  app.get('/api/trash', async (_req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+    const db = state.db;
+
+    return { items: listTrashItems(db), retentionDays: getTrashRetentionDays(db) };
+  });
+
+  // A trashed file with its content, decrypted
+  app.get<{ Params: { id: string } }>('/api/trash/:id', async (req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+
+    const trashed = getTrashItem(state.db, req.params.id);
+    if (!trashed) return reply.code(404).send({ error: 'Trash item not found' });
+    const { item } = trashed;
+
+    try {
+      const content = item.source === 'store' ? decodeStoreBytes(trashed.content) : trashed.content;
+      if (isBinaryContent(content)) {
+        return { item, file: toBinaryFileContent(content, item.relativePath) };
+      }
+      const text = content.toString('utf-8');
+      return {
+        item,
+        file: {
+          type: 'file' as const,
+          content: item.source === 'store' ? decryptStoreContent(text) : text,
+        },
+      };
+    } catch (err) {
+      if (err instanceof EncryptionKeyMissingError)
+        return reply.code(409).send({ error: err.message });
+      throw err;
+    }
+  });
+
+  // Put a trashed file back and sync it to the other side
+  app.post<{ Params: { id: string } }>('/api/trash/:id/restore', async (req, reply) => {
+    if (!state.db || !state.syncEngine) return reply.code(503).send({ error: 'Not configured' });
+    const syncEngine = state.syncEngine;
+
+    let result: Awaited<ReturnType<typeof restoreTrashItem>>;
+    try {
+      result = await restoreTrashItem(state.db, req.params.id);
+    } catch (err) {
+      if (err instanceof TrashRestoreError) return reply.code(409).send({ error: err.message });
+      throw err;
+    }
+    if (!result) return reply.code(404).send({ error: 'Trash item not found' });
+
+    const { item, target, trackedFileId } = result;
+    if (target && trackedFileId) {
+      const options = { fileIds: [trackedFileId] };
+      if (target.type === 'repo') await syncEngine.syncRepo(target.id, options);
+      else await syncEngine.syncService(target.id, options);
+    }
+    await commitStoreChanges(
+      `[${target?.name ?? item.targetName}] Restore ${item.relativePath} from trash`,
+    );
+
+    return { success: true, restoredToTarget: trackedFileId !== null };
+  });
+
+  // Delete a trashed file for good
+  app.delete<{ Params: { id: string } }>('/api/trash/:id', async (req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+
+    if (!deleteTrashItem(state.db, req.params.id)) {
+      return reply.code(404).send({ error: 'Trash item not found' });
+    }
+    return { success: true };
+  });
+
+  // Empty the trash
+  app.delete('/api/trash', async (_req, reply) => {
+    if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+
+    return { success: true, deleted: emptyTrash(state.db) };
+  });
+}
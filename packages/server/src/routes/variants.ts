@@ -0,0 +1,159 @@
+import path from 'node:path';
+import type Database from 'better-sqlite3';
+import type { FastifyInstance } from 'fastify';
+import type { AppState } from '../app-state.js';
+import { config } from '../config.js';
+import { mapRow } from '../db/index.js';
+import type { MachineVariantKind, TrackedFile } from '../types/index.js';
+import { readMachinesFile } from '../services/machines.js';
+import { MachineVariantError, listMachineVariants } from '../services/machine-variants.js';
+
+/** Repos and services share the variant routes; only where their files live differs */
+const OWNERS = [
+  {
+    prefix: '/api/repos',
+    table: 'repos',
+    column: 'repo_id',
+    storeDir: (storePath: string) =>
+      path.join(config.storeReposPath, storePath.replace(/^repos\//, '')),
+    notFound: 'Repo not found',
+  },
+  {
+    prefix: '/api/services',
+    table: 'service_configs',
+    column: 'service_config_id',
+    storeDir: (storePath: string) =>
+      path.join(config.storeServicesPath, storePath.replace(/^services\//, '')),
+    notFound: 'Service config not found',
+  },
+] as const;
+
+function findStoreDir(
+  db: Database.Database,
+  owner: (typeof OWNERS)[number],
+  id: string,
+): string | null {
+  const row = db.prepare(`SELECT store_path FROM ${owner.table} WHERE id = ?`).get(id) as
+    | { store_path: string }
+    | undefined;
+  return row ? owner.storeDir(row.store_path) : null;
+}
+
+function findTrackedFile(
+  db: Database.Database,
+  owner: (typeof OWNERS)[number],
+  id: string,
+  relativePath: string,
+): TrackedFile | null {
+  return (
+    mapRow<TrackedFile>(
+      db
+        .prepare(`SELECT * FROM tracked_files WHERE ${owner.column} = ? AND relative_path = ?`)
+        .get(id, relativePath),
+    ) ?? null
+  );
+}
+
+export function registerVariantRoutes(app: FastifyInstance, state: AppState): void {
+  for (const owner of OWNERS) {
+    // Every machine's variants of the owner's files
+    app.get<{ Params: { id: string } }>(`${owner.prefix}/:id/variants`, async (req, reply) => {
+      if (!state.db) return reply.code(503).send({ error: 'Not configured' });
+
+      const storeDir = findStoreDir(state.db, owner, req.params.id);
+      if (!storeDir) return reply.code(404).send({ error: owner.notFound });
+
+      return {
+        machineId: config.machineId,
+        variants: await listMachineVariants(storeDir, readMachinesFile().machines),
+      };
+    });
+
+    // Give a file a variant for this machine
+    app.post<{ Params: { id: string }; Body: { path: string; kind: MachineVariantKind } }>(
+      `${owner.prefix}/:id/variants`,
+      async (req, reply) => {
+        if (!state.db || !state.syncEngine) {
+          return reply.code(503).send({ error: 'Not configured' });
+        }
+        if (!findStoreDir(state.db, owner, req.params.id)) {
+          return reply.code(404).send({ error: owner.notFound });
+        }
+
+        const { path: relativePath, kind } = req.body ?? {};
+        if (!relativePath || (kind !== 'file' && kind !== 'overlay')) {
+          return reply.code(400).send({ error: 'path and kind (file or overlay) are required' });
+        }
+        const trackedFile = findTrackedFile(state.db, owner, req.params.id, relativePath);
+        if (!trackedFile) return reply.code(404).send({ error: 'File not tracked' });
+
+        try {
+          await state.syncEngine.createMachineVariant(trackedFile.id, kind);
+          return reply.code(201).send({ success: true });
+        } catch (err) {
+          if (err instanceof MachineVariantError) {
+            return reply.code(err.statusCode).send({ error: err.message });
+          }
+          throw err;
+        }
+      },
+    );
+
+    // Make a machine's view of a file the shared content
+    app.post<{ Params: { id: string }; Body: { path: string; machineId: string } }>(
+      `${owner.prefix}/:id/variants/promote`,
+      async (req, reply) => {
+        if (!state.db || !state.syncEngine) {
+          return reply.code(503).send({ error: 'Not configured' });
+        }
+        if (!findStoreDir(state.db, owner, req.params.id)) {
+          return reply.code(404).send({ error: owner.notFound });
+        }
+
+        const { path: relativePath, machineId } = req.body ?? {};
+        if (!relativePath || !machineId) {
+          return reply.code(400).send({ error: 'path and machineId are required' });
+        }
+        const trackedFile = findTrackedFile(state.db, owner, req.params.id, relativePath);
+        if (!trackedFile) return reply.code(404).send({ error: 'File not tracked' });
+
+        try {
+          await state.syncEngine.promoteMachineVariant(trackedFile.id, machineId);
+          return { success: true };
+        } catch (err) {
+          if (err instanceof MachineVariantError) {
+            return reply.code(err.statusCode).send({ error: err.message });
+          }
+          throw err;
+        }
+      },
+    );
+
+    // Drop a machine's variant; the machine goes back to the shared file
+    app.delete<{ Params: { id: string; '*': string }; Querystring: { machineId?: string } }>(
+      `${owner.prefix}/:id/variants/*`,
+      async (req, reply) => {
+        if (!state.db || !state.syncEngine) {
+          return reply.code(503).send({ error: 'Not configured' });
+        }
+        if (!findStoreDir(state.db, owner, req.params.id)) {
+          return reply.code(404).send({ error: owner.notFound });
+        }
+
+        const machineId = req.query.machineId || config.machineId;
+        const trackedFile = findTrackedFile(state.db, owner, req.params.id, req.params['*']);
+        if (!trackedFile) return reply.code(404).send({ error: 'File not tracked' });
+
+        try {
+          await state.syncEngine.removeMachineVariant(trackedFile.id, machineId);
+          return { success: true };
+        } catch (err) {
+          if (err instanceof MachineVariantError) {
+            return reply.code(err.statusCode).send({ error: err.message });
+          }
+          throw err;
+        }
+      },
+    );
+  }
+}
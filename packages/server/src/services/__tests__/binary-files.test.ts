@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { SyncEngine } from '../sync-engine.js';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import { mapRow } from '../../db/index.js';
+import type { Conflict, Repo, TrackedFile } from '../../types/index.js';
+import { isBinaryContent, toBinaryFileContent } from '../binary-files.js';
+import { contentChecksum } from '../checksum.js';
+
+// ── Mocks ───────────────────────────────────────────────────────────────────
+
+vi.mock('../store-git.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../store-git.js')>();
+  return {
+    ...actual,
+    queueStoreCommit: vi.fn(),
+    ensureStoreCommitted: vi.fn().mockResolvedValue([]),
+    getCommittedContent: vi.fn(async () => null),
+    getHeadCommitHash: vi.fn().mockResolvedValue('head'),
+  };
+});
+
+vi.mock('../file-watcher.js', async () => {
+  const { EventEmitter } = await import('node:events');
+  class MockFileWatcherService extends EventEmitter {
+    markSelfChange = vi.fn();
+    stopAll = vi.fn().mockResolvedValue(undefined);
+  }
+  return { FileWatcherService: MockFileWatcherService };
+});
+
+// A PNG signature followed by bytes that aren't valid UTF-8
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff, 0xfe]);
+const PNG_EDITED = Buffer.concat([PNG, Buffer.from([0x01, 0x80])]);
+const PNG_OTHER = Buffer.concat([PNG, Buffer.from([0x02, 0x81])]);
+
+describe('isBinaryContent', () => {
+  it('detects NUL bytes and invalid UTF-8', () => {
+    expect(isBinaryContent(PNG)).toBe(true);
+    expect(isBinaryContent(Buffer.from([0x68, 0x69, 0xc3]))).toBe(true);
+  });
+
+  it('treats UTF-8 text as text', () => {
+    expect(isBinaryContent(Buffer.from('# Rules — ünïcode\n'))).toBe(false);
+    expect(isBinaryContent(Buffer.alloc(0))).toBe(false);
+  });
+});
+
+describe('toBinaryFileContent', () => {
+  it('encodes bytes with their size, checksum and preview type', () => {
+    expect(toBinaryFileContent(PNG, 'assets/logo.PNG')).toEqual({
+      type: 'binary',
+      content: PNG.toString('base64'),
+      size: PNG.length,
+      checksum: contentChecksum(PNG),
+      mimeType: 'image/png',
+    });
+    expect(toBinaryFileContent(PNG, 'font.woff2').mimeType).toBeNull();
+  });
+});
+
+// ── Sync ─────────────────────────────────────────────────────────────────────
+
+let tmpDir: string;
+let db: Database.Database;
+let engine: SyncEngine;
+
+const repoDir = () => path.join(tmpDir, 'web');
+const storeFile = () => path.join(config.storeReposPath, 'web', 'logo.png');
+const targetFile = () => path.join(repoDir(), 'logo.png');
+const getRepo = () => mapRow<Repo>(db.prepare("SELECT * FROM repos WHERE id = 'web'").get())!;
+const getTrackedFile = () =>
+  mapRow<TrackedFile>(db.prepare("SELECT * FROM tracked_files WHERE id = 'tf-logo'").get())!;
+const getConflict = () =>
+  mapRow<Conflict>(
+    db
+      .prepare("SELECT * FROM conflicts WHERE tracked_file_id = 'tf-logo' AND status = 'pending'")
+      .get(),
+  );
+const sync = () => engine.syncFile(getTrackedFile(), { ...getRepo(), type: 'repo' });
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'binary-files-test-'));
+  config.storePath = path.join(tmpDir, 'store');
+  config.storeReposPath = path.join(tmpDir, 'store', 'repos');
+  config.localSecretsPath = path.join(tmpDir, 'home', '.ai-sync', 'secrets.json');
+
+  db = new Database(':memory:');
+  initSchema(db);
+  await fs.mkdir(repoDir(), { recursive: true });
+  await fs.mkdir(path.dirname(storeFile()), { recursive: true });
+  db.prepare(
+    "INSERT INTO repos (id, name, local_path, store_path) VALUES ('web', 'web', ?, 'repos/web')",
+  ).run(repoDir());
+  db.prepare(
+    "INSERT INTO tracked_files (id, repo_id, relative_path, sync_status) VALUES ('tf-logo', 'web', 'logo.png', 'pending_to_store')",
+  ).run();
+  engine = new SyncEngine(db);
+
+  await fs.writeFile(targetFile(), PNG);
+  await sync();
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+  db.close();
+  vi.clearAllMocks();
+});
+
+describe('syncing binary files', () => {
+  it('copies a new file into the store byte for byte', async () => {
+    expect(await fs.readFile(storeFile())).toEqual(PNG);
+    expect(getTrackedFile()).toMatchObject({
+      syncStatus: 'synced',
+      storeChecksum: contentChecksum(PNG),
+      targetChecksum: contentChecksum(PNG),
+    });
+  });
+
+  it('copies whichever side changed', async () => {
+    await fs.writeFile(targetFile(), PNG_EDITED);
+    await sync();
+    expect(await fs.readFile(storeFile())).toEqual(PNG_EDITED);
+
+    await fs.writeFile(storeFile(), PNG_OTHER);
+    await sync();
+    expect(await fs.readFile(targetFile())).toEqual(PNG_OTHER);
+    expect(getTrackedFile().syncStatus).toBe('synced');
+  });
+
+  it('flags a binary conflict when both sides changed', async () => {
+    await fs.writeFile(storeFile(), PNG_EDITED);
+    await fs.writeFile(targetFile(), PNG_OTHER);
+    await sync();
+
+    expect(getTrackedFile().syncStatus).toBe('conflict');
+    expect(getConflict()).toMatchObject({
+      isBinary: 1,
+      storeContent: PNG_EDITED.toString('base64'),
+      targetContent: PNG_OTHER.toString('base64'),
+      storeChecksum: contentChecksum(PNG_EDITED),
+      targetChecksum: contentChecksum(PNG_OTHER),
+      baseContent: null,
+      mergedContent: null,
+    });
+    // Neither side is overwritten
+    expect(await fs.readFile(storeFile())).toEqual(PNG_EDITED);
+    expect(await fs.readFile(targetFile())).toEqual(PNG_OTHER);
+  });
+
+  it('clears the conflict once both sides match again', async () => {
+    await fs.writeFile(storeFile(), PNG_EDITED);
+    await fs.writeFile(targetFile(), PNG_OTHER);
+    await sync();
+
+    await fs.writeFile(targetFile(), PNG_EDITED);
+    await sync();
+
+    expect(getConflict()).toBeUndefined();
+    expect(getTrackedFile().syncStatus).toBe('synced');
+  });
+});
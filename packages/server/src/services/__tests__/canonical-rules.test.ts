@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { SyncEngine } from '../sync-engine.js';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import { mapRow } from '../../db/index.js';
+import type { Repo, TrackedFile } from '../../types/index.js';
+import { foldRules, getRulesTargets, renderRules, rulesFilePath } from '../canonical-rules.js';
+
+// ── Mocks ───────────────────────────────────────────────────────────────────
+
+vi.mock('../store-git.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../store-git.js')>();
+  return {
+    ...actual,
+    queueStoreCommit: vi.fn(),
+    ensureStoreCommitted: vi.fn().mockResolvedValue([]),
+    getCommittedContent: vi.fn(async () => null),
+    getHeadCommitHash: vi.fn().mockResolvedValue('head'),
+  };
+});
+
+vi.mock('../file-watcher.js', async () => {
+  const { EventEmitter } = await import('node:events');
+  class MockFileWatcherService extends EventEmitter {
+    markSelfChange = vi.fn();
+    stopAll = vi.fn().mockResolvedValue(undefined);
+  }
+  return { FileWatcherService: MockFileWatcherService };
+});
+
+// ── Rendering ────────────────────────────────────────────────────────────────
+
+const CANONICAL = '---\nglobs: src/**/*.ts\n---\n# Rules\nUse strict mode\n';
+
+describe('renderRules', () => {
+  it('renders the body alone for plain formats', () => {
+    expect(renderRules(CANONICAL, 'claude')).toBe('# Rules\nUse strict mode\n');
+    expect(renderRules(CANONICAL, 'copilot')).toBe('# Rules\nUse strict mode\n');
+  });
+
+  it('adds .mdc frontmatter with defaults for missing fields', () => {
+    expect(renderRules(CANONICAL, 'cursor')).toBe(
+      '---\nglobs: src/**/*.ts\ndescription:\nalwaysApply: true\n---\n# Rules\nUse strict mode\n',
+    );
+    expect(renderRules('Be brief\n', 'cursor')).toBe(
+      '---\ndescription:\nglobs:\nalwaysApply: true\n---\nBe brief\n',
+    );
+  });
+});
+
+describe('foldRules', () => {
+  it('keeps the canonical frontmatter when a plain file changes', () => {
+    expect(foldRules(CANONICAL, 'gemini', 'Be brief\n')).toBe(
+      '---\nglobs: src/**/*.ts\n---\nBe brief\n',
+    );
+  });
+
+  it('takes frontmatter changes from the .mdc file', () => {
+    const folded = foldRules(
+      CANONICAL,
+      'cursor',
+      '---\nglobs: src/**/*.ts\nalwaysApply: false\n---\nBe brief\n',
+    );
+    expect(folded).toBe('---\nglobs: src/**/*.ts\nalwaysApply: false\n---\nBe brief\n');
+    expect(renderRules(folded!, 'cursor')).toBe(
+      '---\nglobs: src/**/*.ts\nalwaysApply: false\ndescription:\n---\nBe brief\n',
+    );
+  });
+
+  it('cannot fold frontmatter added to a plain file or a broken .mdc header', () => {
+    expect(foldRules(CANONICAL, 'claude', '---\nfoo: bar\n---\nBe brief\n')).toBeNull();
+    expect(foldRules(CANONICAL, 'cursor', '---\nglobs: *.ts\nBe brief\n')).toBeNull();
+  });
+});
+
+// ── Sync ─────────────────────────────────────────────────────────────────────
+
+let tmpDir: string;
+let db: Database.Database;
+let engine: SyncEngine;
+
+const repoDir = () => path.join(tmpDir, 'web');
+const getRepo = () => mapRow<Repo>(db.prepare("SELECT * FROM repos WHERE id = 'web'").get())!;
+const getTrackedFile = (relativePath: string) =>
+  mapRow<TrackedFile>(
+    db
+      .prepare("SELECT * FROM tracked_files WHERE repo_id = 'web' AND relative_path = ?")
+      .get(relativePath),
+  )!;
+const readTarget = (relativePath: string) =>
+  fs.readFile(path.join(repoDir(), relativePath), 'utf-8');
+const writeTarget = (relativePath: string, content: string) =>
+  fs.writeFile(path.join(repoDir(), relativePath), content);
+const readCanonical = () => fs.readFile(rulesFilePath(getRepo()), 'utf-8');
+const syncTarget = (relativePath: string) =>
+  engine.syncFile(getTrackedFile(relativePath), { ...getRepo(), type: 'repo' });
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'canonical-rules-test-'));
+  config.storePath = path.join(tmpDir, 'store');
+  config.storeReposPath = path.join(tmpDir, 'store', 'repos');
+  config.storeSharedPath = path.join(tmpDir, 'store', 'shared');
+  config.storeRulesPath = path.join(tmpDir, 'store', 'rules');
+  config.localSecretsPath = path.join(tmpDir, 'home', '.ai-sync', 'secrets.json');
+
+  db = new Database(':memory:');
+  initSchema(db);
+  await fs.mkdir(repoDir(), { recursive: true });
+  await fs.mkdir(path.join(config.storeReposPath, 'web'), { recursive: true });
+  db.prepare(
+    "INSERT INTO repos (id, name, local_path, store_path) VALUES ('web', 'web', ?, 'repos/web')",
+  ).run(repoDir());
+  engine = new SyncEngine(db);
+
+  await writeTarget('CLAUDE.md', 'Use strict mode\n');
+  await writeTarget('GEMINI.md', 'Old Gemini rules\n');
+  db.prepare(
+    "INSERT INTO tracked_files (id, repo_id, relative_path, sync_status) VALUES ('tf-claude', 'web', 'CLAUDE.md', 'pending_to_store'), ('tf-gemini', 'web', 'GEMINI.md', 'pending_to_store')",
+  ).run();
+  await syncTarget('CLAUDE.md');
+  await syncTarget('GEMINI.md');
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+  db.close();
+  vi.clearAllMocks();
+});
+
+describe('updateRules', () => {
+  it('starts the canonical rules from an existing file and renders every tool', async () => {
+    await engine.updateRules(getRepo(), ['claude', 'gemini', 'cursor']);
+
+    expect(await readCanonical()).toBe('Use strict mode\n');
+    expect(await readTarget('GEMINI.md')).toBe('Use strict mode\n');
+    expect(await readTarget('.cursor/rules/project.mdc')).toBe(
+      '---\ndescription:\nglobs:\nalwaysApply: true\n---\nUse strict mode\n',
+    );
+    expect(getTrackedFile('.cursor/rules/project.mdc').syncStatus).toBe('synced');
+    expect(getRulesTargets(db, 'web')).toEqual(['claude', 'gemini', 'cursor']);
+  });
+
+  it('renders saved canonical content', async () => {
+    await engine.updateRules(getRepo(), ['claude', 'cursor'], '---\nglobs: *.ts\n---\nBe brief\n');
+
+    expect(await readTarget('CLAUDE.md')).toBe('Be brief\n');
+    expect(await readTarget('.cursor/rules/project.mdc')).toBe(
+      '---\nglobs: *.ts\ndescription:\nalwaysApply: true\n---\nBe brief\n',
+    );
+  });
+});
+
+describe('syncing rendered files', () => {
+  beforeEach(async () => {
+    await engine.updateRules(getRepo(), ['claude', 'gemini', 'cursor']);
+  });
+
+  it('folds an edit back into the canonical rules and re-renders the other tools', async () => {
+    await writeTarget('GEMINI.md', 'Use strict mode\nPrefer interfaces\n');
+    await syncTarget('GEMINI.md');
+
+    expect(await readCanonical()).toBe('Use strict mode\nPrefer interfaces\n');
+    expect(await readTarget('CLAUDE.md')).toBe('Use strict mode\nPrefer interfaces\n');
+    expect(await readTarget('.cursor/rules/project.mdc')).toBe(
+      '---\ndescription:\nglobs:\nalwaysApply: true\n---\nUse strict mode\nPrefer interfaces\n',
+    );
+  });
+
+  it('keeps .mdc frontmatter edits in the canonical rules only', async () => {
+    await writeTarget(
+      '.cursor/rules/project.mdc',
+      '---\ndescription:\nglobs: *.ts\nalwaysApply: false\n---\nUse strict mode\n',
+    );
+    await syncTarget('.cursor/rules/project.mdc');
+
+    expect(await readCanonical()).toBe(
+      '---\ndescription:\nglobs: *.ts\nalwaysApply: false\n---\nUse strict mode\n',
+    );
+    expect(await readTarget('CLAUDE.md')).toBe('Use strict mode\n');
+  });
+
+  it('flags an edit that cannot be folded back as a conflict', async () => {
+    await writeTarget('CLAUDE.md', '---\nname: rules\n---\nUse strict mode\n');
+    await syncTarget('CLAUDE.md');
+
+    expect(getTrackedFile('CLAUDE.md').syncStatus).toBe('conflict');
+    expect(await readCanonical()).toBe('Use strict mode\n');
+    expect(await readTarget('GEMINI.md')).toBe('Use strict mode\n');
+  });
+
+  it('brings canonical edits into each rendered file', async () => {
+    await fs.writeFile(rulesFilePath(getRepo()), 'Edited in the store\n');
+    await syncTarget('CLAUDE.md');
+
+    expect(await readTarget('CLAUDE.md')).toBe('Edited in the store\n');
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { SyncEngine } from '../sync-engine.js';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import { mapRow } from '../../db/index.js';
+import type { TrackedFile } from '../../types/index.js';
+import { setSyncDirection } from '../sync-direction.js';
+import { setLocalSecret } from '../local-secrets.js';
+import { variantPath } from '../machine-variants.js';
+
+// ── Mocks ───────────────────────────────────────────────────────────────────
+
+vi.mock('../store-git.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../store-git.js')>();
+  return {
+    ...actual,
+    queueStoreCommit: vi.fn(),
+    ensureStoreCommitted: vi.fn().mockResolvedValue([]),
+    getCommittedContent: vi.fn(async () => null),
+    getHeadCommitHash: vi.fn().mockResolvedValue('head'),
+  };
+});
+
+vi.mock('../file-watcher.js', async () => {
+  const { EventEmitter } = await import('node:events');
+  class MockFileWatcherService extends EventEmitter {
+    markSelfChange = vi.fn();
+    stopAll = vi.fn().mockResolvedValue(undefined);
+  }
+  return { FileWatcherService: MockFileWatcherService };
+});
+
+// ── Setup ───────────────────────────────────────────────────────────────────
+
+const LAPTOP = '11111111-1111-4111-8111-111111111111';
+
+let tmpDir: string;
+let db: Database.Database;
+let engine: SyncEngine;
+
+const repo = { id: 'web', type: 'repo' as const };
+const repoDir = () => path.join(tmpDir, 'web');
+const storeDir = () => path.join(config.storeReposPath, 'web');
+const getFile = () =>
+  mapRow<TrackedFile>(
+    db.prepare("SELECT * FROM tracked_files WHERE relative_path = 'CLAUDE.md'").get(),
+  );
+
+async function write(root: string, relativePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(path.join(root, relativePath)), { recursive: true });
+  await fs.writeFile(path.join(root, relativePath), content, 'utf-8');
+}
+
+const read = (root: string, relativePath: string) =>
+  fs.readFile(path.join(root, relativePath), 'utf-8');
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'conflict-resolution-test-'));
+  config.storePath = path.join(tmpDir, 'store');
+  config.storeReposPath = path.join(tmpDir, 'store', 'repos');
+  config.localSecretsPath = path.join(tmpDir, 'home', '.ai-sync', 'secrets.json');
+  config.machineId = LAPTOP;
+  config.machineName = 'laptop';
+
+  db = new Database(':memory:');
+  initSchema(db);
+  await fs.mkdir(repoDir(), { recursive: true });
+  await fs.mkdir(storeDir(), { recursive: true });
+  db.prepare(
+    "INSERT INTO repos (id, name, local_path, store_path) VALUES ('web', 'web', ?, 'repos/web')",
+  ).run(repoDir());
+  engine = new SyncEngine(db);
+
+  await write(repoDir(), 'CLAUDE.md', '# Rules\n');
+  db.prepare(
+    "INSERT INTO tracked_files (id, repo_id, relative_path, sync_status) VALUES ('tf', 'web', 'CLAUDE.md', 'pending_to_store')",
+  ).run();
+  await engine.syncRepo('web');
+});
+
+afterEach(async () => {
+  config.machineId = '';
+  config.machineName = '';
+  await fs.rm(tmpDir, { recursive: true, force: true });
+  db.close();
+  vi.clearAllMocks();
+});
+
+// ── writeResolvedContent ─────────────────────────────────────────────────────
+
+describe('writeResolvedContent', () => {
+  it('stores placeholders and writes this machine’s values to the target', async () => {
+    setLocalSecret('API_TOKEN', 'tok-1234567890');
+    await write(storeDir(), 'CLAUDE.md', '# Rules\nkey: ${secret:API_TOKEN}\n');
+
+    await engine.writeResolvedContent('tf', '# Rules v2\nkey: tok-1234567890\n');
+
+    expect(await read(storeDir(), 'CLAUDE.md')).toBe('# Rules v2\nkey: ${secret:API_TOKEN}\n');
+    expect(await read(repoDir(), 'CLAUDE.md')).toBe('# Rules v2\nkey: tok-1234567890\n');
+    expect(getFile().syncStatus).toBe('synced');
+  });
+
+  it('leaves the target of a backup repo alone', async () => {
+    setSyncDirection(db, repo, 'target_to_store');
+
+    await engine.writeResolvedContent('tf', '# Resolved\n');
+
+    expect(await read(storeDir(), 'CLAUDE.md')).toBe('# Resolved\n');
+    expect(await read(repoDir(), 'CLAUDE.md')).toBe('# Rules\n');
+  });
+
+  it('leaves the store alone when it is only synced to the target', async () => {
+    setSyncDirection(db, repo, 'store_to_target');
+
+    await engine.writeResolvedContent('tf', '# Resolved\n');
+
+    expect(await read(storeDir(), 'CLAUDE.md')).toBe('# Rules\n');
+    expect(await read(repoDir(), 'CLAUDE.md')).toBe('# Resolved\n');
+  });
+
+  it('writes a file with a machine variant to the variant, not the shared copy', async () => {
+    const variant = variantPath('CLAUDE.md', LAPTOP, 'file');
+    await write(storeDir(), variant, '# Laptop rules\n');
+
+    await engine.writeResolvedContent('tf', '# Laptop rules v2\n');
+
+    expect(await read(storeDir(), variant)).toBe('# Laptop rules v2\n');
+    expect(await read(storeDir(), 'CLAUDE.md')).toBe('# Rules\n');
+    expect(await read(repoDir(), 'CLAUDE.md')).toBe('# Laptop rules v2\n');
+  });
+});
@@ -0,0 +1,284 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import Database from 'better-sqlite3';
+import Fastify from 'fastify';
+import { SyncEngine } from '../sync-engine.js';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import { commitStoreChanges, getFileHistory, initStoreRepo } from '../store-git.js';
+import {
+  decryptStoreContent,
+  encryptBytes,
+  encryptContent,
+  isEncryptedContent,
+} from '../store-encryption.js';
+import { registerFileRoutes } from '../../routes/files.js';
+import { contentChecksum } from '../checksum.js';
+import { setSyncDirection } from '../sync-direction.js';
+
+// ── Mocks ───────────────────────────────────────────────────────────────────
+
+// A real store repo, but no debounced commits firing after a test is done
+vi.mock('../store-git.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../store-git.js')>();
+  return { ...actual, queueStoreCommit: vi.fn() };
+});
+
+vi.mock('../file-watcher.js', async () => {
+  const { EventEmitter } = await import('node:events');
+  class MockFileWatcherService extends EventEmitter {
+    markSelfChange = vi.fn();
+    stopAll = vi.fn().mockResolvedValue(undefined);
+  }
+  return { FileWatcherService: MockFileWatcherService };
+});
+
+const execFileAsync = promisify(execFile);
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+const KEY = crypto.randomBytes(32);
+const GIT_PATH = 'repos/web/CLAUDE.md';
+
+let tmpDir: string;
+let targetPath: string;
+let db: Database.Database;
+let engine: SyncEngine;
+
+const storeFile = () => path.join(config.storePath, GIT_PATH);
+const targetFile = () => path.join(targetPath, 'CLAUDE.md');
+
+/** Put `content` in the target and record it as the last synced state */
+async function syncedTarget(content: string): Promise<void> {
+  await fs.writeFile(targetFile(), content);
+  const checksum = contentChecksum(content);
+  db.prepare(
+    "UPDATE tracked_files SET store_checksum = ?, target_checksum = ?, last_synced_at = datetime('now') WHERE id = 'tf'",
+  ).run(checksum, checksum);
+}
+
+async function commitVersion(content: string, message: string): Promise<void> {
+  await fs.writeFile(storeFile(), content);
+  await commitStoreChanges(message);
+}
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-history-test-'));
+  targetPath = path.join(tmpDir, 'target');
+  config.storePath = path.join(tmpDir, 'store');
+  config.storeReposPath = path.join(tmpDir, 'store', 'repos');
+  config.storeServicesPath = path.join(tmpDir, 'store', 'services');
+  config.storeTemplatesPath = path.join(tmpDir, 'store', 'templates');
+  config.localSecretsPath = path.join(tmpDir, 'home', '.ai-sync', 'secrets.json');
+  config.machineId = '';
+  config.machineName = '';
+  config.encryptionKey = '';
+  await fs.mkdir(targetPath, { recursive: true });
+  await fs.mkdir(path.dirname(storeFile()), { recursive: true });
+
+  // Commits need an identity that doesn't depend on the machine's git config
+  await execFileAsync('git', ['init', '-q'], { cwd: config.storePath });
+  for (const [key, value] of [
+    ['user.name', 'Test'],
+    ['user.email', 'test@example.com'],
+    ['commit.gpgsign', 'false'],
+  ]) {
+    await execFileAsync('git', ['config', key, value], { cwd: config.storePath });
+  }
+  await initStoreRepo();
+
+  db = new Database(':memory:');
+  initSchema(db);
+  db.prepare(
+    "INSERT INTO repos (id, name, local_path, store_path) VALUES ('web', 'web', ?, 'repos/web')",
+  ).run(targetPath);
+  db.prepare(
+    "INSERT INTO tracked_files (id, repo_id, relative_path, sync_status) VALUES ('tf', 'web', 'CLAUDE.md', 'synced')",
+  ).run();
+  engine = new SyncEngine(db);
+});
+
+afterEach(async () => {
+  config.encryptionKey = '';
+  await fs.rm(tmpDir, { recursive: true, force: true });
+  db.close();
+  vi.clearAllMocks();
+});
+
+// ── getFileHistory ───────────────────────────────────────────────────────────
+
+describe('getFileHistory', () => {
+  it('lists commits newest first with their machine trailers and diffs', async () => {
+    await commitVersion('# Rules\n', 'Add CLAUDE.md');
+    config.machineId = 'laptop-1';
+    config.machineName = 'Laptop';
+    await commitVersion('# Rules\n\n- Tabs\n', 'Update CLAUDE.md');
+
+    const revisions = await getFileHistory(GIT_PATH);
+
+    expect(revisions.map((r) => [r.message, r.machineId, r.machineName])).toEqual([
+      ['Update CLAUDE.md', 'laptop-1', 'Laptop'],
+      ['Add CLAUDE.md', null, null],
+    ]);
+    expect(revisions[0].authorName).toBe('Test');
+    expect(revisions[0].hash).toMatch(/^[0-9a-f]{40}$/);
+    expect(revisions[0].diff).toContain('\n+- Tabs');
+    expect(await getFileHistory(GIT_PATH, 1)).toHaveLength(1);
+  });
+
+  it('diffs the plaintext of encrypted files', async () => {
+    config.encryptionKey = KEY.toString('base64');
+    await commitVersion(encryptContent('one\n', KEY), 'Add');
+    await commitVersion(encryptContent('two\n', KEY), 'Edit');
+
+    const [latest] = await getFileHistory(GIT_PATH);
+
+    expect(latest.diff).toContain('\n-one');
+    expect(latest.diff).toContain('\n+two');
+    expect(latest.diff).not.toContain('AI-SYNC-ENCRYPTED');
+  });
+
+  it('shows encrypted binary files as binary instead of ciphertext', async () => {
+    config.encryptionKey = KEY.toString('base64');
+    await commitVersion(encryptBytes(Buffer.from([0x89, 0x50, 0x00, 0x01]), KEY), 'Add');
+    await commitVersion(encryptBytes(Buffer.from([0x89, 0x50, 0x00, 0x02]), KEY), 'Edit');
+
+    const [latest] = await getFileHistory(GIT_PATH);
+
+    expect(latest.diff).toContain(`Binary files a/${GIT_PATH} and b/${GIT_PATH} differ`);
+    expect(latest.diff).not.toContain('AI-SYNC-ENCRYPTED');
+  });
+
+  it('returns nothing for a file without commits', async () => {
+    expect(await getFileHistory('repos/web/missing.md')).toEqual([]);
+  });
+});
+
+// ── restoreFileVersion ───────────────────────────────────────────────────────
+
+describe('restoreFileVersion', () => {
+  it('writes an old revision to the store and the target', async () => {
+    await commitVersion('# Rules\n', 'Add');
+    await commitVersion('# Rules\n\n- Tabs\n', 'Edit');
+    await syncedTarget('# Rules\n\n- Tabs\n');
+    const [, first] = await getFileHistory(GIT_PATH);
+
+    expect(await engine.restoreFileVersion('tf', first.hash)).toBe(true);
+
+    expect(await fs.readFile(storeFile(), 'utf-8')).toBe('# Rules\n');
+    expect(await fs.readFile(targetFile(), 'utf-8')).toBe('# Rules\n');
+  });
+
+  it('leaves the target of a backup repo alone', async () => {
+    setSyncDirection(db, { id: 'web', type: 'repo' }, 'target_to_store');
+    await commitVersion('# Rules\n', 'Add');
+    await commitVersion('# Rules\n\n- Tabs\n', 'Edit');
+    await syncedTarget('# Rules\n\n- Tabs\n');
+    const [, first] = await getFileHistory(GIT_PATH);
+
+    expect(await engine.restoreFileVersion('tf', first.hash)).toBe(true);
+
+    expect(await fs.readFile(storeFile(), 'utf-8')).toBe('# Rules\n');
+    expect(await fs.readFile(targetFile(), 'utf-8')).toBe('# Rules\n\n- Tabs\n');
+  });
+
+  it('does not overwrite target edits that were not synced yet', async () => {
+    await commitVersion('# Rules\n', 'Add');
+    await commitVersion('# Rules\n\n- Tabs\n', 'Edit');
+    await syncedTarget('# Rules\n\n- Tabs\n');
+    await fs.writeFile(targetFile(), '# Rules\n\n- Spaces\n');
+    const [, first] = await getFileHistory(GIT_PATH);
+
+    expect(await engine.restoreFileVersion('tf', first.hash)).toBe(true);
+
+    expect(await fs.readFile(targetFile(), 'utf-8')).toBe('# Rules\n\n- Spaces\n');
+    const conflicts = db.prepare("SELECT * FROM conflicts WHERE status = 'pending'").all();
+    expect(conflicts).toHaveLength(1);
+  });
+
+  it('keeps an encrypted file encrypted in the store', async () => {
+    config.encryptionKey = KEY.toString('base64');
+    db.prepare("UPDATE file_patterns SET encrypt = 1 WHERE pattern = 'CLAUDE.md'").run();
+    await commitVersion(encryptContent('# Secret plans\n', KEY), 'Add');
+    await commitVersion(encryptContent('# Other plans\n', KEY), 'Edit');
+    const [, first] = await getFileHistory(GIT_PATH);
+
+    expect(await engine.restoreFileVersion('tf', first.hash)).toBe(true);
+
+    const stored = await fs.readFile(storeFile(), 'utf-8');
+    expect(isEncryptedContent(stored)).toBe(true);
+    expect(decryptStoreContent(stored)).toBe('# Secret plans\n');
+    expect(await fs.readFile(targetFile(), 'utf-8')).toBe('# Secret plans\n');
+  });
+
+  it('returns false when the file did not exist at that commit', async () => {
+    await fs.writeFile(path.join(config.storePath, 'README.md'), '# Store\n');
+    await commitStoreChanges('Add README');
+    const before = (
+      await execFileAsync('git', ['rev-parse', 'HEAD'], { cwd: config.storePath })
+    ).stdout.trim();
+    await commitVersion('# Rules\n', 'Add');
+
+    expect(await engine.restoreFileVersion('tf', before)).toBe(false);
+  });
+});
+
+// ── Routes ───────────────────────────────────────────────────────────────────
+
+describe('file history routes', () => {
+  const buildApp = () => {
+    const app = Fastify({ logger: false });
+    registerFileRoutes(app, { db, syncEngine: engine });
+    return app;
+  };
+
+  it('returns the history and rejects a limit that is not a positive integer', async () => {
+    await commitVersion('# Rules\n', 'Add');
+    await commitVersion('# Rules\n\n- Tabs\n', 'Edit');
+    const app = buildApp();
+
+    const history = await app.inject({
+      method: 'GET',
+      url: '/api/repos/web/files/CLAUDE.md/history?limit=1',
+    });
+    expect(history.statusCode).toBe(200);
+    expect(history.json().revisions).toHaveLength(1);
+
+    for (const limit of ['abc', '0', '-3', '1.5']) {
+      const res = await app.inject({
+        method: 'GET',
+        url: `/api/repos/web/files/CLAUDE.md/history?limit=${limit}`,
+      });
+      expect(res.statusCode).toBe(400);
+    }
+    await app.close();
+  });
+
+  it('restores a revision and validates the commit', async () => {
+    await commitVersion('# Rules\n', 'Add');
+    await commitVersion('# Rules\n\n- Tabs\n', 'Edit');
+    const [, first] = await getFileHistory(GIT_PATH);
+    const app = buildApp();
+
+    const invalid = await app.inject({
+      method: 'POST',
+      url: '/api/repos/web/files/CLAUDE.md/restore',
+      payload: { commit: 'HEAD~1' },
+    });
+    expect(invalid.statusCode).toBe(400);
+
+    const restored = await app.inject({
+      method: 'POST',
+      url: '/api/repos/web/files/CLAUDE.md/restore',
+      payload: { commit: first.hash },
+    });
+    expect(restored.json()).toEqual({ success: true });
+    expect(await fs.readFile(targetFile(), 'utf-8')).toBe('# Rules\n');
+    await app.close();
+  });
+});
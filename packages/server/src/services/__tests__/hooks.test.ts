@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { initSchema } from '../../db/schema.js';
+import {
+  HookRunner,
+  hookMatches,
+  resolveHookContext,
+  runHook,
+  saveHook,
+  validateHookInput,
+  type HookEventContext,
+} from '../hooks.js';
+import type { WsEvent } from '../../types/index.js';
+
+let tmpDir: string;
+let db: Database.Database;
+
+const synced: WsEvent = { type: 'sync_status', repoId: 'web', fileId: 'tf', status: 'synced' };
+
+const context = (): HookEventContext => resolveHookContext(db, synced);
+
+const hookLog = () =>
+  db
+    .prepare("SELECT action, file_path, details FROM sync_log WHERE action LIKE 'hook_%'")
+    .all() as { action: string; file_path: string | null; details: string }[];
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hooks-test-'));
+  db = new Database(':memory:');
+  initSchema(db);
+  db.prepare(
+    "INSERT INTO repos (id, name, local_path, store_path) VALUES ('web', 'web-app', ?, 'repos/web')",
+  ).run(tmpDir);
+  db.prepare(
+    "INSERT INTO tracked_files (id, repo_id, relative_path) VALUES ('tf', 'web', '.claude/CLAUDE.md')",
+  ).run();
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+  db.close();
+});
+
+describe('validateHookInput', () => {
+  it('requires a command or an http URL for the action', () => {
+    expect(validateHookInput({ name: 'a', action: 'command' })).toBe('command is required');
+    expect(validateHookInput({ name: 'a', action: 'http', url: 'file:///etc' })).toBe(
+      'url must be an http(s) URL',
+    );
+    expect(validateHookInput({ name: 'a', action: 'http', url: 'http://localhost:9/x' })).toBe(
+      null,
+    );
+  });
+
+  it('rejects unknown events and out of range timeouts', () => {
+    const base = { name: 'a', action: 'command' as const, command: 'true' };
+    expect(validateHookInput({ ...base, events: ['nope' as WsEvent['type']] })).toBe(
+      'Unknown event type: nope',
+    );
+    expect(validateHookInput({ ...base, timeoutMs: 0 })).toMatch(/^timeoutMs/);
+  });
+});
+
+describe('matching hooks to events', () => {
+  it('looks up the target and the file of the event', () => {
+    expect(context()).toMatchObject({
+      target: { id: 'web', name: 'web-app', type: 'repo' },
+      relativePath: '.claude/CLAUDE.md',
+    });
+  });
+
+  it('filters by event type, target and path globs', () => {
+    const hook = (input: object) =>
+      saveHook(db, { name: 'h', action: 'command', command: 'true', ...input });
+
+    expect(hookMatches(hook({}), synced, context())).toBe(true);
+    expect(hookMatches(hook({ events: ['conflict_created'] }), synced, context())).toBe(false);
+    expect(hookMatches(hook({ targetGlob: 'web-*' }), synced, context())).toBe(true);
+    expect(hookMatches(hook({ targetGlob: 'api' }), synced, context())).toBe(false);
+    expect(hookMatches(hook({ pathGlob: '**/CLAUDE.md' }), synced, context())).toBe(true);
+    expect(hookMatches(hook({ enabled: false }), synced, context())).toBe(false);
+    expect(
+      hookMatches(
+        hook({ pathGlob: '**/CLAUDE.md' }),
+        { type: 'files_changed', repoId: 'web' },
+        resolveHookContext(db, { type: 'files_changed', repoId: 'web' }),
+      ),
+    ).toBe(false);
+  });
+});
+
+describe('running hooks', () => {
+  it('runs a command in the target with the event on stdin and in env vars', async () => {
+    const hook = saveHook(db, {
+      name: 'regenerate',
+      action: 'command',
+      command: 'cat > event.json && echo "$AI_SYNC_EVENT $AI_SYNC_FILE" > env.txt',
+    });
+    const result = await runHook(db, hook, synced, context());
+
+    expect(result.ok).toBe(true);
+    const payload = JSON.parse(await fs.readFile(path.join(tmpDir, 'event.json'), 'utf-8'));
+    expect(payload).toMatchObject({
+      event: synced,
+      target: { name: 'web-app', localPath: tmpDir },
+      relativePath: '.claude/CLAUDE.md',
+    });
+    expect(await fs.readFile(path.join(tmpDir, 'env.txt'), 'utf-8')).toBe(
+      'sync_status .claude/CLAUDE.md\n',
+    );
+    expect(hookLog()).toEqual([
+      {
+        action: 'hook_run',
+        file_path: '.claude/CLAUDE.md',
+        details: expect.stringMatching(/^regenerate \(sync_status, \d+ms\): exit 0$/),
+      },
+    ]);
+  });
+
+  it('kills a command that runs past its timeout', async () => {
+    const hook = saveHook(db, {
+      name: 'slow',
+      action: 'command',
+      command: 'sleep 5',
+      timeoutMs: 200,
+    });
+    const result = await runHook(db, hook, synced, context());
+
+    expect(result).toMatchObject({ ok: false, detail: 'timed out after 200ms' });
+    expect(result.durationMs).toBeLessThan(2000);
+    expect(hookLog()[0].action).toBe('hook_failed');
+  });
+
+  it('POSTs the event to a URL', async () => {
+    let body = '';
+    const server = http.createServer((req, res) => {
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => res.writeHead(204).end());
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    try {
+      const hook = saveHook(db, {
+        name: 'chat',
+        action: 'http',
+        url: `http://127.0.0.1:${port}/events`,
+      });
+      const result = await runHook(db, hook, synced, context());
+
+      expect(result).toMatchObject({ ok: true, detail: 'HTTP 204' });
+      expect(JSON.parse(body).event).toEqual(synced);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('runs matching hooks in the background', async () => {
+    saveHook(db, { name: 'claude', action: 'command', command: 'true', pathGlob: '**/*.md' });
+    saveHook(db, { name: 'other', action: 'command', command: 'true', pathGlob: '*.json' });
+    const runner = new HookRunner(db);
+    runner.dispatch(synced);
+    await runner.idle();
+
+    expect(hookLog().map((e) => e.details.split(' ')[0])).toEqual(['claude']);
+  });
+});
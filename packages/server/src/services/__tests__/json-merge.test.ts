@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { SyncEngine } from '../sync-engine.js';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import { mapRow } from '../../db/index.js';
+import type { TrackedFile } from '../../types/index.js';
+import { formatKeyPath, mergeJson, parseJsonUnionPaths } from '../json-merge.js';
+import { getCommittedContent } from '../store-git.js';
+
+// ── Mocks ───────────────────────────────────────────────────────────────────
+
+vi.mock('../store-git.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../store-git.js')>();
+  return {
+    ...actual,
+    queueStoreCommit: vi.fn(),
+    ensureStoreCommitted: vi.fn().mockResolvedValue([]),
+    getCommittedContent: vi.fn(async () => null),
+    getHeadCommitHash: vi.fn().mockResolvedValue('head'),
+  };
+});
+
+vi.mock('../file-watcher.js', async () => {
+  const { EventEmitter } = await import('node:events');
+  class MockFileWatcherService extends EventEmitter {
+    markSelfChange = vi.fn();
+    stopAll = vi.fn().mockResolvedValue(undefined);
+  }
+  return { FileWatcherService: MockFileWatcherService };
+});
+
+const json = (value: unknown) => JSON.stringify(value, null, 2) + '\n';
+
+const BASE = json({
+  model: 'sonnet',
+  permissions: { allow: ['Bash(ls)', 'Bash(cat)'], deny: [] },
+  env: { A: '1', B: '2' },
+});
+
+describe('mergeJson', () => {
+  it('merges edits to adjacent keys', () => {
+    const store = BASE.replace('"A": "1"', '"A": "10"');
+    const target = BASE.replace('"B": "2"', '"B": "20"');
+    const merged = mergeJson(BASE, store, target)!;
+
+    expect(merged.conflicts).toEqual([]);
+    expect(JSON.parse(merged.content).env).toEqual({ A: '10', B: '20' });
+  });
+
+  it('unions permission lists and replaces other arrays', () => {
+    const base = json({ permissions: { allow: ['Bash(ls)', 'Bash(cat)'] }, args: ['a'] });
+    const store = json({ permissions: { allow: ['Bash(ls)', 'Bash(git)'] }, args: ['b'] });
+    const target = json({ permissions: { allow: ['Bash(ls)', 'Bash(cat)', 'Read'] }, args: ['a'] });
+    const merged = mergeJson(base, store, target)!;
+
+    expect(merged.conflicts).toEqual([]);
+    expect(JSON.parse(merged.content)).toEqual({
+      permissions: { allow: ['Bash(ls)', 'Bash(git)', 'Read'] },
+      args: ['b'],
+    });
+  });
+
+  it('uses the configured union paths', () => {
+    const base = json({ servers: { a: { args: ['x'] } } });
+    const store = json({ servers: { a: { args: ['x', 'y'] } } });
+    const target = json({ servers: { a: { args: ['x', 'z'] } } });
+
+    expect(mergeJson(base, store, target)!.conflicts.map((c) => c.path)).toEqual([
+      'servers.a.args',
+    ]);
+    const merged = mergeJson(base, store, target, { unionPaths: ['servers.*.args'] })!;
+    expect(JSON.parse(merged.content).servers.a.args).toEqual(['x', 'y', 'z']);
+  });
+
+  it('keeps key order and indentation, placing new keys next to their neighbours', () => {
+    const base = '{\n    "b": 1,\n    "a": 1\n}';
+    const store = '{\n    "b": 2,\n    "a": 1\n}';
+    const target = '{\n    "b": 1,\n    "c": 3,\n    "a": 1\n}';
+
+    expect(mergeJson(base, store, target)!.content).toBe(
+      '{\n    "b": 2,\n    "c": 3,\n    "a": 1\n}',
+    );
+  });
+
+  it("returns a side's text untouched when its version wins", () => {
+    const target =
+      '{"model":"opus","permissions":{"allow":["Bash(ls)","Bash(cat)"],"deny":[]},"env":{"A":"1","B":"2"}}';
+    expect(mergeJson(BASE, BASE, target)!.content).toBe(target);
+  });
+
+  it('reports the key paths changed differently on both sides', () => {
+    const store = BASE.replace('"sonnet"', '"opus"').replace('"A": "1"', '"A": "x"');
+    const target = BASE.replace('"sonnet"', '"haiku"').replace(/,\n\s*"B": "2"/, '');
+    const merged = mergeJson(BASE, store, target)!;
+
+    expect(merged.conflicts).toEqual([
+      { path: 'model', base: '"sonnet"', store: '"opus"', target: '"haiku"' },
+    ]);
+    // Everything else is merged; the conflicting key keeps the store value
+    expect(JSON.parse(merged.content)).toMatchObject({ model: 'opus', env: { A: 'x' } });
+  });
+
+  it('treats deleting a key changed on the other side as a conflict', () => {
+    const store = BASE.replace('"A": "1"', '"A": "x"');
+    const target = json({
+      model: 'sonnet',
+      permissions: { allow: ['Bash(ls)', 'Bash(cat)'], deny: [] },
+      env: { B: '2' },
+    });
+    expect(mergeJson(BASE, store, target)!.conflicts).toEqual([
+      { path: 'env.A', base: '"1"', store: '"x"', target: null },
+    ]);
+  });
+
+  it('returns null when a side is not valid JSON', () => {
+    expect(mergeJson(BASE, '{ "model": ', BASE)).toBe(null);
+  });
+});
+
+describe('formatKeyPath / parseJsonUnionPaths', () => {
+  it('quotes keys that are not identifiers', () => {
+    expect(formatKeyPath(['mcpServers', 'my.server', 'args', 0])).toBe(
+      'mcpServers["my.server"].args[0]',
+    );
+  });
+
+  it('splits paths on commas and new lines', () => {
+    expect(parseJsonUnionPaths('permissions.allow, a.b\n\nc')).toEqual([
+      'permissions.allow',
+      'a.b',
+      'c',
+    ]);
+  });
+});
+
+// ── Sync ─────────────────────────────────────────────────────────────────────
+
+let tmpDir: string;
+let db: Database.Database;
+let engine: SyncEngine;
+
+const repoDir = () => path.join(tmpDir, 'web');
+const storeDir = () => path.join(config.storeReposPath, 'web');
+const settingsFile = () =>
+  mapRow<TrackedFile>(
+    db.prepare("SELECT * FROM tracked_files WHERE relative_path = '.claude/settings.json'").get(),
+  );
+
+async function write(root: string, content: string): Promise<void> {
+  await fs.mkdir(path.join(root, '.claude'), { recursive: true });
+  await fs.writeFile(path.join(root, '.claude/settings.json'), content, 'utf-8');
+}
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'json-merge-test-'));
+  config.storePath = path.join(tmpDir, 'store');
+  config.storeReposPath = path.join(tmpDir, 'store', 'repos');
+  config.localSecretsPath = path.join(tmpDir, 'home', '.ai-sync', 'secrets.json');
+
+  db = new Database(':memory:');
+  initSchema(db);
+  db.prepare(
+    "INSERT INTO repos (id, name, local_path, store_path) VALUES ('web', 'web', ?, 'repos/web')",
+  ).run(repoDir());
+  db.prepare(
+    "INSERT INTO tracked_files (id, repo_id, relative_path, sync_status) VALUES ('tf', 'web', '.claude/settings.json', 'synced')",
+  ).run();
+  engine = new SyncEngine(db);
+  vi.mocked(getCommittedContent).mockResolvedValue(BASE);
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+  db.close();
+  vi.clearAllMocks();
+});
+
+describe('syncing JSON files', () => {
+  it('auto-merges edits to different keys on both sides', async () => {
+    await write(storeDir(), BASE.replace('"A": "1"', '"A": "10"'));
+    await write(repoDir(), BASE.replace('"B": "2"', '"B": "20"'));
+    await engine.syncRepo('web');
+
+    const content = await fs.readFile(path.join(repoDir(), '.claude/settings.json'), 'utf-8');
+    expect(JSON.parse(content).env).toEqual({ A: '10', B: '20' });
+    expect(settingsFile().syncStatus).toBe('synced');
+  });
+
+  it('records the conflicting key paths on the conflict', async () => {
+    await write(storeDir(), BASE.replace('"sonnet"', '"opus"'));
+    await write(repoDir(), BASE.replace('"sonnet"', '"haiku"').replace('"B": "2"', '"B": "3"'));
+    await engine.syncRepo('web');
+
+    const row = db.prepare('SELECT json_conflicts, merged_content FROM conflicts').get() as {
+      json_conflicts: string;
+      merged_content: string;
+    };
+    expect(JSON.parse(row.json_conflicts).map((c: { path: string }) => c.path)).toEqual(['model']);
+    expect(JSON.parse(row.merged_content).env.B).toBe('3');
+    expect(settingsFile().syncStatus).toBe('conflict');
+  });
+});
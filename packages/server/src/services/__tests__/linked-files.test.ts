@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { SyncEngine } from '../sync-engine.js';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import { mapRow } from '../../db/index.js';
+import type { Repo, TrackedFile } from '../../types/index.js';
+import { getFileLink, listSharedFiles, setFileLink } from '../linked-files.js';
+import { getCommittedContent } from '../store-git.js';
+
+// ── Mocks ───────────────────────────────────────────────────────────────────
+
+vi.mock('../store-git.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../store-git.js')>();
+  return {
+    ...actual,
+    queueStoreCommit: vi.fn(),
+    ensureStoreCommitted: vi.fn().mockResolvedValue([]),
+    getCommittedContent: vi.fn(async () => null),
+    getHeadCommitHash: vi.fn().mockResolvedValue('head'),
+  };
+});
+
+vi.mock('../file-watcher.js', async () => {
+  const { EventEmitter } = await import('node:events');
+  class MockFileWatcherService extends EventEmitter {
+    markSelfChange = vi.fn();
+    stopAll = vi.fn().mockResolvedValue(undefined);
+  }
+  return { FileWatcherService: MockFileWatcherService };
+});
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+const RULES = '.cursor/rules/typescript.mdc';
+const SHARED = 'rules/typescript.mdc';
+
+let tmpDir: string;
+let db: Database.Database;
+let engine: SyncEngine;
+
+const getRepo = (id: string) =>
+  mapRow<Repo>(db.prepare('SELECT * FROM repos WHERE id = ?').get(id))!;
+const getTrackedFile = (repoId: string) =>
+  mapRow<TrackedFile>(
+    db
+      .prepare('SELECT * FROM tracked_files WHERE repo_id = ? AND relative_path = ?')
+      .get(repoId, RULES),
+  )!;
+const targetFile = (repoId: string) => path.join(tmpDir, repoId, RULES);
+const readTarget = (repoId: string) => fs.readFile(targetFile(repoId), 'utf-8');
+const writeTarget = (repoId: string, content: string) => fs.writeFile(targetFile(repoId), content);
+const sharedFile = () => path.join(config.storeSharedPath, SHARED);
+const syncRules = (repoId: string) =>
+  engine.syncFile(getTrackedFile(repoId), { ...getRepo(repoId), type: 'repo' });
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'linked-files-test-'));
+  config.storePath = path.join(tmpDir, 'store');
+  config.storeReposPath = path.join(tmpDir, 'store', 'repos');
+  config.storeSharedPath = path.join(tmpDir, 'store', 'shared');
+  config.localSecretsPath = path.join(tmpDir, 'home', '.ai-sync', 'secrets.json');
+
+  db = new Database(':memory:');
+  initSchema(db);
+  for (const id of ['web', 'api']) {
+    await fs.mkdir(path.join(tmpDir, id), { recursive: true });
+    await fs.mkdir(path.join(config.storeReposPath, id), { recursive: true });
+    db.prepare('INSERT INTO repos (id, name, local_path, store_path) VALUES (?, ?, ?, ?)').run(
+      id,
+      id,
+      path.join(tmpDir, id),
+      `repos/${id}`,
+    );
+  }
+  engine = new SyncEngine(db);
+
+  // "web" has the rules file; "api" doesn't yet
+  await fs.mkdir(path.dirname(targetFile('web')), { recursive: true });
+  await writeTarget('web', 'Use strict mode\n');
+  db.prepare(
+    "INSERT INTO tracked_files (id, repo_id, relative_path, sync_status) VALUES ('tf-web', 'web', ?, 'pending_to_store')",
+  ).run(RULES);
+  await syncRules('web');
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+  db.close();
+  vi.clearAllMocks();
+});
+
+// ── Tests ────────────────────────────────────────────────────────────────────
+
+describe('linkFile', () => {
+  it('creates the shared file from the first linked copy', async () => {
+    await engine.linkFile(getRepo('web'), RULES, SHARED);
+
+    expect(await fs.readFile(sharedFile(), 'utf-8')).toBe('Use strict mode\n');
+    expect(getFileLink(db, 'web', RULES)).toBe(SHARED);
+  });
+
+  it('adds the shared file to a repo that does not have it', async () => {
+    await engine.linkFile(getRepo('web'), RULES, SHARED);
+    await engine.linkFile(getRepo('api'), RULES, SHARED);
+
+    expect(await readTarget('api')).toBe('Use strict mode\n');
+    expect(getTrackedFile('api').syncStatus).toBe('synced');
+  });
+
+  it("replaces a repo's differing copy with the shared one", async () => {
+    await engine.linkFile(getRepo('web'), RULES, SHARED);
+    await fs.mkdir(path.dirname(targetFile('api')), { recursive: true });
+    await writeTarget('api', 'Old rules\n');
+    db.prepare(
+      "INSERT INTO tracked_files (id, repo_id, relative_path, sync_status) VALUES ('tf-api', 'api', ?, 'pending_to_store')",
+    ).run(RULES);
+    await syncRules('api');
+
+    await engine.linkFile(getRepo('api'), RULES, SHARED);
+
+    expect(await readTarget('api')).toBe('Use strict mode\n');
+  });
+});
+
+describe('syncing linked files', () => {
+  beforeEach(async () => {
+    vi.mocked(getCommittedContent).mockResolvedValue(null);
+    await engine.linkFile(getRepo('web'), RULES, SHARED);
+    await engine.linkFile(getRepo('api'), RULES, SHARED);
+  });
+
+  it('propagates an edit in one repo to the shared file and the other repos', async () => {
+    await writeTarget('web', 'Use strict mode\nPrefer interfaces\n');
+    await syncRules('web');
+
+    expect(await fs.readFile(sharedFile(), 'utf-8')).toBe('Use strict mode\nPrefer interfaces\n');
+    expect(await readTarget('api')).toBe('Use strict mode\nPrefer interfaces\n');
+  });
+
+  it('brings shared file edits into each repo', async () => {
+    await fs.writeFile(sharedFile(), 'Edited in the store\n');
+    await syncRules('api');
+
+    expect(await readTarget('api')).toBe('Edited in the store\n');
+  });
+
+  it('raises a conflict in the repo when both sides changed', async () => {
+    await fs.writeFile(sharedFile(), 'Shared edit\n');
+    await writeTarget('web', 'Local edit\n');
+    await syncRules('web');
+
+    expect(getTrackedFile('web').syncStatus).toBe('conflict');
+    const conflict = db
+      .prepare('SELECT store_content, target_content FROM conflicts WHERE tracked_file_id = ?')
+      .get('tf-web') as { store_content: string; target_content: string };
+    expect(conflict).toEqual({ store_content: 'Shared edit\n', target_content: 'Local edit\n' });
+    // The other repo is not affected
+    expect(getTrackedFile('api').syncStatus).toBe('synced');
+  });
+
+  it('keeps the version both sides last matched as the conflict base', async () => {
+    vi.mocked(getCommittedContent).mockImplementation(async (file) =>
+      file.startsWith('shared/') ? 'Use strict mode\n' : null,
+    );
+    await fs.writeFile(sharedFile(), 'Shared edit\n');
+    await writeTarget('web', 'Local edit\n');
+    await syncRules('web');
+
+    const conflict = db
+      .prepare('SELECT base_content, merged_content FROM conflicts WHERE tracked_file_id = ?')
+      .get('tf-web') as { base_content: string | null; merged_content: string };
+    expect(conflict.base_content).toBe('Use strict mode\n');
+    expect(conflict.merged_content).toContain('<<<<<<<');
+  });
+
+  it('stops propagating once unlinked', async () => {
+    setFileLink(db, 'api', RULES, null);
+    await writeTarget('web', 'Only for web\n');
+    await syncRules('web');
+
+    expect(await readTarget('api')).toBe('Use strict mode\n');
+    expect(await listSharedFiles(db)).toEqual([
+      {
+        path: SHARED,
+        links: [{ repoId: 'web', repoName: 'web', relativePath: RULES, syncStatus: 'synced' }],
+      },
+    ]);
+  });
+});
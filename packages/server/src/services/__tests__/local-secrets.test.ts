@@ -0,0 +1,276 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { SyncEngine } from '../sync-engine.js';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import { mapRow } from '../../db/index.js';
+import type { TrackedFile, SyncTarget } from '../../types/index.js';
+import {
+  readLocalSecrets,
+  writeLocalSecrets,
+  setLocalSecret,
+  deleteLocalSecret,
+  expandSecretPlaceholders,
+  collapseSecretValues,
+  findSecretPlaceholders,
+  secretValueError,
+} from '../local-secrets.js';
+
+// ── Mocks ───────────────────────────────────────────────────────────────────
+
+vi.mock('../store-git.js', () => ({
+  queueStoreCommit: vi.fn(),
+  ensureStoreCommitted: vi.fn().mockResolvedValue([]),
+  getCommittedContent: vi.fn(async () => null),
+  getHeadCommitHash: vi.fn().mockResolvedValue('mock-head-hash'),
+  gitMergeFile: vi.fn(async () => ({ content: '', hasConflicts: false })),
+}));
+
+vi.mock('../file-watcher.js', async () => {
+  const { EventEmitter } = await import('node:events');
+  class MockFileWatcherService extends EventEmitter {
+    markSelfChange = vi.fn();
+    stopAll = vi.fn().mockResolvedValue(undefined);
+  }
+  return { FileWatcherService: MockFileWatcherService };
+});
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+const TOKEN = 'ghp_' + 'a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8';
+const STORE_JSON = `{
+  "mcpServers": {
+    "github": {
+      "env": { "GITHUB_TOKEN": "\${secret:GITHUB_TOKEN}" }
+    }
+  }
+}
+`;
+const TARGET_JSON = STORE_JSON.replace('${secret:GITHUB_TOKEN}', TOKEN);
+
+let tmpDir: string;
+let targetPath: string;
+let storeRepoPath: string;
+let db: Database.Database;
+let engine: SyncEngine;
+
+const target = (): SyncTarget => ({
+  id: 'repo-1',
+  name: 'test-project',
+  localPath: targetPath,
+  storePath: 'repos/test-project',
+  status: 'active',
+  type: 'repo',
+});
+
+function insertTrackedFile(): TrackedFile {
+  db.prepare(
+    "INSERT INTO tracked_files (id, repo_id, relative_path, sync_status) VALUES ('tf-1', 'repo-1', '.mcp.json', 'synced')",
+  ).run();
+  return getTrackedFile();
+}
+
+function getTrackedFile(): TrackedFile {
+  return mapRow<TrackedFile>(db.prepare("SELECT * FROM tracked_files WHERE id = 'tf-1'").get())!;
+}
+
+function logCount(): number {
+  return (db.prepare('SELECT COUNT(*) AS n FROM sync_log').get() as { n: number }).n;
+}
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-secrets-test-'));
+  targetPath = path.join(tmpDir, 'target');
+  config.storePath = path.join(tmpDir, 'store');
+  config.storeReposPath = path.join(tmpDir, 'store', 'repos');
+  config.storeServicesPath = path.join(tmpDir, 'store', 'services');
+  config.localSecretsPath = path.join(tmpDir, 'home', '.ai-sync', 'secrets.json');
+  storeRepoPath = path.join(config.storeReposPath, 'test-project');
+  await fs.mkdir(targetPath, { recursive: true });
+  await fs.mkdir(storeRepoPath, { recursive: true });
+
+  db = new Database(':memory:');
+  initSchema(db);
+  db.prepare(
+    "INSERT INTO repos (id, name, local_path, store_path) VALUES ('repo-1', 'test-project', ?, 'repos/test-project')",
+  ).run(targetPath);
+
+  engine = new SyncEngine(db);
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+  db.close();
+  vi.clearAllMocks();
+});
+
+// ── Secrets file ─────────────────────────────────────────────────────────────
+
+describe('local secrets file', () => {
+  it('returns an empty map when the file does not exist', () => {
+    expect(readLocalSecrets()).toEqual({});
+  });
+
+  it('writes sorted, owner-only JSON and picks up changes', async () => {
+    setLocalSecret('B_TOKEN', 'b');
+    setLocalSecret('A_TOKEN', 'a');
+    expect(readLocalSecrets()).toEqual({ A_TOKEN: 'a', B_TOKEN: 'b' });
+    expect(Object.keys(JSON.parse(await fs.readFile(config.localSecretsPath, 'utf-8')))).toEqual([
+      'A_TOKEN',
+      'B_TOKEN',
+    ]);
+    if (process.platform !== 'win32') {
+      expect((await fs.stat(config.localSecretsPath)).mode & 0o777).toBe(0o600);
+    }
+
+    expect(deleteLocalSecret('A_TOKEN')).toBe(true);
+    expect(deleteLocalSecret('A_TOKEN')).toBe(false);
+    expect(readLocalSecrets()).toEqual({ B_TOKEN: 'b' });
+  });
+
+  it('ignores invalid names and non-string values', async () => {
+    await fs.mkdir(path.dirname(config.localSecretsPath), { recursive: true });
+    await fs.writeFile(
+      config.localSecretsPath,
+      JSON.stringify({ GOOD: 'x', 'bad-name': 'y', NUM: 1 }),
+    );
+    expect(readLocalSecrets()).toEqual({ GOOD: 'x' });
+  });
+});
+
+describe('placeholder substitution', () => {
+  it('expands known placeholders and leaves unknown ones', () => {
+    expect(expandSecretPlaceholders('${secret:A} ${secret:B}', { A: 'one' })).toBe(
+      'one ${secret:B}',
+    );
+  });
+
+  it('collapses known values, longest first', () => {
+    const secrets = { SHORT: 'abc', LONG: 'abcdef' };
+    expect(
+      collapseSecretValues('x=abcdef y=abc', secrets, 'x=${secret:LONG} y=${secret:SHORT}'),
+    ).toBe('x=${secret:LONG} y=${secret:SHORT}');
+  });
+
+  it('round-trips and lists placeholders', () => {
+    const secrets = { GITHUB_TOKEN: TOKEN };
+    expect(expandSecretPlaceholders(STORE_JSON, secrets)).toBe(TARGET_JSON);
+    expect(collapseSecretValues(TARGET_JSON, secrets, STORE_JSON)).toBe(STORE_JSON);
+    expect(findSecretPlaceholders(STORE_JSON)).toEqual(['GITHUB_TOKEN']);
+  });
+
+  it('only collapses secrets the store copy references', () => {
+    const secrets = { DB_HOST: 'db.internal.example', API_KEY: 'k3y-0f-th3-api' };
+    const content = 'host: db.internal.example\nkey: k3y-0f-th3-api\n';
+    expect(collapseSecretValues(content, secrets, 'host: db\nkey: ${secret:API_KEY}\n')).toBe(
+      'host: db.internal.example\nkey: ${secret:API_KEY}\n',
+    );
+    expect(collapseSecretValues(content, secrets, 'no placeholders\n')).toBe(content);
+    expect(collapseSecretValues(content, secrets, null)).toBe(content);
+  });
+});
+
+describe('secretValueError', () => {
+  it('rejects short and generic values', () => {
+    for (const value of ['true', '8080', 'admin', '12345678', 'localhost', 'Password']) {
+      expect(secretValueError(value)).not.toBeNull();
+    }
+  });
+
+  it('accepts values unlikely to appear by chance', () => {
+    expect(secretValueError(TOKEN)).toBeNull();
+    expect(secretValueError('correct-horse-battery')).toBeNull();
+  });
+});
+
+// ── Sync engine ──────────────────────────────────────────────────────────────
+
+describe('SyncEngine secret placeholders', () => {
+  it('stores placeholders for local secret values coming from the target', async () => {
+    writeLocalSecrets({ GITHUB_TOKEN: TOKEN });
+    const tf = insertTrackedFile();
+    await fs.writeFile(path.join(storeRepoPath, '.mcp.json'), STORE_JSON);
+    await engine.syncFile(tf, target());
+
+    const edit = (json: string) => json.replace('"env"', '"disabled": false, "env"');
+    await fs.writeFile(path.join(targetPath, '.mcp.json'), edit(TARGET_JSON));
+    await engine.syncFile(getTrackedFile(), target());
+
+    expect(await fs.readFile(path.join(storeRepoPath, '.mcp.json'), 'utf-8')).toBe(
+      edit(STORE_JSON),
+    );
+    // Collapsed before scanning, so the token isn't reported as a leak
+    expect(db.prepare('SELECT COUNT(*) AS n FROM secret_findings').get()).toEqual({ n: 0 });
+  });
+
+  it('leaves a value alone in files that do not reference its secret', async () => {
+    writeLocalSecrets({ DEPLOY_HOST: 'staging-db-01' });
+    const tf = insertTrackedFile();
+    const notes = '{ "host": "staging-db-01" }\n';
+    await fs.writeFile(path.join(targetPath, '.mcp.json'), notes);
+
+    await engine.syncFile(tf, target());
+
+    expect(await fs.readFile(path.join(storeRepoPath, '.mcp.json'), 'utf-8')).toBe(notes);
+    expect(await engine.replaceSecretInTargets('DEPLOY_HOST', 'staging-db-01', 'prod-db')).toBe(0);
+    expect(await fs.readFile(path.join(targetPath, '.mcp.json'), 'utf-8')).toBe(notes);
+  });
+
+  it('expands placeholders when writing the target', async () => {
+    writeLocalSecrets({ GITHUB_TOKEN: TOKEN });
+    const tf = insertTrackedFile();
+    await fs.writeFile(path.join(storeRepoPath, '.mcp.json'), STORE_JSON);
+
+    await engine.syncFile(tf, target());
+
+    expect(await fs.readFile(path.join(targetPath, '.mcp.json'), 'utf-8')).toBe(TARGET_JSON);
+  });
+
+  it('treats the expanded target and the store as in sync', async () => {
+    writeLocalSecrets({ GITHUB_TOKEN: TOKEN });
+    const tf = insertTrackedFile();
+    await fs.writeFile(path.join(storeRepoPath, '.mcp.json'), STORE_JSON);
+    await engine.syncFile(tf, target());
+
+    const logged = logCount();
+    await engine.syncFile(getTrackedFile(), target());
+    await engine.syncFile(getTrackedFile(), target());
+
+    expect(logCount()).toBe(logged);
+    expect(await fs.readFile(path.join(storeRepoPath, '.mcp.json'), 'utf-8')).toBe(STORE_JSON);
+    expect(await fs.readFile(path.join(targetPath, '.mcp.json'), 'utf-8')).toBe(TARGET_JSON);
+  });
+
+  it('expands a placeholder once its value is defined locally', async () => {
+    const tf = insertTrackedFile();
+    await fs.writeFile(path.join(storeRepoPath, '.mcp.json'), STORE_JSON);
+    await engine.syncFile(tf, target());
+    expect(await fs.readFile(path.join(targetPath, '.mcp.json'), 'utf-8')).toBe(STORE_JSON);
+
+    writeLocalSecrets({ GITHUB_TOKEN: TOKEN });
+    await engine.syncFile(getTrackedFile(), target());
+
+    expect(await fs.readFile(path.join(targetPath, '.mcp.json'), 'utf-8')).toBe(TARGET_JSON);
+    expect(await fs.readFile(path.join(storeRepoPath, '.mcp.json'), 'utf-8')).toBe(STORE_JSON);
+  });
+
+  it('keeps the store unchanged when a secret value is rotated', async () => {
+    writeLocalSecrets({ GITHUB_TOKEN: TOKEN });
+    const tf = insertTrackedFile();
+    await fs.writeFile(path.join(storeRepoPath, '.mcp.json'), STORE_JSON);
+    await engine.syncFile(tf, target());
+
+    const rotated = TOKEN.replace('a1B2', 'z9Y8');
+    expect(await engine.replaceSecretInTargets('GITHUB_TOKEN', TOKEN, rotated)).toBe(1);
+    setLocalSecret('GITHUB_TOKEN', rotated);
+    await engine.syncFile(getTrackedFile(), target());
+
+    expect(await fs.readFile(path.join(storeRepoPath, '.mcp.json'), 'utf-8')).toBe(STORE_JSON);
+    expect(await fs.readFile(path.join(targetPath, '.mcp.json'), 'utf-8')).toBe(
+      STORE_JSON.replace('${secret:GITHUB_TOKEN}', rotated),
+    );
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { SyncEngine } from '../sync-engine.js';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import { mapRow } from '../../db/index.js';
+import type { TrackedFile } from '../../types/index.js';
+import { applyJsonOverlay, splitJsonOverlay } from '../json-merge.js';
+import {
+  getActiveVariants,
+  listMachineVariants,
+  parseVariantPath,
+  variantPath,
+} from '../machine-variants.js';
+import { scanServiceFiles } from '../service-scanner.js';
+
+vi.mock('../store-git.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../store-git.js')>();
+  return {
+    ...actual,
+    queueStoreCommit: vi.fn(),
+    ensureStoreCommitted: vi.fn().mockResolvedValue([]),
+    getCommittedContent: vi.fn(async () => null),
+    getHeadCommitHash: vi.fn().mockResolvedValue('head'),
+  };
+});
+
+vi.mock('../file-watcher.js', async () => {
+  const { EventEmitter } = await import('node:events');
+  class MockFileWatcherService extends EventEmitter {
+    markSelfChange = vi.fn();
+    stopAll = vi.fn().mockResolvedValue(undefined);
+  }
+  return { FileWatcherService: MockFileWatcherService };
+});
+
+const LAPTOP = '11111111-1111-4111-8111-111111111111';
+const WORKSTATION = '22222222-2222-4222-8222-222222222222';
+
+let tmpDir: string;
+let db: Database.Database;
+let engine: SyncEngine;
+
+const targetDir = () => path.join(tmpDir, 'home', '.claude');
+const storeDir = () => path.join(config.storeServicesPath, 'claude-code');
+const getFile = (relativePath: string) =>
+  mapRow<TrackedFile>(
+    db
+      .prepare("SELECT * FROM tracked_files WHERE service_config_id = 'svc' AND relative_path = ?")
+      .get(relativePath),
+  );
+
+async function write(root: string, relativePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(path.join(root, relativePath)), { recursive: true });
+  await fs.writeFile(path.join(root, relativePath), content, 'utf-8');
+}
+
+const read = (root: string, relativePath: string) =>
+  fs.readFile(path.join(root, relativePath), 'utf-8').catch(() => null);
+
+async function sync(relativePath: string): Promise<void> {
+  await engine.syncService('svc', { fileIds: [getFile(relativePath).id] });
+}
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'machine-variants-test-'));
+  config.storePath = path.join(tmpDir, 'store');
+  config.storeServicesPath = path.join(config.storePath, 'services');
+  config.localSecretsPath = path.join(tmpDir, 'home', '.ai-sync', 'secrets.json');
+  config.machineId = LAPTOP;
+  config.machineName = 'laptop';
+
+  db = new Database(':memory:');
+  initSchema(db);
+  await fs.mkdir(targetDir(), { recursive: true });
+  await fs.mkdir(storeDir(), { recursive: true });
+  db.prepare(
+    `INSERT INTO service_configs (id, service_type, name, local_path, store_path)
+     VALUES ('svc', 'claude-code', 'Claude Code', ?, 'services/claude-code')`,
+  ).run(targetDir());
+  engine = new SyncEngine(db);
+
+  await write(targetDir(), 'settings.json', '{\n  "model": "opus",\n  "theme": "dark"\n}\n');
+  await write(targetDir(), 'CLAUDE.md', '# Rules\n');
+  for (const relativePath of ['settings.json', 'CLAUDE.md']) {
+    db.prepare(
+      "INSERT INTO tracked_files (id, service_config_id, relative_path, sync_status) VALUES (?, 'svc', ?, 'pending_to_store')",
+    ).run(`tf-${relativePath}`, relativePath);
+  }
+  await engine.syncService('svc');
+});
+
+afterEach(async () => {
+  db.close();
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('variant paths', () => {
+  it('recognizes whole-file variants and overlays by machine id', () => {
+    expect(parseVariantPath(`settings.json@${LAPTOP}`)).toEqual({
+      relativePath: 'settings.json',
+      machineId: LAPTOP,
+      kind: 'file',
+    });
+    expect(parseVariantPath(`a/b.json@${LAPTOP}.overlay.json`)).toEqual({
+      relativePath: 'a/b.json',
+      machineId: LAPTOP,
+      kind: 'overlay',
+    });
+    expect(parseVariantPath('commands/email@example.md')).toBeNull();
+    expect(variantPath('settings.json', WORKSTATION, 'overlay')).toBe(
+      `settings.json@${WORKSTATION}.overlay.json`,
+    );
+  });
+
+  it('keeps variant files out of scans', async () => {
+    await write(storeDir(), variantPath('settings.json', WORKSTATION, 'file'), '{}\n');
+    const scanned = await scanServiceFiles(storeDir(), ['*.json', '*.md']);
+    expect(scanned.map((entry) => entry.path)).toEqual(['CLAUDE.md', 'settings.json']);
+  });
+});
+
+describe('JSON overlays', () => {
+  it('merges an overlay over the shared file, keeping its formatting', () => {
+    const base = '{\n  "model": "opus",\n  "env": { "A": "1" }\n}\n';
+    expect(applyJsonOverlay(base, '{"model":"sonnet","env":{"B":"2"}}')).toBe(
+      '{\n  "model": "sonnet",\n  "env": {\n    "A": "1",\n    "B": "2"\n  }\n}\n',
+    );
+    expect(applyJsonOverlay(base, '{}')).toBe(base);
+    expect(applyJsonOverlay(base, '[1]')).toBeNull();
+  });
+
+  it('splits an edited file into the shared file and the overlay', () => {
+    const split = splitJsonOverlay(
+      '{"model":"opus","theme":"dark"}',
+      '{"model":"sonnet"}',
+      '{"model":"haiku","theme":"light","verbose":true}',
+    );
+    expect(split).not.toBeNull();
+    expect(JSON.parse(split!.base)).toEqual({ model: 'opus', theme: 'light', verbose: true });
+    expect(JSON.parse(split!.overlay)).toEqual({ model: 'haiku' });
+  });
+});
+
+describe('syncing machine variants', () => {
+  it("uses this machine's whole-file variant and ignores other machines'", async () => {
+    await write(storeDir(), variantPath('CLAUDE.md', WORKSTATION, 'file'), '# Workstation\n');
+    await sync('CLAUDE.md');
+    expect(await read(targetDir(), 'CLAUDE.md')).toBe('# Rules\n');
+
+    await engine.createMachineVariant(getFile('CLAUDE.md').id, 'file');
+    expect(await read(storeDir(), variantPath('CLAUDE.md', LAPTOP, 'file'))).toBe('# Rules\n');
+
+    await write(targetDir(), 'CLAUDE.md', '# Laptop\n');
+    await sync('CLAUDE.md');
+    expect(await read(storeDir(), variantPath('CLAUDE.md', LAPTOP, 'file'))).toBe('# Laptop\n');
+    expect(await read(storeDir(), 'CLAUDE.md')).toBe('# Rules\n');
+    expect(getFile('CLAUDE.md').syncStatus).toBe('synced');
+
+    // The shared file moving on elsewhere doesn't reach this machine
+    await write(storeDir(), 'CLAUDE.md', '# Shared\n');
+    await sync('CLAUDE.md');
+    expect(await read(targetDir(), 'CLAUDE.md')).toBe('# Laptop\n');
+
+    expect(await getActiveVariants(storeDir())).toEqual(new Map([['CLAUDE.md', 'file']]));
+    const variants = await listMachineVariants(storeDir(), {
+      [WORKSTATION]: { name: 'workstation' },
+    });
+    expect(variants.map((v) => [v.machineName, v.thisMachine])).toEqual([
+      [LAPTOP, true],
+      ['workstation', false],
+    ]);
+  });
+
+  it('merges an overlay over the shared file and routes edits to the right file', async () => {
+    await engine.createMachineVariant(getFile('settings.json').id, 'overlay');
+    const overlay = variantPath('settings.json', LAPTOP, 'overlay');
+    await write(storeDir(), overlay, '{\n  "model": "sonnet"\n}\n');
+    await sync('settings.json');
+    expect(JSON.parse((await read(targetDir(), 'settings.json'))!)).toEqual({
+      model: 'sonnet',
+      theme: 'dark',
+    });
+
+    await write(targetDir(), 'settings.json', '{\n  "model": "haiku",\n  "theme": "light"\n}\n');
+    await sync('settings.json');
+    expect(JSON.parse((await read(storeDir(), overlay))!)).toEqual({ model: 'haiku' });
+    expect(JSON.parse((await read(storeDir(), 'settings.json'))!)).toEqual({
+      model: 'opus',
+      theme: 'light',
+    });
+    expect(getFile('settings.json').syncStatus).toBe('synced');
+
+    await expect(
+      engine.createMachineVariant(getFile('CLAUDE.md').id, 'overlay'),
+    ).rejects.toMatchObject({ statusCode: 400 });
+    await expect(
+      engine.createMachineVariant(getFile('settings.json').id, 'file'),
+    ).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('promotes a variant to shared and removes variants', async () => {
+    await engine.createMachineVariant(getFile('settings.json').id, 'overlay');
+    await write(
+      storeDir(),
+      variantPath('settings.json', LAPTOP, 'overlay'),
+      '{\n  "model": "sonnet"\n}\n',
+    );
+    await sync('settings.json');
+
+    await engine.promoteMachineVariant(getFile('settings.json').id, LAPTOP);
+    expect(JSON.parse((await read(storeDir(), 'settings.json'))!)).toEqual({
+      model: 'sonnet',
+      theme: 'dark',
+    });
+    expect(await listMachineVariants(storeDir())).toEqual([]);
+    expect(getFile('settings.json').syncStatus).toBe('synced');
+
+    await write(storeDir(), variantPath('CLAUDE.md', LAPTOP, 'file'), '# Laptop\n');
+    await sync('CLAUDE.md');
+    expect(await read(targetDir(), 'CLAUDE.md')).toBe('# Laptop\n');
+    await engine.removeMachineVariant(getFile('CLAUDE.md').id, LAPTOP);
+    expect(await read(targetDir(), 'CLAUDE.md')).toBe('# Rules\n');
+    expect(await read(storeDir(), variantPath('CLAUDE.md', LAPTOP, 'file'))).toBeNull();
+
+    await expect(
+      engine.removeMachineVariant(getFile('CLAUDE.md').id, WORKSTATION),
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -35,6 +35,16 @@ import {
   seedMachinesFile,
   autoLinkRepos,
   linkStoreRepo,
+  linkStoreService,
+  autoLinkServices,
+  writeServiceMeta,
+  readServiceMeta,
+  removeUnusedServiceMeta,
+  normalizeMachineTags,
+  setMachineTags,
+  setCarriedBy,
+  getCarriedBy,
+  machineCarries,
 } from '../machines.js';
 
 let tmpDir: string;
@@ -630,3 +640,152 @@ describe('linkStoreRepo', () => {
     expect(repo.name).toBe('my-repo');
   });
 });
+
+// ╔═══════════════════════════════════════════════════════════════════════╗
+// ║  Service instances                                                   ║
+// ╚═══════════════════════════════════════════════════════════════════════╝
+describe('service instances', () => {
+  it('lets a service type have several instances with their own store paths', () => {
+    const insert = db.prepare(
+      "INSERT INTO service_configs (id, service_type, name, local_path, store_path, status) VALUES (?, 'claude-code', ?, ?, ?, 'active')",
+    );
+    insert.run('s1', 'Claude Code', '/home/.claude', 'services/claude-code');
+    insert.run('s2', 'Claude Code (work)', '/home/.claude-work', 'services/claude-code@work');
+
+    expect(() =>
+      insert.run('s3', 'Claude Code (work)', '/home/.claude-2', 'services/claude-code@work'),
+    ).toThrow(/UNIQUE/);
+  });
+
+  it('links an instance store folder under the instance name', async () => {
+    const targetDir = path.join(tmpDir, 'claude-work');
+    await fs.mkdir(targetDir, { recursive: true });
+    const storeDir = path.join(config.storeServicesPath, 'claude-code@work');
+    await fs.mkdir(storeDir, { recursive: true });
+    await fs.writeFile(path.join(storeDir, 'CLAUDE.md'), '# Work', 'utf-8');
+
+    const [unlinked] = await getUnlinkedStoreServices(db);
+    expect(unlinked).toMatchObject({
+      storePath: 'services/claude-code@work',
+      serviceType: 'claude-code',
+      serviceName: 'Claude Code (work)',
+      defaultPath: null,
+    });
+
+    const serviceId = await linkStoreService(db, 'services/claude-code@work', targetDir);
+    const svc = db.prepare('SELECT * FROM service_configs WHERE id = ?').get(serviceId) as Record<
+      string,
+      string
+    >;
+    expect(svc).toMatchObject({
+      service_type: 'claude-code',
+      name: 'Claude Code (work)',
+      store_path: 'services/claude-code@work',
+    });
+    expect(await fs.readFile(path.join(targetDir, 'CLAUDE.md'), 'utf-8')).toBe('# Work');
+  });
+
+  it('does not auto-link an instance to the default path of its type', async () => {
+    setServiceMapping('services/claude-code@work', path.join(tmpDir, 'elsewhere'));
+    await fs.mkdir(path.join(config.storeServicesPath, 'claude-code@work'), { recursive: true });
+
+    const results = await autoLinkServices(db);
+    expect(results).toEqual([
+      {
+        storePath: 'services/claude-code@work',
+        localPath: path.join(tmpDir, 'elsewhere'),
+        status: 'path_missing',
+      },
+    ]);
+  });
+
+  it('keeps custom service metadata while an instance is left', async () => {
+    writeServiceMeta('custom-tool', { name: 'Tool', patterns: ['*.md'] });
+    await fs.mkdir(path.join(config.storeServicesPath, 'custom-tool@work'), { recursive: true });
+
+    await removeUnusedServiceMeta(db, 'custom-tool');
+    expect(readServiceMeta('custom-tool')).not.toBeNull();
+
+    await fs.rm(path.join(config.storeServicesPath, 'custom-tool@work'), { recursive: true });
+    await removeUnusedServiceMeta(db, 'custom-tool');
+    expect(readServiceMeta('custom-tool')).toBeNull();
+  });
+});
+
+// ╔═══════════════════════════════════════════════════════════════════════╗
+// ║  Machine groups                                                     ║
+// ╚═══════════════════════════════════════════════════════════════════════╝
+describe('machine groups', () => {
+  beforeEach(() => {
+    writeMachinesFile({
+      machines: {
+        [MACHINE_ID]: { name: MACHINE_NAME, lastSeen: '2025-01-01T00:00:00Z' },
+        [OTHER_MACHINE_ID]: { name: 'Other PC', lastSeen: '2025-01-01T00:00:00Z' },
+      },
+      repos: {},
+      services: {},
+    });
+  });
+
+  it('normalizes tags and rejects invalid ones', () => {
+    expect(normalizeMachineTags([' Work', 'home', 'work'])).toEqual(['home', 'work']);
+    expect(normalizeMachineTags(['two words'])).toBeNull();
+    expect(normalizeMachineTags('work')).toBeNull();
+  });
+
+  it('keeps tags when the machine registers again', () => {
+    expect(setMachineTags(MACHINE_ID, ['work'])).toBe(true);
+    expect(setMachineTags('machine-unknown', ['work'])).toBe(false);
+    config.machineName = 'Renamed';
+    registerCurrentMachine();
+    expect(readMachinesFile().machines[MACHINE_ID]).toMatchObject({
+      name: 'Renamed',
+      tags: ['work'],
+    });
+  });
+
+  it('carries a repo only on machines with one of its tags', () => {
+    setMachineTags(OTHER_MACHINE_ID, ['home']);
+    expect(machineCarries(readMachinesFile(), 'repos/work-api')).toBe(true);
+
+    setCarriedBy('repos/work-api', ['work']);
+    expect(getCarriedBy('repos/work-api')).toEqual(['work']);
+    expect(machineCarries(readMachinesFile(), 'repos/work-api')).toBe(false);
+    expect(machineCarries(readMachinesFile(), 'repos/work-api', OTHER_MACHINE_ID)).toBe(false);
+
+    setMachineTags(MACHINE_ID, ['work']);
+    expect(machineCarries(readMachinesFile(), 'repos/work-api')).toBe(true);
+
+    setCarriedBy('repos/work-api', []);
+    expect(readMachinesFile().carriedBy).toBeUndefined();
+  });
+
+  it('leaves repos and services for other groups out of the unlinked lists and auto-link', async () => {
+    const targetDir = path.join(tmpDir, 'target-project');
+    await fs.mkdir(targetDir, { recursive: true });
+    await fs.mkdir(path.join(config.storeReposPath, 'work-api'), { recursive: true });
+    await fs.mkdir(path.join(config.storeServicesPath, 'cursor'), { recursive: true });
+    setRepoMapping('repos/work-api', targetDir);
+    setCarriedBy('repos/work-api', ['work']);
+    setCarriedBy('services/cursor', ['work']);
+
+    expect(await getUnlinkedStoreRepos(db)).toEqual([]);
+    expect(await getUnlinkedStoreServices(db)).toEqual([]);
+    expect(await autoLinkRepos(db)).toEqual([]);
+
+    setMachineTags(MACHINE_ID, ['work']);
+    expect((await getUnlinkedStoreServices(db)).map((s) => s.storePath)).toEqual([
+      'services/cursor',
+    ]);
+    expect(await autoLinkRepos(db)).toEqual([
+      { storePath: 'repos/work-api', localPath: targetDir, status: 'linked' },
+    ]);
+  });
+
+  it('drops the rule with the last mapping of a deleted repo', () => {
+    setRepoMapping('repos/work-api', '/work/api');
+    setCarriedBy('repos/work-api', ['work']);
+    removeRepoMapping('repos/work-api');
+    expect(getCarriedBy('repos/work-api')).toEqual([]);
+  });
+});
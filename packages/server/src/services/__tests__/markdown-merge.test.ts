@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { SyncEngine } from '../sync-engine.js';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import { mapRow } from '../../db/index.js';
+import type { TrackedFile } from '../../types/index.js';
+import { isMarkdownFile, mergeMarkdown } from '../markdown-merge.js';
+import { getCommittedContent } from '../store-git.js';
+
+// ── Mocks ───────────────────────────────────────────────────────────────────
+
+vi.mock('../store-git.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../store-git.js')>();
+  return {
+    ...actual,
+    queueStoreCommit: vi.fn(),
+    ensureStoreCommitted: vi.fn().mockResolvedValue([]),
+    getCommittedContent: vi.fn(async () => null),
+    getHeadCommitHash: vi.fn().mockResolvedValue('head'),
+  };
+});
+
+vi.mock('../file-watcher.js', async () => {
+  const { EventEmitter } = await import('node:events');
+  class MockFileWatcherService extends EventEmitter {
+    markSelfChange = vi.fn();
+    stopAll = vi.fn().mockResolvedValue(undefined);
+  }
+  return { FileWatcherService: MockFileWatcherService };
+});
+
+const BASE = [
+  '# Project',
+  '',
+  'Intro.',
+  '',
+  '## Commands',
+  '',
+  '- `pnpm dev`',
+  '- `pnpm test`',
+  '',
+  '## Style',
+  '',
+  '- Use tabs',
+  '',
+].join('\n');
+
+describe('mergeMarkdown', () => {
+  it('merges edits under different headings', async () => {
+    const store = BASE.replace('- `pnpm test`\n', '- `pnpm test`\n- `pnpm lint`\n');
+    const target = BASE.replace('- Use tabs\n', '- Use tabs\n- No semicolons\n');
+    const merged = await mergeMarkdown(BASE, store, target);
+
+    expect(merged.conflicts).toEqual([]);
+    expect(merged.content).toContain('- `pnpm lint`\n');
+    expect(merged.content).toContain('- No semicolons\n');
+  });
+
+  it('combines items appended to the same list on both sides', async () => {
+    const store = BASE.replace('- `pnpm test`\n', '- `pnpm test`\n- `pnpm lint`\n');
+    const target = BASE.replace('- `pnpm test`\n', '- `pnpm test`\n- `pnpm build`\n');
+    const merged = await mergeMarkdown(BASE, store, target);
+
+    expect(merged.conflicts).toEqual([]);
+    expect(merged.content).toContain('- `pnpm test`\n- `pnpm lint`\n- `pnpm build`\n\n## Style');
+  });
+
+  it('keeps new sections from both sides in place', async () => {
+    const store = BASE.replace('## Style', '## Testing\n\n- Vitest\n\n## Style');
+    const target = `${BASE}\n## Git\n\n- Small commits\n`;
+    const merged = await mergeMarkdown(BASE, store, target);
+
+    expect(merged.conflicts).toEqual([]);
+    expect(merged.content.indexOf('## Testing')).toBeLessThan(merged.content.indexOf('## Style'));
+    expect(merged.content.indexOf('## Style')).toBeLessThan(merged.content.indexOf('## Git'));
+  });
+
+  it('ignores headings inside code fences', async () => {
+    const base = '## Setup\n\n```sh\n# install\nnpm i\n```\n\n- a\n';
+    const store = base.replace('npm i', 'pnpm i');
+    const target = `${base}- b\n`;
+    const merged = await mergeMarkdown(base, store, target);
+
+    expect(merged.conflicts).toEqual([]);
+    expect(merged.content).toBe('## Setup\n\n```sh\n# install\npnpm i\n```\n\n- a\n- b\n');
+  });
+
+  it('reports a conflict at the heading of a section changed on both sides', async () => {
+    const store = BASE.replace('- Use tabs', '- Use spaces');
+    const target = BASE.replace('- Use tabs', '- Use two spaces').replace('Intro.', 'Hello.');
+    const merged = await mergeMarkdown(BASE, store, target);
+
+    expect(merged.conflicts).toEqual([{ heading: '## Style', line: 10 }]);
+    expect(merged.content.split('\n')[9]).toBe('## Style');
+    expect(merged.content).toContain('Hello.');
+    expect(merged.content).toMatch(
+      /<<<<<<< store\n- Use spaces\n=======\n- Use two spaces\n>>>>>>> target/,
+    );
+  });
+
+  it('treats deleting a section changed on the other side as a conflict', async () => {
+    const store = BASE.replace('- Use tabs', '- Use spaces');
+    const target = BASE.slice(0, BASE.indexOf('## Style'));
+    const merged = await mergeMarkdown(BASE, store, target);
+
+    expect(merged.conflicts.map((c) => c.heading)).toEqual(['## Style']);
+  });
+
+  it('recognizes Markdown files', () => {
+    expect(['CLAUDE.md', '.cursor/rules/a.mdc', 'x.json'].map(isMarkdownFile)).toEqual([
+      true,
+      true,
+      false,
+    ]);
+  });
+});
+
+// ── Sync ─────────────────────────────────────────────────────────────────────
+
+let tmpDir: string;
+let db: Database.Database;
+let engine: SyncEngine;
+
+const repoDir = () => path.join(tmpDir, 'web');
+const storeDir = () => path.join(config.storeReposPath, 'web');
+const claudeFile = () =>
+  mapRow<TrackedFile>(
+    db.prepare("SELECT * FROM tracked_files WHERE relative_path = 'CLAUDE.md'").get(),
+  );
+
+async function write(root: string, content: string): Promise<void> {
+  await fs.mkdir(root, { recursive: true });
+  await fs.writeFile(path.join(root, 'CLAUDE.md'), content, 'utf-8');
+}
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'markdown-merge-test-'));
+  config.storePath = path.join(tmpDir, 'store');
+  config.storeReposPath = path.join(tmpDir, 'store', 'repos');
+  config.localSecretsPath = path.join(tmpDir, 'home', '.ai-sync', 'secrets.json');
+
+  db = new Database(':memory:');
+  initSchema(db);
+  db.prepare(
+    "INSERT INTO repos (id, name, local_path, store_path) VALUES ('web', 'web', ?, 'repos/web')",
+  ).run(repoDir());
+  db.prepare(
+    "INSERT INTO tracked_files (id, repo_id, relative_path, sync_status) VALUES ('tf', 'web', 'CLAUDE.md', 'synced')",
+  ).run();
+  engine = new SyncEngine(db);
+  vi.mocked(getCommittedContent).mockResolvedValue(BASE);
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+  db.close();
+  vi.clearAllMocks();
+});
+
+describe('syncing Markdown files', () => {
+  it('auto-merges bullets added on both machines', async () => {
+    await write(storeDir(), BASE.replace('- Use tabs\n', '- Use tabs\n- No semicolons\n'));
+    await write(repoDir(), BASE.replace('- `pnpm test`\n', '- `pnpm test`\n- `pnpm lint`\n'));
+    await engine.syncRepo('web');
+
+    const content = await fs.readFile(path.join(repoDir(), 'CLAUDE.md'), 'utf-8');
+    expect(content).toContain('- No semicolons\n');
+    expect(content).toContain('- `pnpm lint`\n');
+    expect(claudeFile().syncStatus).toBe('synced');
+  });
+
+  it('records the conflicting sections on the conflict', async () => {
+    await write(storeDir(), BASE.replace('- Use tabs', '- Use spaces'));
+    await write(repoDir(), BASE.replace('- Use tabs', '- Use two spaces'));
+    await engine.syncRepo('web');
+
+    const row = db.prepare('SELECT section_conflicts FROM conflicts').get() as {
+      section_conflicts: string;
+    };
+    expect(JSON.parse(row.section_conflicts)).toEqual([{ heading: '## Style', line: 10 }]);
+    expect(claudeFile().syncStatus).toBe('conflict');
+  });
+});
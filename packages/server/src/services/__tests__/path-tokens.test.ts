@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { SyncEngine } from '../sync-engine.js';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import { mapRow } from '../../db/index.js';
+import type { TrackedFile } from '../../types/index.js';
+import {
+  collapsePaths,
+  expandPathTokens,
+  getMachinePathTokens,
+  setPathTokensEnabled,
+} from '../path-tokens.js';
+
+vi.mock('../store-git.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../store-git.js')>();
+  return {
+    ...actual,
+    queueStoreCommit: vi.fn(),
+    ensureStoreCommitted: vi.fn().mockResolvedValue([]),
+    getCommittedContent: vi.fn(async () => null),
+    getHeadCommitHash: vi.fn().mockResolvedValue('head'),
+  };
+});
+
+vi.mock('../file-watcher.js', async () => {
+  const { EventEmitter } = await import('node:events');
+  class MockFileWatcherService extends EventEmitter {
+    markSelfChange = vi.fn();
+    stopAll = vi.fn().mockResolvedValue(undefined);
+  }
+  return { FileWatcherService: MockFileWatcherService };
+});
+
+let tmpDir: string;
+let home: string;
+let db: Database.Database;
+let engine: SyncEngine;
+
+const targetDir = () => path.join(home, '.claude');
+const storeDir = () => path.join(config.storeServicesPath, 'claude-code');
+const getFile = (relativePath: string) =>
+  mapRow<TrackedFile>(
+    db
+      .prepare("SELECT * FROM tracked_files WHERE service_config_id = 'svc' AND relative_path = ?")
+      .get(relativePath),
+  );
+
+async function write(root: string, relativePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(path.join(root, relativePath)), { recursive: true });
+  await fs.writeFile(path.join(root, relativePath), content, 'utf-8');
+}
+
+const read = (root: string, relativePath: string) =>
+  fs.readFile(path.join(root, relativePath), 'utf-8').catch(() => null);
+
+function track(relativePath: string, status: string): void {
+  db.prepare(
+    "INSERT INTO tracked_files (id, service_config_id, relative_path, sync_status) VALUES (?, 'svc', ?, ?)",
+  ).run(`tf-${relativePath}`, relativePath, status);
+}
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'path-tokens-test-'));
+  home = path.join(tmpDir, 'home', 'alice');
+  vi.stubEnv('HOME', home);
+  config.storePath = path.join(tmpDir, 'store');
+  config.storeServicesPath = path.join(config.storePath, 'services');
+  config.localSecretsPath = path.join(home, '.ai-sync', 'secrets.json');
+
+  db = new Database(':memory:');
+  initSchema(db);
+  await fs.mkdir(targetDir(), { recursive: true });
+  await fs.mkdir(storeDir(), { recursive: true });
+  db.prepare(
+    `INSERT INTO service_configs (id, service_type, name, local_path, store_path)
+     VALUES ('svc', 'claude-code', 'Claude Code', ?, 'services/claude-code')`,
+  ).run(targetDir());
+  db.prepare(
+    `INSERT INTO repos (id, name, local_path, store_path)
+     VALUES ('repo', 'my-project', ?, 'repos/my-project')`,
+  ).run(path.join(home, 'code', 'my-project'));
+  engine = new SyncEngine(db);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  db.close();
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('path tokens', () => {
+  it('turns whole paths into tokens and back, repos before the home directory', () => {
+    const tokens = getMachinePathTokens(db);
+    expect(tokens.map((t) => t.token)).toEqual(['${repo:my-project}', '${HOME}']);
+
+    const content = [
+      `${home}/code/my-project/scripts/lint.sh`,
+      `${home}/.claude/hooks`,
+      `${home}-backup/notes`,
+      `${home}`,
+    ].join('\n');
+    const collapsed = collapsePaths(content, tokens);
+    expect(collapsed).toBe(
+      [
+        '${repo:my-project}/scripts/lint.sh',
+        '${HOME}/.claude/hooks',
+        `${home}-backup/notes`,
+        '${HOME}',
+      ].join('\n'),
+    );
+    expect(expandPathTokens(collapsed, tokens)).toBe(content);
+
+    // Tokens with no path on this machine, or that wouldn't collapse back, stay as they are
+    expect(expandPathTokens('${repo:elsewhere}/x ${HOME}.bak', tokens)).toBe(
+      '${repo:elsewhere}/x ${HOME}.bak',
+    );
+  });
+});
+
+describe('syncing with path tokens', () => {
+  const settings = (root: string) =>
+    JSON.stringify({ hooks: { command: `${root}/.claude/hooks/format.sh` } }, null, 2) + '\n';
+
+  it('only rewrites paths for repos and services that opted in', async () => {
+    await write(targetDir(), 'settings.json', settings(home));
+    track('settings.json', 'pending_to_store');
+    await engine.syncService('svc');
+    expect(await read(storeDir(), 'settings.json')).toBe(settings(home));
+  });
+
+  it('stores tokens and writes this machine paths, with stable checksums', async () => {
+    setPathTokensEnabled(db, { id: 'svc', type: 'service' }, true);
+    await write(targetDir(), 'settings.json', settings(home));
+    track('settings.json', 'pending_to_store');
+    await engine.syncService('svc');
+    expect(await read(storeDir(), 'settings.json')).toBe(settings('${HOME}'));
+    expect(await read(targetDir(), 'settings.json')).toBe(settings(home));
+    expect(getFile('settings.json').syncStatus).toBe('synced');
+
+    // Nothing changed, so nothing is copied again
+    const logged = () =>
+      (db.prepare('SELECT COUNT(*) AS n FROM sync_log').get() as { n: number }).n;
+    const before = logged();
+    await engine.syncService('svc');
+    expect(logged()).toBe(before);
+
+    // A file from another machine gets this machine's paths
+    await write(storeDir(), 'CLAUDE.md', 'Run ${HOME}/.claude/hooks/format.sh\n');
+    track('CLAUDE.md', 'pending_to_target');
+    await engine.syncService('svc');
+    expect(await read(targetDir(), 'CLAUDE.md')).toBe(`Run ${home}/.claude/hooks/format.sh\n`);
+    expect(getFile('CLAUDE.md').syncStatus).toBe('synced');
+
+    // Edits in the target go back as tokens
+    await write(targetDir(), 'CLAUDE.md', `Run ${home}/bin/fmt\n`);
+    await engine.syncService('svc');
+    expect(await read(storeDir(), 'CLAUDE.md')).toBe('Run ${HOME}/bin/fmt\n');
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { SyncEngine } from '../sync-engine.js';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import { mapRow, mapRows } from '../../db/index.js';
+import type { Repo, TrackedFile } from '../../types/index.js';
+import { contentSimilarity, directoryRename, pickRenameCandidate } from '../rename-detector.js';
+
+// ── Mocks ───────────────────────────────────────────────────────────────────
+
+vi.mock('../store-git.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../store-git.js')>();
+  return {
+    ...actual,
+    queueStoreCommit: vi.fn(),
+    ensureStoreCommitted: vi.fn().mockResolvedValue([]),
+    getCommittedContent: vi.fn(async () => null),
+    getHeadCommitHash: vi.fn().mockResolvedValue('head'),
+  };
+});
+
+vi.mock('../file-watcher.js', async () => {
+  const { EventEmitter } = await import('node:events');
+  class MockFileWatcherService extends EventEmitter {
+    markSelfChange = vi.fn();
+    stopAll = vi.fn().mockResolvedValue(undefined);
+  }
+  return { FileWatcherService: MockFileWatcherService };
+});
+
+const COMMAND = '# Review\n\nReview the staged changes.\nPoint out bugs first.\nThen style.\n';
+
+describe('contentSimilarity', () => {
+  it('scores shared lines regardless of order', () => {
+    expect(contentSimilarity('a\nb\nc\nd', 'a\nb\nc\nd')).toBe(1);
+    expect(contentSimilarity('a\nb\nc\nd', 'd\nc\nb\na')).toBe(1);
+    expect(contentSimilarity('a\nb\nc\nd', 'a\nb\nx\ny')).toBe(0.5);
+    expect(contentSimilarity('a\nb', 'x\ny')).toBe(0);
+  });
+});
+
+describe('pickRenameCandidate', () => {
+  it('prefers an identical file, then the same file name', () => {
+    const candidates = [
+      { path: 'other.md', content: COMMAND },
+      { path: 'dir/foo.md', content: COMMAND },
+      { path: 'similar.md', content: COMMAND + 'One more line.\n' },
+    ];
+    expect(pickRenameCandidate('foo.md', COMMAND, candidates)?.path).toBe('dir/foo.md');
+    expect(pickRenameCandidate('foo.md', COMMAND + 'One more line.\n', candidates)?.path).toBe(
+      'similar.md',
+    );
+  });
+
+  it('rejects unrelated and empty files', () => {
+    expect(pickRenameCandidate('foo.md', COMMAND, [{ path: 'b.md', content: 'x\ny\n' }])).toBe(
+      null,
+    );
+    expect(pickRenameCandidate('foo.md', '', [{ path: 'b.md', content: '' }])).toBe(null);
+  });
+
+  it('only matches binary files byte for byte', () => {
+    const bytes = Buffer.from([0x89, 0x50, 0x00, 0xff]);
+    expect(pickRenameCandidate('a.png', bytes, [{ path: 'b.png', content: bytes }])?.path).toBe(
+      'b.png',
+    );
+    expect(
+      pickRenameCandidate('a.png', bytes, [{ path: 'b.png', content: Buffer.from([0x01]) }]),
+    ).toBe(null);
+  });
+});
+
+describe('directoryRename', () => {
+  it('finds the renamed folders above an unchanged path', () => {
+    expect(directoryRename('.claude/skills/a/SKILL.md', '.claude/skills/b/SKILL.md')).toEqual({
+      from: '.claude/skills/a',
+      to: '.claude/skills/b',
+    });
+    expect(directoryRename('skills/a/refs/x.md', 'skills/b/refs/x.md')).toEqual({
+      from: 'skills/a',
+      to: 'skills/b',
+    });
+  });
+
+  it('returns null when the file name changed', () => {
+    expect(directoryRename('.claude/commands/foo.md', '.claude/commands/bar.md')).toBe(null);
+    expect(directoryRename('foo.md', 'dir/foo.md')).toBe(null);
+  });
+});
+
+// ── Sync ─────────────────────────────────────────────────────────────────────
+
+let tmpDir: string;
+let db: Database.Database;
+let engine: SyncEngine;
+
+const repoDir = () => path.join(tmpDir, 'web');
+const storeDir = () => path.join(config.storeReposPath, 'web');
+const getRepo = () => mapRow<Repo>(db.prepare("SELECT * FROM repos WHERE id = 'web'").get())!;
+const trackedPaths = () =>
+  mapRows<TrackedFile>(db.prepare('SELECT * FROM tracked_files ORDER BY relative_path').all()).map(
+    (f) => f.relativePath,
+  );
+const pendingConflicts = () =>
+  (
+    db.prepare("SELECT COUNT(*) AS n FROM conflicts WHERE status = 'pending'").get() as {
+      n: number;
+    }
+  ).n;
+
+async function write(root: string, relativePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(path.join(root, relativePath)), { recursive: true });
+  await fs.writeFile(path.join(root, relativePath), content, 'utf-8');
+}
+
+function track(relativePath: string): void {
+  db.prepare(
+    "INSERT INTO tracked_files (id, repo_id, relative_path, sync_status) VALUES (?, 'web', ?, 'pending_to_store')",
+  ).run(`tf-${relativePath}`, relativePath);
+}
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rename-detector-test-'));
+  config.storePath = path.join(tmpDir, 'store');
+  config.storeReposPath = path.join(tmpDir, 'store', 'repos');
+  config.localSecretsPath = path.join(tmpDir, 'home', '.ai-sync', 'secrets.json');
+
+  db = new Database(':memory:');
+  initSchema(db);
+  await fs.mkdir(repoDir(), { recursive: true });
+  await fs.mkdir(storeDir(), { recursive: true });
+  db.prepare(
+    "INSERT INTO repos (id, name, local_path, store_path) VALUES ('web', 'web', ?, 'repos/web')",
+  ).run(repoDir());
+  engine = new SyncEngine(db);
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+  db.close();
+  vi.clearAllMocks();
+});
+
+describe('syncing renamed files', () => {
+  beforeEach(async () => {
+    await write(repoDir(), '.claude/commands/foo.md', COMMAND);
+    track('.claude/commands/foo.md');
+    await engine.syncRepo('web');
+  });
+
+  it('moves the store file and the tracked row when the target file is renamed', async () => {
+    await fs.rename(
+      path.join(repoDir(), '.claude/commands/foo.md'),
+      path.join(repoDir(), '.claude/commands/bar.md'),
+    );
+    track('.claude/commands/bar.md');
+    await engine.syncRepo('web');
+
+    expect(trackedPaths()).toEqual(['.claude/commands/bar.md']);
+    expect(mapRow<TrackedFile>(db.prepare('SELECT * FROM tracked_files').get()).id).toBe(
+      'tf-.claude/commands/foo.md',
+    );
+    expect(await fs.readFile(path.join(storeDir(), '.claude/commands/bar.md'), 'utf-8')).toBe(
+      COMMAND,
+    );
+    await expect(fs.access(path.join(storeDir(), '.claude/commands/foo.md'))).rejects.toThrow();
+    expect(pendingConflicts()).toBe(0);
+    const log = db.prepare("SELECT details FROM sync_log WHERE action = 'renamed'").get() as {
+      details: string;
+    };
+    expect(log.details).toBe('.claude/commands/foo.md -> .claude/commands/bar.md');
+  });
+
+  it('carries edits made along with the rename', async () => {
+    await fs.rm(path.join(repoDir(), '.claude/commands/foo.md'));
+    await write(repoDir(), '.claude/commands/bar.md', COMMAND + 'And tests.\n');
+    // The new name is seen first this time
+    track('.claude/commands/bar.md');
+    await engine.syncFile(
+      mapRow<TrackedFile>(
+        db.prepare("SELECT * FROM tracked_files WHERE id = 'tf-.claude/commands/bar.md'").get(),
+      ),
+      { ...getRepo(), type: 'repo' },
+    );
+
+    expect(trackedPaths()).toEqual(['.claude/commands/bar.md']);
+    expect(await fs.readFile(path.join(storeDir(), '.claude/commands/bar.md'), 'utf-8')).toBe(
+      COMMAND + 'And tests.\n',
+    );
+  });
+
+  it('renames the target file when the store file was renamed elsewhere', async () => {
+    await fs.rename(
+      path.join(storeDir(), '.claude/commands/foo.md'),
+      path.join(storeDir(), '.claude/commands/bar.md'),
+    );
+    await engine.syncRepo('web');
+    db.prepare(
+      "INSERT INTO tracked_files (id, repo_id, relative_path, sync_status) VALUES ('tf-new', 'web', '.claude/commands/bar.md', 'pending_to_target')",
+    ).run();
+    await engine.syncRepo('web');
+
+    expect(trackedPaths()).toEqual(['.claude/commands/bar.md']);
+    expect(await fs.readFile(path.join(repoDir(), '.claude/commands/bar.md'), 'utf-8')).toBe(
+      COMMAND,
+    );
+    await expect(fs.access(path.join(repoDir(), '.claude/commands/foo.md'))).rejects.toThrow();
+    // The delete conflict raised before the new name showed up is cleared
+    expect(pendingConflicts()).toBe(0);
+  });
+
+  it('still raises a delete conflict for an unrelated new file', async () => {
+    await fs.rm(path.join(repoDir(), '.claude/commands/foo.md'));
+    await write(repoDir(), '.claude/commands/other.md', 'Something else\nentirely\n');
+    track('.claude/commands/other.md');
+    await engine.syncRepo('web');
+
+    expect(trackedPaths()).toEqual(['.claude/commands/foo.md', '.claude/commands/other.md']);
+    expect(pendingConflicts()).toBe(1);
+  });
+});
+
+describe('syncing renamed folders', () => {
+  it('moves the whole folder in the store', async () => {
+    await write(repoDir(), '.claude/skills/lint/SKILL.md', '# Lint\nRun the linter.\n');
+    await write(repoDir(), '.claude/skills/lint/refs/rules.md', '# Rules\nNo unused vars.\n');
+    track('.claude/skills/lint/SKILL.md');
+    track('.claude/skills/lint/refs/rules.md');
+    await engine.syncRepo('web');
+
+    await fs.rename(
+      path.join(repoDir(), '.claude/skills/lint'),
+      path.join(repoDir(), '.claude/skills/check'),
+    );
+    track('.claude/skills/check/SKILL.md');
+    await engine.syncRepo('web');
+
+    expect(trackedPaths()).toEqual([
+      '.claude/skills/check/SKILL.md',
+      '.claude/skills/check/refs/rules.md',
+    ]);
+    expect(
+      await fs.readFile(path.join(storeDir(), '.claude/skills/check/refs/rules.md'), 'utf-8'),
+    ).toBe('# Rules\nNo unused vars.\n');
+    await expect(fs.access(path.join(storeDir(), '.claude/skills/lint'))).rejects.toThrow();
+    expect(pendingConflicts()).toBe(0);
+  });
+});
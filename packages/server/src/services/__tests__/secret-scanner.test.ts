@@ -0,0 +1,288 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { SyncEngine } from '../sync-engine.js';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import type { TrackedFile, SyncTarget } from '../../types/index.js';
+import {
+  scanForSecrets,
+  redactSecrets,
+  restoreRedactedSecrets,
+  getSecretRules,
+  getSecretScanMode,
+  validateCustomSecretRules,
+} from '../secret-scanner.js';
+
+// ── Mocks ───────────────────────────────────────────────────────────────────
+
+vi.mock('../store-git.js', () => ({
+  queueStoreCommit: vi.fn(),
+  ensureStoreCommitted: vi.fn().mockResolvedValue([]),
+  getCommittedContent: vi.fn(async () => null),
+  getHeadCommitHash: vi.fn().mockResolvedValue('mock-head-hash'),
+  gitMergeFile: vi.fn(async () => ({ content: '', hasConflicts: false })),
+}));
+
+vi.mock('../file-watcher.js', async () => {
+  const { EventEmitter } = await import('node:events');
+  class MockFileWatcherService extends EventEmitter {
+    markSelfChange = vi.fn();
+    stopAll = vi.fn().mockResolvedValue(undefined);
+  }
+  return { FileWatcherService: MockFileWatcherService };
+});
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+const GITHUB_TOKEN = 'ghp_' + 'a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8';
+const AWS_KEY = 'AKIA' + 'ABCDEFGHIJKLMNOP';
+const MCP_JSON = `{
+  "mcpServers": {
+    "github": {
+      "env": { "GITHUB_TOKEN": "${GITHUB_TOKEN}" }
+    }
+  }
+}
+`;
+
+let tmpDir: string;
+let targetPath: string;
+let storeRepoPath: string;
+let db: Database.Database;
+let engine: SyncEngine;
+let events: { type: string }[];
+
+const target = (): SyncTarget => ({
+  id: 'repo-1',
+  name: 'test-project',
+  localPath: targetPath,
+  storePath: 'repos/test-project',
+  status: 'active',
+  type: 'repo',
+});
+
+function insertTrackedFile(): TrackedFile {
+  db.prepare(
+    "INSERT INTO tracked_files (id, repo_id, relative_path, sync_status) VALUES ('tf-1', 'repo-1', '.mcp.json', 'synced')",
+  ).run();
+  return {
+    id: 'tf-1',
+    repoId: 'repo-1',
+    serviceConfigId: null,
+    relativePath: '.mcp.json',
+    fileType: 'file',
+    storeChecksum: null,
+    targetChecksum: null,
+    storeMtime: null,
+    targetMtime: null,
+    syncStatus: 'synced',
+    lastSyncedAt: null,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+function setMode(mode: string) {
+  db.prepare("UPDATE settings SET value = ? WHERE key = 'secret_scan_mode'").run(mode);
+}
+
+function syncStatus(): string {
+  return (
+    db.prepare("SELECT sync_status FROM tracked_files WHERE id = 'tf-1'").get() as {
+      sync_status: string;
+    }
+  ).sync_status;
+}
+
+function logActions(): string[] {
+  return (db.prepare('SELECT action FROM sync_log').all() as { action: string }[]).map(
+    (r) => r.action,
+  );
+}
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'secret-test-'));
+  targetPath = path.join(tmpDir, 'target');
+  config.storePath = path.join(tmpDir, 'store');
+  config.storeReposPath = path.join(tmpDir, 'store', 'repos');
+  config.storeServicesPath = path.join(tmpDir, 'store', 'services');
+  storeRepoPath = path.join(config.storeReposPath, 'test-project');
+  await fs.mkdir(targetPath, { recursive: true });
+  await fs.mkdir(storeRepoPath, { recursive: true });
+
+  db = new Database(':memory:');
+  initSchema(db);
+  db.prepare(
+    "INSERT INTO repos (id, name, local_path, store_path) VALUES ('repo-1', 'test-project', ?, 'repos/test-project')",
+  ).run(targetPath);
+
+  engine = new SyncEngine(db);
+  events = [];
+  engine.registerWsClient({ send: (data) => events.push(JSON.parse(data)) });
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+  db.close();
+  vi.clearAllMocks();
+});
+
+// ── Scanner ──────────────────────────────────────────────────────────────────
+
+describe('scanForSecrets', () => {
+  it('detects built-in token formats with line numbers and masked previews', () => {
+    const findings = scanForSecrets(MCP_JSON + `aws = "${AWS_KEY}"\n`, getSecretRules(db));
+    expect(findings.map((f) => [f.ruleId, f.line])).toEqual([
+      ['github-token', 4],
+      ['aws-access-key', 8],
+    ]);
+    expect(findings[0].preview).toBe('ghp_…q7R8');
+  });
+
+  it('prefers specific rules over the generic assignment rule', () => {
+    const findings = scanForSecrets(`API_KEY=${GITHUB_TOKEN}`, getSecretRules(db));
+    expect(findings).toHaveLength(1);
+    expect(findings[0].ruleId).toBe('github-token');
+  });
+
+  it('catches generic assignments but skips placeholders', () => {
+    const rules = getSecretRules(db);
+    expect(scanForSecrets('"apiKey": "s3cr3t-value-0123456789"', rules)).toHaveLength(1);
+    expect(scanForSecrets('"apiKey": "${secret:MY_API_KEY}"', rules)).toHaveLength(0);
+    expect(scanForSecrets('"apiKey": "[REDACTED:generic-secret]"', rules)).toHaveLength(0);
+  });
+
+  it('matches auth keys but not words that start with auth', () => {
+    const rules = getSecretRules(db);
+    const value = 's3cr3t-value-0123456789';
+    for (const key of ['auth', 'auth_token', 'authToken', 'AUTH_KEY', 'Authorization']) {
+      expect(scanForSecrets(`"${key}": "${value}"`, rules)).toHaveLength(1);
+    }
+    expect(scanForSecrets('author: Jane-Doe-Maintainer-Team', rules)).toHaveLength(0);
+    expect(scanForSecrets('"authors": "Jane-Doe-Maintainer-Team"', rules)).toHaveLength(0);
+    expect(scanForSecrets('authority = https://login.example.com/tenant', rules)).toHaveLength(0);
+  });
+
+  it('applies custom rules and skips allowed fingerprints', () => {
+    db.prepare("UPDATE settings SET value = ? WHERE key = 'secret_custom_rules'").run(
+      JSON.stringify([{ name: 'Internal', pattern: 'int_[0-9]{8}' }]),
+    );
+    const rules = getSecretRules(db);
+    const [finding] = scanForSecrets('key: int_12345678', rules);
+    expect(finding.ruleId).toBe('custom-internal');
+    expect(scanForSecrets('key: int_12345678', rules, new Set([finding.fingerprint]))).toEqual([]);
+  });
+});
+
+describe('redaction', () => {
+  it('round-trips secrets from the target through redacted store content', () => {
+    const rules = getSecretRules(db);
+    const redacted = redactSecrets(MCP_JSON, scanForSecrets(MCP_JSON, rules));
+    expect(redacted).toContain('"GITHUB_TOKEN": "[REDACTED:github-token]"');
+    expect(redacted).not.toContain(GITHUB_TOKEN);
+
+    const edited = redacted.replace('"github"', '"gh"');
+    expect(restoreRedactedSecrets(edited, MCP_JSON, rules)).toBe(
+      MCP_JSON.replace('"github"', '"gh"'),
+    );
+  });
+
+  it('leaves placeholders without a local value untouched', () => {
+    const store = '{ "token": "[REDACTED:github-token]" }';
+    expect(restoreRedactedSecrets(store, '{}', getSecretRules(db))).toBe(store);
+  });
+});
+
+describe('settings', () => {
+  it('is off until a mode is picked', () => {
+    expect(getSecretScanMode(db)).toBe('off');
+  });
+
+  it('validates custom rules', () => {
+    expect(validateCustomSecretRules('[{"name":"x","pattern":"abc"}]')).toBeNull();
+    expect(validateCustomSecretRules('{}')).toMatch(/JSON array/);
+    expect(validateCustomSecretRules('[{"name":"x","pattern":"("}]')).toMatch(/Invalid pattern/);
+  });
+});
+
+// ── Sync engine ──────────────────────────────────────────────────────────────
+
+describe('SyncEngine secret scanning', () => {
+  it('block: keeps the file out of the store and flags it', async () => {
+    setMode('block');
+    const tf = insertTrackedFile();
+    await fs.writeFile(path.join(targetPath, '.mcp.json'), MCP_JSON);
+
+    await engine.syncFile(tf, target());
+
+    await expect(fs.access(path.join(storeRepoPath, '.mcp.json'))).rejects.toThrow();
+    expect(syncStatus()).toBe('secret_detected');
+    expect(logActions()).toEqual(['secret_blocked']);
+    expect(events.map((e) => e.type)).toContain('secret_detected');
+
+    // A second pass with the same findings doesn't log again
+    await engine.syncFile({ ...tf, syncStatus: 'secret_detected' }, target());
+    expect(logActions()).toEqual(['secret_blocked']);
+  });
+
+  it('block: syncs once the finding is allowed', async () => {
+    setMode('block');
+    const tf = insertTrackedFile();
+    await fs.writeFile(path.join(targetPath, '.mcp.json'), MCP_JSON);
+    await engine.syncFile(tf, target());
+
+    db.prepare('UPDATE secret_findings SET allowed = 1').run();
+    await engine.syncFile({ ...tf, syncStatus: 'secret_detected' }, target());
+
+    expect(await fs.readFile(path.join(storeRepoPath, '.mcp.json'), 'utf-8')).toBe(MCP_JSON);
+    expect(syncStatus()).toBe('synced');
+  });
+
+  it('redact: stores placeholders and keeps the real value in the target', async () => {
+    setMode('redact');
+    const tf = insertTrackedFile();
+    await fs.writeFile(path.join(targetPath, '.mcp.json'), MCP_JSON);
+
+    await engine.syncFile(tf, target());
+
+    const stored = await fs.readFile(path.join(storeRepoPath, '.mcp.json'), 'utf-8');
+    expect(stored).toContain('[REDACTED:github-token]');
+    expect(stored).not.toContain(GITHUB_TOKEN);
+    expect(await fs.readFile(path.join(targetPath, '.mcp.json'), 'utf-8')).toBe(MCP_JSON);
+    expect(syncStatus()).toBe('synced');
+    expect(logActions()).toContain('secret_redacted');
+
+    // The redacted store copy and the real target count as in sync
+    const logged = logActions().length;
+    await engine.syncFile(tf, target());
+    expect(logActions()).toHaveLength(logged);
+    expect(await fs.readFile(path.join(storeRepoPath, '.mcp.json'), 'utf-8')).toBe(stored);
+  });
+
+  it('does not scan until a mode is picked', async () => {
+    const tf = insertTrackedFile();
+    await fs.writeFile(path.join(targetPath, '.mcp.json'), MCP_JSON);
+
+    await engine.syncFile(tf, target());
+
+    expect(await fs.readFile(path.join(storeRepoPath, '.mcp.json'), 'utf-8')).toBe(MCP_JSON);
+    expect(logActions()).not.toContain('secret_warned');
+    expect(db.prepare('SELECT * FROM secret_findings').all()).toHaveLength(0);
+  });
+
+  it('warn: copies the file as-is and records the finding', async () => {
+    setMode('warn');
+    const tf = insertTrackedFile();
+    await fs.writeFile(path.join(targetPath, '.mcp.json'), MCP_JSON);
+
+    await engine.syncFile(tf, target());
+
+    expect(await fs.readFile(path.join(storeRepoPath, '.mcp.json'), 'utf-8')).toBe(MCP_JSON);
+    expect(logActions()).toContain('secret_warned');
+    const finding = db.prepare('SELECT * FROM secret_findings').get() as Record<string, unknown>;
+    expect(finding).toMatchObject({ rule_id: 'github-token', line: 4, action: 'warned' });
+    expect(JSON.stringify(finding)).not.toContain(GITHUB_TOKEN);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import { getServiceEnabledIgnorePatterns, getServiceEnabledPatterns } from '../../db/index.js';
+
+vi.mock('../store-git.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../store-git.js')>();
+  return {
+    ...actual,
+    queueStoreCommit: vi.fn(),
+  };
+});
+
+import {
+  exportServiceBundle,
+  importServiceBundle,
+  parseServiceBundle,
+  SERVICE_BUNDLE_FORMAT,
+} from '../service-bundles.js';
+import { getUnlinkedStoreServices, readServiceMeta } from '../machines.js';
+import { toPortablePath } from '../service-definitions.js';
+
+let tmpDir: string;
+let db: Database.Database;
+
+const PNG = Buffer.from('89504e470d0a1a0a', 'hex');
+
+const bundle = (services: object[]) => ({ format: SERVICE_BUNDLE_FORMAT, version: 1, services });
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'service-bundles-test-'));
+  config.storePath = path.join(tmpDir, 'store');
+  config.storeReposPath = path.join(config.storePath, 'repos');
+  config.storeServicesPath = path.join(config.storePath, 'services');
+  config.dataDir = config.storePath;
+  config.machineId = 'machine-aaa';
+  config.machineName = 'Test Machine';
+  await fs.mkdir(config.storeServicesPath, { recursive: true });
+
+  db = new Database(':memory:');
+  initSchema(db);
+});
+
+afterEach(async () => {
+  db.close();
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('parseServiceBundle', () => {
+  it('fills in defaults and derives the service type from the name', () => {
+    expect(parseServiceBundle(bundle([{ name: 'My Tool', patterns: ['*.md'] }]))).toEqual([
+      {
+        serviceType: 'custom-my-tool',
+        name: 'My Tool',
+        description: '',
+        defaultPath: null,
+        patterns: ['*.md'],
+        ignorePatterns: [],
+        icon: null,
+      },
+    ]);
+  });
+
+  it('names the first problem', () => {
+    expect(() => parseServiceBundle({ services: [] })).toThrow('Not a service bundle');
+    expect(() => parseServiceBundle({ ...bundle([]), version: 2 })).toThrow(
+      'Unsupported bundle version: 2',
+    );
+    expect(() => parseServiceBundle(bundle([{ name: 'a', patterns: [] }]))).toThrow(
+      'services[0].patterns must be a non-empty list of patterns',
+    );
+    expect(() =>
+      parseServiceBundle(bundle([{ name: 'a', serviceType: 'claude-code', patterns: ['x'] }])),
+    ).toThrow('services[0].serviceType must look like "custom-my-tool"');
+    expect(() =>
+      parseServiceBundle(
+        bundle([{ name: 'a', patterns: ['x'], icon: { mimeType: 'text/html', data: '' } }]),
+      ),
+    ).toThrow(/^services\[0\]\.icon\.mimeType/);
+  });
+});
+
+describe('importServiceBundle', () => {
+  it('registers definitions without linking and skips existing service types', async () => {
+    const entries = parseServiceBundle(
+      bundle([
+        {
+          name: 'My Tool',
+          description: 'Prompts',
+          defaultPath: '~/.my-tool',
+          patterns: ['prompts/**'],
+          ignorePatterns: ['*.log'],
+          icon: { mimeType: 'image/png', data: PNG.toString('base64') },
+        },
+        { name: 'My Tool', patterns: ['other/**'] },
+      ]),
+    );
+    const results = await importServiceBundle(db, entries, { link: false });
+
+    expect(results.map((r) => [r.status, r.reason])).toEqual([
+      ['registered', null],
+      ['skipped', 'Listed twice in the bundle'],
+    ]);
+    expect(readServiceMeta('custom-my-tool')).toEqual({
+      name: 'My Tool',
+      description: 'Prompts',
+      defaultPath: '~/.my-tool',
+      patterns: ['prompts/**'],
+      ignorePatterns: ['*.log'],
+    });
+    expect(
+      await fs.readFile(path.join(config.storeServicesPath, 'custom-my-tool', 'icon.png')),
+    ).toEqual(PNG);
+    expect(await getUnlinkedStoreServices(db)).toMatchObject([
+      {
+        serviceType: 'custom-my-tool',
+        serviceName: 'My Tool',
+        defaultPath: path.join(os.homedir(), '.my-tool'),
+      },
+    ]);
+
+    const again = await importServiceBundle(db, entries.slice(0, 1), { link: false });
+    expect(again[0]).toMatchObject({
+      status: 'skipped',
+      reason: 'A service of this type already exists',
+    });
+  });
+
+  it('links definitions whose default path exists and exports them back', async () => {
+    const localPath = path.join(tmpDir, 'tool');
+    await fs.mkdir(path.join(localPath, 'prompts'), { recursive: true });
+    await fs.writeFile(path.join(localPath, 'prompts', 'a.md'), '# A\n');
+    await fs.writeFile(path.join(localPath, 'prompts', 'debug.log'), 'x\n');
+
+    const results = await importServiceBundle(
+      db,
+      parseServiceBundle(
+        bundle([
+          {
+            name: 'My Tool',
+            defaultPath: localPath,
+            patterns: ['prompts/**'],
+            ignorePatterns: ['*.log'],
+          },
+          { name: 'Missing', defaultPath: path.join(tmpDir, 'nope'), patterns: ['*'] },
+        ]),
+      ),
+      { link: true },
+    );
+
+    expect(results[0]).toMatchObject({ status: 'linked', reason: null });
+    expect(results[1]).toMatchObject({
+      status: 'registered',
+      reason: `Path does not exist: ${path.join(tmpDir, 'nope')}`,
+    });
+    const serviceId = results[0].serviceId!;
+    expect(getServiceEnabledPatterns(db, serviceId, [])).toEqual(['prompts/**']);
+    expect(getServiceEnabledIgnorePatterns(db, serviceId)).toContain('*.log');
+    const tracked = db
+      .prepare('SELECT relative_path FROM tracked_files WHERE service_config_id = ?')
+      .all(serviceId);
+    expect(tracked).toEqual([{ relative_path: 'prompts/a.md' }]);
+
+    const exported = await exportServiceBundle(db);
+    expect(exported.services).toEqual([
+      {
+        serviceType: 'custom-my-tool',
+        name: 'My Tool',
+        description: '',
+        defaultPath: toPortablePath(localPath),
+        patterns: ['prompts/**'],
+        ignorePatterns: ['*.log'],
+        icon: null,
+      },
+    ]);
+    expect(parseServiceBundle(exported)).toEqual(exported.services);
+  });
+});
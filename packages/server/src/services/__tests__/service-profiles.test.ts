@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { SyncEngine } from '../sync-engine.js';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import { mapRow } from '../../db/index.js';
+import type { ServiceConfig } from '../../types/index.js';
+import {
+  createServiceProfile,
+  deleteServiceProfile,
+  getActiveProfile,
+  listServiceProfiles,
+  switchServiceProfile,
+} from '../service-profiles.js';
+
+vi.mock('../store-git.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../store-git.js')>();
+  return {
+    ...actual,
+    queueStoreCommit: vi.fn(),
+    ensureStoreCommitted: vi.fn().mockResolvedValue([]),
+    getCommittedContent: vi.fn(async () => null),
+    getHeadCommitHash: vi.fn().mockResolvedValue('head'),
+  };
+});
+
+vi.mock('../file-watcher.js', async () => {
+  const { EventEmitter } = await import('node:events');
+  class MockFileWatcherService extends EventEmitter {
+    markSelfChange = vi.fn();
+    stopAll = vi.fn().mockResolvedValue(undefined);
+    startServiceStoreWatcher = vi.fn().mockResolvedValue(undefined);
+    startServiceTargetWatcher = vi.fn().mockResolvedValue(undefined);
+    stopServiceTargetWatcher = vi.fn().mockResolvedValue(undefined);
+  }
+  return { FileWatcherService: MockFileWatcherService };
+});
+
+let tmpDir: string;
+let db: Database.Database;
+let engine: SyncEngine;
+
+const targetDir = () => path.join(tmpDir, 'home', '.claude');
+const storeDir = () => path.join(config.storeServicesPath, 'claude-code');
+const getService = () =>
+  mapRow<ServiceConfig>(db.prepare("SELECT * FROM service_configs WHERE id = 'svc'").get());
+
+async function write(root: string, relativePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(path.join(root, relativePath)), { recursive: true });
+  await fs.writeFile(path.join(root, relativePath), content, 'utf-8');
+}
+
+const read = (root: string, relativePath: string) =>
+  fs.readFile(path.join(root, relativePath), 'utf-8').catch(() => null);
+
+function track(relativePath: string): void {
+  db.prepare(
+    "INSERT INTO tracked_files (id, service_config_id, relative_path, sync_status) VALUES (?, 'svc', ?, 'pending_to_store')",
+  ).run(`tf-${relativePath}`, relativePath);
+}
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'service-profiles-test-'));
+  config.storePath = path.join(tmpDir, 'store');
+  config.storeServicesPath = path.join(config.storePath, 'services');
+  config.storeProfilesPath = path.join(config.storePath, 'profiles');
+  config.localSecretsPath = path.join(tmpDir, 'home', '.ai-sync', 'secrets.json');
+
+  db = new Database(':memory:');
+  initSchema(db);
+  await fs.mkdir(targetDir(), { recursive: true });
+  await fs.mkdir(storeDir(), { recursive: true });
+  db.prepare(
+    `INSERT INTO service_configs (id, service_type, name, local_path, store_path)
+     VALUES ('svc', 'claude-code', 'Claude Code', ?, 'services/claude-code')`,
+  ).run(targetDir());
+  engine = new SyncEngine(db);
+
+  await write(targetDir(), 'CLAUDE.md', '# Rules\n');
+  await write(targetDir(), 'settings.json', '{}\n');
+  track('CLAUDE.md');
+  track('settings.json');
+  await engine.syncService('svc');
+});
+
+afterEach(async () => {
+  db.close();
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('service profiles', () => {
+  it('saves the current files as a new profile', async () => {
+    expect(await createServiceProfile(db, getService(), 'minimal')).toEqual({
+      name: 'minimal',
+      active: false,
+      fileCount: 2,
+    });
+    expect(
+      await read(path.join(config.storeProfilesPath, 'claude-code', 'minimal'), 'CLAUDE.md'),
+    ).toBe('# Rules\n');
+    expect(await listServiceProfiles(db, getService())).toEqual({
+      active: 'default',
+      profiles: [
+        { name: 'default', active: true, fileCount: 2 },
+        { name: 'minimal', active: false, fileCount: 2 },
+      ],
+    });
+
+    await expect(createServiceProfile(db, getService(), 'default')).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    await expect(createServiceProfile(db, getService(), 'Full MCP')).rejects.toMatchObject({
+      statusCode: 400,
+    });
+  });
+
+  it('switches profiles, saving the current state and keeping untracked files', async () => {
+    await createServiceProfile(db, getService(), 'full');
+    await switchServiceProfile(db, engine, getService(), 'full');
+    expect(getActiveProfile(getService())).toBe('full');
+
+    // Edited and added while "full" is active, not synced yet
+    await write(targetDir(), 'CLAUDE.md', '# Full\n');
+    await write(targetDir(), '.mcp.json', '{"mcpServers":{}}\n');
+    track('.mcp.json');
+    await write(targetDir(), 'notes.txt', 'untracked\n');
+
+    expect(await switchServiceProfile(db, engine, getService(), 'default')).toEqual({ synced: 2 });
+    expect(getActiveProfile(getService())).toBe('default');
+    expect(await read(targetDir(), 'CLAUDE.md')).toBe('# Rules\n');
+    expect(await read(targetDir(), '.mcp.json')).toBeNull();
+    expect(await read(storeDir(), '.mcp.json')).toBeNull();
+    expect(await read(targetDir(), 'notes.txt')).toBe('untracked\n');
+    const saved = path.join(config.storeProfilesPath, 'claude-code', 'full');
+    expect(await read(saved, 'CLAUDE.md')).toBe('# Full\n');
+    expect(await read(saved, '.mcp.json')).toBe('{"mcpServers":{}}\n');
+    expect(getService().status).toBe('active');
+
+    await switchServiceProfile(db, engine, getService(), 'full');
+    expect(await read(targetDir(), 'CLAUDE.md')).toBe('# Full\n');
+    expect(await read(targetDir(), '.mcp.json')).toBe('{"mcpServers":{}}\n');
+    const rows = db
+      .prepare('SELECT relative_path, sync_status FROM tracked_files ORDER BY relative_path')
+      .all();
+    expect(rows).toEqual([
+      { relative_path: '.mcp.json', sync_status: 'synced' },
+      { relative_path: 'CLAUDE.md', sync_status: 'synced' },
+      { relative_path: 'settings.json', sync_status: 'synced' },
+    ]);
+  });
+
+  it('refuses switches it cannot do safely', async () => {
+    await createServiceProfile(db, getService(), 'minimal');
+
+    await expect(switchServiceProfile(db, engine, getService(), 'default')).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    await expect(switchServiceProfile(db, engine, getService(), 'nope')).rejects.toMatchObject({
+      statusCode: 404,
+    });
+    await expect(deleteServiceProfile(getService(), 'default')).rejects.toMatchObject({
+      statusCode: 409,
+    });
+
+    // A conflict the sync before the switch couldn't settle
+    vi.spyOn(engine, 'syncService').mockResolvedValue({ synced: 0, conflicts: 1, errors: 0 });
+    db.prepare("UPDATE tracked_files SET sync_status = 'conflict' WHERE id = 'tf-CLAUDE.md'").run();
+    await expect(switchServiceProfile(db, engine, getService(), 'minimal')).rejects.toThrow(
+      'Resolve the conflicts of Claude Code before switching profiles',
+    );
+    expect(getActiveProfile(getService())).toBe('default');
+    expect(await read(targetDir(), 'CLAUDE.md')).toBe('# Rules\n');
+
+    await deleteServiceProfile(getService(), 'minimal');
+    expect((await listServiceProfiles(db, getService())).profiles).toHaveLength(1);
+  });
+});
@@ -0,0 +1,323 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { SyncEngine } from '../sync-engine.js';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import { mapRow } from '../../db/index.js';
+import type { TrackedFile, SyncTarget } from '../../types/index.js';
+import { queueStoreCommit } from '../store-git.js';
+import {
+  EncryptionKeyMissingError,
+  decodeStoreBytes,
+  decryptBytes,
+  encryptBytes,
+  encryptContent,
+  decryptContent,
+  decryptStoreContent,
+  isEncryptedBinary,
+  isEncryptedContent,
+  shouldEncryptFile,
+  getEncryptionStatus,
+  setEncryptionPassphrase,
+} from '../store-encryption.js';
+
+// ── Mocks ───────────────────────────────────────────────────────────────────
+
+// Keep the key in memory instead of the real ~/.ai-sync/config.json
+vi.mock('../../config.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../config.js')>();
+  return {
+    ...actual,
+    setEncryptionKey: (key: string | null) => {
+      actual.config.encryptionKey = key ?? '';
+    },
+  };
+});
+
+vi.mock('../store-git.js', () => ({
+  queueStoreCommit: vi.fn(),
+  ensureStoreCommitted: vi.fn().mockResolvedValue([]),
+  getCommittedContent: vi.fn(async () => null),
+  getHeadCommitHash: vi.fn().mockResolvedValue('mock-head-hash'),
+  gitMergeFile: vi.fn(async () => ({ content: '', hasConflicts: false })),
+}));
+
+vi.mock('../file-watcher.js', async () => {
+  const { EventEmitter } = await import('node:events');
+  class MockFileWatcherService extends EventEmitter {
+    markSelfChange = vi.fn();
+    stopAll = vi.fn().mockResolvedValue(undefined);
+  }
+  return { FileWatcherService: MockFileWatcherService };
+});
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+const KEY = crypto.randomBytes(32);
+const CONTENT = '# Private notes\n\nDeploy with the staging account.\n';
+const BINARY = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 0]), Buffer.from('staging')]);
+
+let tmpDir: string;
+let targetPath: string;
+let storeRepoPath: string;
+let db: Database.Database;
+let engine: SyncEngine;
+
+const target = (): SyncTarget => ({
+  id: 'repo-1',
+  name: 'test-project',
+  localPath: targetPath,
+  storePath: 'repos/test-project',
+  status: 'active',
+  type: 'repo',
+});
+
+function insertTrackedFile(): TrackedFile {
+  db.prepare(
+    "INSERT INTO tracked_files (id, repo_id, relative_path, sync_status) VALUES ('tf-1', 'repo-1', 'NOTES.md', 'synced')",
+  ).run();
+  return getTrackedFile();
+}
+
+function getTrackedFile(): TrackedFile {
+  return mapRow<TrackedFile>(db.prepare("SELECT * FROM tracked_files WHERE id = 'tf-1'").get())!;
+}
+
+function flagPattern(pattern: string): void {
+  db.prepare('INSERT INTO file_patterns (id, pattern, enabled, encrypt) VALUES (?, ?, 1, 1)').run(
+    crypto.randomUUID(),
+    pattern,
+  );
+}
+
+const readStore = () => fs.readFile(path.join(storeRepoPath, 'NOTES.md'), 'utf-8');
+const readTarget = () => fs.readFile(path.join(targetPath, 'NOTES.md'), 'utf-8');
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'store-encryption-test-'));
+  targetPath = path.join(tmpDir, 'target');
+  config.storePath = path.join(tmpDir, 'store');
+  config.storeReposPath = path.join(tmpDir, 'store', 'repos');
+  config.storeServicesPath = path.join(tmpDir, 'store', 'services');
+  config.localSecretsPath = path.join(tmpDir, 'home', '.ai-sync', 'secrets.json');
+  config.encryptionKey = KEY.toString('base64');
+  storeRepoPath = path.join(config.storeReposPath, 'test-project');
+  await fs.mkdir(targetPath, { recursive: true });
+  await fs.mkdir(storeRepoPath, { recursive: true });
+
+  db = new Database(':memory:');
+  initSchema(db);
+  db.prepare(
+    "INSERT INTO repos (id, name, local_path, store_path) VALUES ('repo-1', 'test-project', ?, 'repos/test-project')",
+  ).run(targetPath);
+
+  engine = new SyncEngine(db);
+});
+
+afterEach(async () => {
+  config.encryptionKey = '';
+  await fs.rm(tmpDir, { recursive: true, force: true });
+  db.close();
+  vi.clearAllMocks();
+});
+
+// ── Content format ───────────────────────────────────────────────────────────
+
+describe('encryptContent', () => {
+  it('round-trips and marks the content as encrypted', () => {
+    const encrypted = encryptContent(CONTENT, KEY);
+    expect(isEncryptedContent(encrypted)).toBe(true);
+    expect(encrypted).not.toContain('staging');
+    expect(decryptContent(encrypted, KEY)).toBe(CONTENT);
+  });
+
+  it('is deterministic for the same content', () => {
+    expect(encryptContent(CONTENT, KEY)).toBe(encryptContent(CONTENT, KEY));
+    expect(encryptContent(CONTENT, KEY)).not.toBe(encryptContent(`${CONTENT}\n`, KEY));
+  });
+
+  it('rejects a wrong key', () => {
+    expect(() => decryptContent(encryptContent(CONTENT, KEY), crypto.randomBytes(32))).toThrow();
+  });
+});
+
+describe('encryptBytes', () => {
+  it('round-trips binary content in its own envelope', () => {
+    const encrypted = Buffer.from(encryptBytes(BINARY, KEY), 'utf-8');
+    expect(isEncryptedBinary(encrypted)).toBe(true);
+    expect(isEncryptedContent(encrypted.toString('utf-8'))).toBe(false);
+    expect(encrypted.includes('staging')).toBe(false);
+    expect(decryptBytes(encrypted, KEY).equals(BINARY)).toBe(true);
+    expect(decodeStoreBytes(encrypted).equals(BINARY)).toBe(true);
+  });
+
+  it('leaves other content to decodeStoreBytes as-is', () => {
+    expect(decodeStoreBytes(BINARY)).toBe(BINARY);
+  });
+});
+
+describe('decryptStoreContent', () => {
+  it('passes plain content through', () => {
+    config.encryptionKey = '';
+    expect(decryptStoreContent(CONTENT)).toBe(CONTENT);
+  });
+
+  it('throws EncryptionKeyMissingError without a key', () => {
+    const encrypted = encryptContent(CONTENT, KEY);
+    config.encryptionKey = '';
+    expect(() => decryptStoreContent(encrypted)).toThrow(EncryptionKeyMissingError);
+  });
+});
+
+describe('shouldEncryptFile', () => {
+  it('matches flagged global patterns for repo files', () => {
+    flagPattern('docs/**');
+    const file = { repoId: 'repo-1', serviceConfigId: null };
+    expect(shouldEncryptFile(db, { ...file, relativePath: 'docs/.private.md' })).toBe(true);
+    expect(shouldEncryptFile(db, { ...file, relativePath: 'CLAUDE.md' })).toBe(false);
+  });
+
+  it('matches flagged service patterns for service files', () => {
+    db.prepare(
+      "INSERT INTO service_configs (id, service_type, name, local_path, store_path) VALUES ('svc-1', 'claude-code', 'Claude Code', '/tmp/x', 'services/claude-code')",
+    ).run();
+    db.prepare(
+      "INSERT INTO service_settings (id, service_config_id, key, value) VALUES ('s1', 'svc-1', 'service_pattern_encrypt:settings.json', 'enabled')",
+    ).run();
+    const file = { repoId: null, serviceConfigId: 'svc-1' };
+    expect(shouldEncryptFile(db, { ...file, relativePath: 'settings.json' })).toBe(true);
+    expect(shouldEncryptFile(db, { ...file, relativePath: 'CLAUDE.md' })).toBe(false);
+  });
+});
+
+describe('setEncryptionPassphrase', () => {
+  it('creates the key file once and verifies the passphrase afterwards', async () => {
+    config.encryptionKey = '';
+    await fs.mkdir(config.storePath, { recursive: true });
+    expect(getEncryptionStatus()).toEqual({ enabled: false, unlocked: false });
+
+    expect(setEncryptionPassphrase('correct horse')).toBe(true);
+    const key = config.encryptionKey;
+    expect(getEncryptionStatus()).toEqual({ enabled: true, unlocked: true });
+
+    // Another machine: same passphrase derives the same key
+    config.encryptionKey = '';
+    expect(() => setEncryptionPassphrase('wrong horse')).toThrow('Incorrect passphrase');
+    expect(setEncryptionPassphrase('correct horse')).toBe(false);
+    expect(config.encryptionKey).toBe(key);
+  });
+});
+
+// ── Sync engine ──────────────────────────────────────────────────────────────
+
+describe('SyncEngine store encryption', () => {
+  it('encrypts the store copy of a flagged file', async () => {
+    flagPattern('NOTES.md');
+    const tf = insertTrackedFile();
+    await fs.writeFile(path.join(targetPath, 'NOTES.md'), CONTENT);
+
+    await engine.syncFile(tf, target());
+
+    const stored = await readStore();
+    expect(isEncryptedContent(stored)).toBe(true);
+    expect(decryptStoreContent(stored)).toBe(CONTENT);
+  });
+
+  it('writes plaintext to the target and stays in sync', async () => {
+    flagPattern('NOTES.md');
+    const tf = insertTrackedFile();
+    const encrypted = encryptContent(CONTENT, KEY);
+    await fs.writeFile(path.join(storeRepoPath, 'NOTES.md'), encrypted);
+
+    await engine.syncFile(tf, target());
+    expect(await readTarget()).toBe(CONTENT);
+
+    await engine.syncFile(getTrackedFile(), target());
+    expect(await readStore()).toBe(encrypted);
+    expect(getTrackedFile().syncStatus).toBe('synced');
+  });
+
+  it('re-encodes the store when the flag is toggled', async () => {
+    const tf = insertTrackedFile();
+    await fs.writeFile(path.join(storeRepoPath, 'NOTES.md'), CONTENT);
+    await fs.writeFile(path.join(targetPath, 'NOTES.md'), CONTENT);
+
+    flagPattern('NOTES.md');
+    await engine.syncFile(tf, target());
+    expect(isEncryptedContent(await readStore())).toBe(true);
+
+    db.prepare('UPDATE file_patterns SET encrypt = 0').run();
+    await engine.syncFile(getTrackedFile(), target());
+    expect(await readStore()).toBe(CONTENT);
+    expect(await readTarget()).toBe(CONTENT);
+  });
+
+  it('marks the file locked when this machine has no key', async () => {
+    const tf = insertTrackedFile();
+    await fs.writeFile(path.join(storeRepoPath, 'NOTES.md'), encryptContent(CONTENT, KEY));
+    config.encryptionKey = '';
+
+    await engine.syncFile(tf, target());
+
+    expect(getTrackedFile().syncStatus).toBe('locked');
+    await expect(fs.access(path.join(targetPath, 'NOTES.md'))).rejects.toThrow();
+  });
+
+  describe('binary files', () => {
+    const insertBinaryFile = (): TrackedFile => {
+      db.prepare(
+        "INSERT INTO tracked_files (id, repo_id, relative_path, sync_status) VALUES ('tf-bin', 'repo-1', 'logo.png', 'synced')",
+      ).run();
+      return getBinaryFile();
+    };
+    const getBinaryFile = () =>
+      mapRow<TrackedFile>(db.prepare("SELECT * FROM tracked_files WHERE id = 'tf-bin'").get())!;
+    const storeFile = () => path.join(storeRepoPath, 'logo.png');
+    const targetFile = () => path.join(targetPath, 'logo.png');
+
+    it('commits an encrypted store copy of a flagged binary file', async () => {
+      flagPattern('*.png');
+      const tf = insertBinaryFile();
+      await fs.writeFile(targetFile(), BINARY);
+
+      await engine.syncFile(tf, target());
+
+      const stored = await fs.readFile(storeFile());
+      expect(isEncryptedBinary(stored)).toBe(true);
+      expect(stored.includes('staging')).toBe(false);
+      expect(decodeStoreBytes(stored).equals(BINARY)).toBe(true);
+      expect(queueStoreCommit).toHaveBeenCalledWith(expect.stringContaining('logo.png'));
+
+      // Checksums are of the plain bytes, so the next pass finds it in sync
+      await engine.syncFile(getBinaryFile(), target());
+      expect(getBinaryFile().syncStatus).toBe('synced');
+      expect((await fs.readFile(storeFile())).equals(stored)).toBe(true);
+    });
+
+    it('writes the decrypted bytes to the target', async () => {
+      flagPattern('*.png');
+      const tf = insertBinaryFile();
+      await fs.writeFile(storeFile(), encryptBytes(BINARY, KEY));
+
+      await engine.syncFile(tf, target());
+
+      expect((await fs.readFile(targetFile())).equals(BINARY)).toBe(true);
+    });
+
+    it('encrypts a stored binary file once its pattern is flagged', async () => {
+      const tf = insertBinaryFile();
+      await fs.writeFile(storeFile(), BINARY);
+      await fs.writeFile(targetFile(), BINARY);
+
+      flagPattern('*.png');
+      await engine.syncFile(tf, target());
+
+      expect(isEncryptedBinary(await fs.readFile(storeFile()))).toBe(true);
+      expect((await fs.readFile(targetFile())).equals(BINARY)).toBe(true);
+    });
+  });
+});
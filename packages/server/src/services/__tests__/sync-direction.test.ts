@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { SyncEngine } from '../sync-engine.js';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import { mapRow } from '../../db/index.js';
+import type { TrackedFile } from '../../types/index.js';
+import { getSyncDirection, setSyncDirection } from '../sync-direction.js';
+import { getTrashItem, listTrashItems } from '../trash.js';
+
+// ── Mocks ───────────────────────────────────────────────────────────────────
+
+vi.mock('../store-git.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../store-git.js')>();
+  return {
+    ...actual,
+    queueStoreCommit: vi.fn(),
+    ensureStoreCommitted: vi.fn().mockResolvedValue([]),
+    getCommittedContent: vi.fn(async () => null),
+    getHeadCommitHash: vi.fn().mockResolvedValue('head'),
+  };
+});
+
+vi.mock('../file-watcher.js', async () => {
+  const { EventEmitter } = await import('node:events');
+  class MockFileWatcherService extends EventEmitter {
+    markSelfChange = vi.fn();
+    stopAll = vi.fn().mockResolvedValue(undefined);
+  }
+  return { FileWatcherService: MockFileWatcherService };
+});
+
+// ── Setup ───────────────────────────────────────────────────────────────────
+
+let tmpDir: string;
+let db: Database.Database;
+let engine: SyncEngine;
+
+const repo = { id: 'web', type: 'repo' as const };
+const repoDir = () => path.join(tmpDir, 'web');
+const storeDir = () => path.join(config.storeReposPath, 'web');
+const getFile = (relativePath: string) =>
+  mapRow<TrackedFile>(
+    db.prepare('SELECT * FROM tracked_files WHERE relative_path = ?').get(relativePath),
+  );
+const pendingConflicts = () =>
+  (
+    db.prepare("SELECT COUNT(*) AS n FROM conflicts WHERE status = 'pending'").get() as {
+      n: number;
+    }
+  ).n;
+
+async function write(root: string, relativePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(path.join(root, relativePath)), { recursive: true });
+  await fs.writeFile(path.join(root, relativePath), content, 'utf-8');
+}
+
+const read = (root: string, relativePath: string) =>
+  fs.readFile(path.join(root, relativePath), 'utf-8');
+
+function track(relativePath: string): void {
+  db.prepare(
+    "INSERT INTO tracked_files (id, repo_id, relative_path, sync_status) VALUES (?, 'web', ?, 'pending_to_store')",
+  ).run(`tf-${relativePath}`, relativePath);
+}
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sync-direction-test-'));
+  config.storePath = path.join(tmpDir, 'store');
+  config.storeReposPath = path.join(tmpDir, 'store', 'repos');
+  config.localSecretsPath = path.join(tmpDir, 'home', '.ai-sync', 'secrets.json');
+
+  db = new Database(':memory:');
+  initSchema(db);
+  await fs.mkdir(repoDir(), { recursive: true });
+  await fs.mkdir(storeDir(), { recursive: true });
+  db.prepare(
+    "INSERT INTO repos (id, name, local_path, store_path) VALUES ('web', 'web', ?, 'repos/web')",
+  ).run(repoDir());
+  engine = new SyncEngine(db);
+
+  await write(repoDir(), 'CLAUDE.md', '# Rules\n');
+  track('CLAUDE.md');
+  await engine.syncRepo('web');
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+  db.close();
+  vi.clearAllMocks();
+});
+
+describe('sync direction setting', () => {
+  it('defaults to bidirectional and only stores overrides', () => {
+    expect(getSyncDirection(db, repo)).toBe('bidirectional');
+    setSyncDirection(db, repo, 'store_to_target');
+    expect(getSyncDirection(db, repo)).toBe('store_to_target');
+    setSyncDirection(db, repo, 'bidirectional');
+    expect(db.prepare('SELECT COUNT(*) AS n FROM repo_settings').get()).toEqual({ n: 0 });
+  });
+});
+
+describe('store to target (mirror)', () => {
+  beforeEach(() => setSyncDirection(db, repo, 'store_to_target'));
+
+  it('reverts target edits instead of taking them into the store', async () => {
+    await write(repoDir(), 'CLAUDE.md', '# Rules\nLocal edit\n');
+    await engine.syncRepo('web');
+
+    expect(await read(repoDir(), 'CLAUDE.md')).toBe('# Rules\n');
+    expect(await read(storeDir(), 'CLAUDE.md')).toBe('# Rules\n');
+    expect(getFile('CLAUDE.md').syncStatus).toBe('synced');
+    const log = db.prepare("SELECT * FROM sync_log WHERE action = 'target_reverted'").all();
+    expect(log).toHaveLength(1);
+  });
+
+  it('copies store changes without a conflict when the target changed too', async () => {
+    await write(storeDir(), 'CLAUDE.md', '# Rules\nFrom the store\n');
+    await write(repoDir(), 'CLAUDE.md', '# Rules\nLocal edit\n');
+    await engine.syncRepo('web');
+
+    expect(await read(repoDir(), 'CLAUDE.md')).toBe('# Rules\nFrom the store\n');
+    expect(pendingConflicts()).toBe(0);
+  });
+
+  it('holds new target files and deletes files deleted in the store', async () => {
+    await write(repoDir(), 'AGENTS.md', '# Agents\n');
+    track('AGENTS.md');
+    await fs.rm(path.join(storeDir(), 'CLAUDE.md'));
+    await engine.syncRepo('web');
+
+    expect(getFile('AGENTS.md').syncStatus).toBe('held');
+    await expect(fs.access(path.join(storeDir(), 'AGENTS.md'))).rejects.toThrow();
+    await expect(fs.access(path.join(repoDir(), 'CLAUDE.md'))).rejects.toThrow();
+    expect(getFile('CLAUDE.md')).toBeUndefined();
+  });
+
+  it('keeps the target copy of a file deleted in the store in the trash', async () => {
+    await write(repoDir(), 'CLAUDE.md', '# Rules\nLocal edit\n');
+    await fs.rm(path.join(storeDir(), 'CLAUDE.md'));
+    await engine.syncRepo('web');
+
+    await expect(fs.access(path.join(repoDir(), 'CLAUDE.md'))).rejects.toThrow();
+    const [item] = listTrashItems(db);
+    expect(item).toMatchObject({
+      origin: 'file_deleted',
+      relativePath: 'CLAUDE.md',
+      source: 'target',
+    });
+    expect(getTrashItem(db, item.id)!.content.toString()).toBe('# Rules\nLocal edit\n');
+  });
+});
+
+describe('target to store (backup)', () => {
+  beforeEach(() => setSyncDirection(db, repo, 'target_to_store'));
+
+  it('overwrites the store with target edits', async () => {
+    await write(storeDir(), 'CLAUDE.md', '# Rules\nFrom the store\n');
+    await engine.syncRepo('web');
+    // The store changed elsewhere and the target didn't: left alone
+    expect(await read(repoDir(), 'CLAUDE.md')).toBe('# Rules\n');
+    expect(getFile('CLAUDE.md').syncStatus).toBe('held');
+
+    await write(repoDir(), 'CLAUDE.md', '# Rules\nLocal edit\n');
+    await engine.syncRepo('web');
+    expect(await read(storeDir(), 'CLAUDE.md')).toBe('# Rules\nLocal edit\n');
+    expect(getFile('CLAUDE.md').syncStatus).toBe('synced');
+    expect(pendingConflicts()).toBe(0);
+  });
+
+  it('keeps the store copy of a file deleted in the target in the trash', async () => {
+    await fs.rm(path.join(repoDir(), 'CLAUDE.md'));
+    await engine.syncRepo('web');
+
+    await expect(fs.access(path.join(storeDir(), 'CLAUDE.md'))).rejects.toThrow();
+    expect(getFile('CLAUDE.md')).toBeUndefined();
+    const [item] = listTrashItems(db);
+    expect(item).toMatchObject({
+      origin: 'file_deleted',
+      relativePath: 'CLAUDE.md',
+      source: 'store',
+    });
+    expect(getTrashItem(db, item.id)!.content.toString()).toBe('# Rules\n');
+  });
+
+  it('never writes store-only files to the target', async () => {
+    await write(storeDir(), 'AGENTS.md', '# Agents\n');
+    db.prepare(
+      "INSERT INTO tracked_files (id, repo_id, relative_path, sync_status) VALUES ('tf-agents', 'web', 'AGENTS.md', 'pending_to_target')",
+    ).run();
+    await engine.syncRepo('web');
+
+    await expect(fs.access(path.join(repoDir(), 'AGENTS.md'))).rejects.toThrow();
+    expect(getFile('AGENTS.md').syncStatus).toBe('held');
+  });
+
+  it('syncs symlinks from the target only', async () => {
+    await fs.symlink('CLAUDE.md', path.join(repoDir(), 'AGENTS.md'));
+    track('AGENTS.md');
+    await engine.syncRepo('web');
+    expect(await fs.readlink(path.join(storeDir(), 'AGENTS.md'))).toBe('CLAUDE.md');
+
+    await fs.rm(path.join(storeDir(), 'AGENTS.md'));
+    await fs.symlink('GEMINI.md', path.join(storeDir(), 'AGENTS.md'));
+    await engine.syncRepo('web');
+    expect(await fs.readlink(path.join(repoDir(), 'AGENTS.md'))).toBe('CLAUDE.md');
+    expect(getFile('AGENTS.md').syncStatus).toBe('held');
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { SyncEngine } from '../sync-engine.js';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import { contentChecksum } from '../checksum.js';
+import { setSyncDirection } from '../sync-direction.js';
+import { getCommittedContent } from '../store-git.js';
+import { setFileLink } from '../linked-files.js';
+import { variantPath } from '../machine-variants.js';
+
+// ── Mocks ───────────────────────────────────────────────────────────────────
+
+vi.mock('../store-git.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../store-git.js')>();
+  return {
+    ...actual,
+    queueStoreCommit: vi.fn(),
+    ensureStoreCommitted: vi.fn().mockResolvedValue([]),
+    getCommittedContent: vi.fn(async () => null),
+    getHeadCommitHash: vi.fn().mockResolvedValue('head'),
+  };
+});
+
+vi.mock('../file-watcher.js', async () => {
+  const { EventEmitter } = await import('node:events');
+  class MockFileWatcherService extends EventEmitter {
+    markSelfChange = vi.fn();
+    stopAll = vi.fn().mockResolvedValue(undefined);
+  }
+  return { FileWatcherService: MockFileWatcherService };
+});
+
+// ── Setup ───────────────────────────────────────────────────────────────────
+
+const BASE = '# Rules\n\n- One\n';
+
+let tmpDir: string;
+let db: Database.Database;
+let engine: SyncEngine;
+
+const repoDir = () => path.join(tmpDir, 'web');
+const storeDir = () => path.join(config.storeReposPath, 'web');
+
+async function write(root: string, relativePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(path.join(root, relativePath)), { recursive: true });
+  await fs.writeFile(path.join(root, relativePath), content, 'utf-8');
+}
+
+const read = (root: string, relativePath: string) =>
+  fs.readFile(path.join(root, relativePath), 'utf-8');
+
+/** A file last synced with BASE content on both sides */
+function trackSynced(relativePath: string): void {
+  const checksum = contentChecksum(BASE);
+  db.prepare(
+    `INSERT INTO tracked_files (id, repo_id, relative_path, store_checksum, target_checksum, sync_status, last_synced_at)
+     VALUES (?, 'web', ?, ?, ?, 'synced', datetime('now'))`,
+  ).run(relativePath, relativePath, checksum, checksum);
+}
+
+async function actions(): Promise<Record<string, string>> {
+  const plan = await engine.planRepo('web');
+  return Object.fromEntries(plan.entries.map((e) => [e.relativePath, e.action]));
+}
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sync-plan-test-'));
+  config.storePath = path.join(tmpDir, 'store');
+  config.storeReposPath = path.join(tmpDir, 'store', 'repos');
+  config.storeSharedPath = path.join(tmpDir, 'store', 'shared');
+  config.localSecretsPath = path.join(tmpDir, 'home', '.ai-sync', 'secrets.json');
+  config.machineId = 'laptop';
+
+  db = new Database(':memory:');
+  initSchema(db);
+  await fs.mkdir(repoDir(), { recursive: true });
+  await fs.mkdir(storeDir(), { recursive: true });
+  db.prepare(
+    "INSERT INTO repos (id, name, local_path, store_path) VALUES ('web', 'web', ?, 'repos/web')",
+  ).run(repoDir());
+  engine = new SyncEngine(db);
+  vi.mocked(getCommittedContent).mockResolvedValue(BASE);
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+  db.close();
+  vi.clearAllMocks();
+});
+
+describe('sync plan', () => {
+  it('lists what a sync would do without touching disk or the DB', async () => {
+    for (const file of ['CLAUDE.md', 'AGENTS.md', 'GEMINI.md', 'notes.md']) {
+      await write(storeDir(), file, BASE);
+      await write(repoDir(), file, BASE);
+      trackSynced(file);
+    }
+    trackSynced('gone.md');
+    await write(repoDir(), 'CLAUDE.md', `${BASE}- Local\n`);
+    await write(storeDir(), 'AGENTS.md', `${BASE}- Remote\n`);
+    await write(storeDir(), 'GEMINI.md', BASE.replace('One', 'Store'));
+    await write(repoDir(), 'GEMINI.md', BASE.replace('One', 'Target'));
+    await fs.rm(path.join(repoDir(), 'notes.md'));
+    const before = db.prepare('SELECT * FROM tracked_files ORDER BY id').all();
+
+    expect(await actions()).toEqual({
+      'CLAUDE.md': 'copy_to_store',
+      'AGENTS.md': 'copy_to_target',
+      'GEMINI.md': 'conflict',
+      'notes.md': 'delete_conflict',
+      'gone.md': 'untrack',
+    });
+    expect(await read(storeDir(), 'CLAUDE.md')).toBe(BASE);
+    expect(db.prepare('SELECT * FROM tracked_files ORDER BY id').all()).toEqual(before);
+    expect(db.prepare('SELECT COUNT(*) AS n FROM conflicts').get()).toEqual({ n: 0 });
+    expect(db.prepare('SELECT COUNT(*) AS n FROM sync_log').get()).toEqual({ n: 0 });
+  });
+
+  it('shows the diff of the side the action writes', async () => {
+    const base = 'one\ntwo\nthree\nfour\nfive\n';
+    vi.mocked(getCommittedContent).mockResolvedValue(base);
+    await write(storeDir(), 'rules.txt', base.replace('five', 'FIVE'));
+    await write(repoDir(), 'rules.txt', base.replace('one', 'ONE'));
+    db.prepare(
+      "INSERT INTO tracked_files (id, repo_id, relative_path, sync_status) VALUES ('rules', 'web', 'rules.txt', 'synced')",
+    ).run();
+
+    const [entry] = (await engine.planRepo('web')).entries;
+    expect(entry.action).toBe('merge');
+    expect(entry.diff).toContain('\n+FIVE');
+    expect(entry.diff).not.toContain('ONE\n+');
+  });
+
+  it('follows the sync direction', async () => {
+    await write(storeDir(), 'CLAUDE.md', BASE);
+    await write(repoDir(), 'CLAUDE.md', `${BASE}- Local\n`);
+    trackSynced('CLAUDE.md');
+    setSyncDirection(db, { id: 'web', type: 'repo' }, 'store_to_target');
+
+    const [entry] = (await engine.planRepo('web')).entries;
+    expect(entry.action).toBe('copy_to_target');
+    expect(entry.diff).toContain('\n-- Local');
+  });
+
+  it('leaves files already in sync out of the plan', async () => {
+    await write(storeDir(), 'CLAUDE.md', BASE);
+    await write(repoDir(), 'CLAUDE.md', BASE);
+    trackSynced('CLAUDE.md');
+
+    expect((await engine.planRepo('web')).entries).toEqual([]);
+  });
+});
+
+describe('files synced by more than their content', () => {
+  it('lists a rename without carrying it over', async () => {
+    await write(storeDir(), 'old.md', BASE);
+    await write(repoDir(), 'new.md', BASE);
+    trackSynced('old.md');
+    db.prepare(
+      "INSERT INTO tracked_files (id, repo_id, relative_path, sync_status) VALUES ('new.md', 'web', 'new.md', 'pending_to_store')",
+    ).run();
+
+    expect(await actions()).toEqual({ 'old.md': 'rename', 'new.md': 'rename' });
+    expect(await read(storeDir(), 'old.md')).toBe(BASE);
+    expect(db.prepare('SELECT COUNT(*) AS n FROM tracked_files').get()).toEqual({ n: 2 });
+  });
+
+  it('marks a machine variant that would change as not previewable', async () => {
+    await write(storeDir(), 'CLAUDE.md', BASE);
+    await write(storeDir(), variantPath('CLAUDE.md', 'laptop', 'file'), '# Laptop\n');
+    await write(repoDir(), 'CLAUDE.md', BASE);
+    trackSynced('CLAUDE.md');
+    expect(await actions()).toEqual({ 'CLAUDE.md': 'not_previewable' });
+
+    await write(repoDir(), 'CLAUDE.md', '# Laptop\n');
+    expect(await actions()).toEqual({});
+  });
+
+  it('marks a file its linked source would change as not previewable', async () => {
+    await write(storeDir(), 'CLAUDE.md', BASE);
+    await write(repoDir(), 'CLAUDE.md', BASE);
+    trackSynced('CLAUDE.md');
+    setFileLink(db, 'web', 'CLAUDE.md', 'rules.md');
+    await write(config.storeSharedPath, 'rules.md', BASE);
+    expect(await actions()).toEqual({});
+
+    await write(config.storeSharedPath, 'rules.md', `${BASE}- Shared\n`);
+    expect(await actions()).toEqual({ 'CLAUDE.md': 'not_previewable' });
+  });
+});
+
+describe('applying part of a plan', () => {
+  it('syncs only the selected files', async () => {
+    for (const file of ['CLAUDE.md', 'AGENTS.md']) {
+      await write(storeDir(), file, BASE);
+      await write(repoDir(), file, `${BASE}- Local\n`);
+      trackSynced(file);
+    }
+    await engine.syncRepo('web', { fileIds: ['CLAUDE.md'] });
+
+    expect(await read(storeDir(), 'CLAUDE.md')).toBe(`${BASE}- Local\n`);
+    expect(await read(storeDir(), 'AGENTS.md')).toBe(BASE);
+    expect(await actions()).toEqual({ 'AGENTS.md': 'copy_to_store' });
+  });
+});
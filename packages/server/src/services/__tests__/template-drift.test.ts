@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { SyncEngine } from '../sync-engine.js';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import { mapRow } from '../../db/index.js';
+import type { Repo, TrackedFile } from '../../types/index.js';
+import { createTemplate, getRepoTemplate, setRepoTemplate } from '../templates.js';
+import { getTemplateDrift, updateRepoFromTemplate } from '../template-drift.js';
+
+// ── Mocks ───────────────────────────────────────────────────────────────────
+
+// Store history: commit hash → store-relative path → content
+const commits: Record<string, Record<string, string>> = {};
+
+vi.mock('../store-git.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../store-git.js')>();
+  return {
+    ...actual,
+    queueStoreCommit: vi.fn(),
+    ensureStoreCommitted: vi.fn().mockResolvedValue([]),
+    getCommittedContent: vi.fn(async () => null),
+    getHeadCommitHash: vi.fn().mockResolvedValue('head'),
+    getCommittedContentAt: vi.fn(async (file: string, commit: string) => {
+      return commits[commit]?.[file] ?? null;
+    }),
+    listCommittedFiles: vi.fn(async (dir: string, commit: string) =>
+      Object.keys(commits[commit] ?? {})
+        .filter((file) => file.startsWith(`${dir}/`))
+        .map((file) => file.slice(dir.length + 1)),
+    ),
+  };
+});
+
+vi.mock('../file-watcher.js', async () => {
+  const { EventEmitter } = await import('node:events');
+  class MockFileWatcherService extends EventEmitter {
+    markSelfChange = vi.fn();
+    stopAll = vi.fn().mockResolvedValue(undefined);
+  }
+  return { FileWatcherService: MockFileWatcherService };
+});
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+const SEED = '# {{repo.name}}\n\nStyle: tabs\n\nTests: vitest\n';
+
+let tmpDir: string;
+let targetPath: string;
+let storeRepoPath: string;
+let db: Database.Database;
+let engine: SyncEngine;
+
+const getRepo = () => mapRow<Repo>(db.prepare("SELECT * FROM repos WHERE id = 'repo-1'").get())!;
+const getTrackedFile = (file: string) =>
+  mapRow<TrackedFile>(db.prepare('SELECT * FROM tracked_files WHERE relative_path = ?').get(file))!;
+const writeTemplate = (file: string, content: string) =>
+  fs.writeFile(path.join(config.storeTemplatesPath, 'base', file), content);
+const readTarget = (file: string) => fs.readFile(path.join(targetPath, file), 'utf-8');
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'template-drift-test-'));
+  targetPath = path.join(tmpDir, 'target');
+  config.storePath = path.join(tmpDir, 'store');
+  config.storeReposPath = path.join(tmpDir, 'store', 'repos');
+  config.storeServicesPath = path.join(tmpDir, 'store', 'services');
+  config.storeTemplatesPath = path.join(tmpDir, 'store', 'templates');
+  config.localSecretsPath = path.join(tmpDir, 'home', '.ai-sync', 'secrets.json');
+  storeRepoPath = path.join(config.storeReposPath, 'my-app');
+  await fs.mkdir(targetPath, { recursive: true });
+  await fs.mkdir(storeRepoPath, { recursive: true });
+
+  db = new Database(':memory:');
+  initSchema(db);
+  db.prepare(
+    "INSERT INTO repos (id, name, local_path, store_path) VALUES ('repo-1', 'my-app', ?, 'repos/my-app')",
+  ).run(targetPath);
+  engine = new SyncEngine(db);
+
+  // The repo was seeded from "base" at commit seed-1
+  await createTemplate({ name: 'base' });
+  await writeTemplate('CLAUDE.md', SEED);
+  commits['seed-1'] = { 'templates/base/CLAUDE.md': SEED };
+  setRepoTemplate(db, 'repo-1', { name: 'base', commit: 'seed-1' });
+
+  await fs.writeFile(
+    path.join(storeRepoPath, 'CLAUDE.md'),
+    '# my-app\n\nStyle: tabs\n\nTests: vitest\n',
+  );
+  db.prepare(
+    "INSERT INTO tracked_files (id, repo_id, relative_path, sync_status) VALUES ('tf-1', 'repo-1', 'CLAUDE.md', 'synced')",
+  ).run();
+  await engine.syncFile(getTrackedFile('CLAUDE.md'), {
+    id: 'repo-1',
+    name: 'my-app',
+    localPath: targetPath,
+    storePath: 'repos/my-app',
+    status: 'active',
+    type: 'repo',
+  });
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+  db.close();
+  vi.clearAllMocks();
+});
+
+// ── Tests ────────────────────────────────────────────────────────────────────
+
+describe('getTemplateDrift', () => {
+  it('reports files as in sync right after seeding', async () => {
+    expect(await getTemplateDrift(db, getRepo())).toEqual({
+      template: 'base',
+      commit: 'seed-1',
+      files: [{ path: 'CLAUDE.md', status: 'in_sync' }],
+    });
+  });
+
+  it('tells template changes, repo changes and both apart', async () => {
+    await writeTemplate('CLAUDE.md', SEED.replace('tabs', 'spaces'));
+    await writeTemplate('AGENTS.md', 'New\n');
+    expect((await getTemplateDrift(db, getRepo())).files).toEqual([
+      { path: 'AGENTS.md', status: 'missing' },
+      { path: 'CLAUDE.md', status: 'outdated' },
+    ]);
+
+    await fs.writeFile(path.join(storeRepoPath, 'CLAUDE.md'), '# my-app\n\nLocal notes\n');
+    expect((await getTemplateDrift(db, getRepo())).files[1].status).toBe('diverged');
+
+    await writeTemplate('CLAUDE.md', SEED);
+    expect((await getTemplateDrift(db, getRepo())).files[1].status).toBe('modified');
+  });
+
+  it('treats files as modified when the seed commit is unknown', async () => {
+    setRepoTemplate(db, 'repo-1', { name: 'base', commit: null });
+    await writeTemplate('CLAUDE.md', SEED.replace('tabs', 'spaces'));
+    expect((await getTemplateDrift(db, getRepo())).files[0].status).toBe('modified');
+  });
+});
+
+describe('updateRepoFromTemplate', () => {
+  it('merges template changes with local edits and adds new files', async () => {
+    await writeTemplate('CLAUDE.md', SEED.replace('tabs', 'spaces'));
+    await writeTemplate('AGENTS.md', 'Agents for {{repo.name}}\n');
+    await fs.writeFile(
+      path.join(targetPath, 'CLAUDE.md'),
+      '# my-app\n\nStyle: tabs\n\nTests: vitest --coverage\n',
+    );
+
+    const result = await updateRepoFromTemplate(db, engine, getRepo());
+
+    expect(result).toEqual({ added: ['AGENTS.md'], updated: ['CLAUDE.md'], conflicts: [] });
+    expect(await readTarget('CLAUDE.md')).toBe(
+      '# my-app\n\nStyle: spaces\n\nTests: vitest --coverage\n',
+    );
+    expect(await readTarget('AGENTS.md')).toBe('Agents for my-app\n');
+    expect(getRepoTemplate(db, 'repo-1')).toEqual({ name: 'base', commit: 'head' });
+  });
+
+  it('turns an unclean merge into a conflict', async () => {
+    await writeTemplate('CLAUDE.md', SEED.replace('tabs', 'spaces'));
+    await fs.writeFile(
+      path.join(targetPath, 'CLAUDE.md'),
+      '# my-app\n\nStyle: 2 spaces\n\nTests: vitest\n',
+    );
+
+    const result = await updateRepoFromTemplate(db, engine, getRepo());
+
+    expect(result.conflicts).toEqual(['CLAUDE.md']);
+    expect(getTrackedFile('CLAUDE.md').syncStatus).toBe('conflict');
+    const conflict = db
+      .prepare('SELECT * FROM conflicts WHERE tracked_file_id = ?')
+      .get('tf-1') as {
+      store_content: string;
+      target_content: string;
+      base_content: string | null;
+    };
+    expect(conflict.store_content).toBe('# my-app\n\nStyle: spaces\n\nTests: vitest\n');
+    expect(conflict.target_content).toBe('# my-app\n\nStyle: 2 spaces\n\nTests: vitest\n');
+    // The base is the template version the repo was seeded from
+    expect(conflict.base_content).toBe('# my-app\n\nStyle: tabs\n\nTests: vitest\n');
+    // Local content stays in place until the conflict is resolved
+    expect(await readTarget('CLAUDE.md')).toBe('# my-app\n\nStyle: 2 spaces\n\nTests: vitest\n');
+  });
+});
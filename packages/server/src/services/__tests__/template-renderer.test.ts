@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { initSchema } from '../../db/schema.js';
+import {
+  TemplateSyntaxError,
+  renderTemplate,
+  findCustomVariables,
+  getRepoTemplateVars,
+  setRepoTemplateVars,
+  renderTemplateFile,
+} from '../template-renderer.js';
+
+const VARS = {
+  'repo.name': 'my-app',
+  'repo.path': '/work/my-app',
+  'git.remoteUrl': '',
+  'machine.name': 'laptop',
+  'var.team': 'core',
+};
+
+describe('renderTemplate', () => {
+  it('substitutes variables with optional whitespace', () => {
+    expect(renderTemplate('# {{repo.name}} ({{ var.team }})', VARS).content).toBe(
+      '# my-app (core)',
+    );
+  });
+
+  it('leaves unknown variables in place and reports them', () => {
+    const result = renderTemplate('Owner: {{var.owner}}', VARS);
+    expect(result.content).toBe('Owner: {{var.owner}}');
+    expect(result.unresolved).toEqual(['var.owner']);
+  });
+
+  it('ignores braces outside the template namespaces', () => {
+    const content = 'Use {{name}} in Handlebars, {{/if}} too';
+    expect(renderTemplate(content, VARS)).toEqual({ content, unresolved: [] });
+  });
+
+  it('renders if/else and unless on non-empty values', () => {
+    const content =
+      '{{#if git.remoteUrl}}remote{{else}}local{{/if}}-{{#unless var.team}}x{{/unless}}';
+    expect(renderTemplate(content, VARS).content).toBe('local-');
+    expect(
+      renderTemplate(content, { ...VARS, 'git.remoteUrl': 'git@x:y.git', 'var.team': '' }).content,
+    ).toBe('remote-x');
+  });
+
+  it('drops lines that only hold a block tag', () => {
+    const content = [
+      '# {{repo.name}}',
+      '{{#if var.team}}',
+      'Team: {{var.team}}',
+      '  {{else}}',
+      'No team',
+      '{{/if}}',
+      'End',
+    ].join('\n');
+    expect(renderTemplate(content, VARS).content).toBe('# my-app\nTeam: core\nEnd');
+  });
+
+  it('supports nested blocks', () => {
+    const content = '{{#if var.team}}{{#unless git.remoteUrl}}local {{var.team}}{{/unless}}{{/if}}';
+    expect(renderTemplate(content, VARS).content).toBe('local core');
+  });
+
+  it('rejects unbalanced blocks', () => {
+    expect(() => renderTemplate('{{#if var.team}}open', VARS)).toThrow(TemplateSyntaxError);
+    expect(() => renderTemplate('{{#if var.team}}x{{/unless}}', VARS)).toThrow(TemplateSyntaxError);
+  });
+
+  it('lists custom variables', () => {
+    expect(findCustomVariables('{{var.a}} {{#if var.b}}{{repo.name}}{{/if}} {{var.a}}')).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+});
+
+describe('template files', () => {
+  let tmpDir: string;
+  let db: Database.Database;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'template-renderer-test-'));
+    db = new Database(':memory:');
+    initSchema(db);
+    db.prepare(
+      "INSERT INTO repos (id, name, local_path, store_path) VALUES ('repo-1', 'my-app', '/work/my-app', 'repos/my-app')",
+    ).run();
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+    db.close();
+  });
+
+  it('stores custom variables as repo settings', () => {
+    setRepoTemplateVars(db, 'repo-1', { team: 'core', owner: 'sam' });
+    setRepoTemplateVars(db, 'repo-1', { team: 'infra' });
+    expect(getRepoTemplateVars(db, 'repo-1')).toEqual({ team: 'infra' });
+  });
+
+  it('renders text files and copies binary or invalid ones as-is', async () => {
+    const src = path.join(tmpDir, 'src');
+    const dest = path.join(tmpDir, 'dest');
+    await fs.mkdir(path.join(src, '.cursor'), { recursive: true });
+    await fs.writeFile(path.join(src, 'CLAUDE.md'), '# {{repo.name}}\n');
+    await fs.writeFile(path.join(src, '.cursor', 'broken.md'), '{{#if var.team}}\n');
+    await fs.writeFile(path.join(src, 'logo.bin'), Buffer.from([0, 123, 123, 0]));
+
+    for (const file of ['CLAUDE.md', '.cursor/broken.md', 'logo.bin']) {
+      await renderTemplateFile(path.join(src, file), path.join(dest, file), VARS);
+    }
+
+    expect(await fs.readFile(path.join(dest, 'CLAUDE.md'), 'utf-8')).toBe('# my-app\n');
+    expect(await fs.readFile(path.join(dest, '.cursor', 'broken.md'), 'utf-8')).toBe(
+      '{{#if var.team}}\n',
+    );
+    expect(await fs.readFile(path.join(dest, 'logo.bin'))).toEqual(Buffer.from([0, 123, 123, 0]));
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import {
+  TEMPLATE_MANIFEST,
+  TemplateError,
+  applyTemplate,
+  createTemplate,
+  deleteTemplate,
+  getRepoTemplate,
+  listTemplateFiles,
+  listTemplates,
+  migrateLegacyDefaultTemplate,
+  resolveTemplateChain,
+  setRepoTemplate,
+  updateTemplate,
+} from '../templates.js';
+
+let tmpDir: string;
+
+async function writeTemplateFile(name: string, file: string, content: string): Promise<void> {
+  const filePath = path.join(config.storeTemplatesPath, name, file);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content);
+}
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'templates-test-'));
+  config.storeReposPath = path.join(tmpDir, 'store', 'repos');
+  config.storeTemplatesPath = path.join(tmpDir, 'store', 'templates');
+  await fs.mkdir(config.storeTemplatesPath, { recursive: true });
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('template CRUD', () => {
+  it('creates, lists and updates templates', async () => {
+    await createTemplate({ name: 'base' });
+    await createTemplate({ name: 'frontend', extends: 'base', description: 'React apps' });
+
+    expect(await listTemplates()).toEqual([
+      { name: 'base', extends: null, description: '' },
+      { name: 'frontend', extends: 'base', description: 'React apps' },
+    ]);
+
+    await updateTemplate('frontend', { extends: null });
+    expect((await listTemplates())[1].extends).toBeNull();
+  });
+
+  it('rejects invalid names, duplicates and missing parents', async () => {
+    await createTemplate({ name: 'base' });
+    await expect(createTemplate({ name: '../x' })).rejects.toThrow('Invalid template name');
+    await expect(createTemplate({ name: 'base' })).rejects.toMatchObject({ statusCode: 409 });
+    await expect(createTemplate({ name: 'py', extends: 'nope' })).rejects.toThrow(TemplateError);
+  });
+
+  it('rejects inheritance cycles', async () => {
+    await createTemplate({ name: 'a' });
+    await createTemplate({ name: 'b', extends: 'a' });
+    await expect(updateTemplate('a', { extends: 'b' })).rejects.toThrow('cycle');
+
+    // A cycle edited in by hand is reported when resolving
+    await fs.writeFile(
+      path.join(config.storeTemplatesPath, 'a', TEMPLATE_MANIFEST),
+      JSON.stringify({ extends: 'b' }),
+    );
+    await expect(resolveTemplateChain('b')).rejects.toThrow('cycle');
+  });
+
+  it('renames a template and repoints its children', async () => {
+    await createTemplate({ name: 'base' });
+    await createTemplate({ name: 'backend', extends: 'base' });
+
+    await updateTemplate('base', { name: 'common' });
+
+    expect((await listTemplates()).map((t) => [t.name, t.extends])).toEqual([
+      ['backend', 'common'],
+      ['common', null],
+    ]);
+  });
+
+  it('refuses to delete a template that is extended', async () => {
+    await createTemplate({ name: 'base' });
+    await createTemplate({ name: 'backend', extends: 'base' });
+
+    await expect(deleteTemplate('base')).rejects.toMatchObject({ statusCode: 409 });
+    await deleteTemplate('backend');
+    await deleteTemplate('base');
+    expect(await listTemplates()).toEqual([]);
+  });
+});
+
+describe('template inheritance', () => {
+  beforeEach(async () => {
+    await createTemplate({ name: 'base' });
+    await createTemplate({ name: 'python', extends: 'base' });
+    await writeTemplateFile('base', 'CLAUDE.md', '# {{repo.name}}\n');
+    await writeTemplateFile('base', '.cursor/rules.md', 'base rules\n');
+    await writeTemplateFile('python', '.cursor/rules.md', 'python rules\n');
+  });
+
+  it('lists inherited files with the template that provides them', async () => {
+    expect(await listTemplateFiles('python')).toEqual([
+      { path: '.cursor/rules.md', source: 'python' },
+      { path: 'CLAUDE.md', source: 'base' },
+    ]);
+  });
+
+  it('applies the merged files without overwriting existing ones', async () => {
+    const dest = path.join(tmpDir, 'dest');
+    await fs.mkdir(dest);
+    await fs.writeFile(path.join(dest, 'CLAUDE.md'), 'mine\n');
+
+    const written = await applyTemplate('python', dest, { 'repo.name': 'api' });
+
+    expect(written).toEqual(['.cursor/rules.md']);
+    expect(await fs.readFile(path.join(dest, 'CLAUDE.md'), 'utf-8')).toBe('mine\n');
+    expect(await fs.readFile(path.join(dest, '.cursor/rules.md'), 'utf-8')).toBe('python rules\n');
+
+    await applyTemplate('python', dest, { 'repo.name': 'api' }, { overwrite: true });
+    expect(await fs.readFile(path.join(dest, 'CLAUDE.md'), 'utf-8')).toBe('# api\n');
+  });
+});
+
+describe('migrateLegacyDefaultTemplate', () => {
+  it('moves repos/_default to templates/default', async () => {
+    await fs.mkdir(path.join(config.storeReposPath, '_default'), { recursive: true });
+    await fs.writeFile(path.join(config.storeReposPath, '_default', 'CLAUDE.md'), 'hi\n');
+
+    await migrateLegacyDefaultTemplate();
+
+    expect(await listTemplateFiles('default')).toEqual([{ path: 'CLAUDE.md', source: 'default' }]);
+    await expect(fs.access(path.join(config.storeReposPath, '_default'))).rejects.toThrow();
+  });
+});
+
+describe('repo template', () => {
+  it('is remembered in repo settings', () => {
+    const db = new Database(':memory:');
+    initSchema(db);
+    db.prepare(
+      "INSERT INTO repos (id, name, local_path, store_path) VALUES ('repo-1', 'api', '/work/api', 'repos/api')",
+    ).run();
+
+    expect(getRepoTemplate(db, 'repo-1')).toBeNull();
+    setRepoTemplate(db, 'repo-1', { name: 'python', commit: 'abc123' });
+    expect(getRepoTemplate(db, 'repo-1')).toEqual({ name: 'python', commit: 'abc123' });
+    setRepoTemplate(db, 'repo-1', { name: 'python', commit: null });
+    expect(getRepoTemplate(db, 'repo-1')).toEqual({ name: 'python', commit: null });
+    db.close();
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import Database from 'better-sqlite3';
+import { SyncEngine } from '../sync-engine.js';
+import { initSchema } from '../../db/schema.js';
+import { config } from '../../config.js';
+import { fileExists } from '../repo-scanner.js';
+import {
+  listTrashItems,
+  moveToTrash,
+  purgeExpiredTrash,
+  restoreTrashItem,
+  trashTargetFiles,
+  TrashRestoreError,
+  type TrashTarget,
+} from '../trash.js';
+
+// ── Mocks ───────────────────────────────────────────────────────────────────
+
+vi.mock('../store-git.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../store-git.js')>();
+  return {
+    ...actual,
+    queueStoreCommit: vi.fn(),
+    ensureStoreCommitted: vi.fn().mockResolvedValue([]),
+    getCommittedContent: vi.fn(async () => null),
+    getHeadCommitHash: vi.fn().mockResolvedValue('head'),
+  };
+});
+
+vi.mock('../file-watcher.js', async () => {
+  const { EventEmitter } = await import('node:events');
+  class MockFileWatcherService extends EventEmitter {
+    markSelfChange = vi.fn();
+    stopAll = vi.fn().mockResolvedValue(undefined);
+  }
+  return { FileWatcherService: MockFileWatcherService };
+});
+
+// ── Setup ───────────────────────────────────────────────────────────────────
+
+let tmpDir: string;
+let db: Database.Database;
+
+const WEB: TrashTarget = { id: 'web', name: 'web', storePath: 'repos/web', type: 'repo' };
+const repoDir = () => path.join(tmpDir, 'web');
+const storeDir = () => path.join(config.storeReposPath, 'web');
+
+async function write(root: string, relativePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(path.join(root, relativePath)), { recursive: true });
+  await fs.writeFile(path.join(root, relativePath), content, 'utf-8');
+}
+
+const read = (root: string, relativePath: string) =>
+  fs.readFile(path.join(root, relativePath), 'utf-8');
+
+/** Trash CLAUDE.md and delete it from both sides, as deleting it from the UI does */
+async function deleteClaudeFile(): Promise<string> {
+  const id = await moveToTrash(db, {
+    origin: 'file_deleted',
+    target: WEB,
+    relativePath: 'CLAUDE.md',
+    storeFilePath: path.join(storeDir(), 'CLAUDE.md'),
+    targetFilePath: path.join(repoDir(), 'CLAUDE.md'),
+  });
+  await fs.rm(path.join(storeDir(), 'CLAUDE.md'), { force: true });
+  await fs.rm(path.join(repoDir(), 'CLAUDE.md'), { force: true });
+  db.prepare("DELETE FROM tracked_files WHERE relative_path = 'CLAUDE.md'").run();
+  return id!;
+}
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'trash-test-'));
+  config.storePath = path.join(tmpDir, 'store');
+  config.storeReposPath = path.join(tmpDir, 'store', 'repos');
+  config.localSecretsPath = path.join(tmpDir, 'home', '.ai-sync', 'secrets.json');
+  config.machineId = 'machine-1';
+  config.machineName = 'laptop';
+
+  db = new Database(':memory:');
+  initSchema(db);
+  await fs.mkdir(repoDir(), { recursive: true });
+  await fs.mkdir(storeDir(), { recursive: true });
+  db.prepare(
+    "INSERT INTO repos (id, name, local_path, store_path) VALUES ('web', 'web', ?, 'repos/web')",
+  ).run(repoDir());
+  db.prepare(
+    "INSERT INTO tracked_files (id, repo_id, relative_path) VALUES ('tf', 'web', 'CLAUDE.md')",
+  ).run();
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+  db.close();
+  vi.clearAllMocks();
+});
+
+describe('moving files to the trash', () => {
+  it('keeps the store copy with where and when it was deleted', async () => {
+    await write(storeDir(), 'CLAUDE.md', '# Store\n');
+    await write(repoDir(), 'CLAUDE.md', '# Target\n');
+    await deleteClaudeFile();
+
+    const [item] = listTrashItems(db);
+    expect(item).toMatchObject({
+      origin: 'file_deleted',
+      targetType: 'repo',
+      targetId: 'web',
+      relativePath: 'CLAUDE.md',
+      source: 'store',
+      isBinary: false,
+      size: 8,
+      machineId: 'machine-1',
+      machineName: 'laptop',
+    });
+    expect(item.deletedAt).toBeTruthy();
+  });
+
+  it("keeps the target's copy when the store has none", async () => {
+    await write(repoDir(), 'CLAUDE.md', '# Target\n');
+    await deleteClaudeFile();
+
+    expect(listTrashItems(db).map((i) => i.source)).toEqual(['target']);
+  });
+
+  it('keeps nothing when neither side has the file', async () => {
+    expect(
+      await moveToTrash(db, {
+        origin: 'conflict_deleted',
+        target: WEB,
+        relativePath: 'CLAUDE.md',
+        storeFilePath: path.join(storeDir(), 'CLAUDE.md'),
+      }),
+    ).toBeNull();
+    expect(listTrashItems(db)).toEqual([]);
+  });
+});
+
+describe('restoring from the trash', () => {
+  it('puts the file back into the store and the target', async () => {
+    await write(storeDir(), 'CLAUDE.md', '# Rules\n');
+    await write(repoDir(), 'CLAUDE.md', '# Rules\n');
+    const id = await deleteClaudeFile();
+
+    const result = await restoreTrashItem(db, id);
+    await new SyncEngine(db).syncRepo('web', { fileIds: [result!.trackedFileId!] });
+
+    expect(await read(storeDir(), 'CLAUDE.md')).toBe('# Rules\n');
+    expect(await read(repoDir(), 'CLAUDE.md')).toBe('# Rules\n');
+    expect(
+      db.prepare("SELECT sync_status FROM tracked_files WHERE relative_path = 'CLAUDE.md'").get(),
+    ).toEqual({ sync_status: 'synced' });
+    expect(listTrashItems(db)).toEqual([]);
+  });
+
+  it('refuses to overwrite a file that came back', async () => {
+    await write(storeDir(), 'CLAUDE.md', '# Old\n');
+    const id = await deleteClaudeFile();
+    await write(storeDir(), 'CLAUDE.md', '# New\n');
+
+    await expect(restoreTrashItem(db, id)).rejects.toThrow(TrashRestoreError);
+    expect(await read(storeDir(), 'CLAUDE.md')).toBe('# New\n');
+    expect(listTrashItems(db)).toHaveLength(1);
+  });
+
+  it('restores files of a removed repo to the store alone', async () => {
+    await write(storeDir(), 'CLAUDE.md', '# Rules\n');
+    expect(await trashTargetFiles(db, WEB)).toBe(1);
+    await fs.rm(storeDir(), { recursive: true });
+    db.prepare("DELETE FROM repos WHERE id = 'web'").run();
+
+    const result = await restoreTrashItem(db, listTrashItems(db)[0].id);
+
+    expect(result?.target).toBeNull();
+    expect(await read(storeDir(), 'CLAUDE.md')).toBe('# Rules\n');
+    expect(await fileExists(path.join(repoDir(), 'CLAUDE.md'))).toBe(false);
+  });
+});
+
+describe('trash retention', () => {
+  beforeEach(async () => {
+    await write(storeDir(), 'CLAUDE.md', '# Rules\n');
+    await deleteClaudeFile();
+    db.prepare("UPDATE trash_items SET deleted_at = datetime('now', '-40 days')").run();
+  });
+
+  it('purges items older than the retention period', () => {
+    expect(purgeExpiredTrash(db)).toBe(1);
+    expect(listTrashItems(db)).toEqual([]);
+  });
+
+  it('keeps items forever when retention is 0', () => {
+    db.prepare("UPDATE settings SET value = '0' WHERE key = 'trash_retention_days'").run();
+    expect(purgeExpiredTrash(db)).toBe(0);
+    expect(listTrashItems(db)).toHaveLength(1);
+  });
+});
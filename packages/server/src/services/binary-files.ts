@@ -0,0 +1,66 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { isUtf8 } from 'node:buffer';
+import { contentChecksum } from './checksum.js';
+
+/** How much of a file git inspects for NUL bytes when deciding it is binary */
+const SNIFF_BYTES = 8000;
+
+/** Types the UI can preview, by extension */
+const PREVIEW_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.ico': 'image/x-icon',
+  '.pdf': 'application/pdf',
+};
+
+/** A binary file as sent to the UI: base64 content plus what's needed to compare it */
+export interface BinaryFileContent {
+  type: 'binary';
+  /** Base64-encoded bytes */
+  content: string;
+  size: number;
+  checksum: string;
+  /** Set for types the UI can preview */
+  mimeType: string | null;
+}
+
+/**
+ * Whether content is binary: a NUL byte near the start (git's heuristic) or
+ * bytes that aren't valid UTF-8, which a text round trip would corrupt
+ */
+export function isBinaryContent(content: Buffer): boolean {
+  return content.subarray(0, SNIFF_BYTES).includes(0) || !isUtf8(content);
+}
+
+/** Whether a file on disk is binary. Missing files are not. */
+export async function isBinaryFile(filePath: string): Promise<boolean> {
+  try {
+    return isBinaryContent(await fs.readFile(filePath));
+  } catch {
+    return false;
+  }
+}
+
+export function previewMimeType(filePath: string): string | null {
+  return PREVIEW_TYPES[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+export function toBinaryFileContent(content: Buffer, filePath: string): BinaryFileContent {
+  return {
+    type: 'binary',
+    content: content.toString('base64'),
+    size: content.length,
+    checksum: contentChecksum(content),
+    mimeType: previewMimeType(filePath),
+  };
+}
+
+/** Content of a file write request: bytes when the body is base64-encoded */
+export function decodeFileContent(content: string, encoding?: string): string | Buffer {
+  return encoding === 'base64' ? Buffer.from(content, 'base64') : content;
+}
@@ -0,0 +1,182 @@
+import path from 'node:path';
+import type Database from 'better-sqlite3';
+import { v4 as uuid } from 'uuid';
+import { config } from '../config.js';
+import type { Repo } from '../types/index.js';
+import { encodeStoreContent, shouldEncryptFile } from './store-encryption.js';
+
+/** repo_settings key listing the tools a repo's canonical rules render to */
+export const RULES_TARGETS_KEY = 'rules_targets';
+
+export class RulesError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: 400 | 404 | 409 = 400,
+  ) {
+    super(message);
+    this.name = 'RulesError';
+  }
+}
+
+export type RulesTool =
+  | 'claude'
+  | 'agents'
+  | 'gemini'
+  | 'cursor'
+  | 'cursor-legacy'
+  | 'windsurf'
+  | 'copilot';
+
+export interface RulesToolDefinition {
+  label: string;
+  /** Rendered file, relative to the repo */
+  path: string;
+  /** Whether the tool's format carries the canonical frontmatter */
+  frontmatter: boolean;
+}
+
+export const RULES_TOOLS: Record<RulesTool, RulesToolDefinition> = {
+  claude: { label: 'Claude Code', path: 'CLAUDE.md', frontmatter: false },
+  agents: { label: 'Codex / AGENTS.md', path: 'AGENTS.md', frontmatter: false },
+  gemini: { label: 'Gemini CLI', path: 'GEMINI.md', frontmatter: false },
+  cursor: { label: 'Cursor', path: '.cursor/rules/project.mdc', frontmatter: true },
+  'cursor-legacy': { label: 'Cursor (legacy)', path: '.cursorrules', frontmatter: false },
+  windsurf: { label: 'Windsurf', path: '.windsurfrules', frontmatter: false },
+  copilot: {
+    label: 'GitHub Copilot',
+    path: '.github/copilot-instructions.md',
+    frontmatter: false,
+  },
+};
+
+/** `.mdc` frontmatter fields added when the canonical rules don't set them */
+const MDC_DEFAULTS: [string, string][] = [
+  ['description', ''],
+  ['globs', ''],
+  ['alwaysApply', 'true'],
+];
+
+const FRONTMATTER_RE = /^---\r?\n([\s\S]*?\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+export function isRulesTool(value: string): value is RulesTool {
+  return Object.hasOwn(RULES_TOOLS, value);
+}
+
+/**
+ * Split a leading `---` frontmatter block (kept as raw lines) from the body.
+ * Returns null when a block is opened but never closed.
+ */
+function splitFrontmatter(content: string): { lines: string[] | null; body: string } | null {
+  const match = FRONTMATTER_RE.exec(content);
+  if (!match) {
+    return /^---\r?\n/.test(content) ? null : { lines: null, body: content };
+  }
+  const lines = (match[1] ?? '').split(/\r?\n/).slice(0, -1);
+  return { lines, body: content.slice(match[0].length) };
+}
+
+function joinFrontmatter(lines: string[] | null, body: string): string {
+  return lines ? `---\n${lines.map((l) => `${l}\n`).join('')}---\n${body}` : body;
+}
+
+function lineKey(line: string): string | null {
+  return /^([\w-]+)\s*:/.exec(line)?.[1] ?? null;
+}
+
+/**
+ * Render canonical rules in a tool's format. Tools with frontmatter get the
+ * canonical frontmatter plus defaults for missing `.mdc` fields; the others
+ * get the body only.
+ */
+export function renderRules(canonical: string, tool: RulesTool): string {
+  const { lines, body } = splitFrontmatter(canonical) ?? { lines: null, body: canonical };
+  if (!RULES_TOOLS[tool].frontmatter) return body;
+  const meta = [...(lines ?? [])];
+  for (const [key, value] of MDC_DEFAULTS) {
+    if (!meta.some((l) => lineKey(l) === key)) meta.push(value ? `${key}: ${value}` : `${key}:`);
+  }
+  return joinFrontmatter(meta, body);
+}
+
+/**
+ * Canonical rules with a rendered file's content folded back in, or null
+ * when the content can't be represented: an unterminated frontmatter block,
+ * or frontmatter in a tool format that has none.
+ */
+export function foldRules(canonical: string, tool: RulesTool, content: string): string | null {
+  const parsed = splitFrontmatter(content);
+  const current = splitFrontmatter(canonical) ?? { lines: null, body: canonical };
+  if (RULES_TOOLS[tool].frontmatter) {
+    if (!parsed) return null;
+    return joinFrontmatter(parsed.lines ?? current.lines, parsed.body);
+  }
+  if (parsed?.lines) return null;
+  return joinFrontmatter(current.lines, content);
+}
+
+/** Absolute path of a repo's canonical rules file */
+export function rulesFilePath(repo: Pick<Repo, 'storePath'>): string {
+  return path.join(config.storeRulesPath, `${rulesName(repo)}.md`);
+}
+
+/** Path of a repo's canonical rules file relative to the store root */
+export function rulesStorePath(repo: Pick<Repo, 'storePath'>): string {
+  return `rules/${rulesName(repo)}.md`;
+}
+
+function rulesName(repo: Pick<Repo, 'storePath'>): string {
+  return repo.storePath.replace(/^repos\//, '');
+}
+
+export function getRulesTargets(db: Database.Database, repoId: string): RulesTool[] {
+  const row = db
+    .prepare('SELECT value FROM repo_settings WHERE repo_id = ? AND key = ?')
+    .get(repoId, RULES_TARGETS_KEY) as { value: string } | undefined;
+  return (row?.value ?? '').split(',').filter(isRulesTool);
+}
+
+/**
+ * Set (or with an empty list, clear) the tools a repo's rules render to.
+ * Stored in repo_settings, so it syncs. Forgets what each affected file last
+ * matched, so on the next sync the canonical rules win.
+ */
+export function setRulesTargets(db: Database.Database, repoId: string, tools: RulesTool[]): void {
+  const affected = new Set([...getRulesTargets(db, repoId), ...tools]);
+  db.prepare('DELETE FROM repo_settings WHERE repo_id = ? AND key = ?').run(
+    repoId,
+    RULES_TARGETS_KEY,
+  );
+  for (const tool of affected) {
+    db.prepare(
+      'UPDATE tracked_files SET shared_checksum = NULL WHERE repo_id = ? AND relative_path = ?',
+    ).run(repoId, RULES_TOOLS[tool].path);
+  }
+  if (tools.length > 0) {
+    db.prepare('INSERT INTO repo_settings (id, repo_id, key, value) VALUES (?, ?, ?, ?)').run(
+      uuid(),
+      repoId,
+      RULES_TARGETS_KEY,
+      tools.join(','),
+    );
+  }
+}
+
+/** The enabled tool a repo file is rendered for, if any */
+export function getRulesToolForFile(
+  db: Database.Database,
+  repoId: string,
+  relativePath: string,
+): RulesTool | null {
+  return getRulesTargets(db, repoId).find((t) => RULES_TOOLS[t].path === relativePath) ?? null;
+}
+
+/**
+ * Canonical rules as they should be written to the store: encrypted when any
+ * rendered file's pattern is flagged for encryption
+ */
+export function encodeRules(db: Database.Database, repoId: string, content: string): string {
+  const encrypted = getRulesTargets(db, repoId)
+    .map((t) => ({ repoId, serviceConfigId: null, relativePath: RULES_TOOLS[t].path }))
+    .find((file) => shouldEncryptFile(db, file));
+  return encrypted ? encodeStoreContent(db, encrypted, content) : content;
+}
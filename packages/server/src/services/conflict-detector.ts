@@ -2,8 +2,18 @@ import fs from 'node:fs/promises';
 import path from 'node:path';
 import type Database from 'better-sqlite3';
 import { v4 as uuid } from 'uuid';
-import type { TrackedFile, ConflictWithDetails } from '../types/index.js';
+import type {
+  TrackedFile,
+  Conflict,
+  ConflictWithDetails,
+  JsonKeyConflict,
+  MarkdownSectionConflict,
+} from '../types/index.js';
 import { config } from '../config.js';
+import { readStoreBytes, readStoreFile } from './store-encryption.js';
+import { isBinaryContent } from './binary-files.js';
+import { contentChecksum } from './checksum.js';
+import type { TrashTarget } from './trash.js';
 
 interface ConflictRow {
   id: string;
@@ -12,6 +22,7 @@ interface ConflictRow {
   target_content: string | null;
   store_checksum: string;
   target_checksum: string;
+  is_binary: number;
   status: string;
   resolved_at: string | null;
   created_at: string;
@@ -29,6 +40,56 @@ interface TargetRow {
   type: 'repo' | 'service';
 }
 
+/**
+ * Check if file content contains git conflict markers.
+ * Used to detect when a git merge "succeeds" but leaves conflict markers in the file
+ * (e.g. when git auto-merge keeps both sides), and to reject merged results that
+ * still have unresolved hunks.
+ */
+export function hasConflictMarkers(content: string): boolean {
+  // Check for conflict markers at the start of a line (how git writes them).
+  // Simple includes() would false-positive on documentation that mentions markers.
+  return /^<{7}/m.test(content) && /^={7}/m.test(content) && /^>{7}/m.test(content);
+}
+
+/** What a structure-aware merge found conflicting: JSON keys or Markdown sections */
+export type MergeConflicts = Pick<Conflict, 'jsonConflicts' | 'sectionConflicts'>;
+
+/** The json_conflicts and section_conflicts columns of a conflict row */
+export function mergeConflictColumns({
+  jsonConflicts,
+  sectionConflicts,
+}: Partial<MergeConflicts> = {}): [string | null, string | null] {
+  return [
+    jsonConflicts?.length ? JSON.stringify(jsonConflicts) : null,
+    sectionConflicts?.length ? JSON.stringify(sectionConflicts) : null,
+  ];
+}
+
+/** Log detail naming what conflicted, when the merge knows it */
+export function describeMergeConflicts({
+  jsonConflicts,
+  sectionConflicts,
+}: MergeConflicts): string | null {
+  const parts = [
+    ...(jsonConflicts ?? []).map((c) => c.path),
+    ...(sectionConflicts ?? []).map((c) => c.heading || 'the top of the file'),
+  ];
+  return parts.length ? `Both sides changed ${parts.join(', ')}` : null;
+}
+
+/** Conflict rows keep the JSON key paths and Markdown sections of a conflict as JSON text */
+export function parseMergeConflicts<T extends ConflictWithDetails>(conflict: T): T {
+  const json = conflict.jsonConflicts as unknown;
+  const sections = conflict.sectionConflicts as unknown;
+  return {
+    ...conflict,
+    jsonConflicts: typeof json === 'string' ? (JSON.parse(json) as JsonKeyConflict[]) : null,
+    sectionConflicts:
+      typeof sections === 'string' ? (JSON.parse(sections) as MarkdownSectionConflict[]) : null,
+  };
+}
+
 export async function createConflict(
   db: Database.Database,
   trackedFile: TrackedFile,
@@ -37,39 +98,65 @@ export async function createConflict(
   syncStatus: string = 'conflict',
   baseContent?: string | null,
   mergedContent?: string | null,
+  mergeConflicts: Partial<MergeConflicts> = {},
 ): Promise<ConflictWithDetails | null> {
   // Read both file contents
   let storeContent: string | null = null;
   let targetContent: string | null = null;
+  let storeBytes: Buffer | null = null;
+  let targetBytes: Buffer | null = null;
 
   try {
-    storeContent = await fs.readFile(storeFilePath, 'utf-8');
+    storeBytes = await readStoreBytes(storeFilePath);
   } catch {
     // File may not exist
   }
 
   try {
-    targetContent = await fs.readFile(targetFilePath, 'utf-8');
+    targetBytes = await fs.readFile(targetFilePath);
   } catch {
     // File may not exist
   }
 
+  // Binary content is kept base64-encoded, with checksums of the actual
+  // bytes so the sides can be compared; there is nothing to merge
+  const isBinary = [storeBytes, targetBytes].some((b) => b !== null && isBinaryContent(b));
+  let storeChecksum = trackedFile.storeChecksum || '';
+  let targetChecksum = trackedFile.targetChecksum || '';
+  if (isBinary) {
+    storeContent = storeBytes?.toString('base64') ?? null;
+    targetContent = targetBytes?.toString('base64') ?? null;
+    if (storeBytes) storeChecksum = contentChecksum(storeBytes);
+    if (targetBytes) targetChecksum = contentChecksum(targetBytes);
+  } else {
+    if (storeBytes) {
+      try {
+        storeContent = await readStoreFile(storeFilePath);
+      } catch {
+        // Encrypted and this machine has no key
+      }
+    }
+    targetContent = targetBytes?.toString('utf-8') ?? null;
+  }
+
   const conflictId = uuid();
 
   db.prepare(
     `
-    INSERT INTO conflicts (id, tracked_file_id, store_content, target_content, base_content, merged_content, store_checksum, target_checksum, status)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending')
+    INSERT INTO conflicts (id, tracked_file_id, store_content, target_content, base_content, merged_content, store_checksum, target_checksum, is_binary, json_conflicts, section_conflicts, status)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')
   `,
   ).run(
     conflictId,
     trackedFile.id,
     storeContent,
     targetContent,
-    baseContent ?? null,
-    mergedContent ?? null,
-    trackedFile.storeChecksum || '',
-    trackedFile.targetChecksum || '',
+    isBinary ? null : (baseContent ?? null),
+    isBinary ? null : (mergedContent ?? null),
+    storeChecksum,
+    targetChecksum,
+    isBinary ? 1 : 0,
+    ...mergeConflictColumns(mergeConflicts),
   );
 
   // Update tracked file status
@@ -103,10 +190,15 @@ export async function createConflict(
     trackedFileId: trackedFile.id,
     storeContent,
     targetContent,
-    baseContent: baseContent ?? null,
-    mergedContent: mergedContent ?? null,
-    storeChecksum: trackedFile.storeChecksum || '',
-    targetChecksum: trackedFile.targetChecksum || '',
+    baseContent: isBinary ? null : (baseContent ?? null),
+    mergedContent: isBinary ? null : (mergedContent ?? null),
+    storeChecksum,
+    targetChecksum,
+    isBinary: isBinary ? 1 : 0,
+    jsonConflicts: mergeConflicts.jsonConflicts?.length ? mergeConflicts.jsonConflicts : null,
+    sectionConflicts: mergeConflicts.sectionConflicts?.length
+      ? mergeConflicts.sectionConflicts
+      : null,
     status: 'pending',
     resolvedAt: null,
     createdAt: new Date().toISOString(),
@@ -128,7 +220,11 @@ export async function resolveConflict(
   targetFilePath: string;
   content: string;
   repoName: string;
+  /** The repo or service the file belongs to */
+  target: TrashTarget;
   deleted?: boolean;
+  /** The content is base64-encoded bytes */
+  binary?: boolean;
 } | null> {
   const conflict = db
     .prepare(
@@ -184,7 +280,9 @@ export async function resolveConflict(
           storeExists = false;
         }
         if (storeExists) {
-          content = await fs.readFile(storeFilePath, 'utf-8');
+          content = conflict.is_binary
+            ? (await readStoreBytes(storeFilePath)).toString('base64')
+            : await readStoreFile(storeFilePath);
         } else {
           content = '';
           deleted = true;
@@ -206,7 +304,9 @@ export async function resolveConflict(
           targetExists = false;
         }
         if (targetExists) {
-          content = await fs.readFile(targetFilePath, 'utf-8');
+          content = conflict.is_binary
+            ? (await fs.readFile(targetFilePath)).toString('base64')
+            : await fs.readFile(targetFilePath, 'utf-8');
         } else {
           content = '';
           deleted = true;
@@ -221,6 +321,7 @@ export async function resolveConflict(
       break;
     case 'delete':
       content = '';
+      deleted = true;
       resolvedStatus = 'resolved_delete';
       break;
   }
@@ -244,6 +345,8 @@ export async function resolveConflict(
     targetFilePath,
     content,
     repoName: target.name,
+    target: { id: target.id, name: target.name, storePath: target.store_path, type: target.type },
     deleted,
+    binary: conflict.is_binary === 1,
   };
 }
@@ -0,0 +1,35 @@
+import type Database from 'better-sqlite3';
+import type { TrackedFile } from '../types/index.js';
+import { mapRow } from '../db/index.js';
+
+/** Commit refs accepted from the API — plain hashes only, no rev syntax */
+const COMMIT_HASH_RE = /^[0-9a-f]{4,40}$/i;
+
+export function isValidCommitHash(ref: string): boolean {
+  return COMMIT_HASH_RE.test(ref);
+}
+
+/**
+ * File routes use a trailing wildcard, so `files/<path>/history` and
+ * `files/<path>/restore` arrive as a single path. Treat the suffix as an action
+ * only when the prefix is a tracked file — a tracked file can't also be a
+ * directory, so this never shadows a real file path.
+ */
+export function findTrackedFileForAction(
+  db: Database.Database,
+  ownerColumn: 'repo_id' | 'service_config_id',
+  ownerId: string,
+  wildcardPath: string,
+  action: 'history' | 'restore',
+): TrackedFile | null {
+  const suffix = `/${action}`;
+  if (!wildcardPath.endsWith(suffix)) return null;
+  const relativePath = wildcardPath.slice(0, -suffix.length);
+  return (
+    mapRow<TrackedFile>(
+      db
+        .prepare(`SELECT * FROM tracked_files WHERE ${ownerColumn} = ? AND relative_path = ?`)
+        .get(ownerId, relativePath),
+    ) ?? null
+  );
+}
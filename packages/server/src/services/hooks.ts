@@ -0,0 +1,440 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import os from 'node:os';
+import picomatch from 'picomatch';
+import { v4 as uuid } from 'uuid';
+import type Database from 'better-sqlite3';
+import type { Hook, HookAction, SyncTarget, WsEvent } from '../types/index.js';
+import { config } from '../config.js';
+import { fileExists } from './repo-scanner.js';
+
+export const HOOK_EVENT_TYPES: WsEvent['type'][] = [
+  'sync_status',
+  'sync_complete',
+  'sync_blocked',
+  'conflict_created',
+  'conflict_updated',
+  'conflict_resolved',
+  'files_changed',
+  'repo_status',
+  'service_status',
+  'watcher_error',
+  'secret_detected',
+];
+
+export const HOOK_ACTIONS: HookAction[] = ['command', 'http'];
+
+export const DEFAULT_HOOK_TIMEOUT_MS = 10_000;
+export const MAX_HOOK_TIMEOUT_MS = 300_000;
+export const DEFAULT_HOOK_CONCURRENCY = 2;
+
+/** Runs waiting beyond this are dropped, so a burst of events can't pile up */
+const MAX_QUEUED_RUNS = 100;
+/** Characters of command output kept in the log */
+const OUTPUT_LIMIT = 500;
+
+export type HookInput = Pick<Hook, 'name' | 'action'> &
+  Partial<
+    Pick<Hook, 'enabled' | 'events' | 'targetGlob' | 'pathGlob' | 'command' | 'url' | 'timeoutMs'>
+  >;
+
+/** What an event is about, looked up once for all hooks */
+export interface HookEventContext {
+  target: SyncTarget | null;
+  relativePath: string | null;
+}
+
+/** Sent to commands on stdin and to URLs as the request body */
+export interface HookPayload {
+  event: WsEvent;
+  target: { type: SyncTarget['type']; id: string; name: string; localPath: string } | null;
+  relativePath: string | null;
+  machine: { id: string; name: string };
+  timestamp: string;
+}
+
+export interface HookRunResult {
+  ok: boolean;
+  durationMs: number;
+  /** Exit code or HTTP status, the error, and the tail of the command's output */
+  detail: string;
+}
+
+interface HookRow {
+  id: string;
+  name: string;
+  enabled: number;
+  events: string;
+  target_glob: string | null;
+  path_glob: string | null;
+  action: HookAction;
+  command: string | null;
+  url: string | null;
+  timeout_ms: number;
+  created_at: string;
+}
+
+function toHook(row: HookRow): Hook {
+  let events: WsEvent['type'][] = [];
+  try {
+    events = JSON.parse(row.events);
+  } catch {
+    // Treated as every event
+  }
+  return {
+    id: row.id,
+    name: row.name,
+    enabled: row.enabled === 1,
+    events,
+    targetGlob: row.target_glob,
+    pathGlob: row.path_glob,
+    action: row.action,
+    command: row.command,
+    url: row.url,
+    timeoutMs: row.timeout_ms,
+    createdAt: row.created_at,
+  };
+}
+
+export function listHooks(db: Database.Database): Hook[] {
+  const rows = db.prepare('SELECT * FROM hooks ORDER BY created_at, name').all() as HookRow[];
+  return rows.map(toHook);
+}
+
+export function getHook(db: Database.Database, id: string): Hook | null {
+  const row = db.prepare('SELECT * FROM hooks WHERE id = ?').get(id) as HookRow | undefined;
+  return row ? toHook(row) : null;
+}
+
+/** Why a hook can't be saved, or null if it can */
+export function validateHookInput(input: Partial<HookInput> | undefined): string | null {
+  if (!input || typeof input.name !== 'string' || !input.name.trim()) return 'name is required';
+  if (!HOOK_ACTIONS.includes(input.action as HookAction)) {
+    return `action must be one of: ${HOOK_ACTIONS.join(', ')}`;
+  }
+  if (input.action === 'command' && (typeof input.command !== 'string' || !input.command.trim())) {
+    return 'command is required';
+  }
+  if (input.action === 'http') {
+    let url: URL | null = null;
+    try {
+      url = new URL(input.url ?? '');
+    } catch {
+      // Reported below
+    }
+    if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+      return 'url must be an http(s) URL';
+    }
+  }
+  if (input.events !== undefined) {
+    if (!Array.isArray(input.events)) return 'events must be an array';
+    const unknown = input.events.find((e) => !HOOK_EVENT_TYPES.includes(e));
+    if (unknown !== undefined) return `Unknown event type: ${unknown}`;
+  }
+  if (
+    input.timeoutMs !== undefined &&
+    (!Number.isInteger(input.timeoutMs) ||
+      input.timeoutMs <= 0 ||
+      input.timeoutMs > MAX_HOOK_TIMEOUT_MS)
+  ) {
+    return `timeoutMs must be between 1 and ${MAX_HOOK_TIMEOUT_MS}`;
+  }
+  return null;
+}
+
+/** Create a hook, or replace the one with `id`. Validate the input first. */
+export function saveHook(db: Database.Database, input: HookInput, id: string = uuid()): Hook {
+  const glob = (value: string | null | undefined) => value?.trim() || null;
+  const values = [
+    input.name.trim(),
+    input.enabled === false ? 0 : 1,
+    JSON.stringify(input.events ?? []),
+    glob(input.targetGlob),
+    glob(input.pathGlob),
+    input.action,
+    input.action === 'command' ? input.command!.trim() : null,
+    input.action === 'http' ? input.url!.trim() : null,
+    input.timeoutMs ?? DEFAULT_HOOK_TIMEOUT_MS,
+  ];
+  const updated = db
+    .prepare(
+      `UPDATE hooks SET name = ?, enabled = ?, events = ?, target_glob = ?, path_glob = ?,
+         action = ?, command = ?, url = ?, timeout_ms = ? WHERE id = ?`,
+    )
+    .run(...values, id);
+  if (updated.changes === 0) {
+    db.prepare(
+      `INSERT INTO hooks (name, enabled, events, target_glob, path_glob, action, command, url, timeout_ms, id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    ).run(...values, id);
+  }
+  return getHook(db, id)!;
+}
+
+export function deleteHook(db: Database.Database, id: string): boolean {
+  return db.prepare('DELETE FROM hooks WHERE id = ?').run(id).changes > 0;
+}
+
+export function getHookConcurrency(db: Database.Database): number {
+  const row = db.prepare("SELECT value FROM settings WHERE key = 'hook_concurrency'").get() as
+    | { value: string }
+    | undefined;
+  const limit = parseInt(row?.value ?? '', 10);
+  return Number.isNaN(limit) || limit < 1 ? DEFAULT_HOOK_CONCURRENCY : limit;
+}
+
+// ── Matching ─────────────────────────────────────────────────────────
+
+function eventTargetId(event: WsEvent): { type: SyncTarget['type']; id: string } | null {
+  const source = event.type === 'conflict_created' ? event.conflict : event;
+  if ('repoId' in source && source.repoId) return { type: 'repo', id: source.repoId };
+  if ('serviceId' in source && source.serviceId) return { type: 'service', id: source.serviceId };
+  return null;
+}
+
+export function resolveHookContext(db: Database.Database, event: WsEvent): HookEventContext {
+  let target: SyncTarget | null = null;
+  const ref = eventTargetId(event);
+  if (ref) {
+    const table = ref.type === 'repo' ? 'repos' : 'service_configs';
+    const row = db
+      .prepare(`SELECT id, name, local_path, store_path, status FROM ${table} WHERE id = ?`)
+      .get(ref.id) as
+      | { id: string; name: string; local_path: string; store_path: string; status: string }
+      | undefined;
+    if (row) {
+      target = {
+        id: row.id,
+        name: row.name,
+        localPath: row.local_path,
+        storePath: row.store_path,
+        status: row.status,
+        type: ref.type,
+      };
+    }
+  }
+
+  let relativePath: string | null = null;
+  if (event.type === 'conflict_created') {
+    relativePath = event.conflict.relativePath;
+  } else if (event.type === 'secret_detected') {
+    relativePath = event.relativePath;
+  } else {
+    const fileId =
+      'fileId' in event ? event.fileId : 'trackedFileId' in event ? event.trackedFileId : null;
+    if (fileId) {
+      const row = db.prepare('SELECT relative_path FROM tracked_files WHERE id = ?').get(fileId) as
+        | { relative_path: string }
+        | undefined;
+      relativePath = row?.relative_path ?? null;
+    }
+  }
+  return { target, relativePath };
+}
+
+/** Whether the hook's event filter takes this event; the globs need the event's context */
+function acceptsEvent(hook: Hook, event: WsEvent): boolean {
+  return hook.enabled && (hook.events.length === 0 || hook.events.includes(event.type));
+}
+
+export function hookMatches(hook: Hook, event: WsEvent, ctx: HookEventContext): boolean {
+  if (!acceptsEvent(hook, event)) return false;
+  if (hook.targetGlob && !(ctx.target && picomatch.isMatch(ctx.target.name, hook.targetGlob))) {
+    return false;
+  }
+  if (
+    hook.pathGlob &&
+    !(ctx.relativePath && picomatch.isMatch(ctx.relativePath, hook.pathGlob, { dot: true }))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+// ── Running ──────────────────────────────────────────────────────────
+
+function buildPayload(event: WsEvent, ctx: HookEventContext): HookPayload {
+  return {
+    event,
+    target: ctx.target
+      ? {
+          type: ctx.target.type,
+          id: ctx.target.id,
+          name: ctx.target.name,
+          localPath: ctx.target.localPath,
+        }
+      : null,
+    relativePath: ctx.relativePath,
+    machine: { id: config.machineId, name: config.machineName },
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/** Kill the shell and what it started: commands run in their own process group */
+function killCommand(child: ChildProcess): void {
+  try {
+    if (process.platform !== 'win32' && child.pid) process.kill(-child.pid, 'SIGKILL');
+    else child.kill('SIGKILL');
+  } catch {
+    // Already exited
+  }
+}
+
+async function runCommand(
+  command: string,
+  payload: HookPayload,
+  timeoutMs: number,
+): Promise<Omit<HookRunResult, 'durationMs'>> {
+  const localPath = payload.target?.localPath;
+  const cwd = localPath && (await fileExists(localPath)) ? localPath : os.homedir();
+  const env = {
+    ...process.env,
+    AI_SYNC_EVENT: payload.event.type,
+    AI_SYNC_TARGET_TYPE: payload.target?.type ?? '',
+    AI_SYNC_TARGET_NAME: payload.target?.name ?? '',
+    AI_SYNC_TARGET_PATH: localPath ?? '',
+    AI_SYNC_FILE: payload.relativePath ?? '',
+    AI_SYNC_MACHINE: payload.machine.name,
+  };
+
+  return new Promise((resolve) => {
+    let output = '';
+    let timedOut = false;
+    let settled = false;
+    const finish = (result: Omit<HookRunResult, 'durationMs'>) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve(result);
+    };
+
+    const child = spawn(command, {
+      shell: true,
+      cwd,
+      env,
+      detached: process.platform !== 'win32',
+    });
+    const collect = (chunk: Buffer) => {
+      output = (output + chunk.toString('utf-8')).slice(-OUTPUT_LIMIT);
+    };
+    child.stdout?.on('data', collect);
+    child.stderr?.on('data', collect);
+    // Commands that don't read stdin close it early
+    child.stdin?.on('error', () => {});
+    child.stdin?.end(JSON.stringify(payload));
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killCommand(child);
+    }, timeoutMs);
+
+    child.on('error', (err) => finish({ ok: false, detail: err.message }));
+    child.on('close', (code) => {
+      const tail = output.trim() ? `: ${output.trim()}` : '';
+      if (timedOut) finish({ ok: false, detail: `timed out after ${timeoutMs}ms${tail}` });
+      else finish({ ok: code === 0, detail: `exit ${code ?? 'killed'}${tail}` });
+    });
+  });
+}
+
+async function postJson(
+  url: string,
+  payload: HookPayload,
+  timeoutMs: number,
+): Promise<Omit<HookRunResult, 'durationMs'>> {
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'User-Agent': 'ai-sync' },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    return { ok: res.ok, detail: `HTTP ${res.status}` };
+  } catch (err) {
+    if (err instanceof Error && err.name === 'TimeoutError') {
+      return { ok: false, detail: `timed out after ${timeoutMs}ms` };
+    }
+    return { ok: false, detail: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/** Run one hook for an event and record the outcome in the sync log */
+export async function runHook(
+  db: Database.Database,
+  hook: Hook,
+  event: WsEvent,
+  ctx: HookEventContext,
+): Promise<HookRunResult> {
+  const payload = buildPayload(event, ctx);
+  const started = Date.now();
+  const result =
+    hook.action === 'command'
+      ? await runCommand(hook.command ?? '', payload, hook.timeoutMs)
+      : await postJson(hook.url ?? '', payload, hook.timeoutMs);
+  const durationMs = Date.now() - started;
+
+  db.prepare(
+    'INSERT INTO sync_log (id, repo_id, file_path, action, details) VALUES (?, ?, ?, ?, ?)',
+  ).run(
+    uuid(),
+    ctx.target?.id ?? null,
+    ctx.relativePath,
+    result.ok ? 'hook_run' : 'hook_failed',
+    `${hook.name} (${event.type}, ${durationMs}ms): ${result.detail}`,
+  );
+  return { ...result, durationMs };
+}
+
+/**
+ * Runs the hooks matching each sync event in the background, at most
+ * `hook_concurrency` at a time. Events never wait for their hooks.
+ */
+export class HookRunner {
+  private db: Database.Database;
+  private queue: { hook: Hook; event: WsEvent; ctx: HookEventContext }[] = [];
+  private running = 0;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+  }
+
+  dispatch(event: WsEvent): void {
+    let hooks: Hook[];
+    try {
+      hooks = listHooks(this.db).filter((h) => acceptsEvent(h, event));
+      if (hooks.length === 0) return;
+      const ctx = resolveHookContext(this.db, event);
+      for (const hook of hooks.filter((h) => hookMatches(h, event, ctx))) {
+        if (this.queue.length >= MAX_QUEUED_RUNS) {
+          console.warn(`Hook queue full, skipping "${hook.name}" for ${event.type}`);
+          continue;
+        }
+        this.queue.push({ hook, event, ctx });
+      }
+    } catch (err) {
+      console.error('Failed to dispatch hooks:', err);
+      return;
+    }
+    this.pump();
+  }
+
+  /** Resolves once nothing is queued or running */
+  async idle(): Promise<void> {
+    while (this.running > 0 || this.queue.length > 0) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  private pump(): void {
+    const limit = getHookConcurrency(this.db);
+    while (this.running < limit && this.queue.length > 0) {
+      const { hook, event, ctx } = this.queue.shift()!;
+      this.running++;
+      runHook(this.db, hook, event, ctx)
+        .catch((err) => console.error(`Hook "${hook.name}" failed:`, err))
+        .finally(() => {
+          this.running--;
+          this.pump();
+        });
+    }
+  }
+}
@@ -0,0 +1,297 @@
+import type Database from 'better-sqlite3';
+import type { JsonKeyConflict } from '../types/index.js';
+
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+type JsonObject = { [key: string]: Json };
+type KeyPath = (string | number)[];
+
+/** Arrays merged as sets unless configured otherwise: the permission lists of settings.json */
+export const DEFAULT_JSON_UNION_PATHS = [
+  'permissions.allow',
+  'permissions.deny',
+  'permissions.ask',
+];
+
+export interface JsonMergeOptions {
+  /**
+   * Key paths of arrays merged as sets, keeping entries added on either side
+   * and dropping entries removed on either side. `*` matches any one key.
+   * Any other array is replaced as a whole by the side that changed it.
+   */
+  unionPaths?: string[];
+}
+
+export interface JsonMergeResult {
+  /** Merged JSON; a key in conflict keeps the store's value */
+  content: string;
+  conflicts: JsonKeyConflict[];
+}
+
+export function isJsonFile(relativePath: string): boolean {
+  return relativePath.toLowerCase().endsWith('.json');
+}
+
+/** The `json_union_paths` setting: key paths separated by commas or new lines */
+export function parseJsonUnionPaths(value: string | undefined): string[] {
+  if (value === undefined) return DEFAULT_JSON_UNION_PATHS;
+  return value
+    .split(/[,\n]/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+}
+
+export function getJsonUnionPaths(db: Database.Database): string[] {
+  const row = db.prepare("SELECT value FROM settings WHERE key = 'json_union_paths'").get() as
+    | { value: string }
+    | undefined;
+  return parseJsonUnionPaths(row?.value);
+}
+
+function parse(content: string): Json | undefined {
+  try {
+    return JSON.parse(content) as Json;
+  } catch {
+    return undefined;
+  }
+}
+
+function isObject(value: Json | undefined): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function own(obj: JsonObject, key: string): Json | undefined {
+  return Object.hasOwn(obj, key) ? obj[key] : undefined;
+}
+
+/** JSON text with sorted keys, so key order alone is not a change */
+function canonical(value: Json | undefined): string {
+  if (value === undefined) return '';
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (isObject(value)) {
+    const keys = Object.keys(value).sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${canonical(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function same(a: Json | undefined, b: Json | undefined): boolean {
+  return canonical(a) === canonical(b);
+}
+
+/** `mcpServers.github.args[0]`, quoting keys that aren't plain identifiers */
+export function formatKeyPath(keyPath: KeyPath): string {
+  let out = '';
+  for (const key of keyPath) {
+    if (typeof key === 'number') out += `[${key}]`;
+    else if (/^[A-Za-z_$][\w$-]*$/.test(key)) out += out ? `.${key}` : key;
+    else out += `[${JSON.stringify(key)}]`;
+  }
+  return out || '(root)';
+}
+
+function matchesPath(pattern: string, keyPath: KeyPath): boolean {
+  const parts = pattern.split('.');
+  return (
+    parts.length === keyPath.length &&
+    parts.every((part, i) => part === '*' || part === String(keyPath[i]))
+  );
+}
+
+/** Store keys in their order, with keys only the target has after their target neighbour */
+export function mergedKeyOrder(storeKeys: string[], targetKeys: string[]): string[] {
+  const keys = [...storeKeys];
+  let insertAt = 0;
+  for (const key of targetKeys) {
+    const at = keys.indexOf(key);
+    if (at !== -1) {
+      insertAt = at + 1;
+    } else {
+      keys.splice(insertAt, 0, key);
+      insertAt++;
+    }
+  }
+  return keys;
+}
+
+function unionArrays(base: Json[], store: Json[], target: Json[]): Json[] {
+  const has = (list: Json[], item: Json) => list.some((x) => same(x, item));
+  const removed = (item: Json, other: Json[]) => has(base, item) && !has(other, item);
+  const result = store.filter((item) => !removed(item, target));
+  for (const item of target) {
+    if (!has(result, item) && !removed(item, store)) result.push(item);
+  }
+  return result;
+}
+
+interface MergeContext {
+  unionPaths: string[];
+  conflicts: JsonKeyConflict[];
+}
+
+function mergeValue(
+  ctx: MergeContext,
+  keyPath: KeyPath,
+  base: Json | undefined,
+  store: Json | undefined,
+  target: Json | undefined,
+): Json | undefined {
+  if (same(store, target)) return store;
+  if (same(base, store)) return target;
+  if (same(base, target)) return store;
+
+  if (isObject(store) && isObject(target)) {
+    const baseObj = isObject(base) ? base : {};
+    const entries: [string, Json][] = [];
+    for (const key of mergedKeyOrder(Object.keys(store), Object.keys(target))) {
+      const value = mergeValue(
+        ctx,
+        [...keyPath, key],
+        own(baseObj, key),
+        own(store, key),
+        own(target, key),
+      );
+      if (value !== undefined) entries.push([key, value]);
+    }
+    return Object.fromEntries(entries) as JsonObject;
+  }
+
+  if (
+    Array.isArray(store) &&
+    Array.isArray(target) &&
+    ctx.unionPaths.some((p) => matchesPath(p, keyPath))
+  ) {
+    return unionArrays(Array.isArray(base) ? base : [], store, target);
+  }
+
+  const show = (value: Json | undefined) =>
+    value === undefined ? null : JSON.stringify(value, null, 2);
+  ctx.conflicts.push({
+    path: formatKeyPath(keyPath),
+    base: show(base),
+    store: show(store),
+    target: show(target),
+  });
+  return store;
+}
+
+/** Serialize like `like`: same indentation, compact or not, trailing new line or not */
+function stringifyLike(value: Json | undefined, like: string): string {
+  const indent = /^([ \t]+)\S/m.exec(like)?.[1] ?? (like.trim().includes('\n') ? '  ' : '');
+  const text = JSON.stringify(value ?? null, null, indent);
+  return like.endsWith('\n') ? `${text}\n` : text;
+}
+
+/**
+ * Three-way merge of JSON documents key by key, so edits to different keys
+ * never conflict however close they are in the file. Arrays at `unionPaths`
+ * are merged as sets, other arrays and values are taken from the side that
+ * changed them. A value changed differently on both sides is a conflict,
+ * reported with its key path. The result keeps the store's key order and
+ * indentation. Returns null when the store or target isn't valid JSON; an
+ * unreadable base counts as no common ancestor.
+ */
+export function mergeJson(
+  base: string,
+  store: string,
+  target: string,
+  options: JsonMergeOptions = {},
+): JsonMergeResult | null {
+  const storeValue = parse(store);
+  const targetValue = parse(target);
+  if (storeValue === undefined || targetValue === undefined) return null;
+
+  const ctx: MergeContext = {
+    unionPaths: options.unionPaths ?? DEFAULT_JSON_UNION_PATHS,
+    conflicts: [],
+  };
+  const merged = mergeValue(ctx, [], parse(base), storeValue, targetValue);
+  // Keep a side's own formatting when its version is the result
+  let content: string;
+  if (same(merged, storeValue)) content = store;
+  else if (same(merged, targetValue)) content = target;
+  else content = stringifyLike(merged, store);
+  return { content, conflicts: ctx.conflicts };
+}
+
+function withOverlay(base: Json | undefined, overlay: Json): Json {
+  if (!isObject(base) || !isObject(overlay)) return overlay;
+  const result: JsonObject = { ...base };
+  for (const [key, value] of Object.entries(overlay)) {
+    result[key] = withOverlay(own(base, key), value);
+  }
+  return result;
+}
+
+/**
+ * A shared JSON file with a machine's overlay merged over it: objects are
+ * merged key by key, anything else in the overlay replaces the shared value.
+ * Keeps the shared file's formatting. Returns null when either isn't valid
+ * JSON or the overlay isn't an object.
+ */
+export function applyJsonOverlay(base: string, overlay: string): string | null {
+  const baseValue = base.trim() === '' ? {} : parse(base);
+  const overlayValue = parse(overlay);
+  if (baseValue === undefined || !isObject(overlayValue)) return null;
+  const merged = withOverlay(baseValue, overlayValue);
+  return same(merged, baseValue) ? base : stringifyLike(merged, base || overlay);
+}
+
+function splitValue(
+  base: Json | undefined,
+  overlay: JsonObject,
+  target: JsonObject,
+): { base: JsonObject; overlay: JsonObject } {
+  const nextBase: JsonObject = { ...target };
+  const nextOverlay: JsonObject = {};
+  const baseObj = isObject(base) ? base : {};
+  for (const [key, value] of Object.entries(overlay)) {
+    const targetValue = own(target, key);
+    const baseValue = own(baseObj, key);
+    if (isObject(value) && isObject(targetValue)) {
+      const split = splitValue(baseValue, value, targetValue);
+      if (baseValue !== undefined || Object.keys(split.base).length > 0) {
+        nextBase[key] = split.base;
+      } else {
+        delete nextBase[key];
+      }
+      if (Object.keys(split.overlay).length > 0) nextOverlay[key] = split.overlay;
+      continue;
+    }
+    // A key the overlay sets keeps its shared value; the edit goes to the overlay
+    if (baseValue === undefined) delete nextBase[key];
+    else nextBase[key] = baseValue;
+    if (targetValue !== undefined) nextOverlay[key] = targetValue;
+  }
+  return { base: nextBase, overlay: nextOverlay };
+}
+
+/**
+ * The reverse of applyJsonOverlay: split an edited machine file into the
+ * shared file and the overlay. Keys the overlay sets stay machine-specific and
+ * take their edited values (a removed key leaves the overlay); every other
+ * edit goes to the shared file. Returns null when any of them isn't a valid
+ * JSON object.
+ */
+export function splitJsonOverlay(
+  base: string,
+  overlay: string,
+  target: string,
+): { base: string; overlay: string } | null {
+  const baseValue = base.trim() === '' ? {} : parse(base);
+  const overlayValue = parse(overlay);
+  const targetValue = parse(target);
+  if (baseValue === undefined || !isObject(overlayValue) || !isObject(targetValue)) return null;
+
+  const split = splitValue(baseValue, overlayValue, targetValue);
+  return {
+    base: same(split.base, baseValue) ? base : stringifyLike(split.base, base || target),
+    overlay: same(split.overlay, overlayValue) ? overlay : stringifyLike(split.overlay, overlay),
+  };
+}
+
+/** Whether two JSON texts hold the same value, ignoring formatting and key order */
+export function sameJson(a: string, b: string): boolean {
+  const aValue = parse(a);
+  const bValue = parse(b);
+  return aValue !== undefined && bValue !== undefined && same(aValue, bValue);
+}
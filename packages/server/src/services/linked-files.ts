@@ -0,0 +1,177 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type Database from 'better-sqlite3';
+import { v4 as uuid } from 'uuid';
+import { config } from '../config.js';
+import type { SyncStatus } from '../types/index.js';
+import { safeJoin, PathTraversalError } from '../utils/safe-path.js';
+
+/**
+ * repo_settings key prefix declaring a repo file a live copy of a shared
+ * store file: `link:<relativePath>` → `<sharedPath>` (relative to `shared/`)
+ */
+export const LINK_KEY_PREFIX = 'link:';
+
+export class LinkedFileError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: 400 | 404 | 409 = 400,
+  ) {
+    super(message);
+    this.name = 'LinkedFileError';
+  }
+}
+
+export interface FileLink {
+  repoId: string;
+  relativePath: string;
+}
+
+export interface SharedFileLink extends FileLink {
+  repoName: string;
+  /** Sync status of the repo's copy, or null when the repo no longer tracks it */
+  syncStatus: SyncStatus | null;
+}
+
+export interface SharedFile {
+  path: string;
+  links: SharedFileLink[];
+}
+
+/** Absolute path of a shared file. Throws LinkedFileError for paths outside `shared/`. */
+export function sharedFilePath(sharedPath: string): string {
+  const normalized = sharedPath.replace(/\\/g, '/').replace(/^\/+/, '');
+  if (!normalized || normalized.endsWith('/')) {
+    throw new LinkedFileError(`Invalid shared file path: ${sharedPath}`);
+  }
+  try {
+    return safeJoin(config.storeSharedPath, normalized);
+  } catch (err) {
+    if (err instanceof PathTraversalError) {
+      throw new LinkedFileError(`Invalid shared file path: ${sharedPath}`);
+    }
+    throw err;
+  }
+}
+
+/** Normalized form of a shared path as stored in links */
+export function normalizeSharedPath(sharedPath: string): string {
+  return path.relative(config.storeSharedPath, sharedFilePath(sharedPath)).replace(/\\/g, '/');
+}
+
+/** A repo's linked files: relative path → shared path */
+export function getRepoLinks(db: Database.Database, repoId: string): Map<string, string> {
+  const rows = db
+    .prepare("SELECT key, value FROM repo_settings WHERE repo_id = ? AND key LIKE 'link:%'")
+    .all(repoId) as { key: string; value: string }[];
+  return new Map(rows.map((r) => [r.key.slice(LINK_KEY_PREFIX.length), r.value]));
+}
+
+export function getFileLink(
+  db: Database.Database,
+  repoId: string,
+  relativePath: string,
+): string | null {
+  const row = db
+    .prepare('SELECT value FROM repo_settings WHERE repo_id = ? AND key = ?')
+    .get(repoId, `${LINK_KEY_PREFIX}${relativePath}`) as { value: string } | undefined;
+  return row?.value ?? null;
+}
+
+/**
+ * Link (or with null, unlink) a repo file. Stored in repo_settings, so it
+ * syncs. Forgets the shared version the file last matched, so on the next
+ * sync the shared file wins.
+ */
+export function setFileLink(
+  db: Database.Database,
+  repoId: string,
+  relativePath: string,
+  sharedPath: string | null,
+): void {
+  const key = `${LINK_KEY_PREFIX}${relativePath}`;
+  db.prepare('DELETE FROM repo_settings WHERE repo_id = ? AND key = ?').run(repoId, key);
+  db.prepare(
+    'UPDATE tracked_files SET shared_checksum = NULL WHERE repo_id = ? AND relative_path = ?',
+  ).run(repoId, relativePath);
+  if (sharedPath) {
+    db.prepare('INSERT INTO repo_settings (id, repo_id, key, value) VALUES (?, ?, ?, ?)').run(
+      uuid(),
+      repoId,
+      key,
+      sharedPath,
+    );
+  }
+}
+
+/** Every repo file linked to a shared file */
+export function getSharedFileLinks(db: Database.Database, sharedPath: string): FileLink[] {
+  const rows = db
+    .prepare(
+      "SELECT repo_id, key FROM repo_settings WHERE key LIKE 'link:%' AND value = ? ORDER BY repo_id, key",
+    )
+    .all(sharedPath) as { repo_id: string; key: string }[];
+  return rows.map((r) => ({
+    repoId: r.repo_id,
+    relativePath: r.key.slice(LINK_KEY_PREFIX.length),
+  }));
+}
+
+async function listDir(dir: string, base = ''): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const result: string[] = [];
+  for (const entry of entries) {
+    const rel = base ? `${base}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      result.push(...(await listDir(path.join(dir, entry.name), rel)));
+    } else if (entry.isFile()) {
+      result.push(rel);
+    }
+  }
+  return result;
+}
+
+/**
+ * Shared files with the repo files linked to them. Links whose shared file
+ * is gone are listed too, so they can be removed.
+ */
+export async function listSharedFiles(db: Database.Database): Promise<SharedFile[]> {
+  const rows = db
+    .prepare(
+      `SELECT rs.repo_id, rs.key, rs.value, r.name AS repo_name, tf.sync_status
+       FROM repo_settings rs
+       JOIN repos r ON r.id = rs.repo_id
+       LEFT JOIN tracked_files tf
+         ON tf.repo_id = rs.repo_id AND tf.relative_path = substr(rs.key, ${LINK_KEY_PREFIX.length + 1})
+       WHERE rs.key LIKE 'link:%'
+       ORDER BY r.name, rs.key`,
+    )
+    .all() as {
+    repo_id: string;
+    key: string;
+    value: string;
+    repo_name: string;
+    sync_status: SyncStatus | null;
+  }[];
+
+  const files = new Map<string, SharedFileLink[]>();
+  for (const file of await listDir(config.storeSharedPath)) files.set(file, []);
+  for (const row of rows) {
+    const links = files.get(row.value) ?? [];
+    links.push({
+      repoId: row.repo_id,
+      repoName: row.repo_name,
+      relativePath: row.key.slice(LINK_KEY_PREFIX.length),
+      syncStatus: row.sync_status,
+    });
+    files.set(row.value, links);
+  }
+  return [...files.entries()]
+    .map(([file, links]) => ({ path: file, links }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
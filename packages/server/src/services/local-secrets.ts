@@ -0,0 +1,143 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { config } from '../config.js';
+
+/** Secret name → value, as stored in the machine-local secrets file */
+export type LocalSecrets = Record<string, string>;
+
+export const SECRET_NAME_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const SECRET_PLACEHOLDER_RE = /\$\{secret:([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/** Shorter values turn up in ordinary text too often to stand for a secret */
+export const MIN_SECRET_VALUE_LENGTH = 8;
+
+/** Values common in config files that no real secret would be */
+const GENERIC_SECRET_VALUES = new Set([
+  'undefined',
+  'localhost',
+  '127.0.0.1',
+  'password',
+  'changeme',
+  'username',
+  'development',
+  'production',
+]);
+
+let cache: { mtimeMs: number; size: number; secrets: LocalSecrets } | null = null;
+
+/**
+ * Read the secrets file (`~/.ai-sync/secrets.json`). It lives next to the app
+ * config rather than in the data dir, so it is never committed to the store.
+ * Cached until the file changes, since it is consulted on every sync.
+ */
+export function readLocalSecrets(): LocalSecrets {
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(config.localSecretsPath);
+  } catch {
+    cache = null;
+    return {};
+  }
+  if (cache && cache.mtimeMs === stat.mtimeMs && cache.size === stat.size) {
+    return cache.secrets;
+  }
+
+  let secrets: LocalSecrets = {};
+  try {
+    const parsed = JSON.parse(fs.readFileSync(config.localSecretsPath, 'utf-8'));
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      secrets = Object.fromEntries(
+        Object.entries(parsed).filter(
+          (e): e is [string, string] => SECRET_NAME_RE.test(e[0]) && typeof e[1] === 'string',
+        ),
+      );
+    }
+  } catch {
+    // Unreadable or invalid JSON — behave as if no secrets are defined
+  }
+  cache = { mtimeMs: stat.mtimeMs, size: stat.size, secrets };
+  return secrets;
+}
+
+export function writeLocalSecrets(secrets: LocalSecrets): void {
+  const sorted: LocalSecrets = {};
+  for (const key of Object.keys(secrets).sort()) {
+    sorted[key] = secrets[key];
+  }
+  fs.mkdirSync(path.dirname(config.localSecretsPath), { recursive: true });
+  fs.writeFileSync(config.localSecretsPath, JSON.stringify(sorted, null, 2) + '\n', {
+    encoding: 'utf-8',
+    mode: 0o600,
+  });
+  cache = null;
+}
+
+export function setLocalSecret(name: string, value: string): void {
+  writeLocalSecrets({ ...readLocalSecrets(), [name]: value });
+}
+
+export function deleteLocalSecret(name: string): boolean {
+  const secrets = { ...readLocalSecrets() };
+  if (!(name in secrets)) return false;
+  delete secrets[name];
+  writeLocalSecrets(secrets);
+  return true;
+}
+
+/**
+ * Why a value can't be used as a secret, or null if it can. Values are
+ * swapped for placeholders wherever they appear in a file, so they must be
+ * unlikely to appear there by chance.
+ */
+export function secretValueError(value: string): string | null {
+  if (value.trim().length < MIN_SECRET_VALUE_LENGTH) {
+    return `Secret values must be at least ${MIN_SECRET_VALUE_LENGTH} characters long`;
+  }
+  if (/^\d+$/.test(value) || GENERIC_SECRET_VALUES.has(value.toLowerCase())) {
+    return 'This value is too common to tell apart from ordinary text';
+  }
+  return null;
+}
+
+/** Names of all `${secret:NAME}` placeholders in the content */
+export function findSecretPlaceholders(content: string): string[] {
+  return [...new Set(Array.from(content.matchAll(SECRET_PLACEHOLDER_RE), (m) => m[1]))];
+}
+
+/**
+ * Store → target: substitute `${secret:NAME}` with this machine's value.
+ * Placeholders with no local value are left as-is.
+ */
+export function expandSecretPlaceholders(content: string, secrets: LocalSecrets): string {
+  if (!content.includes('${secret:')) return content;
+  return content.replace(SECRET_PLACEHOLDER_RE, (placeholder, name: string) =>
+    Object.hasOwn(secrets, name) ? secrets[name] : placeholder,
+  );
+}
+
+/**
+ * Target → store: turn known secret values back into `${secret:NAME}` so the
+ * store copy is the same on every machine. Only secrets whose placeholder the
+ * store copy already has are collapsed, so a value that happens to appear in
+ * some other file is left alone there. Longer values are replaced first, so a
+ * value that contains another one is still matched whole.
+ */
+export function collapseSecretValues(
+  content: string,
+  secrets: LocalSecrets,
+  storeContent: string | null,
+): string {
+  if (!storeContent?.includes('${secret:')) return content;
+  const names = new Set(findSecretPlaceholders(storeContent));
+  const entries = Object.entries(secrets)
+    .filter(([name, value]) => names.has(name) && value !== '')
+    .sort((a, b) => b[1].length - a[1].length);
+  let result = content;
+  for (const [name, value] of entries) {
+    if (result.includes(value)) {
+      result = result.split(value).join(`\${secret:${name}}`);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,110 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { config } from '../config.js';
+import type { MachineVariant, MachineVariantKind } from '../types/index.js';
+
+const OVERLAY_SUFFIX = '.overlay.json';
+
+/** `<file>@<machineId>` or `<file>@<machineId>.overlay.json`; machine ids are UUIDs */
+const VARIANT_PATH_RE =
+  /^(.+)@([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})(\.overlay\.json)?$/;
+
+export class MachineVariantError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: 400 | 404 | 409 = 400,
+  ) {
+    super(message);
+    this.name = 'MachineVariantError';
+  }
+}
+
+export function parseVariantPath(
+  relativePath: string,
+): Pick<MachineVariant, 'relativePath' | 'machineId' | 'kind'> | null {
+  const match = VARIANT_PATH_RE.exec(relativePath);
+  if (!match) return null;
+  return {
+    relativePath: match[1],
+    machineId: match[2],
+    kind: match[3] ? 'overlay' : 'file',
+  };
+}
+
+/** Store files holding a machine's variant are never tracked or synced as files of their own */
+export function isVariantPath(relativePath: string): boolean {
+  return VARIANT_PATH_RE.test(relativePath);
+}
+
+export function variantPath(
+  relativePath: string,
+  machineId: string,
+  kind: MachineVariantKind,
+): string {
+  return `${relativePath}@${machineId}${kind === 'overlay' ? OVERLAY_SUFFIX : ''}`;
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.lstat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The variant a machine uses for a file, if any. A whole-file variant wins
+ * over an overlay when both exist.
+ */
+export async function findMachineVariant(
+  storeDir: string,
+  relativePath: string,
+  machineId = config.machineId,
+): Promise<{ kind: MachineVariantKind; path: string } | null> {
+  if (!machineId) return null;
+  for (const kind of ['file', 'overlay'] as const) {
+    const variant = path.join(storeDir, variantPath(relativePath, machineId, kind));
+    if (await isFile(variant)) return { kind, path: variant };
+  }
+  return null;
+}
+
+/**
+ * Every machine's variants in a repo or service store folder, by file.
+ * `machineNames` maps machine ids to names, as in machines.json.
+ */
+export async function listMachineVariants(
+  storeDir: string,
+  machineNames: Record<string, { name: string }> = {},
+): Promise<MachineVariant[]> {
+  const entries = await fs.readdir(storeDir, { recursive: true }).catch(() => [] as string[]);
+
+  const variants: MachineVariant[] = [];
+  for (const entry of entries) {
+    const parsed = parseVariantPath(entry.split(path.sep).join('/'));
+    if (!parsed || !(await isFile(path.join(storeDir, entry)))) continue;
+    variants.push({
+      ...parsed,
+      machineName: machineNames[parsed.machineId]?.name ?? parsed.machineId,
+      thisMachine: parsed.machineId === config.machineId,
+    });
+  }
+  return variants.sort(
+    (a, b) =>
+      a.relativePath.localeCompare(b.relativePath) || a.machineName.localeCompare(b.machineName),
+  );
+}
+
+/** This machine's variant kind per file, for marking files in listings */
+export async function getActiveVariants(
+  storeDir: string,
+): Promise<Map<string, MachineVariantKind>> {
+  const active = new Map<string, MachineVariantKind>();
+  for (const variant of await listMachineVariants(storeDir)) {
+    // A whole-file variant wins over an overlay
+    if (variant.thisMachine && active.get(variant.relativePath) !== 'file') {
+      active.set(variant.relativePath, variant.kind);
+    }
+  }
+  return active;
+}
@@ -17,9 +17,23 @@ import { scanRepoForAIFiles, ensureDir } from './repo-scanner.js';
 import { fileChecksum, symlinkChecksum } from './checksum.js';
 import { getFileMtime, getSymlinkMtime, fileExists, symlinkExists } from './repo-scanner.js';
 import { setupGitignore } from './gitignore-manager.js';
-import { getRepoEnabledFilePatterns } from '../db/index.js';
-import { applyOverridesForRepo, applyOverridesForService } from './sync-settings.js';
-import { getServiceDefinition, registerCustomDefinition } from './service-definitions.js';
+import { isVariantPath } from './machine-variants.js';
+import { expandIgnorePatterns, getRepoEnabledFilePatterns } from '../db/index.js';
+import {
+  applyOverridesForRepo,
+  applyOverridesForService,
+  syncSettingsUpdateRepo,
+} from './sync-settings.js';
+import { applyTemplate, setRepoTemplate } from './templates.js';
+import { buildTemplateVariables } from './template-renderer.js';
+import { commitTemplateSnapshot } from './template-drift.js';
+import {
+  fromPortablePath,
+  getServiceDefinition,
+  parseServiceStorePath,
+  registerCustomDefinition,
+  serviceInstanceName,
+} from './service-definitions.js';
 import { scanServiceFiles } from './service-scanner.js';
 import { queueStoreCommit } from './store-git.js';
 
@@ -42,6 +56,7 @@ export function readMachinesFile(): MachinesFile {
       machines: parsed.machines ?? {},
       repos: parsed.repos ?? {},
       services: parsed.services ?? {},
+      ...(parsed.carriedBy && { carriedBy: parsed.carriedBy }),
     };
   } catch {
     return emptyMachinesFile();
@@ -56,6 +71,10 @@ export function writeMachinesFile(data: MachinesFile): void {
     repos: sortKeys(data.repos),
     services: sortKeys(data.services),
   };
+  // Only stores that use machine groups get the key
+  if (data.carriedBy && Object.keys(data.carriedBy).length > 0) {
+    sorted.carriedBy = sortKeys(data.carriedBy);
+  }
   fs.writeFileSync(filePath, JSON.stringify(sorted, null, 2) + '\n', 'utf-8');
   queueStoreCommit('Update machines.json');
 }
@@ -96,6 +115,7 @@ export function registerCurrentMachine(): void {
 
   if (needsWrite) {
     data.machines[config.machineId] = {
+      ...existing,
       name: config.machineName,
       lastSeen: now.toISOString(),
     };
@@ -122,6 +142,7 @@ export function removeRepoMapping(storePath: string, machineId?: string): void {
     }
   } else {
     delete data.repos[storePath];
+    delete data.carriedBy?.[storePath];
   }
   writeMachinesFile(data);
 }
@@ -145,10 +166,73 @@ export function removeServiceMapping(storePath: string, machineId?: string): voi
     }
   } else {
     delete data.services[storePath];
+    delete data.carriedBy?.[storePath];
+  }
+  writeMachinesFile(data);
+}
+
+const MACHINE_TAG_RE = /^[a-z0-9][\w.-]*$/;
+
+/**
+ * Machine tags are lowercase names such as `work` or `home`. Returns the
+ * sorted, de-duplicated tags, or null when an entry isn't a valid name.
+ */
+export function normalizeMachineTags(tags: unknown): string[] | null {
+  if (!Array.isArray(tags)) return null;
+  const normalized = new Set<string>();
+  for (const tag of tags) {
+    if (typeof tag !== 'string') return null;
+    const name = tag.trim().toLowerCase();
+    if (!MACHINE_TAG_RE.test(name)) return null;
+    normalized.add(name);
   }
+  return [...normalized].sort();
+}
+
+/** Returns false when machines.json doesn't know the machine */
+export function setMachineTags(machineId: string, tags: string[]): boolean {
+  const data = readMachinesFile();
+  const machine = data.machines[machineId];
+  if (!machine) return false;
+  if (tags.length > 0) machine.tags = tags;
+  else delete machine.tags;
+  writeMachinesFile(data);
+  return true;
+}
+
+/** The machine tags a repo or service is meant for; empty means every machine */
+export function getCarriedBy(storePath: string): string[] {
+  return readMachinesFile().carriedBy?.[storePath] ?? [];
+}
+
+export function setCarriedBy(storePath: string, tags: string[]): void {
+  const data = readMachinesFile();
+  const current = data.carriedBy?.[storePath] ?? [];
+  if (current.join(',') === tags.join(',')) return;
+  data.carriedBy = { ...data.carriedBy, [storePath]: tags };
+  if (tags.length === 0) delete data.carriedBy[storePath];
   writeMachinesFile(data);
 }
 
+/**
+ * Whether a machine should carry a repo or service: always when it has no
+ * rule, otherwise when the machine has one of the rule's tags.
+ */
+export function machineCarries(
+  data: MachinesFile,
+  storePath: string,
+  machineId = config.machineId,
+): boolean {
+  const tags = data.carriedBy?.[storePath];
+  if (!tags || tags.length === 0) return true;
+  const machineTags = data.machines[machineId]?.tags ?? [];
+  return tags.some((tag) => machineTags.includes(tag));
+}
+
+/**
+ * Store repos not registered on this machine. Repos meant for machine groups
+ * this machine isn't in are left out.
+ */
 export async function getUnlinkedStoreRepos(db: Database.Database): Promise<UnlinkedStoreRepo[]> {
   const machinesData = readMachinesFile();
   const registeredRepos = mapRows<Repo>(db.prepare('SELECT * FROM repos').all());
@@ -168,6 +252,7 @@ export async function getUnlinkedStoreRepos(db: Database.Database): Promise<Unli
     if (entry === '_default') continue;
     const storePath = `repos/${entry}`;
     if (registeredStorePaths.has(storePath)) continue;
+    if (!machineCarries(machinesData, storePath)) continue;
 
     const fullPath = path.join(config.storeReposPath, entry);
     const stat = await fsPromises.stat(fullPath).catch(() => null);
@@ -206,6 +291,7 @@ export async function getUnlinkedStoreRepos(db: Database.Database): Promise<Unli
   return unlinked;
 }
 
+/** Store services not registered on this machine, filtered by machine groups like repos */
 export async function getUnlinkedStoreServices(
   db: Database.Database,
 ): Promise<UnlinkedStoreService[]> {
@@ -224,13 +310,21 @@ export async function getUnlinkedStoreServices(
     return [];
   }
 
+  // Custom services registered without a local path have metadata but may
+  // have no store folder yet (git does not keep empty folders)
+  const servicesJson = readServicesJson();
+  for (const serviceType of Object.keys(servicesJson)) {
+    if (!entries.includes(serviceType)) entries.push(serviceType);
+  }
+
   for (const entry of entries) {
     const storePath = `services/${entry}`;
     if (registeredStorePaths.has(storePath)) continue;
+    if (!machineCarries(machinesData, storePath)) continue;
 
     const fullPath = path.join(config.storeServicesPath, entry);
     const stat = await fsPromises.stat(fullPath).catch(() => null);
-    if (!stat || !stat.isDirectory()) continue;
+    if (!servicesJson[entry] && (!stat || !stat.isDirectory())) continue;
 
     const mappings = machinesData.services[storePath] ?? {};
     const otherMachines: UnlinkedStoreService['otherMachines'] = [];
@@ -252,16 +346,22 @@ export async function getUnlinkedStoreServices(
       }
     }
 
-    const definition = getServiceDefinition(entry);
+    // Only the first instance of a type suggests the type's default path
+    const { serviceType, instance } = parseServiceStorePath(entry);
+    const definition = getServiceDefinition(serviceType);
+    const meta = servicesJson[serviceType];
+    const defaultPath =
+      definition?.defaultPath ?? (meta?.defaultPath ? fromPortablePath(meta.defaultPath) : null);
+    const typeName = definition?.name ?? meta?.name ?? null;
     unlinked.push({
       storePath,
       storeName: entry,
-      serviceType: entry,
+      serviceType,
       otherMachines,
       suggestedPath,
       pathExists,
-      defaultPath: definition?.defaultPath ?? null,
-      serviceName: definition?.name ?? null,
+      defaultPath: instance ? null : defaultPath,
+      serviceName: typeName && serviceInstanceName(typeName, instance),
     });
   }
 
@@ -305,7 +405,8 @@ export function seedMachinesFile(db: Database.Database): void {
 
 /**
  * Auto-link store repos that have mappings for the current machine.
- * Only links repos where the local path exists and the repo isn't already registered.
+ * Only links repos where the local path exists and the repo isn't already registered,
+ * and never repos meant for other machine groups.
  */
 export async function autoLinkRepos(db: Database.Database): Promise<AutoLinkResult[]> {
   const unlinked = await getUnlinkedStoreRepos(db);
@@ -347,18 +448,27 @@ export async function autoLinkRepos(db: Database.Database): Promise<AutoLinkResu
 /**
  * Link an existing store repo to a local path on this machine.
  * Similar to POST /api/repos but skips store directory creation.
+ * A template only adds files the store repo doesn't have yet.
  */
 export async function linkStoreRepo(
   db: Database.Database,
   storePath: string,
   localPath: string,
   name?: string,
+  template?: string,
 ): Promise<string> {
   const storeName = storePath.replace(/^repos\//, '');
   const repoName = name || storeName;
   const storeDir = path.join(config.storeReposPath, storeName);
   const repoId = uuid();
 
+  let templateCommit: string | null = null;
+  if (template) {
+    templateCommit = await commitTemplateSnapshot();
+    const vars = await buildTemplateVariables({ name: repoName, localPath }, {});
+    await applyTemplate(template, storeDir, vars);
+  }
+
   // Register the repo in DB
   db.prepare(
     'INSERT INTO repos (id, name, local_path, store_path, status) VALUES (?, ?, ?, ?, ?)',
@@ -465,13 +575,21 @@ export async function linkStoreRepo(
   // Apply deferred settings overrides from sync-settings.json
   applyOverridesForRepo(db, storePath);
 
+  if (template) {
+    setRepoTemplate(db, repoId, { name: template, commit: templateCommit });
+    syncSettingsUpdateRepo(db, storePath);
+  }
+
   return repoId;
 }
 
-interface ServiceMeta {
+export interface ServiceMeta {
   name: string;
   patterns: string[];
   description?: string;
+  /** Suggested local path, with the home directory written as `~` */
+  defaultPath?: string;
+  ignorePatterns?: string[];
 }
 
 interface ServicesJsonFile {
@@ -512,7 +630,7 @@ export function writeServiceMeta(serviceType: string, meta: ServiceMeta): void {
 /**
  * Read metadata for a custom service from services/services.json.
  */
-function readServiceMeta(serviceType: string): ServiceMeta | null {
+export function readServiceMeta(serviceType: string): ServiceMeta | null {
   const data = readServicesJson();
   return data[serviceType] ?? null;
 }
@@ -528,6 +646,24 @@ export function removeServiceMeta(serviceType: string): void {
   }
 }
 
+/**
+ * Remove metadata for a custom service type once none of its instances is
+ * registered on this machine or left in the store.
+ */
+export async function removeUnusedServiceMeta(
+  db: Database.Database,
+  serviceType: string,
+): Promise<void> {
+  const registered = db
+    .prepare('SELECT id FROM service_configs WHERE service_type = ?')
+    .get(serviceType);
+  if (registered) return;
+
+  const entries = await fsPromises.readdir(config.storeServicesPath).catch(() => []);
+  if (entries.some((entry) => parseServiceStorePath(entry).serviceType === serviceType)) return;
+  removeServiceMeta(serviceType);
+}
+
 /**
  * Link an existing store service to a local path on this machine.
  * Similar to POST /api/services but reuses existing store files.
@@ -537,12 +673,13 @@ export async function linkStoreService(
   storePath: string,
   localPath: string,
 ): Promise<string> {
-  const serviceType = storePath.replace(/^services\//, '');
-  const storeDir = path.join(config.storeServicesPath, serviceType);
+  const { serviceType, instance } = parseServiceStorePath(storePath);
+  const storeDir = path.join(config.storeServicesPath, storePath.replace(/^services\//, ''));
 
   // Look up definition (built-in or custom via metadata)
   let definition = getServiceDefinition(serviceType);
   let customPatterns: string[] | null = null;
+  let customIgnorePatterns: string[] = [];
 
   if (!definition) {
     // Custom service — read metadata from services.json
@@ -553,6 +690,7 @@ export async function linkStoreService(
       );
     }
     customPatterns = meta.patterns;
+    customIgnorePatterns = meta.ignorePatterns ?? [];
     registerCustomDefinition({
       serviceType,
       name: meta.name,
@@ -562,7 +700,7 @@ export async function linkStoreService(
     definition = getServiceDefinition(serviceType)!;
   }
 
-  const serviceName = definition.name;
+  const serviceName = serviceInstanceName(definition.name, instance);
   const serviceId = uuid();
 
   // Get patterns to scan with
@@ -595,10 +733,17 @@ export async function linkStoreService(
     for (const p of customPatterns) {
       insertSetting.run(uuid(), serviceId, `service_pattern_custom:${p}`, 'enabled');
     }
+    for (const p of customIgnorePatterns) {
+      insertSetting.run(uuid(), serviceId, `service_ignore_custom:${p}`, 'enabled');
+    }
   }
 
   // Scan for files matching service patterns in the local directory
-  const foundEntries = await scanServiceFiles(localPath, patterns);
+  const foundEntries = await scanServiceFiles(
+    localPath,
+    patterns,
+    expandIgnorePatterns(customIgnorePatterns),
+  );
 
   // Track and sync found files
   for (const entry of foundEntries) {
@@ -727,10 +872,10 @@ export async function autoLinkServices(db: Database.Database): Promise<AutoLinkR
       continue;
     }
 
-    // Check not already registered by service_type
+    // Check not already registered, or the path not already used by another instance
     const existing = db
-      .prepare('SELECT id FROM service_configs WHERE service_type = ?')
-      .get(item.serviceType);
+      .prepare('SELECT id FROM service_configs WHERE store_path = ? OR local_path = ?')
+      .get(item.storePath, tryPath);
     if (existing) {
       results.push({
         storePath: item.storePath,
@@ -755,7 +900,7 @@ async function listStoreFiles(dir: string, base = ''): Promise<string[]> {
       const rel = base ? `${base}/${entry.name}` : entry.name;
       if (entry.isDirectory()) {
         result.push(...(await listStoreFiles(path.join(dir, entry.name), rel)));
-      } else {
+      } else if (!isVariantPath(rel)) {
         result.push(rel);
       }
     }
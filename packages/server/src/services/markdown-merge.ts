@@ -0,0 +1,214 @@
+import type { MarkdownSectionConflict } from '../types/index.js';
+import { gitMergeFile } from './store-git.js';
+import { mergedKeyOrder } from './json-merge.js';
+
+interface Section {
+  /** Matches the section across versions: the heading, numbered when repeated */
+  key: string;
+  /** The heading line and the lines up to the next heading */
+  text: string;
+  children: Section[];
+}
+
+interface Heading {
+  level: number;
+  title: string;
+}
+
+export interface MarkdownMergeResult {
+  content: string;
+  conflicts: MarkdownSectionConflict[];
+}
+
+export function isMarkdownFile(relativePath: string): boolean {
+  return /\.(md|mdc|markdown)$/i.test(relativePath);
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s/;
+
+function parseHeading(line: string): Heading | null {
+  const match = HEADING.exec(line);
+  return match ? { level: match[1].length, title: (match[2] ?? '').trim() } : null;
+}
+
+/** Split into a tree of sections by ATX headings, ignoring `#` lines in code fences */
+function parseSections(content: string): Section {
+  const root: Section = { key: '', text: '', children: [] };
+  const stack: { section: Section; level: number }[] = [{ section: root, level: 0 }];
+  const keyCounts = new Map<Section, Map<string, number>>();
+  let fence: string | null = null;
+
+  for (const line of content.split(/(?<=\n)/)) {
+    const fenceMatch = FENCE.exec(line);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (fence === null) fence = marker;
+      else if (marker[0] === fence[0] && marker.length >= fence.length) fence = null;
+    }
+    const heading = fence === null && !fenceMatch ? parseHeading(line.replace(/\r?\n$/, '')) : null;
+    if (!heading) {
+      stack[stack.length - 1].section.text += line;
+      continue;
+    }
+
+    while (stack[stack.length - 1].level >= heading.level) stack.pop();
+    const parent = stack[stack.length - 1].section;
+    const counts = keyCounts.get(parent) ?? new Map<string, number>();
+    keyCounts.set(parent, counts);
+    const baseKey = `${'#'.repeat(heading.level)} ${heading.title}`;
+    const n = (counts.get(baseKey) ?? 0) + 1;
+    counts.set(baseKey, n);
+
+    const section: Section = {
+      key: n > 1 ? `${baseKey} (${n})` : baseKey,
+      text: line,
+      children: [],
+    };
+    parent.children.push(section);
+    stack.push({ section, level: heading.level });
+  }
+  return root;
+}
+
+function render(section: Section | undefined): string | undefined {
+  if (!section) return undefined;
+  return section.text + section.children.map((c) => render(c)).join('');
+}
+
+function childMap(section: Section | undefined): Map<string, Section> {
+  return new Map((section?.children ?? []).map((c) => [c.key, c]));
+}
+
+/** Where `side` only inserts lines into `base`: the insertion point and the lines */
+function insertion(base: string[], side: string[]): { at: number; lines: string[] } | null {
+  if (side.length <= base.length) return null;
+  let prefix = 0;
+  while (prefix < base.length && base[prefix] === side[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < base.length - prefix &&
+    base[base.length - 1 - suffix] === side[side.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  if (prefix + suffix !== base.length) return null;
+  return { at: prefix, lines: side.slice(prefix, side.length - suffix) };
+}
+
+/**
+ * Both sides added items to the end of the same list: keep the store's items,
+ * then the target's ones the store doesn't have
+ */
+function combineListAppends(base: string, store: string, target: string): string | null {
+  const baseLines = base.split('\n');
+  const storeAdded = insertion(baseLines, store.split('\n'));
+  const targetAdded = insertion(baseLines, target.split('\n'));
+  if (!storeAdded || !targetAdded || storeAdded.at !== targetAdded.at) return null;
+
+  const after = baseLines[storeAdded.at - 1];
+  const isListLine = (line: string) => LIST_ITEM.test(line) || /^\s+\S/.test(line);
+  const isAppend = (lines: string[]) =>
+    LIST_ITEM.test(lines[0]) && lines.every((l) => l.trim() === '' || isListLine(l));
+  if (after === undefined || !isListLine(after)) return null;
+  if (!isAppend(storeAdded.lines) || !isAppend(targetAdded.lines)) return null;
+
+  const added = [
+    ...storeAdded.lines,
+    ...targetAdded.lines.filter((l) => l.trim() === '' || !storeAdded.lines.includes(l)),
+  ];
+  return [...baseLines.slice(0, storeAdded.at), ...added, ...baseLines.slice(storeAdded.at)].join(
+    '\n',
+  );
+}
+
+interface MergeContext {
+  out: string;
+  conflicts: MarkdownSectionConflict[];
+}
+
+function emit(ctx: MergeContext, text: string): void {
+  // A section moved up from the end of the file may lack its new line
+  if (ctx.out && !ctx.out.endsWith('\n')) ctx.out += '\n';
+  ctx.out += text;
+}
+
+function recordConflict(ctx: MergeContext, section: Section): void {
+  // The root section, text before the first heading, has an empty key
+  ctx.conflicts.push({ heading: section.key, line: ctx.out.split('\n').length });
+}
+
+const withNewline = (text: string) => (text === '' || text.endsWith('\n') ? text : `${text}\n`);
+
+async function mergeSection(
+  ctx: MergeContext,
+  base: Section | undefined,
+  store: Section | undefined,
+  target: Section | undefined,
+): Promise<void> {
+  const [baseText, storeText, targetText] = [render(base), render(store), render(target)];
+  if (storeText === targetText || baseText === targetText) {
+    if (storeText !== undefined) emit(ctx, storeText);
+    return;
+  }
+  if (baseText === storeText) {
+    if (targetText !== undefined) emit(ctx, targetText);
+    return;
+  }
+
+  if (!store || !target) {
+    // Deleted on one side, changed on the other
+    recordConflict(ctx, (store ?? target)!);
+    emit(
+      ctx,
+      `<<<<<<< store\n${withNewline(storeText ?? '')}=======\n${withNewline(targetText ?? '')}>>>>>>> target\n`,
+    );
+    return;
+  }
+
+  const ownBase = base?.text ?? '';
+  if (store.text === target.text || ownBase === target.text) {
+    emit(ctx, store.text);
+  } else if (ownBase === store.text) {
+    emit(ctx, target.text);
+  } else {
+    const combined = combineListAppends(ownBase, store.text, target.text);
+    if (combined !== null) {
+      emit(ctx, combined);
+    } else {
+      const merged = await gitMergeFile(ownBase, store.text, target.text);
+      if (merged.hasConflicts) recordConflict(ctx, store);
+      emit(ctx, merged.content);
+    }
+  }
+
+  const baseChildren = childMap(base);
+  const storeChildren = childMap(store);
+  const targetChildren = childMap(target);
+  const keys = mergedKeyOrder(
+    store.children.map((c) => c.key),
+    target.children.map((c) => c.key),
+  );
+  for (const key of keys) {
+    await mergeSection(ctx, baseChildren.get(key), storeChildren.get(key), targetChildren.get(key));
+  }
+}
+
+/**
+ * Three-way merge of Markdown section by section: headings split the file
+ * into a tree of sections, matched across versions by heading, and each
+ * section is merged on its own. Items appended to the same list on both
+ * sides are combined. A section whose text changed on both sides is merged
+ * line by line, and is a conflict only when that fails; conflicts are
+ * reported by section heading and keep git-style markers in the content.
+ */
+export async function mergeMarkdown(
+  base: string,
+  store: string,
+  target: string,
+): Promise<MarkdownMergeResult> {
+  const ctx: MergeContext = { out: '', conflicts: [] };
+  await mergeSection(ctx, parseSections(base), parseSections(store), parseSections(target));
+  return { content: ctx.out, conflicts: ctx.conflicts };
+}
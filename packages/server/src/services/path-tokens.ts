@@ -0,0 +1,115 @@
+import os from 'node:os';
+import { v4 as uuid } from 'uuid';
+import type Database from 'better-sqlite3';
+import type { SyncTarget, TrackedFile } from '../types/index.js';
+import { settingsTable } from './sync-direction.js';
+
+/** Key of the opt-in in repo_settings / service_settings */
+export const PATH_TOKENS_KEY = 'path_tokens';
+
+export const HOME_TOKEN = '${HOME}';
+
+/** A path on this machine and the token standing for it in the store */
+export interface PathToken {
+  token: string;
+  path: string;
+}
+
+/** Followed by what collapsePaths allows after a path, so expanding and collapsing round-trip */
+const PATH_TOKEN_RE = /\$\{(?:HOME|repo:[^}\s]+)\}(?![\w.-])/g;
+
+export function getPathTokensEnabled(
+  db: Database.Database,
+  target: Pick<SyncTarget, 'id' | 'type'>,
+): boolean {
+  const { table, column } = settingsTable(target.type);
+  const row = db
+    .prepare(`SELECT value FROM ${table} WHERE ${column} = ? AND key = ?`)
+    .get(target.id, PATH_TOKENS_KEY) as { value: string } | undefined;
+  return row?.value === 'enabled';
+}
+
+/** Save the opt-in; off is the default, so turning it off removes the override */
+export function setPathTokensEnabled(
+  db: Database.Database,
+  target: Pick<SyncTarget, 'id' | 'type'>,
+  enabled: boolean,
+): void {
+  const { table, column } = settingsTable(target.type);
+  db.prepare(`DELETE FROM ${table} WHERE ${column} = ? AND key = ?`).run(
+    target.id,
+    PATH_TOKENS_KEY,
+  );
+  if (!enabled) return;
+  db.prepare(`INSERT INTO ${table} (id, ${column}, key, value) VALUES (?, ?, ?, ?)`).run(
+    uuid(),
+    target.id,
+    PATH_TOKENS_KEY,
+    'enabled',
+  );
+}
+
+/**
+ * This machine's paths with their tokens: the home directory as `${HOME}` and
+ * every repo as `${repo:<name>}`, named after its store folder so the token is
+ * the same on every machine. Longest paths first, so a repo inside the home
+ * directory gets its own token rather than `${HOME}/...`.
+ */
+export function getMachinePathTokens(db: Database.Database): PathToken[] {
+  const repos = db.prepare('SELECT store_path, local_path FROM repos').all() as {
+    store_path: string;
+    local_path: string;
+  }[];
+  const tokens: PathToken[] = [
+    { token: HOME_TOKEN, path: os.homedir() },
+    ...repos.map((r) => ({
+      token: `\${repo:${r.store_path.replace(/^repos\//, '')}}`,
+      path: r.local_path,
+    })),
+  ];
+  return (
+    tokens
+      .map((t) => ({ ...t, path: t.path.replace(/[\\/]+$/, '') }))
+      // A root or empty path would turn every absolute path into a token
+      .filter((t) => t.path.length > 1)
+      .sort((a, b) => b.path.length - a.path.length)
+  );
+}
+
+/** The tokens for a tracked file, none unless its repo or service opted in */
+export function getPathTokensForFile(
+  db: Database.Database,
+  trackedFile: Pick<TrackedFile, 'repoId' | 'serviceConfigId'>,
+): PathToken[] {
+  const target: Pick<SyncTarget, 'id' | 'type'> = trackedFile.repoId
+    ? { id: trackedFile.repoId, type: 'repo' }
+    : { id: trackedFile.serviceConfigId!, type: 'service' };
+  return getPathTokensEnabled(db, target) ? getMachinePathTokens(db) : [];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Target → store: replace this machine's paths with their tokens. A path only
+ * matches whole, so `/home/al` doesn't turn `/home/alice` into `${HOME}ice`.
+ */
+export function collapsePaths(content: string, tokens: PathToken[]): string {
+  let result = content;
+  for (const { token, path } of tokens) {
+    if (!result.includes(path)) continue;
+    result = result.replace(new RegExp(`${escapeRegExp(path)}(?![\\w.-])`, 'g'), () => token);
+  }
+  return result;
+}
+
+/**
+ * Store → target: replace tokens with this machine's paths. Tokens with no
+ * path here, e.g. a repo not linked on this machine, are left as-is.
+ */
+export function expandPathTokens(content: string, tokens: PathToken[]): string {
+  if (tokens.length === 0 || !content.includes('${')) return content;
+  const paths = new Map(tokens.map((t) => [t.token, t.path]));
+  return content.replace(PATH_TOKEN_RE, (token) => paths.get(token) ?? token);
+}
@@ -0,0 +1,120 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { contentChecksum } from './checksum.js';
+
+/** How long after a file (or one of its folders) was moved it still counts as a rename */
+export const RENAME_WINDOW_MS = 10 * 60_000;
+
+/** Share of lines two versions must have in common to be the same file (git's default) */
+export const RENAME_SIMILARITY = 0.5;
+
+/** A file that may be the other end of a rename, with its content as the store sees it */
+export interface RenameCandidate {
+  path: string;
+  content: string | Buffer;
+}
+
+/**
+ * How alike two texts are, from 0 to 1: twice the number of lines they share
+ * over the total number of lines (line order is ignored)
+ */
+export function contentSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const linesA = a.split('\n');
+  const linesB = b.split('\n');
+  const counts = new Map<string, number>();
+  for (const line of linesA) counts.set(line, (counts.get(line) ?? 0) + 1);
+  let common = 0;
+  for (const line of linesB) {
+    const count = counts.get(line) ?? 0;
+    if (count > 0) {
+      common++;
+      counts.set(line, count - 1);
+    }
+  }
+  return (2 * common) / (linesA.length + linesB.length);
+}
+
+/**
+ * Pick the candidate that is `filePath` under another name: one with the
+ * same checksum, else the text most similar to `content` above
+ * RENAME_SIMILARITY. Ties go to a candidate with the same file name. Empty
+ * files never match, and binary files only match byte for byte.
+ */
+export function pickRenameCandidate<T extends RenameCandidate>(
+  filePath: string,
+  content: string | Buffer,
+  candidates: T[],
+): T | null {
+  if (content.length === 0) return null;
+  const checksum = contentChecksum(content);
+  const baseName = path.posix.basename(filePath);
+  let best: T | null = null;
+  let bestScore = 0;
+
+  for (const candidate of candidates) {
+    if (candidate.content.length === 0) continue;
+    let score: number;
+    if (contentChecksum(candidate.content) === checksum) {
+      score = 2;
+    } else if (typeof content === 'string' && typeof candidate.content === 'string') {
+      score = contentSimilarity(content, candidate.content);
+      if (score < RENAME_SIMILARITY) continue;
+    } else {
+      continue;
+    }
+    // Same file name breaks ties between equally good matches
+    if (path.posix.basename(candidate.path) === baseName) score += 0.001;
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * The folders renamed when `from` became `to` with the same path below them,
+ * e.g. `.claude/skills/a/SKILL.md` → `.claude/skills/b/SKILL.md` gives
+ * `.claude/skills/a` → `.claude/skills/b`. Null when the file name changed.
+ */
+export function directoryRename(from: string, to: string): { from: string; to: string } | null {
+  const fromParts = from.split('/');
+  const toParts = to.split('/');
+  let shared = 0;
+  while (
+    shared < fromParts.length - 1 &&
+    shared < toParts.length - 1 &&
+    fromParts[fromParts.length - 1 - shared] === toParts[toParts.length - 1 - shared]
+  ) {
+    shared++;
+  }
+  if (shared === 0) return null;
+  return {
+    from: fromParts.slice(0, fromParts.length - shared).join('/'),
+    to: toParts.slice(0, toParts.length - shared).join('/'),
+  };
+}
+
+/**
+ * Whether a file or one of its folders below `root` was created, moved or
+ * renamed within `windowMs`. A rename changes the inode change time of what
+ * was moved, not of the files inside a moved folder, hence the walk up.
+ */
+export async function changedWithin(
+  filePath: string,
+  root: string,
+  windowMs = RENAME_WINDOW_MS,
+): Promise<boolean> {
+  const since = Date.now() - windowMs;
+  let current = filePath;
+  while (current.startsWith(root + path.sep)) {
+    try {
+      if ((await fs.lstat(current)).ctimeMs >= since) return true;
+    } catch {
+      return false;
+    }
+    current = path.dirname(current);
+  }
+  return false;
+}
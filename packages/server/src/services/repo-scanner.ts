@@ -8,6 +8,7 @@ import {
   getRepoEnabledFilePatterns,
   getRepoIgnorePatterns,
 } from '../db/index.js';
+import { isVariantPath } from './machine-variants.js';
 
 export interface ScannedEntry {
   path: string;
@@ -89,6 +90,8 @@ export async function scanRepoForAIFiles(
     });
 
     for (const match of matches) {
+      // Machine variants in the store sync along with the file they stand in for
+      if (isVariantPath(match)) continue;
       if (!seenPaths.has(match)) {
         seenPaths.add(match);
         const matchIsSymlink = await isSymlink(path.join(repoPath, match));
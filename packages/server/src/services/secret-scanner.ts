@@ -0,0 +1,363 @@
+import type Database from 'better-sqlite3';
+import { v4 as uuid } from 'uuid';
+import { contentChecksum } from './checksum.js';
+
+export type SecretScanMode = 'off' | 'warn' | 'redact' | 'block';
+
+export const SECRET_SCAN_MODES: SecretScanMode[] = ['off', 'warn', 'redact', 'block'];
+
+export const DEFAULT_SECRET_SCAN_MODE: SecretScanMode = 'off';
+
+/** User-defined rule as stored in the `secret_custom_rules` setting (JSON array) */
+export interface CustomSecretRule {
+  name: string;
+  pattern: string;
+}
+
+export interface SecretRule {
+  id: string;
+  name: string;
+  /** Global regex; a named `secret` group narrows the redacted part of the match */
+  regex: RegExp;
+}
+
+export interface SecretFinding {
+  ruleId: string;
+  ruleName: string;
+  line: number;
+  /** Masked value — the raw secret is never persisted or sent to the UI */
+  preview: string;
+  fingerprint: string;
+  start: number;
+  end: number;
+  value: string;
+}
+
+export interface SecretFindingRecord {
+  id: string;
+  trackedFileId: string;
+  ruleId: string;
+  ruleName: string;
+  line: number;
+  preview: string;
+  fingerprint: string;
+  action: 'blocked' | 'redacted' | 'warned';
+  allowed: number;
+  createdAt: string;
+}
+
+export const BUILTIN_SECRET_RULES: { id: string; name: string; pattern: string; flags?: string }[] =
+  [
+    {
+      id: 'private-key',
+      name: 'Private key',
+      pattern: '-----BEGIN [A-Z ]*PRIVATE KEY-----[\\s\\S]*?-----END [A-Z ]*PRIVATE KEY-----',
+    },
+    { id: 'aws-access-key', name: 'AWS access key', pattern: '\\b(?:AKIA|ASIA)[0-9A-Z]{16}\\b' },
+    { id: 'github-token', name: 'GitHub token', pattern: '\\bgh[pousr]_[A-Za-z0-9]{36,255}\\b' },
+    {
+      id: 'github-pat',
+      name: 'GitHub fine-grained token',
+      pattern: '\\bgithub_pat_[A-Za-z0-9_]{22,255}\\b',
+    },
+    { id: 'anthropic-api-key', name: 'Anthropic API key', pattern: '\\bsk-ant-[A-Za-z0-9_-]{20,}' },
+    { id: 'openai-api-key', name: 'OpenAI API key', pattern: '\\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}' },
+    { id: 'google-api-key', name: 'Google API key', pattern: '\\bAIza[0-9A-Za-z_-]{35}\\b' },
+    { id: 'slack-token', name: 'Slack token', pattern: '\\bxox[abposr]-[A-Za-z0-9-]{10,}' },
+    { id: 'stripe-key', name: 'Stripe live key', pattern: '\\b(?:sk|rk)_live_[0-9A-Za-z]{24,}\\b' },
+    { id: 'npm-token', name: 'npm token', pattern: '\\bnpm_[A-Za-z0-9]{36}\\b' },
+    {
+      // "apiKey": "...", TOKEN=..., password: '...', "auth": "..." — values
+      // that are already placeholders (${...} or [REDACTED:...]) are skipped.
+      // "auth" only counts on its own or as auth_key, auth_token and
+      // authorization, so keys like "author" and "authority" don't match.
+      id: 'generic-secret',
+      name: 'Secret assignment',
+      pattern:
+        '(?:(?:api[_-]?key|secret|token|password|passwd)[A-Za-z0-9_-]*|auth(?:[_-]?(?:key|token)|orization)?)["\']?\\s*[:=]\\s*["\']?(?!\\$\\{|\\[REDACTED:)(?<secret>[^"\'\\s,}]{16,})',
+      flags: 'i',
+    },
+  ];
+
+const PLACEHOLDER_RE = /\[REDACTED:([a-z0-9-]+)\]/g;
+
+function ruleIdFromName(name: string): string {
+  return `custom-${name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')}`;
+}
+
+/** Returns an error message if the pattern is not a usable regex, otherwise null */
+export function validateSecretPattern(pattern: string): string | null {
+  if (!pattern) return 'Pattern is required';
+  try {
+    new RegExp(pattern, 'gid');
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : 'Invalid pattern';
+  }
+}
+
+/** Validate a `secret_custom_rules` value before it is saved; returns an error or null */
+export function validateCustomSecretRules(value: string): string | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return 'secret_custom_rules must be a JSON array';
+  }
+  if (!Array.isArray(parsed)) return 'secret_custom_rules must be a JSON array';
+  for (const rule of parsed) {
+    if (typeof rule?.name !== 'string' || !rule.name.trim()) return 'Each rule needs a name';
+    const error = validateSecretPattern(typeof rule.pattern === 'string' ? rule.pattern : '');
+    if (error) return `Invalid pattern for rule "${rule.name}": ${error}`;
+  }
+  return null;
+}
+
+/** Parse the `secret_custom_rules` setting value, skipping invalid entries */
+export function parseCustomSecretRules(value: string | undefined): CustomSecretRule[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (r): r is CustomSecretRule =>
+        typeof r?.name === 'string' &&
+        r.name.trim() !== '' &&
+        typeof r?.pattern === 'string' &&
+        validateSecretPattern(r.pattern) === null,
+    );
+  } catch {
+    return [];
+  }
+}
+
+function getSetting(db: Database.Database, key: string): string | undefined {
+  const row = db.prepare('SELECT value FROM settings WHERE key = ?').get(key) as
+    | { value: string }
+    | undefined;
+  return row?.value;
+}
+
+export function getSecretScanMode(db: Database.Database): SecretScanMode {
+  const value = getSetting(db, 'secret_scan_mode');
+  return SECRET_SCAN_MODES.includes(value as SecretScanMode)
+    ? (value as SecretScanMode)
+    : DEFAULT_SECRET_SCAN_MODE;
+}
+
+/** Built-in rules followed by the user's custom rules */
+export function getSecretRules(db: Database.Database): SecretRule[] {
+  const custom = parseCustomSecretRules(getSetting(db, 'secret_custom_rules'));
+  return [
+    ...BUILTIN_SECRET_RULES.map((r) => ({
+      id: r.id,
+      name: r.name,
+      regex: new RegExp(r.pattern, `gd${r.flags ?? ''}`),
+    })),
+    ...custom.map((r) => ({
+      id: ruleIdFromName(r.name),
+      name: r.name,
+      regex: new RegExp(r.pattern, 'gd'),
+    })),
+  ];
+}
+
+export function maskSecret(value: string): string {
+  // Multi-line secrets (private keys) start with a non-secret header line
+  if (value.includes('\n')) return `${value.split('\n')[0]}…`;
+  if (value.length <= 8) return '*'.repeat(value.length);
+  return `${value.slice(0, 4)}…${value.slice(-4)}`;
+}
+
+/**
+ * Find secrets in `content`. Earlier rules win when matches overlap, so the
+ * specific token formats take precedence over the generic assignment rule.
+ * Findings whose fingerprint is in `allowed` are skipped.
+ */
+export function scanForSecrets(
+  content: string,
+  rules: SecretRule[],
+  allowed: Set<string> = new Set(),
+): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  // Allowed matches still claim their span, so a broader rule can't re-report them
+  const claimed: [number, number][] = [];
+  const overlaps = (start: number, end: number) => claimed.some(([s, e]) => start < e && end > s);
+
+  for (const rule of rules) {
+    rule.regex.lastIndex = 0;
+    for (const match of content.matchAll(rule.regex)) {
+      const span = match.indices?.groups?.secret ?? match.indices?.[0];
+      if (!span || span[1] <= span[0] || overlaps(span[0], span[1])) continue;
+      const value = content.slice(span[0], span[1]);
+      const fingerprint = contentChecksum(`${rule.id}:${value}`);
+      claimed.push([span[0], span[1]]);
+      if (allowed.has(fingerprint)) continue;
+      findings.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        line: content.slice(0, span[0]).split('\n').length,
+        preview: maskSecret(value),
+        fingerprint,
+        start: span[0],
+        end: span[1],
+        value,
+      });
+    }
+  }
+
+  return findings.sort((a, b) => a.start - b.start);
+}
+
+/** Replace each finding with a `[REDACTED:<rule>]` placeholder */
+export function redactSecrets(content: string, findings: SecretFinding[]): string {
+  let result = '';
+  let pos = 0;
+  for (const f of [...findings].sort((a, b) => a.start - b.start)) {
+    result += content.slice(pos, f.start) + `[REDACTED:${f.ruleId}]`;
+    pos = f.end;
+  }
+  return result + content.slice(pos);
+}
+
+export function hasRedactedPlaceholders(content: string): boolean {
+  return /\[REDACTED:[a-z0-9-]+\]/.test(content);
+}
+
+/**
+ * Put this machine's secret values back into redacted store content before it
+ * is written to the target. Placeholders are filled in order, per rule, from
+ * the secrets currently in the target file; any without a local value stay as-is.
+ */
+export function restoreRedactedSecrets(
+  storeContent: string,
+  targetContent: string,
+  rules: SecretRule[],
+): string {
+  const valuesByRule = new Map<string, string[]>();
+  for (const f of scanForSecrets(targetContent, rules)) {
+    const list = valuesByRule.get(f.ruleId) ?? [];
+    list.push(f.value);
+    valuesByRule.set(f.ruleId, list);
+  }
+  return storeContent.replace(PLACEHOLDER_RE, (placeholder, ruleId: string) => {
+    return valuesByRule.get(ruleId)?.shift() ?? placeholder;
+  });
+}
+
+function getAllowedFingerprints(db: Database.Database, trackedFileId: string): Set<string> {
+  const rows = db
+    .prepare('SELECT fingerprint FROM secret_findings WHERE tracked_file_id = ? AND allowed = 1')
+    .all(trackedFileId) as { fingerprint: string }[];
+  return new Set(rows.map((r) => r.fingerprint));
+}
+
+/**
+ * Target content as the store sees it: redacted in `redact` mode, unchanged
+ * otherwise. Lets the engine compare a target with its redacted store copy.
+ */
+export function toStoreView(db: Database.Database, trackedFileId: string, content: string): string {
+  if (getSecretScanMode(db) !== 'redact') return content;
+  const findings = scanForSecrets(
+    content,
+    getSecretRules(db),
+    getAllowedFingerprints(db, trackedFileId),
+  );
+  return findings.length > 0 ? redactSecrets(content, findings) : content;
+}
+
+export interface SecretScanResult {
+  mode: SecretScanMode;
+  findings: SecretFinding[];
+  /** Content to write into the store — redacted in `redact` mode */
+  content: string;
+  blocked: boolean;
+  /** True when the findings differ from those last recorded for the file */
+  changed: boolean;
+}
+
+/**
+ * Scan a file's content on its way into the store and record the findings
+ * against the tracked file. Findings the user allowed are kept and skipped.
+ */
+export function scanFileForStore(
+  db: Database.Database,
+  trackedFileId: string,
+  content: string,
+): SecretScanResult {
+  const mode = getSecretScanMode(db);
+  if (mode === 'off') {
+    return { mode, findings: [], content, blocked: false, changed: false };
+  }
+
+  const previous = db
+    .prepare(
+      'SELECT fingerprint, action FROM secret_findings WHERE tracked_file_id = ? AND allowed = 0',
+    )
+    .all(trackedFileId) as { fingerprint: string; action: string }[];
+  const findings = scanForSecrets(
+    content,
+    getSecretRules(db),
+    getAllowedFingerprints(db, trackedFileId),
+  );
+
+  const action = secretAction(mode);
+  const before = previous
+    .map((p) => `${p.fingerprint}:${p.action}`)
+    .sort()
+    .join(',');
+  const after = findings
+    .map((f) => `${f.fingerprint}:${action}`)
+    .sort()
+    .join(',');
+  const changed = before !== after;
+
+  if (changed) {
+    const insert = db.prepare(
+      `INSERT INTO secret_findings (id, tracked_file_id, rule_id, rule_name, line, preview, fingerprint, action)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    db.transaction(() => {
+      clearSecretFindings(db, trackedFileId);
+      for (const f of findings) {
+        insert.run(
+          uuid(),
+          trackedFileId,
+          f.ruleId,
+          f.ruleName,
+          f.line,
+          f.preview,
+          f.fingerprint,
+          action,
+        );
+      }
+    })();
+  }
+
+  return {
+    mode,
+    findings,
+    content: mode === 'redact' && findings.length > 0 ? redactSecrets(content, findings) : content,
+    blocked: mode === 'block' && findings.length > 0,
+    changed,
+  };
+}
+
+/** Drop a file's open findings; findings the user allowed are kept */
+export function clearSecretFindings(db: Database.Database, trackedFileId: string): void {
+  db.prepare('DELETE FROM secret_findings WHERE tracked_file_id = ? AND allowed = 0').run(
+    trackedFileId,
+  );
+}
+
+export function secretAction(mode: SecretScanMode): SecretFindingRecord['action'] {
+  return mode === 'block' ? 'blocked' : mode === 'redact' ? 'redacted' : 'warned';
+}
+
+/** Summary for sync_log details, e.g. "GitHub token (line 3), AWS access key (line 7)" */
+export function describeFindings(findings: SecretFinding[]): string {
+  return findings.map((f) => `${f.ruleName} (line ${f.line})`).join(', ');
+}
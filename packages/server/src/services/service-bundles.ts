@@ -0,0 +1,254 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type Database from 'better-sqlite3';
+import { config } from '../config.js';
+import {
+  mapRows,
+  getServiceEffectivePatterns,
+  getServiceEffectiveIgnorePatterns,
+} from '../db/index.js';
+import type {
+  ServiceBundle,
+  ServiceBundleEntry,
+  ServiceBundleImportResult,
+  ServiceConfig,
+} from '../types/index.js';
+import { linkStoreService, readServiceMeta, writeServiceMeta } from './machines.js';
+import { ensureDir } from './repo-scanner.js';
+import {
+  SERVICE_DEFINITIONS,
+  customServiceType,
+  fromPortablePath,
+  getServiceStorePath,
+  toPortablePath,
+} from './service-definitions.js';
+
+export const SERVICE_BUNDLE_FORMAT = 'ai-sync-services';
+export const SERVICE_BUNDLE_VERSION = 1;
+export const MAX_BUNDLE_ICON_BYTES = 512 * 1024;
+
+const ICON_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+const CUSTOM_SERVICE_TYPE = /^custom-[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/** A bundle that cannot be imported as a whole */
+export class ServiceBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ServiceBundleError';
+  }
+}
+
+async function readIcon(svc: ServiceConfig): Promise<ServiceBundleEntry['icon']> {
+  if (!svc.iconPath) return null;
+  const mimeType = ICON_TYPES[path.extname(svc.iconPath).slice(1)];
+  if (!mimeType) return null;
+  try {
+    const storeName = svc.storePath.replace(/^services\//, '');
+    const data = await fs.readFile(path.join(config.storeServicesPath, storeName, svc.iconPath));
+    return { mimeType, data: data.toString('base64') };
+  } catch {
+    return null;
+  }
+}
+
+/** Custom services of this machine as a bundle; all of them unless ids are given */
+export async function exportServiceBundle(
+  db: Database.Database,
+  ids?: string[],
+): Promise<ServiceBundle> {
+  const services = mapRows<ServiceConfig>(
+    db
+      .prepare(
+        "SELECT * FROM service_configs WHERE service_type LIKE 'custom-%' ORDER BY store_path",
+      )
+      .all(),
+  ).filter((svc) => !ids || ids.includes(svc.id));
+
+  // A type with several instances is one definition
+  const seen = new Set<string>();
+
+  const entries: ServiceBundleEntry[] = [];
+  for (const svc of services) {
+    if (seen.has(svc.serviceType)) continue;
+    seen.add(svc.serviceType);
+    entries.push({
+      serviceType: svc.serviceType,
+      name: readServiceMeta(svc.serviceType)?.name ?? svc.name,
+      description: svc.description || '',
+      defaultPath: toPortablePath(svc.localPath),
+      patterns: getServiceEffectivePatterns(db, svc.id, [])
+        .filter((p) => p.source === 'custom' && p.enabled)
+        .map((p) => p.pattern),
+      ignorePatterns: getServiceEffectiveIgnorePatterns(db, svc.id)
+        .filter((p) => p.source === 'custom' && p.enabled)
+        .map((p) => p.pattern),
+      icon: await readIcon(svc),
+    });
+  }
+
+  return {
+    format: SERVICE_BUNDLE_FORMAT,
+    version: SERVICE_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    services: entries,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string' && v.trim() !== '');
+}
+
+function parseEntry(raw: unknown, where: string): ServiceBundleEntry {
+  if (!isObject(raw)) throw new ServiceBundleError(`${where} must be an object`);
+
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) throw new ServiceBundleError(`${where}.name is required`);
+
+  const serviceType = raw.serviceType ?? customServiceType(name);
+  if (typeof serviceType !== 'string' || !CUSTOM_SERVICE_TYPE.test(serviceType)) {
+    throw new ServiceBundleError(`${where}.serviceType must look like "custom-my-tool"`);
+  }
+
+  if (!isStringArray(raw.patterns) || raw.patterns.length === 0) {
+    throw new ServiceBundleError(`${where}.patterns must be a non-empty list of patterns`);
+  }
+  const ignorePatterns = raw.ignorePatterns ?? [];
+  if (!isStringArray(ignorePatterns)) {
+    throw new ServiceBundleError(`${where}.ignorePatterns must be a list of patterns`);
+  }
+  if (raw.description != null && typeof raw.description !== 'string') {
+    throw new ServiceBundleError(`${where}.description must be a string`);
+  }
+  if (raw.defaultPath != null && typeof raw.defaultPath !== 'string') {
+    throw new ServiceBundleError(`${where}.defaultPath must be a string`);
+  }
+
+  let icon: ServiceBundleEntry['icon'] = null;
+  if (raw.icon != null) {
+    const { mimeType, data } = isObject(raw.icon) ? raw.icon : {};
+    if (typeof mimeType !== 'string' || !Object.values(ICON_TYPES).includes(mimeType)) {
+      throw new ServiceBundleError(`${where}.icon.mimeType must be a PNG, JPEG, GIF, WebP or SVG`);
+    }
+    if (typeof data !== 'string' || Buffer.byteLength(data, 'base64') > MAX_BUNDLE_ICON_BYTES) {
+      throw new ServiceBundleError(`${where}.icon.data must be base64, at most 512 KB`);
+    }
+    icon = { mimeType, data };
+  }
+
+  return {
+    serviceType,
+    name,
+    description: raw.description || '',
+    defaultPath: raw.defaultPath || null,
+    patterns: raw.patterns,
+    ignorePatterns,
+    icon,
+  };
+}
+
+/** Validate an uploaded bundle; throws ServiceBundleError naming the first problem */
+export function parseServiceBundle(input: unknown): ServiceBundleEntry[] {
+  if (
+    !isObject(input) ||
+    input.format !== SERVICE_BUNDLE_FORMAT ||
+    !Array.isArray(input.services)
+  ) {
+    throw new ServiceBundleError('Not a service bundle');
+  }
+  if (typeof input.version !== 'number' || input.version > SERVICE_BUNDLE_VERSION) {
+    throw new ServiceBundleError(`Unsupported bundle version: ${String(input.version)}`);
+  }
+  return input.services.map((raw, i) => parseEntry(raw, `services[${i}]`));
+}
+
+async function isDirectory(dirPath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(dirPath)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Register the definitions of a bundle in the store, skipping service types
+ * that already exist. With `link`, each definition whose default path exists
+ * on this machine is also linked and starts tracking files; the others are
+ * left for linking later from the unlinked services list.
+ */
+export async function importServiceBundle(
+  db: Database.Database,
+  entries: ServiceBundleEntry[],
+  options: { link: boolean },
+): Promise<ServiceBundleImportResult[]> {
+  const results: ServiceBundleImportResult[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of entries) {
+    const { serviceType, name } = entry;
+    const result = (
+      status: ServiceBundleImportResult['status'],
+      serviceId: string | null,
+      reason: string | null,
+    ) => results.push({ serviceType, name, status, serviceId, reason });
+
+    if (seen.has(serviceType)) {
+      result('skipped', null, 'Listed twice in the bundle');
+      continue;
+    }
+    seen.add(serviceType);
+    const exists =
+      serviceType in SERVICE_DEFINITIONS ||
+      db.prepare('SELECT id FROM service_configs WHERE service_type = ?').get(serviceType) ||
+      readServiceMeta(serviceType);
+    if (exists) {
+      result('skipped', null, 'A service of this type already exists');
+      continue;
+    }
+
+    const storeDir = path.join(config.storeServicesPath, serviceType);
+    await ensureDir(storeDir);
+    if (entry.icon) {
+      const ext = Object.keys(ICON_TYPES).find((e) => ICON_TYPES[e] === entry.icon!.mimeType);
+      await fs.writeFile(
+        path.join(storeDir, `icon.${ext}`),
+        Buffer.from(entry.icon.data, 'base64'),
+      );
+    }
+    writeServiceMeta(serviceType, {
+      name,
+      patterns: entry.patterns,
+      description: entry.description,
+      defaultPath: entry.defaultPath ?? undefined,
+      ignorePatterns: entry.ignorePatterns.length > 0 ? entry.ignorePatterns : undefined,
+    });
+
+    if (!options.link) {
+      result('registered', null, null);
+      continue;
+    }
+    const localPath = entry.defaultPath ? fromPortablePath(entry.defaultPath) : null;
+    if (!localPath || !(await isDirectory(localPath))) {
+      result(
+        'registered',
+        null,
+        localPath ? `Path does not exist: ${localPath}` : 'No default path to link',
+      );
+      continue;
+    }
+    const serviceId = await linkStoreService(db, getServiceStorePath(serviceType), localPath);
+    result('linked', serviceId, null);
+  }
+
+  return results;
+}
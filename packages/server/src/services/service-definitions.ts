@@ -73,6 +73,56 @@ export function getAllServiceDefinitions(): ServiceDefinition[] {
   return [...Object.values(SERVICE_DEFINITIONS), ...Object.values(customDefinitions)];
 }
 
-export function getServiceStorePath(serviceType: string): string {
-  return `services/${serviceType}`;
+/** Service type of a custom service, derived from its name */
+export function customServiceType(name: string): string {
+  return (
+    'custom-' +
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '')
+  );
+}
+
+/** Valid instance names: lowercase words joined by dashes, e.g. "work" */
+export const SERVICE_INSTANCE_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * Store path of a service. The first instance of a type lives in
+ * `services/<type>`, further instances in `services/<type>@<instance>`.
+ */
+export function getServiceStorePath(serviceType: string, instance?: string | null): string {
+  return instance ? `services/${serviceType}@${instance}` : `services/${serviceType}`;
+}
+
+/** Service type and instance of a store path or store folder name */
+export function parseServiceStorePath(storePath: string): {
+  serviceType: string;
+  instance: string | null;
+} {
+  const storeName = storePath.replace(/^services\//, '');
+  const at = storeName.indexOf('@');
+  return at === -1
+    ? { serviceType: storeName, instance: null }
+    : { serviceType: storeName.slice(0, at), instance: storeName.slice(at + 1) };
+}
+
+/** Display name of a service instance, e.g. "Claude Code (work)" */
+export function serviceInstanceName(definitionName: string, instance: string | null): string {
+  return instance ? `${definitionName} (${instance})` : definitionName;
+}
+
+/** Replace the home directory prefix with `~` so a path reads the same on every machine */
+export function toPortablePath(localPath: string): string {
+  const home = os.homedir();
+  if (localPath === home) return '~';
+  if (localPath.startsWith(home + path.sep)) return '~/' + localPath.slice(home.length + 1);
+  return localPath;
+}
+
+/** Expand a leading `~` to this machine's home directory */
+export function fromPortablePath(portablePath: string): string {
+  if (portablePath === '~') return os.homedir();
+  if (portablePath.startsWith('~/')) return path.join(os.homedir(), portablePath.slice(2));
+  return portablePath;
 }
@@ -0,0 +1,271 @@
+import fs from 'node:fs/promises';
+import fsSync from 'node:fs';
+import path from 'node:path';
+import { v4 as uuid } from 'uuid';
+import type Database from 'better-sqlite3';
+import { config } from '../config.js';
+import { mapRows } from '../db/index.js';
+import type {
+  ServiceConfig,
+  ServiceProfile,
+  ServiceProfileList,
+  TrackedFile,
+} from '../types/index.js';
+import { ensureDir, fileExists, symlinkExists } from './repo-scanner.js';
+import { getSyncDirection } from './sync-direction.js';
+import type { SyncEngine } from './sync-engine.js';
+
+/** Name of the profile a service starts out with */
+export const DEFAULT_PROFILE = 'default';
+
+export const PROFILE_NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+export class ServiceProfileError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: 400 | 404 | 409 = 400,
+  ) {
+    super(message);
+    this.name = 'ServiceProfileError';
+  }
+}
+
+/** Active profile per service store path, kept in the store so every machine agrees */
+interface ProfilesJsonFile {
+  [storePath: string]: { active: string };
+}
+
+function getProfilesJsonPath(): string {
+  return path.join(config.storeProfilesPath, 'profiles.json');
+}
+
+function readProfilesJson(): ProfilesJsonFile {
+  try {
+    return JSON.parse(fsSync.readFileSync(getProfilesJsonPath(), 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+function writeProfilesJson(data: ProfilesJsonFile): void {
+  const sorted: ProfilesJsonFile = {};
+  for (const key of Object.keys(data).sort()) {
+    sorted[key] = data[key];
+  }
+  fsSync.mkdirSync(config.storeProfilesPath, { recursive: true });
+  fsSync.writeFileSync(getProfilesJsonPath(), JSON.stringify(sorted, null, 2) + '\n', 'utf-8');
+}
+
+function storeName(svc: Pick<ServiceConfig, 'storePath'>): string {
+  return svc.storePath.replace(/^services\//, '');
+}
+
+/** Where the saved (inactive) profiles of a service live */
+function profilesDir(svc: Pick<ServiceConfig, 'storePath'>): string {
+  return path.join(config.storeProfilesPath, storeName(svc));
+}
+
+export function getActiveProfile(svc: Pick<ServiceConfig, 'storePath'>): string {
+  return readProfilesJson()[svc.storePath]?.active ?? DEFAULT_PROFILE;
+}
+
+function setActiveProfile(svc: Pick<ServiceConfig, 'storePath'>, name: string): void {
+  const data = readProfilesJson();
+  if (name === DEFAULT_PROFILE) delete data[svc.storePath];
+  else data[svc.storePath] = { active: name };
+  writeProfilesJson(data);
+}
+
+function validateName(name: string): void {
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    throw new ServiceProfileError(
+      'Profile names use lowercase letters, digits and dashes, e.g. "full-mcp"',
+    );
+  }
+}
+
+async function countFiles(dir: string): Promise<number> {
+  const entries = await fs.readdir(dir, { recursive: true }).catch(() => [] as string[]);
+  let count = 0;
+  for (const entry of entries) {
+    const stat = await fs.lstat(path.join(dir, entry));
+    if (!stat.isDirectory()) count++;
+  }
+  return count;
+}
+
+function trackedFiles(db: Database.Database, svc: ServiceConfig): TrackedFile[] {
+  return mapRows<TrackedFile>(
+    db
+      .prepare(
+        "SELECT * FROM tracked_files WHERE service_config_id = ? AND file_type IN ('file', 'symlink') ORDER BY relative_path",
+      )
+      .all(svc.id),
+  );
+}
+
+/** Copy the store copies of the tracked files into a profile folder, replacing it */
+async function saveProfile(
+  db: Database.Database,
+  svc: ServiceConfig,
+  name: string,
+): Promise<number> {
+  const storeDir = path.join(config.storeServicesPath, storeName(svc));
+  const dest = path.join(profilesDir(svc), name);
+  await fs.rm(dest, { recursive: true, force: true });
+  await ensureDir(dest);
+
+  let saved = 0;
+  for (const tf of trackedFiles(db, svc)) {
+    const src = path.join(storeDir, tf.relativePath);
+    // lstat-based, so symlinks are saved even when broken
+    if (!(await symlinkExists(src))) continue;
+    await ensureDir(path.dirname(path.join(dest, tf.relativePath)));
+    await fs.cp(src, path.join(dest, tf.relativePath), { verbatimSymlinks: true });
+    saved++;
+  }
+  return saved;
+}
+
+/** The active profile first, then the saved ones by name */
+export async function listServiceProfiles(
+  db: Database.Database,
+  svc: ServiceConfig,
+): Promise<ServiceProfileList> {
+  const active = getActiveProfile(svc);
+  const profiles: ServiceProfile[] = [
+    { name: active, active: true, fileCount: trackedFiles(db, svc).length },
+  ];
+
+  const entries = await fs
+    .readdir(profilesDir(svc), { withFileTypes: true })
+    .catch(() => [] as fsSync.Dirent[]);
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (!entry.isDirectory() || entry.name === active) continue;
+    profiles.push({
+      name: entry.name,
+      active: false,
+      fileCount: await countFiles(path.join(profilesDir(svc), entry.name)),
+    });
+  }
+  return { active, profiles };
+}
+
+/** Save the current files of a service as a new profile; the active one doesn't change */
+export async function createServiceProfile(
+  db: Database.Database,
+  svc: ServiceConfig,
+  name: string,
+): Promise<ServiceProfile> {
+  validateName(name);
+  if (name === getActiveProfile(svc) || (await fileExists(path.join(profilesDir(svc), name)))) {
+    throw new ServiceProfileError(`Profile "${name}" already exists`, 409);
+  }
+  const fileCount = await saveProfile(db, svc, name);
+  return { name, active: false, fileCount };
+}
+
+export async function deleteServiceProfile(svc: ServiceConfig, name: string): Promise<void> {
+  if (name === getActiveProfile(svc)) {
+    throw new ServiceProfileError(
+      'The active profile cannot be deleted; switch to another first',
+      409,
+    );
+  }
+  const dir = path.join(profilesDir(svc), name);
+  if (!PROFILE_NAME_PATTERN.test(name) || !(await fileExists(dir))) {
+    throw new ServiceProfileError(`Profile "${name}" not found`, 404);
+  }
+  await fs.rm(dir, { recursive: true, force: true });
+}
+
+/**
+ * Materialize another profile into the service's config folder.
+ *
+ * The current files are synced first so nothing edited locally is lost, then
+ * saved back into the active profile. The tracked files are replaced by the
+ * profile's on both sides, and the engine writes them to the target. Watchers
+ * are paused throughout, so the swap itself isn't picked up as edits. Files
+ * that were never tracked stay where they are.
+ */
+export async function switchServiceProfile(
+  db: Database.Database,
+  engine: SyncEngine,
+  svc: ServiceConfig,
+  name: string,
+): Promise<{ synced: number }> {
+  const active = getActiveProfile(svc);
+  if (name === active) throw new ServiceProfileError(`"${name}" is already active`, 409);
+  const profileDir = path.join(profilesDir(svc), name);
+  if (!PROFILE_NAME_PATTERN.test(name) || !(await fileExists(profileDir))) {
+    throw new ServiceProfileError(`Profile "${name}" not found`, 404);
+  }
+  if (getSyncDirection(db, { id: svc.id, type: 'service' }) === 'target_to_store') {
+    throw new ServiceProfileError(
+      `${svc.name} only backs up to the store, so profiles cannot be written to it`,
+      409,
+    );
+  }
+
+  await engine.syncService(svc.id);
+  const { conflicts } = db
+    .prepare(
+      "SELECT COUNT(*) as conflicts FROM tracked_files WHERE service_config_id = ? AND sync_status = 'conflict'",
+    )
+    .get(svc.id) as { conflicts: number };
+  if (conflicts > 0) {
+    throw new ServiceProfileError(
+      `Resolve the conflicts of ${svc.name} before switching profiles`,
+      409,
+    );
+  }
+
+  const storeDir = path.join(config.storeServicesPath, storeName(svc));
+  await engine.stopWatcherForService(svc.id);
+  db.prepare("UPDATE service_configs SET status = 'paused' WHERE id = ?").run(svc.id);
+  try {
+    await saveProfile(db, svc, active);
+
+    for (const tf of trackedFiles(db, svc)) {
+      await fs.rm(path.join(storeDir, tf.relativePath), { force: true });
+      await fs.rm(path.join(svc.localPath, tf.relativePath), { force: true });
+    }
+    db.prepare('DELETE FROM tracked_files WHERE service_config_id = ?').run(svc.id);
+
+    // The active profile lives in the service's store folder, not under profiles/
+    await fs.cp(profileDir, storeDir, { recursive: true, verbatimSymlinks: true });
+    const files = await fs.readdir(profileDir, { recursive: true });
+    const insert = db.prepare(
+      `INSERT INTO tracked_files (id, service_config_id, relative_path, file_type, sync_status)
+       VALUES (?, ?, ?, ?, 'pending_to_target')`,
+    );
+    for (const file of files) {
+      const stat = await fs.lstat(path.join(profileDir, file));
+      if (stat.isDirectory()) continue;
+      insert.run(
+        uuid(),
+        svc.id,
+        file.split(path.sep).join('/'),
+        stat.isSymbolicLink() ? 'symlink' : 'file',
+      );
+    }
+    await fs.rm(profileDir, { recursive: true, force: true });
+    setActiveProfile(svc, name);
+
+    const result = await engine.syncService(svc.id);
+    return { synced: result.synced };
+  } finally {
+    db.prepare('UPDATE service_configs SET status = ? WHERE id = ?').run(svc.status, svc.id);
+    if (svc.status === 'active') await engine.startWatcherForService(svc);
+  }
+}
+
+/** Forget the profiles of a service whose store files are removed */
+export async function removeServiceProfiles(svc: Pick<ServiceConfig, 'storePath'>): Promise<void> {
+  await fs.rm(profilesDir(svc), { recursive: true, force: true });
+  const data = readProfilesJson();
+  if (svc.storePath in data) {
+    delete data[svc.storePath];
+    writeProfilesJson(data);
+  }
+}
@@ -1,5 +1,6 @@
 import path from 'node:path';
 import { glob } from 'glob';
+import { isVariantPath } from './machine-variants.js';
 import { isSymlink, parentPathHasSymlink } from './repo-scanner.js';
 import type { ScannedEntry } from './repo-scanner.js';
 
@@ -40,6 +41,8 @@ export async function scanServiceFiles(
     });
 
     for (const match of matches) {
+      // Machine variants in the store sync along with the file they stand in for
+      if (isVariantPath(match)) continue;
       if (!seenPaths.has(match)) {
         seenPaths.add(match);
         const matchIsSymlink = await isSymlink(path.join(servicePath, match));
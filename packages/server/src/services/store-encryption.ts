@@ -0,0 +1,234 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import fsPromises from 'node:fs/promises';
+import path from 'node:path';
+import picomatch from 'picomatch';
+import type Database from 'better-sqlite3';
+import { config, setEncryptionKey } from '../config.js';
+import type { TrackedFile } from '../types/index.js';
+
+/** First line of every encrypted store file */
+export const ENCRYPTED_HEADER = 'AI-SYNC-ENCRYPTED v1';
+
+/** First line of an encrypted binary file; the payload decrypts to raw bytes */
+export const ENCRYPTED_BINARY_HEADER = `${ENCRYPTED_HEADER} binary`;
+
+const ENCRYPTION_FILE = 'encryption.json';
+const KEY_CHECK_PLAINTEXT = 'ai-sync key check';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/** Thrown when a store file must be encrypted or decrypted but this machine has no key */
+export class EncryptionKeyMissingError extends Error {
+  constructor() {
+    super('Encryption passphrase not set on this machine');
+    this.name = 'EncryptionKeyMissingError';
+  }
+}
+
+/** Stored in the store root so every machine derives the same key from the passphrase */
+interface EncryptionFile {
+  version: 1;
+  salt: string;
+  /** A known plaintext encrypted with the key, used to verify a passphrase */
+  check: string;
+}
+
+// ── Content format ───────────────────────────────────────────────────
+
+export function isEncryptedContent(content: string): boolean {
+  return content.startsWith(`${ENCRYPTED_HEADER}\n`);
+}
+
+/**
+ * AES-256-GCM with the IV derived from the plaintext, so the same content
+ * always encrypts to the same text. Re-syncing an unchanged file then leaves
+ * the store (and its git history) untouched. Returns the base64 payload.
+ */
+function seal(plaintext: Buffer, key: Buffer): string {
+  const iv = crypto
+    .createHmac('sha256', key)
+    .update('iv\0')
+    .update(plaintext)
+    .digest()
+    .subarray(0, IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function open(payloadBase64: string, key: Buffer): Buffer {
+  const payload = Buffer.from(payloadBase64.trim(), 'base64');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, payload.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(payload.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([
+    decipher.update(payload.subarray(IV_LENGTH + TAG_LENGTH)),
+    decipher.final(),
+  ]);
+}
+
+export function encryptContent(plaintext: string, key: Buffer): string {
+  return `${ENCRYPTED_HEADER}\n${seal(Buffer.from(plaintext, 'utf-8'), key)}\n`;
+}
+
+export function decryptContent(content: string, key: Buffer): string {
+  return open(content.slice(ENCRYPTED_HEADER.length + 1), key).toString('utf-8');
+}
+
+export function isEncryptedBinary(content: Buffer): boolean {
+  return (
+    content.subarray(0, ENCRYPTED_BINARY_HEADER.length + 1).toString('latin1') ===
+    `${ENCRYPTED_BINARY_HEADER}\n`
+  );
+}
+
+export function encryptBytes(bytes: Buffer, key: Buffer): string {
+  return `${ENCRYPTED_BINARY_HEADER}\n${seal(bytes, key)}\n`;
+}
+
+export function decryptBytes(content: Buffer, key: Buffer): Buffer {
+  return open(content.subarray(ENCRYPTED_BINARY_HEADER.length + 1).toString('latin1'), key);
+}
+
+function getKey(): Buffer | null {
+  return config.encryptionKey ? Buffer.from(config.encryptionKey, 'base64') : null;
+}
+
+/** Plaintext of store content; content that isn't encrypted is returned as-is */
+export function decryptStoreContent(content: string): string {
+  if (!isEncryptedContent(content)) return content;
+  const key = getKey();
+  if (!key) throw new EncryptionKeyMissingError();
+  return decryptContent(content, key);
+}
+
+export async function readStoreFile(filePath: string): Promise<string> {
+  return decryptStoreContent(await fsPromises.readFile(filePath, 'utf-8'));
+}
+
+/**
+ * Raw bytes of store content, for binary-safe reads: an encrypted binary file
+ * is decrypted, anything else (including encrypted text) is returned as-is
+ */
+export function decodeStoreBytes(bytes: Buffer): Buffer {
+  if (!isEncryptedBinary(bytes)) return bytes;
+  const key = getKey();
+  if (!key) throw new EncryptionKeyMissingError();
+  return decryptBytes(bytes, key);
+}
+
+export async function readStoreBytes(filePath: string): Promise<Buffer> {
+  return decodeStoreBytes(await fsPromises.readFile(filePath));
+}
+
+// ── Pattern flags ────────────────────────────────────────────────────
+
+/**
+ * Whether a tracked file matches a pattern flagged for encryption: a global
+ * file pattern for repo files, a service pattern for service files.
+ */
+export function shouldEncryptFile(
+  db: Database.Database,
+  file: Pick<TrackedFile, 'repoId' | 'serviceConfigId' | 'relativePath'>,
+): boolean {
+  let patterns: string[];
+  if (file.serviceConfigId) {
+    const rows = db
+      .prepare(
+        "SELECT key FROM service_settings WHERE service_config_id = ? AND key LIKE 'service_pattern_encrypt:%'",
+      )
+      .all(file.serviceConfigId) as { key: string }[];
+    patterns = rows.map((r) => r.key.slice('service_pattern_encrypt:'.length));
+  } else {
+    const rows = db
+      .prepare('SELECT pattern FROM file_patterns WHERE encrypt = 1 AND enabled = 1')
+      .all() as { pattern: string }[];
+    patterns = rows.map((r) => r.pattern);
+  }
+  return patterns.length > 0 && picomatch(patterns, { dot: true })(file.relativePath);
+}
+
+/** Content as it should be written to the store: encrypted if the file's pattern says so */
+export function encodeStoreContent(
+  db: Database.Database,
+  file: Pick<TrackedFile, 'repoId' | 'serviceConfigId' | 'relativePath'>,
+  plaintext: string,
+): string {
+  if (!shouldEncryptFile(db, file)) return plaintext;
+  const key = getKey();
+  if (!key) throw new EncryptionKeyMissingError();
+  return encryptContent(plaintext, key);
+}
+
+/** Binary content as it should be written to the store, like `encodeStoreContent` */
+export function encodeStoreBytes(
+  db: Database.Database,
+  file: Pick<TrackedFile, 'repoId' | 'serviceConfigId' | 'relativePath'>,
+  bytes: Buffer,
+): Buffer {
+  if (!shouldEncryptFile(db, file)) return bytes;
+  const key = getKey();
+  if (!key) throw new EncryptionKeyMissingError();
+  return Buffer.from(encryptBytes(bytes, key), 'utf-8');
+}
+
+// ── Passphrase ───────────────────────────────────────────────────────
+
+function getEncryptionFilePath(): string {
+  return path.join(config.storePath, ENCRYPTION_FILE);
+}
+
+function readEncryptionFile(): EncryptionFile | null {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(getEncryptionFilePath(), 'utf-8'));
+    return parsed?.version === 1 && typeof parsed.salt === 'string' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function deriveKey(passphrase: string, salt: string): Buffer {
+  return crypto.scryptSync(passphrase, Buffer.from(salt, 'base64'), 32);
+}
+
+export function getEncryptionStatus(): { enabled: boolean; unlocked: boolean } {
+  const file = readEncryptionFile();
+  const key = getKey();
+  if (!file || !key) return { enabled: !!file, unlocked: false };
+  try {
+    return { enabled: true, unlocked: decryptContent(file.check, key) === KEY_CHECK_PLAINTEXT };
+  } catch {
+    return { enabled: true, unlocked: false };
+  }
+}
+
+/**
+ * Unlock encryption on this machine. The first machine to set a passphrase
+ * creates `encryption.json` in the store (returns true so the caller can
+ * commit it); later machines must enter the same passphrase. The derived key
+ * is kept in the machine's app config, never in the store.
+ */
+export function setEncryptionPassphrase(passphrase: string): boolean {
+  const existing = readEncryptionFile();
+  if (existing) {
+    const key = deriveKey(passphrase, existing.salt);
+    try {
+      if (decryptContent(existing.check, key) !== KEY_CHECK_PLAINTEXT) throw new Error();
+    } catch {
+      throw new Error('Incorrect passphrase');
+    }
+    setEncryptionKey(key.toString('base64'));
+    return false;
+  }
+
+  const salt = crypto.randomBytes(16).toString('base64');
+  const key = deriveKey(passphrase, salt);
+  const file: EncryptionFile = {
+    version: 1,
+    salt,
+    check: encryptContent(KEY_CHECK_PLAINTEXT, key),
+  };
+  fs.writeFileSync(getEncryptionFilePath(), JSON.stringify(file, null, 2) + '\n', 'utf-8');
+  setEncryptionKey(key.toString('base64'));
+  return true;
+}
@@ -5,6 +5,12 @@ import path from 'node:path';
 import { execFile } from 'node:child_process';
 import { promisify } from 'node:util';
 import { config } from '../config.js';
+import {
+  ENCRYPTED_BINARY_HEADER,
+  ENCRYPTED_HEADER,
+  decryptStoreContent,
+} from './store-encryption.js';
+import { migrateLegacyDefaultTemplate } from './templates.js';
 
 const execFileAsync = promisify(execFile);
 
@@ -30,11 +36,21 @@ function createGit(basePath: string): SimpleGit {
   return simpleGit({ baseDir: basePath }).env(env);
 }
 
+/**
+ * Append machine trailers to a commit message so per-file history can show
+ * which machine made each change (the git author is usually the same person
+ * on every machine).
+ */
+function withMachineTrailer(message: string): string {
+  if (!config.machineId) return message;
+  return `${message}\n\nMachine: ${config.machineName}\nMachine-Id: ${config.machineId}`;
+}
+
 export async function initStoreRepo(): Promise<void> {
   // Ensure store directories exist
   await fs.mkdir(config.storeReposPath, { recursive: true });
-  await fs.mkdir(`${config.storeReposPath}/_default`, { recursive: true });
   await fs.mkdir(path.join(config.storePath, 'services'), { recursive: true });
+  await migrateLegacyDefaultTemplate();
   await fs.mkdir(`${config.storePath}/.db`, { recursive: true });
 
   git = createGit(config.storePath);
@@ -90,7 +106,7 @@ export async function commitStoreChanges(message: string): Promise<void> {
   if (status.files.length === 0) return;
 
   await git.add('.');
-  await git.commit(message);
+  await git.commit(withMachineTrailer(message));
 }
 
 /**
@@ -244,6 +260,22 @@ function parseConflictSides(content: string): { ours: string; theirs: string } {
   return { ours: oursLines.join('\n'), theirs: theirsLines.join('\n') };
 }
 
+/**
+ * Conflict sides of an encrypted file are each a complete encrypted blob;
+ * decrypt them when possible so the conflict shows readable content.
+ */
+function decryptConflictSides(content: string): { ours: string; theirs: string } {
+  const { ours, theirs } = parseConflictSides(content);
+  const decrypt = (side: string) => {
+    try {
+      return decryptStoreContent(side.endsWith('\n') ? side : `${side}\n`);
+    } catch {
+      return side;
+    }
+  };
+  return { ours: decrypt(ours), theirs: decrypt(theirs) };
+}
+
 export async function pullStoreChanges(): Promise<PullResult> {
   const remote = await resolveRemote();
   if (!remote) {
@@ -298,7 +330,7 @@ export async function pullStoreChanges(): Promise<PullResult> {
       const fullPath = path.join(config.storePath, filePath);
       try {
         const content = await fs.readFile(fullPath, 'utf-8');
-        const { ours, theirs } = parseConflictSides(content);
+        const { ours, theirs } = decryptConflictSides(content);
         parsedRepoConflicts.push({ filePath, ours, theirs });
       } catch {
         // File might not be readable
@@ -332,7 +364,9 @@ export async function pullStoreChanges(): Promise<PullResult> {
       await git.raw(['checkout', '--ours', '--', filePath]);
       await git.add(filePath);
     }
-    await git.commit('Auto-resolve pull conflicts (accept local for conflicted files)');
+    await git.commit(
+      withMachineTrailer('Auto-resolve pull conflicts (accept local for conflicted files)'),
+    );
 
     const result: PullResult = {
       pulled: true,
@@ -371,7 +405,7 @@ export async function resolveStoreConfigConflict(
   // Check if all conflicts are resolved before committing
   const status = await git.status();
   if (status.conflicted.length === 0) {
-    await git.commit(`Resolve conflict in ${file}`);
+    await git.commit(withMachineTrailer(`Resolve conflict in ${file}`));
   }
 }
 
@@ -423,12 +457,14 @@ export async function getCommittedContent(relativePath: string): Promise<string
   if (!git) {
     git = createGit(config.storePath);
   }
+  let content: string;
   try {
-    return await git.raw(['show', `HEAD:${relativePath}`]);
+    content = await git.raw(['show', `HEAD:${relativePath}`]);
   } catch {
     // File doesn't exist in git history (new file or no commits yet)
     return null;
   }
+  return decryptStoreContent(content);
 }
 
 /**
@@ -443,11 +479,165 @@ export async function getCommittedContentAt(
   if (!git) {
     git = createGit(config.storePath);
   }
+  let content: string;
   try {
-    return await git.raw(['show', `${commitRef}:${relativePath}`]);
+    content = await git.raw(['show', `${commitRef}:${relativePath}`]);
   } catch {
     return null;
   }
+  return decryptStoreContent(content);
+}
+
+/**
+ * Committed bytes of a file at HEAD or another commit, for binary files that
+ * a text read would corrupt. Returns null if the file isn't in history there.
+ */
+export async function getCommittedBuffer(
+  relativePath: string,
+  commitRef = 'HEAD',
+): Promise<Buffer | null> {
+  if (!git) {
+    git = createGit(config.storePath);
+  }
+  try {
+    return await git.showBuffer([`${commitRef}:${relativePath}`]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List the files under a store directory at a commit, relative to that
+ * directory. Returns an empty list if the directory didn't exist then.
+ */
+export async function listCommittedFiles(dir: string, commitRef: string): Promise<string[]> {
+  if (!git) {
+    git = createGit(config.storePath);
+  }
+  let output: string;
+  try {
+    output = await git.raw(['ls-tree', '-r', '-z', '--name-only', commitRef, '--', `${dir}/`]);
+  } catch {
+    return [];
+  }
+  return output
+    .split('\0')
+    .filter(Boolean)
+    .map((file) => file.slice(dir.length + 1));
+}
+
+/**
+ * Rename a file or folder in the store with `git mv`, so history follows it.
+ * Paths are relative to the store root. Content git doesn't track yet is
+ * moved on disk instead.
+ */
+export async function moveStorePath(from: string, to: string): Promise<void> {
+  if (!git) {
+    git = createGit(config.storePath);
+  }
+  await fs.mkdir(path.dirname(path.join(config.storePath, to)), { recursive: true });
+  try {
+    await git.mv(from, to);
+  } catch {
+    await fs.rename(path.join(config.storePath, from), path.join(config.storePath, to));
+  }
+}
+
+export interface StoreFileRevision {
+  hash: string;
+  date: string;
+  message: string;
+  authorName: string;
+  /** From the Machine/Machine-Id commit trailers; null for commits made before they existed */
+  machineId: string | null;
+  machineName: string | null;
+  /** Unified diff of this file in the commit */
+  diff: string;
+}
+
+/**
+ * List the commits that touched a file in the store repo, newest first,
+ * each with the file's diff in that commit.
+ */
+export async function getFileHistory(
+  relativePath: string,
+  limit = 50,
+): Promise<StoreFileRevision[]> {
+  // Include edits still waiting in the debounced commit queue
+  await flushPendingCommits();
+  if (!git) {
+    git = createGit(config.storePath);
+  }
+  // Records start with \x1e and fields are split by \x1f; the patch that
+  // `-p` appends after the formatted header lands in the last field.
+  const format = [
+    '%x1e%H',
+    '%aI',
+    '%an',
+    '%s',
+    '%(trailers:key=Machine-Id,valueonly,separator=%x2C)',
+    '%(trailers:key=Machine,valueonly,separator=%x2C)',
+    '',
+  ].join('%x1f');
+  let output: string;
+  try {
+    output = await git.raw([
+      'log',
+      `--max-count=${limit}`,
+      `--format=${format}`,
+      '-p',
+      '--no-color',
+      '--',
+      relativePath,
+    ]);
+  } catch {
+    // No commits yet
+    return [];
+  }
+
+  const revisions = output
+    .split('\x1e')
+    .filter((record) => record.trim())
+    .map((record) => {
+      const [hash, date, authorName, message, machineId, machineName, diff = ''] =
+        record.split('\x1f');
+      return {
+        hash,
+        date: new Date(date).toISOString(),
+        message,
+        authorName,
+        machineId: machineId.trim() || null,
+        machineName: machineName.trim() || null,
+        diff: diff.replace(/^\n+/, '').trimEnd(),
+      };
+    });
+
+  // A diff of two encrypted blobs is meaningless — diff the plaintexts instead,
+  // or for binary files say what git says about unencrypted ones
+  for (const revision of revisions) {
+    if (revision.diff.includes(ENCRYPTED_BINARY_HEADER)) {
+      revision.diff = `diff --git a/${relativePath} b/${relativePath}\nBinary files a/${relativePath} and b/${relativePath} differ`;
+    } else if (revision.diff.includes(ENCRYPTED_HEADER)) {
+      revision.diff = await diffDecryptedRevision(relativePath, revision.hash).catch(
+        () => revision.diff,
+      );
+    }
+  }
+  return revisions;
+}
+
+/** Unified diff of a file's decrypted content between `hash^` and `hash` */
+async function diffDecryptedRevision(relativePath: string, hash: string): Promise<string> {
+  const [before, after] = await Promise.all([
+    getCommittedContentAt(relativePath, `${hash}^`),
+    getCommittedContentAt(relativePath, hash),
+  ]);
+  // Swap git's temp-file header for one naming the store file
+  const output = await gitDiffText(before ?? '', after ?? '');
+  const hunks = output.indexOf('@@');
+  if (hunks === -1) return '';
+  const header = `diff --git a/${relativePath} b/${relativePath}\n--- a/${relativePath}\n+++ b/${relativePath}\n`;
+  return header + output.slice(hunks);
 }
 
 /**
@@ -501,7 +691,7 @@ export async function ensureStoreCommitted(): Promise<MergeConflictInfo[]> {
       const fullPath = path.join(config.storePath, filePath);
       try {
         const content = await fs.readFile(fullPath, 'utf-8');
-        const { ours, theirs } = parseConflictSides(content);
+        const { ours, theirs } = decryptConflictSides(content);
         conflicts.push({ filePath, ours, theirs });
       } catch {
         // File might not be readable
@@ -514,7 +704,7 @@ export async function ensureStoreCommitted(): Promise<MergeConflictInfo[]> {
 
   if (status.files.length > 0) {
     await git.add('.');
-    await git.commit('Auto-commit before sync comparison');
+    await git.commit(withMachineTrailer('Auto-commit before sync comparison'));
   }
   return [];
 }
@@ -570,3 +760,32 @@ export async function gitMergeFile(
     await fs.rm(tmpDir, { recursive: true, force: true });
   }
 }
+
+/**
+ * Unified diff of two texts using `git diff --no-index`, on temp files like
+ * gitMergeFile. Empty when they are the same.
+ */
+export async function gitDiffText(before: string, after: string): Promise<string> {
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'las-diff-'));
+  const beforePath = path.join(tmpDir, 'before');
+  const afterPath = path.join(tmpDir, 'after');
+
+  try {
+    await Promise.all([
+      fs.writeFile(beforePath, before, 'utf-8'),
+      fs.writeFile(afterPath, after, 'utf-8'),
+    ]);
+
+    try {
+      await execFileAsync('git', ['diff', '--no-index', '--no-color', beforePath, afterPath]);
+      return '';
+    } catch (err: unknown) {
+      // Exit code 1 = the files differ, stdout has the diff
+      const execErr = err as { code?: number; stdout?: string };
+      if (execErr.code === 1 && execErr.stdout !== undefined) return execErr.stdout.trimEnd();
+      throw err;
+    }
+  } finally {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,56 @@
+import { v4 as uuid } from 'uuid';
+import type Database from 'better-sqlite3';
+import type { SyncDirection, SyncTarget } from '../types/index.js';
+
+export const SYNC_DIRECTIONS: SyncDirection[] = [
+  'bidirectional',
+  'store_to_target',
+  'target_to_store',
+];
+
+export const DEFAULT_SYNC_DIRECTION: SyncDirection = 'bidirectional';
+
+/** Key of the override in repo_settings / service_settings */
+export const SYNC_DIRECTION_KEY = 'sync_direction';
+
+export function isSyncDirection(value: unknown): value is SyncDirection {
+  return SYNC_DIRECTIONS.includes(value as SyncDirection);
+}
+
+/** Where the per-repo or per-service overrides of a target live */
+export function settingsTable(type: SyncTarget['type']): { table: string; column: string } {
+  return type === 'repo'
+    ? { table: 'repo_settings', column: 'repo_id' }
+    : { table: 'service_settings', column: 'service_config_id' };
+}
+
+export function getSyncDirection(
+  db: Database.Database,
+  target: Pick<SyncTarget, 'id' | 'type'>,
+): SyncDirection {
+  const { table, column } = settingsTable(target.type);
+  const row = db
+    .prepare(`SELECT value FROM ${table} WHERE ${column} = ? AND key = ?`)
+    .get(target.id, SYNC_DIRECTION_KEY) as { value: string } | undefined;
+  return isSyncDirection(row?.value) ? row.value : DEFAULT_SYNC_DIRECTION;
+}
+
+/** Save the override; bidirectional is the default, so it removes it */
+export function setSyncDirection(
+  db: Database.Database,
+  target: Pick<SyncTarget, 'id' | 'type'>,
+  direction: SyncDirection,
+): void {
+  const { table, column } = settingsTable(target.type);
+  db.prepare(`DELETE FROM ${table} WHERE ${column} = ? AND key = ?`).run(
+    target.id,
+    SYNC_DIRECTION_KEY,
+  );
+  if (direction === DEFAULT_SYNC_DIRECTION) return;
+  db.prepare(`INSERT INTO ${table} (id, ${column}, key, value) VALUES (?, ?, ?, ?)`).run(
+    uuid(),
+    target.id,
+    SYNC_DIRECTION_KEY,
+    direction,
+  );
+}
@@ -1,3 +1,4 @@
+import { readFileSync } from 'node:fs';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import type Database from 'better-sqlite3';
@@ -11,7 +12,7 @@ import {
   getServiceEnabledPatterns,
   getServiceEnabledIgnorePatterns,
 } from '../db/index.js';
-import { fileChecksum, contentChecksum, symlinkChecksum } from './checksum.js';
+import { contentChecksum, symlinkChecksum } from './checksum.js';
 import {
   getFileMtime,
   getSymlinkMtime,
@@ -22,24 +23,137 @@ import {
   parentPathHasSymlink,
   isSymlink,
 } from './repo-scanner.js';
-import { createConflict } from './conflict-detector.js';
+import {
+  createConflict,
+  describeMergeConflicts,
+  hasConflictMarkers,
+  mergeConflictColumns,
+  type MergeConflicts,
+} from './conflict-detector.js';
 import { sendConflictNotification, clearNotifiedConflict } from './notifier.js';
 import {
   queueStoreCommit,
   commitStoreChanges,
   getCommittedContent,
   getCommittedContentAt,
+  getCommittedBuffer,
   getHeadCommitHash,
   ensureStoreCommitted,
+  gitDiffText,
   gitMergeFile,
+  moveStorePath,
   type MergeConflictInfo,
 } from './store-git.js';
 import { FileWatcherService } from './file-watcher.js';
 import { scanServiceFiles } from './service-scanner.js';
 import { getServiceDefinition } from './service-definitions.js';
-import type { TrackedFile, Repo, ServiceConfig, SyncTarget, WsEvent } from '../types/index.js';
+import type {
+  TrackedFile,
+  MachineVariantKind,
+  Repo,
+  ServiceConfig,
+  SyncDirection,
+  SyncPlan,
+  SyncPlanAction,
+  SyncPlanEntry,
+  SyncTarget,
+  WsEvent,
+} from '../types/index.js';
 import { mapRow, mapRows } from '../db/index.js';
 import { getFileSizes, getSyncBlockThreshold } from './size-calculator.js';
+import {
+  scanFileForStore,
+  clearSecretFindings,
+  toStoreView,
+  hasRedactedPlaceholders,
+  restoreRedactedSecrets,
+  getSecretRules,
+  describeFindings,
+  secretAction,
+  type SecretScanResult,
+} from './secret-scanner.js';
+import {
+  readLocalSecrets,
+  expandSecretPlaceholders,
+  collapseSecretValues,
+} from './local-secrets.js';
+import {
+  EncryptionKeyMissingError,
+  decodeStoreBytes,
+  decryptStoreContent,
+  encodeStoreBytes,
+  encodeStoreContent,
+  isEncryptedBinary,
+  isEncryptedContent,
+  readStoreBytes,
+  readStoreFile,
+} from './store-encryption.js';
+import {
+  LinkedFileError,
+  getFileLink,
+  getSharedFileLinks,
+  setFileLink,
+  sharedFilePath,
+  type FileLink,
+} from './linked-files.js';
+import {
+  RULES_TOOLS,
+  RulesError,
+  encodeRules,
+  foldRules,
+  getRulesTargets,
+  getRulesToolForFile,
+  renderRules,
+  rulesFilePath,
+  rulesStorePath,
+  setRulesTargets,
+  type RulesTool,
+} from './canonical-rules.js';
+import { isBinaryContent, isBinaryFile } from './binary-files.js';
+import {
+  changedWithin,
+  directoryRename,
+  pickRenameCandidate,
+  type RenameCandidate,
+} from './rename-detector.js';
+import { getSyncDirection } from './sync-direction.js';
+import {
+  applyJsonOverlay,
+  getJsonUnionPaths,
+  isJsonFile,
+  mergeJson,
+  sameJson,
+  splitJsonOverlay,
+} from './json-merge.js';
+import { isMarkdownFile, mergeMarkdown } from './markdown-merge.js';
+import { moveToTrash, purgeExpiredTrash } from './trash.js';
+import { HookRunner } from './hooks.js';
+import { collapsePaths, expandPathTokens, getPathTokensForFile } from './path-tokens.js';
+import {
+  MachineVariantError,
+  findMachineVariant,
+  parseVariantPath,
+  variantPath,
+} from './machine-variants.js';
+
+/** Where a linked or rendered rules file gets its content, see SyncEngine.fileSource */
+interface FileSource {
+  /** Shown in logs, commits and conflicts */
+  name: string;
+  filePath: string;
+  /** Path relative to the store root, to look up the committed version */
+  storePath: string;
+  /** The file content the source content stands for */
+  render(source: string): string;
+  /** Source content with the file's content taken in, or null when it can't be */
+  fold(source: string | null, content: string): string | null;
+  /** Source content as it should be written to the store */
+  encode(source: string): string;
+  /** Every repo file fed by the source */
+  dependents: FileLink[];
+  toRepoAction: string;
+  fromRepoAction: string;
+}
 
 function repoToSyncTarget(repo: Repo): SyncTarget {
   return {
@@ -63,7 +177,7 @@ function serviceToSyncTarget(svc: ServiceConfig): SyncTarget {
   };
 }
 
-function getStoreBasePath(target: SyncTarget): string {
+function getStoreBasePath(target: Pick<SyncTarget, 'type' | 'storePath'>): string {
   if (target.type === 'service') {
     return path.join(config.storeServicesPath, target.storePath.replace(/^services\//, ''));
   }
@@ -85,17 +199,6 @@ function broadcastId(target: SyncTarget): { repoId?: string; serviceId?: string
   return target.type === 'repo' ? { repoId: target.id } : { serviceId: target.id };
 }
 
-/**
- * Check if file content contains git conflict markers.
- * Used to detect when a git merge "succeeds" but leaves conflict markers in the file
- * (e.g. when git auto-merge keeps both sides).
- */
-function hasConflictMarkers(content: string): boolean {
-  // Check for conflict markers at the start of a line (how git writes them).
-  // Simple includes() would false-positive on documentation that mentions markers.
-  return /^<{7}/m.test(content) && /^={7}/m.test(content) && /^>{7}/m.test(content);
-}
-
 /**
  * Parse conflict markers from content, extracting the "ours" and "theirs" sides.
  * Lines outside conflict blocks are included in both sides.
@@ -132,12 +235,15 @@ function parseConflictMarkerSides(content: string): { ours: string; theirs: stri
 export class SyncEngine {
   private db: Database.Database;
   private watcher: FileWatcherService;
+  private hooks: HookRunner;
   private pollingTimer: NodeJS.Timeout | null = null;
   private wsClients: Set<{ send: (data: string) => void }> = new Set();
   private ignoreMatcherCache = new Map<string, picomatch.Matcher>();
   private lastLogCleanup = 0;
   private sizeBlockLoggedAt = new Map<string, number>();
   private baseCommitOverride: string | null = null;
+  /** Merge base of files being restored: the commit from before the restore */
+  private restoreBaseCommits = new Map<string, string>();
   private pullSyncInProgress = false;
   private pullCompletedAt = 0;
   private lastKnownHead: string | null = null;
@@ -145,6 +251,7 @@ export class SyncEngine {
   constructor(db: Database.Database) {
     this.db = db;
     this.watcher = new FileWatcherService(db);
+    this.hooks = new HookRunner(db);
   }
 
   registerWsClient(client: { send: (data: string) => void }): void {
@@ -156,6 +263,7 @@ export class SyncEngine {
   }
 
   private broadcast(event: WsEvent): void {
+    this.hooks.dispatch(event);
     const data = JSON.stringify(event);
     for (const client of this.wsClients) {
       try {
@@ -252,7 +360,7 @@ export class SyncEngine {
           await this.syncAllRepos();
           await this.syncAllServices();
         }
-        this.pruneOldSyncLogs();
+        this.pruneOldRecords();
       } catch (err) {
         console.error('Polling error:', err);
       }
@@ -262,7 +370,7 @@ export class SyncEngine {
     }, interval);
   }
 
-  private pruneOldSyncLogs(): void {
+  private pruneOldRecords(): void {
     const now = Date.now();
     // Run cleanup at most once per hour
     if (now - this.lastLogCleanup < 3_600_000) return;
@@ -272,6 +380,11 @@ export class SyncEngine {
     } catch (err) {
       console.error('Failed to prune sync_log:', err);
     }
+    try {
+      purgeExpiredTrash(this.db);
+    } catch (err) {
+      console.error('Failed to purge the trash:', err);
+    }
   }
 
   async stop(): Promise<void> {
@@ -371,7 +484,13 @@ export class SyncEngine {
     if (slashIdx === -1) return;
 
     const storeName = storeRelative.substring(0, slashIdx);
-    const fileRelative = storeRelative.substring(slashIdx + 1);
+    let fileRelative = storeRelative.substring(slashIdx + 1);
+    // A machine variant syncs as part of its file, and only on its own machine
+    const variant = parseVariantPath(fileRelative);
+    if (variant) {
+      if (variant.machineId !== config.machineId) return;
+      fileRelative = variant.relativePath;
+    }
 
     const repo = mapRow<Repo>(
       this.db.prepare('SELECT * FROM repos WHERE store_path = ?').get(`repos/${storeName}`),
@@ -457,7 +576,13 @@ export class SyncEngine {
     if (slashIdx === -1) return;
 
     const storeName = storeRelative.substring(0, slashIdx);
-    const fileRelative = storeRelative.substring(slashIdx + 1);
+    let fileRelative = storeRelative.substring(slashIdx + 1);
+    // A machine variant syncs as part of its file, and only on its own machine
+    const variant = parseVariantPath(fileRelative);
+    if (variant) {
+      if (variant.machineId !== config.machineId) return;
+      fileRelative = variant.relativePath;
+    }
 
     const svc = mapRow<ServiceConfig>(
       this.db
@@ -526,6 +651,39 @@ export class SyncEngine {
   }
 
   async syncFile(trackedFile: TrackedFile, target: SyncTarget): Promise<void> {
+    try {
+      const variant =
+        trackedFile.fileType === 'file'
+          ? await findMachineVariant(getStoreBasePath(target), trackedFile.relativePath)
+          : null;
+      if (variant) {
+        await this.syncMachineVariant(trackedFile, target, variant);
+      } else {
+        await this.syncFileContent(trackedFile, target);
+      }
+      // A backup never writes to the target, not even a linked file's source
+      if (getSyncDirection(this.db, target) !== 'target_to_store') {
+        await this.syncFileFromSource(trackedFile.id, target);
+      }
+    } catch (err) {
+      if (!(err instanceof EncryptionKeyMissingError)) throw err;
+      // The store copy is encrypted (or must be) and this machine has no
+      // passphrase yet — leave both sides untouched until it is unlocked
+      if (trackedFile.syncStatus !== 'locked') {
+        this.db
+          .prepare("UPDATE tracked_files SET sync_status = 'locked' WHERE id = ?")
+          .run(trackedFile.id);
+        this.broadcast({
+          type: 'sync_status',
+          ...broadcastId(target),
+          fileId: trackedFile.id,
+          status: 'locked',
+        });
+      }
+    }
+  }
+
+  private async syncFileContent(trackedFile: TrackedFile, target: SyncTarget): Promise<void> {
     // Auto-detect if a "file" entry is actually a symlink on disk
     // (handles pre-existing DB entries and entries missed by scanner)
     const storeBase = getStoreBasePath(target);
@@ -540,6 +698,12 @@ export class SyncEngine {
       }
     }
 
+    const direction = getSyncDirection(this.db, target);
+    if (direction !== 'bidirectional') {
+      await this.syncOneWay(trackedFile, target, direction);
+      return;
+    }
+
     if (trackedFile.fileType === 'symlink') {
       await this.syncSymlink(trackedFile, target);
       return;
@@ -557,6 +721,18 @@ export class SyncEngine {
       return;
     }
 
+    // A file gone from one side may have only moved there
+    if (storeExists !== targetExists && (await this.detectRename(trackedFile, target))) return;
+
+    // Binary content would be corrupted by the text pipeline below
+    if (
+      (storeExists && isBinaryContent(await readStoreBytes(storeFilePath))) ||
+      (targetExists && (await isBinaryFile(targetFilePath)))
+    ) {
+      await this.syncBinaryFile(trackedFile, target, storeFilePath, targetFilePath);
+      return;
+    }
+
     if (storeExists && !targetExists) {
       // Target was intentionally deleted if it was previously synced and had content
       const targetDeleted =
@@ -569,9 +745,17 @@ export class SyncEngine {
       }
 
       // File never existed in target — copy store -> target
-      await this.copyEntry(storeFilePath, targetFilePath, 'file');
+      const rawStoreContent = await fs.readFile(storeFilePath, 'utf-8');
+      const storeContent = decryptStoreContent(rawStoreContent);
+      const rendered = this.renderForTarget(trackedFile, storeContent, null);
+      if (rendered === rawStoreContent) {
+        await this.copyEntry(storeFilePath, targetFilePath, 'file');
+      } else {
+        await ensureDir(path.dirname(targetFilePath));
+        await fs.writeFile(targetFilePath, rendered, 'utf-8');
+      }
       this.watcher.markSelfChange(targetFilePath);
-      const checksum = await fileChecksum(storeFilePath);
+      const checksum = contentChecksum(storeContent);
       const mtime = await getFileMtime(storeFilePath);
       this.db
         .prepare(
@@ -606,9 +790,17 @@ export class SyncEngine {
       }
 
       // File never existed in store — copy target -> store
-      await this.copyEntry(targetFilePath, storeFilePath, 'file');
-      this.watcher.markSelfChange(storeFilePath);
-      const checksum = await fileChecksum(targetFilePath);
+      const newContent = await fs.readFile(targetFilePath, 'utf-8');
+      const scan = this.checkSecrets(trackedFile, target, newContent);
+      if (scan.blocked) return;
+      await this.writeStoreContent(
+        trackedFile,
+        targetFilePath,
+        storeFilePath,
+        newContent,
+        scan.content,
+      );
+      const checksum = contentChecksum(scan.content);
       const mtime = await getFileMtime(targetFilePath);
       this.db
         .prepare(
@@ -632,8 +824,12 @@ export class SyncEngine {
     }
 
     // Both exist — read content and compare
-    const storeContent = await fs.readFile(storeFilePath, 'utf-8');
-    const targetContent = await fs.readFile(targetFilePath, 'utf-8');
+    const rawStoreContent = await fs.readFile(storeFilePath, 'utf-8');
+    const storeContent = decryptStoreContent(rawStoreContent);
+    const rawTargetContent = await fs.readFile(targetFilePath, 'utf-8');
+    // The store holds placeholders where the target has secrets; compare
+    // against the target's store view so that alone isn't seen as a change
+    const targetContent = this.toStoreView(trackedFile, rawTargetContent);
 
     if (storeContent === targetContent) {
       // If both sides have conflict markers (e.g. from a previous sync that
@@ -641,7 +837,7 @@ export class SyncEngine {
       if (this.baseCommitOverride && hasConflictMarkers(storeContent)) {
         const { ours, theirs } = parseConflictMarkerSides(storeContent);
         // Revert both to clean local content
-        await fs.writeFile(storeFilePath, ours, 'utf-8');
+        await fs.writeFile(storeFilePath, this.encodeForStore(trackedFile, ours), 'utf-8');
         await fs.writeFile(targetFilePath, ours, 'utf-8');
         this.watcher.markSelfChange(storeFilePath);
         this.watcher.markSelfChange(targetFilePath);
@@ -651,11 +847,37 @@ export class SyncEngine {
           storeFilePath,
           ours,
           theirs,
+          ours,
           storeContent,
         );
         return;
       }
 
+      // A placeholder whose local value was only just defined still needs
+      // expanding in the target, even though the store views already match
+      const rendered = this.renderForTarget(trackedFile, storeContent, rawTargetContent);
+      if (rendered !== rawTargetContent) {
+        await fs.writeFile(targetFilePath, rendered, 'utf-8');
+        this.watcher.markSelfChange(targetFilePath);
+      }
+
+      // The file's pattern was flagged (or unflagged) for encryption since it
+      // was last written — re-encode the store copy without changing content
+      const encoded = this.encodeForStore(trackedFile, storeContent);
+      if (encoded !== rawStoreContent) {
+        await fs.writeFile(storeFilePath, encoded, 'utf-8');
+        this.watcher.markSelfChange(storeFilePath);
+        this.logSync(
+          target.id,
+          trackedFile.relativePath,
+          isEncryptedContent(encoded) ? 'store_encrypted' : 'store_decrypted',
+          isEncryptedContent(encoded) ? 'Encrypted in store' : 'Decrypted in store',
+        );
+        this.autoCommitStore(
+          `${isEncryptedContent(encoded) ? 'Encrypt' : 'Decrypt'} ${trackedFile.relativePath} for ${target.name}`,
+        );
+      }
+
       // Already in sync — update checksums/mtime and clear any stale conflicts
       const checksum = contentChecksum(storeContent);
 
@@ -717,6 +939,11 @@ export class SyncEngine {
           .run(checksum, checksum, mtime, mtime, trackedFile.id);
       }
 
+      // Target was brought back in line with the store — the secret is gone
+      if (trackedFile.syncStatus === 'secret_detected') {
+        clearSecretFindings(this.db, trackedFile.id);
+      }
+
       // Auto-resolve any pending conflicts now that both sides match
       this.autoClearConflict(trackedFile.id);
 
@@ -750,7 +977,7 @@ export class SyncEngine {
     if (mergeConflicts.length > 0) {
       await this.handleMergeConflicts(mergeConflicts);
       // After abort, store file reverted to pre-merge state (== target) — re-read & re-check
-      const storeAfterAbort = await fs.readFile(storeFilePath, 'utf-8');
+      const storeAfterAbort = await readStoreFile(storeFilePath);
       if (storeAfterAbort === targetContent) {
         // Files now match after abort — just update checksums
         const checksum = contentChecksum(storeAfterAbort);
@@ -769,8 +996,9 @@ export class SyncEngine {
     // Get the "base" version: last committed state in store git repo
     const storeGitRelative = getStoreGitRelativePath(target, trackedFile.relativePath);
 
-    const baseContent = this.baseCommitOverride
-      ? await getCommittedContentAt(storeGitRelative, this.baseCommitOverride)
+    const baseCommit = this.baseCommitOverride ?? this.restoreBaseCommits.get(trackedFile.id);
+    const baseContent = baseCommit
+      ? await getCommittedContentAt(storeGitRelative, baseCommit)
       : await getCommittedContent(storeGitRelative);
 
     if (baseContent === null) {
@@ -801,7 +1029,7 @@ export class SyncEngine {
       if (this.baseCommitOverride && hasConflictMarkers(storeContent)) {
         const { ours, theirs } = parseConflictMarkerSides(storeContent);
         // Revert store to the clean pre-merge state (target content)
-        await fs.writeFile(storeFilePath, targetContent, 'utf-8');
+        await fs.writeFile(storeFilePath, this.encodeForStore(trackedFile, targetContent), 'utf-8');
         this.watcher.markSelfChange(storeFilePath);
         await this.createConflictFromMergeMarkers(
           trackedFile,
@@ -809,6 +1037,7 @@ export class SyncEngine {
           storeFilePath,
           ours,
           theirs,
+          ours,
           storeContent,
         );
         return;
@@ -833,19 +1062,27 @@ export class SyncEngine {
     }
 
     // Both changed — attempt 3-way merge
-    const { content: mergedContent, hasConflicts } = await gitMergeFile(
-      baseContent,
-      storeContent,
-      targetContent,
-    );
+    const {
+      content: mergedContent,
+      hasConflicts,
+      ...conflictDetails
+    } = await this.mergeFile(trackedFile.relativePath, baseContent, storeContent, targetContent);
 
     if (!hasConflicts) {
+      // The merged result carries target-side changes into the store
+      const scan = this.checkSecrets(trackedFile, target, mergedContent);
+      if (scan.blocked) return;
+
       // Clean auto-merge! Write merged result to both sides
-      await fs.writeFile(storeFilePath, mergedContent, 'utf-8');
-      await fs.writeFile(targetFilePath, mergedContent, 'utf-8');
+      await fs.writeFile(storeFilePath, this.encodeForStore(trackedFile, scan.content), 'utf-8');
+      await fs.writeFile(
+        targetFilePath,
+        this.renderForTarget(trackedFile, scan.content, rawTargetContent),
+        'utf-8',
+      );
       this.watcher.markSelfChange(storeFilePath);
       this.watcher.markSelfChange(targetFilePath);
-      const checksum = contentChecksum(mergedContent);
+      const checksum = contentChecksum(scan.content);
       const mtime = new Date().toISOString();
       this.db
         .prepare(
@@ -894,6 +1131,7 @@ export class SyncEngine {
         'conflict',
         baseContent,
         mergedContent,
+        conflictDetails,
       );
 
       if (conflict) {
@@ -903,7 +1141,7 @@ export class SyncEngine {
           target.id,
           trackedFile.relativePath,
           'conflict_created',
-          'Both sides changed (3-way merge failed)',
+          describeMergeConflicts(conflictDetails) ?? 'Both sides changed (3-way merge failed)',
         );
       }
     } else {
@@ -930,7 +1168,7 @@ export class SyncEngine {
         .prepare(
           `UPDATE conflicts SET
             store_content = ?, target_content = ?,
-            base_content = ?, merged_content = ?,
+            base_content = ?, merged_content = ?, json_conflicts = ?, section_conflicts = ?,
             store_checksum = ?, target_checksum = ?
           WHERE id = ?`,
         )
@@ -939,6 +1177,7 @@ export class SyncEngine {
           targetContent,
           baseContent,
           mergedContent,
+          ...mergeConflictColumns(conflictDetails),
           storeChecksum,
           targetChecksum,
           ec.id,
@@ -953,6 +1192,198 @@ export class SyncEngine {
     }
   }
 
+  /**
+   * Sync a file, symlink or binary file one way only. The source side
+   * (the store for a mirror, the target for a backup) always wins: an edit on
+   * the other side is overwritten and a file deleted from the source is
+   * deleted from it too. Nothing is ever merged and no conflict is created.
+   * A backup keeps store changes made elsewhere out of the target, and a
+   * mirror keeps new target files out of the store: such files are held.
+   */
+  private async syncOneWay(
+    trackedFile: TrackedFile,
+    target: SyncTarget,
+    direction: Exclude<SyncDirection, 'bidirectional'>,
+  ): Promise<void> {
+    const storeFilePath = path.join(getStoreBasePath(target), trackedFile.relativePath);
+    const targetFilePath = path.join(target.localPath, trackedFile.relativePath);
+    const symlink = trackedFile.fileType === 'symlink';
+    const exists = symlink ? symlinkExists : fileExists;
+    const storeExists = await exists(storeFilePath);
+    const targetExists = await exists(targetFilePath);
+    const toTarget = direction === 'store_to_target';
+
+    if (!storeExists && !targetExists) {
+      this.db.prepare('DELETE FROM tracked_files WHERE id = ?').run(trackedFile.id);
+      return;
+    }
+
+    const [sourceExists, destPath] = toTarget
+      ? [storeExists, targetFilePath]
+      : [targetExists, storeFilePath];
+    if (!sourceExists) {
+      // Never synced: the file only exists on the side that isn't copied from
+      if (trackedFile.lastSyncedAt === null) {
+        this.holdFile(trackedFile, target);
+        return;
+      }
+      // The copy being removed may be the only one left (a backup's store
+      // copy, above all), so it goes to the trash first
+      await moveToTrash(this.db, {
+        origin: 'file_deleted',
+        target,
+        relativePath: trackedFile.relativePath,
+        storeFilePath,
+        targetFilePath,
+      });
+      await fs.rm(destPath, { force: true });
+      this.watcher.markSelfChange(destPath);
+      this.db.prepare('DELETE FROM tracked_files WHERE id = ?').run(trackedFile.id);
+      this.autoClearConflict(trackedFile.id);
+      this.broadcast({ type: 'files_changed', ...broadcastId(target) });
+      this.logSync(
+        target.id,
+        trackedFile.relativePath,
+        'deleted',
+        toTarget
+          ? 'Deleted from target (deleted in store)'
+          : 'Deleted from store (deleted in target)',
+      );
+      this.autoCommitStore(`Remove ${trackedFile.relativePath} for ${target.name}`);
+      return;
+    }
+
+    // Both sides compared as the store sees them
+    const read = async (filePath: string, root: 'store' | 'target') => {
+      if (symlink) return fs.readlink(filePath);
+      const raw = await fs.readFile(filePath);
+      const bytes = root === 'store' ? decodeStoreBytes(raw) : raw;
+      if (isBinaryContent(bytes)) return bytes;
+      const text = bytes.toString('utf-8');
+      return root === 'store' ? decryptStoreContent(text) : this.toStoreView(trackedFile, text);
+    };
+    const storeContent = storeExists ? await read(storeFilePath, 'store') : null;
+    const targetContent = targetExists ? await read(targetFilePath, 'target') : null;
+    const storeChecksum = storeContent === null ? null : contentChecksum(storeContent);
+    const targetChecksum = targetContent === null ? null : contentChecksum(targetContent);
+
+    if (storeChecksum === targetChecksum) {
+      if (
+        trackedFile.syncStatus !== 'synced' ||
+        trackedFile.storeChecksum !== storeChecksum ||
+        trackedFile.targetChecksum !== targetChecksum
+      ) {
+        const mtime = symlink
+          ? await getSymlinkMtime(storeFilePath)
+          : await getFileMtime(storeFilePath);
+        this.db
+          .prepare(
+            `UPDATE tracked_files SET
+              store_checksum = ?, target_checksum = ?,
+              store_mtime = ?, target_mtime = ?,
+              sync_status = 'synced', last_synced_at = datetime('now')
+            WHERE id = ?`,
+          )
+          .run(storeChecksum, targetChecksum, mtime, mtime, trackedFile.id);
+        this.broadcast({
+          type: 'sync_status',
+          ...broadcastId(target),
+          fileId: trackedFile.id,
+          status: 'synced',
+        });
+      }
+      this.autoClearConflict(trackedFile.id);
+      return;
+    }
+
+    const storeChanged = storeChecksum !== trackedFile.storeChecksum;
+    const targetChanged = targetChecksum !== trackedFile.targetChecksum;
+
+    if (!toTarget) {
+      // The store moved on elsewhere while the target didn't: keep both as
+      // they are until the target changes again and overwrites the store
+      if (storeContent !== null && storeChanged && !targetChanged) {
+        this.holdFile(trackedFile, target);
+        return;
+      }
+      if (symlink) {
+        await this.copySymlink(trackedFile, target, targetFilePath, storeFilePath, 'sync_to_store');
+      } else if (Buffer.isBuffer(targetContent)) {
+        await this.copyBinary(trackedFile, target, storeFilePath, targetContent, 'sync_to_store');
+      } else {
+        await this.syncToStore(targetFilePath, storeFilePath, targetContent!, trackedFile, target);
+      }
+      return;
+    }
+
+    if (symlink) {
+      await this.copySymlink(trackedFile, target, storeFilePath, targetFilePath, 'sync_to_target');
+    } else if (Buffer.isBuffer(storeContent)) {
+      await this.copyBinary(trackedFile, target, targetFilePath, storeContent, 'sync_to_target');
+    } else {
+      await this.syncToTarget(storeFilePath, targetFilePath, storeContent!, trackedFile, target);
+    }
+    if (targetContent !== null && targetChanged) {
+      this.logSync(
+        target.id,
+        trackedFile.relativePath,
+        'target_reverted',
+        'Target edit reverted (store to target only)',
+      );
+    }
+  }
+
+  /** Flag a file the sync direction keeps from being copied */
+  private holdFile(trackedFile: TrackedFile, target: SyncTarget): void {
+    if (trackedFile.syncStatus === 'held') return;
+    this.db
+      .prepare("UPDATE tracked_files SET sync_status = 'held' WHERE id = ?")
+      .run(trackedFile.id);
+    this.broadcast({
+      type: 'sync_status',
+      ...broadcastId(target),
+      fileId: trackedFile.id,
+      status: 'held',
+    });
+  }
+
+  /** Copy a symlink over the other side's, then log and commit the copy */
+  private async copySymlink(
+    trackedFile: TrackedFile,
+    target: SyncTarget,
+    srcPath: string,
+    destPath: string,
+    action: 'sync_to_target' | 'sync_to_store',
+  ): Promise<void> {
+    await this.copyEntry(srcPath, destPath, 'symlink');
+    this.watcher.markSelfChange(destPath);
+    const checksum = await symlinkChecksum(srcPath);
+    const mtime = await getSymlinkMtime(srcPath);
+    this.db
+      .prepare(
+        `UPDATE tracked_files SET
+          store_checksum = ?, target_checksum = ?,
+          store_mtime = ?, target_mtime = ?,
+          sync_status = 'synced', last_synced_at = datetime('now')
+        WHERE id = ?`,
+      )
+      .run(checksum, checksum, mtime, mtime, trackedFile.id);
+    this.autoClearConflict(trackedFile.id);
+    this.broadcast({
+      type: 'sync_status',
+      ...broadcastId(target),
+      fileId: trackedFile.id,
+      status: 'synced',
+    });
+    if (action === 'sync_to_store') {
+      this.logSync(target.id, trackedFile.relativePath, action, 'Symlink Target -> Store');
+      this.autoCommitStore(`Sync symlink ${trackedFile.relativePath} from ${target.name}`);
+    } else {
+      this.logSync(target.id, trackedFile.relativePath, action, 'Symlink Store -> Target');
+      this.autoCommitStore(`Sync symlink ${trackedFile.relativePath} to ${target.name}`);
+    }
+  }
+
   /**
    * Sync a symlink entry. The "content" is the readlink() target string.
    * No 3-way merge — simple overwrite based on which side changed.
@@ -1170,83 +1601,1265 @@ export class SyncEngine {
     }
   }
 
-  private async syncToTarget(
-    storeFilePath: string,
-    targetFilePath: string,
-    content: string,
+  /**
+   * Sync a binary file byte for byte. Binary files skip secret scanning and
+   * merging, but are encrypted in the store like text when their pattern is
+   * flagged: like symlinks, whichever side changed since the last sync wins,
+   * but when both changed the file gets a binary conflict, resolved by
+   * keeping one side.
+   */
+  private async syncBinaryFile(
     trackedFile: TrackedFile,
     target: SyncTarget,
-  ): Promise<void> {
-    await this.copyEntry(storeFilePath, targetFilePath, 'file');
-    this.watcher.markSelfChange(targetFilePath);
-    const checksum = contentChecksum(content);
-    const mtime = await getFileMtime(storeFilePath);
-    this.db
-      .prepare(
-        `UPDATE tracked_files SET
-          store_checksum = ?, target_checksum = ?,
-          store_mtime = ?, target_mtime = ?,
-          sync_status = 'synced', last_synced_at = datetime('now')
-        WHERE id = ?`,
-      )
-      .run(checksum, checksum, mtime, mtime, trackedFile.id);
-    this.autoClearConflict(trackedFile.id);
-    this.broadcast({
-      type: 'sync_status',
-      ...broadcastId(target),
-      fileId: trackedFile.id,
-      status: 'synced',
-    });
-    this.logSync(target.id, trackedFile.relativePath, 'sync_to_target', 'Store -> Target');
-    this.autoCommitStore(`Sync ${trackedFile.relativePath} to ${target.name}`);
-  }
-
-  private async syncToStore(
-    targetFilePath: string,
     storeFilePath: string,
-    content: string,
-    trackedFile: TrackedFile,
-    target: SyncTarget,
+    targetFilePath: string,
   ): Promise<void> {
-    await this.copyEntry(targetFilePath, storeFilePath, 'file');
-    this.watcher.markSelfChange(storeFilePath);
-    const checksum = contentChecksum(content);
-    const mtime = await getFileMtime(targetFilePath);
-    this.db
-      .prepare(
-        `UPDATE tracked_files SET
-          store_checksum = ?, target_checksum = ?,
-          store_mtime = ?, target_mtime = ?,
-          sync_status = 'synced', last_synced_at = datetime('now')
-        WHERE id = ?`,
-      )
-      .run(checksum, checksum, mtime, mtime, trackedFile.id);
-    this.autoClearConflict(trackedFile.id);
-    this.broadcast({
-      type: 'sync_status',
-      ...broadcastId(target),
-      fileId: trackedFile.id,
-      status: 'synced',
-    });
-    this.logSync(target.id, trackedFile.relativePath, 'sync_to_store', 'Target -> Store');
-    this.autoCommitStore(`Sync ${trackedFile.relativePath} from ${target.name}`);
-  }
+    const rawStoreBytes = (await fileExists(storeFilePath))
+      ? await fs.readFile(storeFilePath)
+      : null;
+    const storeBytes = rawStoreBytes && decodeStoreBytes(rawStoreBytes);
+    const targetBytes = (await fileExists(targetFilePath))
+      ? await fs.readFile(targetFilePath)
+      : null;
+
+    if (storeBytes && !targetBytes) {
+      if (trackedFile.lastSyncedAt !== null && trackedFile.targetChecksum !== null) {
+        await this.createDeleteConflict(trackedFile, target, storeFilePath, targetFilePath);
+        return;
+      }
+      await this.copyBinary(trackedFile, target, targetFilePath, storeBytes, 'sync_to_target');
+      return;
+    }
 
-  /**
-   * Handle merge conflicts detected during pull or by ensureStoreCommitted.
-   * Creates conflict records so users can resolve them in the UI.
-   * For pull conflicts: the merge was completed with "ours" (local content)
-   * so the store file on disk has the local version.
-   * For ensureStoreCommitted: the merge was aborted, restoring pre-merge state.
-   */
-  async handleMergeConflicts(conflicts: MergeConflictInfo[]): Promise<void> {
-    for (const { filePath, ours, theirs } of conflicts) {
-      // Map store-relative path to tracked file
-      // filePath is like "repos/my-project/CLAUDE.md" or "services/claude-code/settings.json"
-      let trackedFile: TrackedFile | undefined;
-      let target: SyncTarget | undefined;
-      let storeFilePath: string | undefined;
-      let targetFilePath: string | undefined;
+    if (targetBytes && !storeBytes) {
+      if (trackedFile.lastSyncedAt !== null && trackedFile.storeChecksum !== null) {
+        await this.createDeleteConflict(trackedFile, target, storeFilePath, targetFilePath);
+        return;
+      }
+      await this.copyBinary(trackedFile, target, storeFilePath, targetBytes, 'sync_to_store');
+      return;
+    }
+    if (!rawStoreBytes || !storeBytes || !targetBytes) return;
+
+    const storeChecksum = contentChecksum(storeBytes);
+    const targetChecksum = contentChecksum(targetBytes);
+
+    if (storeChecksum === targetChecksum) {
+      let changed =
+        storeChecksum !== trackedFile.storeChecksum ||
+        storeChecksum !== trackedFile.targetChecksum ||
+        trackedFile.syncStatus !== 'synced';
+
+      // Re-encode the store copy when its pattern's encrypt flag changed
+      const encoded = encodeStoreBytes(this.db, trackedFile, storeBytes);
+      if (!encoded.equals(rawStoreBytes)) {
+        await fs.writeFile(storeFilePath, encoded);
+        this.watcher.markSelfChange(storeFilePath);
+        this.logSync(
+          target.id,
+          trackedFile.relativePath,
+          isEncryptedBinary(encoded) ? 'store_encrypted' : 'store_decrypted',
+          isEncryptedBinary(encoded) ? 'Encrypted in store' : 'Decrypted in store',
+        );
+        changed = true;
+      }
+
+      if (changed) {
+        const mtime = await getFileMtime(storeFilePath);
+        this.db
+          .prepare(
+            `UPDATE tracked_files SET
+              store_checksum = ?, target_checksum = ?,
+              store_mtime = ?, target_mtime = ?,
+              sync_status = 'synced', last_synced_at = datetime('now')
+            WHERE id = ?`,
+          )
+          .run(storeChecksum, storeChecksum, mtime, mtime, trackedFile.id);
+      }
+
+      const hadConflict = this.hasConflict(trackedFile.id);
+      this.autoClearConflict(trackedFile.id);
+
+      if (changed || hadConflict) {
+        this.broadcast({
+          type: 'sync_status',
+          ...broadcastId(target),
+          fileId: trackedFile.id,
+          status: 'synced',
+        });
+      }
+      if (changed) {
+        this.autoCommitStore(`Sync ${trackedFile.relativePath}`);
+      }
+      return;
+    }
+
+    // A pending conflict waits for the user to pick a side
+    if (this.hasConflict(trackedFile.id)) return;
+
+    const storeChanged = storeChecksum !== trackedFile.storeChecksum;
+    const targetChanged = targetChecksum !== trackedFile.targetChecksum;
+    // Nothing recorded yet (first sync) — the store wins, as for text files
+    const firstSync = trackedFile.storeChecksum === null && trackedFile.targetChecksum === null;
+
+    if (targetChanged && !storeChanged) {
+      await this.copyBinary(trackedFile, target, storeFilePath, targetBytes, 'sync_to_store');
+    } else if (!targetChanged || firstSync) {
+      await this.copyBinary(trackedFile, target, targetFilePath, storeBytes, 'sync_to_target');
+    } else {
+      const conflict = await createConflict(this.db, trackedFile, storeFilePath, targetFilePath);
+      if (conflict) {
+        this.broadcast({ type: 'conflict_created', conflict });
+        sendConflictNotification(this.db, conflict);
+        this.logSync(
+          target.id,
+          trackedFile.relativePath,
+          'conflict_created',
+          'Binary file changed on both sides',
+        );
+      }
+    }
+  }
+
+  /** Write one side's bytes over the other, then log and commit the copy */
+  private async copyBinary(
+    trackedFile: TrackedFile,
+    target: SyncTarget,
+    destPath: string,
+    bytes: Buffer,
+    action: 'sync_to_target' | 'sync_to_store',
+  ): Promise<void> {
+    await this.writeBinary(trackedFile, target, destPath, bytes, action === 'sync_to_store');
+    if (action === 'sync_to_store') {
+      this.logSync(target.id, trackedFile.relativePath, action, 'Binary Target -> Store');
+      this.autoCommitStore(`Sync ${trackedFile.relativePath} from ${target.name}`);
+    } else {
+      this.logSync(target.id, trackedFile.relativePath, action, 'Binary Store -> Target');
+      this.autoCommitStore(`Sync ${trackedFile.relativePath} to ${target.name}`);
+    }
+  }
+
+  /**
+   * Write bytes to one side and record the file as synced with them; the
+   * store copy is encrypted when the file's pattern is flagged
+   */
+  private async writeBinary(
+    trackedFile: TrackedFile,
+    target: SyncTarget,
+    destPath: string,
+    bytes: Buffer,
+    toStore: boolean,
+  ): Promise<void> {
+    await ensureDir(path.dirname(destPath));
+    await fs.writeFile(destPath, toStore ? encodeStoreBytes(this.db, trackedFile, bytes) : bytes);
+    this.watcher.markSelfChange(destPath);
+    const checksum = contentChecksum(bytes);
+    const mtime = await getFileMtime(destPath);
+    this.db
+      .prepare(
+        `UPDATE tracked_files SET
+          store_checksum = ?, target_checksum = ?,
+          store_mtime = ?, target_mtime = ?,
+          sync_status = 'synced', last_synced_at = datetime('now')
+        WHERE id = ?`,
+      )
+      .run(checksum, checksum, mtime, mtime, trackedFile.id);
+    this.autoClearConflict(trackedFile.id);
+    this.broadcast({
+      type: 'sync_status',
+      ...broadcastId(target),
+      fileId: trackedFile.id,
+      status: 'synced',
+    });
+  }
+
+  private async syncToTarget(
+    storeFilePath: string,
+    targetFilePath: string,
+    content: string,
+    trackedFile: TrackedFile,
+    target: SyncTarget,
+  ): Promise<void> {
+    const currentTarget = (await fileExists(targetFilePath))
+      ? await fs.readFile(targetFilePath, 'utf-8')
+      : null;
+    const rendered = this.renderForTarget(trackedFile, content, currentTarget);
+    if (rendered === (await fs.readFile(storeFilePath, 'utf-8'))) {
+      await this.copyEntry(storeFilePath, targetFilePath, 'file');
+    } else {
+      // Keep this machine's secrets in the target instead of the placeholders,
+      // and never copy an encrypted store file verbatim
+      await ensureDir(path.dirname(targetFilePath));
+      await fs.writeFile(targetFilePath, rendered, 'utf-8');
+    }
+    this.watcher.markSelfChange(targetFilePath);
+    const checksum = contentChecksum(content);
+    const mtime = await getFileMtime(storeFilePath);
+    this.db
+      .prepare(
+        `UPDATE tracked_files SET
+          store_checksum = ?, target_checksum = ?,
+          store_mtime = ?, target_mtime = ?,
+          sync_status = 'synced', last_synced_at = datetime('now')
+        WHERE id = ?`,
+      )
+      .run(checksum, checksum, mtime, mtime, trackedFile.id);
+    this.autoClearConflict(trackedFile.id);
+    this.broadcast({
+      type: 'sync_status',
+      ...broadcastId(target),
+      fileId: trackedFile.id,
+      status: 'synced',
+    });
+    this.logSync(target.id, trackedFile.relativePath, 'sync_to_target', 'Store -> Target');
+    this.autoCommitStore(`Sync ${trackedFile.relativePath} to ${target.name}`);
+  }
+
+  private async syncToStore(
+    targetFilePath: string,
+    storeFilePath: string,
+    content: string,
+    trackedFile: TrackedFile,
+    target: SyncTarget,
+  ): Promise<void> {
+    // `content` may already be the redacted view — scan what is actually on disk
+    const rawContent = await fs.readFile(targetFilePath, 'utf-8');
+    const scan = this.checkSecrets(trackedFile, target, rawContent);
+    if (scan.blocked) return;
+    await this.writeStoreContent(
+      trackedFile,
+      targetFilePath,
+      storeFilePath,
+      rawContent,
+      scan.content,
+    );
+    const checksum = contentChecksum(scan.content);
+    const mtime = await getFileMtime(targetFilePath);
+    this.db
+      .prepare(
+        `UPDATE tracked_files SET
+          store_checksum = ?, target_checksum = ?,
+          store_mtime = ?, target_mtime = ?,
+          sync_status = 'synced', last_synced_at = datetime('now')
+        WHERE id = ?`,
+      )
+      .run(checksum, checksum, mtime, mtime, trackedFile.id);
+    this.autoClearConflict(trackedFile.id);
+    this.broadcast({
+      type: 'sync_status',
+      ...broadcastId(target),
+      fileId: trackedFile.id,
+      status: 'synced',
+    });
+    this.logSync(target.id, trackedFile.relativePath, 'sync_to_store', 'Target -> Store');
+    this.autoCommitStore(`Sync ${trackedFile.relativePath} from ${target.name}`);
+  }
+
+  /**
+   * Scan content headed for the store. Logs and broadcasts only when the
+   * findings change, so a blocked file doesn't repeat itself on every poll.
+   */
+  private checkSecrets(
+    trackedFile: TrackedFile,
+    target: SyncTarget,
+    content: string,
+  ): SecretScanResult {
+    const scan = scanFileForStore(
+      this.db,
+      trackedFile.id,
+      this.collapseLocalValues(trackedFile, content),
+    );
+    if (scan.changed && scan.findings.length > 0) {
+      const action = secretAction(scan.mode);
+      this.logSync(
+        target.id,
+        trackedFile.relativePath,
+        `secret_${action}`,
+        describeFindings(scan.findings),
+      );
+      this.broadcast({
+        type: 'secret_detected',
+        ...broadcastId(target),
+        fileId: trackedFile.id,
+        relativePath: trackedFile.relativePath,
+        action,
+        count: scan.findings.length,
+      });
+    }
+    if (scan.blocked && trackedFile.syncStatus !== 'secret_detected') {
+      this.db
+        .prepare("UPDATE tracked_files SET sync_status = 'secret_detected' WHERE id = ?")
+        .run(trackedFile.id);
+      this.broadcast({
+        type: 'sync_status',
+        ...broadcastId(target),
+        fileId: trackedFile.id,
+        status: 'secret_detected',
+      });
+    }
+    return scan;
+  }
+
+  /**
+   * This machine's secret values turned into the `${secret:NAME}`
+   * placeholders the store copy has and, when the repo or service opted in,
+   * its paths into path tokens
+   */
+  private collapseLocalValues(trackedFile: TrackedFile, content: string): string {
+    const secrets = readLocalSecrets();
+    const storeCopy = Object.keys(secrets).length > 0 ? this.readStoreCopy(trackedFile) : null;
+    return collapsePaths(
+      collapseSecretValues(content, secrets, storeCopy),
+      getPathTokensForFile(this.db, trackedFile),
+    );
+  }
+
+  /** The file's current store copy, decrypted; null when there is none to read */
+  private readStoreCopy(trackedFile: TrackedFile): string | null {
+    try {
+      const { target } = this.findFileTarget(trackedFile.id);
+      const storeFilePath = path.join(getStoreBasePath(target), trackedFile.relativePath);
+      return decryptStoreContent(readFileSync(storeFilePath, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Target content as the store sees it: this machine's secret values and
+   * paths turned back into placeholders, then redacted in `redact` mode.
+   * An encrypted file copied verbatim into the target (e.g. when linking) is
+   * decrypted first so it compares equal to the store.
+   */
+  private toStoreView(trackedFile: TrackedFile, content: string): string {
+    const plain = decryptStoreContent(content);
+    return toStoreView(this.db, trackedFile.id, this.collapseLocalValues(trackedFile, plain));
+  }
+
+  /** Store content as written to disk: encrypted when the file's pattern is flagged */
+  private encodeForStore(trackedFile: TrackedFile, content: string): string {
+    return encodeStoreContent(this.db, trackedFile, content);
+  }
+
+  /**
+   * Store content as it should be written to the target: path tokens are
+   * expanded to this machine's paths, redacted values are restored from the
+   * current target, then `${secret:NAME}` placeholders are expanded from the
+   * machine-local secrets file.
+   */
+  private renderForTarget(
+    trackedFile: TrackedFile,
+    content: string,
+    currentTarget: string | null,
+  ): string {
+    const expanded = expandPathTokens(content, getPathTokensForFile(this.db, trackedFile));
+    const restored =
+      currentTarget !== null && hasRedactedPlaceholders(expanded)
+        ? restoreRedactedSecrets(expanded, currentTarget, getSecretRules(this.db))
+        : expanded;
+    return expandSecretPlaceholders(restored, readLocalSecrets());
+  }
+
+  /**
+   * Write target content into the store, copying the file when nothing was
+   * redacted or encrypted
+   */
+  private async writeStoreContent(
+    trackedFile: TrackedFile,
+    targetFilePath: string,
+    storeFilePath: string,
+    rawContent: string,
+    storeContent: string,
+  ): Promise<void> {
+    const encoded = this.encodeForStore(trackedFile, storeContent);
+    if (encoded === rawContent) {
+      await this.copyEntry(targetFilePath, storeFilePath, 'file');
+    } else {
+      await ensureDir(path.dirname(storeFilePath));
+      await fs.writeFile(storeFilePath, encoded, 'utf-8');
+    }
+    this.watcher.markSelfChange(storeFilePath);
+  }
+
+  /**
+   * Restore a file to the content it had at `commitHash` in the store history.
+   * The old revision is written to the store and then synced like any other
+   * store-side change. Returns false if the file did not exist
+   * at that commit.
+   */
+  async restoreFileVersion(trackedFileId: string, commitHash: string): Promise<boolean> {
+    const { trackedFile, target } = this.findFileTarget(trackedFileId);
+
+    // Commit pending changes first so the current state stays in history
+    await ensureStoreCommitted();
+    const gitPath = getStoreGitRelativePath(target, trackedFile.relativePath);
+    const committed = await getCommittedBuffer(gitPath, commitHash);
+    if (committed === null) return false;
+    const bytes = decodeStoreBytes(committed);
+
+    let encoded: Buffer | string;
+    if (isBinaryContent(bytes)) {
+      encoded = encodeStoreBytes(this.db, trackedFile, bytes);
+    } else {
+      const content = await getCommittedContentAt(gitPath, commitHash);
+      if (content === null) return false;
+      encoded = this.encodeForStore(trackedFile, content);
+    }
+
+    // Only the store copy is restored — the regular sync takes it from there,
+    // so a backup target or unsynced target edits are left alone. The sync
+    // commits the store before merging, so pin its base to the current HEAD.
+    const head = await getHeadCommitHash();
+    const storeFilePath = path.join(getStoreBasePath(target), trackedFile.relativePath);
+    await ensureDir(path.dirname(storeFilePath));
+    await fs.writeFile(storeFilePath, encoded);
+    this.watcher.markSelfChange(storeFilePath);
+    if (head) this.restoreBaseCommits.set(trackedFile.id, head);
+    try {
+      await this.syncFile(trackedFile, target);
+    } finally {
+      this.restoreBaseCommits.delete(trackedFile.id);
+    }
+    this.logSync(
+      target.id,
+      trackedFile.relativePath,
+      'restored',
+      `Restored revision ${commitHash.slice(0, 7)}`,
+    );
+    this.autoCommitStore(
+      `Restore ${trackedFile.relativePath} for ${target.name} to ${commitHash.slice(0, 7)}`,
+    );
+    return true;
+  }
+
+  /**
+   * Write the outcome of a resolved conflict like a sync would: the target
+   * gets the content rendered for this machine, the store the scanned store
+   * view (in this machine's variant when the file has one). A side the sync
+   * direction never writes is left alone, and a linked file's source picks
+   * up the result afterwards. Binary content is base64-encoded bytes.
+   */
+  async writeResolvedContent(
+    trackedFileId: string,
+    content: string,
+    binary = false,
+  ): Promise<void> {
+    const { trackedFile, target } = this.findFileTarget(trackedFileId);
+    const storeBase = getStoreBasePath(target);
+    const storeFilePath = path.join(storeBase, trackedFile.relativePath);
+    const targetFilePath = path.join(target.localPath, trackedFile.relativePath);
+    const direction = getSyncDirection(this.db, target);
+    const toTarget = direction !== 'target_to_store';
+    const toStore = direction !== 'store_to_target';
+
+    if (binary) {
+      const bytes = Buffer.from(content, 'base64');
+      if (toTarget) await this.writeBinary(trackedFile, target, targetFilePath, bytes, false);
+      if (toStore) await this.writeBinary(trackedFile, target, storeFilePath, bytes, true);
+      return;
+    }
+
+    const currentTarget = (await fileExists(targetFilePath))
+      ? await fs.readFile(targetFilePath, 'utf-8')
+      : null;
+    const rendered = this.renderForTarget(trackedFile, content, currentTarget);
+    if (toTarget) {
+      await ensureDir(path.dirname(targetFilePath));
+      await fs.writeFile(targetFilePath, rendered, 'utf-8');
+      this.watcher.markSelfChange(targetFilePath);
+    }
+
+    let storeView = this.toStoreView(trackedFile, content);
+    if (toStore) {
+      const scan = this.checkSecrets(trackedFile, target, content);
+      if (scan.blocked) return;
+      storeView = scan.content;
+      const variant =
+        trackedFile.fileType === 'file'
+          ? await findMachineVariant(storeBase, trackedFile.relativePath)
+          : null;
+      if (variant) {
+        if (!(await this.writeVariantView(trackedFile, target, variant, storeView))) return;
+      } else if (toTarget) {
+        await this.writeStoreContent(
+          trackedFile,
+          targetFilePath,
+          storeFilePath,
+          rendered,
+          storeView,
+        );
+      } else {
+        await ensureDir(path.dirname(storeFilePath));
+        await fs.writeFile(storeFilePath, this.encodeForStore(trackedFile, storeView), 'utf-8');
+        this.watcher.markSelfChange(storeFilePath);
+      }
+    }
+
+    const checksum = contentChecksum(storeView);
+    const mtime = await getFileMtime(toTarget ? targetFilePath : storeFilePath);
+    this.markSynced(trackedFile, target, checksum, checksum, mtime);
+    if (toTarget) await this.syncFileFromSource(trackedFile.id, target);
+  }
+
+  /** A tracked file with the repo or service it belongs to */
+  private findFileTarget(trackedFileId: string): { trackedFile: TrackedFile; target: SyncTarget } {
+    const trackedFile = mapRow<TrackedFile>(
+      this.db.prepare('SELECT * FROM tracked_files WHERE id = ?').get(trackedFileId),
+    );
+    if (!trackedFile) throw new Error(`Tracked file not found: ${trackedFileId}`);
+
+    if (trackedFile.repoId) {
+      const repo = mapRow<Repo>(
+        this.db.prepare('SELECT * FROM repos WHERE id = ?').get(trackedFile.repoId),
+      );
+      return { trackedFile, target: repoToSyncTarget(repo) };
+    }
+    const svc = mapRow<ServiceConfig>(
+      this.db
+        .prepare('SELECT * FROM service_configs WHERE id = ?')
+        .get(trackedFile.serviceConfigId),
+    );
+    return { trackedFile, target: serviceToSyncTarget(svc) };
+  }
+
+  /**
+   * The content a file has on the machine owning a variant: the variant
+   * itself, or the shared file with the overlay merged over it. Null when the
+   * overlay can't be applied because it or the shared file isn't valid JSON.
+   */
+  private async readVariantView(
+    storeFilePath: string,
+    variant: { kind: MachineVariantKind; path: string },
+  ): Promise<string | null> {
+    const own = await readStoreFile(variant.path);
+    if (variant.kind === 'file') return own;
+    const shared = (await fileExists(storeFilePath)) ? await readStoreFile(storeFilePath) : '';
+    return applyJsonOverlay(shared, own);
+  }
+
+  /**
+   * Sync a file this machine has a variant of. The target mirrors this
+   * machine's view of the file. A target edit goes into the variant or, for
+   * an overlay, into the overlay's keys with the rest going to the shared
+   * file. When both sides changed the target wins: they are this machine's
+   * own edits, and no other machine writes to the variant.
+   */
+  private async syncMachineVariant(
+    trackedFile: TrackedFile,
+    target: SyncTarget,
+    variant: { kind: MachineVariantKind; path: string },
+  ): Promise<void> {
+    const storeFilePath = path.join(getStoreBasePath(target), trackedFile.relativePath);
+    const targetFilePath = path.join(target.localPath, trackedFile.relativePath);
+    const view = await this.readVariantView(storeFilePath, variant);
+    if (view === null) {
+      if (trackedFile.syncStatus !== 'held') {
+        this.logSync(
+          target.id,
+          trackedFile.relativePath,
+          'variant_invalid',
+          'The machine overlay or the shared file is not valid JSON',
+        );
+      }
+      this.holdFile(trackedFile, target);
+      return;
+    }
+
+    const targetRaw = (await fileExists(targetFilePath))
+      ? await fs.readFile(targetFilePath, 'utf-8')
+      : null;
+    const targetView = targetRaw === null ? null : this.toStoreView(trackedFile, targetRaw);
+    const viewChecksum = contentChecksum(view);
+    const targetChecksum = targetView === null ? null : contentChecksum(targetView);
+
+    if (
+      targetView !== null &&
+      (targetView === view || (variant.kind === 'overlay' && sameJson(targetView, view)))
+    ) {
+      if (
+        trackedFile.syncStatus !== 'synced' ||
+        trackedFile.storeChecksum !== viewChecksum ||
+        trackedFile.targetChecksum !== targetChecksum
+      ) {
+        const mtime = await getFileMtime(targetFilePath);
+        this.markSynced(trackedFile, target, viewChecksum, targetChecksum!, mtime);
+      }
+      this.autoClearConflict(trackedFile.id);
+      return;
+    }
+
+    const direction = getSyncDirection(this.db, target);
+    const targetChanged = targetChecksum !== null && targetChecksum !== trackedFile.targetChecksum;
+    if (direction === 'target_to_store' || (targetChanged && direction === 'bidirectional')) {
+      if (targetRaw === null) return;
+      const scan = this.checkSecrets(trackedFile, target, targetRaw);
+      if (scan.blocked) return;
+      if (!(await this.writeVariantView(trackedFile, target, variant, scan.content))) return;
+      const checksum = contentChecksum(scan.content);
+      const mtime = await getFileMtime(targetFilePath);
+      this.markSynced(trackedFile, target, checksum, checksum, mtime);
+      this.logSync(
+        target.id,
+        trackedFile.relativePath,
+        'sync_to_store',
+        `Target -> Store (machine ${variant.kind === 'file' ? 'variant' : 'overlay'})`,
+      );
+      this.autoCommitStore(`Sync ${trackedFile.relativePath} from ${target.name}`);
+      return;
+    }
+
+    await ensureDir(path.dirname(targetFilePath));
+    await fs.writeFile(targetFilePath, this.renderForTarget(trackedFile, view, targetRaw), 'utf-8');
+    this.watcher.markSelfChange(targetFilePath);
+    const mtime = await getFileMtime(targetFilePath);
+    this.markSynced(trackedFile, target, viewChecksum, viewChecksum, mtime);
+    this.logSync(
+      target.id,
+      trackedFile.relativePath,
+      'sync_to_target',
+      `Store -> Target (machine ${variant.kind === 'file' ? 'variant' : 'overlay'})`,
+    );
+  }
+
+  /**
+   * Store this machine's view of a file in its variant: the whole view for a
+   * variant file, or for an overlay only what differs from the shared file.
+   * Returns false when the view isn't valid JSON and can't be split.
+   */
+  private async writeVariantView(
+    trackedFile: TrackedFile,
+    target: SyncTarget,
+    variant: { kind: MachineVariantKind; path: string },
+    view: string,
+  ): Promise<boolean> {
+    if (variant.kind === 'file') {
+      await fs.writeFile(variant.path, this.encodeForStore(trackedFile, view), 'utf-8');
+      this.watcher.markSelfChange(variant.path);
+      return true;
+    }
+    const storeFilePath = path.join(getStoreBasePath(target), trackedFile.relativePath);
+    const shared = (await fileExists(storeFilePath)) ? await readStoreFile(storeFilePath) : '';
+    const overlay = await readStoreFile(variant.path);
+    const split = splitJsonOverlay(shared, overlay, view);
+    if (!split) {
+      this.logSync(
+        target.id,
+        trackedFile.relativePath,
+        'variant_invalid',
+        'Target is not valid JSON, kept out of the store',
+      );
+      return false;
+    }
+    for (const [filePath, before, after] of [
+      [storeFilePath, shared, split.base],
+      [variant.path, overlay, split.overlay],
+    ]) {
+      if (after === before) continue;
+      await ensureDir(path.dirname(filePath));
+      await fs.writeFile(filePath, this.encodeForStore(trackedFile, after), 'utf-8');
+      this.watcher.markSelfChange(filePath);
+    }
+    return true;
+  }
+
+  private markSynced(
+    trackedFile: TrackedFile,
+    target: SyncTarget,
+    storeChecksum: string,
+    targetChecksum: string,
+    mtime: string | null,
+  ): void {
+    this.db
+      .prepare(
+        `UPDATE tracked_files SET
+          store_checksum = ?, target_checksum = ?,
+          store_mtime = ?, target_mtime = ?,
+          sync_status = 'synced', last_synced_at = datetime('now')
+        WHERE id = ?`,
+      )
+      .run(storeChecksum, targetChecksum, mtime, mtime, trackedFile.id);
+    this.autoClearConflict(trackedFile.id);
+    this.broadcast({
+      type: 'sync_status',
+      ...broadcastId(target),
+      fileId: trackedFile.id,
+      status: 'synced',
+    });
+  }
+
+  /**
+   * Give a file a variant for this machine: a whole copy of the shared file,
+   * or an empty JSON overlay. Pending edits are synced into the shared file
+   * first, so the variant starts out from the current content.
+   */
+  async createMachineVariant(trackedFileId: string, kind: MachineVariantKind): Promise<void> {
+    const { trackedFile, target } = this.findFileTarget(trackedFileId);
+    const relativePath = trackedFile.relativePath;
+    if (trackedFile.fileType !== 'file') {
+      throw new MachineVariantError('Only regular files can have machine variants', 409);
+    }
+    if (kind === 'overlay' && !isJsonFile(relativePath)) {
+      throw new MachineVariantError('Only JSON files can have a machine overlay');
+    }
+    const storeDir = getStoreBasePath(target);
+    if (await findMachineVariant(storeDir, relativePath)) {
+      throw new MachineVariantError(`This machine already has a variant of ${relativePath}`, 409);
+    }
+
+    await this.syncFile(trackedFile, target);
+    if (this.hasConflict(trackedFile.id)) {
+      throw new MachineVariantError(`Resolve the conflict of ${relativePath} first`, 409);
+    }
+    const storeFilePath = path.join(storeDir, relativePath);
+    if (!(await fileExists(storeFilePath))) {
+      throw new MachineVariantError(`${relativePath} has no store copy to start from`, 409);
+    }
+    if (isBinaryContent(await readStoreBytes(storeFilePath))) {
+      throw new MachineVariantError('Binary files cannot have machine variants', 409);
+    }
+
+    const variantFile = path.join(storeDir, variantPath(relativePath, config.machineId, kind));
+    if (kind === 'file') {
+      await fs.copyFile(storeFilePath, variantFile);
+    } else {
+      await fs.writeFile(variantFile, this.encodeForStore(trackedFile, '{}\n'), 'utf-8');
+    }
+    this.watcher.markSelfChange(variantFile);
+    this.logSync(
+      target.id,
+      relativePath,
+      'variant_created',
+      `Machine ${kind === 'file' ? 'variant' : 'overlay'} for ${config.machineName || config.machineId}`,
+    );
+    this.autoCommitStore(
+      `Add a machine ${kind === 'file' ? 'variant' : 'overlay'} of ${relativePath} for ${target.name}`,
+    );
+    this.broadcast({ type: 'files_changed', ...broadcastId(target) });
+  }
+
+  /**
+   * Make a machine's view of a file the shared content and drop its variant.
+   * Other machines pick the new content up like any store change.
+   */
+  async promoteMachineVariant(trackedFileId: string, machineId: string): Promise<void> {
+    const { trackedFile, target } = this.findFileTarget(trackedFileId);
+    const relativePath = trackedFile.relativePath;
+    const storeDir = getStoreBasePath(target);
+    const variant = await findMachineVariant(storeDir, relativePath, machineId);
+    if (!variant) {
+      throw new MachineVariantError(`No variant of ${relativePath} for that machine`, 404);
+    }
+    // Take in edits not synced into this machine's variant yet
+    if (machineId === config.machineId) await this.syncFile(trackedFile, target);
+
+    const storeFilePath = path.join(storeDir, relativePath);
+    const content = await this.readVariantView(storeFilePath, variant);
+    if (content === null) {
+      throw new MachineVariantError(
+        `The overlay of ${relativePath} cannot be applied: it or the shared file is not valid JSON`,
+        409,
+      );
+    }
+    await ensureDir(path.dirname(storeFilePath));
+    await fs.writeFile(storeFilePath, this.encodeForStore(trackedFile, content), 'utf-8');
+    this.watcher.markSelfChange(storeFilePath);
+    await this.deleteVariantFiles(storeDir, relativePath, machineId);
+
+    const current = mapRow<TrackedFile>(
+      this.db.prepare('SELECT * FROM tracked_files WHERE id = ?').get(trackedFile.id),
+    );
+    await this.syncFile(current, target);
+    this.logSync(target.id, relativePath, 'variant_promoted', 'Machine variant made shared');
+    this.autoCommitStore(`Share the machine variant of ${relativePath} for ${target.name}`);
+    this.broadcast({ type: 'files_changed', ...broadcastId(target) });
+  }
+
+  /** Drop a machine's variant; that machine goes back to the shared file */
+  async removeMachineVariant(trackedFileId: string, machineId: string): Promise<void> {
+    const { trackedFile, target } = this.findFileTarget(trackedFileId);
+    const relativePath = trackedFile.relativePath;
+    const storeDir = getStoreBasePath(target);
+    if (!(await findMachineVariant(storeDir, relativePath, machineId))) {
+      throw new MachineVariantError(`No variant of ${relativePath} for that machine`, 404);
+    }
+    await this.deleteVariantFiles(storeDir, relativePath, machineId);
+
+    const storeFilePath = path.join(storeDir, relativePath);
+    const targetFilePath = path.join(target.localPath, relativePath);
+    if (
+      machineId === config.machineId &&
+      getSyncDirection(this.db, target) !== 'target_to_store' &&
+      (await fileExists(storeFilePath))
+    ) {
+      await this.syncToTarget(
+        storeFilePath,
+        targetFilePath,
+        await readStoreFile(storeFilePath),
+        trackedFile,
+        target,
+      );
+    }
+    this.logSync(target.id, relativePath, 'variant_removed', 'Machine variant removed');
+    this.autoCommitStore(`Remove a machine variant of ${relativePath} for ${target.name}`);
+    this.broadcast({ type: 'files_changed', ...broadcastId(target) });
+  }
+
+  private async deleteVariantFiles(
+    storeDir: string,
+    relativePath: string,
+    machineId: string,
+  ): Promise<void> {
+    for (const kind of ['file', 'overlay'] as const) {
+      const variantFile = path.join(storeDir, variantPath(relativePath, machineId, kind));
+      await fs.rm(variantFile, { force: true });
+      this.watcher.markSelfChange(variantFile);
+    }
+  }
+
+  /**
+   * Merge a template change into a repo file with a three-way merge: `base`
+   * is the rendered template the repo was seeded from (null if unknown) and
+   * `templateContent` the rendered current template. A file the repo doesn't
+   * have yet is added. When the merge doesn't apply cleanly, the file gets a
+   * regular conflict with the template version on the store side.
+   */
+  async mergeTemplateFile(
+    repo: Repo,
+    relativePath: string,
+    base: string | null,
+    templateContent: string,
+  ): Promise<'added' | 'updated' | 'unchanged' | 'conflict'> {
+    const target = repoToSyncTarget(repo);
+    const storeFilePath = path.join(getStoreBasePath(target), relativePath);
+    const targetFilePath = path.join(target.localPath, relativePath);
+    const findTrackedFile = () =>
+      mapRow<TrackedFile>(
+        this.db
+          .prepare('SELECT * FROM tracked_files WHERE repo_id = ? AND relative_path = ?')
+          .get(repo.id, relativePath),
+      );
+
+    let trackedFile = findTrackedFile();
+    if (!trackedFile || !(await fileExists(storeFilePath))) {
+      if (!trackedFile) {
+        this.db
+          .prepare(
+            "INSERT INTO tracked_files (id, repo_id, relative_path, file_type, sync_status) VALUES (?, ?, ?, 'file', 'pending_to_target')",
+          )
+          .run(uuid(), repo.id, relativePath);
+        trackedFile = findTrackedFile()!;
+      }
+      await ensureDir(path.dirname(storeFilePath));
+      await fs.writeFile(storeFilePath, this.encodeForStore(trackedFile, templateContent), 'utf-8');
+      this.watcher.markSelfChange(storeFilePath);
+      await this.syncFile(trackedFile, target);
+      this.logSync(target.id, relativePath, 'template_update', 'Added from template');
+      this.autoCommitStore(`Add ${relativePath} to ${target.name} from template`);
+      return 'added';
+    }
+
+    // Bring in pending target edits first so they take part in the merge
+    await this.syncFile(trackedFile, target);
+    trackedFile = findTrackedFile()!;
+    if (trackedFile.syncStatus === 'conflict' || this.hasConflict(trackedFile.id)) {
+      return 'conflict';
+    }
+
+    const ours = await readStoreFile(storeFilePath);
+    if (ours === templateContent) return 'unchanged';
+    const merged = await this.mergeFile(relativePath, base ?? '', ours, templateContent);
+    if (merged.hasConflicts) {
+      await this.createConflictFromMergeMarkers(
+        trackedFile,
+        target,
+        storeFilePath,
+        ours,
+        templateContent,
+        base,
+        merged.content,
+        'Template update does not merge cleanly',
+        merged,
+      );
+      return 'conflict';
+    }
+    if (merged.content === ours) return 'unchanged';
+
+    await fs.writeFile(storeFilePath, this.encodeForStore(trackedFile, merged.content), 'utf-8');
+    this.watcher.markSelfChange(storeFilePath);
+    await this.syncToTarget(storeFilePath, targetFilePath, merged.content, trackedFile, target);
+    this.logSync(target.id, relativePath, 'template_update', 'Merged template changes');
+    this.autoCommitStore(`Update ${relativePath} for ${target.name} from template`);
+    return 'updated';
+  }
+
+  /**
+   * Make a repo file a live copy of `shared/<sharedPath>`. A shared file that
+   * doesn't exist yet is created from the repo's copy; otherwise the repo's
+   * copy is replaced by the shared one (the old content stays in history).
+   */
+  async linkFile(repo: Repo, relativePath: string, sharedPath: string): Promise<void> {
+    const target = repoToSyncTarget(repo);
+    const storeFilePath = path.join(getStoreBasePath(target), relativePath);
+    const sharedFile = sharedFilePath(sharedPath);
+    const findTrackedFile = () =>
+      mapRow<TrackedFile>(
+        this.db
+          .prepare('SELECT * FROM tracked_files WHERE repo_id = ? AND relative_path = ?')
+          .get(repo.id, relativePath),
+      );
+
+    let trackedFile = findTrackedFile();
+    if (trackedFile?.fileType === 'symlink') {
+      throw new LinkedFileError('Symbolic links cannot be linked to a shared file');
+    }
+    if (getRulesToolForFile(this.db, repo.id, relativePath)) {
+      throw new LinkedFileError(`${relativePath} is rendered from the canonical rules`, 409);
+    }
+
+    if (!(await fileExists(sharedFile))) {
+      if (!trackedFile) throw new LinkedFileError(`File not found: ${relativePath}`, 404);
+      // Bring in pending target edits so the shared file starts from the latest copy
+      await this.syncFile(trackedFile, target);
+      if (!(await fileExists(storeFilePath))) {
+        throw new LinkedFileError(`File not found: ${relativePath}`, 404);
+      }
+      await ensureDir(path.dirname(sharedFile));
+      await fs.copyFile(storeFilePath, sharedFile);
+      setFileLink(this.db, repo.id, relativePath, sharedPath);
+      this.logSync(target.id, relativePath, 'linked', `Shared as ${sharedPath}`);
+      this.autoCommitStore(`Share ${relativePath} from ${target.name} as ${sharedPath}`);
+      await this.syncFileFromSource(trackedFile.id, target);
+      return;
+    }
+
+    setFileLink(this.db, repo.id, relativePath, sharedPath);
+    this.logSync(target.id, relativePath, 'linked', `Linked to ${sharedPath}`);
+    if (!trackedFile || !(await fileExists(storeFilePath))) {
+      if (!trackedFile) {
+        this.db
+          .prepare(
+            "INSERT INTO tracked_files (id, repo_id, relative_path, file_type, sync_status) VALUES (?, ?, ?, 'file', 'pending_to_target')",
+          )
+          .run(uuid(), repo.id, relativePath);
+        trackedFile = findTrackedFile()!;
+        this.broadcast({ type: 'files_changed', repoId: repo.id });
+      }
+      const content = await readStoreFile(sharedFile);
+      await ensureDir(path.dirname(storeFilePath));
+      await fs.writeFile(storeFilePath, this.encodeForStore(trackedFile, content), 'utf-8');
+      this.watcher.markSelfChange(storeFilePath);
+      this.autoCommitStore(`Add ${relativePath} to ${target.name} from ${sharedPath}`);
+    }
+    // With no shared version recorded yet, the shared file wins
+    await this.syncFile(trackedFile, target);
+  }
+
+  /**
+   * Render a repo's canonical rules into the given tools' files, saving new
+   * canonical content first when given. Rules that don't exist yet start from
+   * the first of these tools' files the repo already has. Files of newly
+   * enabled tools are replaced by the rendered rules (the old content stays
+   * in history); files of tools no longer enabled become regular files.
+   */
+  async updateRules(repo: Repo, tools: RulesTool[], content?: string): Promise<void> {
+    const target = repoToSyncTarget(repo);
+    const findTrackedFile = (relativePath: string) =>
+      mapRow<TrackedFile>(
+        this.db
+          .prepare('SELECT * FROM tracked_files WHERE repo_id = ? AND relative_path = ?')
+          .get(repo.id, relativePath),
+      );
+
+    for (const tool of tools) {
+      const relativePath = RULES_TOOLS[tool].path;
+      const sharedPath = getFileLink(this.db, repo.id, relativePath);
+      if (sharedPath) {
+        throw new RulesError(`${relativePath} is linked to shared/${sharedPath}`, 409);
+      }
+      if (findTrackedFile(relativePath)?.fileType === 'symlink') {
+        throw new RulesError(`${relativePath} is a symbolic link`, 409);
+      }
+    }
+
+    // Fold in pending edits of the files rendered so far, so none are lost
+    for (const tool of getRulesTargets(this.db, repo.id)) {
+      const trackedFile = findTrackedFile(RULES_TOOLS[tool].path);
+      if (trackedFile) await this.syncFile(trackedFile, target);
+    }
+
+    const rulesFile = rulesFilePath(repo);
+    let canonical = content;
+    if (canonical === undefined && tools.length > 0 && !(await fileExists(rulesFile))) {
+      canonical = '';
+      for (const tool of (Object.keys(RULES_TOOLS) as RulesTool[]).filter((t) =>
+        tools.includes(t),
+      )) {
+        const relativePath = RULES_TOOLS[tool].path;
+        const trackedFile = findTrackedFile(relativePath);
+        if (!trackedFile) continue;
+        await this.syncFile(trackedFile, target);
+        const storeFilePath = path.join(getStoreBasePath(target), relativePath);
+        if (!(await fileExists(storeFilePath))) continue;
+        const existing = await readStoreFile(storeFilePath);
+        canonical = foldRules('', tool, existing) ?? existing;
+        break;
+      }
+    }
+
+    setRulesTargets(this.db, repo.id, tools);
+    if (canonical !== undefined) {
+      await ensureDir(path.dirname(rulesFile));
+      await fs.writeFile(rulesFile, encodeRules(this.db, repo.id, canonical), 'utf-8');
+    }
+    this.logSync(
+      repo.id,
+      rulesStorePath(repo),
+      'rules_updated',
+      tools.length > 0 ? `Rendered for ${tools.join(', ')}` : 'Rendering turned off',
+    );
+    this.autoCommitStore(`Update canonical rules for ${target.name}`);
+
+    for (const tool of tools) {
+      const relativePath = RULES_TOOLS[tool].path;
+      const storeFilePath = path.join(getStoreBasePath(target), relativePath);
+      let trackedFile = findTrackedFile(relativePath);
+      if (!trackedFile || !(await fileExists(storeFilePath))) {
+        if (!trackedFile) {
+          this.db
+            .prepare(
+              "INSERT INTO tracked_files (id, repo_id, relative_path, file_type, sync_status) VALUES (?, ?, ?, 'file', 'pending_to_target')",
+            )
+            .run(uuid(), repo.id, relativePath);
+          trackedFile = findTrackedFile(relativePath)!;
+          this.broadcast({ type: 'files_changed', repoId: repo.id });
+        }
+        const rendered = renderRules(await readStoreFile(rulesFile), tool);
+        await ensureDir(path.dirname(storeFilePath));
+        await fs.writeFile(storeFilePath, this.encodeForStore(trackedFile, rendered), 'utf-8');
+        this.watcher.markSelfChange(storeFilePath);
+      }
+      // With no rendered version recorded yet, the canonical rules win
+      await this.syncFile(trackedFile, target);
+    }
+  }
+
+  /**
+   * Where a linked file or a rendered rules file gets its content from: its
+   * shared file, or the repo's canonical rules rendered in the tool's format
+   */
+  private fileSource(trackedFile: TrackedFile, target: SyncTarget): FileSource | null {
+    const sharedPath = getFileLink(this.db, target.id, trackedFile.relativePath);
+    if (sharedPath) {
+      return {
+        name: sharedPath,
+        filePath: sharedFilePath(sharedPath),
+        storePath: `shared/${sharedPath}`,
+        render: (source) => source,
+        fold: (_source, content) => content,
+        encode: (source) => this.encodeForStore(trackedFile, source),
+        dependents: getSharedFileLinks(this.db, sharedPath),
+        toRepoAction: 'shared_to_repo',
+        fromRepoAction: 'repo_to_shared',
+      };
+    }
+
+    const tool = getRulesToolForFile(this.db, target.id, trackedFile.relativePath);
+    if (tool) {
+      return {
+        name: 'the canonical rules',
+        filePath: rulesFilePath(target),
+        storePath: rulesStorePath(target),
+        render: (source) => renderRules(source, tool),
+        fold: (source, content) => foldRules(source ?? '', tool, content),
+        encode: (source) => encodeRules(this.db, target.id, source),
+        dependents: getRulesTargets(this.db, target.id).map((t) => ({
+          repoId: target.id,
+          relativePath: RULES_TOOLS[t].path,
+        })),
+        toRepoAction: 'rules_to_repo',
+        fromRepoAction: 'repo_to_rules',
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Reconcile a linked or rendered rules file with its source. Whichever
+   * side changed since they last matched wins: repo edits go into the source
+   * and on to every other file fed by it, source edits come into the repo.
+   * When both changed, they are merged, or the repo gets a conflict with the
+   * source's version on the store side. An edit the source can't take in is
+   * a conflict too.
+   */
+  private async syncFileFromSource(trackedFileId: string, target: SyncTarget): Promise<void> {
+    if (target.type !== 'repo') return;
+    const trackedFile = mapRow<TrackedFile>(
+      this.db.prepare('SELECT * FROM tracked_files WHERE id = ?').get(trackedFileId),
+    );
+    if (!trackedFile || trackedFile.fileType !== 'file') return;
+    const source = this.fileSource(trackedFile, target);
+    if (!source) return;
+    // Wait until the repo's own store and target copies agree
+    if (trackedFile.syncStatus !== 'synced' || this.hasConflict(trackedFile.id)) return;
+
+    const storeFilePath = path.join(getStoreBasePath(target), trackedFile.relativePath);
+    const targetFilePath = path.join(target.localPath, trackedFile.relativePath);
+    if (!(await fileExists(storeFilePath))) return;
+
+    const repoContent = await readStoreFile(storeFilePath);
+    const sourceRaw = (await fileExists(source.filePath))
+      ? await readStoreFile(source.filePath)
+      : null;
+    const sourceContent = sourceRaw !== null ? source.render(sourceRaw) : null;
+    const repoChecksum = contentChecksum(repoContent);
+    const sourceChecksum = sourceContent !== null ? contentChecksum(sourceContent) : null;
+    const setSourceChecksum = (checksum: string) =>
+      this.db
+        .prepare('UPDATE tracked_files SET shared_checksum = ? WHERE id = ?')
+        .run(checksum, trackedFile.id);
+    const writeRepoCopy = async (content: string) => {
+      await fs.writeFile(storeFilePath, this.encodeForStore(trackedFile, content), 'utf-8');
+      this.watcher.markSelfChange(storeFilePath);
+      await this.syncToTarget(storeFilePath, targetFilePath, content, trackedFile, target);
+    };
+
+    if (repoChecksum === sourceChecksum) {
+      if (trackedFile.sharedChecksum !== repoChecksum) setSourceChecksum(repoChecksum);
+      return;
+    }
+
+    const base = trackedFile.sharedChecksum ?? null;
+
+    // Source changed (or the file was just attached to it) — bring it into the repo
+    if (sourceContent !== null && (base === null || repoChecksum === base)) {
+      await writeRepoCopy(sourceContent);
+      setSourceChecksum(sourceChecksum!);
+      this.logSync(target.id, trackedFile.relativePath, source.toRepoAction, `From ${source.name}`);
+      return;
+    }
+
+    let content = repoContent;
+    // The version both sides last matched, when it's known
+    let baseContent = sourceChecksum === base ? sourceContent : null;
+    if (sourceContent !== null && sourceChecksum !== base) {
+      // Both changed — merge when the version they last matched is still in history
+      const committed = await getCommittedContent(source.storePath);
+      const rendered = committed !== null ? source.render(committed) : null;
+      baseContent = rendered !== null && contentChecksum(rendered) === base ? rendered : null;
+      const merged =
+        baseContent !== null
+          ? await this.mergeFile(trackedFile.relativePath, baseContent, sourceContent, repoContent)
+          : null;
+      if (!merged || merged.hasConflicts) {
+        // Resolving against this source version decides which side wins next
+        setSourceChecksum(sourceChecksum!);
+        await this.createConflictFromMergeMarkers(
+          trackedFile,
+          target,
+          storeFilePath,
+          repoContent,
+          sourceContent,
+          baseContent,
+          merged?.content ?? repoContent,
+          `Both this copy and ${source.name} changed`,
+          merged ?? undefined,
+        );
+        return;
+      }
+      content = merged.content;
+    }
+
+    const folded = source.fold(sourceRaw, content);
+    if (folded === null) {
+      if (sourceChecksum !== null) setSourceChecksum(sourceChecksum);
+      await this.createConflictFromMergeMarkers(
+        trackedFile,
+        target,
+        storeFilePath,
+        repoContent,
+        sourceContent ?? '',
+        baseContent,
+        content,
+        `This edit can't be folded back into ${source.name}`,
+      );
+      return;
+    }
+
+    // Repo copy changed — update the source and every other file fed by it
+    await ensureDir(path.dirname(source.filePath));
+    await fs.writeFile(source.filePath, source.encode(folded), 'utf-8');
+    const expected = source.render(folded);
+    if (expected !== repoContent) await writeRepoCopy(expected);
+    setSourceChecksum(contentChecksum(expected));
+    this.logSync(target.id, trackedFile.relativePath, source.fromRepoAction, `To ${source.name}`);
+    this.autoCommitStore(`Sync ${source.name} from ${target.name}`);
+
+    for (const link of source.dependents) {
+      if (link.repoId === target.id && link.relativePath === trackedFile.relativePath) continue;
+      const repo = mapRow<Repo>(
+        this.db.prepare('SELECT * FROM repos WHERE id = ?').get(link.repoId),
+      );
+      if (!repo || repo.status !== 'active') continue;
+      const linked = mapRow<TrackedFile>(
+        this.db
+          .prepare('SELECT * FROM tracked_files WHERE repo_id = ? AND relative_path = ?')
+          .get(link.repoId, link.relativePath),
+      );
+      if (linked) await this.syncFile(linked, repoToSyncTarget(repo));
+    }
+  }
+
+  /**
+   * Three-way merge: key by key for JSON files, section by section for
+   * Markdown, line by line for anything else or when a side isn't valid JSON
+   */
+  private async mergeFile(
+    relativePath: string,
+    base: string,
+    store: string,
+    target: string,
+  ): Promise<{ content: string; hasConflicts: boolean } & MergeConflicts> {
+    const none = { jsonConflicts: null, sectionConflicts: null };
+    if (isJsonFile(relativePath)) {
+      const merged = mergeJson(base, store, target, { unionPaths: getJsonUnionPaths(this.db) });
+      if (merged) {
+        const hasConflicts = merged.conflicts.length > 0;
+        return {
+          ...none,
+          content: merged.content,
+          hasConflicts,
+          jsonConflicts: hasConflicts ? merged.conflicts : null,
+        };
+      }
+    }
+    if (isMarkdownFile(relativePath)) {
+      const merged = await mergeMarkdown(base, store, target);
+      const hasConflicts = merged.conflicts.length > 0;
+      return {
+        ...none,
+        content: merged.content,
+        hasConflicts,
+        sectionConflicts: hasConflicts ? merged.conflicts : null,
+      };
+    }
+    return { ...none, ...(await gitMergeFile(base, store, target)) };
+  }
+
+  /**
+   * Handle merge conflicts detected during pull or by ensureStoreCommitted.
+   * Creates conflict records so users can resolve them in the UI.
+   * For pull conflicts: the merge was completed with "ours" (local content)
+   * so the store file on disk has the local version.
+   * For ensureStoreCommitted: the merge was aborted, restoring pre-merge state.
+   */
+  async handleMergeConflicts(conflicts: MergeConflictInfo[]): Promise<void> {
+    for (const { filePath, ours, theirs } of conflicts) {
+      // Map store-relative path to tracked file
+      // filePath is like "repos/my-project/CLAUDE.md" or "services/claude-code/settings.json"
+      let trackedFile: TrackedFile | undefined;
+      let target: SyncTarget | undefined;
+      let storeFilePath: string | undefined;
+      let targetFilePath: string | undefined;
 
       if (filePath.startsWith('repos/')) {
         const withoutPrefix = filePath.replace(/^repos\//, '');
@@ -1342,6 +2955,9 @@ export class SyncEngine {
           mergedContent: null,
           storeChecksum: trackedFile.storeChecksum || '',
           targetChecksum: trackedFile.targetChecksum || '',
+          isBinary: 0,
+          jsonConflicts: null,
+          sectionConflicts: null,
           status: 'pending',
           resolvedAt: null,
           createdAt: new Date().toISOString(),
@@ -1366,7 +2982,8 @@ export class SyncEngine {
    * This happens when git pull auto-merges "successfully" but the result
    * still contains <<<<<<</>>>>>>  markers.
    * Reverts the file on disk to clean local content and stores both sides
-   * in the conflict record for the user to resolve in the UI.
+   * in the conflict record for the user to resolve in the UI. `base` is the
+   * common ancestor of the two sides, null when it isn't known.
    */
   private async createConflictFromMergeMarkers(
     trackedFile: TrackedFile,
@@ -1374,7 +2991,10 @@ export class SyncEngine {
     storeFilePath: string,
     ours: string,
     theirs: string,
+    base: string | null,
     mergedContent: string,
+    detail = 'Git merge left conflict markers in file',
+    mergeConflicts: Partial<MergeConflicts> = {},
   ): Promise<void> {
     if (this.hasConflict(trackedFile.id)) return;
 
@@ -1391,18 +3011,19 @@ export class SyncEngine {
     const conflictId = uuid();
     this.db
       .prepare(
-        `INSERT INTO conflicts (id, tracked_file_id, store_content, target_content, base_content, merged_content, store_checksum, target_checksum, status)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending')`,
+        `INSERT INTO conflicts (id, tracked_file_id, store_content, target_content, base_content, merged_content, store_checksum, target_checksum, json_conflicts, section_conflicts, status)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')`,
       )
       .run(
         conflictId,
         trackedFile.id,
         theirs, // remote content → shown as "Store" in UI
         ours, // local content → shown as "Target" in UI
-        ours, // base = pre-merge local state
+        base,
         mergedContent, // merged content with markers for reference
         storeChecksum,
         targetChecksum,
+        ...mergeConflictColumns(mergeConflicts),
       );
 
     this.db
@@ -1416,10 +3037,15 @@ export class SyncEngine {
         trackedFileId: trackedFile.id,
         storeContent: theirs,
         targetContent: ours,
-        baseContent: ours,
+        baseContent: base,
         mergedContent,
         storeChecksum,
         targetChecksum,
+        isBinary: 0,
+        jsonConflicts: mergeConflicts.jsonConflicts?.length ? mergeConflicts.jsonConflicts : null,
+        sectionConflicts: mergeConflicts.sectionConflicts?.length
+          ? mergeConflicts.sectionConflicts
+          : null,
         status: 'pending',
         resolvedAt: null,
         createdAt: new Date().toISOString(),
@@ -1430,12 +3056,7 @@ export class SyncEngine {
       },
     });
 
-    this.logSync(
-      target.id,
-      trackedFile.relativePath,
-      'conflict_created',
-      'Git merge left conflict markers in file',
-    );
+    this.logSync(target.id, trackedFile.relativePath, 'conflict_created', detail);
   }
 
   private hasConflict(trackedFileId: string): boolean {
@@ -1498,9 +3119,177 @@ export class SyncEngine {
     }
   }
 
+  /**
+   * Detect a file renamed or moved on one side. A synced file now gone from
+   * one side is matched against files that appeared there and were never
+   * synced, and such a new file against synced files gone from its side: same
+   * checksum or similar content, moved within RENAME_WINDOW_MS. A match is
+   * carried over to the other side. Returns true when it was a rename.
+   */
+  private async detectRename(trackedFile: TrackedFile, target: SyncTarget): Promise<boolean> {
+    const rename = await this.findRename(trackedFile, target);
+    if (!rename) return false;
+    await this.applyRename(rename.from, rename.to, target, rename.side);
+    return true;
+  }
+
+  /** The rename detectRename would carry over, found without changing anything */
+  private async findRename(
+    trackedFile: TrackedFile,
+    target: SyncTarget,
+  ): Promise<{ from: TrackedFile; to: TrackedFile; side: 'store' | 'target' } | null> {
+    const roots = { store: getStoreBasePath(target), target: target.localPath };
+    const synced = trackedFile.lastSyncedAt !== null;
+    const storeExists = await fileExists(path.join(roots.store, trackedFile.relativePath));
+    // Where the rename happened: the side a synced file is missing from, or
+    // the only side a new file is on
+    const side = storeExists === synced ? 'target' : 'store';
+    const other = side === 'target' ? 'store' : 'target';
+    const readView = async (row: TrackedFile, root: 'store' | 'target') => {
+      const raw = await fs.readFile(path.join(roots[root], row.relativePath));
+      const bytes = root === 'store' ? decodeStoreBytes(raw) : raw;
+      if (isBinaryContent(bytes)) return bytes;
+      const text = bytes.toString('utf-8');
+      return root === 'store' ? decryptStoreContent(text) : this.toStoreView(row, text);
+    };
+
+    const column = target.type === 'repo' ? 'repo_id' : 'service_config_id';
+    const rows = mapRows<TrackedFile>(
+      this.db
+        .prepare(
+          `SELECT * FROM tracked_files WHERE ${column} = ? AND file_type = 'file' AND id != ?`,
+        )
+        .all(target.id, trackedFile.id),
+    );
+    // The other end of the rename: a new file on this side for a synced one,
+    // a synced file missing from this side for a new one
+    const candidates: (RenameCandidate & { row: TrackedFile })[] = [];
+    for (const row of rows) {
+      if ((row.lastSyncedAt === null) !== synced) continue;
+      const sidePath = path.join(roots[side], row.relativePath);
+      if ((await fileExists(sidePath)) !== synced) continue;
+      if ((await fileExists(path.join(roots[other], row.relativePath))) === synced) continue;
+      if (synced && !(await changedWithin(sidePath, roots[side]))) continue;
+      candidates.push({
+        path: row.relativePath,
+        content: await readView(row, synced ? side : other),
+        row,
+      });
+    }
+    if (candidates.length === 0) return null;
+    if (
+      !synced &&
+      !(await changedWithin(path.join(roots[side], trackedFile.relativePath), roots[side]))
+    ) {
+      return null;
+    }
+
+    const content = await readView(trackedFile, synced ? other : side);
+    const match = pickRenameCandidate(trackedFile.relativePath, content, candidates);
+    if (!match) return null;
+    return synced
+      ? { from: trackedFile, to: match.row, side }
+      : { from: match.row, to: trackedFile, side };
+  }
+
+  /**
+   * Carry a rename made on `side` over to the other side (with `git mv` in
+   * the store) and move the tracked file to its new path, dropping the entry
+   * the new name was tracked under. When the file's whole folder was
+   * renamed, the folder moves at once with every tracked file in it.
+   */
+  private async applyRename(
+    from: TrackedFile,
+    to: TrackedFile,
+    target: SyncTarget,
+    side: 'store' | 'target',
+  ): Promise<void> {
+    const roots = { store: getStoreBasePath(target), target: target.localPath };
+    const other = side === 'target' ? 'store' : 'target';
+    const dirs = directoryRename(from.relativePath, to.relativePath);
+    const movesFolder =
+      dirs !== null &&
+      !(await symlinkExists(path.join(roots[side], dirs.from))) &&
+      !(await symlinkExists(path.join(roots[other], dirs.to)));
+    const moved = movesFolder ? dirs : { from: from.relativePath, to: to.relativePath };
+
+    if (other === 'store') {
+      await moveStorePath(
+        getStoreGitRelativePath(target, moved.from),
+        getStoreGitRelativePath(target, moved.to),
+      );
+    } else {
+      const dest = path.join(roots.target, moved.to);
+      await ensureDir(path.dirname(dest));
+      await fs.rename(path.join(roots.target, moved.from), dest);
+    }
+
+    const column = target.type === 'repo' ? 'repo_id' : 'service_config_id';
+    const rows = movesFolder
+      ? mapRows<TrackedFile>(
+          this.db.prepare(`SELECT * FROM tracked_files WHERE ${column} = ?`).all(target.id),
+        ).filter((row) => row.relativePath.startsWith(`${moved.from}/`))
+      : [from];
+    this.db.transaction(() => {
+      for (const row of rows) {
+        const newPath = moved.to + row.relativePath.slice(moved.from.length);
+        this.db
+          .prepare(`DELETE FROM tracked_files WHERE ${column} = ? AND relative_path = ?`)
+          .run(target.id, newPath);
+        this.db
+          .prepare('UPDATE tracked_files SET relative_path = ? WHERE id = ?')
+          .run(newPath, row.id);
+      }
+    })();
+
+    for (const row of rows) {
+      const newPath = moved.to + row.relativePath.slice(moved.from.length);
+      this.watcher.markSelfChange(path.join(roots[other], row.relativePath));
+      this.watcher.markSelfChange(path.join(roots[other], newPath));
+      // The delete conflict the rename first looked like
+      if (row.syncStatus === 'missing_in_target' || row.syncStatus === 'missing_in_store') {
+        this.autoClearConflict(row.id);
+      }
+    }
+
+    this.logSync(
+      target.id,
+      to.relativePath,
+      'renamed',
+      `${movesFolder ? 'Folder ' : ''}${moved.from} -> ${moved.to}`,
+    );
+    this.broadcast({ type: 'files_changed', ...broadcastId(target) });
+    this.autoCommitStore(`Rename ${moved.from} to ${moved.to} for ${target.name}`);
+
+    // Edits made along with the rename sync as usual under the new name
+    const renamed = mapRow<TrackedFile>(
+      this.db.prepare('SELECT * FROM tracked_files WHERE id = ?').get(from.id),
+    );
+    if (renamed) await this.syncFileContent(renamed, target);
+  }
+
+  /** Size of the files' store copies when it exceeds the sync block threshold */
+  private async checkSizeLimit(
+    storeDir: string,
+    trackedFiles: TrackedFile[],
+  ): Promise<{ totalSize: number; sizeMB: string; limitMB: string } | null> {
+    const blockThreshold = getSyncBlockThreshold(this.db);
+    const fileSizes = await getFileSizes(
+      storeDir,
+      trackedFiles.map((f) => f.relativePath),
+    );
+    const totalSize = [...fileSizes.values()].reduce((sum, s) => sum + s, 0);
+    if (totalSize <= blockThreshold) return null;
+    return {
+      totalSize,
+      sizeMB: (totalSize / (1024 * 1024)).toFixed(1),
+      limitMB: (blockThreshold / (1024 * 1024)).toFixed(0),
+    };
+  }
+
   async syncRepo(
     repoId: string,
-    options?: { force?: boolean },
+    options?: { force?: boolean; fileIds?: string[] },
   ): Promise<{ synced: number; conflicts: number; errors: number }> {
     const repo = mapRow<Repo>(this.db.prepare('SELECT * FROM repos WHERE id = ?').get(repoId));
     if (!repo) throw new Error(`Repo not found: ${repoId}`);
@@ -1511,16 +3300,10 @@ export class SyncEngine {
     );
 
     // Block sync if tracked files size exceeds threshold
-    const blockThreshold = getSyncBlockThreshold(this.db);
     const storeDir = path.join(config.storeReposPath, repo.storePath.replace(/^repos\//, ''));
-    const fileSizes = await getFileSizes(
-      storeDir,
-      trackedFiles.map((f) => f.relativePath),
-    );
-    const totalSize = [...fileSizes.values()].reduce((sum, s) => sum + s, 0);
-    if (totalSize > blockThreshold) {
-      const sizeMB = (totalSize / (1024 * 1024)).toFixed(1);
-      const limitMB = (blockThreshold / (1024 * 1024)).toFixed(0);
+    const sizeBlock = await this.checkSizeLimit(storeDir, trackedFiles);
+    if (sizeBlock) {
+      const { sizeMB, limitMB, totalSize } = sizeBlock;
       const lastLogged = this.sizeBlockLoggedAt.get(repo.id) ?? 0;
       if (Date.now() - lastLogged > 300_000) {
         console.warn(
@@ -1541,7 +3324,14 @@ export class SyncEngine {
     let conflicts = 0;
     let errors = 0;
 
-    for (const tf of trackedFiles) {
+    for (const listed of trackedFiles) {
+      // Applying part of a sync plan
+      if (options?.fileIds && !options.fileIds.includes(listed.id)) continue;
+      // An earlier file's rename may have moved or dropped this one
+      const tf = mapRow<TrackedFile>(
+        this.db.prepare('SELECT * FROM tracked_files WHERE id = ?').get(listed.id),
+      );
+      if (!tf) continue;
       try {
         await this.syncFile(tf, target);
         const updated = this.db
@@ -1575,7 +3365,7 @@ export class SyncEngine {
 
   async syncService(
     serviceId: string,
-    options?: { force?: boolean },
+    options?: { force?: boolean; fileIds?: string[] },
   ): Promise<{ synced: number; conflicts: number; errors: number }> {
     const svc = mapRow<ServiceConfig>(
       this.db.prepare('SELECT * FROM service_configs WHERE id = ?').get(serviceId),
@@ -1588,16 +3378,10 @@ export class SyncEngine {
     );
 
     // Block sync if tracked files size exceeds threshold
-    const blockThreshold = getSyncBlockThreshold(this.db);
     const storeDir = path.join(config.storeServicesPath, svc.storePath.replace(/^services\//, ''));
-    const fileSizes = await getFileSizes(
-      storeDir,
-      trackedFiles.map((f) => f.relativePath),
-    );
-    const totalSize = [...fileSizes.values()].reduce((sum, s) => sum + s, 0);
-    if (totalSize > blockThreshold) {
-      const sizeMB = (totalSize / (1024 * 1024)).toFixed(1);
-      const limitMB = (blockThreshold / (1024 * 1024)).toFixed(0);
+    const sizeBlock = await this.checkSizeLimit(storeDir, trackedFiles);
+    if (sizeBlock) {
+      const { sizeMB, limitMB, totalSize } = sizeBlock;
       const lastLogged = this.sizeBlockLoggedAt.get(svc.id) ?? 0;
       if (Date.now() - lastLogged > 300_000) {
         console.warn(
@@ -1618,7 +3402,14 @@ export class SyncEngine {
     let conflicts = 0;
     let errors = 0;
 
-    for (const tf of trackedFiles) {
+    for (const listed of trackedFiles) {
+      // Applying part of a sync plan
+      if (options?.fileIds && !options.fileIds.includes(listed.id)) continue;
+      // An earlier file's rename may have moved or dropped this one
+      const tf = mapRow<TrackedFile>(
+        this.db.prepare('SELECT * FROM tracked_files WHERE id = ?').get(listed.id),
+      );
+      if (!tf) continue;
       try {
         await this.syncFile(tf, target);
         const updated = this.db
@@ -1766,6 +3557,293 @@ export class SyncEngine {
     }
   }
 
+  /** Dry run of syncRepo: what it would do to each file, without touching disk or the DB */
+  async planRepo(repoId: string): Promise<SyncPlan> {
+    const repo = mapRow<Repo>(this.db.prepare('SELECT * FROM repos WHERE id = ?').get(repoId));
+    if (!repo) throw new Error(`Repo not found: ${repoId}`);
+    return this.planTarget(
+      repoToSyncTarget(repo),
+      mapRows<TrackedFile>(
+        this.db.prepare('SELECT * FROM tracked_files WHERE repo_id = ?').all(repoId),
+      ),
+    );
+  }
+
+  /** Dry run of syncService */
+  async planService(serviceId: string): Promise<SyncPlan> {
+    const svc = mapRow<ServiceConfig>(
+      this.db.prepare('SELECT * FROM service_configs WHERE id = ?').get(serviceId),
+    );
+    if (!svc) throw new Error(`Service config not found: ${serviceId}`);
+    return this.planTarget(
+      serviceToSyncTarget(svc),
+      mapRows<TrackedFile>(
+        this.db.prepare('SELECT * FROM tracked_files WHERE service_config_id = ?').all(serviceId),
+      ),
+    );
+  }
+
+  /** Dry run of syncAllRepos */
+  async planAllRepos(): Promise<SyncPlan[]> {
+    const repos = mapRows<Repo>(
+      this.db.prepare("SELECT * FROM repos WHERE status = 'active'").all(),
+    );
+    const plans: SyncPlan[] = [];
+    for (const repo of repos) plans.push(await this.planRepo(repo.id));
+    return plans;
+  }
+
+  private async planTarget(target: SyncTarget, trackedFiles: TrackedFile[]): Promise<SyncPlan> {
+    const plan: SyncPlan = {
+      type: target.type,
+      id: target.id,
+      name: target.name,
+      blocked: null,
+      entries: [],
+    };
+    const sizeBlock = await this.checkSizeLimit(getStoreBasePath(target), trackedFiles);
+    if (sizeBlock) {
+      plan.blocked = `Store size (${sizeBlock.sizeMB} MB) exceeds ${sizeBlock.limitMB} MB limit`;
+      return plan;
+    }
+    for (const trackedFile of trackedFiles) {
+      try {
+        const entry = await this.planFile(trackedFile, target);
+        if (entry) plan.entries.push(entry);
+      } catch (err) {
+        // Encrypted without a key here: the sync would leave it locked
+        if (!(err instanceof EncryptionKeyMissingError)) throw err;
+      }
+    }
+    return plan;
+  }
+
+  /**
+   * The decisions of syncFile, made read-only. A machine variant, or a file
+   * whose linked or rules source would change it, goes through steps that
+   * aren't previewed: such a file is listed as not previewable.
+   */
+  private async planFile(
+    trackedFile: TrackedFile,
+    target: SyncTarget,
+  ): Promise<SyncPlanEntry | null> {
+    const notPreviewable: SyncPlanEntry = {
+      trackedFileId: trackedFile.id,
+      relativePath: trackedFile.relativePath,
+      action: 'not_previewable',
+      diff: null,
+    };
+    const storeFilePath = path.join(getStoreBasePath(target), trackedFile.relativePath);
+    const variant =
+      trackedFile.fileType === 'file'
+        ? await findMachineVariant(getStoreBasePath(target), trackedFile.relativePath)
+        : null;
+    if (variant) {
+      const view = await this.readVariantView(storeFilePath, variant);
+      const targetFilePath = path.join(target.localPath, trackedFile.relativePath);
+      const targetView = (await fileExists(targetFilePath))
+        ? this.toStoreView(trackedFile, await fs.readFile(targetFilePath, 'utf-8'))
+        : null;
+      const inSync =
+        view !== null &&
+        targetView !== null &&
+        (targetView === view || (variant.kind === 'overlay' && sameJson(targetView, view)));
+      return inSync ? null : notPreviewable;
+    }
+
+    const entry = await this.planFileContent(trackedFile, target);
+    if (entry || getSyncDirection(this.db, target) === 'target_to_store') return entry;
+
+    // In sync here; syncFileFromSource then brings in what its source changed
+    if (target.type !== 'repo' || trackedFile.fileType !== 'file') return null;
+    const source = this.fileSource(trackedFile, target);
+    if (!source || this.hasConflict(trackedFile.id) || !(await fileExists(storeFilePath))) {
+      return null;
+    }
+    const sourceContent = (await fileExists(source.filePath))
+      ? source.render(await readStoreFile(source.filePath))
+      : null;
+    return sourceContent === (await readStoreFile(storeFilePath)) ? null : notPreviewable;
+  }
+
+  /** The decisions of syncFileContent, made read-only */
+  private async planFileContent(
+    trackedFile: TrackedFile,
+    target: SyncTarget,
+  ): Promise<SyncPlanEntry | null> {
+    const storeFilePath = path.join(getStoreBasePath(target), trackedFile.relativePath);
+    const targetFilePath = path.join(target.localPath, trackedFile.relativePath);
+    const symlink =
+      trackedFile.fileType === 'symlink' ||
+      (await isSymlink(storeFilePath)) ||
+      (await isSymlink(targetFilePath));
+    const exists = symlink ? symlinkExists : fileExists;
+    const storeExists = await exists(storeFilePath);
+    const targetExists = await exists(targetFilePath);
+
+    const direction = getSyncDirection(this.db, target);
+    if (
+      direction === 'bidirectional' &&
+      !symlink &&
+      storeExists !== targetExists &&
+      (await this.findRename(trackedFile, target))
+    ) {
+      return {
+        trackedFileId: trackedFile.id,
+        relativePath: trackedFile.relativePath,
+        action: 'rename',
+        diff: null,
+      };
+    }
+
+    // Both sides compared as the store sees them, like syncOneWay
+    const read = async (filePath: string, root: 'store' | 'target') => {
+      if (symlink) return fs.readlink(filePath);
+      const raw = await fs.readFile(filePath);
+      const bytes = root === 'store' ? decodeStoreBytes(raw) : raw;
+      if (isBinaryContent(bytes)) return bytes;
+      const text = bytes.toString('utf-8');
+      return root === 'store' ? decryptStoreContent(text) : this.toStoreView(trackedFile, text);
+    };
+    const storeContent = storeExists ? await read(storeFilePath, 'store') : null;
+    const targetContent = targetExists ? await read(targetFilePath, 'target') : null;
+
+    const entry = async (
+      action: SyncPlanAction,
+      before: string | Buffer | null = null,
+      after: string | Buffer | null = null,
+    ): Promise<SyncPlanEntry> => ({
+      trackedFileId: trackedFile.id,
+      relativePath: trackedFile.relativePath,
+      action,
+      diff:
+        Buffer.isBuffer(before) || Buffer.isBuffer(after) || (before === null && after === null)
+          ? null
+          : await gitDiffText(before ?? '', after ?? ''),
+    });
+
+    if (storeContent === null && targetContent === null) return entry('untrack');
+    const storeChecksum = storeContent === null ? null : contentChecksum(storeContent);
+    const targetChecksum = targetContent === null ? null : contentChecksum(targetContent);
+    const storeChanged = storeChecksum !== trackedFile.storeChecksum;
+    const targetChanged = targetChecksum !== trackedFile.targetChecksum;
+
+    if (direction !== 'bidirectional') {
+      const toTarget = direction === 'store_to_target';
+      const [source, dest] = toTarget
+        ? [storeContent, targetContent]
+        : [targetContent, storeContent];
+      if (source === null) {
+        if (trackedFile.lastSyncedAt === null) return entry('hold');
+        return entry(toTarget ? 'delete_target' : 'delete_store', dest);
+      }
+      if (storeChecksum === targetChecksum) return null;
+      if (!toTarget && storeContent !== null && storeChanged && !targetChanged) {
+        return entry('hold');
+      }
+      return entry(toTarget ? 'copy_to_target' : 'copy_to_store', dest, source);
+    }
+
+    if (targetContent === null) {
+      if (trackedFile.lastSyncedAt !== null && trackedFile.targetChecksum !== null) {
+        return entry('delete_conflict', storeContent);
+      }
+      return entry('copy_to_target', null, storeContent);
+    }
+    if (storeContent === null) {
+      if (trackedFile.lastSyncedAt !== null && trackedFile.storeChecksum !== null) {
+        return entry('delete_conflict', targetContent);
+      }
+      return entry('copy_to_store', null, targetContent);
+    }
+    if (storeChecksum === targetChecksum) return null;
+
+    // Symlinks are never merged and the store wins; binary files conflict
+    if (symlink || Buffer.isBuffer(storeContent) || Buffer.isBuffer(targetContent)) {
+      if (!symlink && this.hasConflict(trackedFile.id)) return null;
+      const firstSync = trackedFile.storeChecksum === null && trackedFile.targetChecksum === null;
+      if (targetChanged && !storeChanged)
+        return entry('copy_to_store', storeContent, targetContent);
+      if (symlink || !targetChanged || firstSync) {
+        return entry('copy_to_target', targetContent, storeContent);
+      }
+      return entry('conflict', storeContent, targetContent);
+    }
+
+    const baseContent = await getCommittedContent(
+      getStoreGitRelativePath(target, trackedFile.relativePath),
+    );
+    if (baseContent === null) {
+      // No history: checksums decide, and the store wins when both changed
+      if (targetChanged && !storeChanged)
+        return entry('copy_to_store', storeContent, targetContent);
+      return entry('copy_to_target', targetContent, storeContent);
+    }
+    const storeMoved = storeContent !== baseContent;
+    const targetMoved = targetContent !== baseContent;
+    if (targetMoved && !storeMoved) return entry('copy_to_store', storeContent, targetContent);
+    if (!targetMoved) return entry('copy_to_target', targetContent, storeContent);
+
+    const merged = await this.mergeFile(
+      trackedFile.relativePath,
+      baseContent,
+      storeContent,
+      targetContent,
+    );
+    return merged.hasConflicts
+      ? entry('conflict', storeContent, targetContent)
+      : entry('merge', targetContent, merged.content);
+  }
+
+  /**
+   * Replace a local secret value in the tracked target files whose store copy
+   * has the secret's placeholder. Called before a secret is changed or
+   * removed: once the old value is no longer in the secrets file it can't be
+   * turned back into its placeholder, and the next sync would copy it into
+   * the store as a plain value.
+   */
+  async replaceSecretInTargets(name: string, from: string, to: string): Promise<number> {
+    if (!from) return 0;
+    const rows = this.db
+      .prepare(
+        `SELECT tf.relative_path, COALESCE(r.local_path, sc.local_path) AS local_path,
+           COALESCE(r.store_path, sc.store_path) AS store_path,
+           CASE WHEN r.id IS NULL THEN 'service' ELSE 'repo' END AS type
+         FROM tracked_files tf
+         LEFT JOIN repos r ON tf.repo_id = r.id
+         LEFT JOIN service_configs sc ON tf.service_config_id = sc.id
+         WHERE tf.file_type = 'file' AND COALESCE(r.status, sc.status) = 'active'`,
+      )
+      .all() as {
+      relative_path: string;
+      local_path: string;
+      store_path: string;
+      type: 'repo' | 'service';
+    }[];
+
+    let updated = 0;
+    for (const row of rows) {
+      const targetFilePath = path.join(row.local_path, row.relative_path);
+      const storeFilePath = path.join(
+        getStoreBasePath({ type: row.type, storePath: row.store_path }),
+        row.relative_path,
+      );
+      let content: string;
+      try {
+        const storeCopy = await readStoreFile(storeFilePath);
+        if (!storeCopy.includes(`\${secret:${name}}`)) continue;
+        content = await fs.readFile(targetFilePath, 'utf-8');
+      } catch {
+        continue;
+      }
+      if (!content.includes(from)) continue;
+      await fs.writeFile(targetFilePath, content.split(from).join(to), 'utf-8');
+      this.watcher.markSelfChange(targetFilePath);
+      updated++;
+    }
+    return updated;
+  }
+
   /**
    * Suppress watcher-triggered syncs. Call before starting git pull
    * so watcher events from file changes during pull are ignored.
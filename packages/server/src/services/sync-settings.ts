@@ -19,15 +19,17 @@ export interface RepoOverrideEntry {
 }
 
 export interface ServiceOverrideEntry {
+  settings?: Record<string, string>;
   patternDefaults?: Record<string, string>;
   patternCustom?: Record<string, string>;
+  patternEncrypt?: Record<string, string>;
   ignoreOverrides?: Record<string, string>;
   ignoreCustom?: Record<string, string>;
 }
 
 export interface SyncSettingsFile {
   settings: Record<string, string>;
-  filePatterns: { pattern: string; enabled: boolean }[];
+  filePatterns: { pattern: string; enabled: boolean; encrypt?: boolean }[];
   ignorePatterns: { pattern: string; enabled: boolean }[];
   repoOverrides: Record<string, RepoOverrideEntry>;
   serviceOverrides: Record<string, ServiceOverrideEntry>;
@@ -154,12 +156,18 @@ function readGlobalSettingsFromDb(db: Database.Database): Record<string, string>
   return result;
 }
 
-function readFilePatternsFromDb(db: Database.Database): { pattern: string; enabled: boolean }[] {
-  const rows = db.prepare('SELECT pattern, enabled FROM file_patterns ORDER BY pattern').all() as {
-    pattern: string;
-    enabled: number;
-  }[];
-  return rows.map((r) => ({ pattern: r.pattern, enabled: r.enabled === 1 }));
+function readFilePatternsFromDb(
+  db: Database.Database,
+): { pattern: string; enabled: boolean; encrypt?: boolean }[] {
+  const rows = db
+    .prepare('SELECT pattern, enabled, encrypt FROM file_patterns ORDER BY pattern')
+    .all() as { pattern: string; enabled: number; encrypt: number }[];
+  // Only written when set, so existing sync-settings.json files don't change
+  return rows.map((r) => ({
+    pattern: r.pattern,
+    enabled: r.enabled === 1,
+    ...(r.encrypt === 1 ? { encrypt: true } : {}),
+  }));
 }
 
 function readIgnorePatternsFromDb(db: Database.Database): { pattern: string; enabled: boolean }[] {
@@ -227,8 +235,10 @@ function readServiceOverridesFromDb(db: Database.Database): Record<string, Servi
     if (rows.length === 0) continue;
 
     const entry: ServiceOverrideEntry = {};
+    const settings: Record<string, string> = {};
     const patternDefaults: Record<string, string> = {};
     const patternCustom: Record<string, string> = {};
+    const patternEncrypt: Record<string, string> = {};
     const ignoreOverrides: Record<string, string> = {};
     const ignoreCustom: Record<string, string> = {};
 
@@ -237,15 +247,21 @@ function readServiceOverridesFromDb(db: Database.Database): Record<string, Servi
         patternDefaults[row.key.slice('service_pattern_default:'.length)] = row.value;
       } else if (row.key.startsWith('service_pattern_custom:')) {
         patternCustom[row.key.slice('service_pattern_custom:'.length)] = row.value;
+      } else if (row.key.startsWith('service_pattern_encrypt:')) {
+        patternEncrypt[row.key.slice('service_pattern_encrypt:'.length)] = row.value;
       } else if (row.key.startsWith('service_ignore_override:')) {
         ignoreOverrides[row.key.slice('service_ignore_override:'.length)] = row.value;
       } else if (row.key.startsWith('service_ignore_custom:')) {
         ignoreCustom[row.key.slice('service_ignore_custom:'.length)] = row.value;
+      } else {
+        settings[row.key] = row.value;
       }
     }
 
+    if (Object.keys(settings).length > 0) entry.settings = settings;
     if (Object.keys(patternDefaults).length > 0) entry.patternDefaults = patternDefaults;
     if (Object.keys(patternCustom).length > 0) entry.patternCustom = patternCustom;
+    if (Object.keys(patternEncrypt).length > 0) entry.patternEncrypt = patternEncrypt;
     if (Object.keys(ignoreOverrides).length > 0) entry.ignoreOverrides = ignoreOverrides;
     if (Object.keys(ignoreCustom).length > 0) entry.ignoreCustom = ignoreCustom;
 
@@ -287,10 +303,10 @@ export function restoreSettingsFromFile(db: Database.Database): void {
   if (data.filePatterns.length > 0) {
     db.prepare('DELETE FROM file_patterns').run();
     const insertPattern = db.prepare(
-      'INSERT INTO file_patterns (id, pattern, enabled) VALUES (?, ?, ?)',
+      'INSERT INTO file_patterns (id, pattern, enabled, encrypt) VALUES (?, ?, ?, ?)',
     );
     for (const p of data.filePatterns) {
-      insertPattern.run(uuid(), p.pattern, p.enabled ? 1 : 0);
+      insertPattern.run(uuid(), p.pattern, p.enabled ? 1 : 0, p.encrypt ? 1 : 0);
     }
   }
 
@@ -398,6 +414,12 @@ function applyServiceOverridesToDb(
     'INSERT INTO service_settings (id, service_config_id, key, value) VALUES (?, ?, ?, ?)',
   );
 
+  if (overrides.settings) {
+    for (const [key, value] of Object.entries(overrides.settings)) {
+      insert.run(uuid(), serviceId, key, value);
+    }
+  }
+
   if (overrides.patternDefaults) {
     for (const [pattern, value] of Object.entries(overrides.patternDefaults)) {
       insert.run(uuid(), serviceId, `service_pattern_default:${pattern}`, value);
@@ -410,6 +432,12 @@ function applyServiceOverridesToDb(
     }
   }
 
+  if (overrides.patternEncrypt) {
+    for (const [pattern, value] of Object.entries(overrides.patternEncrypt)) {
+      insert.run(uuid(), serviceId, `service_pattern_encrypt:${pattern}`, value);
+    }
+  }
+
   if (overrides.ignoreOverrides) {
     for (const [pattern, value] of Object.entries(overrides.ignoreOverrides)) {
       insert.run(uuid(), serviceId, `service_ignore_override:${pattern}`, value);
@@ -509,8 +537,10 @@ export function syncSettingsUpdateService(db: Database.Database, storePath: stri
     delete data.serviceOverrides[storePath];
   } else {
     const entry: ServiceOverrideEntry = {};
+    const settings: Record<string, string> = {};
     const patternDefaults: Record<string, string> = {};
     const patternCustom: Record<string, string> = {};
+    const patternEncrypt: Record<string, string> = {};
     const ignoreOverrides: Record<string, string> = {};
     const ignoreCustom: Record<string, string> = {};
 
@@ -519,15 +549,21 @@ export function syncSettingsUpdateService(db: Database.Database, storePath: stri
         patternDefaults[row.key.slice('service_pattern_default:'.length)] = row.value;
       } else if (row.key.startsWith('service_pattern_custom:')) {
         patternCustom[row.key.slice('service_pattern_custom:'.length)] = row.value;
+      } else if (row.key.startsWith('service_pattern_encrypt:')) {
+        patternEncrypt[row.key.slice('service_pattern_encrypt:'.length)] = row.value;
       } else if (row.key.startsWith('service_ignore_override:')) {
         ignoreOverrides[row.key.slice('service_ignore_override:'.length)] = row.value;
       } else if (row.key.startsWith('service_ignore_custom:')) {
         ignoreCustom[row.key.slice('service_ignore_custom:'.length)] = row.value;
+      } else {
+        settings[row.key] = row.value;
       }
     }
 
+    if (Object.keys(settings).length > 0) entry.settings = settings;
     if (Object.keys(patternDefaults).length > 0) entry.patternDefaults = patternDefaults;
     if (Object.keys(patternCustom).length > 0) entry.patternCustom = patternCustom;
+    if (Object.keys(patternEncrypt).length > 0) entry.patternEncrypt = patternEncrypt;
     if (Object.keys(ignoreOverrides).length > 0) entry.ignoreOverrides = ignoreOverrides;
     if (Object.keys(ignoreCustom).length > 0) entry.ignoreCustom = ignoreCustom;
 
@@ -0,0 +1,192 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type Database from 'better-sqlite3';
+import { config } from '../config.js';
+import type { Repo } from '../types/index.js';
+import {
+  ensureStoreCommitted,
+  getCommittedContentAt,
+  getHeadCommitHash,
+  listCommittedFiles,
+} from './store-git.js';
+import { readStoreFile } from './store-encryption.js';
+import {
+  buildTemplateVariables,
+  getRepoTemplateVars,
+  renderTemplateContent,
+} from './template-renderer.js';
+import {
+  TEMPLATE_MANIFEST,
+  TemplateError,
+  getRepoTemplate,
+  listTemplateFiles,
+  setRepoTemplate,
+  templateFilePath,
+} from './templates.js';
+import type { SyncEngine } from './sync-engine.js';
+
+/**
+ * How a repo file compares to its template:
+ * - `in_sync`: same as the current template
+ * - `missing`: the repo doesn't have the file
+ * - `outdated`: the template changed since the repo was seeded; the repo file didn't
+ * - `modified`: the repo file was changed; the template didn't (or the seed version is unknown)
+ * - `diverged`: both changed since the repo was seeded
+ */
+export type TemplateDriftStatus = 'in_sync' | 'missing' | 'outdated' | 'modified' | 'diverged';
+
+export interface TemplateFileDrift {
+  path: string;
+  status: TemplateDriftStatus;
+}
+
+export interface TemplateDrift {
+  template: string;
+  /** Store commit the repo was seeded or last updated from */
+  commit: string | null;
+  files: TemplateFileDrift[];
+}
+
+export interface TemplateUpdateResult {
+  added: string[];
+  updated: string[];
+  conflicts: string[];
+}
+
+/** Files needing an update by default */
+const UPDATABLE: TemplateDriftStatus[] = ['missing', 'outdated', 'diverged'];
+
+/**
+ * Commit pending store changes and return HEAD, so the template files about
+ * to be applied can be read back from history as a merge base later.
+ */
+export async function commitTemplateSnapshot(): Promise<string | null> {
+  await ensureStoreCommitted();
+  return getHeadCommitHash();
+}
+
+/** A template's files (with inherited ones) as they are on disk */
+async function currentTemplateFiles(name: string): Promise<Map<string, string>> {
+  const files = new Map<string, string>();
+  for (const file of await listTemplateFiles(name)) {
+    files.set(file.path, await fs.readFile(templateFilePath(file.source, file.path), 'utf-8'));
+  }
+  return files;
+}
+
+/**
+ * A template's files (with inherited ones) at a store commit, or null when
+ * the template didn't exist under that name then.
+ */
+async function committedTemplateFiles(
+  name: string,
+  commit: string,
+): Promise<Map<string, string> | null> {
+  const files = new Map<string, string>();
+  const seen = new Set<string>();
+  let current: string | undefined = name;
+  while (current && !seen.has(current)) {
+    seen.add(current);
+    const dir = `templates/${current}`;
+    const paths = await listCommittedFiles(dir, commit);
+    if (paths.length === 0 && current === name) return null;
+    for (const file of paths) {
+      if (file === TEMPLATE_MANIFEST || files.has(file)) continue;
+      const content = await getCommittedContentAt(`${dir}/${file}`, commit);
+      if (content !== null) files.set(file, content);
+    }
+    const manifest = await getCommittedContentAt(`${dir}/${TEMPLATE_MANIFEST}`, commit);
+    try {
+      current = manifest ? (JSON.parse(manifest) as { extends?: string }).extends : undefined;
+    } catch {
+      current = undefined;
+    }
+  }
+  return files;
+}
+
+function driftStatus(
+  repoContent: string | null,
+  base: string | null | undefined,
+  current: string,
+): TemplateDriftStatus {
+  if (repoContent === null) return 'missing';
+  if (repoContent === current) return 'in_sync';
+  if (base === null || base === undefined || base === current) return 'modified';
+  return repoContent === base ? 'outdated' : 'diverged';
+}
+
+interface DriftContext {
+  template: string;
+  commit: string | null;
+  /** Rendered seed version of each file; null when the seed commit is unknown */
+  base: Map<string, string> | null;
+  /** Rendered current template files */
+  current: Map<string, string>;
+  files: TemplateFileDrift[];
+}
+
+async function computeDrift(db: Database.Database, repo: Repo): Promise<DriftContext> {
+  const repoTemplate = getRepoTemplate(db, repo.id);
+  if (!repoTemplate) {
+    throw new TemplateError(`Repo "${repo.name}" was not created from a template`);
+  }
+  const vars = await buildTemplateVariables(repo, getRepoTemplateVars(db, repo.id));
+  const render = (files: Map<string, string>) =>
+    new Map([...files].map(([file, content]) => [file, renderTemplateContent(content, vars)]));
+
+  const current = render(await currentTemplateFiles(repoTemplate.name));
+  const committed = repoTemplate.commit
+    ? await committedTemplateFiles(repoTemplate.name, repoTemplate.commit)
+    : null;
+  const base = committed ? render(committed) : null;
+
+  const storeDir = path.join(config.storeReposPath, repo.storePath.replace(/^repos\//, ''));
+  const files: TemplateFileDrift[] = [];
+  for (const [file, content] of current) {
+    const repoContent = await readStoreFile(path.join(storeDir, file)).catch(() => null);
+    files.push({ path: file, status: driftStatus(repoContent, base?.get(file), content) });
+  }
+  files.sort((a, b) => a.path.localeCompare(b.path));
+  return { template: repoTemplate.name, commit: repoTemplate.commit, base, current, files };
+}
+
+/** Compare each file of a repo's template with the repo's copy in the store */
+export async function getTemplateDrift(db: Database.Database, repo: Repo): Promise<TemplateDrift> {
+  const { template, commit, files } = await computeDrift(db, repo);
+  return { template, commit, files };
+}
+
+/**
+ * Merge the current template into the repo's files. Without `paths`, every
+ * missing, outdated or diverged file is updated and the repo's seed commit
+ * moves to the current one, so later drift is measured from this update.
+ */
+export async function updateRepoFromTemplate(
+  db: Database.Database,
+  syncEngine: SyncEngine,
+  repo: Repo,
+  paths?: string[],
+): Promise<TemplateUpdateResult> {
+  const commit = await commitTemplateSnapshot();
+  const drift = await computeDrift(db, repo);
+  const targets = paths
+    ? drift.files.filter((f) => paths.includes(f.path))
+    : drift.files.filter((f) => UPDATABLE.includes(f.status));
+
+  const result: TemplateUpdateResult = { added: [], updated: [], conflicts: [] };
+  for (const file of targets) {
+    const outcome = await syncEngine.mergeTemplateFile(
+      repo,
+      file.path,
+      drift.base?.get(file.path) ?? null,
+      drift.current.get(file.path)!,
+    );
+    if (outcome === 'added') result.added.push(file.path);
+    else if (outcome === 'updated') result.updated.push(file.path);
+    else if (outcome === 'conflict') result.conflicts.push(file.path);
+  }
+
+  if (!paths) setRepoTemplate(db, repo.id, { name: drift.template, commit });
+  return result;
+}
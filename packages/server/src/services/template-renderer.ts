@@ -0,0 +1,268 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import type Database from 'better-sqlite3';
+import { v4 as uuid } from 'uuid';
+import { config } from '../config.js';
+import { ensureDir } from './repo-scanner.js';
+
+const execFileAsync = promisify(execFile);
+
+/** repo_settings key prefix for a repo's custom template variables */
+export const TEMPLATE_VAR_PREFIX = 'template_var:';
+
+export const TEMPLATE_VAR_NAME_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Built-in variables, always defined (empty when unknown, e.g. no git remote) */
+export const BUILTIN_TEMPLATE_VARIABLES = [
+  'repo.name',
+  'repo.path',
+  'git.remoteUrl',
+  'git.branch',
+  'machine.name',
+  'machine.id',
+] as const;
+
+// Only these namespaces are template syntax, so other `{{...}}` text in a
+// file (e.g. a Handlebars snippet in documentation) is left alone.
+const NAME = '(?:repo|git|machine|var)\\.[A-Za-z_][A-Za-z0-9_]*';
+const TAG_RE = new RegExp(
+  `\\{\\{\\s*(?:(#if|#unless)\\s+(${NAME})|(else)|(/if|/unless)|(${NAME}))\\s*\\}\\}`,
+  'g',
+);
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+/** Flat variable map, e.g. `{ 'repo.name': 'my-app', 'var.team': 'core' }` */
+export type TemplateVariables = Record<string, string>;
+
+export interface TemplateRenderResult {
+  content: string;
+  /** Variables referenced in the template with no value (left as-is) */
+  unresolved: string[];
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; name: string; raw: string }
+  | { type: 'if'; name: string; negate: boolean; then: TemplateNode[]; else: TemplateNode[] };
+
+interface Block {
+  node: Extract<TemplateNode, { type: 'if' }>;
+  tag: string;
+  inElse: boolean;
+}
+
+/**
+ * A block tag alone on its line (ignoring whitespace) removes the whole line,
+ * so conditionals don't leave blank lines behind.
+ */
+function standaloneSpan(content: string, start: number, end: number, pos: number) {
+  const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+  if (lineStart < pos || !/^[ \t]*$/.test(content.slice(lineStart, start))) return null;
+  const newline = content.indexOf('\n', end);
+  const lineEnd = newline === -1 ? content.length : newline + 1;
+  if (!/^[ \t]*\r?\n?$/.test(content.slice(end, lineEnd))) return null;
+  return { start: lineStart, end: lineEnd };
+}
+
+function parseTemplate(content: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Block[] = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.else : top.node.then) : root;
+  };
+
+  let pos = 0;
+  for (const match of content.matchAll(TAG_RE)) {
+    const [raw, open, openName, elseTag, close, varName] = match;
+    const isBlockTag = !!(open || elseTag || close);
+
+    // else/close outside one of our blocks belongs to someone else's syntax
+    if ((elseTag || close) && stack.length === 0) continue;
+
+    let start = match.index;
+    let end = start + raw.length;
+    if (isBlockTag) {
+      const span = standaloneSpan(content, start, end, pos);
+      if (span) ({ start, end } = span);
+    }
+    if (start > pos) current().push({ type: 'text', value: content.slice(pos, start) });
+    pos = end;
+
+    if (varName) {
+      current().push({ type: 'var', name: varName, raw });
+    } else if (open) {
+      const node: Block['node'] = {
+        type: 'if',
+        name: openName,
+        negate: open === '#unless',
+        then: [],
+        else: [],
+      };
+      current().push(node);
+      stack.push({ node, tag: open.slice(1), inElse: false });
+    } else if (elseTag) {
+      const top = stack[stack.length - 1];
+      if (top.inElse) throw new TemplateSyntaxError(`Duplicate {{else}} in {{#${top.tag}}}`);
+      top.inElse = true;
+    } else {
+      const top = stack.pop()!;
+      if (close.slice(1) !== top.tag) {
+        throw new TemplateSyntaxError(
+          `{{${close}}} closes {{#${top.tag} ${top.node.name}}}; expected {{/${top.tag}}}`,
+        );
+      }
+    }
+  }
+  if (stack.length > 0) {
+    const top = stack[stack.length - 1];
+    throw new TemplateSyntaxError(`Unclosed {{#${top.tag} ${top.node.name}}}`);
+  }
+  if (pos < content.length) root.push({ type: 'text', value: content.slice(pos) });
+  return root;
+}
+
+function renderNodes(nodes: TemplateNode[], vars: TemplateVariables, unresolved: Set<string>) {
+  let out = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      out += node.value;
+    } else if (node.type === 'var') {
+      if (Object.hasOwn(vars, node.name)) {
+        out += vars[node.name];
+      } else {
+        out += node.raw;
+        unresolved.add(node.name);
+      }
+    } else {
+      const truthy = !!vars[node.name];
+      out += renderNodes(truthy !== node.negate ? node.then : node.else, vars, unresolved);
+    }
+  }
+  return out;
+}
+
+/**
+ * Render `{{repo.name}}`-style variables and `{{#if x}}...{{else}}...{{/if}}`
+ * (or `#unless`) blocks. A condition is true when the variable is non-empty.
+ * Throws TemplateSyntaxError for unbalanced blocks.
+ */
+export function renderTemplate(content: string, vars: TemplateVariables): TemplateRenderResult {
+  if (!content.includes('{{')) return { content, unresolved: [] };
+  const unresolved = new Set<string>();
+  const rendered = renderNodes(parseTemplate(content), vars, unresolved);
+  return { content: rendered, unresolved: [...unresolved].sort() };
+}
+
+/**
+ * Render a template file's content, leaving binary content and content that
+ * fails to parse unchanged — the same rules as when a template is applied.
+ */
+export function renderTemplateContent(content: string, vars: TemplateVariables): string {
+  if (content.includes('\0')) return content;
+  try {
+    return renderTemplate(content, vars).content;
+  } catch (err) {
+    if (!(err instanceof TemplateSyntaxError)) throw err;
+    return content;
+  }
+}
+
+/** Names of the custom `{{var.NAME}}` variables a template references */
+export function findCustomVariables(content: string): string[] {
+  const names = new Set<string>();
+  for (const match of content.matchAll(TAG_RE)) {
+    const name = match[2] ?? match[5];
+    if (name?.startsWith('var.')) names.add(name.slice('var.'.length));
+  }
+  return [...names];
+}
+
+// ── Variables ───────────────────────────────────────────────────────────
+
+async function gitValue(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', ['-C', cwd, ...args]);
+    return stdout.trim();
+  } catch {
+    return '';
+  }
+}
+
+export function getRepoTemplateVars(db: Database.Database, repoId: string): Record<string, string> {
+  const rows = db
+    .prepare("SELECT key, value FROM repo_settings WHERE repo_id = ? AND key LIKE 'template_var:%'")
+    .all(repoId) as { key: string; value: string }[];
+  return Object.fromEntries(rows.map((r) => [r.key.slice(TEMPLATE_VAR_PREFIX.length), r.value]));
+}
+
+/** Replace a repo's custom variables. They live in repo_settings, so they sync like other overrides. */
+export function setRepoTemplateVars(
+  db: Database.Database,
+  repoId: string,
+  vars: Record<string, string>,
+): void {
+  db.prepare("DELETE FROM repo_settings WHERE repo_id = ? AND key LIKE 'template_var:%'").run(
+    repoId,
+  );
+  const insert = db.prepare(
+    'INSERT INTO repo_settings (id, repo_id, key, value) VALUES (?, ?, ?, ?)',
+  );
+  for (const [name, value] of Object.entries(vars)) {
+    insert.run(uuid(), repoId, `${TEMPLATE_VAR_PREFIX}${name}`, value);
+  }
+}
+
+/** All variables for rendering a template into the repo at `localPath` */
+export async function buildTemplateVariables(
+  repo: { name: string; localPath: string },
+  customVars: Record<string, string>,
+): Promise<TemplateVariables> {
+  const [remoteUrl, branch] = await Promise.all([
+    gitValue(repo.localPath, ['remote', 'get-url', 'origin']),
+    gitValue(repo.localPath, ['rev-parse', '--abbrev-ref', 'HEAD']),
+  ]);
+  const vars: TemplateVariables = {
+    'repo.name': repo.name,
+    'repo.path': repo.localPath,
+    'git.remoteUrl': remoteUrl,
+    'git.branch': branch === 'HEAD' ? '' : branch,
+    'machine.name': config.machineName,
+    'machine.id': config.machineId,
+  };
+  for (const [name, value] of Object.entries(customVars)) {
+    vars[`var.${name}`] = value;
+  }
+  return vars;
+}
+
+/**
+ * Write one template file to `destPath`, rendering it if it is text. Binary
+ * files, and files that fail to parse, are copied as-is.
+ */
+export async function renderTemplateFile(
+  srcPath: string,
+  destPath: string,
+  vars: TemplateVariables,
+): Promise<void> {
+  await ensureDir(path.dirname(destPath));
+  const data = await fs.readFile(srcPath);
+  if (data.includes(0)) {
+    await fs.writeFile(destPath, data);
+    return;
+  }
+  try {
+    await fs.writeFile(destPath, renderTemplate(data.toString('utf-8'), vars).content, 'utf-8');
+  } catch (err) {
+    if (!(err instanceof TemplateSyntaxError)) throw err;
+    await fs.writeFile(destPath, data);
+  }
+}
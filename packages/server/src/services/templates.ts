@@ -0,0 +1,342 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type Database from 'better-sqlite3';
+import { v4 as uuid } from 'uuid';
+import { config } from '../config.js';
+import { ensureDir, fileExists } from './repo-scanner.js';
+import { renderTemplateFile, type TemplateVariables } from './template-renderer.js';
+import { safeJoin } from '../utils/safe-path.js';
+
+/** Per-template settings file, kept next to the template's files */
+export const TEMPLATE_MANIFEST = '.template.json';
+
+/** Template that replaced the old single `repos/_default` template */
+export const DEFAULT_TEMPLATE = 'default';
+
+/** repo_settings key recording which template a repo was created from */
+export const REPO_TEMPLATE_KEY = 'template';
+
+/** repo_settings key recording the store commit the repo's template files came from */
+export const REPO_TEMPLATE_COMMIT_KEY = 'template_commit';
+
+export const TEMPLATE_NAME_RE = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: 400 | 404 | 409 = 400,
+  ) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+interface TemplateManifest {
+  extends?: string;
+  description?: string;
+}
+
+export interface TemplateInfo {
+  name: string;
+  extends: string | null;
+  description: string;
+}
+
+export interface TemplateFileEntry {
+  path: string;
+  /** Template in the inheritance chain that provides this file */
+  source: string;
+}
+
+function templateDir(name: string): string {
+  if (!TEMPLATE_NAME_RE.test(name)) {
+    throw new TemplateError(`Invalid template name: ${name}`);
+  }
+  return path.join(config.storeTemplatesPath, name);
+}
+
+async function templateExists(name: string): Promise<boolean> {
+  const stat = await fs.stat(templateDir(name)).catch(() => null);
+  return !!stat?.isDirectory();
+}
+
+async function readManifest(name: string): Promise<TemplateManifest> {
+  try {
+    const raw = await fs.readFile(path.join(templateDir(name), TEMPLATE_MANIFEST), 'utf-8');
+    const parsed = JSON.parse(raw) as TemplateManifest;
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+async function writeManifest(name: string, manifest: TemplateManifest): Promise<void> {
+  const manifestPath = path.join(templateDir(name), TEMPLATE_MANIFEST);
+  const cleaned: TemplateManifest = {};
+  if (manifest.extends) cleaned.extends = manifest.extends;
+  if (manifest.description) cleaned.description = manifest.description;
+  if (Object.keys(cleaned).length === 0) {
+    await fs.rm(manifestPath, { force: true });
+    return;
+  }
+  await fs.writeFile(manifestPath, JSON.stringify(cleaned, null, 2) + '\n', 'utf-8');
+}
+
+async function listOwnFiles(dir: string, base = ''): Promise<string[]> {
+  const result: string[] = [];
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return result;
+  }
+  for (const entry of entries) {
+    const rel = base ? `${base}/${entry.name}` : entry.name;
+    if (!base && entry.name === TEMPLATE_MANIFEST) continue;
+    if (entry.isDirectory()) {
+      result.push(...(await listOwnFiles(path.join(dir, entry.name), rel)));
+    } else {
+      result.push(rel);
+    }
+  }
+  return result;
+}
+
+/**
+ * Move the legacy `repos/_default` template to `templates/default` so
+ * existing stores keep their template after upgrading.
+ */
+export async function migrateLegacyDefaultTemplate(): Promise<void> {
+  const legacyDir = path.join(config.storeReposPath, '_default');
+  const defaultDir = path.join(config.storeTemplatesPath, DEFAULT_TEMPLATE);
+  await ensureDir(config.storeTemplatesPath);
+  if (await fileExists(legacyDir)) {
+    if (await fileExists(defaultDir)) {
+      // Already migrated on another machine — drop the leftover if it is empty
+      if ((await listOwnFiles(legacyDir)).length === 0) {
+        await fs.rm(legacyDir, { recursive: true, force: true });
+      }
+      return;
+    }
+    await fs.rename(legacyDir, defaultDir);
+  }
+  await ensureDir(defaultDir);
+}
+
+export async function listTemplates(): Promise<TemplateInfo[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(config.storeTemplatesPath, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const templates: TemplateInfo[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || !TEMPLATE_NAME_RE.test(entry.name)) continue;
+    templates.push(await getTemplate(entry.name));
+  }
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getTemplate(name: string): Promise<TemplateInfo> {
+  if (!(await templateExists(name))) {
+    throw new TemplateError(`Template not found: ${name}`, 404);
+  }
+  const manifest = await readManifest(name);
+  return {
+    name,
+    extends: manifest.extends ?? null,
+    description: manifest.description ?? '',
+  };
+}
+
+/**
+ * The template followed by its ancestors, nearest first. Throws when a
+ * parent is missing or the `extends` links form a cycle.
+ */
+export async function resolveTemplateChain(name: string): Promise<string[]> {
+  const chain: string[] = [];
+  let current: string | null = name;
+  while (current) {
+    if (chain.includes(current)) {
+      throw new TemplateError(`Template inheritance cycle: ${[...chain, current].join(' → ')}`);
+    }
+    if (!(await templateExists(current))) {
+      throw new TemplateError(
+        chain.length === 0
+          ? `Template not found: ${current}`
+          : `Template "${chain[chain.length - 1]}" extends missing template "${current}"`,
+        chain.length === 0 ? 404 : 400,
+      );
+    }
+    chain.push(current);
+    current = (await readManifest(current)).extends ?? null;
+  }
+  return chain;
+}
+
+async function checkParent(name: string, parent: string | null | undefined): Promise<void> {
+  if (!parent) return;
+  if (!(await templateExists(parent))) {
+    throw new TemplateError(`Template not found: ${parent}`);
+  }
+  const chain = await resolveTemplateChain(parent);
+  if (chain.includes(name)) {
+    throw new TemplateError(`Template inheritance cycle: ${[name, ...chain].join(' → ')}`);
+  }
+}
+
+export async function createTemplate(input: {
+  name: string;
+  extends?: string | null;
+  description?: string;
+}): Promise<TemplateInfo> {
+  const dir = templateDir(input.name);
+  if (await fileExists(dir)) {
+    throw new TemplateError(`Template already exists: ${input.name}`, 409);
+  }
+  await checkParent(input.name, input.extends);
+  await ensureDir(dir);
+  await writeManifest(input.name, {
+    extends: input.extends ?? undefined,
+    description: input.description,
+  });
+  return getTemplate(input.name);
+}
+
+/**
+ * Update a template's parent or description, or rename it. Templates that
+ * extend a renamed template are pointed at the new name.
+ */
+export async function updateTemplate(
+  name: string,
+  updates: { name?: string; extends?: string | null; description?: string },
+): Promise<TemplateInfo> {
+  const current = await getTemplate(name);
+  const newName = updates.name ?? name;
+  const parent = updates.extends !== undefined ? updates.extends : current.extends;
+
+  if (newName !== name) {
+    const newDir = templateDir(newName);
+    if (await fileExists(newDir)) {
+      throw new TemplateError(`Template already exists: ${newName}`, 409);
+    }
+    await checkParent(name, parent);
+    await fs.rename(templateDir(name), newDir);
+    for (const other of await listTemplates()) {
+      if (other.extends === name) {
+        await writeManifest(other.name, { ...(await readManifest(other.name)), extends: newName });
+      }
+    }
+  } else {
+    await checkParent(name, parent);
+  }
+
+  await writeManifest(newName, {
+    extends: parent ?? undefined,
+    description: updates.description ?? current.description,
+  });
+  return getTemplate(newName);
+}
+
+/** Delete a template. Refuses while other templates extend it. */
+export async function deleteTemplate(name: string): Promise<void> {
+  await getTemplate(name);
+  const children = (await listTemplates()).filter((t) => t.extends === name);
+  if (children.length > 0) {
+    throw new TemplateError(
+      `Template "${name}" is extended by ${children.map((t) => t.name).join(', ')}`,
+      409,
+    );
+  }
+  await fs.rm(templateDir(name), { recursive: true, force: true });
+}
+
+/** Files of a template including inherited ones; a child's file overrides its parent's. */
+export async function listTemplateFiles(name: string): Promise<TemplateFileEntry[]> {
+  const files = new Map<string, string>();
+  for (const source of await resolveTemplateChain(name)) {
+    for (const file of await listOwnFiles(templateDir(source))) {
+      if (!files.has(file)) files.set(file, source);
+    }
+  }
+  return [...files.entries()]
+    .map(([file, source]) => ({ path: file, source }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** Absolute path of a file in the template itself (not its parents). Throws PathTraversalError. */
+export function templateFilePath(name: string, relativePath: string): string {
+  if (relativePath === TEMPLATE_MANIFEST) {
+    throw new TemplateError(`${TEMPLATE_MANIFEST} is reserved`);
+  }
+  return safeJoin(templateDir(name), relativePath);
+}
+
+/** Absolute path of the file a template provides, own or inherited, or null */
+export async function resolveTemplateFile(
+  name: string,
+  relativePath: string,
+): Promise<string | null> {
+  for (const source of await resolveTemplateChain(name)) {
+    const filePath = templateFilePath(source, relativePath);
+    if (await fileExists(filePath)) return filePath;
+  }
+  return null;
+}
+
+/**
+ * Render a template (with inherited files) into `destDir`. Files that
+ * already exist are kept unless `overwrite` is set. Returns the written paths.
+ */
+export async function applyTemplate(
+  name: string,
+  destDir: string,
+  vars: TemplateVariables,
+  options: { overwrite?: boolean } = {},
+): Promise<string[]> {
+  const written: string[] = [];
+  for (const file of await listTemplateFiles(name)) {
+    const destPath = safeJoin(destDir, file.path);
+    if (!options.overwrite && (await fileExists(destPath))) continue;
+    await renderTemplateFile(templateFilePath(file.source, file.path), destPath, vars);
+    written.push(file.path);
+  }
+  return written;
+}
+
+// ── Repo association ────────────────────────────────────────────────────
+
+export interface RepoTemplate {
+  name: string;
+  /** Store commit whose template files the repo was last seeded or updated from */
+  commit: string | null;
+}
+
+export function getRepoTemplate(db: Database.Database, repoId: string): RepoTemplate | null {
+  const rows = db
+    .prepare('SELECT key, value FROM repo_settings WHERE repo_id = ? AND key IN (?, ?)')
+    .all(repoId, REPO_TEMPLATE_KEY, REPO_TEMPLATE_COMMIT_KEY) as { key: string; value: string }[];
+  const values = Object.fromEntries(rows.map((r) => [r.key, r.value]));
+  if (!values[REPO_TEMPLATE_KEY]) return null;
+  return { name: values[REPO_TEMPLATE_KEY], commit: values[REPO_TEMPLATE_COMMIT_KEY] ?? null };
+}
+
+/** Remember the template a repo came from. Stored in repo_settings, so it syncs. */
+export function setRepoTemplate(
+  db: Database.Database,
+  repoId: string,
+  template: RepoTemplate | null,
+): void {
+  db.prepare('DELETE FROM repo_settings WHERE repo_id = ? AND key IN (?, ?)').run(
+    repoId,
+    REPO_TEMPLATE_KEY,
+    REPO_TEMPLATE_COMMIT_KEY,
+  );
+  if (!template) return;
+  const insert = db.prepare(
+    'INSERT INTO repo_settings (id, repo_id, key, value) VALUES (?, ?, ?, ?)',
+  );
+  insert.run(uuid(), repoId, REPO_TEMPLATE_KEY, template.name);
+  if (template.commit) insert.run(uuid(), repoId, REPO_TEMPLATE_COMMIT_KEY, template.commit);
+}
@@ -0,0 +1,259 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { v4 as uuid } from 'uuid';
+import type Database from 'better-sqlite3';
+import type { SyncTarget, TrashItem, TrashOrigin } from '../types/index.js';
+import { config } from '../config.js';
+import { mapRow } from '../db/index.js';
+import { safeJoin } from '../utils/safe-path.js';
+import { isBinaryContent } from './binary-files.js';
+import { isEncryptedBinary } from './store-encryption.js';
+import { ensureDir, fileExists } from './repo-scanner.js';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/** What the trash needs to know about the repo or service a file belonged to */
+export type TrashTarget = Pick<SyncTarget, 'id' | 'name' | 'storePath' | 'type'>;
+
+/** A restore that would overwrite something, or has nowhere to go */
+export class TrashRestoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrashRestoreError';
+  }
+}
+
+interface TrashRow {
+  id: string;
+  origin: TrashOrigin;
+  target_type: SyncTarget['type'];
+  target_id: string;
+  target_name: string;
+  store_path: string;
+  relative_path: string;
+  source: TrashItem['source'];
+  is_binary: number;
+  size: number;
+  machine_id: string;
+  machine_name: string;
+  deleted_at: string;
+}
+
+const ITEM_COLUMNS = `id, origin, target_type, target_id, target_name, store_path, relative_path,
+  source, is_binary, size, machine_id, machine_name, deleted_at`;
+
+function toTrashItem(row: TrashRow): TrashItem {
+  return { ...mapRow<TrashItem>(row), isBinary: row.is_binary === 1 };
+}
+
+function storeBasePath(target: Pick<SyncTarget, 'storePath' | 'type'>): string {
+  return target.type === 'service'
+    ? path.join(config.storeServicesPath, target.storePath.replace(/^services\//, ''))
+    : path.join(config.storeReposPath, target.storePath.replace(/^repos\//, ''));
+}
+
+/** Bytes of a regular file; symlinks and missing files have nothing to keep */
+async function readRegularFile(filePath: string | undefined): Promise<Buffer | null> {
+  if (!filePath) return null;
+  try {
+    const stat = await fs.lstat(filePath);
+    return stat.isFile() ? await fs.readFile(filePath) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keep a copy of a file about to be deleted. The store copy is kept as it is
+ * on disk, still encrypted if it was; the target's copy is kept only when the
+ * store has none. Call it before unlinking. Returns the trash item id, or
+ * null when neither side has the file.
+ */
+export async function moveToTrash(
+  db: Database.Database,
+  entry: {
+    origin: TrashOrigin;
+    target: TrashTarget;
+    relativePath: string;
+    storeFilePath: string;
+    targetFilePath?: string;
+  },
+): Promise<string | null> {
+  let source: TrashItem['source'] = 'store';
+  let content = await readRegularFile(entry.storeFilePath);
+  if (!content) {
+    source = 'target';
+    content = await readRegularFile(entry.targetFilePath);
+  }
+  if (!content) return null;
+
+  const id = uuid();
+  db.prepare(
+    `INSERT INTO trash_items (id, origin, target_type, target_id, target_name, store_path, relative_path,
+       source, content, is_binary, size, machine_id, machine_name)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  ).run(
+    id,
+    entry.origin,
+    entry.target.type,
+    entry.target.id,
+    entry.target.name,
+    entry.target.storePath,
+    entry.relativePath,
+    source,
+    content,
+    isBinaryContent(content) || isEncryptedBinary(content) ? 1 : 0,
+    content.length,
+    config.machineId,
+    config.machineName,
+  );
+  return id;
+}
+
+/** Keep the store copies of all files of a repo or service whose store files are removed */
+export async function trashTargetFiles(
+  db: Database.Database,
+  target: TrashTarget,
+): Promise<number> {
+  const column = target.type === 'repo' ? 'repo_id' : 'service_config_id';
+  const rows = db
+    .prepare(
+      `SELECT relative_path FROM tracked_files WHERE ${column} = ? AND file_type = 'file' ORDER BY relative_path`,
+    )
+    .all(target.id) as { relative_path: string }[];
+
+  const base = storeBasePath(target);
+  let trashed = 0;
+  for (const { relative_path } of rows) {
+    const id = await moveToTrash(db, {
+      origin: 'target_removed',
+      target,
+      relativePath: relative_path,
+      storeFilePath: safeJoin(base, relative_path),
+    });
+    if (id) trashed++;
+  }
+  return trashed;
+}
+
+export function listTrashItems(db: Database.Database): TrashItem[] {
+  const rows = db
+    .prepare(`SELECT ${ITEM_COLUMNS} FROM trash_items ORDER BY deleted_at DESC, rowid DESC`)
+    .all() as TrashRow[];
+  return rows.map(toTrashItem);
+}
+
+export function getTrashItem(
+  db: Database.Database,
+  id: string,
+): { item: TrashItem; content: Buffer } | null {
+  const row = db.prepare('SELECT * FROM trash_items WHERE id = ?').get(id) as
+    | (TrashRow & { content: Buffer })
+    | undefined;
+  if (!row) return null;
+  const { content, ...rest } = row;
+  return { item: toTrashItem(rest), content };
+}
+
+export function deleteTrashItem(db: Database.Database, id: string): boolean {
+  return db.prepare('DELETE FROM trash_items WHERE id = ?').run(id).changes > 0;
+}
+
+export function emptyTrash(db: Database.Database): number {
+  return db.prepare('DELETE FROM trash_items').run().changes;
+}
+
+/** The `trash_retention_days` setting; 0 keeps items until they are deleted by hand */
+export function getTrashRetentionDays(db: Database.Database): number {
+  const row = db.prepare("SELECT value FROM settings WHERE key = 'trash_retention_days'").get() as
+    | { value: string }
+    | undefined;
+  const days = parseInt(row?.value ?? '', 10);
+  return Number.isNaN(days) || days < 0 ? DEFAULT_TRASH_RETENTION_DAYS : days;
+}
+
+/** Delete items older than the retention period. Returns how many were deleted. */
+export function purgeExpiredTrash(db: Database.Database): number {
+  const days = getTrashRetentionDays(db);
+  if (days === 0) return 0;
+  return db
+    .prepare("DELETE FROM trash_items WHERE deleted_at < datetime('now', ?)")
+    .run(`-${days} days`).changes;
+}
+
+function findTarget(db: Database.Database, item: TrashItem): SyncTarget | null {
+  const table = item.targetType === 'repo' ? 'repos' : 'service_configs';
+  // A repo removed and added again has a new id but the same store path
+  const row = db
+    .prepare(
+      `SELECT id, name, local_path, store_path, status FROM ${table}
+       WHERE id = ? OR store_path = ? ORDER BY id = ? DESC LIMIT 1`,
+    )
+    .get(item.targetId, item.storePath, item.targetId);
+  return row ? { ...mapRow<Omit<SyncTarget, 'type'>>(row), type: item.targetType } : null;
+}
+
+/**
+ * Put a trashed file back on the side it was taken from and track it again,
+ * so the next sync of `trackedFileId` copies it to the other side. When its
+ * repo or service is gone, a store copy is restored to the store alone and
+ * is picked up when the repo or service is added back. The item leaves the
+ * trash once restored.
+ */
+export async function restoreTrashItem(
+  db: Database.Database,
+  id: string,
+): Promise<{ item: TrashItem; target: SyncTarget | null; trackedFileId: string | null } | null> {
+  const trashed = getTrashItem(db, id);
+  if (!trashed) return null;
+  const { item, content } = trashed;
+
+  const target = findTarget(db, item);
+  if (!target && item.source === 'target') {
+    throw new TrashRestoreError(
+      `${item.targetName} is no longer registered on this machine; add it back to restore the file`,
+    );
+  }
+
+  const destination =
+    item.source === 'store'
+      ? safeJoin(
+          storeBasePath({ type: item.targetType, storePath: item.storePath }),
+          item.relativePath,
+        )
+      : safeJoin(target!.localPath, item.relativePath);
+  if (target) {
+    const column = target.type === 'repo' ? 'repo_id' : 'service_config_id';
+    const tracked = db
+      .prepare(`SELECT id FROM tracked_files WHERE ${column} = ? AND relative_path = ?`)
+      .get(target.id, item.relativePath);
+    if (tracked) {
+      throw new TrashRestoreError(`${item.relativePath} is tracked again in ${target.name}`);
+    }
+  }
+  if (await fileExists(destination)) {
+    throw new TrashRestoreError(
+      `A file already exists at ${item.relativePath} in the ${item.source}; move it away first`,
+    );
+  }
+
+  await ensureDir(path.dirname(destination));
+  await fs.writeFile(destination, content);
+
+  let trackedFileId: string | null = null;
+  if (target) {
+    trackedFileId = uuid();
+    const column = target.type === 'repo' ? 'repo_id' : 'service_config_id';
+    db.prepare(
+      `INSERT INTO tracked_files (id, ${column}, relative_path, file_type, sync_status)
+       VALUES (?, ?, ?, 'file', ?)`,
+    ).run(
+      trackedFileId,
+      target.id,
+      item.relativePath,
+      item.source === 'store' ? 'pending_to_target' : 'pending_to_store',
+    );
+  }
+  deleteTrashItem(db, id);
+  return { item, target, trackedFileId };
+}
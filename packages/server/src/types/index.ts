@@ -31,8 +31,19 @@ export interface ServiceConfigWithSummary extends ServiceConfig {
     totalStoreSize: number;
   };
   lastSyncedAt: string | null;
+  syncDirection: SyncDirection;
+  /** False when the machine groups it is meant for leave this machine out */
+  carriedHere: boolean;
 }
 
+/**
+ * Which way files flow between a repo or service and the store:
+ * - bidirectional: changes on either side reach the other (the default)
+ * - store_to_target: read-only mirror of the store, target edits are reverted
+ * - target_to_store: backup only, the store never writes to the target
+ */
+export type SyncDirection = 'bidirectional' | 'store_to_target' | 'target_to_store';
+
 /** Common interface for sync targets (repos and service configs) */
 export interface SyncTarget {
   id: string;
@@ -43,6 +54,50 @@ export interface SyncTarget {
   type: 'repo' | 'service';
 }
 
+/**
+ * What syncing a tracked file would do, as shown by a dry run:
+ * - copy_to_store / copy_to_target: one side changed, it is copied over the other
+ * - merge: both changed and merge cleanly
+ * - conflict: both changed and don't merge, or a binary file changed on both sides
+ * - delete_conflict: deleted on one side, still there on the other
+ * - delete_store / delete_target: a one-way sync removes what its source deleted
+ * - hold: a one-way sync leaves the file as it is
+ * - untrack: gone from both sides
+ * - rename: renamed or moved on one side, carried over to the other
+ * - not_previewable: a machine variant, or a file its linked or rules source
+ *   would change; the sync decides without a preview
+ */
+export type SyncPlanAction =
+  | 'copy_to_store'
+  | 'copy_to_target'
+  | 'merge'
+  | 'conflict'
+  | 'delete_conflict'
+  | 'delete_store'
+  | 'delete_target'
+  | 'hold'
+  | 'untrack'
+  | 'rename'
+  | 'not_previewable';
+
+export interface SyncPlanEntry {
+  trackedFileId: string;
+  relativePath: string;
+  action: SyncPlanAction;
+  /** Unified diff of the side the action writes; null for binary files and actions that write nothing */
+  diff: string | null;
+}
+
+export interface SyncPlan {
+  type: SyncTarget['type'];
+  id: string;
+  name: string;
+  /** Set when the store size limit blocks this sync */
+  blocked: string | null;
+  /** Files the sync would change; files already in sync are left out */
+  entries: SyncPlanEntry[];
+}
+
 export interface TrackedFile {
   id: string;
   repoId: string | null;
@@ -56,6 +111,11 @@ export interface TrackedFile {
   syncStatus: SyncStatus;
   lastSyncedAt: string | null;
   createdAt: string;
+  /**
+   * Checksum of the content a linked file or rendered rules file had when it
+   * last matched its source (the shared file or the canonical rules)
+   */
+  sharedChecksum?: string | null;
 }
 
 export type SyncStatus =
@@ -64,7 +124,10 @@ export type SyncStatus =
   | 'pending_to_store'
   | 'conflict'
   | 'missing_in_target'
-  | 'missing_in_store';
+  | 'missing_in_store'
+  | 'secret_detected'
+  | 'locked'
+  | 'held';
 
 export interface Conflict {
   id: string;
@@ -75,11 +138,34 @@ export interface Conflict {
   mergedContent: string | null;
   storeChecksum: string;
   targetChecksum: string;
+  /** 1 when the file is binary: both contents are base64 and there is no base or merge */
+  isBinary: number;
+  /** Keys changed differently on both sides of a JSON file, when it was merged key by key */
+  jsonConflicts: JsonKeyConflict[] | null;
+  /** Sections changed on both sides of a Markdown file, when it was merged section by section */
+  sectionConflicts: MarkdownSectionConflict[] | null;
   status: 'pending' | 'resolved_store' | 'resolved_target' | 'resolved_manual' | 'resolved_delete';
   resolvedAt: string | null;
   createdAt: string;
 }
 
+/** A key of a JSON file changed differently on both sides; values are JSON text, null when absent */
+export interface JsonKeyConflict {
+  /** e.g. `mcpServers.github.env.TOKEN` */
+  path: string;
+  base: string | null;
+  store: string | null;
+  target: string | null;
+}
+
+/** A section of a Markdown file whose text changed on both sides and didn't merge */
+export interface MarkdownSectionConflict {
+  /** e.g. `## Testing`; empty for the text before the first heading */
+  heading: string;
+  /** 1-based line of the section in the merged content */
+  line: number;
+}
+
 export interface FilePattern {
   id: string;
   pattern: string;
@@ -109,6 +195,9 @@ export interface RepoWithSummary extends Repo {
     totalStoreSize: number;
   };
   lastSyncedAt: string | null;
+  syncDirection: SyncDirection;
+  /** False when the machine groups it is meant for leave this machine out */
+  carriedHere: boolean;
 }
 
 export interface ConflictWithDetails extends Conflict {
@@ -119,10 +208,87 @@ export interface ConflictWithDetails extends Conflict {
   relativePath: string;
 }
 
+/**
+ * Why content went to the trash:
+ * - file_deleted: the file was deleted from the UI
+ * - conflict_deleted: a conflict was resolved by deleting the file
+ * - target_removed: its repo or service was removed along with its store files
+ */
+export type TrashOrigin = 'file_deleted' | 'conflict_deleted' | 'target_removed';
+
+export interface TrashItem {
+  id: string;
+  origin: TrashOrigin;
+  targetType: SyncTarget['type'];
+  targetId: string;
+  targetName: string;
+  storePath: string;
+  relativePath: string;
+  /** The side the content was taken from: the store copy, or the target's when the store had none */
+  source: 'store' | 'target';
+  isBinary: boolean;
+  size: number;
+  machineId: string;
+  machineName: string;
+  deletedAt: string;
+}
+
+/**
+ * How a file differs on one machine:
+ * - file: the machine keeps a whole copy of its own, stored as `<file>@<machineId>`
+ * - overlay: JSON keys merged over the shared file, stored as `<file>@<machineId>.overlay.json`
+ */
+export type MachineVariantKind = 'file' | 'overlay';
+
+export interface MachineVariant {
+  /** The shared file the variant stands in for */
+  relativePath: string;
+  machineId: string;
+  machineName: string;
+  kind: MachineVariantKind;
+  thisMachine: boolean;
+}
+
+/** A named variant of a service's config files; the active one is what the service syncs */
+export interface ServiceProfile {
+  name: string;
+  active: boolean;
+  fileCount: number;
+}
+
+export interface ServiceProfileList {
+  active: string;
+  profiles: ServiceProfile[];
+}
+
+export type HookAction = 'command' | 'http';
+
+/** A user-configured reaction to sync events, run on this machine only */
+export interface Hook {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** Event types that trigger the hook; empty for every event */
+  events: WsEvent['type'][];
+  /** Glob on the repo or service name; null for any */
+  targetGlob: string | null;
+  /** Glob on the file's relative path; null for any, set to skip events without a file */
+  pathGlob: string | null;
+  action: HookAction;
+  /** Shell command, run with the event JSON on stdin */
+  command: string | null;
+  /** URL the event JSON is POSTed to */
+  url: string | null;
+  timeoutMs: number;
+  createdAt: string;
+}
+
 export interface MachinesFile {
-  machines: Record<string, { name: string; lastSeen: string }>;
+  machines: Record<string, { name: string; lastSeen: string; tags?: string[] }>;
   repos: Record<string, Record<string, { localPath: string }>>;
   services: Record<string, Record<string, { localPath: string }>>;
+  /** Store path → machine tags; only machines with one of them carry the repo or service */
+  carriedBy?: Record<string, string[]>;
 }
 
 export interface UnlinkedStoreRepo {
@@ -150,6 +316,35 @@ export interface AutoLinkResult {
   status: 'linked' | 'path_missing' | 'already_registered';
 }
 
+/** A custom service definition as exported for other people to import */
+export interface ServiceBundleEntry {
+  serviceType: string;
+  name: string;
+  description: string;
+  /** Suggested local path, with the home directory written as `~` */
+  defaultPath: string | null;
+  patterns: string[];
+  ignorePatterns: string[];
+  /** Base64-encoded icon image */
+  icon: { mimeType: string; data: string } | null;
+}
+
+export interface ServiceBundle {
+  format: 'ai-sync-services';
+  version: number;
+  exportedAt: string;
+  services: ServiceBundleEntry[];
+}
+
+export interface ServiceBundleImportResult {
+  serviceType: string;
+  name: string;
+  /** linked: registered and tracking files; registered: definition only; skipped: not imported */
+  status: 'linked' | 'registered' | 'skipped';
+  serviceId: string | null;
+  reason: string | null;
+}
+
 export type WsEvent =
   | { type: 'sync_status'; repoId?: string; serviceId?: string; fileId: string; status: SyncStatus }
   | { type: 'conflict_created'; conflict: ConflictWithDetails }
@@ -177,4 +372,13 @@ export type WsEvent =
       serviceId?: string;
       reason: string;
       totalSize: number;
+    }
+  | {
+      type: 'secret_detected';
+      repoId?: string;
+      serviceId?: string;
+      fileId: string;
+      relativePath: string;
+      action: 'blocked' | 'redacted' | 'warned';
+      count: number;
     };
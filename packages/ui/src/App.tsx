@@ -18,6 +18,7 @@ const ServiceDetailPage = lazy(() =>
 const TemplatesPage = lazy(() =>
   import('@/pages/templates').then((m) => ({ default: m.TemplatesPage })),
 );
+const TrashPage = lazy(() => import('@/pages/trash').then((m) => ({ default: m.TrashPage })));
 export default function App() {
   const [configured, setConfigured] = useState<boolean | null>(null);
   const [dataDir, setDataDir] = useState<string>();
@@ -71,6 +72,7 @@ export default function App() {
             <Route path="/repos/:id" element={<RepoDetailPage />} />
             <Route path="/services/:id" element={<ServiceDetailPage />} />
             <Route path="/templates" element={<TemplatesPage />} />
+            <Route path="/trash" element={<TrashPage />} />
             <Route path="/settings" element={<SettingsPage />} />
           </Routes>
         </Suspense>
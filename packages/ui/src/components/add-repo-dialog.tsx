@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -12,7 +12,10 @@ import { CircleCheck } from '@/components/ui/circle-check';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { FolderBrowser } from '@/components/folder-browser';
+import { TemplatePicker } from '@/components/template-picker';
+import { TemplateVarsFields } from '@/components/template-vars-fields';
 import { api } from '@/lib/api';
+import type { TemplateInfo } from '@/lib/api';
 import { FolderOpen } from 'lucide-react';
 
 function nameFromPath(p: string): string {
@@ -30,12 +33,37 @@ interface AddRepoDialogProps {
 export function AddRepoDialog({ open, onOpenChange, onAdded }: AddRepoDialogProps) {
   const [localPath, setLocalPath] = useState('');
   const [name, setName] = useState('');
-  const [applyTemplate, setApplyTemplate] = useState(true);
+  const [templates, setTemplates] = useState<TemplateInfo[]>([]);
+  const [template, setTemplate] = useState<string | null>(null);
   const [modifyGitignore, setModifyGitignore] = useState(true);
   const [nameManuallyEdited, setNameManuallyEdited] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [browsing, setBrowsing] = useState(false);
+  const [templateVarNames, setTemplateVarNames] = useState<string[]>([]);
+  const [templateVars, setTemplateVars] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!open) return;
+    api.templates
+      .list()
+      .then((data) => {
+        setTemplates(data.templates);
+        setTemplate(data.templates.some((t) => t.name === 'default') ? 'default' : null);
+      })
+      .catch(() => setTemplates([]));
+  }, [open]);
+
+  useEffect(() => {
+    if (!template) {
+      setTemplateVarNames([]);
+      return;
+    }
+    api.templates
+      .variables(template)
+      .then((data) => setTemplateVarNames(data.custom))
+      .catch(() => setTemplateVarNames([]));
+  }, [template]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -46,10 +74,14 @@ export function AddRepoDialog({ open, onOpenChange, onAdded }: AddRepoDialogProp
       await api.repos.create({
         localPath: localPath.trim(),
         name: name.trim() || undefined,
-        applyTemplate,
+        template: template ?? undefined,
         modifyGitignore,
+        templateVars: template
+          ? Object.fromEntries(Object.entries(templateVars).filter(([, v]) => v !== ''))
+          : undefined,
       });
       setLocalPath('');
+      setTemplateVars({});
       setName('');
       setNameManuallyEdited(false);
       onOpenChange(false);
@@ -123,14 +155,27 @@ export function AddRepoDialog({ open, onOpenChange, onAdded }: AddRepoDialogProp
               />
             </div>
 
-            <div className="flex items-center gap-2">
-              <CircleCheck
-                id="applyTemplate"
-                checked={applyTemplate}
-                onCheckedChange={(checked) => setApplyTemplate(checked)}
-              />
-              <Label htmlFor="applyTemplate">Apply default template</Label>
+            <div className="space-y-2">
+              <Label htmlFor="template">Template</Label>
+              <div>
+                <TemplatePicker
+                  id="template"
+                  templates={templates}
+                  value={template}
+                  onChange={setTemplate}
+                  noneLabel="No template"
+                />
+              </div>
             </div>
+            {template && (
+              <div className="pl-6">
+                <TemplateVarsFields
+                  names={templateVarNames}
+                  values={templateVars}
+                  onChange={setTemplateVars}
+                />
+              </div>
+            )}
 
             <div className="flex items-start gap-2">
               <CircleCheck
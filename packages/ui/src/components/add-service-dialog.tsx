@@ -8,10 +8,13 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { api, type AvailableService } from '@/lib/api';
-import { Check, Plus, Loader2, Settings2 } from 'lucide-react';
+import { Check, Plus, Loader2, Settings2, FileDown, FileUp, CopyPlus } from 'lucide-react';
+import { toast } from 'sonner';
 import { Badge } from '@/components/ui/badge';
 import { ServiceIcon } from './service-icon';
 import { AddCustomServiceDialog } from './add-custom-service-dialog';
+import { ImportServicesDialog } from './import-services-dialog';
+import { AddServiceInstanceDialog } from './add-service-instance-dialog';
 
 interface AddServiceDialogProps {
   open: boolean;
@@ -24,6 +27,8 @@ export function AddServiceDialog({ open, onOpenChange, onAdded }: AddServiceDial
   const [loading, setLoading] = useState(false);
   const [adding, setAdding] = useState<string | null>(null);
   const [customOpen, setCustomOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [instanceOf, setInstanceOf] = useState<AvailableService | null>(null);
 
   useEffect(() => {
     if (open) {
@@ -56,6 +61,27 @@ export function AddServiceDialog({ open, onOpenChange, onAdded }: AddServiceDial
     onOpenChange(false);
   };
 
+  const handleExport = async () => {
+    try {
+      const bundle = await api.services.exportCustom();
+      if (bundle.services.length === 0) {
+        toast.info('No custom services to export');
+        return;
+      }
+      const blob = new Blob([JSON.stringify(bundle, null, 2) + '\n'], {
+        type: 'application/json',
+      });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'ai-sync-services.json';
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to export services');
+    }
+  };
+
   return (
     <>
       <Dialog open={open} onOpenChange={onOpenChange}>
@@ -107,7 +133,15 @@ export function AddServiceDialog({ open, onOpenChange, onAdded }: AddServiceDial
                       </div>
                     </div>
                   </div>
-                  <div className="shrink-0 ml-3">
+                  <div className="shrink-0 ml-3 flex items-center gap-1">
+                    <Button
+                      size="icon-sm"
+                      variant="ghost"
+                      title="Add another instance"
+                      onClick={() => setInstanceOf(svc)}
+                    >
+                      <CopyPlus className="h-3.5 w-3.5" />
+                    </Button>
                     {svc.registered ? (
                       <Button size="sm" variant="outline" disabled>
                         <Check className="h-3.5 w-3.5 mr-1" />
@@ -137,11 +171,28 @@ export function AddServiceDialog({ open, onOpenChange, onAdded }: AddServiceDial
 
             {/* Add Custom Service */}
             {!loading && (
-              <div className="border-t pt-3">
+              <div className="border-t pt-3 space-y-2">
                 <Button variant="outline" className="w-full" onClick={() => setCustomOpen(true)}>
                   <Settings2 className="h-4 w-4 mr-2" />
                   Add Custom Service
                 </Button>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+                    <FileUp className="h-3.5 w-3.5 mr-1" />
+                    Import Bundle
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleExport}
+                    disabled={
+                      !available.some((s) => s.registered && s.serviceType.startsWith('custom-'))
+                    }
+                  >
+                    <FileDown className="h-3.5 w-3.5 mr-1" />
+                    Export Custom
+                  </Button>
+                </div>
               </div>
             )}
           </div>
@@ -154,6 +205,15 @@ export function AddServiceDialog({ open, onOpenChange, onAdded }: AddServiceDial
         onAdded={handleCustomAdded}
         existingServices={available}
       />
+
+      <AddServiceInstanceDialog
+        open={instanceOf !== null}
+        onOpenChange={(open) => !open && setInstanceOf(null)}
+        onAdded={onAdded}
+        service={instanceOf}
+      />
+
+      <ImportServicesDialog open={importOpen} onOpenChange={setImportOpen} onImported={onAdded} />
     </>
   );
 }
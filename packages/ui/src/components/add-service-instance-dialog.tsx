@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { api, type AvailableService } from '@/lib/api';
+import { FolderBrowser } from './folder-browser';
+import { Loader2, FolderOpen } from 'lucide-react';
+
+interface AddServiceInstanceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAdded: () => void;
+  /** Service type to add another instance of */
+  service: AvailableService | null;
+}
+
+const INSTANCE_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+export function AddServiceInstanceDialog({
+  open,
+  onOpenChange,
+  onAdded,
+  service,
+}: AddServiceInstanceDialogProps) {
+  const [instance, setInstance] = useState('');
+  const [localPath, setLocalPath] = useState('');
+  const [browsing, setBrowsing] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const validInstance = INSTANCE_PATTERN.test(instance);
+  const canSubmit = validInstance && localPath.trim().length > 0 && !submitting;
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setInstance('');
+      setLocalPath('');
+      setBrowsing(false);
+      setError(null);
+    }
+    onOpenChange(open);
+  };
+
+  const handleSubmit = async () => {
+    if (!service) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      await api.services.create(service.serviceType, { instance, localPath: localPath.trim() });
+      onAdded();
+      handleOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add service');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add {service?.name} Instance</DialogTitle>
+          <DialogDescription>
+            Sync another config folder of the same service, e.g. a separate work profile.
+          </DialogDescription>
+        </DialogHeader>
+
+        {browsing ? (
+          <FolderBrowser
+            onSelect={(path) => {
+              setLocalPath(path);
+              setBrowsing(false);
+            }}
+            onCancel={() => setBrowsing(false)}
+            showDotFiles
+          />
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="instance-name" className="text-xs">
+                Instance Name
+              </Label>
+              <Input
+                id="instance-name"
+                value={instance}
+                onChange={(e) => setInstance(e.target.value.toLowerCase())}
+                placeholder="e.g. work"
+              />
+              {instance && !validInstance ? (
+                <p className="text-xs text-destructive">
+                  Use lowercase letters, digits and dashes.
+                </p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Shown as &quot;{service?.name} ({instance || 'work'})&quot; and stored in{' '}
+                  <code>
+                    services/{service?.serviceType}@{instance || 'work'}
+                  </code>
+                  .
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="instance-path" className="text-xs">
+                Config Path
+              </Label>
+              <div className="flex gap-2 items-center">
+                <Input
+                  id="instance-path"
+                  value={localPath}
+                  onChange={(e) => setLocalPath(e.target.value)}
+                  placeholder={service ? `${service.defaultPath}-work` : ''}
+                  className="font-mono text-xs"
+                />
+                <Button size="sm" variant="outline" type="button" onClick={() => setBrowsing(true)}>
+                  <FolderOpen className="h-3.5 w-3.5 mr-1" />
+                  Browse
+                </Button>
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={!canSubmit}>
+                {submitting && <Loader2 className="h-3.5 w-3.5 animate-spin mr-1" />}
+                Add Instance
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
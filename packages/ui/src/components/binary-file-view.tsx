@@ -0,0 +1,43 @@
+import { Binary } from 'lucide-react';
+import { formatBytes } from '@/lib/utils';
+
+interface BinaryFileViewProps {
+  /** Base64-encoded bytes */
+  content: string;
+  size: number;
+  checksum: string;
+  mimeType: string | null;
+  label?: string;
+}
+
+/** Read-only view of a binary file: size and hash, with a preview for images and PDFs */
+export function BinaryFileView({ content, size, checksum, mimeType, label }: BinaryFileViewProps) {
+  const dataUrl = mimeType ? `data:${mimeType};base64,${content}` : null;
+
+  return (
+    <div className="flex h-full min-h-0 flex-col items-center gap-4 overflow-auto p-6 text-sm">
+      {dataUrl && mimeType?.startsWith('image/') ? (
+        <img
+          src={dataUrl}
+          alt={label ?? 'Preview'}
+          className="max-h-96 max-w-full rounded-md border bg-muted/30 object-contain"
+        />
+      ) : dataUrl ? (
+        <object data={dataUrl} type={mimeType!} className="h-96 w-full rounded-md border">
+          <span className="text-muted-foreground">Preview unavailable</span>
+        </object>
+      ) : (
+        <Binary className="mt-6 h-10 w-10 text-muted-foreground" />
+      )}
+      <div className="space-y-1 text-center">
+        <div className="font-medium">{label ?? 'Binary file'}</div>
+        <div className="text-muted-foreground">
+          {formatBytes(size)} · <span className="font-mono text-xs">{checksum}</span>
+        </div>
+        <div className="text-xs text-muted-foreground">
+          Synced byte for byte; it can't be edited here.
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -16,8 +16,17 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { RefreshCw, WrapText, ChevronDown, Trash2 } from 'lucide-react';
-import { api, type ConflictDetail } from '@/lib/api';
+import {
+  api,
+  type ConflictDetail,
+  type JsonKeyConflict,
+  type MarkdownSectionConflict,
+} from '@/lib/api';
 import { diffHighlight } from '@/lib/diff-highlight';
+import { ThreeWayMerge } from '@/components/three-way-merge';
+import { chunksFromConflictMarkers, computeMergeChunks, isUsableBase } from '@/lib/merge-hunks';
+import { BinaryFileView } from '@/components/binary-file-view';
+import { base64Size, previewMimeType } from '@/lib/utils';
 
 interface ConflictResolverProps {
   conflict: ConflictDetail;
@@ -48,6 +57,47 @@ function RemovedNotice({ side }: { side: 'store' | 'target' }) {
   );
 }
 
+function JsonConflictList({ conflicts }: { conflicts: JsonKeyConflict[] }) {
+  const value = (text: string | null) =>
+    text === null ? <span className="italic">(removed)</span> : <code>{text}</code>;
+  return (
+    <div className="mx-2 mt-2 max-h-40 overflow-y-auto rounded-md border p-2 text-xs">
+      <p className="mb-1.5 text-muted-foreground">
+        {conflicts.length === 1 ? 'This key was' : 'These keys were'} changed on both sides.
+        Everything else is merged; the manual edit starts from the merge with the store values.
+      </p>
+      {conflicts.map((c) => (
+        <div key={c.path} className="grid grid-cols-[auto_1fr] gap-x-3 border-t py-1 font-mono">
+          <span className="row-span-3 font-medium">{c.path}</span>
+          <span className="truncate">Store: {value(c.store)}</span>
+          <span className="truncate">Target: {value(c.target)}</span>
+          <span className="truncate text-muted-foreground">Base: {value(c.base)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function SectionConflictList({ conflicts }: { conflicts: MarkdownSectionConflict[] }) {
+  return (
+    <div className="mx-2 mt-2 max-h-40 overflow-y-auto rounded-md border p-2 text-xs">
+      <p className="mb-1.5 text-muted-foreground">
+        {conflicts.length === 1 ? 'This section was' : 'These sections were'} changed on both sides.
+        Every other section is merged; the conflict markers are under{' '}
+        {conflicts.length === 1 ? 'its heading' : 'their headings'}.
+      </p>
+      {conflicts.map((c) => (
+        <div key={`${c.line}-${c.heading}`} className="flex gap-3 border-t py-1">
+          <span className="font-mono font-medium">
+            {c.heading || <span className="italic">Top of the file</span>}
+          </span>
+          <span className="text-muted-foreground">line {c.line}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export function ConflictResolver({
   conflict,
   onResolved,
@@ -55,6 +105,7 @@ export function ConflictResolver({
   toolbarTarget,
 }: ConflictResolverProps) {
   const [resolving, setResolving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   // Pre-fill manual editor: use merged content (with conflict markers) if available,
   // otherwise fall back to store content
@@ -120,15 +171,32 @@ export function ConflictResolver({
     [conflict.relativePath, wordWrap],
   );
 
-  const handleResolve = async (resolution: string) => {
+  // Hunk-level merging needs a real common ancestor; without one, the hunks
+  // come from the markers of the merge that raised the conflict
+  const mergeChunks = useMemo(() => {
+    if (isUsableBase(conflict.baseContent, conflict.storeContent, conflict.targetContent)) {
+      return computeMergeChunks(
+        conflict.baseContent,
+        conflict.storeContent ?? '',
+        conflict.targetContent ?? '',
+      );
+    }
+    return conflict.mergedContent ? chunksFromConflictMarkers(conflict.mergedContent) : null;
+  }, [conflict.baseContent, conflict.storeContent, conflict.targetContent, conflict.mergedContent]);
+  const canMerge = mergeChunks !== null;
+
+  const handleResolve = async (resolution: string, content?: string) => {
     setResolving(true);
+    setError(null);
     try {
       await api.conflicts.resolve(
         conflict.id,
         resolution,
-        resolution === 'manual' ? manualContent : undefined,
+        resolution === 'manual' ? (content ?? manualContent) : undefined,
       );
       onResolved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve conflict');
     } finally {
       setResolving(false);
     }
@@ -150,15 +218,17 @@ export function ConflictResolver({
           <RefreshCw className={`h-3.5 w-3.5 ${refreshing ? 'animate-spin' : ''}`} />
         </Button>
       )}
-      <Toggle
-        size="icon-sm"
-        variant="outline"
-        pressed={wordWrap}
-        onPressedChange={setWordWrap}
-        aria-label="Toggle word wrap"
-      >
-        <WrapText className="h-3.5 w-3.5" />
-      </Toggle>
+      {!conflict.isBinary && (
+        <Toggle
+          size="icon-sm"
+          variant="outline"
+          pressed={wordWrap}
+          onPressedChange={setWordWrap}
+          aria-label="Toggle word wrap"
+        >
+          <WrapText className="h-3.5 w-3.5" />
+        </Toggle>
+      )}
       <DropdownMenu>
         <DropdownMenuTrigger asChild>
           <Button size="sm" disabled={resolving}>
@@ -172,7 +242,9 @@ export function ConflictResolver({
           <DropdownMenuItem onClick={() => handleResolve('keep_target')}>
             Keep changes from target
           </DropdownMenuItem>
-          <DropdownMenuItem onClick={() => handleResolve('manual')}>Save Manual</DropdownMenuItem>
+          {!conflict.isBinary && (
+            <DropdownMenuItem onClick={() => handleResolve('manual')}>Save Manual</DropdownMenuItem>
+          )}
           <DropdownMenuSeparator />
           <DropdownMenuItem className="text-destructive" onClick={() => handleResolve('delete')}>
             Delete File
@@ -182,12 +254,59 @@ export function ConflictResolver({
     </div>
   );
 
+  if (conflict.isBinary) {
+    const mimeType = previewMimeType(conflict.relativePath);
+    const side = (label: string, content: string | null, checksum: string) => (
+      <div className="min-h-0 overflow-hidden rounded-md border">
+        {content === null ? (
+          <RemovedNotice side={label === 'Store' ? 'store' : 'target'} />
+        ) : (
+          <BinaryFileView
+            content={content}
+            size={base64Size(content)}
+            checksum={checksum}
+            mimeType={mimeType}
+            label={`${label} version`}
+          />
+        )}
+      </div>
+    );
+    return (
+      <div className="flex h-full min-h-0 flex-col">
+        {toolbarTarget && createPortal(toolbar, toolbarTarget)}
+        {error && <p className="px-2 pt-2 text-sm text-destructive">{error}</p>}
+        <p className="px-2 pt-2 text-xs text-muted-foreground">
+          Binary files can't be merged — keep the store or the target version.
+        </p>
+        <div className="grid min-h-0 flex-1 grid-cols-2 gap-2 p-2">
+          {side('Store', conflict.storeContent, conflict.storeChecksum)}
+          {side('Target', conflict.targetContent, conflict.targetChecksum)}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex h-full min-h-0 flex-col">
       {toolbarTarget && createPortal(toolbar, toolbarTarget)}
-      <Tabs defaultValue="store" className="flex min-h-0 flex-1 flex-col pt-2">
+      {error && <p className="px-2 pt-2 text-sm text-destructive">{error}</p>}
+      {conflict.jsonConflicts && conflict.jsonConflicts.length > 0 && (
+        <JsonConflictList conflicts={conflict.jsonConflicts} />
+      )}
+      {conflict.sectionConflicts && conflict.sectionConflicts.length > 0 && (
+        <SectionConflictList conflicts={conflict.sectionConflicts} />
+      )}
+      <Tabs
+        defaultValue={canMerge ? 'merge' : 'store'}
+        className="flex min-h-0 flex-1 flex-col pt-2"
+      >
         <div className="px-2">
           <TabsList className="justify-start">
+            {canMerge && (
+              <TabsTrigger className="text-xs" value="merge">
+                Merge
+              </TabsTrigger>
+            )}
             <TabsTrigger className="text-xs" value="store">
               Store Version
             </TabsTrigger>
@@ -205,6 +324,17 @@ export function ConflictResolver({
           </TabsList>
         </div>
         <div ref={containerRef} className="min-h-0 flex-1">
+          {mergeChunks && (
+            <TabsContent value="merge" className="mt-2 h-full overflow-hidden">
+              <ThreeWayMerge
+                chunks={mergeChunks}
+                extensions={manualExtensions}
+                editorHeight={editorHeight}
+                resolving={resolving}
+                onSave={(content) => handleResolve('manual', content)}
+              />
+            </TabsContent>
+          )}
           <TabsContent value="store" className="mt-2 h-full overflow-hidden rounded-md border">
             {conflict.storeContent === null ? (
               <RemovedNotice side="store" />
@@ -0,0 +1,29 @@
+import { cn } from '@/lib/utils';
+
+/** Hunks of a unified git diff, added and removed lines highlighted */
+export function DiffView({ diff }: { diff: string }) {
+  // Skip the git header (diff --git / index / --- / +++); keep hunks only
+  const lines = diff.split('\n');
+  const start = lines.findIndex((l) => l.startsWith('@@'));
+  const body = start >= 0 ? lines.slice(start) : [];
+  if (body.length === 0) {
+    return <p className="px-2 py-1 text-xs text-muted-foreground">No textual changes</p>;
+  }
+  return (
+    <pre className="overflow-x-auto font-mono text-xs">
+      {body.map((line, i) => (
+        <div
+          key={i}
+          className={cn(
+            'px-2 whitespace-pre',
+            line.startsWith('+') && 'bg-emerald-500/15',
+            line.startsWith('-') && 'bg-red-500/15',
+            line.startsWith('@@') && 'text-muted-foreground',
+          )}
+        >
+          {line || ' '}
+        </div>
+      ))}
+    </pre>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Lock, LockOpen } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { api, type EncryptionStatus } from '@/lib/api';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export function EncryptionSettings() {
+  const [status, setStatus] = useState<EncryptionStatus | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    api.encryption
+      .status()
+      .then(setStatus)
+      .catch(() => {});
+  }, []);
+
+  const valid = passphrase.length >= MIN_PASSPHRASE_LENGTH;
+
+  const handleSave = async () => {
+    if (!valid) return;
+    setSaving(true);
+    try {
+      setStatus(await api.encryption.setPassphrase(passphrase));
+      setPassphrase('');
+      toast.success(status?.enabled ? 'Store unlocked' : 'Store encryption enabled');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to set passphrase');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!status) return null;
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div>
+        <div className="flex items-center gap-2 text-sm font-medium">
+          {status.unlocked ? (
+            <Lock className="h-3.5 w-3.5" />
+          ) : (
+            <LockOpen className="h-3.5 w-3.5 text-muted-foreground" />
+          )}
+          Store encryption
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {status.unlocked
+            ? 'This machine can read and write encrypted store files. Flag patterns with the lock icon to encrypt them.'
+            : status.enabled
+              ? 'The store has encrypted files. Enter the passphrase set on your other machine to sync them here.'
+              : 'Set a passphrase to encrypt the store copies of selected patterns. Use the same passphrase on every machine.'}
+        </p>
+      </div>
+      {!status.unlocked && (
+        <div className="flex gap-2">
+          <Input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="Passphrase"
+            className="h-8 flex-1 text-sm"
+            autoComplete="new-password"
+          />
+          <Button size="sm" variant="outline" onClick={handleSave} disabled={saving || !valid}>
+            {saving && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            {status.enabled ? 'Unlock' : 'Enable'}
+          </Button>
+        </div>
+      )}
+      {passphrase && !valid && (
+        <p className="text-xs text-destructive">Use at least {MIN_PASSPHRASE_LENGTH} characters</p>
+      )}
+    </div>
+  );
+}
@@ -8,15 +8,18 @@ import { EditorView, keymap, type KeyBinding } from '@codemirror/view';
 import { EditorSelection } from '@codemirror/state';
 import { Button } from '@/components/ui/button';
 import { Toggle } from '@/components/ui/toggle';
-import { Eye, PencilLine, Save, WrapText } from 'lucide-react';
+import { Eye, History, PencilLine, Save, WrapText } from 'lucide-react';
 import Markdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { FileHistoryPanel, type FileHistorySource } from '@/components/file-history-panel';
 
 interface FileEditorProps {
   content: string;
   filePath: string;
   onSave: (content: string) => Promise<void>;
   toolbarTarget?: HTMLElement | null;
+  /** Enables the history panel when the file has store revisions */
+  history?: FileHistorySource;
 }
 
 function wrapSelection(view: EditorView, before: string, after: string): boolean {
@@ -70,12 +73,13 @@ function getExtensions(filePath: string) {
   return [markdown()]; // default to markdown
 }
 
-export function FileEditor({ content, filePath, onSave, toolbarTarget }: FileEditorProps) {
+export function FileEditor({ content, filePath, onSave, toolbarTarget, history }: FileEditorProps) {
   const [value, setValue] = useState(content);
   const [saving, setSaving] = useState(false);
   const [dirty, setDirty] = useState(false);
   const [wordWrap, setWordWrap] = useState(true);
   const [preview, setPreview] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
   const [editorHeight, setEditorHeight] = useState('500px');
 
@@ -157,6 +161,17 @@ export function FileEditor({ content, filePath, onSave, toolbarTarget }: FileEdi
           {preview ? <PencilLine className="size-4" /> : <Eye className="size-4" />}
         </Toggle>
       )}
+      {history && (
+        <Toggle
+          size="icon-sm"
+          variant="outline"
+          pressed={showHistory}
+          onPressedChange={setShowHistory}
+          aria-label="Toggle file history"
+        >
+          <History className="size-4" />
+        </Toggle>
+      )}
       <Toggle
         size="icon-sm"
         variant="outline"
@@ -177,25 +192,37 @@ export function FileEditor({ content, filePath, onSave, toolbarTarget }: FileEdi
   return (
     <div className="flex h-full min-h-0 flex-col">
       {toolbarTarget && createPortal(toolbar, toolbarTarget)}
-      <div ref={containerRef} className="min-h-0 flex-1 rounded-none border overflow-hidden">
-        {preview ? (
-          <div
-            className="prose prose-sm p-4 overflow-y-auto h-full"
-            style={{ height: editorHeight }}
-          >
-            <Markdown remarkPlugins={[remarkGfm]}>{value}</Markdown>
-          </div>
-        ) : (
-          <CodeMirror
-            value={value}
-            height={editorHeight}
-            theme={oneDark}
-            extensions={[
-              ...getExtensions(filePath),
-              ...(wordWrap ? [EditorView.lineWrapping] : []),
-              ...editorKeymap.current,
-            ]}
-            onChange={handleChange}
+      <div className="flex min-h-0 flex-1">
+        <div
+          ref={containerRef}
+          className="min-h-0 min-w-0 flex-1 rounded-none border overflow-hidden"
+        >
+          {preview ? (
+            <div
+              className="prose prose-sm p-4 overflow-y-auto h-full"
+              style={{ height: editorHeight }}
+            >
+              <Markdown remarkPlugins={[remarkGfm]}>{value}</Markdown>
+            </div>
+          ) : (
+            <CodeMirror
+              value={value}
+              height={editorHeight}
+              theme={oneDark}
+              extensions={[
+                ...getExtensions(filePath),
+                ...(wordWrap ? [EditorView.lineWrapping] : []),
+                ...editorKeymap.current,
+              ]}
+              onChange={handleChange}
+            />
+          )}
+        </div>
+        {history && showHistory && (
+          <FileHistoryPanel
+            source={history}
+            reloadKey={`${filePath}\0${content}`}
+            onClose={() => setShowHistory(false)}
           />
         )}
       </div>
@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import { History, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import { DiffView } from '@/components/diff-view';
+import { cn, formatDate } from '@/lib/utils';
+import type { FileRevision } from '@/lib/api';
+
+export interface FileHistorySource {
+  load: () => Promise<FileRevision[]>;
+  loadContentAt: (commit: string) => Promise<string>;
+  restore: (commit: string) => Promise<void>;
+}
+
+interface FileHistoryPanelProps {
+  source: FileHistorySource;
+  /** Changes whenever the file changes, so the list picks up new commits */
+  reloadKey: unknown;
+  onClose: () => void;
+}
+
+export function FileHistoryPanel({ source, reloadKey, onClose }: FileHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<FileRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [view, setView] = useState<'diff' | 'file'>('diff');
+  const [fileAt, setFileAt] = useState<{ commit: string; content: string } | null>(null);
+  const [confirmRestore, setConfirmRestore] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    source.load().then(
+      (revs) => {
+        if (!cancelled) {
+          setRevisions(revs);
+          setError(null);
+        }
+      },
+      (err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load history');
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  useEffect(() => {
+    if (view !== 'file' || !selected || fileAt?.commit === selected) return;
+    source.loadContentAt(selected).then(
+      (content) => setFileAt({ commit: selected, content }),
+      () => setFileAt({ commit: selected, content: '' }),
+    );
+  }, [view, selected]);
+
+  const handleRestore = async (commit: string) => {
+    setRestoring(true);
+    try {
+      await source.restore(commit);
+      setSelected(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const selectedRev = revisions?.find((r) => r.hash === selected) ?? null;
+
+  return (
+    <div className="flex h-full w-80 shrink-0 flex-col border-l">
+      <div className="flex items-center justify-between border-b px-3 py-2">
+        <div className="flex items-center gap-1.5 text-sm font-medium">
+          <History className="size-4" /> History
+        </div>
+        <Button size="icon-sm" variant="ghost" onClick={onClose} aria-label="Close history">
+          <X className="size-4" />
+        </Button>
+      </div>
+      <div className="min-h-0 flex-1 overflow-y-auto">
+        {error && <p className="px-3 py-2 text-sm text-destructive">{error}</p>}
+        {!revisions && !error && (
+          <p className="px-3 py-2 text-sm text-muted-foreground">Loading history...</p>
+        )}
+        {revisions?.length === 0 && (
+          <p className="px-3 py-2 text-sm text-muted-foreground">No committed versions yet</p>
+        )}
+        {revisions?.map((rev, i) => (
+          <div key={rev.hash} className="border-b">
+            <button
+              type="button"
+              className={cn(
+                'w-full px-3 py-2 text-left hover:bg-accent',
+                selected === rev.hash && 'bg-accent',
+              )}
+              onClick={() => setSelected(selected === rev.hash ? null : rev.hash)}
+            >
+              <div className="truncate text-xs font-medium" title={rev.message}>
+                {rev.message}
+              </div>
+              <div className="mt-0.5 flex gap-1 text-[11px] text-muted-foreground">
+                <span className="truncate">{rev.machineName ?? rev.authorName}</span>
+                <span>·</span>
+                <span className="shrink-0" title={new Date(rev.date).toLocaleString()}>
+                  {formatDate(rev.date)}
+                </span>
+                <span className="ml-auto font-mono">{rev.hash.slice(0, 7)}</span>
+              </div>
+            </button>
+            {selectedRev?.hash === rev.hash && (
+              <div className="flex flex-col gap-2 pb-2">
+                <div className="flex items-center gap-1 px-3">
+                  <Button
+                    size="xs"
+                    variant={view === 'diff' ? 'default' : 'outline'}
+                    onClick={() => setView('diff')}
+                  >
+                    Diff
+                  </Button>
+                  <Button
+                    size="xs"
+                    variant={view === 'file' ? 'default' : 'outline'}
+                    onClick={() => setView('file')}
+                  >
+                    File
+                  </Button>
+                  {i > 0 && (
+                    <Button
+                      size="xs"
+                      variant="outline"
+                      className="ml-auto"
+                      disabled={restoring}
+                      onClick={() => setConfirmRestore(rev.hash)}
+                    >
+                      <RotateCcw className="size-3" /> Restore
+                    </Button>
+                  )}
+                </div>
+                {view === 'diff' ? (
+                  <DiffView diff={rev.diff} />
+                ) : fileAt?.commit === rev.hash ? (
+                  <pre className="overflow-x-auto px-2 font-mono text-xs whitespace-pre">
+                    {fileAt.content}
+                  </pre>
+                ) : (
+                  <p className="px-3 text-xs text-muted-foreground">Loading...</p>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      <ConfirmDialog
+        open={!!confirmRestore}
+        onOpenChange={(open) => !open && setConfirmRestore(null)}
+        onConfirm={() => {
+          if (confirmRestore) handleRestore(confirmRestore);
+          setConfirmRestore(null);
+        }}
+        title="Restore this version?"
+        description="The file will be overwritten in both the store and the target with this version. The current content stays in the history."
+        confirmLabel="Restore"
+      />
+    </div>
+  );
+}
@@ -18,6 +18,9 @@ import {
   FolderOpen,
   FolderSymlink,
   GitBranch,
+  Laptop,
+  Link2,
+  ScrollText,
   Trash2,
 } from 'lucide-react';
 import {
@@ -41,6 +44,12 @@ export interface FileTreeItem {
   fileType?: 'file' | 'symlink';
   /** File size in bytes (used to compute aggregate folder sizes) */
   storeSize?: number;
+  /** Shared file this entry is linked to */
+  sharedPath?: string | null;
+  /** Tool this file is rendered for from the canonical rules */
+  rulesTool?: string | null;
+  /** This machine's variant of the file, if it has one */
+  machineVariant?: 'file' | 'overlay' | null;
 }
 
 interface TreeNode {
@@ -162,6 +171,10 @@ interface FileTreeProps {
   onResolve?: (path: string, resolution: 'keep_store' | 'keep_target') => void;
   /** Called when user wants to delete a file from store and target */
   onDelete?: (path: string) => void;
+  /** Called when user wants to link a file to a shared file (or manage its link) */
+  onLink?: (path: string) => void;
+  /** Called when user wants to manage the per-machine variants of a file */
+  onVariants?: (path: string) => void;
   /** Size thresholds for coloring file/folder sizes */
   sizeThresholds?: SizeThresholds;
   /** Whether to expand all folders on initial render (default: true) */
@@ -219,6 +232,8 @@ export const FileTree = forwardRef(function FileTree(
     onIgnore,
     onResolve,
     onDelete,
+    onLink,
+    onVariants,
     sizeThresholds,
     initialExpanded = true,
   }: FileTreeProps,
@@ -286,6 +301,8 @@ export const FileTree = forwardRef(function FileTree(
             onIgnore={onIgnore}
             onResolve={onResolve}
             onDelete={onDelete}
+            onLink={onLink}
+            onVariants={onVariants}
             sizeThresholds={sizeThresholds}
           />
         ))}
@@ -306,6 +323,8 @@ interface TreeNodeViewProps {
   onIgnore?: (pattern: string) => void;
   onResolve?: (path: string, resolution: 'keep_store' | 'keep_target') => void;
   onDelete?: (path: string) => void;
+  onLink?: (path: string) => void;
+  onVariants?: (path: string) => void;
   sizeThresholds?: SizeThresholds;
 }
 
@@ -321,6 +340,8 @@ function TreeNodeView({
   onIgnore,
   onResolve,
   onDelete,
+  onLink,
+  onVariants,
   sizeThresholds,
 }: TreeNodeViewProps) {
   const isDir = node.file === null;
@@ -426,6 +447,8 @@ function TreeNodeView({
                 onIgnore={onIgnore}
                 onResolve={onResolve}
                 onDelete={onDelete}
+                onLink={onLink}
+                onVariants={onVariants}
                 sizeThresholds={sizeThresholds}
               />
             ))}
@@ -457,6 +480,34 @@ function TreeNodeView({
           <FileCode2 className="h-3.5 w-3.5 shrink-0" />
         )}
         <TruncatedName name={node.name} fullPath={node.fullPath} />
+        {node.file?.sharedPath && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Link2 className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+            </TooltipTrigger>
+            <TooltipContent side="top">Linked to shared/{node.file.sharedPath}</TooltipContent>
+          </Tooltip>
+        )}
+        {node.file?.rulesTool && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <ScrollText className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+            </TooltipTrigger>
+            <TooltipContent side="top">Rendered from the canonical rules</TooltipContent>
+          </Tooltip>
+        )}
+        {node.file?.machineVariant && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Laptop className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+            </TooltipTrigger>
+            <TooltipContent side="top">
+              {node.file.machineVariant === 'file'
+                ? 'This machine uses its own copy'
+                : "This machine's overlay is merged over the shared file"}
+            </TooltipContent>
+          </Tooltip>
+        )}
         {onClone && (
           <Tooltip>
             <TooltipTrigger asChild>
@@ -486,7 +537,9 @@ function TreeNodeView({
     node.file?.status === 'conflict' ||
     node.file?.status === 'missing_in_store' ||
     node.file?.status === 'missing_in_target';
-  const hasContextMenu = onIgnore || onDelete || (onResolve && isConflict);
+  const canLink = onLink && node.file?.fileType !== 'symlink' && !node.file?.rulesTool;
+  const canVary = onVariants && node.file?.fileType !== 'symlink';
+  const hasContextMenu = onIgnore || onDelete || canLink || canVary || (onResolve && isConflict);
 
   if (hasContextMenu) {
     return (
@@ -505,13 +558,25 @@ function TreeNodeView({
               </ContextMenuItem>
             </>
           )}
+          {canLink && (
+            <ContextMenuItem onClick={() => onLink?.(node.fullPath)}>
+              <Link2 className="h-3.5 w-3.5" />
+              {node.file?.sharedPath ? 'Linked file…' : 'Link to shared file…'}
+            </ContextMenuItem>
+          )}
+          {canVary && (
+            <ContextMenuItem onClick={() => onVariants?.(node.fullPath)}>
+              <Laptop className="h-3.5 w-3.5" />
+              Machine variants…
+            </ContextMenuItem>
+          )}
           {onIgnore && (
             <ContextMenuItem onClick={() => onIgnore(node.fullPath)}>
               <EyeOff className="h-3.5 w-3.5" />
               Untrack file
             </ContextMenuItem>
           )}
-          {onDelete && onIgnore && <ContextMenuSeparator />}
+          {onDelete && (onIgnore || canLink || canVary) && <ContextMenuSeparator />}
           {onDelete && (
             <ContextMenuItem
               className="text-destructive focus:text-destructive"
@@ -0,0 +1,213 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { api } from '@/lib/api';
+import type { Hook, HookAction, HookInput } from '@/lib/api';
+
+interface HookDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Hook to edit; omit to create a new one */
+  hook?: Hook;
+  /** Event types a hook can react to */
+  events: string[];
+  onSaved: () => void;
+}
+
+/** Create or edit a hook: what triggers it and what it runs */
+export function HookDialog({ open, onOpenChange, hook, events, onSaved }: HookDialogProps) {
+  const [name, setName] = useState('');
+  const [selectedEvents, setSelectedEvents] = useState<string[]>([]);
+  const [targetGlob, setTargetGlob] = useState('');
+  const [pathGlob, setPathGlob] = useState('');
+  const [action, setAction] = useState<HookAction>('command');
+  const [command, setCommand] = useState('');
+  const [url, setUrl] = useState('');
+  const [timeoutSec, setTimeoutSec] = useState('10');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(hook?.name ?? '');
+    setSelectedEvents(hook?.events ?? []);
+    setTargetGlob(hook?.targetGlob ?? '');
+    setPathGlob(hook?.pathGlob ?? '');
+    setAction(hook?.action ?? 'command');
+    setCommand(hook?.command ?? '');
+    setUrl(hook?.url ?? '');
+    setTimeoutSec(String((hook?.timeoutMs ?? 10_000) / 1000));
+    setError(null);
+  }, [open, hook]);
+
+  const toggleEvent = (event: string) =>
+    setSelectedEvents((prev) =>
+      prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event],
+    );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const data: HookInput = {
+        name: name.trim(),
+        enabled: hook?.enabled ?? true,
+        events: selectedEvents,
+        targetGlob: targetGlob.trim() || null,
+        pathGlob: pathGlob.trim() || null,
+        action,
+        command: action === 'command' ? command : null,
+        url: action === 'http' ? url.trim() : null,
+        timeoutMs: Math.round(Number(timeoutSec) * 1000),
+      };
+      if (hook) await api.hooks.update(hook.id, data);
+      else await api.hooks.create(data);
+      onOpenChange(false);
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save hook');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{hook ? 'Edit Hook' : 'New Hook'}</DialogTitle>
+          <DialogDescription>
+            Run a command or call a URL when a sync event happens on this machine.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="hookName">Name</Label>
+            <Input
+              id="hookName"
+              placeholder="Regenerate docs"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Events</Label>
+            <div className="flex flex-wrap gap-1">
+              {events.map((event) => (
+                <Button
+                  key={event}
+                  type="button"
+                  size="xs"
+                  variant={selectedEvents.includes(event) ? 'default' : 'outline'}
+                  onClick={() => toggleEvent(event)}
+                >
+                  {event}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">None selected runs on every event.</p>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="hookTarget">Repo or service (glob)</Label>
+              <Input
+                id="hookTarget"
+                placeholder="Any"
+                value={targetGlob}
+                onChange={(e) => setTargetGlob(e.target.value)}
+                className="font-mono text-sm"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="hookPath">File path (glob)</Label>
+              <Input
+                id="hookPath"
+                placeholder="Any, e.g. **/CLAUDE.md"
+                value={pathGlob}
+                onChange={(e) => setPathGlob(e.target.value)}
+                className="font-mono text-sm"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Action</Label>
+            <div className="flex gap-1">
+              <Button
+                type="button"
+                size="xs"
+                variant={action === 'command' ? 'default' : 'outline'}
+                onClick={() => setAction('command')}
+              >
+                Shell command
+              </Button>
+              <Button
+                type="button"
+                size="xs"
+                variant={action === 'http' ? 'default' : 'outline'}
+                onClick={() => setAction('http')}
+              >
+                HTTP POST
+              </Button>
+            </div>
+            {action === 'command' ? (
+              <>
+                <Input
+                  placeholder="./scripts/regenerate.sh"
+                  value={command}
+                  onChange={(e) => setCommand(e.target.value)}
+                  className="font-mono text-sm"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Runs in the repo or service folder with the event JSON on stdin and{' '}
+                  <code>AI_SYNC_EVENT</code>, <code>AI_SYNC_TARGET_NAME</code>,{' '}
+                  <code>AI_SYNC_TARGET_PATH</code> and <code>AI_SYNC_FILE</code> set.
+                </p>
+              </>
+            ) : (
+              <Input
+                placeholder="http://localhost:8080/ai-sync"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                className="font-mono text-sm"
+              />
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="hookTimeout">Timeout (seconds)</Label>
+            <Input
+              id="hookTimeout"
+              type="number"
+              min="1"
+              max="300"
+              value={timeoutSec}
+              onChange={(e) => setTimeoutSec(e.target.value)}
+              className="w-24"
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !name.trim()}>
+              {saving ? 'Saving...' : hook ? 'Save' : 'Create Hook'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { Globe, Loader2, Pencil, Play, Plus, Terminal, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CircleCheck } from '@/components/ui/circle-check';
+import { HookDialog } from '@/components/hook-dialog';
+import { api } from '@/lib/api';
+import type { Hook, SyncLogEntry } from '@/lib/api';
+import { formatDate } from '@/lib/utils';
+
+/** Hooks run on sync events, with their recent runs */
+export function HooksSettings() {
+  const [hooks, setHooks] = useState<Hook[]>([]);
+  const [events, setEvents] = useState<string[]>([]);
+  const [runs, setRuns] = useState<SyncLogEntry[]>([]);
+  const [editing, setEditing] = useState<Hook | 'new' | null>(null);
+  const [testing, setTesting] = useState<string | null>(null);
+
+  const load = () =>
+    Promise.all([api.hooks.list(), api.hooks.log()])
+      .then(([data, log]) => {
+        setHooks(data.hooks);
+        setEvents(data.events);
+        setRuns(log.entries);
+      })
+      .catch(() => {});
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const handleToggle = async (hook: Hook, enabled: boolean) => {
+    try {
+      await api.hooks.update(hook.id, { ...hook, enabled });
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update hook');
+    }
+  };
+
+  const handleTest = async (hook: Hook) => {
+    setTesting(hook.id);
+    try {
+      const { result } = await api.hooks.test(hook.id);
+      if (result.ok) toast.success(`${hook.name}: ${result.detail}`);
+      else toast.error(`${hook.name}: ${result.detail}`);
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to run hook');
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  const handleDelete = async (hook: Hook) => {
+    try {
+      await api.hooks.delete(hook.id);
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete hook');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <div className="text-sm font-medium">Hooks</div>
+            <p className="text-xs text-muted-foreground">
+              React to sync events on this machine: run a shell command or POST the event to a URL.
+              Hooks are not synced to other machines.
+            </p>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => setEditing('new')}>
+            <Plus className="h-3.5 w-3.5" />
+            New hook
+          </Button>
+        </div>
+        {hooks.length === 0 && <p className="text-sm text-muted-foreground">No hooks yet.</p>}
+        {hooks.map((hook) => (
+          <div key={hook.id} className="flex items-center gap-2 rounded-md border px-2 py-1.5">
+            <CircleCheck
+              checked={hook.enabled}
+              onCheckedChange={(checked) => handleToggle(hook, checked)}
+              aria-label={hook.enabled ? 'Disable' : 'Enable'}
+            />
+            {hook.action === 'command' ? (
+              <Terminal className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+            ) : (
+              <Globe className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+            )}
+            <div className="min-w-0 flex-1">
+              <div className="truncate text-sm">{hook.name}</div>
+              <div className="truncate font-mono text-xs text-muted-foreground">
+                {hook.action === 'command' ? hook.command : hook.url}
+              </div>
+              <div className="truncate text-xs text-muted-foreground">
+                {hook.events.length > 0 ? hook.events.join(', ') : 'All events'}
+                {hook.targetGlob && ` · ${hook.targetGlob}`}
+                {hook.pathGlob && ` · ${hook.pathGlob}`}
+              </div>
+            </div>
+            <Button
+              size="icon-sm"
+              variant="ghost"
+              title="Run now with a sample event"
+              onClick={() => handleTest(hook)}
+              disabled={testing === hook.id}
+            >
+              {testing === hook.id ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Play className="h-3.5 w-3.5" />
+              )}
+            </Button>
+            <Button size="icon-sm" variant="ghost" title="Edit" onClick={() => setEditing(hook)}>
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              size="icon-sm"
+              variant="ghost"
+              aria-label={`Delete ${hook.name}`}
+              onClick={() => handleDelete(hook)}
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {runs.length > 0 && (
+        <div className="space-y-2 border-t pt-4">
+          <div className="text-sm font-medium">Recent runs</div>
+          {runs.map((run) => (
+            <div key={run.id} className="flex items-start gap-2 text-xs">
+              <Badge
+                variant={run.action === 'hook_run' ? 'success' : 'destructive'}
+                className="shrink-0"
+              >
+                {run.action === 'hook_run' ? 'OK' : 'Failed'}
+              </Badge>
+              <span className="min-w-0 flex-1 break-words font-mono">{run.details}</span>
+              <span className="shrink-0 text-muted-foreground">{formatDate(run.createdAt)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <HookDialog
+        open={editing !== null}
+        onOpenChange={(open) => !open && setEditing(null)}
+        hook={editing === 'new' ? undefined : (editing ?? undefined)}
+        events={events}
+        onSaved={load}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CircleCheck } from '@/components/ui/circle-check';
+import { Label } from '@/components/ui/label';
+import { api, type ServiceBundle, type ServiceBundleImportResult } from '@/lib/api';
+import { FileUp, Loader2 } from 'lucide-react';
+
+interface ImportServicesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+const STATUS_BADGES: Record<
+  ServiceBundleImportResult['status'],
+  { label: string; variant: 'success' | 'secondary' | 'outline' }
+> = {
+  linked: { label: 'Linked', variant: 'success' },
+  registered: { label: 'Registered', variant: 'secondary' },
+  skipped: { label: 'Skipped', variant: 'outline' },
+};
+
+/** Import custom service definitions from a bundle file exported on another machine */
+export function ImportServicesDialog({
+  open,
+  onOpenChange,
+  onImported,
+}: ImportServicesDialogProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [bundle, setBundle] = useState<ServiceBundle | null>(null);
+  const [link, setLink] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [results, setResults] = useState<ServiceBundleImportResult[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setFileName(null);
+      setBundle(null);
+      setResults(null);
+      setError(null);
+    }
+    onOpenChange(open);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    setResults(null);
+    setError(null);
+    try {
+      const parsed = JSON.parse(await file.text());
+      setBundle(parsed);
+      if (!Array.isArray(parsed?.services)) setError('This file is not a service bundle');
+    } catch {
+      setBundle(null);
+      setError('This file is not valid JSON');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!bundle) return;
+    setImporting(true);
+    setError(null);
+    try {
+      const data = await api.services.importCustom(bundle, link);
+      setResults(data.results);
+      if (data.results.some((r) => r.status !== 'skipped')) onImported();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import services');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const services = Array.isArray(bundle?.services) ? bundle.services : [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import Services</DialogTitle>
+          <DialogDescription>
+            Add custom service definitions from a bundle someone exported. Services that already
+            exist are skipped.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <FileUp className="h-3.5 w-3.5 mr-1" />
+              Choose File
+            </Button>
+            <span className="text-sm text-muted-foreground truncate">
+              {fileName ?? 'No file chosen'}
+            </span>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </div>
+
+          {results ? (
+            <div className="space-y-2">
+              {results.map((r, i) => (
+                <div key={i} className="flex items-start gap-2 text-sm">
+                  <Badge variant={STATUS_BADGES[r.status].variant} className="shrink-0">
+                    {STATUS_BADGES[r.status].label}
+                  </Badge>
+                  <div className="min-w-0">
+                    <div>{r.name}</div>
+                    {r.reason && <div className="text-xs text-muted-foreground">{r.reason}</div>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            services.length > 0 && (
+              <div className="space-y-1">
+                {services.map((svc, i) => (
+                  <div key={i} className="text-sm">
+                    <span>{svc.name}</span>
+                    {svc.defaultPath && (
+                      <span className="ml-2 font-mono text-xs text-muted-foreground">
+                        {svc.defaultPath}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+
+          {!results && (
+            <div className="flex items-start gap-2">
+              <CircleCheck
+                id="linkImported"
+                checked={link}
+                onCheckedChange={setLink}
+                className="mt-0.5"
+              />
+              <div className="flex flex-col gap-0.5">
+                <Label htmlFor="linkImported">Link default paths on this machine</Label>
+                <p className="text-xs text-muted-foreground">
+                  Start syncing services whose default path exists here. The others are only
+                  registered and show up under Unlinked Services.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          {results ? (
+            <Button onClick={() => handleOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={!bundle || services.length === 0 || importing}
+              >
+                {importing && <Loader2 className="h-3.5 w-3.5 animate-spin mr-1" />}
+                Import
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
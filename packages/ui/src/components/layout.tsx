@@ -12,6 +12,7 @@ import {
   Monitor,
   RotateCcw,
   Settings,
+  Trash2,
   Upload,
 } from 'lucide-react';
 import { useEffect, useRef, useState } from 'react';
@@ -26,6 +27,7 @@ import { useMachine } from '@/hooks/use-machines';
 const navItems = [
   { to: '/', label: 'Dashboard', icon: Database },
   { to: '/templates', label: 'Templates', icon: FileText },
+  { to: '/trash', label: 'Trash', icon: Trash2 },
   { to: '/settings', label: 'Settings', icon: Settings },
 ];
 
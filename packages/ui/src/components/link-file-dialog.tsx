@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react';
+import { Link2, Link2Off, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { CircleCheck } from '@/components/ui/circle-check';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SyncStatusBadge } from '@/components/sync-status-badge';
+import { useRepos } from '@/hooks/use-repos';
+import { api, type SharedFile } from '@/lib/api';
+
+interface LinkFileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  repoId: string;
+  filePath: string;
+  /** Shared file the file is currently linked to */
+  sharedPath: string | null;
+  onChanged: () => void;
+}
+
+/** Link a repo file to a shared store file (and optionally other repos), or unlink it */
+export function LinkFileDialog({
+  open,
+  onOpenChange,
+  repoId,
+  filePath,
+  sharedPath,
+  onChanged,
+}: LinkFileDialogProps) {
+  const { repos } = useRepos();
+  const [sharedFiles, setSharedFiles] = useState<SharedFile[]>([]);
+  const [path, setPath] = useState(filePath);
+  const [selectedRepoIds, setSelectedRepoIds] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setPath(sharedPath ?? filePath.split('/').pop() ?? filePath);
+    setSelectedRepoIds(new Set());
+    api.shared
+      .list()
+      .then((data) => setSharedFiles(data.files))
+      .catch(() => setSharedFiles([]));
+  }, [open, filePath, sharedPath]);
+
+  const current = sharedFiles.find((f) => f.path === (sharedPath ?? path.trim()));
+  const otherLinks = (current?.links ?? []).filter(
+    (l) => l.repoId !== repoId || l.relativePath !== filePath,
+  );
+  const linkableRepos = repos.filter(
+    (r) =>
+      r.id !== repoId && !otherLinks.some((l) => l.repoId === r.id && l.relativePath === filePath),
+  );
+
+  const toggleRepo = (id: string) =>
+    setSelectedRepoIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const handleLink = async () => {
+    setSaving(true);
+    try {
+      const linkedPath =
+        sharedPath ?? (await api.repos.linkFile(repoId, filePath, path.trim())).sharedPath;
+      for (const id of selectedRepoIds) {
+        await api.repos.linkFile(id, filePath, linkedPath);
+      }
+      toast.success(
+        selectedRepoIds.size > 0
+          ? `Linked to ${linkedPath} in ${selectedRepoIds.size} more repositories`
+          : `Linked to ${linkedPath}`,
+      );
+      onChanged();
+      onOpenChange(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to link file');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUnlink = async () => {
+    setSaving(true);
+    try {
+      await api.repos.unlinkFile(repoId, filePath);
+      toast.success('File unlinked');
+      onChanged();
+      onOpenChange(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to unlink file');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{sharedPath ? 'Linked file' : 'Link to shared file'}</DialogTitle>
+          <DialogDescription>
+            {sharedPath ? (
+              <>
+                <span className="font-mono">{filePath}</span> is a live copy of{' '}
+                <span className="font-mono">shared/{sharedPath}</span>. Edits in any linked
+                repository are synced to all of them.
+              </>
+            ) : (
+              <>
+                Keep <span className="font-mono">{filePath}</span> in sync with a shared file in the
+                store. A new shared file starts from this copy; linking to an existing one replaces
+                this copy with it.
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!sharedPath && (
+            <div className="space-y-1.5">
+              <Label htmlFor="shared-path">Shared file</Label>
+              <Input
+                id="shared-path"
+                value={path}
+                onChange={(e) => setPath(e.target.value)}
+                placeholder="rules/typescript.mdc"
+                className="font-mono"
+                list="shared-files"
+              />
+              <datalist id="shared-files">
+                {sharedFiles.map((f) => (
+                  <option key={f.path} value={f.path} />
+                ))}
+              </datalist>
+            </div>
+          )}
+
+          {otherLinks.length > 0 && (
+            <div className="space-y-1.5">
+              <Label>Also linked in</Label>
+              <div className="space-y-1">
+                {otherLinks.map((link) => (
+                  <div
+                    key={`${link.repoId}:${link.relativePath}`}
+                    className="flex items-center justify-between gap-2 text-sm"
+                  >
+                    <span className="truncate">
+                      {link.repoName}{' '}
+                      <span className="font-mono text-xs text-muted-foreground">
+                        {link.relativePath}
+                      </span>
+                    </span>
+                    {link.syncStatus && <SyncStatusBadge status={link.syncStatus} size="sm" />}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {linkableRepos.length > 0 && (
+            <div className="space-y-1.5">
+              <Label>{sharedPath ? 'Link in other repositories' : 'Also link in'}</Label>
+              <div className="max-h-48 overflow-y-auto rounded-md border border-border divide-y divide-border">
+                {linkableRepos.map((repo) => (
+                  <button
+                    key={repo.id}
+                    onClick={() => toggleRepo(repo.id)}
+                    className="flex w-full items-center gap-3 px-3 py-2 text-sm hover:bg-accent transition-colors text-left"
+                  >
+                    <CircleCheck
+                      checked={selectedRepoIds.has(repo.id)}
+                      className="pointer-events-none"
+                    />
+                    <span className="font-medium truncate">{repo.name}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {sharedPath && (
+            <Button variant="outline" onClick={handleUnlink} disabled={saving} className="mr-auto">
+              <Link2Off className="h-3.5 w-3.5" />
+              Unlink
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleLink}
+            disabled={saving || !path.trim() || (!!sharedPath && selectedRepoIds.size === 0)}
+          >
+            {saving ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <Link2 className="h-3.5 w-3.5" />
+            )}
+            Link
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,8 +11,9 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { FolderBrowser } from '@/components/folder-browser';
+import { TemplatePicker } from '@/components/template-picker';
 import { api } from '@/lib/api';
-import type { UnlinkedStoreRepo } from '@/lib/api';
+import type { TemplateInfo, UnlinkedStoreRepo } from '@/lib/api';
 import { FolderOpen, CheckCircle, AlertCircle, Monitor } from 'lucide-react';
 
 interface LinkRepoDialogProps {
@@ -28,12 +29,19 @@ export function LinkRepoDialog({ open, onOpenChange, onLinked, repo }: LinkRepoD
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [browsing, setBrowsing] = useState(false);
+  const [templates, setTemplates] = useState<TemplateInfo[]>([]);
+  const [template, setTemplate] = useState<string | null>(null);
 
   useEffect(() => {
     if (open) {
       setLocalPath(repo.suggestedPath || '');
       setName(repo.storeName);
+      setTemplate(null);
       setError(null);
+      api.templates
+        .list()
+        .then((data) => setTemplates(data.templates))
+        .catch(() => setTemplates([]));
     }
   }, [open, repo]);
 
@@ -47,6 +55,7 @@ export function LinkRepoDialog({ open, onOpenChange, onLinked, repo }: LinkRepoD
         storePath: repo.storePath,
         localPath: localPath.trim(),
         name: name.trim() || undefined,
+        template: template ?? undefined,
       });
       onOpenChange(false);
       onLinked();
@@ -127,6 +136,22 @@ export function LinkRepoDialog({ open, onOpenChange, onLinked, repo }: LinkRepoD
               <Input id="linkName" value={name} onChange={(e) => setName(e.target.value)} />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="linkTemplate">Template</Label>
+              <div>
+                <TemplatePicker
+                  id="linkTemplate"
+                  templates={templates}
+                  value={template}
+                  onChange={setTemplate}
+                  noneLabel="No template"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Adds template files the store repository doesn't have yet.
+              </p>
+            </div>
+
             {repo.otherMachines.length > 0 && (
               <div className="space-y-1.5">
                 <Label className="text-muted-foreground text-xs">Linked on other machines</Label>
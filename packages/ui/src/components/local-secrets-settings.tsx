@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { KeyRound, Loader2, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { api } from '@/lib/api';
+
+const NAME_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function LocalSecretsSettings() {
+  const [names, setNames] = useState<string[]>([]);
+  const [filePath, setFilePath] = useState('');
+  const [name, setName] = useState('');
+  const [value, setValue] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const load = () =>
+    api.secrets
+      .local()
+      .then((data) => {
+        setNames(data.names);
+        setFilePath(data.path);
+      })
+      .catch(() => {});
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const nameValid = NAME_RE.test(name);
+
+  const handleSave = async () => {
+    if (!nameValid || !value) return;
+    setSaving(true);
+    try {
+      await api.secrets.setLocal(name, value);
+      toast.success(`Saved \${secret:${name}}`);
+      setName('');
+      setValue('');
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save secret');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (secretName: string) => {
+    try {
+      await api.secrets.deleteLocal(secretName);
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete secret');
+    }
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div>
+        <div className="text-sm font-medium">Local secrets</div>
+        <p className="text-xs text-muted-foreground">
+          Values for <code>{'${secret:NAME}'}</code> placeholders, filled in when files are written
+          to this machine&apos;s repos and services. Stored in{' '}
+          <code className="font-mono">{filePath || '~/.ai-sync/secrets.json'}</code>, never in the
+          store.
+        </p>
+      </div>
+      {names.length > 0 && (
+        <div className="space-y-1">
+          {names.map((n) => (
+            <div key={n} className="flex items-center gap-2 text-sm">
+              <KeyRound className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+              <code className="flex-1 truncate font-mono text-xs">{n}</code>
+              <Button
+                size="icon-sm"
+                variant="ghost"
+                aria-label={`Remove ${n}`}
+                onClick={() => handleDelete(n)}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="GITHUB_TOKEN"
+          className="h-8 w-40 font-mono text-sm"
+        />
+        <Input
+          type="password"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Value"
+          className="h-8 flex-1 text-sm"
+          autoComplete="off"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleSave}
+          disabled={saving || !nameValid || !value}
+        >
+          {saving ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          ) : (
+            <Plus className="h-3.5 w-3.5" />
+          )}
+          {names.includes(name) ? 'Update' : 'Add'}
+        </Button>
+      </div>
+      {name && !nameValid && (
+        <p className="text-xs text-destructive">
+          Use letters, digits and underscores, not starting with a digit
+        </p>
+      )}
+    </div>
+  );
+}
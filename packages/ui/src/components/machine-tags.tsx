@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { MonitorOff, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+
+/** Same rule as the server: lowercase letters, digits, ".", "_" and "-" */
+const TAG_RE = /^[a-z0-9][\w.-]*$/;
+
+interface MachineTagsInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+/** Tags as removable badges; typing a name and pressing Enter or comma adds it */
+export function MachineTagsInput({
+  id,
+  value,
+  onChange,
+  placeholder = 'Add a tag, e.g. work',
+  disabled,
+}: MachineTagsInputProps) {
+  const [draft, setDraft] = useState('');
+  const name = draft.trim().toLowerCase();
+  const invalid = name !== '' && !TAG_RE.test(name);
+
+  const add = () => {
+    if (!name || invalid) return;
+    if (!value.includes(name)) onChange([...value, name].sort());
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+              {tag}
+              <button
+                type="button"
+                aria-label={`Remove tag ${tag}`}
+                disabled={disabled}
+                onClick={() => onChange(value.filter((t) => t !== tag))}
+                className="text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        id={id}
+        value={draft}
+        disabled={disabled}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            add();
+          }
+        }}
+        onBlur={add}
+        placeholder={placeholder}
+        aria-invalid={invalid}
+        className="h-8 text-sm"
+      />
+      {invalid && (
+        <p className="text-xs text-destructive">
+          Use letters, digits, &quot;.&quot;, &quot;_&quot; or &quot;-&quot;
+        </p>
+      )}
+    </div>
+  );
+}
+
+/** Marks a repo or service whose machine groups leave this machine out */
+export function OtherMachinesBadge({ carriedHere }: { carriedHere?: boolean }) {
+  if (carriedHere !== false) return null;
+  return (
+    <Badge
+      variant="warning"
+      className="text-[10px] px-1.5 py-0 gap-1"
+      title="Meant for machine groups this machine isn't in"
+    >
+      <MonitorOff className="h-3 w-3" />
+      Other machines
+    </Badge>
+  );
+}
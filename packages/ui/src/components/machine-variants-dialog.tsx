@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Laptop, Loader2, Share2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { api, type MachineVariant, type MachineVariantKind } from '@/lib/api';
+
+interface MachineVariantsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  type: 'repo' | 'service';
+  targetId: string;
+  filePath: string;
+  onChanged: () => void;
+}
+
+const KIND_LABELS: Record<MachineVariantKind, string> = {
+  file: 'Own copy',
+  overlay: 'JSON overlay',
+};
+
+/** Per-machine variants of one file: which machine differs how, and turning one into the shared file */
+export function MachineVariantsDialog({
+  open,
+  onOpenChange,
+  type,
+  targetId,
+  filePath,
+  onChanged,
+}: MachineVariantsDialogProps) {
+  const variantsApi = type === 'repo' ? api.repos : api.services;
+  const [variants, setVariants] = useState<MachineVariant[] | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const load = useCallback(
+    () =>
+      variantsApi
+        .variants(targetId)
+        .then((data) => setVariants(data.variants.filter((v) => v.relativePath === filePath)))
+        .catch((err) =>
+          toast.error(err instanceof Error ? err.message : 'Failed to load machine variants'),
+        ),
+    [variantsApi, targetId, filePath],
+  );
+
+  useEffect(() => {
+    if (!open) return;
+    setVariants(null);
+    load();
+  }, [open, load]);
+
+  const run = async (key: string, action: () => Promise<unknown>, success: string) => {
+    setBusy(key);
+    try {
+      await action();
+      toast.success(success);
+      await load();
+      onChanged();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Machine variant action failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const hasOwn = variants?.some((v) => v.thisMachine) ?? false;
+  const isJson = filePath.toLowerCase().endsWith('.json');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Machine Variants</DialogTitle>
+          <DialogDescription>
+            Let <code>{filePath}</code> differ on some machines: a machine either keeps its own
+            copy, or overlays a few JSON keys on the shared file. Every other machine uses the
+            shared file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {!variants ? (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          ) : variants.length === 0 ? (
+            <p className="text-sm text-muted-foreground">All machines use the shared file.</p>
+          ) : (
+            <div className="space-y-1.5">
+              {variants.map((variant) => (
+                <div
+                  key={`${variant.machineId}:${variant.kind}`}
+                  className="flex items-center gap-2 rounded-md border px-2 py-1.5"
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-sm">{variant.machineName}</div>
+                    <div className="text-xs text-muted-foreground">{KIND_LABELS[variant.kind]}</div>
+                  </div>
+                  {variant.thisMachine && <Badge variant="success">This machine</Badge>}
+                  <Button
+                    size="xs"
+                    variant="outline"
+                    disabled={busy !== null}
+                    onClick={() =>
+                      run(
+                        `promote:${variant.machineId}`,
+                        () => variantsApi.promoteVariant(targetId, filePath, variant.machineId),
+                        `${variant.machineName}'s version is now shared`,
+                      )
+                    }
+                  >
+                    {busy === `promote:${variant.machineId}` ? (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    ) : (
+                      <Share2 className="h-3 w-3" />
+                    )}
+                    Promote to shared
+                  </Button>
+                  <Button
+                    size="icon-sm"
+                    variant="ghost"
+                    aria-label={`Remove the variant of ${variant.machineName}`}
+                    disabled={busy !== null}
+                    onClick={() =>
+                      run(
+                        `remove:${variant.machineId}`,
+                        () => variantsApi.removeVariant(targetId, filePath, variant.machineId),
+                        `${variant.machineName} uses the shared file again`,
+                      )
+                    }
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {variants && !hasOwn && (
+            <div className="flex gap-2">
+              {(['file', 'overlay'] as const)
+                .filter((kind) => kind === 'file' || isJson)
+                .map((kind) => (
+                  <Button
+                    key={kind}
+                    variant="outline"
+                    disabled={busy !== null}
+                    onClick={() =>
+                      run(
+                        kind,
+                        () => variantsApi.createVariant(targetId, filePath, kind),
+                        kind === 'file'
+                          ? 'This machine now keeps its own copy'
+                          : 'This machine now has an overlay',
+                      )
+                    }
+                  >
+                    {busy === kind ? (
+                      <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                    ) : (
+                      <Laptop className="h-3.5 w-3.5" />
+                    )}
+                    {kind === 'file' ? 'Own copy here' : 'Overlay here'}
+                  </Button>
+                ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
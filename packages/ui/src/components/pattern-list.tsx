@@ -4,11 +4,12 @@ import { CircleCheck } from '@/components/ui/circle-check';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { Plus, Search, X } from 'lucide-react';
+import { Lock, LockOpen, Plus, Search, X } from 'lucide-react';
 
 export interface PatternItem {
   pattern: string;
   enabled: boolean;
+  encrypt?: boolean;
   source?: 'global' | 'local' | 'default' | 'custom' | 'user';
 }
 
@@ -16,6 +17,8 @@ interface PatternListProps {
   patterns: PatternItem[];
   onToggle: (index: number) => void;
   onRemove: (index: number) => void;
+  /** Shows a lock toggle per pattern when set */
+  onToggleEncrypt?: (index: number) => void;
   newPattern: string;
   onNewPatternChange: (value: string) => void;
   onAdd: () => void;
@@ -26,6 +29,7 @@ export function PatternList({
   patterns,
   onToggle,
   onRemove,
+  onToggleEncrypt,
   newPattern,
   onNewPatternChange,
   onAdd,
@@ -120,6 +124,32 @@ export function PatternList({
                 />
                 {p.source && <SourceBadge source={p.source} />}
                 <span className="flex-1 font-mono text-xs">{p.pattern}</span>
+                {onToggleEncrypt && (
+                  <TooltipProvider delayDuration={300}>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <button
+                          className={`h-5 w-5 inline-flex items-center justify-center rounded-sm hover:text-foreground ${
+                            p.encrypt
+                              ? 'text-foreground'
+                              : 'opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground'
+                          }`}
+                          aria-label={p.encrypt ? 'Stop encrypting' : 'Encrypt in store'}
+                          onClick={() => onToggleEncrypt(p.originalIndex)}
+                        >
+                          {p.encrypt ? (
+                            <Lock className="h-3 w-3" />
+                          ) : (
+                            <LockOpen className="h-3 w-3" />
+                          )}
+                        </button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        {p.encrypt ? 'Encrypted in store' : 'Encrypt in store'}
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                )}
                 {canRemove && (
                   <TooltipProvider delayDuration={300}>
                     <Tooltip>
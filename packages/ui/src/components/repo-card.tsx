@@ -1,6 +1,8 @@
 import { FolderGit2, Star } from 'lucide-react';
 import { SyncItemCard } from './sync-item-card';
 import { RepoSettingsDialog } from './repo-settings-dialog';
+import { SyncDirectionBadge } from './sync-direction-picker';
+import { OtherMachinesBadge } from './machine-tags';
 import { api } from '@/lib/api';
 import { type SizeThresholds, DEFAULT_SIZE_THRESHOLDS } from '@/lib/utils';
 import type { RepoSummary } from '@/hooks/use-repos';
@@ -50,6 +52,8 @@ export function RepoCard({
               className={`h-3.5 w-3.5 ${repo.isFavorite ? 'fill-yellow-500 text-yellow-500' : ''}`}
             />
           </button>
+          <OtherMachinesBadge carriedHere={repo.carriedHere} />
+          <SyncDirectionBadge direction={repo.syncDirection} />
           {statusBadge}
         </div>
       )}
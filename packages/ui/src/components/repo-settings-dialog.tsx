@@ -23,6 +23,10 @@ import { Eraser, Save, Loader2, ShieldCheck } from 'lucide-react';
 import { PatternList } from '@/components/pattern-list';
 import { ConfirmDialog } from '@/components/confirm-dialog';
 import { SettingRow, CheckboxSettingRow } from '@/components/setting-rows';
+import { MachineTagsInput } from '@/components/machine-tags';
+import { Label } from '@/components/ui/label';
+import { SyncDirectionPicker } from '@/components/sync-direction-picker';
+import type { SyncDirection } from '@/hooks/use-repos';
 import { toast } from 'sonner';
 
 interface RepoSettingsDialogProps {
@@ -45,6 +49,9 @@ export function RepoSettingsDialog({
   const [settings, setSettings] = useState<Record<string, SettingsEntry>>({});
   const [filePatterns, setFilePatterns] = useState<RepoPatternEntry[]>([]);
   const [ignorePatterns, setIgnorePatterns] = useState<RepoPatternEntry[]>([]);
+  const [syncDirection, setSyncDirection] = useState<SyncDirection>('bidirectional');
+  const [pathTokens, setPathTokens] = useState(false);
+  const [machineTags, setMachineTags] = useState<string[]>([]);
   const [newFilePattern, setNewFilePattern] = useState('');
   const [newIgnorePattern, setNewIgnorePattern] = useState('');
   const [activeTab, setActiveTab] = useState('general');
@@ -57,6 +64,9 @@ export function RepoSettingsDialog({
   const savedSettings = useRef('');
   const savedFilePatterns = useRef('');
   const savedIgnorePatterns = useRef('');
+  const savedSyncDirection = useRef<SyncDirection>('bidirectional');
+  const savedPathTokens = useRef(false);
+  const savedMachineTags = useRef('');
 
   const stripPatterns = (ps: RepoPatternEntry[]) =>
     ps.map(({ pattern, enabled, source }) => ({ pattern, enabled, source }));
@@ -65,16 +75,25 @@ export function RepoSettingsDialog({
     s: Record<string, SettingsEntry>,
     fp: RepoPatternEntry[],
     ip: RepoPatternEntry[],
+    direction: SyncDirection,
+    tokens: boolean,
+    tags: string[],
   ) => {
     savedSettings.current = JSON.stringify(s);
     savedFilePatterns.current = JSON.stringify(stripPatterns(fp));
     savedIgnorePatterns.current = JSON.stringify(stripPatterns(ip));
+    savedSyncDirection.current = direction;
+    savedPathTokens.current = tokens;
+    savedMachineTags.current = JSON.stringify(tags);
   };
 
   const hasChanges =
     JSON.stringify(settings) !== savedSettings.current ||
     JSON.stringify(stripPatterns(filePatterns)) !== savedFilePatterns.current ||
-    JSON.stringify(stripPatterns(ignorePatterns)) !== savedIgnorePatterns.current;
+    JSON.stringify(stripPatterns(ignorePatterns)) !== savedIgnorePatterns.current ||
+    syncDirection !== savedSyncDirection.current ||
+    pathTokens !== savedPathTokens.current ||
+    JSON.stringify(machineTags) !== savedMachineTags.current;
 
   const fetchSettings = useCallback(async () => {
     setLoading(true);
@@ -87,7 +106,17 @@ export function RepoSettingsDialog({
       setSettings(data.settings);
       setFilePatterns(data.filePatterns);
       setIgnorePatterns(data.ignorePatterns);
-      snapshotAll(data.settings, data.filePatterns, data.ignorePatterns);
+      setSyncDirection(data.syncDirection);
+      setPathTokens(data.pathTokens);
+      setMachineTags(data.machineTags);
+      snapshotAll(
+        data.settings,
+        data.filePatterns,
+        data.ignorePatterns,
+        data.syncDirection,
+        data.pathTokens,
+        data.machineTags,
+      );
     } catch (err) {
       toast.error(err instanceof Error ? err.message : 'Failed to load settings');
     } finally {
@@ -114,8 +143,11 @@ export function RepoSettingsDialog({
         settings: settingsPayload,
         filePatterns,
         ignorePatterns,
+        syncDirection,
+        pathTokens,
+        machineTags,
       });
-      snapshotAll(settings, filePatterns, ignorePatterns);
+      snapshotAll(settings, filePatterns, ignorePatterns, syncDirection, pathTokens, machineTags);
       toast.success('Repository settings saved');
       setShowApplyAfterSave(true);
     } catch (err) {
@@ -337,6 +369,41 @@ export function RepoSettingsDialog({
                         onReset={() => resetSetting('auto_commit_store')}
                       />
                     </div>
+
+                    <div className="space-y-3">
+                      <div className="text-sm font-medium">Sync direction</div>
+                      <SyncDirectionPicker value={syncDirection} onChange={setSyncDirection} />
+                    </div>
+
+                    <div className="space-y-1.5">
+                      <CheckboxSettingRow
+                        label="Rewrite paths as tokens"
+                        settingKey="path_tokens"
+                        checked={pathTokens}
+                        onCheckedChange={setPathTokens}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Stores the home directory and repo paths as <code>{'${HOME}'}</code> or{' '}
+                        <code>{'${repo:name}'}</code>, and writes each machine&apos;s own paths
+                        back.
+                      </p>
+                    </div>
+
+                    <div className="space-y-1.5">
+                      <Label htmlFor="machine-tags" className="text-sm font-medium">
+                        Machine groups
+                      </Label>
+                      <MachineTagsInput
+                        id="machine-tags"
+                        value={machineTags}
+                        onChange={setMachineTags}
+                        placeholder="Every machine"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Only machines with one of these tags link this repository automatically or
+                        list it as unlinked. Leave empty for every machine.
+                      </p>
+                    </div>
                   </div>
                 </TabsContent>
 
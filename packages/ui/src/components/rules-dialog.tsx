@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { CircleCheck } from '@/components/ui/circle-check';
+import { Label } from '@/components/ui/label';
+import { api, type CanonicalRules } from '@/lib/api';
+
+interface RulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  repoId: string;
+  onChanged: () => void;
+}
+
+/** Edit a repo's canonical rules and choose the tools they are rendered for */
+export function RulesDialog({ open, onOpenChange, repoId, onChanged }: RulesDialogProps) {
+  const [rules, setRules] = useState<CanonicalRules | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [enabled, setEnabled] = useState<Set<string>>(new Set());
+  const [content, setContent] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setRules(null);
+    setError(null);
+    api.repos
+      .rules(repoId)
+      .then((data) => {
+        setRules(data);
+        setEnabled(new Set(data.tools.filter((t) => t.enabled).map((t) => t.id)));
+        setContent(data.content ?? '');
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load rules'));
+  }, [open, repoId]);
+
+  const toggleTool = (id: string) =>
+    setEnabled((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const handleSave = async () => {
+    if (!rules) return;
+    setSaving(true);
+    try {
+      const tools = rules.tools.filter((t) => enabled.has(t.id)).map((t) => t.id);
+      // Before the first save there is no canonical source: it starts from an existing file
+      const changed = rules.content !== null && content !== rules.content;
+      await api.repos.updateRules(repoId, tools, changed ? content : undefined);
+      toast.success(tools.length > 0 ? `Rules rendered for ${tools.length} tool(s)` : 'Rules off');
+      onChanged();
+      onOpenChange(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save rules');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Canonical rules</DialogTitle>
+          <DialogDescription>
+            One source of instructions, rendered into each selected tool's file. Edits made in any
+            of those files are folded back into it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {!rules && !error && <Loader2 className="mx-auto h-4 w-4 animate-spin" />}
+        {rules && (
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <Label>Render for</Label>
+              <div className="max-h-56 overflow-y-auto rounded-md border border-border divide-y divide-border">
+                {rules.tools.map((tool) => (
+                  <button
+                    key={tool.id}
+                    onClick={() => toggleTool(tool.id)}
+                    className="flex w-full items-center gap-3 px-3 py-2 text-sm hover:bg-accent transition-colors text-left"
+                  >
+                    <CircleCheck checked={enabled.has(tool.id)} className="pointer-events-none" />
+                    <span className="font-medium">{tool.label}</span>
+                    <span className="ml-auto truncate font-mono text-xs text-muted-foreground">
+                      {tool.path}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {rules.content === null ? (
+              <p className="text-sm text-muted-foreground">
+                The rules start from the first selected file this repository already has. The other
+                selected files are replaced by it; their old content stays in history.
+              </p>
+            ) : (
+              <div className="space-y-1.5">
+                <Label htmlFor="rules-content">Rules</Label>
+                <textarea
+                  id="rules-content"
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  spellCheck={false}
+                  className="h-64 w-full resize-y rounded-md border border-input bg-transparent px-3 py-2 font-mono text-xs shadow-xs outline-none focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50 dark:bg-input/30"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Optional frontmatter (<span className="font-mono">description</span>,{' '}
+                  <span className="font-mono">globs</span>,{' '}
+                  <span className="font-mono">alwaysApply</span>) only goes into Cursor's{' '}
+                  <span className="font-mono">.mdc</span> file.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !rules}>
+            {saving && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,48 @@
+import { ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { SecretFinding } from '@/lib/api';
+
+interface SecretFindingsBannerProps {
+  findings: SecretFinding[];
+  onAllow: (finding: SecretFinding) => void;
+}
+
+const ACTION_TEXT: Record<SecretFinding['action'], string> = {
+  blocked: 'Sync to the store is blocked until these are removed or allowed.',
+  redacted: 'These values were replaced with placeholders in the store.',
+  warned: 'These values were copied to the store as-is.',
+};
+
+export function SecretFindingsBanner({ findings, onAllow }: SecretFindingsBannerProps) {
+  if (findings.length === 0) return null;
+  const blocked = findings.some((f) => f.action === 'blocked');
+  const action = blocked ? 'blocked' : findings[0].action;
+
+  return (
+    <div
+      className={cn(
+        'flex flex-col gap-1.5 border-b px-3 py-2 text-xs',
+        blocked ? 'bg-destructive/10' : 'bg-yellow-500/10',
+      )}
+    >
+      <div className="flex items-center gap-1.5 font-medium">
+        <ShieldAlert className={cn('size-4', blocked ? 'text-destructive' : 'text-yellow-600')} />
+        {findings.length} possible secret{findings.length === 1 ? '' : 's'} found.{' '}
+        {ACTION_TEXT[action]}
+      </div>
+      <ul className="flex flex-col gap-1">
+        {findings.map((f) => (
+          <li key={f.id} className="flex items-center gap-2">
+            <span className="text-muted-foreground">Line {f.line}</span>
+            <span>{f.ruleName}</span>
+            <code className="rounded bg-muted px-1 font-mono">{f.preview}</code>
+            <Button size="xs" variant="ghost" className="ml-auto" onClick={() => onAllow(f)}>
+              Not a secret
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
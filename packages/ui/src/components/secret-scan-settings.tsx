@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { SecretScanMode } from '@/lib/api';
+
+interface SecretScanSettingsProps {
+  settings: Record<string, string>;
+  onChange: (patch: Record<string, string>) => void;
+}
+
+interface CustomRule {
+  name: string;
+  pattern: string;
+}
+
+const MODES: { value: SecretScanMode; label: string; description: string }[] = [
+  { value: 'off', label: 'Off', description: 'Files are copied into the store without scanning.' },
+  {
+    value: 'warn',
+    label: 'Warn',
+    description: 'Files are copied as-is; findings are shown on the file and in the sync log.',
+  },
+  {
+    value: 'redact',
+    label: 'Redact',
+    description:
+      'Secrets are replaced with [REDACTED:rule] placeholders in the store. The target keeps the real values.',
+  },
+  {
+    value: 'block',
+    label: 'Block',
+    description:
+      'Files with secrets are not copied into the store and are flagged until the secret is removed or allowed.',
+  },
+];
+
+function parseRules(value: string | undefined): CustomRule[] {
+  try {
+    const parsed = JSON.parse(value || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function SecretScanSettings({ settings, onChange }: SecretScanSettingsProps) {
+  const mode = (settings.secret_scan_mode || 'off') as SecretScanMode;
+  const rules = parseRules(settings.secret_custom_rules);
+  const [name, setName] = useState('');
+  const [pattern, setPattern] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const setRules = (next: CustomRule[]) => onChange({ secret_custom_rules: JSON.stringify(next) });
+
+  const handleAdd = () => {
+    const trimmed = name.trim();
+    if (!trimmed || !pattern) return;
+    if (rules.some((r) => r.name === trimmed)) {
+      setError(`A rule named "${trimmed}" already exists`);
+      return;
+    }
+    try {
+      new RegExp(pattern);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid pattern');
+      return;
+    }
+    setRules([...rules, { name: trimmed, pattern }]);
+    setName('');
+    setPattern('');
+    setError(null);
+  };
+
+  return (
+    <div className="py-4 border-t space-y-3">
+      <p className="text-sm">Secret scanning for files copied from targets into the store.</p>
+      <div className="flex gap-1">
+        {MODES.map((m) => (
+          <Button
+            key={m.value}
+            size="xs"
+            variant={mode === m.value ? 'default' : 'outline'}
+            onClick={() => onChange({ secret_scan_mode: m.value })}
+          >
+            {m.label}
+          </Button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {MODES.find((m) => m.value === mode)?.description}
+      </p>
+
+      <div className="space-y-1.5">
+        <div className="text-xs font-medium">Custom rules</div>
+        {rules.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            Built-in rules cover common API keys, tokens and private keys. Add a regex for anything
+            else; use a named group <code>(?&lt;secret&gt;...)</code> to redact only part of a
+            match.
+          </p>
+        )}
+        {rules.map((rule, i) => (
+          <div key={rule.name} className="flex items-center gap-2 text-xs">
+            <span className="w-28 truncate font-medium">{rule.name}</span>
+            <code className="flex-1 truncate rounded bg-muted px-1 font-mono">{rule.pattern}</code>
+            <Button
+              size="icon-sm"
+              variant="ghost"
+              aria-label={`Remove ${rule.name}`}
+              onClick={() => setRules(rules.filter((_, j) => j !== i))}
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name"
+            className="h-8 w-28 text-sm"
+          />
+          <Input
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="Regex, e.g. corp_[A-Za-z0-9]{32}"
+            className="h-8 flex-1 font-mono text-sm"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleAdd}
+            disabled={!name.trim() || !pattern}
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Add
+          </Button>
+        </div>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+    </div>
+  );
+}
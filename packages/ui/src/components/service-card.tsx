@@ -1,6 +1,8 @@
 import { SyncItemCard } from './sync-item-card';
 import { ServiceSettingsDialog } from './service-settings-dialog';
 import { ServiceIcon } from './service-icon';
+import { SyncDirectionBadge } from './sync-direction-picker';
+import { OtherMachinesBadge } from './machine-tags';
 import { Badge } from '@/components/ui/badge';
 import { api, type ServiceSummary } from '@/lib/api';
 import { type SizeThresholds, DEFAULT_SIZE_THRESHOLDS } from '@/lib/utils';
@@ -44,6 +46,8 @@ export function ServiceCard({
       renderHeaderRight={(statusBadge) => (
         <div className="flex items-center gap-2 shrink-0">
           {service.serviceType.startsWith('custom-') && <Badge variant="secondary">Custom</Badge>}
+          <OtherMachinesBadge carriedHere={service.carriedHere} />
+          <SyncDirectionBadge direction={service.syncDirection} />
           {statusBadge}
         </div>
       )}
@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Check, Loader2, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { api, type ServiceProfile } from '@/lib/api';
+
+interface ServiceProfilesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  serviceId: string;
+  serviceName: string;
+  onChanged: () => void;
+}
+
+const PROFILE_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/** Pick which named variant of a service's files is materialized in its folder */
+export function ServiceProfilesDialog({
+  open,
+  onOpenChange,
+  serviceId,
+  serviceName,
+  onChanged,
+}: ServiceProfilesDialogProps) {
+  const [profiles, setProfiles] = useState<ServiceProfile[] | null>(null);
+  const [newName, setNewName] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const load = useCallback(
+    () =>
+      api.services
+        .profiles(serviceId)
+        .then((data) => setProfiles(data.profiles))
+        .catch((err) =>
+          toast.error(err instanceof Error ? err.message : 'Failed to load profiles'),
+        ),
+    [serviceId],
+  );
+
+  useEffect(() => {
+    if (!open) return;
+    setProfiles(null);
+    setNewName('');
+    load();
+  }, [open, load]);
+
+  const run = async (key: string, action: () => Promise<unknown>, success: string) => {
+    setBusy(key);
+    try {
+      await action();
+      toast.success(success);
+      await load();
+      onChanged();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Profile action failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCreate = () =>
+    run(
+      'new',
+      async () => {
+        await api.services.createProfile(serviceId, newName);
+        setNewName('');
+      },
+      `Saved the current files as "${newName}"`,
+    );
+
+  const validName = PROFILE_PATTERN.test(newName);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{serviceName} Profiles</DialogTitle>
+          <DialogDescription>
+            Keep several variants of this service&apos;s files and choose the one written to its
+            folder. Switching saves the current files back into the active profile first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {!profiles ? (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          ) : (
+            <div className="space-y-1.5">
+              {profiles.map((profile) => (
+                <div
+                  key={profile.name}
+                  className="flex items-center gap-2 rounded-md border px-2 py-1.5"
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-sm">{profile.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {profile.fileCount} file{profile.fileCount === 1 ? '' : 's'}
+                    </div>
+                  </div>
+                  {profile.active ? (
+                    <Badge variant="success">Active</Badge>
+                  ) : (
+                    <>
+                      <Button
+                        size="xs"
+                        variant="outline"
+                        disabled={busy !== null}
+                        onClick={() =>
+                          run(
+                            profile.name,
+                            () => api.services.switchProfile(serviceId, profile.name),
+                            `Switched to "${profile.name}"`,
+                          )
+                        }
+                      >
+                        {busy === profile.name ? (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        ) : (
+                          <Check className="h-3 w-3" />
+                        )}
+                        Switch
+                      </Button>
+                      <Button
+                        size="icon-sm"
+                        variant="ghost"
+                        aria-label={`Delete ${profile.name}`}
+                        disabled={busy !== null}
+                        onClick={() =>
+                          run(
+                            `delete:${profile.name}`,
+                            () => api.services.deleteProfile(serviceId, profile.name),
+                            `Deleted "${profile.name}"`,
+                          )
+                        }
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <div className="flex gap-2">
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value.toLowerCase())}
+                placeholder="New profile, e.g. full-mcp"
+                onKeyDown={(e) => e.key === 'Enter' && validName && !busy && handleCreate()}
+              />
+              <Button
+                variant="outline"
+                onClick={handleCreate}
+                disabled={!validName || busy !== null}
+              >
+                {busy === 'new' ? (
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <Plus className="h-3.5 w-3.5" />
+                )}
+                Save current
+              </Button>
+            </div>
+            {newName && !validName && (
+              <p className="text-xs text-destructive">Use lowercase letters, digits and dashes.</p>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
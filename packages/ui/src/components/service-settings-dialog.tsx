@@ -1,4 +1,8 @@
 import { PatternList } from '@/components/pattern-list';
+import { CheckboxSettingRow } from '@/components/setting-rows';
+import { MachineTagsInput } from '@/components/machine-tags';
+import { Label } from '@/components/ui/label';
+import { SyncDirectionPicker } from '@/components/sync-direction-picker';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -9,6 +13,7 @@ import {
 } from '@/components/ui/dialog';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { api, type ServicePatternEntry, type ServiceIgnorePatternEntry } from '@/lib/api';
+import type { SyncDirection } from '@/hooks/use-repos';
 import { Loader2, Save } from 'lucide-react';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { toast } from 'sonner';
@@ -32,20 +37,43 @@ export function ServiceSettingsDialog({
   const [ignorePatterns, setIgnorePatterns] = useState<ServiceIgnorePatternEntry[]>([]);
   const [newPattern, setNewPattern] = useState('');
   const [newIgnorePattern, setNewIgnorePattern] = useState('');
+  const [syncDirection, setSyncDirection] = useState<SyncDirection>('bidirectional');
+  const [pathTokens, setPathTokens] = useState(false);
+  const [machineTags, setMachineTags] = useState<string[]>([]);
   const savedPatterns = useRef('');
   const savedIgnorePatterns = useRef('');
+  const savedSyncDirection = useRef<SyncDirection>('bidirectional');
+  const savedPathTokens = useRef(false);
+  const savedMachineTags = useRef('');
 
   const stripPatterns = (ps: (ServicePatternEntry | ServiceIgnorePatternEntry)[]) =>
-    ps.map(({ pattern, enabled, source }) => ({ pattern, enabled, source }));
+    ps.map((p) => ({
+      pattern: p.pattern,
+      enabled: p.enabled,
+      source: p.source,
+      encrypt: 'encrypt' in p ? p.encrypt : undefined,
+    }));
 
-  const snapshotAll = (p: ServicePatternEntry[], ip: ServiceIgnorePatternEntry[]) => {
+  const snapshotAll = (
+    p: ServicePatternEntry[],
+    ip: ServiceIgnorePatternEntry[],
+    direction: SyncDirection,
+    tokens: boolean,
+    tags: string[],
+  ) => {
     savedPatterns.current = JSON.stringify(stripPatterns(p));
     savedIgnorePatterns.current = JSON.stringify(stripPatterns(ip));
+    savedSyncDirection.current = direction;
+    savedPathTokens.current = tokens;
+    savedMachineTags.current = JSON.stringify(tags);
   };
 
   const hasChanges =
     JSON.stringify(stripPatterns(patterns)) !== savedPatterns.current ||
-    JSON.stringify(stripPatterns(ignorePatterns)) !== savedIgnorePatterns.current;
+    JSON.stringify(stripPatterns(ignorePatterns)) !== savedIgnorePatterns.current ||
+    syncDirection !== savedSyncDirection.current ||
+    pathTokens !== savedPathTokens.current ||
+    JSON.stringify(machineTags) !== savedMachineTags.current;
 
   const fetchSettings = useCallback(async () => {
     setLoading(true);
@@ -53,7 +81,16 @@ export function ServiceSettingsDialog({
       const data = await api.services.getSettings(serviceId);
       setPatterns(data.patterns);
       setIgnorePatterns(data.ignorePatterns);
-      snapshotAll(data.patterns, data.ignorePatterns);
+      setSyncDirection(data.syncDirection);
+      setPathTokens(data.pathTokens);
+      setMachineTags(data.machineTags);
+      snapshotAll(
+        data.patterns,
+        data.ignorePatterns,
+        data.syncDirection,
+        data.pathTokens,
+        data.machineTags,
+      );
     } catch (err) {
       toast.error(err instanceof Error ? err.message : 'Failed to load settings');
     } finally {
@@ -68,8 +105,14 @@ export function ServiceSettingsDialog({
   const handleSave = async () => {
     setSaving(true);
     try {
-      await api.services.updateSettings(serviceId, { patterns, ignorePatterns });
-      snapshotAll(patterns, ignorePatterns);
+      await api.services.updateSettings(serviceId, {
+        patterns,
+        ignorePatterns,
+        syncDirection,
+        pathTokens,
+        machineTags,
+      });
+      snapshotAll(patterns, ignorePatterns, syncDirection, pathTokens, machineTags);
       toast.success('Service settings saved');
     } catch (err) {
       toast.error(err instanceof Error ? err.message : 'Failed to save settings');
@@ -82,6 +125,10 @@ export function ServiceSettingsDialog({
     setPatterns((prev) => prev.map((p, i) => (i === index ? { ...p, enabled: !p.enabled } : p)));
   };
 
+  const togglePatternEncrypt = (index: number) => {
+    setPatterns((prev) => prev.map((p, i) => (i === index ? { ...p, encrypt: !p.encrypt } : p)));
+  };
+
   const removePattern = (index: number) => {
     const p = patterns[index];
     if (p.source === 'custom') {
@@ -158,8 +205,11 @@ export function ServiceSettingsDialog({
           </div>
         ) : (
           <div className="flex flex-col flex-1 min-h-0 gap-4">
-            <Tabs defaultValue="file-patterns" className="flex flex-col">
+            <Tabs defaultValue="general" className="flex flex-col">
               <TabsList className="self-start h-7">
+                <TabsTrigger value="general" className="text-xs px-2.5 py-1">
+                  General
+                </TabsTrigger>
                 <TabsTrigger value="file-patterns" className="text-xs px-2.5 py-1">
                   File Patterns
                 </TabsTrigger>
@@ -169,6 +219,49 @@ export function ServiceSettingsDialog({
               </TabsList>
 
               <div className="relative h-80 mt-2">
+                <TabsContent
+                  forceMount
+                  value="general"
+                  className="absolute inset-0 mt-0 overflow-y-auto data-[state=inactive]:hidden"
+                >
+                  <div className="space-y-4 py-2">
+                    <div className="space-y-3">
+                      <div className="text-sm font-medium">Sync direction</div>
+                      <SyncDirectionPicker value={syncDirection} onChange={setSyncDirection} />
+                    </div>
+
+                    <div className="space-y-1.5">
+                      <CheckboxSettingRow
+                        label="Rewrite paths as tokens"
+                        settingKey="path_tokens"
+                        checked={pathTokens}
+                        onCheckedChange={setPathTokens}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Stores the home directory and repo paths as <code>{'${HOME}'}</code> or{' '}
+                        <code>{'${repo:name}'}</code>, and writes each machine&apos;s own paths
+                        back.
+                      </p>
+                    </div>
+
+                    <div className="space-y-1.5">
+                      <Label htmlFor="machine-tags" className="text-sm font-medium">
+                        Machine groups
+                      </Label>
+                      <MachineTagsInput
+                        id="machine-tags"
+                        value={machineTags}
+                        onChange={setMachineTags}
+                        placeholder="Every machine"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Only machines with one of these tags link this service automatically or list
+                        it as unlinked. Leave empty for every machine.
+                      </p>
+                    </div>
+                  </div>
+                </TabsContent>
+
                 <TabsContent
                   forceMount
                   value="file-patterns"
@@ -182,6 +275,7 @@ export function ServiceSettingsDialog({
                     patterns={patterns}
                     onToggle={togglePattern}
                     onRemove={removePattern}
+                    onToggleEncrypt={togglePatternEncrypt}
                     newPattern={newPattern}
                     onNewPatternChange={setNewPattern}
                     onAdd={addPattern}
@@ -0,0 +1,64 @@
+import { ArrowDownToLine, ArrowUpFromLine } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type { SyncDirection } from '@/hooks/use-repos';
+
+const DIRECTIONS: { value: SyncDirection; label: string; description: string }[] = [
+  {
+    value: 'bidirectional',
+    label: 'Two-way',
+    description: 'Changes on either side are synced to the other, with merges and conflicts.',
+  },
+  {
+    value: 'store_to_target',
+    label: 'Mirror',
+    description:
+      'The local files are a read-only copy of the store. Local edits are reverted and new local files are held.',
+  },
+  {
+    value: 'target_to_store',
+    label: 'Backup',
+    description:
+      'Local files are copied into the store, never the other way. Store changes from other machines are held.',
+  },
+];
+
+interface SyncDirectionPickerProps {
+  value: SyncDirection;
+  onChange: (value: SyncDirection) => void;
+}
+
+export function SyncDirectionPicker({ value, onChange }: SyncDirectionPickerProps) {
+  return (
+    <div className="space-y-1.5">
+      <div className="flex gap-1">
+        {DIRECTIONS.map((d) => (
+          <Button
+            key={d.value}
+            size="xs"
+            variant={value === d.value ? 'default' : 'outline'}
+            onClick={() => onChange(d.value)}
+          >
+            {d.label}
+          </Button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {DIRECTIONS.find((d) => d.value === value)?.description}
+      </p>
+    </div>
+  );
+}
+
+/** Shown on cards of repos and services that sync one way only */
+export function SyncDirectionBadge({ direction }: { direction?: SyncDirection }) {
+  if (!direction || direction === 'bidirectional') return null;
+  const { label, description } = DIRECTIONS.find((d) => d.value === direction)!;
+  const Icon = direction === 'store_to_target' ? ArrowDownToLine : ArrowUpFromLine;
+  return (
+    <Badge variant="outline" className="text-[10px] px-1.5 py-0 gap-1" title={description}>
+      <Icon className="h-3 w-3" />
+      {label}
+    </Badge>
+  );
+}
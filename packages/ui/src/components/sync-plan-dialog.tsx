@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CircleCheck } from '@/components/ui/circle-check';
+import { DiffView } from '@/components/diff-view';
+import { api } from '@/lib/api';
+import type { SyncPlan, SyncPlanAction } from '@/lib/api';
+
+const ACTION_BADGES: Record<
+  SyncPlanAction,
+  { label: string; variant: 'success' | 'warning' | 'destructive' | 'secondary' | 'outline' }
+> = {
+  copy_to_store: { label: 'To store', variant: 'success' },
+  copy_to_target: { label: 'To target', variant: 'success' },
+  merge: { label: 'Merge', variant: 'success' },
+  conflict: { label: 'Conflict', variant: 'warning' },
+  delete_conflict: { label: 'Delete conflict', variant: 'warning' },
+  delete_store: { label: 'Delete from store', variant: 'destructive' },
+  delete_target: { label: 'Delete from target', variant: 'destructive' },
+  hold: { label: 'Held', variant: 'secondary' },
+  untrack: { label: 'Untrack', variant: 'outline' },
+  rename: { label: 'Rename', variant: 'secondary' },
+  not_previewable: { label: 'Not previewable', variant: 'outline' },
+};
+
+const entryKey = (plan: SyncPlan, fileId: string) => `${plan.type}:${plan.id}:${fileId}`;
+
+interface SyncPlanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  /** Dry runs of the syncs to review */
+  loadPlans: () => Promise<SyncPlan[]>;
+  onApplied: () => void;
+}
+
+/** Review what a sync would do, file by file, then apply all or part of it */
+export function SyncPlanDialog({
+  open,
+  onOpenChange,
+  title,
+  loadPlans,
+  onApplied,
+}: SyncPlanDialogProps) {
+  const [plans, setPlans] = useState<SyncPlan[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  const refresh = () =>
+    loadPlans()
+      .then((data) => {
+        setPlans(data);
+        setSelected(
+          new Set(
+            data
+              .filter((p) => !p.blocked)
+              .flatMap((p) => p.entries.map((e) => entryKey(p, e.trackedFileId))),
+          ),
+        );
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to plan the sync'));
+
+  useEffect(() => {
+    if (!open) return;
+    setPlans(null);
+    setExpanded(null);
+    refresh();
+  }, [open]);
+
+  const toggle = (key: string, checked: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+
+  const runnable = plans?.filter((p) => !p.blocked && p.entries.length > 0) ?? [];
+  const total = runnable.reduce((n, p) => n + p.entries.length, 0);
+
+  const handleApply = async (all: boolean) => {
+    setApplying(true);
+    try {
+      for (const plan of runnable) {
+        const fileIds = plan.entries
+          .map((e) => e.trackedFileId)
+          .filter((id) => all || selected.has(entryKey(plan, id)));
+        if (fileIds.length === 0) continue;
+        const sync = plan.type === 'repo' ? api.repos.sync : api.services.sync;
+        await sync(plan.id, all ? undefined : fileIds);
+      }
+      toast.success('Sync applied');
+      onApplied();
+      onOpenChange(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Sync failed');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            What a sync would do right now. Nothing has been changed yet — apply everything, or only
+            the files you keep selected.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {!plans && !error && <Loader2 className="mx-auto h-4 w-4 animate-spin" />}
+        {plans && (
+          <div className="max-h-[60vh] space-y-3 overflow-y-auto">
+            {plans.every((p) => p.entries.length === 0 && !p.blocked) && (
+              <p className="text-sm text-muted-foreground">Everything is in sync.</p>
+            )}
+            {plans
+              .filter((p) => p.entries.length > 0 || p.blocked)
+              .map((plan) => (
+                <div key={`${plan.type}:${plan.id}`} className="space-y-1">
+                  {plans.length > 1 && <p className="text-sm font-medium">{plan.name}</p>}
+                  {plan.blocked && (
+                    <p className="text-xs text-destructive">Sync blocked: {plan.blocked}</p>
+                  )}
+                  {plan.entries.map((entry) => {
+                    const key = entryKey(plan, entry.trackedFileId);
+                    const badge = ACTION_BADGES[entry.action];
+                    return (
+                      <div key={key} className="rounded-md border">
+                        <div className="flex items-center gap-2 px-2 py-1 text-sm">
+                          <CircleCheck
+                            checked={selected.has(key)}
+                            onCheckedChange={(checked) => toggle(key, checked)}
+                            disabled={!!plan.blocked}
+                          />
+                          <button
+                            type="button"
+                            className="flex min-w-0 flex-1 items-center gap-1 text-left disabled:cursor-default"
+                            onClick={() => setExpanded(expanded === key ? null : key)}
+                            disabled={!entry.diff}
+                          >
+                            {entry.diff ? (
+                              expanded === key ? (
+                                <ChevronDown className="h-3 w-3 shrink-0" />
+                              ) : (
+                                <ChevronRight className="h-3 w-3 shrink-0" />
+                              )
+                            ) : (
+                              <span className="w-3 shrink-0" />
+                            )}
+                            <span className="truncate font-mono text-xs">{entry.relativePath}</span>
+                          </button>
+                          <Badge variant={badge.variant} className="shrink-0">
+                            {badge.label}
+                          </Badge>
+                        </div>
+                        {expanded === key && entry.diff && (
+                          <div className="max-h-64 overflow-y-auto border-t">
+                            <DiffView diff={entry.diff} />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleApply(false)}
+            disabled={applying || selected.size === 0}
+          >
+            Apply selected ({selected.size})
+          </Button>
+          <Button onClick={() => handleApply(true)} disabled={applying || total === 0}>
+            {applying ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <RefreshCw className="h-3.5 w-3.5" />
+            )}
+            Apply all
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -41,6 +41,24 @@ export function SyncStatusBadge({ status, size = 'default' }: SyncStatusBadgePro
           Target Removed
         </Badge>
       );
+    case 'secret_detected':
+      return (
+        <Badge variant="destructive" className={cn(sizeClass)}>
+          Secret
+        </Badge>
+      );
+    case 'locked':
+      return (
+        <Badge variant="secondary" className={cn(sizeClass)}>
+          Locked
+        </Badge>
+      );
+    case 'held':
+      return (
+        <Badge variant="secondary" className={cn(sizeClass)}>
+          Held
+        </Badge>
+      );
     case 'active':
       return (
         <Badge variant="success" className={cn(sizeClass)}>
@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { api } from '@/lib/api';
+import type { TemplateDrift, TemplateDriftStatus } from '@/lib/api';
+
+const STATUS_BADGES: Record<
+  TemplateDriftStatus,
+  { label: string; variant: 'success' | 'warning' | 'secondary' | 'outline' }
+> = {
+  in_sync: { label: 'In sync', variant: 'success' },
+  missing: { label: 'Missing', variant: 'warning' },
+  outdated: { label: 'Template changed', variant: 'warning' },
+  modified: { label: 'Customized', variant: 'secondary' },
+  diverged: { label: 'Both changed', variant: 'warning' },
+};
+
+/** Statuses the update merges by default */
+const UPDATABLE: TemplateDriftStatus[] = ['missing', 'outdated', 'diverged'];
+
+interface TemplateDriftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  repoId: string;
+  onUpdated: () => void;
+}
+
+/** How a repo's files compare to its template, with a three-way "update from template" */
+export function TemplateDriftDialog({
+  open,
+  onOpenChange,
+  repoId,
+  onUpdated,
+}: TemplateDriftDialogProps) {
+  const [drift, setDrift] = useState<TemplateDrift | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [updating, setUpdating] = useState(false);
+
+  const loadDrift = () =>
+    api.repos
+      .templateDrift(repoId)
+      .then((data) => {
+        setDrift(data);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to compare'));
+
+  useEffect(() => {
+    if (!open) return;
+    setDrift(null);
+    loadDrift();
+  }, [open, repoId]);
+
+  const handleUpdate = async () => {
+    setUpdating(true);
+    try {
+      const result = await api.repos.updateFromTemplate(repoId);
+      const changed = result.added.length + result.updated.length;
+      if (result.conflicts.length > 0) {
+        toast.warning(
+          `${result.conflicts.length} file(s) did not merge cleanly — resolve them as conflicts`,
+        );
+      } else {
+        toast.success(changed > 0 ? `Updated ${changed} file(s) from template` : 'Up to date');
+      }
+      onUpdated();
+      await loadDrift();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update from template');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const pending = drift?.files.filter((f) => UPDATABLE.includes(f.status)).length ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Template: {drift?.template ?? '…'}</DialogTitle>
+          <DialogDescription>
+            Compares this repository's files with the template. Updating merges template changes
+            into your files; anything that doesn't merge cleanly becomes a conflict.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {!drift && !error && <Loader2 className="mx-auto h-4 w-4 animate-spin" />}
+        {drift && (
+          <div className="max-h-80 space-y-1 overflow-y-auto">
+            {drift.files.length === 0 && (
+              <p className="text-sm text-muted-foreground">The template has no files.</p>
+            )}
+            {drift.files.map((file) => (
+              <div key={file.path} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate font-mono text-xs">{file.path}</span>
+                <Badge variant={STATUS_BADGES[file.status].variant} className="shrink-0">
+                  {STATUS_BADGES[file.status].label}
+                </Badge>
+              </div>
+            ))}
+            {!drift.commit && (
+              <p className="pt-2 text-xs text-muted-foreground">
+                The template version this repository was created from is unknown, so changed files
+                are shown as customized.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleUpdate} disabled={updating || !drift || pending === 0}>
+            {updating ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <RefreshCw className="h-3.5 w-3.5" />
+            )}
+            Update from template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
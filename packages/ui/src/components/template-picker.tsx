@@ -0,0 +1,70 @@
+import { ChevronDown, LayoutTemplate } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { TemplateInfo } from '@/lib/api';
+
+interface TemplatePickerProps {
+  id?: string;
+  templates: TemplateInfo[];
+  value: string | null;
+  onChange: (name: string | null) => void;
+  /** Label for the "no template" choice; omit to always require a template */
+  noneLabel?: string;
+  /** Templates that can't be picked (e.g. the template itself when choosing a parent) */
+  exclude?: string[];
+}
+
+/** Dropdown for choosing one of the store's templates */
+export function TemplatePicker({
+  id,
+  templates,
+  value,
+  onChange,
+  noneLabel,
+  exclude = [],
+}: TemplatePickerProps) {
+  const choices = templates.filter((t) => !exclude.includes(t.name));
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button id={id} type="button" variant="outline" size="sm" className="justify-between">
+          <span className="flex items-center gap-1.5 truncate">
+            <LayoutTemplate className="h-3.5 w-3.5 shrink-0" />
+            {value ?? noneLabel ?? 'Select template'}
+          </span>
+          <ChevronDown className="h-3.5 w-3.5 shrink-0" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="max-h-80 overflow-y-auto">
+        {noneLabel && (
+          <>
+            <DropdownMenuItem onClick={() => onChange(null)}>{noneLabel}</DropdownMenuItem>
+            {choices.length > 0 && <DropdownMenuSeparator />}
+          </>
+        )}
+        {choices.length === 0 && !noneLabel && (
+          <DropdownMenuItem disabled>No templates</DropdownMenuItem>
+        )}
+        {choices.map((t) => (
+          <DropdownMenuItem key={t.name} onClick={() => onChange(t.name)}>
+            <div className="flex flex-col">
+              <span>
+                {t.name}
+                {t.extends && <span className="text-muted-foreground"> · extends {t.extends}</span>}
+              </span>
+              {t.description && (
+                <span className="text-xs text-muted-foreground">{t.description}</span>
+              )}
+            </div>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
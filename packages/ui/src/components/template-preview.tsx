@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { TemplateVarsFields } from '@/components/template-vars-fields';
+import { api } from '@/lib/api';
+
+interface TemplatePreviewProps {
+  templateName: string;
+  filePath: string;
+  repoId: string;
+  /** Custom variables used across the template files */
+  customVarNames: string[];
+}
+
+/** A template file rendered for one repo, with that repo's custom variables */
+export function TemplatePreview({
+  templateName,
+  filePath,
+  repoId,
+  customVarNames,
+}: TemplatePreviewProps) {
+  const [content, setContent] = useState<string | null>(null);
+  const [unresolved, setUnresolved] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [vars, setVars] = useState<Record<string, string>>({});
+  const [savedVars, setSavedVars] = useState('{}');
+  const [saving, setSaving] = useState(false);
+
+  const loadPreview = () =>
+    api.templates
+      .preview(templateName, filePath, repoId)
+      .then((data) => {
+        setContent(data.content);
+        setUnresolved(data.unresolved);
+        setError(null);
+      })
+      .catch((err) => {
+        setContent(null);
+        setError(err instanceof Error ? err.message : 'Failed to render template');
+      });
+
+  useEffect(() => {
+    loadPreview();
+  }, [templateName, filePath, repoId]);
+
+  useEffect(() => {
+    api.repos
+      .templateVars(repoId)
+      .then((data) => {
+        setVars(data.vars);
+        setSavedVars(JSON.stringify(data.vars));
+      })
+      .catch(() => {});
+  }, [repoId]);
+
+  const handleSaveVars = async () => {
+    setSaving(true);
+    try {
+      // Drop empty values so an unset variable stays unresolved
+      const next = Object.fromEntries(Object.entries(vars).filter(([, v]) => v !== ''));
+      await api.repos.setTemplateVars(repoId, next);
+      setSavedVars(JSON.stringify(next));
+      await loadPreview();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save variables');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const dirty =
+    JSON.stringify(Object.fromEntries(Object.entries(vars).filter(([, v]) => v !== ''))) !==
+    savedVars;
+
+  return (
+    <div className="flex h-full min-h-0 flex-col gap-3 p-3">
+      {customVarNames.length > 0 && (
+        <div className="space-y-2">
+          <TemplateVarsFields names={customVarNames} values={vars} onChange={setVars} />
+          <Button size="sm" variant="outline" onClick={handleSaveVars} disabled={saving || !dirty}>
+            {saving ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <Save className="h-3.5 w-3.5" />
+            )}
+            Save variables
+          </Button>
+        </div>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {unresolved.length > 0 && (
+        <p className="flex items-center gap-1.5 text-xs text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+          No value for {unresolved.map((name) => `{{${name}}}`).join(', ')}
+        </p>
+      )}
+      {content !== null && (
+        <pre className="flex-1 min-h-0 overflow-auto rounded-md border bg-muted/30 p-3 font-mono text-xs whitespace-pre-wrap">
+          {content}
+        </pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { TemplatePicker } from '@/components/template-picker';
+import { api } from '@/lib/api';
+import type { TemplateInfo } from '@/lib/api';
+
+interface TemplateSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Template to edit; omit to create a new one */
+  template?: TemplateInfo;
+  templates: TemplateInfo[];
+  onSaved: (template: TemplateInfo) => void;
+}
+
+/** Create a template, or edit one's name, parent and description */
+export function TemplateSettingsDialog({
+  open,
+  onOpenChange,
+  template,
+  templates,
+  onSaved,
+}: TemplateSettingsDialogProps) {
+  const [name, setName] = useState('');
+  const [parent, setParent] = useState<string | null>(null);
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(template?.name ?? '');
+    setParent(template?.extends ?? null);
+    setDescription(template?.description ?? '');
+    setError(null);
+  }, [open, template]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const data = { name: name.trim(), extends: parent, description: description.trim() };
+      const saved = template
+        ? await api.templates.update(template.name, data)
+        : await api.templates.create(data);
+      onOpenChange(false);
+      onSaved(saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{template ? 'Template Settings' : 'New Template'}</DialogTitle>
+          <DialogDescription>
+            A template can extend another one; its own files override the inherited ones.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="templateName">Name</Label>
+            <Input
+              id="templateName"
+              placeholder="frontend"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="templateDescription">Description (optional)</Label>
+            <Input
+              id="templateDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="templateExtends">Extends</Label>
+            <div>
+              <TemplatePicker
+                id="templateExtends"
+                templates={templates}
+                value={parent}
+                onChange={setParent}
+                noneLabel="Nothing"
+                exclude={template ? [template.name] : []}
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !name.trim()}>
+              {saving ? 'Saving...' : template ? 'Save' : 'Create Template'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
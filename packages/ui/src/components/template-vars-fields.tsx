@@ -0,0 +1,29 @@
+import { Input } from '@/components/ui/input';
+
+interface TemplateVarsFieldsProps {
+  /** Custom variable names used by the template files */
+  names: string[];
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+}
+
+/** One input per custom `{{var.NAME}}` variable */
+export function TemplateVarsFields({ names, values, onChange }: TemplateVarsFieldsProps) {
+  if (names.length === 0) return null;
+  return (
+    <div className="space-y-1.5">
+      {names.map((name) => (
+        <div key={name} className="flex items-center gap-2">
+          <code className="w-32 shrink-0 truncate font-mono text-xs text-muted-foreground">
+            var.{name}
+          </code>
+          <Input
+            value={values[name] ?? ''}
+            onChange={(e) => onChange({ ...values, [name]: e.target.value })}
+            className="h-7 flex-1 text-xs"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useMemo, useState, useEffect } from 'react';
+import CodeMirror from '@uiw/react-codemirror';
+import { oneDark } from '@codemirror/theme-one-dark';
+import type { Extension } from '@codemirror/state';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  buildMergedContent,
+  hasConflictMarkers,
+  type HunkChoice,
+  type MergeChunk,
+} from '@/lib/merge-hunks';
+
+interface ThreeWayMergeProps {
+  /** From `computeMergeChunks`, or `chunksFromConflictMarkers` without a usable base */
+  chunks: MergeChunk[];
+  extensions: Extension[];
+  editorHeight: string;
+  resolving: boolean;
+  onSave: (content: string) => void;
+}
+
+const CHOICES: { value: Exclude<HunkChoice, null>; label: string }[] = [
+  { value: 'store', label: 'Store' },
+  { value: 'target', label: 'Target' },
+  { value: 'store_target', label: 'Store + Target' },
+  { value: 'target_store', label: 'Target + Store' },
+];
+
+function HunkLines({ lines, side }: { lines: string[]; side: 'store' | 'target' }) {
+  return (
+    <pre
+      className={cn(
+        'overflow-x-auto rounded px-2 py-1 font-mono text-xs whitespace-pre',
+        side === 'store' ? 'bg-red-500/10' : 'bg-emerald-500/10',
+      )}
+    >
+      {lines.length > 0 ? (
+        lines.join('\n')
+      ) : (
+        <span className="text-muted-foreground italic">(removed)</span>
+      )}
+    </pre>
+  );
+}
+
+/**
+ * Hunk-by-hunk resolver: one-sided changes are merged automatically (diff3),
+ * each overlapping hunk gets a choice, and the assembled result stays editable.
+ */
+export function ThreeWayMerge({
+  chunks,
+  extensions,
+  editorHeight,
+  resolving,
+  onSave,
+}: ThreeWayMergeProps) {
+  const hunks = useMemo(
+    () =>
+      chunks.filter((c): c is Extract<MergeChunk, { type: 'conflict' }> => c.type === 'conflict'),
+    [chunks],
+  );
+
+  const [choices, setChoices] = useState<HunkChoice[]>([]);
+  const [result, setResult] = useState(() => buildMergedContent(chunks, []));
+
+  // Start over when the underlying versions change (e.g. file changed on disk)
+  useEffect(() => {
+    setChoices([]);
+    setResult(buildMergedContent(chunks, []));
+  }, [chunks]);
+
+  const choose = (index: number, choice: HunkChoice) => {
+    const next = [...choices];
+    next[index] = next[index] === choice ? null : choice;
+    setChoices(next);
+    // Picking a side rebuilds the result — edits made in the editor are replaced
+    setResult(buildMergedContent(chunks, next));
+  };
+
+  const resolvedCount = hunks.filter((_, i) => choices[i] != null).length;
+  const unresolved = hasConflictMarkers(result);
+
+  return (
+    <div className="flex h-full min-h-0 gap-2" style={{ height: editorHeight }}>
+      <div className="flex w-2/5 min-w-0 flex-col gap-3 overflow-y-auto p-2">
+        {hunks.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No overlapping changes — the merged result combines both sides.
+          </p>
+        )}
+        {hunks.map((hunk, i) => (
+          <div key={i} className="flex flex-col gap-1.5 rounded-md border p-2">
+            <div className="text-xs font-medium">
+              Hunk {i + 1} of {hunks.length}
+            </div>
+            <div className="text-[11px] text-muted-foreground">Store</div>
+            <HunkLines lines={hunk.store} side="store" />
+            <div className="text-[11px] text-muted-foreground">Target</div>
+            <HunkLines lines={hunk.target} side="target" />
+            <div className="flex flex-wrap gap-1 pt-1">
+              {CHOICES.map((c) => (
+                <Button
+                  key={c.value}
+                  size="xs"
+                  variant={choices[i] === c.value ? 'default' : 'outline'}
+                  onClick={() => choose(i, c.value)}
+                >
+                  {c.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex min-w-0 flex-1 flex-col gap-2">
+        <div className="min-h-0 flex-1 overflow-hidden rounded-md border">
+          <CodeMirror
+            value={result}
+            height="100%"
+            className="h-full"
+            theme={oneDark}
+            extensions={extensions}
+            onChange={setResult}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-2 pb-1">
+          <span className="text-xs text-muted-foreground">
+            {resolvedCount} of {hunks.length} hunk(s) resolved
+            {unresolved && ' — resolve or remove the remaining conflict markers to save'}
+          </span>
+          <Button size="sm" disabled={resolving || unresolved} onClick={() => onSave(result)}>
+            Save Merge
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,7 +8,13 @@ export type SyncStatus =
   | 'pending_to_store'
   | 'conflict'
   | 'missing_in_target'
-  | 'missing_in_store';
+  | 'missing_in_store'
+  | 'secret_detected'
+  | 'locked'
+  | 'held';
+
+/** Which way files flow between a repo or service and the store */
+export type SyncDirection = 'bidirectional' | 'store_to_target' | 'target_to_store';
 
 export interface TrackedFile {
   id: string;
@@ -23,6 +29,12 @@ export interface TrackedFile {
   lastSyncedAt: string | null;
   createdAt: string;
   storeSize?: number;
+  /** Shared file (under the store's `shared/`) this file is a live copy of */
+  sharedPath?: string | null;
+  /** Tool this file is rendered for from the repo's canonical rules */
+  rulesTool?: string | null;
+  /** This machine's variant of the file, if it has one */
+  machineVariant?: 'file' | 'overlay' | null;
 }
 
 export interface SyncSummary {
@@ -42,6 +54,8 @@ export interface RepoDetail {
   isFavorite: number;
   createdAt: string;
   updatedAt: string;
+  /** Template the repo was created from, if any */
+  template: string | null;
   files: TrackedFile[];
   syncSummary: SyncSummary;
   lastSyncedAt: string | null;
@@ -58,6 +72,8 @@ export interface RepoSummary {
   updatedAt: string;
   syncSummary: SyncSummary;
   lastSyncedAt: string | null;
+  syncDirection?: SyncDirection;
+  carriedHere?: boolean;
 }
 
 export function useRepos() {
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeMergeChunks,
+  buildMergedContent,
+  chunksFromConflictMarkers,
+  hasConflictMarkers,
+  isUsableBase,
+  type MergeChunk,
+} from '../merge-hunks';
+
+const conflicts = (chunks: MergeChunk[]) => chunks.filter((c) => c.type === 'conflict');
+
+describe('computeMergeChunks', () => {
+  it('returns a single resolved chunk when nothing changed', () => {
+    const chunks = computeMergeChunks('a\nb\n', 'a\nb\n', 'a\nb\n');
+    expect(chunks).toEqual([{ type: 'resolved', lines: ['a', 'b', ''] }]);
+  });
+
+  it('takes one-sided changes from whichever side changed', () => {
+    const base = 'one\ntwo\nthree\n';
+    const store = 'zero\none\ntwo\nthree\n';
+    const target = 'one\ntwo\nthree\nfour\n';
+    const chunks = computeMergeChunks(base, store, target);
+    expect(conflicts(chunks)).toHaveLength(0);
+    expect(buildMergedContent(chunks, [])).toBe('zero\none\ntwo\nthree\nfour\n');
+  });
+
+  it('treats identical changes on both sides as resolved', () => {
+    const chunks = computeMergeChunks('a\nb\nc', 'a\nB\nc', 'a\nB\nc');
+    expect(conflicts(chunks)).toHaveLength(0);
+    expect(buildMergedContent(chunks, [])).toBe('a\nB\nc');
+  });
+
+  it('splits overlapping edits into separate conflict hunks', () => {
+    const base = 'title\nfirst\nmiddle\nsecond\nend';
+    const store = 'title\nfirst (store)\nmiddle\nsecond (store)\nend';
+    const target = 'title\nfirst (target)\nmiddle\nsecond (target)\nend';
+    const hunks = conflicts(computeMergeChunks(base, store, target));
+    expect(hunks).toEqual([
+      { type: 'conflict', base: ['first'], store: ['first (store)'], target: ['first (target)'] },
+      {
+        type: 'conflict',
+        base: ['second'],
+        store: ['second (store)'],
+        target: ['second (target)'],
+      },
+    ]);
+  });
+
+  it('handles content added at the same spot with an empty base segment', () => {
+    const hunks = conflicts(computeMergeChunks('a\nz', 'a\nstore\nz', 'a\ntarget\nz'));
+    expect(hunks).toEqual([{ type: 'conflict', base: [], store: ['store'], target: ['target'] }]);
+  });
+});
+
+describe('buildMergedContent', () => {
+  const base = 'h\nx\nm\ny\nt';
+  const store = 'h\nx1\nm\ny1\nt';
+  const target = 'h\nx2\nm\ny2\nt';
+
+  it('applies a choice per hunk, including both orders', () => {
+    const chunks = computeMergeChunks(base, store, target);
+    expect(buildMergedContent(chunks, ['store', 'target'])).toBe('h\nx1\nm\ny2\nt');
+    expect(buildMergedContent(chunks, ['store_target', 'target_store'])).toBe(
+      'h\nx1\nx2\nm\ny2\ny1\nt',
+    );
+  });
+
+  it('writes diff3 markers for unresolved hunks', () => {
+    const chunks = computeMergeChunks(base, store, target);
+    const merged = buildMergedContent(chunks, ['store', null]);
+    expect(merged).toBe(
+      'h\nx1\nm\n<<<<<<< store\ny1\n||||||| base\ny\n=======\ny2\n>>>>>>> target\nt',
+    );
+    expect(hasConflictMarkers(merged)).toBe(true);
+  });
+});
+
+describe('hasConflictMarkers', () => {
+  it('ignores markers that are not at the start of a line', () => {
+    expect(hasConflictMarkers('use `<<<<<<<`, `=======` and `>>>>>>>` markers')).toBe(false);
+  });
+});
+
+describe('conflicts without a common ancestor', () => {
+  // A pull conflict records the local (target) content as its base
+  const target = 'title\nlocal edit\nend';
+  const store = 'title\nremote edit\nend';
+
+  it('rejects a base equal to one side', () => {
+    expect(isUsableBase(target, store, target)).toBe(false);
+    expect(isUsableBase(store, store, target)).toBe(false);
+    expect(isUsableBase(null, store, target)).toBe(false);
+    expect(isUsableBase('title\nold\nend', store, target)).toBe(true);
+
+    // Diffing against it would silently take the store side everywhere
+    expect(conflicts(computeMergeChunks(target, store, target))).toHaveLength(0);
+  });
+
+  it('builds hunks from git pull markers, the local side first', () => {
+    const chunks = chunksFromConflictMarkers(
+      'title\n<<<<<<< HEAD\nlocal edit\n=======\nremote edit\n>>>>>>> origin/main\nend',
+    );
+    expect(conflicts(chunks!)).toEqual([
+      { type: 'conflict', base: [], store: ['remote edit'], target: ['local edit'] },
+    ]);
+    expect(buildMergedContent(chunks!, ['target'])).toBe(target);
+    expect(buildMergedContent(chunks!, ['store'])).toBe(store);
+  });
+
+  it('follows store and target labels and keeps a diff3 base', () => {
+    const chunks = chunksFromConflictMarkers(
+      'a\n<<<<<<< store\ns\n||||||| base\nb\n=======\nt\n>>>>>>> target\nz',
+    );
+    expect(conflicts(chunks!)).toEqual([
+      { type: 'conflict', base: ['b'], store: ['s'], target: ['t'] },
+    ]);
+  });
+
+  it('returns null without complete conflict blocks', () => {
+    expect(chunksFromConflictMarkers('no markers')).toBeNull();
+    expect(chunksFromConflictMarkers('<<<<<<< HEAD\nours\n=======\ntheirs')).toBeNull();
+  });
+});
@@ -1,4 +1,10 @@
-import type { RepoDetail, RepoSummary, TrackedFile } from '@/hooks/use-repos';
+import type {
+  RepoDetail,
+  RepoSummary,
+  SyncDirection,
+  SyncStatus,
+  TrackedFile,
+} from '@/hooks/use-repos';
 
 async function request<T>(path: string, options?: RequestInit): Promise<T> {
   const base = '/api';
@@ -32,6 +38,16 @@ async function request<T>(path: string, options?: RequestInit): Promise<T> {
   return JSON.parse(text);
 }
 
+export interface FileRevision {
+  hash: string;
+  date: string;
+  message: string;
+  authorName: string;
+  machineId: string | null;
+  machineName: string | null;
+  diff: string;
+}
+
 export interface BrowseResult {
   current: string;
   parent: string;
@@ -39,6 +55,26 @@ export interface BrowseResult {
   dirs: { name: string; path: string }[];
 }
 
+/** A binary store file: base64 bytes, previewed rather than edited */
+export interface BinaryFileContent {
+  type: 'binary';
+  content: string;
+  size: number;
+  checksum: string;
+  /** Set for types that can be previewed (images, PDF) */
+  mimeType: string | null;
+  path: string;
+}
+
+export type StoreFileContent =
+  | { type: 'file'; content: string; path: string }
+  | { type: 'symlink'; target: string; path: string }
+  | BinaryFileContent;
+
+export type StoreFileRevision =
+  | { type: 'file'; content: string; path: string; commit: string }
+  | (BinaryFileContent & { commit: string });
+
 export interface ConflictDetail {
   id: string;
   trackedFileId: string;
@@ -56,6 +92,56 @@ export interface ConflictDetail {
   serviceId: string | null;
   serviceName: string | null;
   relativePath: string;
+  /** 1 for a binary file: contents are base64 and one side has to be kept */
+  isBinary: number;
+  /** Keys changed differently on both sides, when a JSON file was merged key by key */
+  jsonConflicts?: JsonKeyConflict[] | null;
+  /** Sections changed on both sides, when a Markdown file was merged section by section */
+  sectionConflicts?: MarkdownSectionConflict[] | null;
+}
+
+/** Values are JSON text, null when the key is absent on that side */
+export interface JsonKeyConflict {
+  path: string;
+  base: string | null;
+  store: string | null;
+  target: string | null;
+}
+
+/** `heading` is empty for the text before the first heading; `line` is 1-based in the merge */
+export interface MarkdownSectionConflict {
+  heading: string;
+  line: number;
+}
+
+/** What syncing a file would do; see the sync plan in the docs */
+export type SyncPlanAction =
+  | 'copy_to_store'
+  | 'copy_to_target'
+  | 'merge'
+  | 'conflict'
+  | 'delete_conflict'
+  | 'delete_store'
+  | 'delete_target'
+  | 'hold'
+  | 'untrack'
+  | 'rename'
+  | 'not_previewable';
+
+export interface SyncPlanEntry {
+  trackedFileId: string;
+  relativePath: string;
+  action: SyncPlanAction;
+  /** Unified diff of the side the action writes */
+  diff: string | null;
+}
+
+export interface SyncPlan {
+  type: 'repo' | 'service';
+  id: string;
+  name: string;
+  blocked: string | null;
+  entries: SyncPlanEntry[];
 }
 
 export interface StoreConfigConflict {
@@ -91,10 +177,30 @@ export interface ServiceSummary {
     totalStoreSize: number;
   };
   lastSyncedAt: string | null;
+  syncDirection?: SyncDirection;
+  carriedHere?: boolean;
 }
 
 export interface ServiceDetail extends ServiceSummary {
   files: TrackedFile[];
+  activeProfile: string;
+}
+
+export interface ServiceProfile {
+  name: string;
+  active: boolean;
+  fileCount: number;
+}
+
+/** How a file differs on one machine: a whole copy of its own, or a JSON overlay */
+export type MachineVariantKind = 'file' | 'overlay';
+
+export interface MachineVariant {
+  relativePath: string;
+  machineId: string;
+  machineName: string;
+  kind: MachineVariantKind;
+  thisMachine: boolean;
 }
 
 export interface AvailableService {
@@ -108,6 +214,8 @@ export interface AvailableService {
 export interface ServicePatternEntry {
   pattern: string;
   enabled: boolean;
+  /** Store copies of matching files are encrypted */
+  encrypt?: boolean;
   source: 'default' | 'custom';
 }
 
@@ -121,9 +229,72 @@ export interface FilePattern {
   id?: string;
   pattern: string;
   enabled: boolean;
+  /** Store copies of matching files are encrypted */
+  encrypt?: boolean;
   source?: 'default' | 'user';
 }
 
+export interface TemplateInfo {
+  name: string;
+  extends: string | null;
+  description: string;
+}
+
+export interface TemplateFile {
+  path: string;
+  /** Template that provides the file (differs from the template when inherited) */
+  source: string;
+}
+
+export type TemplateDriftStatus = 'in_sync' | 'missing' | 'outdated' | 'modified' | 'diverged';
+
+export interface TemplateDrift {
+  template: string;
+  /** Store commit the repo was seeded or last updated from */
+  commit: string | null;
+  files: { path: string; status: TemplateDriftStatus }[];
+}
+
+export interface TemplateUpdateResult {
+  added: string[];
+  updated: string[];
+  conflicts: string[];
+}
+
+export interface SharedFileLink {
+  repoId: string;
+  repoName: string;
+  relativePath: string;
+  /** Sync status of the repo's copy, or null when the repo no longer tracks it */
+  syncStatus: SyncStatus | null;
+}
+
+export interface SharedFile {
+  path: string;
+  links: SharedFileLink[];
+}
+
+export interface RulesTool {
+  id: string;
+  label: string;
+  /** Rendered file, relative to the repo */
+  path: string;
+  enabled: boolean;
+}
+
+export interface CanonicalRules {
+  /** Canonical source, or null before rules are first enabled */
+  content: string | null;
+  tools: RulesTool[];
+}
+
+export interface EncryptionStatus {
+  /** A passphrase has been set for this store (on any machine) */
+  enabled: boolean;
+  /** This machine has the key */
+  unlocked: boolean;
+}
+
 export interface RepoPatternEntry {
   pattern: string;
   enabled: boolean;
@@ -134,6 +305,9 @@ export interface RepoSettingsResponse {
   settings: Record<string, { value: string; source: 'global' | 'local' }>;
   filePatterns: RepoPatternEntry[];
   ignorePatterns: RepoPatternEntry[];
+  syncDirection: SyncDirection;
+  pathTokens: boolean;
+  machineTags: string[];
 }
 
 export interface CloneFileResult {
@@ -186,10 +360,36 @@ export interface UnlinkedStoreService {
   serviceName: string | null;
 }
 
+export interface ServiceBundleEntry {
+  serviceType: string;
+  name: string;
+  description: string;
+  defaultPath: string | null;
+  patterns: string[];
+  ignorePatterns: string[];
+  icon: { mimeType: string; data: string } | null;
+}
+
+export interface ServiceBundle {
+  format: 'ai-sync-services';
+  version: number;
+  exportedAt: string;
+  services: ServiceBundleEntry[];
+}
+
+export interface ServiceBundleImportResult {
+  serviceType: string;
+  name: string;
+  status: 'linked' | 'registered' | 'skipped';
+  serviceId: string | null;
+  reason: string | null;
+}
+
 export interface MachineInfo {
   id: string;
   name: string;
   lastSeen: string;
+  tags: string[];
   isCurrent: boolean;
 }
 
@@ -209,6 +409,76 @@ export interface SyncLogEntry {
   createdAt: string;
 }
 
+export type SecretScanMode = 'off' | 'warn' | 'redact' | 'block';
+
+export interface SecretFinding {
+  id: string;
+  trackedFileId: string;
+  relativePath: string;
+  ruleId: string;
+  ruleName: string;
+  line: number;
+  preview: string;
+  action: 'blocked' | 'redacted' | 'warned';
+  allowed: number;
+  createdAt: string;
+}
+
+export interface SecretRules {
+  mode: SecretScanMode;
+  builtin: { id: string; name: string; pattern: string }[];
+  custom: { name: string; pattern: string }[];
+}
+
+export type TrashOrigin = 'file_deleted' | 'conflict_deleted' | 'target_removed';
+
+export interface TrashItem {
+  id: string;
+  origin: TrashOrigin;
+  targetType: 'repo' | 'service';
+  targetId: string;
+  targetName: string;
+  storePath: string;
+  relativePath: string;
+  /** The side the content was taken from */
+  source: 'store' | 'target';
+  isBinary: boolean;
+  size: number;
+  machineId: string;
+  machineName: string;
+  deletedAt: string;
+}
+
+export interface TrashItemPreview {
+  item: TrashItem;
+  file: { type: 'file'; content: string } | Omit<BinaryFileContent, 'path'>;
+}
+
+export type HookAction = 'command' | 'http';
+
+export interface Hook {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** Event types that trigger the hook; empty for every event */
+  events: string[];
+  targetGlob: string | null;
+  pathGlob: string | null;
+  action: HookAction;
+  command: string | null;
+  url: string | null;
+  timeoutMs: number;
+  createdAt: string;
+}
+
+export type HookInput = Omit<Hook, 'id' | 'createdAt'>;
+
+export interface HookRunResult {
+  ok: boolean;
+  durationMs: number;
+  detail: string;
+}
+
 export const api = {
   setup: {
     status: () => request<{ configured: boolean; dataDir?: string }>('/setup/status'),
@@ -246,8 +516,9 @@ export const api = {
     create: (data: {
       localPath: string;
       name?: string;
-      applyTemplate?: boolean;
+      template?: string;
       modifyGitignore?: boolean;
+      templateVars?: Record<string, string>;
     }) =>
       request<{ repo: RepoSummary; filesTracked: number }>('/repos', {
         method: 'POST',
@@ -262,8 +533,13 @@ export const api = {
       request<{ success: boolean }>(`/repos/${id}?deleteStoreFiles=${deleteStoreFiles}`, {
         method: 'DELETE',
       }),
-    sync: (id: string) =>
-      request<{ result: Record<string, unknown> }>(`/repos/${id}/sync`, { method: 'POST' }),
+    sync: (id: string, fileIds?: string[]) =>
+      request<{ result: Record<string, unknown> }>(`/repos/${id}/sync`, {
+        method: 'POST',
+        body: fileIds ? JSON.stringify({ fileIds }) : undefined,
+      }),
+    planSync: (id: string) =>
+      request<{ plan: SyncPlan }>(`/repos/${id}/sync?dryRun=1`, { method: 'POST' }),
     scan: (id: string) => request<{ newFiles: string[] }>(`/repos/${id}/scan`, { method: 'POST' }),
     pause: (id: string) => request<{ status: string }>(`/repos/${id}/pause`, { method: 'POST' }),
     resume: (id: string) => request<{ status: string }>(`/repos/${id}/resume`, { method: 'POST' }),
@@ -273,12 +549,58 @@ export const api = {
         { method: 'POST' },
       ),
     getSettings: (id: string) => request<RepoSettingsResponse>(`/repos/${id}/settings`),
+    templateDrift: (id: string) => request<TemplateDrift>(`/repos/${id}/template-drift`),
+    updateFromTemplate: (id: string, paths?: string[]) =>
+      request<TemplateUpdateResult>(`/repos/${id}/template-update`, {
+        method: 'POST',
+        body: JSON.stringify({ paths }),
+      }),
+    linkFile: (id: string, filePath: string, sharedPath: string) =>
+      request<{ success: boolean; sharedPath: string }>(`/repos/${id}/links`, {
+        method: 'POST',
+        body: JSON.stringify({ path: filePath, sharedPath }),
+      }),
+    unlinkFile: (id: string, filePath: string) =>
+      request<{ success: boolean }>(`/repos/${id}/links/${filePath}`, { method: 'DELETE' }),
+    variants: (id: string) =>
+      request<{ machineId: string; variants: MachineVariant[] }>(`/repos/${id}/variants`),
+    createVariant: (id: string, filePath: string, kind: MachineVariantKind) =>
+      request<{ success: boolean }>(`/repos/${id}/variants`, {
+        method: 'POST',
+        body: JSON.stringify({ path: filePath, kind }),
+      }),
+    promoteVariant: (id: string, filePath: string, machineId: string) =>
+      request<{ success: boolean }>(`/repos/${id}/variants/promote`, {
+        method: 'POST',
+        body: JSON.stringify({ path: filePath, machineId }),
+      }),
+    removeVariant: (id: string, filePath: string, machineId: string) =>
+      request<{ success: boolean }>(
+        `/repos/${id}/variants/${filePath}?machineId=${encodeURIComponent(machineId)}`,
+        { method: 'DELETE' },
+      ),
+    rules: (id: string) => request<CanonicalRules>(`/repos/${id}/rules`),
+    updateRules: (id: string, tools: string[], content?: string) =>
+      request<CanonicalRules>(`/repos/${id}/rules`, {
+        method: 'PUT',
+        body: JSON.stringify({ tools, content }),
+      }),
+    templateVars: (id: string) =>
+      request<{ vars: Record<string, string> }>(`/repos/${id}/template-vars`),
+    setTemplateVars: (id: string, vars: Record<string, string>) =>
+      request<{ success: boolean }>(`/repos/${id}/template-vars`, {
+        method: 'PUT',
+        body: JSON.stringify({ vars }),
+      }),
     updateSettings: (
       id: string,
       data: {
         settings?: Record<string, string | null>;
         filePatterns?: RepoPatternEntry[];
         ignorePatterns?: RepoPatternEntry[];
+        syncDirection?: SyncDirection;
+        pathTokens?: boolean;
+        machineTags?: string[];
       },
     ) =>
       request<{ success: boolean }>(`/repos/${id}/settings`, {
@@ -295,10 +617,7 @@ export const api = {
   files: {
     list: (repoId: string) => request<{ files: TrackedFile[] }>(`/repos/${repoId}/files`),
     get: (repoId: string, filePath: string) =>
-      request<
-        | { type: 'file'; content: string; path: string }
-        | { type: 'symlink'; target: string; path: string }
-      >(`/repos/${repoId}/files/${filePath}`),
+      request<StoreFileContent>(`/repos/${repoId}/files/${filePath}`),
     update: (repoId: string, filePath: string, content: string) =>
       request<{ success: boolean }>(`/repos/${repoId}/files/${filePath}`, {
         method: 'PUT',
@@ -319,6 +638,17 @@ export const api = {
         `/repos/${repoId}/files/${filePath}${opts?.storeOnly ? '?storeOnly=true' : ''}`,
         { method: 'DELETE' },
       ),
+    history: (repoId: string, filePath: string) =>
+      request<{ path: string; revisions: FileRevision[] }>(
+        `/repos/${repoId}/files/${filePath}/history`,
+      ),
+    getAt: (repoId: string, filePath: string, commit: string) =>
+      request<StoreFileRevision>(`/repos/${repoId}/files/${filePath}?commit=${commit}`),
+    restore: (repoId: string, filePath: string, commit: string) =>
+      request<{ success: boolean }>(`/repos/${repoId}/files/${filePath}/restore`, {
+        method: 'POST',
+        body: JSON.stringify({ commit }),
+      }),
   },
 
   conflicts: {
@@ -375,6 +705,8 @@ export const api = {
 
   sync: {
     trigger: () => request<{ success: boolean }>('/sync/trigger', { method: 'POST' }),
+    /** Plans of every active repo, as the trigger would sync them */
+    plan: () => request<{ plans: SyncPlan[] }>('/sync/trigger?dryRun=1', { method: 'POST' }),
     log: (limit = 50, offset = 0) =>
       request<{ entries: SyncLogEntry[]; total: number }>(
         `/sync/log?limit=${limit}&offset=${offset}`,
@@ -402,6 +734,10 @@ export const api = {
       }),
   },
 
+  shared: {
+    list: () => request<{ files: SharedFile[] }>('/shared'),
+  },
+
   clone: {
     preview: (sourceRepoId: string, paths: string[], targetRepoIds: string[]) =>
       request<CloneResponse>('/clone', {
@@ -424,29 +760,73 @@ export const api = {
     list: () => request<{ services: ServiceSummary[] }>('/services'),
     get: (id: string) => request<ServiceDetail>(`/services/${id}`),
     available: () => request<{ services: AvailableService[] }>('/services/available'),
-    create: (serviceType: string) =>
+    create: (serviceType: string, opts?: { instance?: string; localPath?: string }) =>
       request<{ service: ServiceSummary; filesTracked: number }>('/services', {
         method: 'POST',
-        body: JSON.stringify({ serviceType }),
+        body: JSON.stringify({ serviceType, ...opts }),
       }),
     createCustom: (formData: FormData) =>
       request<{ service: ServiceSummary; filesTracked: number }>('/services/custom', {
         method: 'POST',
         body: formData,
       }),
+    exportCustom: (ids?: string[]) =>
+      request<ServiceBundle>(
+        `/services/custom/export${ids ? `?ids=${encodeURIComponent(ids.join(','))}` : ''}`,
+      ),
+    importCustom: (bundle: unknown, link: boolean) =>
+      request<{ results: ServiceBundleImportResult[] }>('/services/custom/import', {
+        method: 'POST',
+        body: JSON.stringify({ bundle, link }),
+      }),
     delete: (id: string) => request<{ success: boolean }>(`/services/${id}`, { method: 'DELETE' }),
-    sync: (id: string) =>
-      request<{ result: Record<string, unknown> }>(`/services/${id}/sync`, { method: 'POST' }),
+    sync: (id: string, fileIds?: string[]) =>
+      request<{ result: Record<string, unknown> }>(`/services/${id}/sync`, {
+        method: 'POST',
+        body: fileIds ? JSON.stringify({ fileIds }) : undefined,
+      }),
+    planSync: (id: string) =>
+      request<{ plan: SyncPlan }>(`/services/${id}/sync?dryRun=1`, { method: 'POST' }),
     scan: (id: string) =>
       request<{ newFiles: string[] }>(`/services/${id}/scan`, { method: 'POST' }),
     pause: (id: string) => request<{ status: string }>(`/services/${id}/pause`, { method: 'POST' }),
     resume: (id: string) =>
       request<{ status: string }>(`/services/${id}/resume`, { method: 'POST' }),
+    profiles: (id: string) =>
+      request<{ active: string; profiles: ServiceProfile[] }>(`/services/${id}/profiles`),
+    createProfile: (id: string, name: string) =>
+      request<{ profile: ServiceProfile }>(`/services/${id}/profiles`, {
+        method: 'POST',
+        body: JSON.stringify({ name }),
+      }),
+    switchProfile: (id: string, name: string) =>
+      request<{ result: { synced: number } }>(
+        `/services/${id}/profiles/${encodeURIComponent(name)}/switch`,
+        { method: 'POST' },
+      ),
+    deleteProfile: (id: string, name: string) =>
+      request<{ success: boolean }>(`/services/${id}/profiles/${encodeURIComponent(name)}`, {
+        method: 'DELETE',
+      }),
+    variants: (id: string) =>
+      request<{ machineId: string; variants: MachineVariant[] }>(`/services/${id}/variants`),
+    createVariant: (id: string, filePath: string, kind: MachineVariantKind) =>
+      request<{ success: boolean }>(`/services/${id}/variants`, {
+        method: 'POST',
+        body: JSON.stringify({ path: filePath, kind }),
+      }),
+    promoteVariant: (id: string, filePath: string, machineId: string) =>
+      request<{ success: boolean }>(`/services/${id}/variants/promote`, {
+        method: 'POST',
+        body: JSON.stringify({ path: filePath, machineId }),
+      }),
+    removeVariant: (id: string, filePath: string, machineId: string) =>
+      request<{ success: boolean }>(
+        `/services/${id}/variants/${filePath}?machineId=${encodeURIComponent(machineId)}`,
+        { method: 'DELETE' },
+      ),
     getFile: (id: string, filePath: string) =>
-      request<
-        | { type: 'file'; content: string; path: string }
-        | { type: 'symlink'; target: string; path: string }
-      >(`/services/${id}/files/${filePath}`),
+      request<StoreFileContent>(`/services/${id}/files/${filePath}`),
     updateFile: (id: string, filePath: string, content: string) =>
       request<{ success: boolean }>(`/services/${id}/files/${filePath}`, {
         method: 'PUT',
@@ -462,13 +842,34 @@ export const api = {
         `/services/${id}/files/${filePath}${opts?.storeOnly ? '?storeOnly=true' : ''}`,
         { method: 'DELETE' },
       ),
-    getSettings: (id: string) =>
-      request<{ patterns: ServicePatternEntry[]; ignorePatterns: ServiceIgnorePatternEntry[] }>(
-        `/services/${id}/settings`,
+    fileHistory: (id: string, filePath: string) =>
+      request<{ path: string; revisions: FileRevision[] }>(
+        `/services/${id}/files/${filePath}/history`,
       ),
+    getFileAt: (id: string, filePath: string, commit: string) =>
+      request<StoreFileRevision>(`/services/${id}/files/${filePath}?commit=${commit}`),
+    restoreFile: (id: string, filePath: string, commit: string) =>
+      request<{ success: boolean }>(`/services/${id}/files/${filePath}/restore`, {
+        method: 'POST',
+        body: JSON.stringify({ commit }),
+      }),
+    getSettings: (id: string) =>
+      request<{
+        patterns: ServicePatternEntry[];
+        ignorePatterns: ServiceIgnorePatternEntry[];
+        syncDirection: SyncDirection;
+        pathTokens: boolean;
+        machineTags: string[];
+      }>(`/services/${id}/settings`),
     updateSettings: (
       id: string,
-      data: { patterns: ServicePatternEntry[]; ignorePatterns?: ServiceIgnorePatternEntry[] },
+      data: {
+        patterns: ServicePatternEntry[];
+        ignorePatterns?: ServiceIgnorePatternEntry[];
+        syncDirection?: SyncDirection;
+        pathTokens?: boolean;
+        machineTags?: string[];
+      },
     ) =>
       request<{ success: boolean }>(`/services/${id}/settings`, {
         method: 'PUT',
@@ -484,11 +885,16 @@ export const api = {
         body: JSON.stringify({ name }),
       }),
     list: () => request<{ machines: MachineInfo[] }>('/machines'),
+    updateTags: (id: string, tags: string[]) =>
+      request<{ tags: string[] }>(`/machines/${id}/tags`, {
+        method: 'PUT',
+        body: JSON.stringify({ tags }),
+      }),
     unlinked: () =>
       request<{ repos: UnlinkedStoreRepo[]; services: UnlinkedStoreService[] }>(
         '/machines/unlinked',
       ),
-    linkRepo: (data: { storePath: string; localPath: string; name?: string }) =>
+    linkRepo: (data: { storePath: string; localPath: string; name?: string; template?: string }) =>
       request<{ repoId: string; storePath: string; localPath: string }>('/machines/link-repo', {
         method: 'POST',
         body: JSON.stringify(data),
@@ -515,21 +921,104 @@ export const api = {
       }),
   },
 
+  secrets: {
+    rules: () => request<SecretRules>('/secrets/rules'),
+    findings: (opts: { repoId?: string; serviceId?: string }) => {
+      const params = new URLSearchParams();
+      if (opts.repoId) params.set('repoId', opts.repoId);
+      if (opts.serviceId) params.set('serviceId', opts.serviceId);
+      return request<{ findings: SecretFinding[] }>(`/secrets/findings?${params}`);
+    },
+    allow: (findingId: string) =>
+      request<{ success: boolean }>(`/secrets/findings/${findingId}/allow`, { method: 'POST' }),
+    local: () => request<{ path: string; names: string[] }>('/secrets/local'),
+    setLocal: (name: string, value: string) =>
+      request<{ success: boolean }>(`/secrets/local/${encodeURIComponent(name)}`, {
+        method: 'PUT',
+        body: JSON.stringify({ value }),
+      }),
+    deleteLocal: (name: string) =>
+      request<{ success: boolean }>(`/secrets/local/${encodeURIComponent(name)}`, {
+        method: 'DELETE',
+      }),
+  },
+
+  encryption: {
+    status: () => request<EncryptionStatus>('/encryption'),
+    setPassphrase: (passphrase: string) =>
+      request<EncryptionStatus>('/encryption/passphrase', {
+        method: 'PUT',
+        body: JSON.stringify({ passphrase }),
+      }),
+  },
+
   templates: {
-    listFiles: () => request<{ files: string[] }>('/templates/files'),
-    getFile: (filePath: string) =>
-      request<{ content: string; path: string }>(`/templates/files/${filePath}`),
-    updateFile: (filePath: string, content: string) =>
-      request<{ success: boolean }>(`/templates/files/${filePath}`, {
+    list: () => request<{ templates: TemplateInfo[] }>('/templates'),
+    create: (data: { name: string; extends?: string | null; description?: string }) =>
+      request<TemplateInfo>('/templates', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }),
+    update: (
+      name: string,
+      data: { name?: string; extends?: string | null; description?: string },
+    ) =>
+      request<TemplateInfo>(`/templates/${encodeURIComponent(name)}`, {
+        method: 'PUT',
+        body: JSON.stringify(data),
+      }),
+    delete: (name: string) =>
+      request<{ success: boolean }>(`/templates/${encodeURIComponent(name)}`, {
+        method: 'DELETE',
+      }),
+    listFiles: (name: string) =>
+      request<{ files: TemplateFile[] }>(`/templates/${encodeURIComponent(name)}/files`),
+    variables: (name: string) =>
+      request<{ builtIn: string[]; custom: string[] }>(
+        `/templates/${encodeURIComponent(name)}/variables`,
+      ),
+    preview: (name: string, filePath: string, repoId: string) =>
+      request<{ content: string; unresolved: string[]; path: string }>(
+        `/templates/${encodeURIComponent(name)}/preview/${filePath}?repoId=${encodeURIComponent(repoId)}`,
+      ),
+    getFile: (name: string, filePath: string) =>
+      request<{ content: string; path: string; source: string }>(
+        `/templates/${encodeURIComponent(name)}/files/${filePath}`,
+      ),
+    updateFile: (name: string, filePath: string, content: string) =>
+      request<{ success: boolean }>(`/templates/${encodeURIComponent(name)}/files/${filePath}`, {
         method: 'PUT',
         body: JSON.stringify({ content }),
       }),
-    createFile: (filePath: string, content: string) =>
-      request<{ success: boolean }>(`/templates/files/${filePath}`, {
+    createFile: (name: string, filePath: string, content: string) =>
+      request<{ success: boolean }>(`/templates/${encodeURIComponent(name)}/files/${filePath}`, {
         method: 'POST',
         body: JSON.stringify({ content }),
       }),
-    deleteFile: (filePath: string) =>
-      request<{ success: boolean }>(`/templates/files/${filePath}`, { method: 'DELETE' }),
+    deleteFile: (name: string, filePath: string) =>
+      request<{ success: boolean }>(`/templates/${encodeURIComponent(name)}/files/${filePath}`, {
+        method: 'DELETE',
+      }),
+  },
+  trash: {
+    list: () => request<{ items: TrashItem[]; retentionDays: number }>('/trash'),
+    get: (id: string) => request<TrashItemPreview>(`/trash/${id}`),
+    restore: (id: string) =>
+      request<{ success: boolean; restoredToTarget: boolean }>(`/trash/${id}/restore`, {
+        method: 'POST',
+      }),
+    delete: (id: string) => request<{ success: boolean }>(`/trash/${id}`, { method: 'DELETE' }),
+    empty: () => request<{ success: boolean; deleted: number }>('/trash', { method: 'DELETE' }),
+  },
+  hooks: {
+    list: () => request<{ hooks: Hook[]; events: string[] }>('/hooks'),
+    create: (hook: HookInput) =>
+      request<{ hook: Hook }>('/hooks', { method: 'POST', body: JSON.stringify(hook) }),
+    update: (id: string, hook: HookInput) =>
+      request<{ hook: Hook }>(`/hooks/${id}`, { method: 'PUT', body: JSON.stringify(hook) }),
+    delete: (id: string) => request<{ success: boolean }>(`/hooks/${id}`, { method: 'DELETE' }),
+    test: (id: string) =>
+      request<{ result: HookRunResult }>(`/hooks/${id}/test`, { method: 'POST' }),
+    log: (limit = 20) => request<{ entries: SyncLogEntry[] }>(`/hooks/log?limit=${limit}`),
   },
 };
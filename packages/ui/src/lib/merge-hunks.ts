@@ -0,0 +1,198 @@
+import { diffArrays } from 'diff';
+
+/** A region of the merged file — either settled automatically or needing a choice */
+export type MergeChunk =
+  | { type: 'resolved'; lines: string[] }
+  | { type: 'conflict'; base: string[]; store: string[]; target: string[] };
+
+/** How a conflict hunk is resolved; `null` leaves it unresolved (written with markers) */
+export type HunkChoice = 'store' | 'target' | 'store_target' | 'target_store' | null;
+
+/**
+ * Map each base line index to the index of the same line in `other`, using
+ * the unchanged runs of a line diff. Unmatched base lines map to -1.
+ */
+function matchLines(base: string[], other: string[]): number[] {
+  const map = new Array<number>(base.length).fill(-1);
+  let bi = 0;
+  let oi = 0;
+  for (const change of diffArrays(base, other)) {
+    const count = change.count ?? change.value.length;
+    if (change.added) {
+      oi += count;
+    } else if (change.removed) {
+      bi += count;
+    } else {
+      for (let k = 0; k < count; k++) map[bi + k] = oi + k;
+      bi += count;
+      oi += count;
+    }
+  }
+  return map;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+function pushResolved(chunks: MergeChunk[], lines: string[]): void {
+  if (lines.length === 0) return;
+  const last = chunks[chunks.length - 1];
+  if (last?.type === 'resolved') {
+    last.lines.push(...lines);
+  } else {
+    chunks.push({ type: 'resolved', lines: [...lines] });
+  }
+}
+
+/**
+ * Split a three-way merge into chunks with diff3 semantics. Regions changed on
+ * only one side (or changed identically on both) resolve automatically; regions
+ * where store and target diverge from the base differently become conflict hunks.
+ */
+export function computeMergeChunks(base: string, store: string, target: string): MergeChunk[] {
+  const baseLines = base.split('\n');
+  const storeLines = store.split('\n');
+  const targetLines = target.split('\n');
+  const storeMap = matchLines(baseLines, storeLines);
+  const targetMap = matchLines(baseLines, targetLines);
+
+  const chunks: MergeChunk[] = [];
+  let bi = 0;
+  let si = 0;
+  let ti = 0;
+
+  while (bi <= baseLines.length) {
+    // Next base line kept by both sides (a sync point), or the end of all three files
+    let j = bi;
+    while (j < baseLines.length && (storeMap[j] < 0 || targetMap[j] < 0)) j++;
+    const sEnd = j < baseLines.length ? storeMap[j] : storeLines.length;
+    const tEnd = j < baseLines.length ? targetMap[j] : targetLines.length;
+
+    const baseSeg = baseLines.slice(bi, j);
+    const storeSeg = storeLines.slice(si, sEnd);
+    const targetSeg = targetLines.slice(ti, tEnd);
+
+    if (sameLines(storeSeg, baseSeg)) {
+      pushResolved(chunks, targetSeg);
+    } else if (sameLines(targetSeg, baseSeg) || sameLines(storeSeg, targetSeg)) {
+      pushResolved(chunks, storeSeg);
+    } else {
+      chunks.push({ type: 'conflict', base: baseSeg, store: storeSeg, target: targetSeg });
+    }
+
+    if (j >= baseLines.length) break;
+    pushResolved(chunks, [baseLines[j]]);
+    bi = j + 1;
+    si = sEnd + 1;
+    ti = tEnd + 1;
+  }
+
+  return chunks;
+}
+
+/**
+ * Whether `base` can serve as the common ancestor of a conflict. Some conflicts
+ * (pulls, merges that left markers) record one side as the base; diffing
+ * against it would hand every region to the other side and drop its edits.
+ */
+export function isUsableBase(
+  base: string | null,
+  store: string | null,
+  target: string | null,
+): base is string {
+  return base !== null && store !== null && target !== null && base !== store && base !== target;
+}
+
+/**
+ * Rebuild merge chunks from the conflict markers of an earlier merge, for
+ * conflicts without a usable base. The side labelled `store` or `target` is
+ * taken as such; otherwise the first side is the local (target) one, as in a
+ * git pull. Returns null when the content has no complete conflict block.
+ */
+export function chunksFromConflictMarkers(merged: string): MergeChunk[] | null {
+  const chunks: MergeChunk[] = [];
+  let hunk: { first: string[]; base: string[]; second: string[]; firstIsStore: boolean } | null =
+    null;
+  let section: 'first' | 'base' | 'second' = 'first';
+
+  for (const line of merged.split('\n')) {
+    if (!hunk) {
+      if (line.startsWith('<<<<<<<')) {
+        hunk = { first: [], base: [], second: [], firstIsStore: line.slice(7).trim() === 'store' };
+        section = 'first';
+      } else {
+        pushResolved(chunks, [line]);
+      }
+    } else if (line.startsWith('|||||||') && section === 'first') {
+      section = 'base';
+    } else if (line.startsWith('=======') && section !== 'second') {
+      section = 'second';
+    } else if (line.startsWith('>>>>>>>') && section === 'second') {
+      if (line.slice(7).trim() === 'store') hunk.firstIsStore = false;
+      chunks.push({
+        type: 'conflict',
+        base: hunk.base,
+        store: hunk.firstIsStore ? hunk.first : hunk.second,
+        target: hunk.firstIsStore ? hunk.second : hunk.first,
+      });
+      hunk = null;
+    } else {
+      hunk[section].push(line);
+    }
+  }
+
+  // An unterminated block means the markers can't be trusted
+  if (hunk || !chunks.some((c) => c.type === 'conflict')) return null;
+  return chunks;
+}
+
+/** Lines a single conflict hunk contributes for the given choice */
+export function applyHunkChoice(
+  hunk: Extract<MergeChunk, { type: 'conflict' }>,
+  choice: HunkChoice,
+): string[] {
+  switch (choice) {
+    case 'store':
+      return hunk.store;
+    case 'target':
+      return hunk.target;
+    case 'store_target':
+      return [...hunk.store, ...hunk.target];
+    case 'target_store':
+      return [...hunk.target, ...hunk.store];
+    default:
+      return [
+        '<<<<<<< store',
+        ...hunk.store,
+        '||||||| base',
+        ...hunk.base,
+        '=======',
+        ...hunk.target,
+        '>>>>>>> target',
+      ];
+  }
+}
+
+/**
+ * Assemble the merged file. `choices` is indexed by conflict hunk (in order of
+ * appearance); unresolved hunks are written with diff3-style markers.
+ */
+export function buildMergedContent(chunks: MergeChunk[], choices: HunkChoice[]): string {
+  const lines: string[] = [];
+  let hunkIndex = 0;
+  for (const chunk of chunks) {
+    if (chunk.type === 'resolved') {
+      lines.push(...chunk.lines);
+    } else {
+      lines.push(...applyHunkChoice(chunk, choices[hunkIndex] ?? null));
+      hunkIndex++;
+    }
+  }
+  return lines.join('\n');
+}
+
+/** Same check the server applies before accepting a merged result */
+export function hasConflictMarkers(content: string): boolean {
+  return /^<{7}/m.test(content) && /^={7}/m.test(content) && /^>{7}/m.test(content);
+}
@@ -42,6 +42,29 @@ export function formatBytes(bytes: number): string {
   return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[i]}`;
 }
 
+/** Types a binary file can be previewed as, by extension */
+const PREVIEW_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  pdf: 'application/pdf',
+};
+
+export function previewMimeType(filePath: string): string | null {
+  const ext = filePath.split('.').pop()?.toLowerCase() ?? '';
+  return PREVIEW_TYPES[ext] ?? null;
+}
+
+/** Decoded size of base64 content */
+export function base64Size(content: string): number {
+  const padding = content.endsWith('==') ? 2 : content.endsWith('=') ? 1 : 0;
+  return Math.floor((content.length * 3) / 4) - padding;
+}
+
 export type SizeLevel = 'normal' | 'warning' | 'danger' | 'blocked';
 
 export const MB = 1024 * 1024;
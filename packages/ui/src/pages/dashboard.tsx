@@ -6,6 +6,7 @@ import { UnlinkedRepoCard } from '@/components/unlinked-repo-card';
 import { UnlinkedServiceCard } from '@/components/unlinked-service-card';
 import { AddRepoDialog } from '@/components/add-repo-dialog';
 import { AddServiceDialog } from '@/components/add-service-dialog';
+import { SyncPlanDialog } from '@/components/sync-plan-dialog';
 import { useRepos } from '@/hooks/use-repos';
 import { useServices } from '@/hooks/use-services';
 import { useConflicts } from '@/hooks/use-conflicts';
@@ -26,6 +27,7 @@ import {
   Link,
   EyeOff,
   Eye,
+  ListChecks,
 } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -44,6 +46,7 @@ export function DashboardPage() {
   const [addOpen, setAddOpen] = useState(false);
   const [addServiceOpen, setAddServiceOpen] = useState(false);
   const [syncing, setSyncing] = useState(false);
+  const [planOpen, setPlanOpen] = useState(false);
   const [togglingSync, setTogglingSync] = useState(false);
   const [autoLinking, setAutoLinking] = useState(false);
   const [conflictFilter, setConflictFilter] = useState(false);
@@ -91,6 +94,14 @@ export function DashboardPage() {
     }
   };
 
+  const loadSyncAllPlans = async () => {
+    const [{ plans }, ...servicePlans] = await Promise.all([
+      api.sync.plan(),
+      ...services.filter((s) => s.status === 'active').map((s) => api.services.planSync(s.id)),
+    ]);
+    return [...plans, ...servicePlans.map((p) => p.plan)];
+  };
+
   const handleAutoLink = async () => {
     setAutoLinking(true);
     try {
@@ -201,6 +212,19 @@ export function DashboardPage() {
                   )}
                 </Button>
               )}
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="icon-sm"
+                    onClick={() => setPlanOpen(true)}
+                    disabled={syncing || allPaused}
+                  >
+                    <ListChecks className="h-3.5 w-3.5" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent side="bottom">Preview Sync All</TooltipContent>
+              </Tooltip>
               <Button
                 variant="outline"
                 size="sm"
@@ -403,6 +427,13 @@ export function DashboardPage() {
       </div>
 
       <AddRepoDialog open={addOpen} onOpenChange={setAddOpen} onAdded={refetch} />
+      <SyncPlanDialog
+        open={planOpen}
+        onOpenChange={setPlanOpen}
+        title="Sync All preview"
+        loadPlans={loadSyncAllPlans}
+        onApplied={refetchAll}
+      />
       <AddServiceDialog
         open={addServiceOpen}
         onOpenChange={setAddServiceOpen}
@@ -1,11 +1,20 @@
 import { ConfirmDialog } from '@/components/confirm-dialog';
 import { ConflictResolver } from '@/components/conflict-resolver';
+import { BinaryFileView } from '@/components/binary-file-view';
 import { FileEditor } from '@/components/file-editor';
+import type { FileHistorySource } from '@/components/file-history-panel';
+import { SecretFindingsBanner } from '@/components/secret-findings-banner';
 import { FileEditorLayout } from '@/components/file-editor-layout';
 import { FileTree, type FileTreeHandle, type FileTreeItem } from '@/components/file-tree';
 import { CloneDialog } from '@/components/clone-dialog';
 import { RepoSettingsDialog } from '@/components/repo-settings-dialog';
+import { TemplateDriftDialog } from '@/components/template-drift-dialog';
+import { SyncPlanDialog } from '@/components/sync-plan-dialog';
+import { LinkFileDialog } from '@/components/link-file-dialog';
+import { MachineVariantsDialog } from '@/components/machine-variants-dialog';
+import { RulesDialog } from '@/components/rules-dialog';
 import { ServiceSettingsDialog } from '@/components/service-settings-dialog';
+import { ServiceProfilesDialog } from '@/components/service-profiles-dialog';
 import { SyncStatusBadge } from '@/components/sync-status-badge';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -22,9 +31,12 @@ import { useService } from '@/hooks/use-services';
 import { useSettings, parseSizeThresholds } from '@/hooks/use-settings';
 import {
   api,
+  type BinaryFileContent,
   type ConflictDetail,
   type RepoPatternEntry,
+  type SecretFinding,
   type ServiceIgnorePatternEntry,
+  type StoreFileContent,
 } from '@/lib/api';
 import { formatDate, formatBytes, getSizeLevel, computeLargestPaths } from '@/lib/utils';
 import { SizeLabel } from '@/components/size-label';
@@ -36,10 +48,13 @@ import {
   FolderOpen,
   FolderSymlink,
   HardDrive,
+  Layers,
+  ListChecks,
   Pause,
   Play,
   RefreshCw,
   ScanSearch,
+  ScrollText,
   Settings2,
   ShieldAlert,
   Star,
@@ -66,12 +81,17 @@ type DetailTarget = {
     syncStatus: string;
     fileType: 'file' | 'symlink';
     storeSize?: number;
+    sharedPath?: string | null;
+    rulesTool?: string | null;
+    machineVariant?: 'file' | 'overlay' | null;
   }[];
   // Repo-only fields
   isFavorite?: number;
+  template?: string | null;
   // Service-only fields
   serviceType?: string;
   iconPath?: string | null;
+  activeProfile?: string;
 };
 
 export function RepoDetailPage() {
@@ -104,6 +124,7 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
           totalStoreSize: repoHook.repo.syncSummary.totalStoreSize,
           files: repoHook.repo.files,
           isFavorite: repoHook.repo.isFavorite,
+          template: repoHook.repo.template,
         }
       : null
     : serviceHook.service
@@ -117,6 +138,7 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
           files: serviceHook.service.files,
           serviceType: serviceHook.service.serviceType,
           iconPath: serviceHook.service.iconPath,
+          activeProfile: serviceHook.service.activeProfile,
         }
       : null;
 
@@ -137,6 +159,15 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
   const apiUpdateFile = isRepo
     ? (id: string, path: string, content: string) => api.files.update(id, path, content)
     : (id: string, path: string, content: string) => api.services.updateFile(id, path, content);
+  const apiFileHistory = isRepo
+    ? (id: string, path: string) => api.files.history(id, path)
+    : (id: string, path: string) => api.services.fileHistory(id, path);
+  const apiGetFileAt = isRepo
+    ? (id: string, path: string, commit: string) => api.files.getAt(id, path, commit)
+    : (id: string, path: string, commit: string) => api.services.getFileAt(id, path, commit);
+  const apiRestoreFile = isRepo
+    ? (id: string, path: string, commit: string) => api.files.restore(id, path, commit)
+    : (id: string, path: string, commit: string) => api.services.restoreFile(id, path, commit);
   const bulkResolveOpts = isRepo
     ? (id: string) => ({ repoId: id })
     : (id: string) => ({ serviceId: id });
@@ -145,6 +176,7 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
   const [fileContent, setFileContent] = useState<string | null>(null);
   const [symlinkTarget, setSymlinkTarget] = useState<string | null>(null);
+  const [binaryFile, setBinaryFile] = useState<BinaryFileContent | null>(null);
   const [conflictDetail, setConflictDetail] = useState<ConflictDetail | null>(null);
   const [loadingFile, setLoadingFile] = useState(false);
   const [deleteOpen, setDeleteOpen] = useState(false);
@@ -153,14 +185,50 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
   const fileTreeRef = useRef<FileTreeHandle>(null);
   const [allCollapsed, setAllCollapsed] = useState(settings.tree_default_expanded !== 'true');
   const [syncing, setSyncing] = useState(false);
+  const [planOpen, setPlanOpen] = useState(false);
   const [scanning, setScanning] = useState(false);
   // Repo-only states
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [cloneOpen, setCloneOpen] = useState(false);
+  const [templateDriftOpen, setTemplateDriftOpen] = useState(false);
+  const [linkFilePath, setLinkFilePath] = useState<string | null>(null);
+  const [rulesOpen, setRulesOpen] = useState(false);
+  const [profilesOpen, setProfilesOpen] = useState(false);
   const [clonePaths, setClonePaths] = useState<string[]>([]);
+  const [variantsFilePath, setVariantsFilePath] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [largestFilter, setLargestFilter] = useState(false);
   const [deleteFilePath, setDeleteFilePath] = useState<string | null>(null);
+  const [secretFindings, setSecretFindings] = useState<SecretFinding[]>([]);
+  const [findingsVersion, setFindingsVersion] = useState(0);
+
+  useEffect(() => {
+    if (!id) return;
+    api.secrets.findings(isRepo ? { repoId: id } : { serviceId: id }).then(
+      (data) => setSecretFindings(data.findings.filter((f) => !f.allowed)),
+      () => setSecretFindings([]),
+    );
+  }, [id, isRepo, target?.files, findingsVersion]);
+
+  useEffect(() => {
+    return wsClient.on('secret_detected', (event) => {
+      if (!id || event[wsEventIdField] !== id) return;
+      setFindingsVersion((v) => v + 1);
+      if (event.action === 'blocked') {
+        toast.error(`Possible secret in ${event.relativePath} — sync to the store blocked`);
+      }
+    });
+  }, [id, wsEventIdField]);
+
+  const handleAllowFinding = async (finding: SecretFinding) => {
+    try {
+      await api.secrets.allow(finding.id);
+      setFindingsVersion((v) => v + 1);
+      refetch();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to allow finding');
+    }
+  };
 
   const fileMap = useMemo(() => {
     const map = new Map<string, { id: string; syncStatus: string; fileType: 'file' | 'symlink' }>();
@@ -170,6 +238,12 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
     return map;
   }, [target?.files]);
 
+  const showFileData = (data: StoreFileContent | null) => {
+    setFileContent(data?.type === 'file' ? data.content : null);
+    setSymlinkTarget(data?.type === 'symlink' ? data.target : null);
+    setBinaryFile(data?.type === 'binary' ? data : null);
+  };
+
   // When files change, update the editor if the selected file's status changed or was removed
   useEffect(() => {
     if (!selectedFile || !id) return;
@@ -177,32 +251,23 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
     if (!file) {
       setSelectedFile(null);
       setConflictDetail(null);
-      setFileContent(null);
-      setSymlinkTarget(null);
+      showFileData(null);
       return;
     }
     if (conflictDetail && !isConflictStatus(file.syncStatus)) {
       setConflictDetail(null);
-      apiGetFile(id, selectedFile).then(
-        (data) => {
-          if (data.type === 'symlink') {
-            setSymlinkTarget(data.target);
-            setFileContent(null);
-          } else {
-            setFileContent(data.content);
-            setSymlinkTarget(null);
-          }
-        },
-        () => {
-          setSelectedFile(null);
-          setFileContent(null);
-          setSymlinkTarget(null);
-        },
-      );
+      apiGetFile(id, selectedFile).then(showFileData, () => {
+        setSelectedFile(null);
+        showFileData(null);
+      });
       return;
     }
-    if (!conflictDetail && fileContent !== null && isConflictStatus(file.syncStatus)) {
-      setFileContent(null);
+    if (
+      !conflictDetail &&
+      (fileContent !== null || binaryFile !== null) &&
+      isConflictStatus(file.syncStatus)
+    ) {
+      showFileData(null);
       api.conflicts.getByFileId(file.id).then(
         (c) => setConflictDetail(c),
         () => {},
@@ -238,38 +303,15 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
           () => {
             setConflictDetail(null);
             if (selectedFileRef.current) {
-              apiGetFile(id, selectedFileRef.current).then(
-                (data) => {
-                  if (data.type === 'symlink') {
-                    setSymlinkTarget(data.target);
-                    setFileContent(null);
-                  } else {
-                    setFileContent(data.content);
-                    setSymlinkTarget(null);
-                  }
-                },
-                () => {
-                  setSelectedFile(null);
-                  setFileContent(null);
-                  setSymlinkTarget(null);
-                },
-              );
+              apiGetFile(id, selectedFileRef.current).then(showFileData, () => {
+                setSelectedFile(null);
+                showFileData(null);
+              });
             }
           },
         );
       } else if (selectedFileRef.current && !conflictFileIdRef.current) {
-        apiGetFile(id, selectedFileRef.current).then(
-          (data) => {
-            if (data.type === 'symlink') {
-              setSymlinkTarget(data.target);
-              setFileContent(null);
-            } else {
-              setFileContent(data.content);
-              setSymlinkTarget(null);
-            }
-          },
-          () => {},
-        );
+        apiGetFile(id, selectedFileRef.current).then(showFileData, () => {});
       }
     });
 
@@ -301,6 +343,9 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
         status: f.syncStatus,
         fileType: f.fileType,
         storeSize: f.storeSize,
+        sharedPath: f.sharedPath,
+        rulesTool: f.rulesTool,
+        machineVariant: f.machineVariant,
         suffix: (
           <>
             {f.storeSize != null && (
@@ -378,24 +423,17 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
     if (!id) return;
     setSelectedFile(filePath);
     setConflictDetail(null);
-    setFileContent(null);
-    setSymlinkTarget(null);
+    showFileData(null);
     setLoadingFile(true);
     try {
       if (isConflictStatus(file.syncStatus)) {
         const conflict = await api.conflicts.getByFileId(file.id);
         setConflictDetail(conflict);
       } else {
-        const data = await apiGetFile(id, filePath);
-        if (data.type === 'symlink') {
-          setSymlinkTarget(data.target);
-        } else {
-          setFileContent(data.content);
-        }
+        showFileData(await apiGetFile(id, filePath));
       }
     } catch {
-      setFileContent(null);
-      setSymlinkTarget(null);
+      showFileData(null);
       setConflictDetail(null);
     } finally {
       setLoadingFile(false);
@@ -447,8 +485,7 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
           await Promise.all(filesToDelete.map((f) => apiDeleteFile(id, f.relativePath)));
           if (selectedFile && (selectedFile.startsWith(prefix + '/') || selectedFile === prefix)) {
             setSelectedFile(null);
-            setFileContent(null);
-            setSymlinkTarget(null);
+            showFileData(null);
             setConflictDetail(null);
           }
           toast.success(`Deleted ${filesToDelete.length} file(s) from ${prefix}/`);
@@ -456,8 +493,7 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
           await apiDeleteFile(id, filePath);
           if (selectedFile === filePath) {
             setSelectedFile(null);
-            setFileContent(null);
-            setSymlinkTarget(null);
+            showFileData(null);
             setConflictDetail(null);
           }
           toast.success(`Deleted: ${filePath}`);
@@ -532,6 +568,25 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
     refetch();
   };
 
+  const fileHistory = useMemo<FileHistorySource | undefined>(() => {
+    if (!id || !selectedFile) return undefined;
+    return {
+      load: () => apiFileHistory(id, selectedFile).then((data) => data.revisions),
+      loadContentAt: (commit) =>
+        apiGetFileAt(id, selectedFile, commit).then((data) =>
+          data.type === 'binary'
+            ? `(binary file, ${formatBytes(data.size)}, ${data.checksum})`
+            : data.content,
+        ),
+      restore: async (commit) => {
+        await apiRestoreFile(id, selectedFile, commit);
+        showFileData(await apiGetFile(id, selectedFile));
+        toast.success(`Restored ${selectedFile} to ${commit.slice(0, 7)}`);
+        refetch();
+      },
+    };
+  }, [id, isRepo, selectedFile, refetch]);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12 text-sm text-muted-foreground">
@@ -550,6 +605,16 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
 
   return (
     <>
+      <SyncPlanDialog
+        open={planOpen}
+        onOpenChange={setPlanOpen}
+        title={`Sync preview: ${target.name}`}
+        loadPlans={async () => {
+          const { plan } = await (isRepo ? api.repos.planSync : api.services.planSync)(target.id);
+          return [plan];
+        }}
+        onApplied={refetch}
+      />
       {isRepo ? (
         <>
           <CloneDialog
@@ -565,13 +630,58 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
             repoId={target.id}
             repoName={target.name}
           />
+          {linkFilePath && (
+            <LinkFileDialog
+              open={!!linkFilePath}
+              onOpenChange={(open) => !open && setLinkFilePath(null)}
+              repoId={target.id}
+              filePath={linkFilePath}
+              sharedPath={
+                target.files?.find((f) => f.relativePath === linkFilePath)?.sharedPath ?? null
+              }
+              onChanged={refetch}
+            />
+          )}
+          <RulesDialog
+            open={rulesOpen}
+            onOpenChange={setRulesOpen}
+            repoId={target.id}
+            onChanged={refetch}
+          />
+          {target.template && (
+            <TemplateDriftDialog
+              open={templateDriftOpen}
+              onOpenChange={setTemplateDriftOpen}
+              repoId={target.id}
+              onUpdated={refetch}
+            />
+          )}
         </>
       ) : (
-        <ServiceSettingsDialog
-          open={settingsOpen}
-          onOpenChange={setSettingsOpen}
-          serviceId={target.id}
-          serviceName={target.name}
+        <>
+          <ServiceSettingsDialog
+            open={settingsOpen}
+            onOpenChange={setSettingsOpen}
+            serviceId={target.id}
+            serviceName={target.name}
+          />
+          <ServiceProfilesDialog
+            open={profilesOpen}
+            onOpenChange={setProfilesOpen}
+            serviceId={target.id}
+            serviceName={target.name}
+            onChanged={refetch}
+          />
+        </>
+      )}
+      {variantsFilePath && (
+        <MachineVariantsDialog
+          open={!!variantsFilePath}
+          onOpenChange={(open) => !open && setVariantsFilePath(null)}
+          type={type}
+          targetId={target.id}
+          filePath={variantsFilePath}
+          onChanged={refetch}
         />
       )}
       <ConfirmDialog
@@ -599,8 +709,8 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
         title={deleteFilePath?.endsWith('/**') ? 'Delete folder' : 'Delete file'}
         description={
           deleteFilePath?.endsWith('/**')
-            ? `Delete all files under "${deleteFilePath.slice(0, -3)}/" from both store and target repo? This cannot be undone.`
-            : `Delete "${deleteFilePath}" from both store and target repo? This cannot be undone.`
+            ? `Delete all files under "${deleteFilePath.slice(0, -3)}/" from both store and target repo? They can be restored from the Trash.`
+            : `Delete "${deleteFilePath}" from both store and target repo? It can be restored from the Trash.`
         }
         confirmLabel="Delete"
         variant="destructive"
@@ -617,7 +727,7 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
         title="Bulk resolve conflicts"
         description={
           bulkResolveAction === 'delete'
-            ? 'Delete all conflicting files from both store and target? This cannot be undone.'
+            ? 'Delete all conflicting files from both store and target? They are kept in the Trash and can be restored from there.'
             : `Resolve all conflicts by ${bulkResolveAction === 'keep_store' ? 'keeping changes from store' : 'keeping changes from target'}? This will overwrite the other side.`
         }
         confirmLabel={
@@ -663,6 +773,17 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
                 {!isRepo && target.serviceType?.startsWith('custom-') && (
                   <Badge variant="secondary">Custom</Badge>
                 )}
+                {target.template && (
+                  <button
+                    type="button"
+                    onClick={() => setTemplateDriftOpen(true)}
+                    title="Template this repository was created from — compare and update"
+                  >
+                    <Badge variant="outline" className="cursor-pointer hover:bg-accent">
+                      {target.template}
+                    </Badge>
+                  </button>
+                )}
                 <SyncStatusBadge status={target.status} />
               </div>
               <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
@@ -712,6 +833,27 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
                 </TooltipTrigger>
                 <TooltipContent side="bottom">Settings</TooltipContent>
               </Tooltip>
+              {isRepo && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button variant="outline" size="icon-sm" onClick={() => setRulesOpen(true)}>
+                      <ScrollText className="h-3.5 w-3.5" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="bottom">Canonical rules</TooltipContent>
+                </Tooltip>
+              )}
+              {target.activeProfile && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button variant="outline" size="sm" onClick={() => setProfilesOpen(true)}>
+                      <Layers className="h-3.5 w-3.5" />
+                      {target.activeProfile}
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="bottom">Profile</TooltipContent>
+                </Tooltip>
+              )}
               <Tooltip>
                 <TooltipTrigger asChild>
                   <Button variant="outline" size="icon-sm" onClick={handleScan} disabled={scanning}>
@@ -720,6 +862,14 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
                 </TooltipTrigger>
                 <TooltipContent side="bottom">Scan</TooltipContent>
               </Tooltip>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button variant="outline" size="icon-sm" onClick={() => setPlanOpen(true)}>
+                    <ListChecks className="h-3.5 w-3.5" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent side="bottom">Preview sync</TooltipContent>
+              </Tooltip>
               <Tooltip>
                 <TooltipTrigger asChild>
                   <Button
@@ -823,6 +973,8 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
                   onIgnore={handleIgnore}
                   onResolve={handleResolveFile}
                   onDelete={setDeleteFilePath}
+                  onLink={isRepo ? setLinkFilePath : undefined}
+                  onVariants={setVariantsFilePath}
                   sizeThresholds={sizeThresholds}
                   initialExpanded={settings.tree_default_expanded === 'true'}
                 />
@@ -851,47 +1003,67 @@ function DetailPage({ type }: { type: 'repo' | 'service' }) {
           searchQuery={searchQuery}
           onSearchChange={setSearchQuery}
         >
-          {(toolbarEl) =>
-            !loadingFile && conflictDetail ? (
-              <ConflictResolver
-                conflict={conflictDetail}
-                onResolved={() => {
-                  setConflictDetail(null);
-                  setSelectedFile(null);
-                  refetch();
-                }}
-                onRefresh={() => {
-                  api.conflicts.getByFileId(conflictDetail.trackedFileId).then(
-                    (c) => setConflictDetail(c),
-                    () => {},
-                  );
-                }}
-                toolbarTarget={toolbarEl}
-              />
-            ) : !loadingFile && symlinkTarget !== null ? (
-              <div className="flex flex-col items-center justify-center h-full gap-4 p-8 text-sm">
-                <FolderSymlink className="h-10 w-10 text-muted-foreground" />
-                <div className="text-center space-y-1">
-                  <div className="font-medium">Symbolic Link</div>
-                  <div className="text-muted-foreground">This entry is a symlink pointing to:</div>
+          {(toolbarEl) => {
+            const fileFindings = secretFindings.filter((f) => f.relativePath === selectedFile);
+            const pane =
+              !loadingFile && conflictDetail ? (
+                <ConflictResolver
+                  conflict={conflictDetail}
+                  onResolved={() => {
+                    setConflictDetail(null);
+                    setSelectedFile(null);
+                    refetch();
+                  }}
+                  onRefresh={() => {
+                    api.conflicts.getByFileId(conflictDetail.trackedFileId).then(
+                      (c) => setConflictDetail(c),
+                      () => {},
+                    );
+                  }}
+                  toolbarTarget={toolbarEl}
+                />
+              ) : !loadingFile && symlinkTarget !== null ? (
+                <div className="flex flex-col items-center justify-center h-full gap-4 p-8 text-sm">
+                  <FolderSymlink className="h-10 w-10 text-muted-foreground" />
+                  <div className="text-center space-y-1">
+                    <div className="font-medium">Symbolic Link</div>
+                    <div className="text-muted-foreground">
+                      This entry is a symlink pointing to:
+                    </div>
+                  </div>
+                  <code className="px-3 py-2 bg-muted rounded-md font-mono text-xs max-w-full break-all">
+                    {symlinkTarget}
+                  </code>
                 </div>
-                <code className="px-3 py-2 bg-muted rounded-md font-mono text-xs max-w-full break-all">
-                  {symlinkTarget}
-                </code>
-              </div>
-            ) : !loadingFile && fileContent !== null ? (
-              <FileEditor
-                content={fileContent}
-                filePath={selectedFile!}
-                onSave={handleSaveFile}
-                toolbarTarget={toolbarEl}
-              />
-            ) : loadingFile ? (
-              <div className="flex items-center justify-center py-12 text-sm text-muted-foreground">
-                Loading file...
+              ) : !loadingFile && binaryFile !== null ? (
+                <BinaryFileView
+                  content={binaryFile.content}
+                  size={binaryFile.size}
+                  checksum={binaryFile.checksum}
+                  mimeType={binaryFile.mimeType}
+                  label={selectedFile ?? undefined}
+                />
+              ) : !loadingFile && fileContent !== null ? (
+                <FileEditor
+                  content={fileContent}
+                  filePath={selectedFile!}
+                  onSave={handleSaveFile}
+                  toolbarTarget={toolbarEl}
+                  history={fileHistory}
+                />
+              ) : loadingFile ? (
+                <div className="flex items-center justify-center py-12 text-sm text-muted-foreground">
+                  Loading file...
+                </div>
+              ) : null;
+            if (fileFindings.length === 0) return pane;
+            return (
+              <div className="flex h-full min-h-0 flex-col">
+                <SecretFindingsBanner findings={fileFindings} onAllow={handleAllowFinding} />
+                <div className="min-h-0 flex-1">{pane}</div>
               </div>
-            ) : null
-          }
+            );
+          }}
         </FileEditorLayout>
       </div>
     </>
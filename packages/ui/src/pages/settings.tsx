@@ -13,6 +13,12 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { SettingRow, CheckboxSettingRow } from '@/components/setting-rows';
+import { MachineTagsInput } from '@/components/machine-tags';
+import { Badge } from '@/components/ui/badge';
+import { HooksSettings } from '@/components/hooks-settings';
+import { SecretScanSettings } from '@/components/secret-scan-settings';
+import { LocalSecretsSettings } from '@/components/local-secrets-settings';
+import { EncryptionSettings } from '@/components/encryption-settings';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { api, type FilePattern, type MachineInfo } from '@/lib/api';
 import { useMachine } from '@/hooks/use-machines';
@@ -23,7 +29,7 @@ import { useLocation, useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
 
 function stripIds(patterns: FilePattern[]) {
-  return patterns.map(({ pattern, enabled }) => ({ pattern, enabled }));
+  return patterns.map(({ pattern, enabled, encrypt }) => ({ pattern, enabled, encrypt }));
 }
 
 function sortBySource(patterns: FilePattern[]) {
@@ -89,6 +95,16 @@ export function SettingsPage() {
       .catch(() => {});
   }, []);
 
+  const currentMachineTags = machines.find((m) => m.isCurrent)?.tags ?? [];
+  const updateMachineTags = async (id: string, tags: string[]) => {
+    try {
+      const result = await api.machines.updateTags(id, tags);
+      setMachines((prev) => prev.map((m) => (m.id === id ? { ...m, tags: result.tags } : m)));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update tags');
+    }
+  };
+
   const savedSettings = useRef<string>('');
   const savedPatterns = useRef<string>('');
   const savedIgnorePatterns = useRef<string>('');
@@ -146,6 +162,8 @@ export function SettingsPage() {
       await api.patterns.update(patterns);
       snapshotPatterns(patterns);
       setShowApplyAfterPatternsSave(true);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save patterns');
     } finally {
       setSavingPatterns(false);
     }
@@ -192,6 +210,10 @@ export function SettingsPage() {
     setPatterns(patterns.map((p, i) => (i === index ? { ...p, enabled: !p.enabled } : p)));
   };
 
+  const handleTogglePatternEncrypt = (index: number) => {
+    setPatterns(patterns.map((p, i) => (i === index ? { ...p, encrypt: !p.encrypt } : p)));
+  };
+
   const handleCleanIgnored = async (scope: 'both' | 'target' | 'store' = 'both') => {
     setCleaningIgnored(true);
     try {
@@ -280,6 +302,7 @@ export function SettingsPage() {
             <TabsTrigger value="file-patterns">AI File Patterns</TabsTrigger>
             <TabsTrigger value="ignore-patterns">Ignore Patterns</TabsTrigger>
             <TabsTrigger value="machine">Machine</TabsTrigger>
+            <TabsTrigger value="hooks">Hooks</TabsTrigger>
           </TabsList>
 
           <TabsContent value="general" className="flex-1 min-h-0 overflow-y-auto">
@@ -391,6 +414,54 @@ export function SettingsPage() {
                 </div>
               </div>
 
+              <div className="py-4 border-t space-y-3">
+                <p className="text-sm">
+                  JSON files are merged key by key. Arrays at these key paths are merged as sets,
+                  keeping entries added on either side; other arrays are replaced as a whole. Use{' '}
+                  <code>*</code> for any key, e.g. <code>mcpServers.*.args</code>.
+                </p>
+                <SettingRow
+                  label="Arrays merged as sets"
+                  settingKey="json_union_paths"
+                  type="text"
+                  value={settings.json_union_paths ?? ''}
+                  onChange={(v) => setSettings({ ...settings, json_union_paths: v })}
+                />
+              </div>
+
+              <div className="py-4 border-t space-y-3">
+                <p className="text-sm">
+                  Deleted files are kept in the Trash for this many days, then purged. Use 0 to keep
+                  them until you delete them.
+                </p>
+                <SettingRow
+                  label="Trash retention (days)"
+                  settingKey="trash_retention_days"
+                  type="number"
+                  value={settings.trash_retention_days || '30'}
+                  onChange={(v) => setSettings({ ...settings, trash_retention_days: v })}
+                />
+              </div>
+
+              <div className="py-4 border-t space-y-3">
+                <p className="text-sm">
+                  Hooks (see the Hooks tab) run in the background; at most this many run at once,
+                  the others wait their turn.
+                </p>
+                <SettingRow
+                  label="Hooks running at once"
+                  settingKey="hook_concurrency"
+                  type="number"
+                  value={settings.hook_concurrency || '2'}
+                  onChange={(v) => setSettings({ ...settings, hook_concurrency: v })}
+                />
+              </div>
+
+              <SecretScanSettings
+                settings={settings}
+                onChange={(patch) => setSettings({ ...settings, ...patch })}
+              />
+
               <div className="flex gap-2 mt-6">
                 <Button
                   onClick={handleCancelSettings}
@@ -426,6 +497,7 @@ export function SettingsPage() {
                 patterns={patterns}
                 onToggle={handleTogglePattern}
                 onRemove={handleRemovePattern}
+                onToggleEncrypt={handleTogglePatternEncrypt}
                 newPattern={newPattern}
                 onNewPatternChange={setNewPattern}
                 onAdd={handleAddPattern}
@@ -542,6 +614,12 @@ export function SettingsPage() {
             </div>
           </TabsContent>
 
+          <TabsContent value="hooks" className="flex-1 min-h-0 overflow-y-auto">
+            <div className="max-w-2xl py-2">
+              <HooksSettings />
+            </div>
+          </TabsContent>
+
           <TabsContent value="machine" className="flex-1 min-h-0 overflow-y-auto">
             <div className="max-w-lg py-2 space-y-6">
               <div className="space-y-3">
@@ -632,6 +710,23 @@ export function SettingsPage() {
                     )}
                   </div>
                 </div>
+                {machines.some((m) => m.isCurrent) && (
+                  <div className="space-y-1.5">
+                    <Label htmlFor="machine-tags" className="text-xs">
+                      Tags
+                    </Label>
+                    <MachineTagsInput
+                      id="machine-tags"
+                      value={currentMachineTags}
+                      onChange={(tags) => updateMachineTags(machineId, tags)}
+                      placeholder="e.g. work or home"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Repositories and services limited to machine groups are only linked on
+                      machines with one of their tags.
+                    </p>
+                  </div>
+                )}
               </div>
 
               {machines.length > 0 && (
@@ -656,6 +751,15 @@ export function SettingsPage() {
                           <div className="text-xs text-muted-foreground font-mono truncate">
                             {m.id}
                           </div>
+                          {m.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 pt-1">
+                              {m.tags.map((tag) => (
+                                <Badge key={tag} variant="secondary" className="text-[10px] py-0">
+                                  {tag}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
                         </div>
                         <div className="text-xs text-muted-foreground shrink-0">
                           {new Date(m.lastSeen).toLocaleDateString()}
@@ -665,6 +769,9 @@ export function SettingsPage() {
                   </div>
                 </div>
               )}
+
+              <LocalSecretsSettings />
+              <EncryptionSettings />
             </div>
           </TabsContent>
         </Tabs>
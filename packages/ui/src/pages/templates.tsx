@@ -4,73 +4,213 @@ import { FileEditor } from '@/components/file-editor';
 import { FileEditorLayout } from '@/components/file-editor-layout';
 import { FileTree, type FileTreeItem } from '@/components/file-tree';
 import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import { TemplatePicker } from '@/components/template-picker';
+import { TemplatePreview } from '@/components/template-preview';
+import { TemplateSettingsDialog } from '@/components/template-settings-dialog';
+import { useRepos } from '@/hooks/use-repos';
 import { api } from '@/lib/api';
-import { Plus } from 'lucide-react';
+import type { TemplateFile, TemplateInfo } from '@/lib/api';
+import { ChevronDown, Eye, Plus, Settings2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
 
 export function TemplatesPage() {
-  const [files, setFiles] = useState<string[]>([]);
+  const [templates, setTemplates] = useState<TemplateInfo[]>([]);
+  const [templateName, setTemplateName] = useState<string | null>(null);
+  const [files, setFiles] = useState<TemplateFile[]>([]);
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
   const [fileContent, setFileContent] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [newFileName, setNewFileName] = useState('');
   const [showNewFile, setShowNewFile] = useState(false);
+  const [previewRepoId, setPreviewRepoId] = useState<string | null>(null);
+  const [customVarNames, setCustomVarNames] = useState<string[]>([]);
+  const [settingsMode, setSettingsMode] = useState<'new' | 'edit' | null>(null);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const { repos } = useRepos();
+  const previewRepo = repos.find((r) => r.id === previewRepoId) ?? null;
+  const template = templates.find((t) => t.name === templateName);
 
-  const treeItems: FileTreeItem[] = useMemo(() => files.map((f) => ({ path: f })), [files]);
+  const treeItems: FileTreeItem[] = useMemo(
+    () =>
+      files.map((f) => ({
+        path: f.path,
+        suffix:
+          f.source !== templateName ? (
+            <span className="text-xs text-muted-foreground">from {f.source}</span>
+          ) : undefined,
+      })),
+    [files, templateName],
+  );
+
+  const fetchTemplates = async (select?: string) => {
+    const data = await api.templates.list();
+    setTemplates(data.templates);
+    setTemplateName((current) => {
+      const wanted = select ?? current;
+      if (wanted && data.templates.some((t) => t.name === wanted)) return wanted;
+      return data.templates[0]?.name ?? null;
+    });
+  };
 
   const fetchFiles = async () => {
+    if (!templateName) {
+      setFiles([]);
+      setLoading(false);
+      return;
+    }
     setLoading(true);
     try {
-      const data = await api.templates.listFiles();
+      const data = await api.templates.listFiles(templateName);
       setFiles(data.files);
+      const vars = await api.templates.variables(templateName);
+      setCustomVarNames(vars.custom);
     } finally {
       setLoading(false);
     }
   };
 
   useEffect(() => {
-    fetchFiles();
+    fetchTemplates().catch(() => setLoading(false));
   }, []);
 
+  useEffect(() => {
+    setSelectedFile(null);
+    setFileContent(null);
+    fetchFiles();
+  }, [templateName]);
+
   const handleSelectFile = async (filePath: string) => {
+    if (!templateName) return;
     setSelectedFile(filePath);
     setFileContent(null);
     try {
-      const data = await api.templates.getFile(filePath);
+      const data = await api.templates.getFile(templateName, filePath);
       setFileContent(data.content);
     } catch {
       setFileContent(null);
     }
   };
 
+  // Saving an inherited file creates an override in this template
   const handleSave = async (content: string) => {
-    if (!selectedFile) return;
-    await api.templates.updateFile(selectedFile, content);
+    if (!selectedFile || !templateName) return;
+    await api.templates.updateFile(templateName, selectedFile, content);
+    setFileContent(content);
+    await fetchFiles();
   };
 
   const handleCreateFile = async () => {
-    if (!newFileName.trim()) return;
-    await api.templates.createFile(newFileName.trim(), '');
+    if (!newFileName.trim() || !templateName) return;
+    await api.templates.createFile(templateName, newFileName.trim(), '');
     setNewFileName('');
     setShowNewFile(false);
     await fetchFiles();
     await handleSelectFile(newFileName.trim());
   };
 
+  const handleDeleteTemplate = async () => {
+    if (!templateName) return;
+    try {
+      await api.templates.delete(templateName);
+      toast.success(`Deleted template "${templateName}"`);
+      await fetchTemplates();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete template');
+    }
+  };
+
+  const selectedSource = files.find((f) => f.path === selectedFile)?.source;
+
   return (
     <div className="flex flex-1 min-h-0 flex-col gap-6 overflow-hidden p-4 md:p-6">
-      <div>
-        <h2 className="text-2xl font-semibold tracking-tight">Default Template</h2>
-        <p className="text-sm text-muted-foreground">
-          Template files applied when registering new repositories.
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold tracking-tight">Templates</h2>
+          <p className="text-sm text-muted-foreground">
+            Template files applied when registering or linking repositories. A template can extend
+            another one. Use <code>{'{{repo.name}}'}</code>, <code>{'{{git.remoteUrl}}'}</code>,{' '}
+            <code>{'{{machine.name}}'}</code> or <code>{'{{var.NAME}}'}</code>, and{' '}
+            <code>{'{{#if ...}}...{{else}}...{{/if}}'}</code> blocks.
+          </p>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" variant={previewRepo ? 'default' : 'outline'} className="shrink-0">
+              <Eye className="h-3.5 w-3.5" />
+              {previewRepo ? `Preview: ${previewRepo.name}` : 'Preview for repo'}
+              <ChevronDown className="h-3.5 w-3.5" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto">
+            {previewRepo && (
+              <>
+                <DropdownMenuItem onClick={() => setPreviewRepoId(null)}>
+                  Back to editing
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+              </>
+            )}
+            {repos.length === 0 && (
+              <DropdownMenuItem disabled>No repositories registered</DropdownMenuItem>
+            )}
+            {repos.map((repo) => (
+              <DropdownMenuItem key={repo.id} onClick={() => setPreviewRepoId(repo.id)}>
+                {repo.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <TemplatePicker templates={templates} value={templateName} onChange={setTemplateName} />
+        {template?.description && (
+          <span className="truncate text-sm text-muted-foreground">{template.description}</span>
+        )}
+        <div className="ml-auto flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => setSettingsMode('new')}>
+            <Plus className="h-3.5 w-3.5" />
+            New template
+          </Button>
+          {template && (
+            <>
+              <Button
+                size="icon-sm"
+                variant="ghost"
+                onClick={() => setSettingsMode('edit')}
+                title="Template settings"
+              >
+                <Settings2 className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                size="icon-sm"
+                variant="ghost"
+                onClick={() => setShowDeleteConfirm(true)}
+                title="Delete template"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </>
+          )}
+        </div>
       </div>
 
       <FileEditorLayout
         listTitle="Template Files"
         listActions={
-          <Button size="icon-sm" variant="ghost" onClick={() => setShowNewFile(true)}>
-            <Plus className="h-3.5 w-3.5" />
-          </Button>
+          templateName ? (
+            <Button size="icon-sm" variant="ghost" onClick={() => setShowNewFile(true)}>
+              <Plus className="h-3.5 w-3.5" />
+            </Button>
+          ) : undefined
         }
         listPrefix={
           showNewFile ? (
@@ -91,6 +231,8 @@ export function TemplatesPage() {
         listContent={
           loading ? (
             <p className="text-sm text-muted-foreground p-2">Loading...</p>
+          ) : !templateName ? (
+            <p className="text-sm text-muted-foreground p-2">No templates yet</p>
           ) : files.length === 0 ? (
             <p className="text-sm text-muted-foreground p-2">No template files yet</p>
           ) : (
@@ -101,16 +243,50 @@ export function TemplatesPage() {
         emptyText="Select a template file to edit"
       >
         {(toolbarEl) =>
-          fileContent !== null ? (
-            <FileEditor
-              content={fileContent}
-              filePath={selectedFile!}
-              onSave={handleSave}
-              toolbarTarget={toolbarEl}
+          previewRepo && selectedFile && templateName ? (
+            <TemplatePreview
+              templateName={templateName}
+              filePath={selectedFile}
+              repoId={previewRepo.id}
+              customVarNames={customVarNames}
             />
+          ) : fileContent !== null ? (
+            <div className="flex h-full min-h-0 flex-col">
+              {selectedSource && selectedSource !== templateName && (
+                <p className="border-b px-3 py-1.5 text-xs text-muted-foreground">
+                  Inherited from <strong>{selectedSource}</strong>. Saving creates an override in
+                  this template.
+                </p>
+              )}
+              <div className="flex-1 min-h-0">
+                <FileEditor
+                  content={fileContent}
+                  filePath={selectedFile!}
+                  onSave={handleSave}
+                  toolbarTarget={toolbarEl}
+                />
+              </div>
+            </div>
           ) : null
         }
       </FileEditorLayout>
+
+      <TemplateSettingsDialog
+        open={settingsMode !== null}
+        onOpenChange={(open) => !open && setSettingsMode(null)}
+        template={settingsMode === 'edit' ? template : undefined}
+        templates={templates}
+        onSaved={(saved) => fetchTemplates(saved.name)}
+      />
+      <ConfirmDialog
+        open={showDeleteConfirm}
+        onOpenChange={setShowDeleteConfirm}
+        onConfirm={handleDeleteTemplate}
+        title="Delete template?"
+        description={`The "${templateName}" template and its files will be removed from the store. Repos created from it keep their files.`}
+        confirmLabel="Delete"
+        variant="destructive"
+      />
     </div>
   );
 }
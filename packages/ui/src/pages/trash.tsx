@@ -0,0 +1,216 @@
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { BinaryFileView } from '@/components/binary-file-view';
+import { ConfirmDialog } from '@/components/confirm-dialog';
+import { FileEditorLayout } from '@/components/file-editor-layout';
+import { api } from '@/lib/api';
+import type { TrashItem, TrashItemPreview, TrashOrigin } from '@/lib/api';
+import { cn, formatBytes, formatDate } from '@/lib/utils';
+
+const ORIGIN_LABELS: Record<TrashOrigin, string> = {
+  file_deleted: 'Deleted',
+  conflict_deleted: 'Conflict deleted',
+  target_removed: 'Removed with its store files',
+};
+
+export function TrashPage() {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<TrashItemPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [showEmptyConfirm, setShowEmptyConfirm] = useState(false);
+  const selected = items.find((i) => i.id === selectedId) ?? null;
+
+  const fetchItems = async () => {
+    try {
+      const data = await api.trash.list();
+      setItems(data.items);
+      setRetentionDays(data.retentionDays);
+      setSelectedId((current) => (data.items.some((i) => i.id === current) ? current : null));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchItems().catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    setPreview(null);
+    setPreviewError(null);
+    if (!selectedId) return;
+    api.trash
+      .get(selectedId)
+      .then(setPreview)
+      .catch((err) => setPreviewError(err instanceof Error ? err.message : 'Failed to load'));
+  }, [selectedId]);
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusy(true);
+    try {
+      const result = await api.trash.restore(item.id);
+      toast.success(
+        result.restoredToTarget
+          ? `Restored ${item.relativePath} to ${item.targetName}`
+          : `Restored ${item.relativePath} to the store`,
+      );
+      await fetchItems();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Restore failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (item: TrashItem) => {
+    setBusy(true);
+    try {
+      await api.trash.delete(item.id);
+      await fetchItems();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEmpty = async () => {
+    try {
+      const result = await api.trash.empty();
+      toast.success(`Deleted ${result.deleted} file${result.deleted !== 1 ? 's' : ''} for good`);
+      await fetchItems();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to empty the trash');
+    }
+  };
+
+  return (
+    <div className="flex flex-1 min-h-0 flex-col gap-6 overflow-hidden p-4 md:p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold tracking-tight">Trash</h2>
+          <p className="text-sm text-muted-foreground">
+            Files deleted from the store, deleted while resolving a conflict, or removed with their
+            repo or service.{' '}
+            {retentionDays === 0
+              ? 'They are kept until you delete them.'
+              : retentionDays !== null &&
+                `They are kept for ${retentionDays} day${retentionDays !== 1 ? 's' : ''}; change this in Settings.`}
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          className="shrink-0"
+          onClick={() => setShowEmptyConfirm(true)}
+          disabled={items.length === 0}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+          Empty trash
+        </Button>
+      </div>
+
+      <FileEditorLayout
+        listTitle="Deleted Files"
+        listContent={
+          loading ? (
+            <p className="text-sm text-muted-foreground p-2">Loading...</p>
+          ) : items.length === 0 ? (
+            <p className="text-sm text-muted-foreground p-2">The trash is empty</p>
+          ) : (
+            <div className="space-y-0.5">
+              {items.map((item) => (
+                <button
+                  key={item.id}
+                  type="button"
+                  onClick={() => setSelectedId(item.id)}
+                  className={cn(
+                    'w-full rounded-md px-2 py-1.5 text-left hover:bg-muted',
+                    item.id === selectedId && 'bg-muted',
+                  )}
+                >
+                  <div className="truncate font-mono text-xs">{item.relativePath}</div>
+                  <div className="truncate text-xs text-muted-foreground">
+                    {item.targetName} · {formatDate(item.deletedAt)} · {item.machineName}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )
+        }
+        selectedFile={selected?.relativePath ?? null}
+        emptyText="Select a deleted file to preview it"
+      >
+        {(toolbarEl) =>
+          selected && (
+            <div className="flex h-full min-h-0 flex-col">
+              {toolbarEl &&
+                createPortal(
+                  <>
+                    <Button size="sm" onClick={() => handleRestore(selected)} disabled={busy}>
+                      {busy ? (
+                        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-3.5 w-3.5" />
+                      )}
+                      Restore
+                    </Button>
+                    <Button
+                      size="icon-sm"
+                      variant="ghost"
+                      onClick={() => handleDelete(selected)}
+                      disabled={busy}
+                      title="Delete for good"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </>,
+                  toolbarEl,
+                )}
+              <div className="flex flex-wrap items-center gap-2 border-b px-3 py-1.5 text-xs text-muted-foreground">
+                <Badge variant={selected.origin === 'file_deleted' ? 'secondary' : 'warning'}>
+                  {ORIGIN_LABELS[selected.origin]}
+                </Badge>
+                <span>
+                  From the {selected.source} of {selected.targetName} on {selected.machineName},{' '}
+                  {formatDate(selected.deletedAt)} · {formatBytes(selected.size)}
+                </span>
+              </div>
+              <div className="flex-1 min-h-0 overflow-auto">
+                {previewError ? (
+                  <p className="p-4 text-sm text-destructive">{previewError}</p>
+                ) : !preview ? (
+                  <Loader2 className="m-4 h-4 w-4 animate-spin text-muted-foreground" />
+                ) : preview.file.type === 'binary' ? (
+                  <BinaryFileView {...preview.file} label={selected.relativePath} />
+                ) : (
+                  <pre className="p-4 font-mono text-xs whitespace-pre-wrap break-words">
+                    {preview.file.content}
+                  </pre>
+                )}
+              </div>
+            </div>
+          )
+        }
+      </FileEditorLayout>
+
+      <ConfirmDialog
+        open={showEmptyConfirm}
+        onOpenChange={setShowEmptyConfirm}
+        onConfirm={handleEmpty}
+        title="Empty the trash?"
+        description={`${items.length} deleted file${items.length !== 1 ? 's' : ''} will be gone for good. This cannot be undone.`}
+        confirmLabel="Empty trash"
+        variant="destructive"
+      />
+    </div>
+  );
+}